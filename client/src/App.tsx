@@ -13,6 +13,8 @@ import OnboardingPage from "@/pages/onboarding/onboarding";
 import Dashboard from "@/pages/dashboard";
 import EmployeesList from "@/pages/employees/employees-list";
 import EmployeeForm from "@/pages/employees/employee-form";
+import EmployeeImport from "@/pages/employees/employee-import";
+import EmployeeDuplicates from "@/pages/employees/employee-duplicates";
 import EmployeeProfile from "@/pages/employees/employee-profile";
 import EmployeePortal from "@/pages/employee-portal";
 import Documents from "@/pages/documents";
@@ -20,7 +22,10 @@ import Reports from "@/pages/reports";
 import Audits from "@/pages/audits";
 import Settings from "@/pages/settings";
 import ApiKeysPage from "@/pages/settings/api-keys";
+import WebhooksPage from "@/pages/settings/webhooks";
+import ApiDocsPage from "@/pages/settings/api-docs";
 import UsersManagement from "@/pages/settings/users";
+import RolesPage from "@/pages/settings/roles";
 import LocationsPage from "@/pages/compliance/locations";
 import LicensesPage from "@/pages/compliance/licenses";
 import LicenseTypesPage from "@/pages/compliance/license-types";
@@ -42,6 +47,8 @@ function Router() {
       <ProtectedRoute path="/employee-portal" component={EmployeePortal} />
       {/* More specific routes must come before less specific ones */}
       <ProtectedRoute path="/employees/new" component={() => <EmployeeForm />} />
+      <ProtectedRoute path="/employees/import" component={EmployeeImport} />
+      <ProtectedRoute path="/employees/duplicates" component={EmployeeDuplicates} />
       <ProtectedRoute path="/employees/:id/edit" component={() => <EmployeeForm />} />
       <ProtectedRoute path="/employees/:id" component={EmployeeProfile} />
       <ProtectedRoute path="/employees" component={EmployeesList} />
@@ -60,7 +67,10 @@ function Router() {
       <ProtectedRoute path="/tasks" component={TasksList} />
       <ProtectedRoute path="/settings" component={Settings} />
       <ProtectedRoute path="/settings/api-keys" component={ApiKeysPage} />
+      <ProtectedRoute path="/settings/webhooks" component={WebhooksPage} />
+      <ProtectedRoute path="/settings/api-docs" component={ApiDocsPage} />
       <ProtectedRoute path="/settings/users" component={UsersManagement} />
+      <ProtectedRoute path="/settings/roles" component={RolesPage} />
       <ProtectedRoute path="/settings/audits-management" component={AuditsManagement} />
       <ProtectedRoute path="/settings/template-management" component={TemplateManagement} />
       <ProtectedRoute path="/test-date-validation" component={DateValidationTest} />
@@ -0,0 +1,114 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { Monitor, LogOut } from "lucide-react";
+import type { ActiveSession } from "@shared/schema";
+
+interface ActiveSessionsListProps {
+  endpoint: string;
+  revokeAllLabel?: string;
+}
+
+/**
+ * List of signed-in sessions with remote sign-out
+ *
+ * @component
+ * @param {ActiveSessionsListProps} props - Component configuration
+ * @param {string} props.endpoint - Sessions endpoint (/api/sessions or /api/admin/users/:id/sessions)
+ * @param {string} [props.revokeAllLabel] - Label for the sign-out-everywhere button
+ * @returns {JSX.Element} Session list
+ *
+ * @description
+ * - Shows device, IP address and last activity for each session
+ * - Marks the session of the current browser, which cannot be revoked here
+ * - DELETE `${endpoint}/:id` signs out one session, DELETE `${endpoint}` signs out the rest
+ */
+export function ActiveSessionsList({
+  endpoint,
+  revokeAllLabel = "Sign Out All Other Sessions"
+}: ActiveSessionsListProps) {
+  const { toast } = useToast();
+
+  const { data: sessions, isLoading } = useQuery<ActiveSession[]>({
+    queryKey: [endpoint]
+  });
+
+  const revokeMutation = useMutation({
+    mutationFn: async (sessionId?: string) => {
+      const response = await apiRequest("DELETE", sessionId ? `${endpoint}/${sessionId}` : endpoint);
+      return await response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({ title: "Signed out", description: data.message });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to sign out", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const otherSessions = sessions?.filter(session => !session.current) || [];
+
+  return (
+    <div className="space-y-2" data-testid="list-active-sessions">
+      {sessions?.length === 0 && (
+        <p className="text-sm text-muted-foreground">No active sessions.</p>
+      )}
+      {sessions?.map(session => (
+        <div
+          key={session.id}
+          className="flex items-center justify-between gap-3 rounded-md border p-3"
+          data-testid={`row-session-${session.id}`}
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <Monitor className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {session.device}
+                {session.current && (
+                  <Badge variant="secondary" className="ml-2">This device</Badge>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                {session.ipAddress || "Unknown IP"}
+                {session.lastActiveAt && ` · Active ${formatDistanceToNow(new Date(session.lastActiveAt), { addSuffix: true })}`}
+              </p>
+            </div>
+          </div>
+          {!session.current && (
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              disabled={revokeMutation.isPending}
+              onClick={() => revokeMutation.mutate(session.id)}
+              data-testid={`button-revoke-session-${session.id}`}
+            >
+              <LogOut className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      ))}
+      {otherSessions.length > 0 && (
+        <Button
+          type="button"
+          variant="outline"
+          className="w-full"
+          disabled={revokeMutation.isPending}
+          onClick={() => revokeMutation.mutate(undefined)}
+          data-testid="button-revoke-all-sessions"
+        >
+          {revokeAllLabel}
+        </Button>
+      )}
+    </div>
+  );
+}
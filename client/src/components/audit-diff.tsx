@@ -0,0 +1,74 @@
+import { Badge } from "@/components/ui/badge";
+import { Lock } from "lucide-react";
+import type { AuditFieldChange } from "@shared/schema";
+
+interface AuditDiffProps {
+  changes: AuditFieldChange[];
+}
+
+/**
+ * Render a diffed value compactly
+ * @param {unknown} value - Field value
+ * @returns {string} Display text
+ */
+const formatValue = (value: unknown): string => {
+  if (value === null || value === undefined || value === "") return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+};
+
+/**
+ * Field-level diff of an audit entry
+ *
+ * @component
+ * @param {AuditDiffProps} props - Changed fields as returned by GET /api/audits
+ * @returns {JSX.Element} Table of changed fields with before and after values
+ *
+ * @description
+ * - Added fields show only the new value, removed fields only the old one
+ * - Sensitive fields are masked by the server and marked with a lock
+ */
+export function AuditDiff({ changes }: AuditDiffProps) {
+  if (changes.length === 0) {
+    return <p className="text-sm text-muted-foreground">No field changes recorded.</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto border rounded" data-testid="audit-diff">
+      <table className="w-full text-sm">
+        <thead className="bg-muted">
+          <tr>
+            <th className="text-left p-2 font-medium">Field</th>
+            <th className="text-left p-2 font-medium">Before</th>
+            <th className="text-left p-2 font-medium">After</th>
+          </tr>
+        </thead>
+        <tbody>
+          {changes.map((change) => (
+            <tr key={change.field} className="border-t border-border align-top" data-testid={`audit-diff-${change.field}`}>
+              <td className="p-2 font-mono whitespace-nowrap">
+                <span className="flex items-center gap-1">
+                  {change.masked && <Lock className="w-3 h-3 text-muted-foreground" />}
+                  {change.field}
+                  {change.change !== "changed" && (
+                    <Badge variant="outline" className="ml-1 text-xs">{change.change}</Badge>
+                  )}
+                </span>
+              </td>
+              <td className="p-2 font-mono break-all">
+                {change.change !== "added" && (
+                  <span className="bg-destructive/10 text-destructive rounded px-1">{formatValue(change.oldValue)}</span>
+                )}
+              </td>
+              <td className="p-2 font-mono break-all">
+                {change.change !== "removed" && (
+                  <span className="bg-secondary/10 text-secondary rounded px-1">{formatValue(change.newValue)}</span>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { ShieldCheck, ShieldAlert, Download, Link2, Stamp } from "lucide-react";
+import type { AuditChainVerification, AuditCheckpoint } from "@shared/schema";
+
+interface CheckpointsResponse {
+  checkpoints: AuditCheckpoint[];
+  publicKey: string;
+}
+
+/**
+ * Readable descriptions of chain and checkpoint failures
+ */
+const BREAK_REASONS: Record<string, string> = {
+  hash_mismatch: "Row content no longer matches its hash (edited)",
+  previous_hash_mismatch: "Link to the previous row is broken (row deleted, inserted or reordered)",
+  missing_hash: "Row has no hash (inserted outside the application)",
+  invalid_signature: "Checkpoint signature is invalid",
+  audit_missing: "Audit row the checkpoint points to is gone",
+};
+
+/**
+ * Audit log integrity panel for administrators
+ *
+ * @component
+ * @returns {JSX.Element} Chain verification and checkpoint list
+ *
+ * @description
+ * - Verifies the audit hash chain on demand and lists every break found
+ * - Checks the signed daily checkpoints against the current chain
+ * - Downloads signed checkpoints (JSON with Ed25519 signature and public key)
+ *   for safekeeping outside the system
+ */
+export function AuditIntegrityPanel() {
+  const { toast } = useToast();
+
+  const { data: checkpointData, isLoading: checkpointsLoading } = useQuery<CheckpointsResponse>({
+    queryKey: ["/api/audits/checkpoints"],
+  });
+
+  const verifyMutation = useMutation({
+    mutationFn: async (): Promise<AuditChainVerification> => {
+      const response = await apiRequest("GET", "/api/audits/verify");
+      return response.json();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Verification failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const checkpointMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/audits/checkpoints", {});
+      return response.json();
+    },
+    onSuccess: (checkpoint: AuditCheckpoint) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits/checkpoints"] });
+      toast({ title: "Checkpoint ready", description: `Signed checkpoint for ${checkpoint.checkpointDate}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to create checkpoint", description: error.message, variant: "destructive" });
+    },
+  });
+
+  /**
+   * Download the signed export of a checkpoint
+   * @param {string} date - Checkpoint day (YYYY-MM-DD)
+   */
+  const downloadCheckpoint = async (date: string) => {
+    try {
+      const response = await apiRequest("GET", `/api/audits/checkpoints/${date}/export`);
+      const blob = new Blob([JSON.stringify(await response.json(), null, 2)], { type: "application/json" });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = `audit-checkpoint-${date}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      toast({ title: "Download failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  const result = verifyMutation.data;
+
+  return (
+    <Card data-testid="card-audit-integrity">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Link2 className="h-5 w-5" />
+            Audit Log Integrity
+          </CardTitle>
+          <CardDescription>
+            Every audit entry is hash-chained to the one before it. Verification recomputes the
+            chain and checks it against the signed daily checkpoints.
+          </CardDescription>
+        </div>
+        <Button
+          onClick={() => verifyMutation.mutate()}
+          disabled={verifyMutation.isPending}
+          data-testid="button-verify-audit-chain"
+        >
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          {verifyMutation.isPending ? "Verifying..." : "Verify Chain"}
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {result && (
+          <Alert variant={result.valid ? "default" : "destructive"} data-testid="alert-audit-verification">
+            {result.valid ? <ShieldCheck className="h-4 w-4" /> : <ShieldAlert className="h-4 w-4" />}
+            <AlertTitle>
+              {result.valid ? "Audit log intact" : "Audit log has been altered"}
+            </AlertTitle>
+            <AlertDescription>
+              <p>
+                {result.checked} chained entries and {result.checkpoints.checked} checkpoints checked
+                {result.legacyRows > 0 && ` (${result.legacyRows} older entries were written before chaining and carry no hash)`}
+                {result.archivedGaps > 0 && `; ${result.archivedGaps} gaps are entries archived by retention`}
+                {" "}at {format(new Date(result.verifiedAt), "MMM d, yyyy HH:mm:ss")}.
+              </p>
+              {result.breaks.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-sm">
+                  {result.breaks.map((entry) => (
+                    <li key={`${entry.auditId}-${entry.reason}`} data-testid={`text-chain-break-${entry.auditId}`}>
+                      Entry #{entry.auditId}: {BREAK_REASONS[entry.reason]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+              {result.checkpoints.failures.length > 0 && (
+                <ul className="mt-2 list-disc pl-5 text-sm">
+                  {result.checkpoints.failures.map((failure) => (
+                    <li key={failure.date}>
+                      Checkpoint {failure.date}: {BREAK_REASONS[failure.reason]}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex items-center justify-between">
+          <h4 className="font-semibold">Signed Daily Checkpoints</h4>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => checkpointMutation.mutate()}
+            disabled={checkpointMutation.isPending}
+            data-testid="button-create-checkpoint"
+          >
+            <Stamp className="h-4 w-4 mr-2" />
+            Checkpoint Yesterday
+          </Button>
+        </div>
+
+        {checkpointsLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : checkpointData?.checkpoints.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Day (UTC)</TableHead>
+                <TableHead>Entries</TableHead>
+                <TableHead>Last Entry</TableHead>
+                <TableHead>Last Hash</TableHead>
+                <TableHead className="text-right">Export</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {checkpointData.checkpoints.map((checkpoint) => (
+                <TableRow key={checkpoint.id} data-testid={`row-checkpoint-${checkpoint.checkpointDate}`}>
+                  <TableCell>{checkpoint.checkpointDate}</TableCell>
+                  <TableCell>{checkpoint.auditCount}</TableCell>
+                  <TableCell>
+                    {checkpoint.lastAuditId ? `#${checkpoint.lastAuditId}` : <Badge variant="secondary">None</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    <code className="text-xs" title={checkpoint.lastHash}>
+                      {checkpoint.lastHash.substring(0, 16)}…
+                    </code>
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => downloadCheckpoint(checkpoint.checkpointDate)}
+                      data-testid={`button-export-checkpoint-${checkpoint.checkpointDate}`}
+                    >
+                      <Download className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No checkpoints yet. One is signed automatically shortly after midnight UTC each day.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,447 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { AUDITED_TABLES } from "@/lib/audit-links";
+import { format } from "date-fns";
+import { Archive, ArchiveRestore, Pencil, Play, Plus, Trash2, Undo2 } from "lucide-react";
+import type { AuditArchive, AuditRetentionPolicy } from "@shared/schema";
+
+interface ArchivesResponse {
+  archives: AuditArchive[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+interface RetentionPreview {
+  policyId: number;
+  cutoff: string;
+  expiredRows: number;
+}
+
+interface RetentionRunResult {
+  archives: AuditArchive[];
+  archivedRows: number;
+  errors: Array<{ policyId: number; error: string }>;
+}
+
+/**
+ * Select value standing for "any table" / "any action"
+ */
+const ANY = "__any__";
+
+/**
+ * Audit actions offered in policy scopes
+ */
+const AUDIT_ACTIONS = ["CREATE", "UPDATE", "DELETE", "LOGIN", "ACCESS"];
+
+/**
+ * Describe the rows a policy covers
+ * @param {AuditRetentionPolicy} policy - Policy
+ * @returns {string} e.g. "ACCESS on employees" or "All audit entries"
+ */
+const describeScope = (policy: AuditRetentionPolicy): string => {
+  if (policy.tableName && policy.action) return `${policy.action} on ${policy.tableName}`;
+  if (policy.tableName) return `All actions on ${policy.tableName}`;
+  if (policy.action) return `${policy.action} on all tables`;
+  return "All audit entries";
+};
+
+/**
+ * Audit retention and archive panel for administrators
+ *
+ * @component
+ * @returns {JSX.Element} Retention policies and archive list
+ *
+ * @description
+ * - Policies set how long entries of a table and/or action stay in the live log;
+ *   the most specific policy wins and unmatched entries are kept forever
+ * - Shows how many entries each policy would archive now and runs retention on demand
+ *   (it also runs nightly)
+ * - Archived entries live in gzipped files in S3; restoring one makes its entries
+ *   searchable under "Archived History" in the audit log below
+ */
+export function AuditRetentionPanel() {
+  const { toast } = useToast();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<AuditRetentionPolicy | null>(null);
+  const [tableName, setTableName] = useState(ANY);
+  const [action, setAction] = useState(ANY);
+  const [retentionDays, setRetentionDays] = useState("2190");
+  const [description, setDescription] = useState("");
+  const [active, setActive] = useState(true);
+
+  const { data: policies, isLoading: policiesLoading } = useQuery<AuditRetentionPolicy[]>({
+    queryKey: ["/api/audits/retention/policies"],
+  });
+
+  const { data: preview = [] } = useQuery<RetentionPreview[]>({
+    queryKey: ["/api/audits/retention/preview"],
+  });
+
+  const { data: archiveData, isLoading: archivesLoading } = useQuery<ArchivesResponse>({
+    queryKey: ["/api/audits/archives"],
+  });
+
+  const expiredByPolicy = Object.fromEntries(preview.map((entry) => [entry.policyId, entry.expiredRows]));
+
+  /**
+   * Refreshes policies, preview counts and archives
+   */
+  const invalidateRetention = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/audits/retention/policies"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audits/retention/preview"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/audits/archives"] });
+  };
+
+  /**
+   * Opens the policy form, prefilled when editing
+   * @param {AuditRetentionPolicy | null} policy - Policy to edit, or null to create
+   */
+  const openForm = (policy: AuditRetentionPolicy | null) => {
+    setEditing(policy);
+    setTableName(policy?.tableName ?? ANY);
+    setAction(policy?.action ?? ANY);
+    setRetentionDays(String(policy?.retentionDays ?? 2190));
+    setDescription(policy?.description ?? "");
+    setActive(policy?.active ?? true);
+    setFormOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        tableName: tableName === ANY ? null : tableName,
+        action: action === ANY ? null : action,
+        retentionDays: parseInt(retentionDays),
+        description: description || null,
+        active,
+      };
+      const response = editing
+        ? await apiRequest("PUT", `/api/audits/retention/policies/${editing.id}`, payload)
+        : await apiRequest("POST", "/api/audits/retention/policies", payload);
+      return response.json() as Promise<AuditRetentionPolicy>;
+    },
+    onSuccess: () => {
+      setFormOpen(false);
+      invalidateRetention();
+      toast({ title: editing ? "Policy Updated" : "Policy Created" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to save policy", variant: "destructive" });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/audits/retention/policies/${id}`);
+    },
+    onSuccess: () => {
+      invalidateRetention();
+      toast({ title: "Policy Deleted", description: "Entries it covered are kept unless another policy applies." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message || "Failed to delete policy", variant: "destructive" });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: async (): Promise<RetentionRunResult> => {
+      const response = await apiRequest("POST", "/api/audits/retention/run");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      invalidateRetention();
+      queryClient.invalidateQueries({ queryKey: ["/api/audits"] });
+      toast({
+        title: result.errors.length > 0 ? "Retention finished with errors" : "Retention finished",
+        description: `${result.archivedRows} entries archived into ${result.archives.length} files.` +
+          (result.errors.length > 0 ? ` ${result.errors.map((entry) => entry.error).join("; ")}` : ""),
+        variant: result.errors.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Retention failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const restoreMutation = useMutation({
+    mutationFn: async ({ archive, restore }: { archive: AuditArchive; restore: boolean }) => {
+      const response = await apiRequest(restore ? "POST" : "DELETE", `/api/audits/archives/${archive.id}/restore`);
+      return response.json() as Promise<{ restoredRows?: number; invalidRows?: number[] }>;
+    },
+    onSuccess: (result, { restore }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/audits/archives"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/audits/archived"] });
+      if (!restore) {
+        toast({ title: "Archive Unloaded", description: "The archive file is kept and can be restored again." });
+      } else if (result.invalidRows?.length) {
+        toast({
+          title: "Archive restored with altered entries",
+          description: `Entries ${result.invalidRows.map((id) => `#${id}`).join(", ")} no longer match their hash.`,
+          variant: "destructive",
+        });
+      } else {
+        toast({ title: "Archive Restored", description: `${result.restoredRows} entries can now be searched under Archived History.` });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Card data-testid="card-audit-retention">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Audit Retention
+          </CardTitle>
+          <CardDescription>
+            Entries past their retention period are archived to S3 nightly and removed from the live log.
+            Entries no policy matches are kept forever.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => runMutation.mutate()}
+            disabled={runMutation.isPending}
+            data-testid="button-run-retention"
+          >
+            <Play className="h-4 w-4 mr-2" />
+            {runMutation.isPending ? "Archiving..." : "Run Now"}
+          </Button>
+          <Button onClick={() => openForm(null)} data-testid="button-add-retention-policy">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Policy
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {policiesLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : policies?.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Applies To</TableHead>
+                <TableHead>Retention</TableHead>
+                <TableHead>Due for Archive</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {policies.map((policy) => (
+                <TableRow key={policy.id} data-testid={`row-retention-policy-${policy.id}`}>
+                  <TableCell>
+                    <p className="font-medium">{describeScope(policy)}</p>
+                    {policy.description && <p className="text-xs text-muted-foreground">{policy.description}</p>}
+                  </TableCell>
+                  <TableCell>{policy.retentionDays} days</TableCell>
+                  <TableCell>{policy.active ? (expiredByPolicy[policy.id] ?? "—") : "—"}</TableCell>
+                  <TableCell>
+                    {policy.active ? <Badge variant="outline">Active</Badge> : <Badge variant="secondary">Paused</Badge>}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => openForm(policy)}
+                      data-testid={`button-edit-retention-policy-${policy.id}`}
+                    >
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => deleteMutation.mutate(policy.id)}
+                      disabled={deleteMutation.isPending}
+                      data-testid={`button-delete-retention-policy-${policy.id}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No retention policies. Every audit entry is kept in the live log.</p>
+        )}
+
+        <div>
+          <h4 className="font-semibold mb-2">Archives</h4>
+          {archivesLoading ? (
+            <Skeleton className="h-24 w-full" />
+          ) : archiveData?.archives.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Entries</TableHead>
+                  <TableHead>Period</TableHead>
+                  <TableHead>Size</TableHead>
+                  <TableHead>Archived</TableHead>
+                  <TableHead className="text-right">Searchable</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {archiveData.archives.map((archive) => (
+                  <TableRow key={archive.id} data-testid={`row-audit-archive-${archive.id}`}>
+                    <TableCell>
+                      {archive.rowCount}
+                      <p className="text-xs text-muted-foreground">#{archive.firstAuditId}–#{archive.lastAuditId}</p>
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {archive.firstChangedAt && format(new Date(archive.firstChangedAt), "MMM d, yyyy")}
+                      {" – "}
+                      {archive.lastChangedAt && format(new Date(archive.lastChangedAt), "MMM d, yyyy")}
+                    </TableCell>
+                    <TableCell className="text-sm">{(archive.sizeBytes / 1024).toFixed(1)} KB</TableCell>
+                    <TableCell className="text-sm">{format(new Date(archive.createdAt), "PPp")}</TableCell>
+                    <TableCell className="text-right">
+                      {archive.restoredAt ? (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate({ archive, restore: false })}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-unload-archive-${archive.id}`}
+                        >
+                          <Undo2 className="h-4 w-4 mr-1" />
+                          Unload
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => restoreMutation.mutate({ archive, restore: true })}
+                          disabled={restoreMutation.isPending}
+                          data-testid={`button-restore-archive-${archive.id}`}
+                        >
+                          <ArchiveRestore className="h-4 w-4 mr-1" />
+                          Restore
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground">Nothing has been archived yet.</p>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Retention Policy" : "Add Retention Policy"}</DialogTitle>
+            <DialogDescription>
+              The most specific policy matching an entry decides how long it stays in the live log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Table</Label>
+                <Select value={tableName} onValueChange={setTableName}>
+                  <SelectTrigger data-testid="select-retention-table">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All tables</SelectItem>
+                    {AUDITED_TABLES.map((table) => (
+                      <SelectItem key={table} value={table}>{table}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Action</Label>
+                <Select value={action} onValueChange={setAction}>
+                  <SelectTrigger data-testid="select-retention-action">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ANY}>All actions</SelectItem>
+                    {AUDIT_ACTIONS.map((value) => (
+                      <SelectItem key={value} value={value}>{value}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div>
+              <Label htmlFor="retentionDays">Keep for (days)</Label>
+              <Input
+                id="retentionDays"
+                type="number"
+                min={30}
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                data-testid="input-retention-days"
+              />
+              <p className="text-xs text-muted-foreground mt-1">At least 30 days. HIPAA documentation is commonly kept for 6 years (2190 days).</p>
+            </div>
+            <div>
+              <Label htmlFor="retentionDescription">Description</Label>
+              <Textarea
+                id="retentionDescription"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Why this period applies"
+                data-testid="input-retention-description"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={active} onCheckedChange={setActive} id="retentionActive" data-testid="switch-retention-active" />
+              <Label htmlFor="retentionActive">Active (paused policies keep their entries)</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={saveMutation.isPending} data-testid="button-save-retention-policy">
+              {saveMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
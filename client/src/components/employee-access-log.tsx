@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { format } from "date-fns";
+import { Eye, Download } from "lucide-react";
+import type { AccessEvent } from "@shared/schema";
+
+interface AccessLogResponse {
+  events: AccessEvent[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+/**
+ * Readable names of the logged sensitive fields
+ */
+const FIELD_LABELS: Record<string, string> = {
+  ssn: "SSN",
+  dateOfBirth: "Date of Birth",
+  driversLicenseNumber: "Driver's License",
+  deaNumber: "DEA Number",
+  medicaidNumber: "Medicaid Number",
+  medicarePtanNumber: "Medicare PTAN",
+  caqhProviderId: "CAQH Provider ID",
+  caqhLoginId: "CAQH Login",
+  caqhPassword: "CAQH Password",
+  nppesLoginId: "NPPES Login",
+  nppesPassword: "NPPES Password",
+};
+
+interface EmployeeAccessLogProps {
+  /** Report endpoint: /api/employees/:id/access-log, or /api/employee/access-log for the signed-in employee */
+  endpoint: string;
+  title?: string;
+  description?: string;
+}
+
+/**
+ * Who-accessed-this-record report
+ *
+ * @component
+ * @param {EmployeeAccessLogProps} props - Report endpoint and heading
+ * @returns {JSX.Element} Paginated list of sensitive-field reads and document downloads
+ */
+export function EmployeeAccessLog({
+  endpoint,
+  title = "Access Log",
+  description = "Who viewed sensitive fields of this record or downloaded its documents.",
+}: EmployeeAccessLogProps) {
+  const [page, setPage] = useState(1);
+
+  const { data, isLoading } = useQuery<AccessLogResponse>({
+    queryKey: [endpoint, page],
+    queryFn: async () => {
+      const res = await fetch(`${endpoint}?page=${page}&limit=25`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch access log");
+      return res.json();
+    },
+  });
+
+  return (
+    <Card data-testid="card-access-log">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Eye className="h-5 w-5" />
+          {title}
+        </CardTitle>
+        <CardDescription>{description}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : data?.events.length ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Who</TableHead>
+                <TableHead>What</TableHead>
+                <TableHead>From</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {data.events.map((event) => (
+                <TableRow key={event.id} data-testid={`row-access-event-${event.id}`}>
+                  <TableCell className="whitespace-nowrap">
+                    {event.accessedAt ? format(new Date(event.accessedAt), "MMM d, yyyy HH:mm") : "—"}
+                  </TableCell>
+                  <TableCell>
+                    {event.username ?? (event.accessedBy ? `User #${event.accessedBy}` : "Unknown")}
+                    {event.apiKeyId && <Badge variant="outline" className="ml-2">API key</Badge>}
+                    {event.impersonatedBy && <Badge variant="secondary" className="ml-2">Impersonated</Badge>}
+                  </TableCell>
+                  <TableCell>
+                    {event.event === "document_download" ? (
+                      <span className="flex items-center gap-1">
+                        <Download className="h-4 w-4" />
+                        {event.fileName ?? `Document #${event.documentId}`}
+                        {event.documentType && <span className="text-muted-foreground">({event.documentType})</span>}
+                      </span>
+                    ) : (
+                      <div className="flex flex-wrap gap-1">
+                        {event.fields.map((field) => (
+                          <Badge key={field} variant="secondary">{FIELD_LABELS[field] ?? field}</Badge>
+                        ))}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground text-sm">{event.ipAddress ?? "—"}</TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No access has been recorded yet.</p>
+        )}
+
+        {data && data.totalPages > 1 && (
+          <div className="flex items-center justify-between">
+            <p className="text-sm text-muted-foreground">
+              Page {data.page} of {data.totalPages} ({data.total} events)
+            </p>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+                Previous
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= data.totalPages}>
+                Next
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,252 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { UserMinus, XCircle } from "lucide-react";
+import type { EmployeeSeparation } from "@shared/schema";
+
+const REASON_LABELS: Record<string, string> = {
+  resignation: "Resignation",
+  termination: "Termination",
+  retirement: "Retirement",
+  layoff: "Layoff",
+  contract_end: "End of contract",
+  other: "Other",
+};
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "outline"> = {
+  scheduled: "default",
+  completed: "secondary",
+  cancelled: "outline",
+};
+
+interface EmployeeOffboardingProps {
+  employeeId: number;
+  employeeName: string;
+}
+
+/**
+ * Offboarding tab of the employee profile: start a separation with its
+ * termination date, reason and rehire eligibility, cancel it before that
+ * date, and review past separations
+ *
+ * @component
+ * @param {EmployeeOffboardingProps} props - Employee being offboarded
+ * @returns {JSX.Element} Offboarding form and separation history
+ */
+export function EmployeeOffboarding({ employeeId, employeeName }: EmployeeOffboardingProps) {
+  const { toast } = useToast();
+  const [terminationDate, setTerminationDate] = useState("");
+  const [reason, setReason] = useState("resignation");
+  const [reasonDetails, setReasonDetails] = useState("");
+  const [eligibleForRehire, setEligibleForRehire] = useState(true);
+  const [confirming, setConfirming] = useState(false);
+
+  const endpoint = `/api/employees/${employeeId}/offboarding`;
+  const { data: separations = [], isLoading } = useQuery<EmployeeSeparation[]>({
+    queryKey: [endpoint],
+  });
+  const scheduled = separations.find(separation => separation.status === "scheduled");
+  const terminated = separations.some(separation => separation.status === "completed");
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: [endpoint] });
+    queryClient.invalidateQueries({ queryKey: ["/api/employees", employeeId] });
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/tasks") });
+  };
+
+  const startMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", endpoint, {
+      terminationDate,
+      reason,
+      reasonDetails: reasonDetails.trim() || null,
+      eligibleForRehire,
+    })).json() as Promise<{ separation: EmployeeSeparation; tasks: unknown[] }>,
+    onSuccess: ({ separation, tasks }) => {
+      invalidate();
+      setConfirming(false);
+      toast({
+        title: separation.status === "completed" ? "Employee terminated" : "Offboarding scheduled",
+        description: `${tasks.length} offboarding tasks created`,
+      });
+    },
+    onError: (error: Error) => {
+      setConfirming(false);
+      toast({ title: "Could not start offboarding", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async () => apiRequest("POST", `${endpoint}/cancel`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Offboarding cancelled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel offboarding", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      {!isLoading && !scheduled && !terminated && (
+        <Card data-testid="card-start-offboarding">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserMinus className="h-5 w-5" />
+              Start Offboarding
+            </CardTitle>
+            <CardDescription>
+              Creates tasks to collect equipment and notify payers. On the termination date the employee's
+              account is disabled, payer enrollments end and clinic license assignments are released.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid gap-4 md:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="termination-date">Termination date</Label>
+                <Input
+                  id="termination-date"
+                  type="date"
+                  value={terminationDate}
+                  onChange={(event) => setTerminationDate(event.target.value)}
+                  data-testid="input-termination-date"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Reason</Label>
+                <Select value={reason} onValueChange={setReason}>
+                  <SelectTrigger data-testid="select-separation-reason">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REASON_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reason-details">Notes</Label>
+              <Textarea
+                id="reason-details"
+                value={reasonDetails}
+                onChange={(event) => setReasonDetails(event.target.value)}
+                data-testid="input-reason-details"
+              />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                id="eligible-for-rehire"
+                checked={eligibleForRehire}
+                onCheckedChange={setEligibleForRehire}
+                data-testid="switch-eligible-for-rehire"
+              />
+              <Label htmlFor="eligible-for-rehire">Eligible for rehire</Label>
+            </div>
+            <Button
+              variant="destructive"
+              onClick={() => setConfirming(true)}
+              disabled={!terminationDate || startMutation.isPending}
+              data-testid="button-start-offboarding"
+            >
+              Start offboarding
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card data-testid="card-separations">
+        <CardHeader>
+          <CardTitle>Separation History</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading && <p className="text-muted-foreground">Loading...</p>}
+          {!isLoading && separations.length === 0 && (
+            <p className="text-muted-foreground">No offboarding on record</p>
+          )}
+          {separations.map(separation => (
+            <div key={separation.id} className="space-y-2 rounded-md border p-4" data-testid={`separation-${separation.id}`}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2">
+                  <Badge variant={STATUS_VARIANTS[separation.status] ?? "outline"}>{separation.status}</Badge>
+                  <span className="font-medium">{REASON_LABELS[separation.reason] ?? separation.reason}</span>
+                  <span className="text-muted-foreground">· last day {separation.terminationDate}</span>
+                </div>
+                {separation.status === "scheduled" && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => cancelMutation.mutate()}
+                    disabled={cancelMutation.isPending}
+                    data-testid="button-cancel-offboarding"
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel offboarding
+                  </Button>
+                )}
+              </div>
+              <p className="text-sm">{separation.eligibleForRehire ? "Eligible for rehire" : "Not eligible for rehire"}</p>
+              {separation.reasonDetails && <p className="text-sm text-muted-foreground">{separation.reasonDetails}</p>}
+              {separation.summary && (
+                <p className="text-sm text-muted-foreground">
+                  {separation.summary.userId ? "Account disabled, " : ""}
+                  {separation.summary.revokedApiKeys} API keys revoked,{" "}
+                  {separation.summary.endedPayerEnrollments.length} payer enrollments ended,{" "}
+                  {separation.summary.releasedClinicLicenses.length} clinic license assignments released
+                </p>
+              )}
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Offboard {employeeName}</AlertDialogTitle>
+            <AlertDialogDescription>
+              On {terminationDate} {employeeName} will be terminated, their portal account disabled and
+              their payer enrollments ended. A past or current date takes effect immediately.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-confirm-offboarding">Back</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => startMutation.mutate()}
+              disabled={startMutation.isPending}
+              data-testid="button-confirm-offboarding"
+            >
+              Start offboarding
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
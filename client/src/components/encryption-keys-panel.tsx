@@ -0,0 +1,247 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { KeyRound, RefreshCw, Square } from "lucide-react";
+import type { EncryptionJob } from "@shared/schema";
+
+interface EncryptionStatus {
+  provider: string;
+  activeKeyId: string;
+  keyIds: string[];
+  canCreateKeys: boolean;
+  jobs: EncryptionJob[];
+}
+
+/**
+ * Tables the re-encryption job walks, in order (mirrors the server)
+ */
+const JOB_TABLES = [
+  "users",
+  "employees",
+  "dea_licenses",
+  "emergency_contacts",
+  "s3_configuration",
+  "ses_configurations",
+  "docuseal_configurations",
+  "webhook_endpoints",
+  "api_keys",
+];
+
+/**
+ * Badge variant per job status
+ */
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  running: "default",
+  completed: "secondary",
+  cancelled: "outline",
+};
+
+/**
+ * Encryption key panel for administrators
+ *
+ * @component
+ * @returns {JSX.Element} Key configuration and re-encryption jobs
+ *
+ * @description
+ * - Shows the key provider, the active key and every key still available for reading
+ * - Creates a new key when the provider manages its own keys (local KMS stand-in)
+ * - Starts and cancels the background job that moves stored values to the active key,
+ *   refreshing its progress while it runs
+ */
+export function EncryptionKeysPanel() {
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<EncryptionStatus>({
+    queryKey: ["/api/admin/encryption"],
+    refetchInterval: (query) => query.state.data?.jobs.some((job) => job.status === "running") ? 10000 : false,
+  });
+
+  const runningJob = status?.jobs.find((job) => job.status === "running");
+
+  const rotateMutation = useMutation({
+    mutationFn: async (): Promise<EncryptionStatus> => {
+      const response = await apiRequest("POST", "/api/admin/encryption/keys");
+      return response.json();
+    },
+    onSuccess: (result) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/encryption"] });
+      toast({ title: "Key Rotated", description: `New values are encrypted under ${result.activeKeyId}. Start re-encryption to move existing values.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const startMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/admin/encryption/jobs");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/encryption"] });
+      toast({ title: "Re-encryption Started", description: "Stored values are moved to the active key in the background." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("POST", `/api/admin/encryption/jobs/${id}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/encryption"] });
+      toast({ title: "Re-encryption Cancelled", description: "Values already moved keep the new key." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    },
+  });
+
+  /**
+   * Rough progress of a job by the table it is working on
+   * @param {EncryptionJob} job - Job
+   * @returns {number} Percentage
+   */
+  const jobProgress = (job: EncryptionJob) => {
+    if (job.status === "completed") return 100;
+    const index = Math.max(JOB_TABLES.indexOf(job.currentTable ?? ""), 0);
+    return Math.round((index / JOB_TABLES.length) * 100);
+  };
+
+  return (
+    <Card data-testid="card-encryption-keys">
+      <CardHeader className="flex flex-row items-start justify-between gap-4 space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <KeyRound className="h-5 w-5" />
+            Encryption Keys
+          </CardTitle>
+          <CardDescription>
+            Employee PHI/PII, credentials and secrets are encrypted under the active key. After rotating,
+            re-encrypt to move existing values; keep old keys until audit entries written under them expire.
+          </CardDescription>
+        </div>
+        <div className="flex gap-2">
+          {status?.canCreateKeys && (
+            <Button
+              variant="outline"
+              onClick={() => rotateMutation.mutate()}
+              disabled={rotateMutation.isPending}
+              data-testid="button-rotate-encryption-key"
+            >
+              <KeyRound className="h-4 w-4 mr-2" />
+              {rotateMutation.isPending ? "Rotating..." : "Rotate Key"}
+            </Button>
+          )}
+          <Button
+            onClick={() => startMutation.mutate()}
+            disabled={!!runningJob || startMutation.isPending}
+            data-testid="button-start-reencryption"
+          >
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Re-encrypt Data
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading || !status ? (
+          <Skeleton className="h-24 w-full" />
+        ) : (
+          <>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Provider:</span>
+              <Badge variant="outline">{status.provider}</Badge>
+              <span className="text-muted-foreground ml-4">Keys:</span>
+              {status.keyIds.map((keyId) => (
+                <Badge
+                  key={keyId}
+                  variant={keyId === status.activeKeyId ? "default" : "secondary"}
+                  data-testid={`badge-encryption-key-${keyId}`}
+                >
+                  {keyId}{keyId === status.activeKeyId && " (active)"}
+                </Badge>
+              ))}
+            </div>
+            {!status.canCreateKeys && (
+              <p className="text-xs text-muted-foreground">
+                Keys of this provider are rotated by adding a key to ENCRYPTION_KEYS and setting ENCRYPTION_ACTIVE_KEY_ID.
+              </p>
+            )}
+
+            {status.jobs.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Started</TableHead>
+                    <TableHead>Target Key</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Progress</TableHead>
+                    <TableHead>Re-encrypted</TableHead>
+                    <TableHead>Failed</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {status.jobs.map((job) => (
+                    <TableRow key={job.id} data-testid={`row-encryption-job-${job.id}`}>
+                      <TableCell className="text-sm">{format(new Date(job.startedAt), "PPp")}</TableCell>
+                      <TableCell className="font-mono text-xs">{job.targetKeyId}</TableCell>
+                      <TableCell>
+                        <Badge variant={STATUS_VARIANTS[job.status] ?? "outline"}>{job.status}</Badge>
+                      </TableCell>
+                      <TableCell className="w-40">
+                        <Progress value={jobProgress(job)} className="h-2" />
+                        {job.status === "running" && job.currentTable && (
+                          <p className="text-xs text-muted-foreground mt-1">{job.currentTable}</p>
+                        )}
+                      </TableCell>
+                      <TableCell>{job.reencryptedValues}</TableCell>
+                      <TableCell>
+                        {job.failedValues > 0 ? (
+                          <span className="text-destructive" title={job.lastError ?? undefined}>{job.failedValues}</span>
+                        ) : (
+                          0
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {job.status === "running" && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => cancelMutation.mutate(job.id)}
+                            disabled={cancelMutation.isPending}
+                            data-testid={`button-cancel-encryption-job-${job.id}`}
+                          >
+                            <Square className="h-4 w-4 mr-1" />
+                            Cancel
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">No re-encryption jobs have run.</p>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
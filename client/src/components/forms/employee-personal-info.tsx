@@ -17,7 +17,8 @@ const personalInfoSchema = z.object({
     .string()
     .min(1, "SSN is required")
     .refine(
-      (val) => /^\d{3}-\d{2}-\d{4}$/.test(val),
+      // A masked SSN from the server keeps the stored one
+      (val) => /^\d{3}-\d{2}-\d{4}$/.test(val) || /^\*{3}-\*{2}-\d{4}$/.test(val),
       { message: "SSN must be in XXX-XX-XXXX format" }
     ),
   personalEmail: z.string().min(1, "Personal email is required").email("Invalid email address"),
@@ -33,6 +33,8 @@ const routeConfig: Record<string, { label: string; parent?: string }> = {
   "/audits": { label: "Audits", parent: "/" },
   "/settings": { label: "Settings", parent: "/" },
   "/settings/api-keys": { label: "API Keys", parent: "/settings" },
+  "/settings/webhooks": { label: "Webhooks", parent: "/settings" },
+  "/settings/api-docs": { label: "API Reference", parent: "/settings" },
   "/settings/users": { label: "User Management", parent: "/settings" },
   "/settings/template-management": { label: "Template Management", parent: "/settings" },
   "/settings/audits-management": { label: "Audit Trail", parent: "/settings" },
@@ -0,0 +1,96 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AuthUser, ImpersonationInfo } from "@/hooks/use-auth";
+import { Eye, LogOut } from "lucide-react";
+
+interface ImpersonationBannerProps {
+  user: AuthUser;
+  impersonation: ImpersonationInfo;
+}
+
+/**
+ * Format the time left before impersonation expires as m:ss
+ */
+function formatRemaining(expiresAt: string, now: number): string {
+  const seconds = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+}
+
+/**
+ * Banner shown on every page while an admin is viewing as another user
+ *
+ * @component
+ * @param {ImpersonationBannerProps} props - Effective user and impersonation details
+ * @returns {JSX.Element} Sticky warning banner
+ *
+ * @description
+ * - Names the user being viewed as and the admin behind it
+ * - Counts down the time box and reloads the user once it runs out
+ * - Shows whether changes are allowed or the session is read-only
+ * - "Stop Viewing" returns to the admin's own account
+ */
+export function ImpersonationBanner({ user, impersonation }: ImpersonationBannerProps) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const expired = new Date(impersonation.expiresAt).getTime() <= now;
+
+  // The server ends expired impersonation on the next request; fetch the admin back
+  useEffect(() => {
+    if (expired) {
+      queryClient.clear();
+      setLocation("/settings/users");
+    }
+  }, [expired, setLocation]);
+
+  const stopMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/impersonation/stop");
+      return await response.json();
+    },
+    onSuccess: () => {
+      queryClient.clear();
+      setLocation("/settings/users");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to stop viewing", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div
+      className="sticky top-0 z-50 flex flex-wrap items-center justify-between gap-2 bg-amber-500 px-6 py-2 text-sm text-amber-950"
+      data-testid="banner-impersonation"
+    >
+      <div className="flex items-center gap-2">
+        <Eye className="h-4 w-4" />
+        <span>
+          Viewing as <strong>{user.username}</strong> ({user.role}) &middot; signed in as {impersonation.impersonator.username}
+          {" "}&middot; {impersonation.allowWrites ? "changes allowed" : "read-only"}
+          {" "}&middot; ends in <span data-testid="text-impersonation-remaining">{formatRemaining(impersonation.expiresAt, now)}</span>
+        </span>
+      </div>
+      <Button
+        size="sm"
+        variant="outline"
+        className="border-amber-950 bg-transparent text-amber-950 hover:bg-amber-400"
+        onClick={() => stopMutation.mutate()}
+        disabled={stopMutation.isPending}
+        data-testid="button-stop-impersonation"
+      >
+        <LogOut className="h-4 w-4 mr-2" />
+        Stop Viewing
+      </Button>
+    </div>
+  );
+}
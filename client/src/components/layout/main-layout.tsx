@@ -2,14 +2,20 @@ import { ReactNode } from "react";
 import { Header } from "./header";
 import { Sidebar } from "./sidebar";
 import { BreadcrumbNavigation } from "./breadcrumb-navigation";
+import { ImpersonationBanner } from "./impersonation-banner";
+import { MfaEnrollmentDialog } from "@/components/mfa-enrollment-dialog";
+import { useAuth } from "@/hooks/use-auth";
 
 interface MainLayoutProps {
   children: ReactNode;
 }
 
 export function MainLayout({ children }: MainLayoutProps) {
+  const { user } = useAuth();
+
   return (
     <div className="min-h-screen bg-background">
+      {user?.impersonation && <ImpersonationBanner user={user} impersonation={user.impersonation} />}
       <Header />
       <BreadcrumbNavigation />
       <div className="flex">
@@ -18,6 +24,13 @@ export function MainLayout({ children }: MainLayoutProps) {
           {children}
         </main>
       </div>
+      {user?.mfaEnrollmentRequired && (
+        <MfaEnrollmentDialog
+          open
+          title="Two-Factor Authentication Required"
+          description="Your organization requires two-factor authentication for your role. Scan the QR code with an authenticator app to continue."
+        />
+      )}
     </div>
   );
 }
@@ -2,7 +2,7 @@ import { useLocation } from "wouter";
 import { useState, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
-import { useAuth } from "@/hooks/use-auth";
+import { useAuth, userHasPermission } from "@/hooks/use-auth";
 import { 
   Home, 
   Users, 
@@ -24,11 +24,30 @@ import {
   Monitor,
   History,
   MonitorCog,
-  FileClock
+  FileClock,
+  KeyRound
 } from "lucide-react";
 
+/**
+ * Roles defined in code; any other role is an admin-defined custom role
+ */
+const BUILT_IN_ROLES = ["admin", "hr", "viewer", "employee", "prospective_employee"];
+
+/**
+ * Sidebar entry. Built-in roles see items listed in `roles`; custom roles
+ * see items whose `permission` their role grants.
+ */
+interface NavigationItem {
+  path: string;
+  label: string;
+  icon: typeof Home;
+  roles: string[];
+  permission?: string;
+  submenu?: NavigationItem[];
+}
+
 // Define all navigation items with their required roles
-const allNavigationItems = [
+const allNavigationItems: NavigationItem[] = [
   { 
     path: "/", 
     label: "Dashboard", 
@@ -51,19 +70,22 @@ const allNavigationItems = [
     path: "/employees", 
     label: "Employees", 
     icon: Users, 
-    roles: ["admin", "hr"] 
+    roles: ["admin", "hr"],
+    permission: "read:employees"
   },
   { 
     path: "/documents", 
     label: "Documents", 
     icon: FileText, 
-    roles: ["admin", "hr", "employee"] 
+    roles: ["admin", "hr", "employee"],
+    permission: "read:documents"
   },
   { 
     path: "/reports", 
     label: "Reports", 
     icon: BarChart2, 
-    roles: ["admin", "hr"] 
+    roles: ["admin", "hr"],
+    permission: "read:reports"
   },
   // { 
   //   path: "/audits", 
@@ -89,6 +111,12 @@ const allNavigationItems = [
         icon: Users, 
         roles: ["admin", "hr"] 
       },
+      { 
+        path: "/settings/roles", 
+        label: "Roles & Permissions", 
+        icon: KeyRound, 
+        roles: ["admin"] 
+      },
       { 
         path: "/settings/template-management", 
         label: "Template Management", 
@@ -152,24 +180,28 @@ const allNavigationItems = [
     label: "Tasks",
     icon: CheckSquare,
     roles: ["admin", "hr"],
+    permission: "read:tasks",
     submenu: [
       {
         path: "/tasks",
         label: "Task List",
         icon: ListTodo,
-        roles: ["admin", "hr"]
+        roles: ["admin", "hr"],
+        permission: "read:tasks"
       },
       {
         path: "/tasks/new",
         label: "New Task",
         icon: Plus,
-        roles: ["admin", "hr"]
+        roles: ["admin", "hr"],
+        permission: "write:tasks"
       },
       {
         path: "/tasks/dashboard",
         label: "Task Dashboard",
         icon: LayoutDashboard,
-        roles: ["admin", "hr"]
+        roles: ["admin", "hr"],
+        permission: "read:tasks"
       }
     ]
   }
@@ -180,18 +212,20 @@ export function Sidebar() {
   const [expandedItem, setExpandedItem] = useState<string | null>(null);
   const { user } = useAuth();
   
-  // Filter navigation items based on user role
+  // Filter navigation items based on user role (or permissions for custom roles)
   const navigationItems = useMemo(() => {
     const userRole = user?.role || "viewer";
+    const isCustomRole = !BUILT_IN_ROLES.includes(userRole);
+    const canSee = (item: NavigationItem) =>
+      item.roles.includes(userRole) ||
+      (isCustomRole && !!item.permission && userHasPermission(user, item.permission));
     
     return allNavigationItems
-      .filter(item => item.roles.includes(userRole))
+      .filter(canSee)
       .map(item => {
         // Filter submenu items if they exist
         if (item.submenu) {
-          const filteredSubmenu = item.submenu.filter(subItem => 
-            subItem.roles.includes(userRole)
-          );
+          const filteredSubmenu = item.submenu.filter(canSee);
           // Only include the parent item if it has submenu items after filtering
           if (filteredSubmenu.length > 0) {
             return {
@@ -204,7 +238,7 @@ export function Sidebar() {
         return item;
       })
       .filter(item => item !== null);
-  }, [user?.role]);
+  }, [user]);
 
   return (
     <nav className="w-64 bg-card border-r border-border h-screen sticky top-0 pt-0">
@@ -0,0 +1,233 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { AlertCircle, Copy, ShieldCheck, Loader2 } from "lucide-react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface MfaEnrollmentDialogProps {
+  open: boolean;
+  onSuccess?: () => void;
+  onOpenChange?: (open: boolean) => void;
+  title?: string;
+  description?: string;
+}
+
+interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * Multi-factor authentication enrollment dialog
+ *
+ * @component
+ * @param {MfaEnrollmentDialogProps} props - Dialog configuration
+ * @param {boolean} props.open - Control dialog visibility
+ * @param {function} [props.onSuccess] - Callback after the user saves their recovery codes
+ * @param {function} [props.onOpenChange] - Callback for dialog state changes (omit to force enrollment)
+ * @param {string} [props.title] - Dialog title
+ * @param {string} [props.description] - Dialog description
+ * @returns {JSX.Element} MFA enrollment dialog
+ *
+ * @description
+ * - Requests a new TOTP secret and shows it as a QR code plus manual-entry key
+ * - Confirms enrollment with a six-digit code from the authenticator app
+ * - Displays one-time recovery codes after successful enrollment
+ * - Cannot be dismissed when opened without onOpenChange (policy-forced enrollment)
+ *
+ * @security
+ * - Secret is only shown during enrollment
+ * - Recovery codes are shown once and stored hashed on the server
+ */
+export function MfaEnrollmentDialog({
+  open,
+  onSuccess,
+  onOpenChange,
+  title = "Set Up Two-Factor Authentication",
+  description = "Scan the QR code with an authenticator app such as Google Authenticator, Microsoft Authenticator or 1Password."
+}: MfaEnrollmentDialogProps) {
+  const { toast } = useToast();
+  const [enrollment, setEnrollment] = useState<MfaEnrollment | null>(null);
+  const [code, setCode] = useState("");
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Start enrollment and fetch the QR code
+   */
+  const setupMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/mfa/setup");
+      return res.json() as Promise<MfaEnrollment>;
+    },
+    onSuccess: (data) => {
+      setEnrollment(data);
+      setError(null);
+    },
+    onError: (error: any) => {
+      setError(error.message || "Failed to start enrollment");
+    }
+  });
+
+  /**
+   * Confirm enrollment with a code from the authenticator app
+   */
+  const verifyMutation = useMutation({
+    mutationFn: async (token: string) => {
+      const res = await apiRequest("POST", "/api/mfa/verify", { code: token });
+      return res.json() as Promise<{ recoveryCodes: string[] }>;
+    },
+    onSuccess: (data) => {
+      setRecoveryCodes(data.recoveryCodes);
+      setError(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/mfa/status"] });
+    },
+    onError: () => {
+      setError("That code didn't match. Check your device's clock and try again.");
+      setCode("");
+    }
+  });
+
+  useEffect(() => {
+    if (open && !enrollment && !recoveryCodes && !setupMutation.isPending) {
+      setupMutation.mutate();
+    }
+  }, [open]);
+
+  /**
+   * Reset local state and notify parent once recovery codes are saved
+   */
+  const handleDone = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    toast({
+      title: "Two-Factor Authentication Enabled",
+      description: "You'll be asked for a code from your authenticator app when you sign in."
+    });
+    setEnrollment(null);
+    setRecoveryCodes(null);
+    setCode("");
+    onSuccess?.();
+  };
+
+  const handleOpenChange = (newOpen: boolean) => {
+    if (!newOpen) {
+      setEnrollment(null);
+      setRecoveryCodes(null);
+      setCode("");
+      setError(null);
+    }
+    onOpenChange?.(newOpen);
+  };
+
+  const copyRecoveryCodes = async () => {
+    if (!recoveryCodes) return;
+    await navigator.clipboard.writeText(recoveryCodes.join("\n"));
+    toast({ title: "Copied", description: "Recovery codes copied to clipboard" });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="sm:max-w-md"
+        onPointerDownOutside={(e) => {
+          // Forced enrollment cannot be dismissed
+          if (!onOpenChange) {
+            e.preventDefault();
+          }
+        }}
+        onEscapeKeyDown={(e) => {
+          if (!onOpenChange) {
+            e.preventDefault();
+          }
+        }}
+        data-testid="dialog-mfa-enrollment"
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="h-5 w-5" />
+            {recoveryCodes ? "Save Your Recovery Codes" : title}
+          </DialogTitle>
+          <DialogDescription>
+            {recoveryCodes
+              ? "Each code can be used once to sign in if you lose access to your authenticator app. They will not be shown again."
+              : description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {recoveryCodes ? (
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-2 rounded-md border bg-muted p-4 font-mono text-sm" data-testid="list-recovery-codes">
+              {recoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" className="flex-1" onClick={copyRecoveryCodes} data-testid="button-copy-recovery-codes">
+                <Copy className="h-4 w-4 mr-2" />
+                Copy
+              </Button>
+              <Button className="flex-1" onClick={handleDone} data-testid="button-mfa-done">
+                I've Saved These Codes
+              </Button>
+            </div>
+          </div>
+        ) : !enrollment ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <form
+            className="space-y-4"
+            onSubmit={(e) => {
+              e.preventDefault();
+              verifyMutation.mutate(code);
+            }}
+          >
+            <div className="flex justify-center">
+              <img
+                src={enrollment.qrCodeDataUrl}
+                alt="Authenticator QR code"
+                className="h-48 w-48"
+                data-testid="img-mfa-qr-code"
+              />
+            </div>
+            <div className="text-center space-y-1">
+              <p className="text-xs text-muted-foreground">Can't scan? Enter this key manually:</p>
+              <p className="font-mono text-sm break-all" data-testid="text-mfa-secret">{enrollment.secret}</p>
+            </div>
+            <div className="flex flex-col items-center gap-2">
+              <p className="text-sm">Enter the 6-digit code from your app</p>
+              <InputOTP maxLength={6} value={code} onChange={setCode} data-testid="input-mfa-enroll-code">
+                <InputOTPGroup>
+                  {Array.from({ length: 6 }, (_, index) => (
+                    <InputOTPSlot key={index} index={index} />
+                  ))}
+                </InputOTPGroup>
+              </InputOTP>
+            </div>
+            <Button
+              type="submit"
+              className="w-full"
+              disabled={code.length !== 6 || verifyMutation.isPending}
+              data-testid="button-mfa-verify"
+            >
+              {verifyMutation.isPending ? "Verifying..." : "Verify and Enable"}
+            </Button>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,95 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { formatDistanceToNow } from "date-fns";
+import { KeyRound, Trash2 } from "lucide-react";
+import type { PasskeySummary } from "@shared/schema";
+
+interface PasskeyListProps {
+  endpoint: string;
+  removeLabel?: string;
+}
+
+/**
+ * List of registered passkeys with removal
+ *
+ * @component
+ * @param {PasskeyListProps} props - Component configuration
+ * @param {string} props.endpoint - Passkeys endpoint (/api/passkeys or /api/admin/users/:id/passkeys)
+ * @param {string} [props.removeLabel] - Verb used in the toast ("removed" or "revoked")
+ * @returns {JSX.Element} Passkey list
+ *
+ * @description
+ * - Shows the name, sync status and last use of each passkey
+ * - DELETE `${endpoint}/:id` removes a passkey; it can no longer be used to sign in
+ */
+export function PasskeyList({ endpoint, removeLabel = "removed" }: PasskeyListProps) {
+  const { toast } = useToast();
+
+  const { data: passkeys, isLoading } = useQuery<PasskeySummary[]>({
+    queryKey: [endpoint]
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (passkeyId: number) => {
+      await apiRequest("DELETE", `${endpoint}/${passkeyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [endpoint] });
+      toast({ title: `Passkey ${removeLabel}` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove passkey", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  return (
+    <div className="space-y-2" data-testid="list-passkeys">
+      {passkeys?.length === 0 && (
+        <p className="text-sm text-muted-foreground">No passkeys registered.</p>
+      )}
+      {passkeys?.map(passkey => (
+        <div
+          key={passkey.id}
+          className="flex items-center justify-between gap-3 rounded-md border p-3"
+          data-testid={`row-passkey-${passkey.id}`}
+        >
+          <div className="flex items-center gap-3 min-w-0">
+            <KeyRound className="h-4 w-4 shrink-0 text-muted-foreground" />
+            <div className="min-w-0">
+              <p className="text-sm font-medium truncate">
+                {passkey.name}
+                {passkey.backedUp && (
+                  <Badge variant="secondary" className="ml-2">Synced</Badge>
+                )}
+              </p>
+              <p className="text-xs text-muted-foreground truncate">
+                Added {formatDistanceToNow(new Date(passkey.createdAt), { addSuffix: true })}
+                {passkey.lastUsedAt
+                  ? ` · Used ${formatDistanceToNow(new Date(passkey.lastUsedAt), { addSuffix: true })}`
+                  : " · Never used"}
+              </p>
+            </div>
+          </div>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            disabled={removeMutation.isPending}
+            onClick={() => removeMutation.mutate(passkey.id)}
+            data-testid={`button-remove-passkey-${passkey.id}`}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+    </div>
+  );
+}
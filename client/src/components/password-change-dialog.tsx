@@ -8,6 +8,7 @@ import { AlertCircle } from "lucide-react";
 import { useMutation } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { PasswordRequirements, usePasswordPolicy, meetsPasswordPolicy } from "@/components/password-requirements";
 
 interface PasswordChangeDialogProps {
   open: boolean;
@@ -32,7 +33,7 @@ interface PasswordChangeDialogProps {
  * @description
  * - Allows authenticated users to change their password
  * - Requires current password verification
- * - Validates new password strength
+ * - Validates new password against the admin-configured password policy
  * - Ensures new password differs from current
  * - Shows real-time validation feedback
  * 
@@ -43,7 +44,7 @@ interface PasswordChangeDialogProps {
  * - Form cleared on close for security
  * 
  * @validation
- * - New password min 8 characters
+ * - New password meets the password policy (reuse and breached checks are server-side)
  * - Passwords must match
  * - New must differ from current
  */
@@ -61,6 +62,7 @@ export function PasswordChangeDialog({
     confirmPassword: ""
   });
   const [error, setError] = useState<string | null>(null);
+  const passwordPolicy = usePasswordPolicy();
 
   /**
    * Mutation for changing password
@@ -102,7 +104,7 @@ export function PasswordChangeDialog({
    * 
    * @validation
    * 1. New passwords must match
-   * 2. Min 8 characters length
+   * 2. Meets the password policy
    * 3. Must differ from current password
    */
   const handleSubmit = (e: React.FormEvent) => {
@@ -115,9 +117,9 @@ export function PasswordChangeDialog({
       return;
     }
 
-    // Validate password length
-    if (passwords.newPassword.length < 8) {
-      setError("New password must be at least 8 characters long");
+    // Validate against the password policy
+    if (!meetsPasswordPolicy(passwords.newPassword, passwordPolicy)) {
+      setError("New password does not meet the password requirements");
       return;
     }
 
@@ -200,11 +202,11 @@ export function PasswordChangeDialog({
               type="password"
               value={passwords.newPassword}
               onChange={(e) => setPasswords({ ...passwords, newPassword: e.target.value })}
-              placeholder="Enter new password (min 8 characters)"
+              placeholder="Enter new password"
               required
-              minLength={8}
               data-testid="input-new-password"
             />
+            <PasswordRequirements password={passwords.newPassword} policy={passwordPolicy} />
           </div>
 
           <div className="space-y-2">
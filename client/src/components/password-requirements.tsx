@@ -0,0 +1,88 @@
+import { useQuery } from "@tanstack/react-query";
+import { Check, X } from "lucide-react";
+
+/**
+ * Password policy as returned by GET /api/auth/password-policy
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  blockBreached: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Requirements that can be checked in the browser
+ * (breached-list and reuse checks happen on the server)
+ */
+function getRequirements(password: string, policy: PasswordPolicy) {
+  return [
+    { label: `At least ${policy.minLength} characters`, met: password.length >= policy.minLength, enabled: true },
+    { label: "An uppercase letter", met: /[A-Z]/.test(password), enabled: policy.requireUppercase },
+    { label: "A lowercase letter", met: /[a-z]/.test(password), enabled: policy.requireLowercase },
+    { label: "A number", met: /\d/.test(password), enabled: policy.requireNumber },
+    { label: "A special character", met: /[^A-Za-z0-9]/.test(password), enabled: policy.requireSymbol }
+  ].filter(requirement => requirement.enabled);
+}
+
+/**
+ * Fetch the current password policy (public endpoint)
+ *
+ * @returns {PasswordPolicy | undefined} Policy once loaded
+ */
+export function usePasswordPolicy() {
+  const { data } = useQuery<PasswordPolicy>({
+    queryKey: ["/api/auth/password-policy"]
+  });
+  return data;
+}
+
+/**
+ * Check a password against the browser-checkable parts of the policy
+ *
+ * @param {string} password - Candidate password
+ * @param {PasswordPolicy} [policy] - Policy (nothing is checked until it loads)
+ * @returns {boolean} True if all length and character requirements are met
+ */
+export function meetsPasswordPolicy(password: string, policy?: PasswordPolicy): boolean {
+  return !policy || getRequirements(password, policy).every(requirement => requirement.met);
+}
+
+/**
+ * Live checklist of password requirements
+ *
+ * @component
+ * @param {object} props - Component props
+ * @param {string} props.password - Password being typed
+ * @param {PasswordPolicy} [props.policy] - Policy from usePasswordPolicy()
+ * @returns {JSX.Element | null} Requirement list
+ */
+export function PasswordRequirements({ password, policy }: { password: string; policy?: PasswordPolicy }) {
+  if (!policy) return null;
+
+  return (
+    <ul className="space-y-1 text-xs" data-testid="list-password-requirements">
+      {getRequirements(password, policy).map(requirement => (
+        <li
+          key={requirement.label}
+          className={`flex items-center gap-1 ${requirement.met ? "text-green-600" : "text-muted-foreground"}`}
+        >
+          {requirement.met ? <Check className="h-3 w-3" /> : <X className="h-3 w-3" />}
+          {requirement.label}
+        </li>
+      ))}
+      {policy.blockBreached && (
+        <li className="text-muted-foreground">Must not be a commonly used password</li>
+      )}
+      {policy.historyCount > 0 && (
+        <li className="text-muted-foreground">
+          Must not match your last {policy.historyCount} password{policy.historyCount === 1 ? "" : "s"}
+        </li>
+      )}
+    </ul>
+  );
+}
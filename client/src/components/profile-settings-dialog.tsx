@@ -3,14 +3,21 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { MfaEnrollmentDialog } from "@/components/mfa-enrollment-dialog";
+import { ActiveSessionsList } from "@/components/active-sessions-list";
+import { PasskeyList } from "@/components/passkey-list";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
+import { ShieldCheck, Monitor, KeyRound } from "lucide-react";
+import { startRegistration, browserSupportsWebAuthn } from "@simplewebauthn/browser";
 
 // Validation schema for profile settings
 const profileSettingsSchema = z.object({
@@ -24,6 +31,210 @@ interface ProfileSettingsDialogProps {
   onOpenChange: (open: boolean) => void;
 }
 
+interface MfaStatus {
+  enabled: boolean;
+  enrolledAt: string | null;
+  required: boolean;
+  recoveryCodesRemaining: number;
+}
+
+/**
+ * Two-factor authentication section of the profile dialog
+ * 
+ * @component
+ * @returns {JSX.Element} MFA status with enroll, regenerate and disable actions
+ * 
+ * @description
+ * - Shows whether TOTP two-factor authentication is enabled
+ * - Opens the enrollment dialog for users who have not enrolled
+ * - Regenerating recovery codes or disabling MFA requires a current code
+ * - Disabling is hidden when the security policy requires MFA for the role
+ */
+function MfaSettingsSection() {
+  const { toast } = useToast();
+  const [enrollOpen, setEnrollOpen] = useState(false);
+  const [code, setCode] = useState("");
+  const [newRecoveryCodes, setNewRecoveryCodes] = useState<string[] | null>(null);
+
+  const { data: status } = useQuery<MfaStatus>({
+    queryKey: ["/api/mfa/status"]
+  });
+
+  const regenerateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/mfa/recovery-codes", { code });
+      return await response.json();
+    },
+    onSuccess: (data: { recoveryCodes: string[] }) => {
+      setNewRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      queryClient.invalidateQueries({ queryKey: ["/api/mfa/status"] });
+    },
+    onError: () => {
+      toast({ title: "Invalid code", description: "Enter a current code from your authenticator app.", variant: "destructive" });
+    }
+  });
+
+  const disableMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/mfa", { code });
+    },
+    onSuccess: () => {
+      setCode("");
+      setNewRecoveryCodes(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/mfa/status"] });
+      toast({ title: "Two-factor authentication disabled" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to disable", description: error.message, variant: "destructive" });
+    }
+  });
+
+  if (!status) return null;
+
+  return (
+    <div className="space-y-3" data-testid="section-mfa">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <ShieldCheck className="h-4 w-4" />
+          Two-Factor Authentication
+        </Label>
+        <Badge variant={status.enabled ? "default" : "secondary"} data-testid="badge-mfa-status">
+          {status.enabled ? "Enabled" : status.required ? "Required" : "Off"}
+        </Badge>
+      </div>
+
+      {!status.enabled ? (
+        <Button type="button" variant="outline" className="w-full" onClick={() => setEnrollOpen(true)} data-testid="button-enable-mfa">
+          Set Up Authenticator App
+        </Button>
+      ) : (
+        <div className="space-y-2">
+          <p className="text-sm text-muted-foreground">
+            {status.recoveryCodesRemaining} recovery code{status.recoveryCodesRemaining === 1 ? "" : "s"} remaining
+          </p>
+          <Input
+            value={code}
+            onChange={(e) => setCode(e.target.value)}
+            placeholder="Current 6-digit code"
+            inputMode="numeric"
+            maxLength={6}
+            data-testid="input-mfa-manage-code"
+          />
+          <div className="flex gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              className="flex-1"
+              disabled={code.length !== 6 || regenerateMutation.isPending}
+              onClick={() => regenerateMutation.mutate()}
+              data-testid="button-regenerate-recovery-codes"
+            >
+              New Recovery Codes
+            </Button>
+            {!status.required && (
+              <Button
+                type="button"
+                variant="destructive"
+                className="flex-1"
+                disabled={code.length !== 6 || disableMutation.isPending}
+                onClick={() => disableMutation.mutate()}
+                data-testid="button-disable-mfa"
+              >
+                Disable
+              </Button>
+            )}
+          </div>
+          {newRecoveryCodes && (
+            <div className="grid grid-cols-2 gap-1 rounded-md border bg-muted p-3 font-mono text-xs" data-testid="list-new-recovery-codes">
+              {newRecoveryCodes.map((recoveryCode) => (
+                <span key={recoveryCode}>{recoveryCode}</span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      <MfaEnrollmentDialog
+        open={enrollOpen}
+        onOpenChange={setEnrollOpen}
+        onSuccess={() => setEnrollOpen(false)}
+      />
+    </div>
+  );
+}
+
+/**
+ * Passkeys section of the profile dialog
+ * 
+ * @component
+ * @returns {JSX.Element} Registered passkeys with add and remove actions
+ * 
+ * @description
+ * - Lists the employee's passkeys for signing in without a password
+ * - Registers a new passkey on this device or a security key via WebAuthn
+ * - Registration is hidden when the browser does not support WebAuthn
+ */
+function PasskeySettingsSection() {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const supported = browserSupportsWebAuthn();
+
+  const registerMutation = useMutation({
+    mutationFn: async () => {
+      const optionsResponse = await apiRequest("POST", "/api/passkeys/register/options");
+      const response = await startRegistration({ optionsJSON: await optionsResponse.json() });
+      const verifyResponse = await apiRequest("POST", "/api/passkeys/register/verify", {
+        response,
+        name: name.trim() || undefined
+      });
+      return await verifyResponse.json();
+    },
+    onSuccess: () => {
+      setName("");
+      queryClient.invalidateQueries({ queryKey: ["/api/passkeys"] });
+      toast({ title: "Passkey added", description: "You can now sign in with this passkey instead of your password." });
+    },
+    onError: (error: Error) => {
+      // Cancelling the browser prompt is not an error worth surfacing
+      if (error.name === "NotAllowedError") return;
+      toast({ title: "Failed to add passkey", description: error.message, variant: "destructive" });
+    }
+  });
+
+  return (
+    <div className="space-y-3" data-testid="section-passkeys">
+      <Label className="flex items-center gap-2">
+        <KeyRound className="h-4 w-4" />
+        Passkeys
+      </Label>
+      <PasskeyList endpoint="/api/passkeys" />
+      {supported ? (
+        <div className="flex gap-2">
+          <Input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Name (e.g. Work laptop)"
+            maxLength={100}
+            data-testid="input-passkey-name"
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={registerMutation.isPending}
+            onClick={() => registerMutation.mutate()}
+            data-testid="button-add-passkey"
+          >
+            {registerMutation.isPending ? "Waiting..." : "Add Passkey"}
+          </Button>
+        </div>
+      ) : (
+        <p className="text-sm text-muted-foreground">This browser does not support passkeys.</p>
+      )}
+    </div>
+  );
+}
+
 /**
  * Profile settings dialog for updating user email
  * 
@@ -39,6 +250,8 @@ interface ProfileSettingsDialogProps {
  * - Validates email format before submission
  * - Updates cache and invalidates queries on success
  * - Shows toast notifications for feedback
+ * - Admin and HR users can manage two-factor authentication
+ * - Employees can manage passkeys for passwordless sign-in
  * 
  * @validation
  * - Email must be valid format
@@ -180,6 +393,29 @@ export function ProfileSettingsDialog({ open, onOpenChange }: ProfileSettingsDia
                   data-testid="input-profile-role"
                 />
               </div>
+
+              {(user?.role === "admin" || user?.role === "hr") && (
+                <>
+                  <Separator />
+                  <MfaSettingsSection />
+                </>
+              )}
+
+              {user?.role === "employee" && (
+                <>
+                  <Separator />
+                  <PasskeySettingsSection />
+                </>
+              )}
+
+              <Separator />
+              <div className="space-y-3" data-testid="section-active-sessions">
+                <Label className="flex items-center gap-2">
+                  <Monitor className="h-4 w-4" />
+                  Where You're Signed In
+                </Label>
+                <ActiveSessionsList endpoint="/api/sessions" />
+              </div>
             </div>
 
             <DialogFooter className="gap-2">
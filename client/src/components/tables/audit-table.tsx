@@ -1,7 +1,9 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { ChevronLeft, ChevronRight } from "lucide-react";
+import { ChevronLeft, ChevronRight, Eye, ExternalLink } from "lucide-react";
+import { Link } from "wouter";
+import { auditRecordLink } from "@/lib/audit-links";
 import type { Audit } from "@/lib/types";
 
 interface AuditTableProps {
@@ -9,16 +11,28 @@ interface AuditTableProps {
   total: number;
   page: number;
   totalPages: number;
+  /** Rows per page, for the "Showing x-y" summary */
+  pageSize?: number;
   onPageChange: (page: number) => void;
+  onViewDetails: (audit: Audit) => void;
   isLoading: boolean;
 }
 
+/**
+ * Paginated audit log table
+ *
+ * @component
+ * @param {AuditTableProps} props - Audit page, pagination and details callback
+ * @returns {JSX.Element} Audit entries with changed fields and links to the affected records
+ */
 export function AuditTable({
   audits,
   total,
   page,
   totalPages,
+  pageSize = 25,
   onPageChange,
+  onViewDetails,
   isLoading
 }: AuditTableProps) {
   const getActionBadge = (action: string) => {
@@ -31,6 +45,8 @@ export function AuditTable({
         return <Badge className="bg-destructive/10 text-destructive">DELETE</Badge>;
       case 'LOGIN':
         return <Badge className="bg-primary/10 text-primary">LOGIN</Badge>;
+      case 'ACCESS':
+        return <Badge className="bg-amber-500/10 text-amber-600">ACCESS</Badge>;
       default:
         return <Badge variant="secondary">{action}</Badge>;
     }
@@ -63,7 +79,7 @@ export function AuditTable({
                 <th className="text-left p-4 font-medium text-foreground">User</th>
                 <th className="text-left p-4 font-medium text-foreground">Action</th>
                 <th className="text-left p-4 font-medium text-foreground">Table</th>
-                <th className="text-left p-4 font-medium text-foreground">Record ID</th>
+                <th className="text-left p-4 font-medium text-foreground">Record</th>
                 <th className="text-left p-4 font-medium text-foreground">Changes</th>
               </tr>
             </thead>
@@ -75,33 +91,62 @@ export function AuditTable({
                   </td>
                 </tr>
               ) : (
-                audits.map((audit) => (
-                  <tr 
-                    key={audit.id} 
-                    className="border-t border-border hover:bg-muted/50 table-row"
-                    data-testid={`audit-row-${audit.id}`}
-                  >
-                    <td className="p-4 text-foreground">
-                      {formatTimestamp(audit.changedAt)}
-                    </td>
-                    <td className="p-4 text-foreground">
-                      {(audit as any).username || "System"}
-                    </td>
-                    <td className="p-4">{getActionBadge(audit.action)}</td>
-                    <td className="p-4 text-foreground">{audit.tableName}</td>
-                    <td className="p-4 text-foreground">{audit.recordId}</td>
-                    <td className="p-4">
-                      <Button 
-                        variant="ghost" 
-                        size="sm"
-                        className="text-primary hover:text-primary/80"
-                        data-testid={`button-view-changes-${audit.id}`}
-                      >
-                        View Details
-                      </Button>
-                    </td>
-                  </tr>
-                ))
+                audits.map((audit) => {
+                  const link = auditRecordLink(audit);
+                  const changedFields = audit.changes?.map((change) => change.field) ?? [];
+
+                  return (
+                    <tr
+                      key={audit.id}
+                      className="border-t border-border hover:bg-muted/50 table-row"
+                      data-testid={`audit-row-${audit.id}`}
+                    >
+                      <td className="p-4 text-foreground">
+                        {formatTimestamp(audit.changedAt)}
+                      </td>
+                      <td className="p-4 text-foreground">
+                        {audit.username || "System"}
+                        {audit.impersonatedBy && (
+                          <span className="block text-xs text-muted-foreground" data-testid={`audit-impersonator-${audit.id}`}>
+                            viewed by admin #{audit.impersonatedBy}
+                          </span>
+                        )}
+                      </td>
+                      <td className="p-4">{getActionBadge(audit.action)}</td>
+                      <td className="p-4 text-foreground">{audit.tableName}</td>
+                      <td className="p-4 text-foreground">
+                        #{audit.recordId}
+                        {link && (
+                          <Link
+                            href={link.href}
+                            className="ml-2 inline-flex items-center text-xs text-primary hover:underline"
+                            data-testid={`link-audit-record-${audit.id}`}
+                          >
+                            {link.label}
+                            <ExternalLink className="w-3 h-3 ml-1" />
+                          </Link>
+                        )}
+                      </td>
+                      <td className="p-4">
+                        {changedFields.length > 0 && (
+                          <p className="text-xs text-muted-foreground mb-1 max-w-xs truncate" title={changedFields.join(", ")}>
+                            {changedFields.length} field{changedFields.length === 1 ? "" : "s"}: {changedFields.join(", ")}
+                          </p>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => onViewDetails(audit)}
+                          className="text-primary hover:text-primary/80"
+                          data-testid={`button-view-details-${audit.id}`}
+                        >
+                          <Eye className="w-4 h-4 mr-1" />
+                          View Details
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })
               )}
             </tbody>
           </table>
@@ -111,9 +156,9 @@ export function AuditTable({
         {totalPages > 1 && (
           <div className="border-t border-border p-4 flex items-center justify-between">
             <p className="text-sm text-muted-foreground" data-testid="pagination-info">
-              Showing {((page - 1) * 25) + 1}-{Math.min(page * 25, total)} of {total} audit entries
+              Showing {((page - 1) * pageSize) + 1}-{Math.min(page * pageSize, total)} of {total} audit entries
             </p>
-            
+
             <div className="flex items-center space-x-2">
               <Button
                 variant="outline"
@@ -125,7 +170,7 @@ export function AuditTable({
                 <ChevronLeft className="w-4 h-4 mr-1" />
                 Previous
               </Button>
-              
+
               {Array.from({ length: Math.min(5, totalPages) }, (_, i) => {
                 const pageNum = i + 1;
                 return (
@@ -140,7 +185,7 @@ export function AuditTable({
                   </Button>
                 );
               })}
-              
+
               <Button
                 variant="outline"
                 size="sm"
@@ -9,6 +9,8 @@
  * - Session-based authentication with server-side validation
  * - Automatic session restoration on page reload
  * - Role-based access control (admin, hr, viewer)
+ * - TOTP second login step for MFA-enrolled users
+ * - Passkey (WebAuthn) sign-in for employee accounts
  * - Toast notifications for authentication events
  * - Type-safe user data management
  * 
@@ -23,21 +25,62 @@ import {
 } from "@tanstack/react-query";
 import { insertUserSchema, User as SelectUser, InsertUser } from "@shared/schema";
 import { getQueryFn, apiRequest, queryClient } from "../lib/queryClient";
+import { startAuthentication } from "@simplewebauthn/browser";
 import { useToast } from "@/hooks/use-toast";
 
+/**
+ * Current user as returned by /api/user, including session-level flags
+ */
+export type AuthUser = SelectUser & {
+  /** User must change their password before continuing */
+  requirePasswordChange?: boolean;
+  /** Security policy requires MFA for this role and the user has not enrolled */
+  mfaEnrollmentRequired?: boolean;
+  /** Permissions granted by the user's role ('*' for administrators) */
+  permissions?: string[];
+  /** Set while an admin is viewing the app as this user */
+  impersonation?: ImpersonationInfo | null;
+};
+
+/**
+ * Admin and time box behind an active "view as user" session
+ */
+export type ImpersonationInfo = {
+  impersonator: { id: number; username: string };
+  reason: string;
+  allowWrites: boolean;
+  expiresAt: string;
+};
+
+/**
+ * Check whether the current user's role grants a permission
+ *
+ * @param {AuthUser | null} user - Current user
+ * @param {string} permission - Permission scope (e.g. 'read:employees')
+ * @returns {boolean} True if the role grants the permission or everything ('*')
+ */
+export function userHasPermission(user: AuthUser | null, permission: string): boolean {
+  const permissions = user?.permissions || [];
+  return permissions.includes(permission) || permissions.includes("*");
+}
+
 /**
  * Authentication context type definition
  * Provides user state and authentication methods to child components
  */
 type AuthContextType = {
   /** Current authenticated user or null if not logged in */
-  user: SelectUser | null;
+  user: AuthUser | null;
   /** Loading state for initial authentication check */
   isLoading: boolean;
   /** Error from authentication check */
   error: Error | null;
-  /** Mutation for user login */
-  loginMutation: UseMutationResult<SelectUser, Error, LoginData>;
+  /** Mutation for user login (may resolve to an MFA challenge instead of a user) */
+  loginMutation: UseMutationResult<LoginResponse, Error, LoginData>;
+  /** Mutation for completing the MFA step of login */
+  mfaLoginMutation: UseMutationResult<SelectUser, Error, MfaLoginData>;
+  /** Mutation for signing in with a passkey instead of a password */
+  passkeyLoginMutation: UseMutationResult<AuthUser, Error, PasskeyLoginData>;
   /** Mutation for user logout */
   logoutMutation: UseMutationResult<void, Error, void>;
   /** Mutation for user registration */
@@ -52,6 +95,27 @@ type LoginData = {
   password: string;
 };
 
+/**
+ * Second login step payload: either an authenticator code or a recovery code
+ */
+type MfaLoginData = {
+  code?: string;
+  recoveryCode?: string;
+};
+
+/**
+ * Passkey sign-in payload; the username lets security keys without a stored
+ * passkey be offered
+ */
+type PasskeyLoginData = {
+  username?: string;
+};
+
+/**
+ * Login response: the user, or a pending MFA challenge
+ */
+type LoginResponse = (AuthUser & { mfaRequired?: undefined }) | { mfaRequired: true };
+
 /**
  * Registration data type
  */
@@ -98,7 +162,7 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     data: user,
     error,
     isLoading,
-  } = useQuery<SelectUser | undefined, Error>({
+  } = useQuery<AuthUser | undefined, Error>({
     queryKey: ["/api/user"],
     queryFn: getQueryFn({ on401: "returnNull" }),
   });
@@ -124,9 +188,11 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       const res = await apiRequest("POST", "/api/login", credentials);
       return await res.json();
     },
-    onSuccess: (user: SelectUser) => {
+    onSuccess: (data: LoginResponse) => {
+      // Users with MFA are not signed in until the second step succeeds
+      if (data.mfaRequired) return;
       // Update query cache with authenticated user
-      queryClient.setQueryData(["/api/user"], user);
+      queryClient.setQueryData(["/api/user"], data);
     },
     onError: (error: Error) => {
       toast({
@@ -137,6 +203,51 @@ export function AuthProvider({ children }: { children: ReactNode }) {
     },
   });
 
+  /**
+   * MFA login mutation for the second sign-in step
+   * 
+   * @description
+   * Sends the authenticator or recovery code to /api/login/mfa after a
+   * password login returned `mfaRequired`, then stores the signed-in user.
+   */
+  const mfaLoginMutation = useMutation({
+    mutationFn: async (data: MfaLoginData) => {
+      const res = await apiRequest("POST", "/api/login/mfa", data);
+      return await res.json();
+    },
+    onSuccess: (user: SelectUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+  });
+
+  /**
+   * Passkey login mutation
+   * 
+   * @description
+   * Fetches WebAuthn options from /api/login/passkey/options, asks the
+   * browser for a passkey, then verifies the response at /api/login/passkey.
+   * Cancelling the browser prompt is not reported as a failed login.
+   */
+  const passkeyLoginMutation = useMutation({
+    mutationFn: async (data: PasskeyLoginData) => {
+      const optionsRes = await apiRequest("POST", "/api/login/passkey/options", data);
+      const response = await startAuthentication({ optionsJSON: await optionsRes.json() });
+      const res = await apiRequest("POST", "/api/login/passkey", { response });
+      return await res.json();
+    },
+    onSuccess: (user: AuthUser) => {
+      queryClient.setQueryData(["/api/user"], user);
+    },
+    onError: (error: Error) => {
+      if (error.name === "NotAllowedError") return;
+      toast({
+        title: "Passkey sign-in failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (credentials: RegisterData) => {
       const res = await apiRequest("POST", "/api/register", credentials);
@@ -177,6 +288,8 @@ export function AuthProvider({ children }: { children: ReactNode }) {
         isLoading,
         error,
         loginMutation,
+        mfaLoginMutation,
+        passkeyLoginMutation,
         logoutMutation,
         registerMutation,
       }}
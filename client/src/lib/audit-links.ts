@@ -0,0 +1,100 @@
+/**
+ * @fileoverview Links from audit entries to the records they affected
+ *
+ * Employee-owned records (licenses, documents, education, ...) link to the
+ * matching tab of the employee profile; other records link to their
+ * management page.
+ *
+ * @module audit-links
+ */
+
+import type { Audit } from "./types";
+
+/**
+ * Tables offered in audit filters and retention policies
+ */
+export const AUDITED_TABLES = [
+  "employees",
+  "employee_duplicate_candidates",
+  "employee_separations",
+  "documents",
+  "state_licenses",
+  "dea_licenses",
+  "board_certifications",
+  "educations",
+  "employments",
+  "trainings",
+  "emergency_contacts",
+  "tax_forms",
+  "payer_enrollments",
+  "incident_logs",
+  "users",
+  "roles",
+  "api_keys",
+  "impersonation",
+];
+
+/**
+ * Employee profile tab for each employee-owned table
+ */
+const EMPLOYEE_PROFILE_TABS: Record<string, string> = {
+  educations: "education",
+  employments: "employment",
+  state_licenses: "state-licenses",
+  dea_licenses: "dea-licenses",
+  board_certifications: "certifications",
+  trainings: "trainings",
+  peer_references: "references",
+  emergency_contacts: "emergency",
+  tax_forms: "tax",
+  documents: "documents",
+  employee_tasks: "tasks",
+  employee_approval_checklists: "checklist-documents",
+  employee_document_uploads: "checklist-documents",
+  payer_enrollments: "payer",
+  incident_logs: "incidents",
+  employee_separations: "offboarding",
+};
+
+/**
+ * Pages listing records that do not belong to an employee
+ */
+const TABLE_PAGES: Record<string, string> = {
+  documents: "/documents",
+  users: "/settings/users",
+  roles: "/settings/roles",
+  api_keys: "/settings/api-keys",
+  webhook_endpoints: "/settings/webhooks",
+  compliance_documents: "/compliance-documents",
+  clinic_licenses: "/licenses",
+  employee_duplicate_candidates: "/employees/duplicates",
+};
+
+/**
+ * Link to the record affected by an audit entry
+ *
+ * @param {Audit} audit - Audit entry
+ * @returns {{ href: string; label: string } | null} Link target, or null when there is no page for the record
+ *
+ * @example
+ * auditRecordLink({ tableName: 'state_licenses', recordId: 9, newData: { employeeId: 12 }, ... });
+ * // { href: '/employees/12?tab=state-licenses', label: 'Employee #12' }
+ */
+export function auditRecordLink(audit: Audit): { href: string; label: string } | null {
+  if (audit.tableName === "employees") {
+    return { href: `/employees/${audit.recordId}`, label: `Employee #${audit.recordId}` };
+  }
+
+  const employeeId = Number(audit.newData?.employeeId ?? audit.oldData?.employeeId);
+  const tab = EMPLOYEE_PROFILE_TABS[audit.tableName];
+  if (tab && employeeId > 0) {
+    return { href: `/employees/${employeeId}?tab=${tab}`, label: `Employee #${employeeId}` };
+  }
+
+  if (audit.tableName === "tasks") {
+    return { href: `/tasks/${audit.recordId}/edit`, label: `Task #${audit.recordId}` };
+  }
+
+  const page = TABLE_PAGES[audit.tableName];
+  return page ? { href: page, label: "Open" } : null;
+}
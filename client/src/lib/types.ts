@@ -15,6 +15,8 @@
  * @module types
  */
 
+import type { AuditFieldChange } from "@shared/schema";
+
 /**
  * System user interface for authentication and access control
  * @interface User
@@ -253,9 +255,19 @@ export interface Audit {
   recordId: number;
   action: string;
   changedBy?: number;
+  /** Real admin when the change was made while viewing as changedBy */
+  impersonatedBy?: number | null;
   changedAt: string;
   oldData?: any;
   newData?: any;
+  /** Hash of the audit row written before this one */
+  previousHash?: string | null;
+  /** Hash over this row and previousHash; null for rows written before chaining */
+  hash?: string | null;
+  /** Username of changedBy */
+  username?: string | null;
+  /** Fields that differ between oldData and newData, sensitive values masked */
+  changes?: AuditFieldChange[];
 }
 
 /**
@@ -371,11 +383,13 @@ export interface DocumentFilters {
 }
 
 export interface AuditFilters {
-  search: string;
-  tableName?: string;
-  action?: string;
-  startDate?: string;
-  endDate?: string;
+  tableName: string;
+  action: string;
+  recordId: string;
+  user: string;
+  field: string;
+  startDate: string;
+  endDate: string;
 }
 
 // System settings types
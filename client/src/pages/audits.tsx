@@ -6,10 +6,13 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { AuditTable } from "@/components/tables/audit-table";
-import { SearchFilters } from "@/components/search-filters";
+import { AuditDiff } from "@/components/audit-diff";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Shield, Eye } from "lucide-react";
-import type { Audit } from "@/lib/types";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Link } from "wouter";
+import { ExternalLink, X } from "lucide-react";
+import { auditRecordLink, AUDITED_TABLES } from "@/lib/audit-links";
+import type { Audit, AuditFilters } from "@/lib/types";
 
 /**
  * Response structure for paginated audit entries API
@@ -21,6 +24,19 @@ interface AuditsResponse {
   totalPages: number;
 }
 
+/**
+ * Audit entries per page
+ */
+const PAGE_SIZE = 25;
+
+/**
+ * Endpoint behind each audit source
+ */
+const AUDIT_SOURCES = {
+  live: "/api/audits",
+  archived: "/api/audits/archived"
+} as const;
+
 /**
  * Audit trail page for tracking all system changes and user activities
  * @component
@@ -30,21 +46,26 @@ interface AuditsResponse {
  * 
  * @description
  * - Comprehensive audit trail with filterable entries
- * - Advanced filtering by action type, table, date range, and search terms
- * - Detailed audit entry modal with before/after data comparison
+ * - Search by action, table, record ID, user, changed field and date range
+ * - Switch between the live log and archives an administrator has restored
+ * - Field-level diff of each entry, with sensitive values masked by the server
+ * - Links from each entry to the affected employee, license or document
  * - Paginated audit log with 25 entries per page
- * - Color-coded action badges (CREATE, UPDATE, DELETE, LOGIN)
- * - JSON data formatting with syntax highlighting
+ * - Color-coded action badges (CREATE, UPDATE, DELETE, LOGIN, ACCESS)
+ * - Raw JSON snapshots alongside the diff
  * - Real-time audit tracking for compliance and security
  * - Uses data-testid attributes for testing automation
  * - HIPAA-compliant audit logging capabilities
  */
 export default function Audits() {
   const [page, setPage] = useState(1);
-  const [filters, setFilters] = useState({
-    search: "",
+  const [source, setSource] = useState<keyof typeof AUDIT_SOURCES>("live");
+  const [filters, setFilters] = useState<AuditFilters>({
     tableName: "",
     action: "",
+    recordId: "",
+    user: "",
+    field: "",
     startDate: "",
     endDate: ""
   });
@@ -52,14 +73,16 @@ export default function Audits() {
   const [detailsOpen, setDetailsOpen] = useState(false);
 
   const { data, isLoading, error } = useQuery<AuditsResponse>({
-    queryKey: ["/api/audits", page, filters],
+    queryKey: [AUDIT_SOURCES[source], page, filters],
     queryFn: async ({ queryKey }) => {
       const [url, currentPage, currentFilters] = queryKey;
       const params = new URLSearchParams({
         page: String(currentPage),
-        limit: "10",
+        limit: String(PAGE_SIZE),
         ...Object.fromEntries(
-          Object.entries(currentFilters as any).filter(([_, value]) => value)
+          Object.entries(currentFilters as AuditFilters)
+            .map(([key, value]) => [key, value.trim()])
+            .filter(([_, value]) => value)
         )
       });
       
@@ -71,14 +94,31 @@ export default function Audits() {
 
   /**
    * Updates filter state and resets pagination
-   * @param {string} key - Filter property to update
+   * @param {keyof AuditFilters} key - Filter property to update
    * @param {string} value - New filter value
    */
-  const handleFilterChange = (key: string, value: string) => {
+  const handleFilterChange = (key: keyof AuditFilters, value: string) => {
     setFilters(prev => ({ ...prev, [key]: value }));
     setPage(1);
   };
 
+  /**
+   * Switches between the live log and restored archives and resets pagination
+   * @param {string} value - "live" or "archived"
+   */
+  const handleSourceChange = (value: string) => {
+    setSource(value as keyof typeof AUDIT_SOURCES);
+    setPage(1);
+  };
+
+  /**
+   * Clears every filter
+   */
+  const clearFilters = () => {
+    setFilters({ tableName: "", action: "", recordId: "", user: "", field: "", startDate: "", endDate: "" });
+    setPage(1);
+  };
+
   /**
    * Opens audit details modal for selected audit entry
    * @param {Audit} audit - Audit entry to display in detail
@@ -118,34 +158,34 @@ export default function Audits() {
     );
   }
 
+  const selectedLink = selectedAudit ? auditRecordLink(selectedAudit) : null;
+  const hasFilters = Object.values(filters).some(Boolean);
+
   return (
       <div className="space-y-6">
-        {/* <div className="mb-6">
-          <h1 className="text-3xl font-bold text-foreground flex items-center" data-testid="text-audits-title">
-            <Shield className="w-8 h-8 mr-3" />
-            Audit Trail
-          </h1>
-          </div> */}
           <p className="text-muted-foreground">Track all system changes and user activities</p>
 
         {/* Audit Filters */}
         <Card>
-          <CardHeader>
-            <CardTitle>Filter Audit Entries</CardTitle>
+          <CardHeader className="flex flex-row items-center justify-between space-y-0">
+            <CardTitle>Search Audit Entries</CardTitle>
+            <div className="flex items-center gap-2">
+              {hasFilters && (
+                <Button variant="ghost" size="sm" onClick={clearFilters} data-testid="button-clear-audit-filters">
+                  <X className="w-4 h-4 mr-1" />
+                  Clear
+                </Button>
+              )}
+              <Tabs value={source} onValueChange={handleSourceChange}>
+                <TabsList>
+                  <TabsTrigger value="live" data-testid="tab-audit-source-live">Live Log</TabsTrigger>
+                  <TabsTrigger value="archived" data-testid="tab-audit-source-archived">Archived History</TabsTrigger>
+                </TabsList>
+              </Tabs>
+            </div>
           </CardHeader>
           <CardContent>
-            <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
-              <div>
-                <Label htmlFor="search">Search Activities</Label>
-                <Input
-                  id="search"
-                  placeholder="Search activities..."
-                  value={filters.search}
-                  onChange={(e) => handleFilterChange("search", e.target.value)}
-                  data-testid="input-search-audits"
-                />
-              </div>
-              
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
               <div>
                 <Label htmlFor="action">Action</Label>
                 <select
@@ -160,6 +200,7 @@ export default function Audits() {
                   <option value="UPDATE">UPDATE</option>
                   <option value="DELETE">DELETE</option>
                   <option value="LOGIN">LOGIN</option>
+                  <option value="ACCESS">ACCESS</option>
                 </select>
               </div>
               
@@ -173,14 +214,47 @@ export default function Audits() {
                   data-testid="select-table"
                 >
                   <option value="">All Tables</option>
-                  <option value="employees">employees</option>
-                  <option value="documents">documents</option>
-                  <option value="state_licenses">state_licenses</option>
-                  <option value="dea_licenses">dea_licenses</option>
-                  <option value="users">users</option>
+                  {AUDITED_TABLES.map((table) => (
+                    <option key={table} value={table}>{table}</option>
+                  ))}
                 </select>
               </div>
               
+              <div>
+                <Label htmlFor="recordId">Record ID</Label>
+                <Input
+                  id="recordId"
+                  type="number"
+                  min={1}
+                  placeholder="e.g. 42"
+                  value={filters.recordId}
+                  onChange={(e) => handleFilterChange("recordId", e.target.value)}
+                  data-testid="input-record-id"
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="user">User</Label>
+                <Input
+                  id="user"
+                  placeholder="Username contains..."
+                  value={filters.user}
+                  onChange={(e) => handleFilterChange("user", e.target.value)}
+                  data-testid="input-audit-user"
+                />
+              </div>
+              
+              <div>
+                <Label htmlFor="field">Field Changed</Label>
+                <Input
+                  id="field"
+                  placeholder="e.g. status, ssn"
+                  value={filters.field}
+                  onChange={(e) => handleFilterChange("field", e.target.value)}
+                  data-testid="input-audit-field"
+                />
+              </div>
+              
               <div>
                 <Label htmlFor="startDate">Start Date</Label>
                 <Input
@@ -207,128 +281,16 @@ export default function Audits() {
         </Card>
 
         {/* Audit Table */}
-        <Card>
-          <CardHeader>
-            <CardTitle>Audit Entries</CardTitle>
-          </CardHeader>
-          <CardContent className="p-0">
-            <div className="overflow-x-auto">
-              <table className="w-full">
-                <thead className="bg-muted">
-                  <tr>
-                    <th className="text-left p-4 font-medium text-foreground">Timestamp</th>
-                    <th className="text-left p-4 font-medium text-foreground">User</th>
-                    <th className="text-left p-4 font-medium text-foreground">Action</th>
-                    <th className="text-left p-4 font-medium text-foreground">Table</th>
-                    <th className="text-left p-4 font-medium text-foreground">Record ID</th>
-                    <th className="text-left p-4 font-medium text-foreground">Changes</th>
-                  </tr>
-                </thead>
-                <tbody>
-                  {isLoading ? (
-                    <tr>
-                      <td colSpan={6} className="p-8 text-center text-muted-foreground">
-                        Loading audit entries...
-                      </td>
-                    </tr>
-                  ) : !data?.audits?.length ? (
-                    <tr>
-                      <td colSpan={6} className="p-8 text-center text-muted-foreground">
-                        No audit entries found
-                      </td>
-                    </tr>
-                  ) : (
-                    data.audits.map((audit) => (
-                      <tr 
-                        key={audit.id} 
-                        className="border-t border-border hover:bg-muted/50 table-row"
-                        data-testid={`audit-row-${audit.id}`}
-                      >
-                        <td className="p-4 text-foreground">
-                          {new Date(audit.changedAt).toLocaleString()}
-                        </td>
-                        <td className="p-4 text-foreground">
-                          {(audit as any).username || "System"}
-                        </td>
-                        <td className="p-4">
-                          <span className={`px-2 py-1 text-xs font-medium rounded-full ${
-                            audit.action === 'CREATE' ? 'bg-secondary/10 text-secondary' :
-                            audit.action === 'UPDATE' ? 'bg-accent/10 text-accent' :
-                            audit.action === 'DELETE' ? 'bg-destructive/10 text-destructive' :
-                            audit.action === 'LOGIN' ? 'bg-primary/10 text-primary' :
-                            'bg-muted/10 text-muted-foreground'
-                          }`}>
-                            {audit.action}
-                          </span>
-                        </td>
-                        <td className="p-4 text-foreground">{audit.tableName}</td>
-                        <td className="p-4 text-foreground">{audit.recordId}</td>
-                        <td className="p-4">
-                          <Button 
-                            variant="ghost" 
-                            size="sm"
-                            onClick={() => showAuditDetails(audit)}
-                            className="text-primary hover:text-primary/80"
-                            data-testid={`button-view-details-${audit.id}`}
-                          >
-                            <Eye className="w-4 h-4 mr-1" />
-                            View Details
-                          </Button>
-                        </td>
-                      </tr>
-                    ))
-                  )}
-                </tbody>
-              </table>
-            </div>
-
-            {/* Pagination */}
-            {data && data.totalPages > 1 && (
-              <div className="border-t border-border p-4 flex items-center justify-between">
-                <p className="text-sm text-muted-foreground" data-testid="pagination-info">
-                  Showing {((page - 1) * 25) + 1}-{Math.min(page * 25, data.total)} of {data.total} audit entries
-                </p>
-                
-                <div className="flex items-center space-x-2">
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setPage(page - 1)}
-                    disabled={page <= 1}
-                    data-testid="button-previous-page"
-                  >
-                    Previous
-                  </Button>
-                  
-                  {Array.from({ length: Math.min(5, data.totalPages) }, (_, i) => {
-                    const pageNum = i + 1;
-                    return (
-                      <Button
-                        key={pageNum}
-                        variant={page === pageNum ? "default" : "outline"}
-                        size="sm"
-                        onClick={() => setPage(pageNum)}
-                        data-testid={`button-page-${pageNum}`}
-                      >
-                        {pageNum}
-                      </Button>
-                    );
-                  })}
-                  
-                  <Button
-                    variant="outline"
-                    size="sm"
-                    onClick={() => setPage(page + 1)}
-                    disabled={page >= data.totalPages}
-                    data-testid="button-next-page"
-                  >
-                    Next
-                  </Button>
-                </div>
-              </div>
-            )}
-          </CardContent>
-        </Card>
+        <AuditTable
+          audits={data?.audits ?? []}
+          total={data?.total ?? 0}
+          page={page}
+          totalPages={data?.totalPages ?? 0}
+          pageSize={PAGE_SIZE}
+          onPageChange={setPage}
+          onViewDetails={showAuditDetails}
+          isLoading={isLoading}
+        />
 
         {/* Audit Details Modal */}
         <Dialog open={detailsOpen} onOpenChange={setDetailsOpen}>
@@ -349,7 +311,8 @@ export default function Audits() {
                   <div>
                     <Label>User</Label>
                     <p className="text-sm font-mono bg-muted p-2 rounded">
-                      {(selectedAudit as any).username || "System"}
+                      {selectedAudit.username || "System"}
+                      {selectedAudit.impersonatedBy && ` (impersonated by admin #${selectedAudit.impersonatedBy})`}
                     </p>
                   </div>
                   <div>
@@ -359,30 +322,63 @@ export default function Audits() {
                     </p>
                   </div>
                   <div>
-                    <Label>Table</Label>
-                    <p className="text-sm font-mono bg-muted p-2 rounded">
-                      {selectedAudit.tableName}
+                    <Label>Record</Label>
+                    <p className="text-sm font-mono bg-muted p-2 rounded flex items-center justify-between">
+                      <span>{selectedAudit.tableName} #{selectedAudit.recordId}</span>
+                      {selectedLink && (
+                        <Link
+                          href={selectedLink.href}
+                          className="inline-flex items-center text-xs text-primary hover:underline font-sans"
+                          data-testid="link-audit-details-record"
+                        >
+                          {selectedLink.label}
+                          <ExternalLink className="w-3 h-3 ml-1" />
+                        </Link>
+                      )}
                     </p>
                   </div>
                 </div>
 
-                {selectedAudit.oldData && (
+                {selectedAudit.hash && (
                   <div>
-                    <Label>Old Data</Label>
-                    <pre className="text-xs bg-muted p-4 rounded overflow-x-auto">
-                      {formatJsonData(selectedAudit.oldData)}
-                    </pre>
+                    <Label>Chain Hash</Label>
+                    <p className="text-xs font-mono bg-muted p-2 rounded break-all" data-testid="text-audit-hash">
+                      {selectedAudit.hash}
+                    </p>
+                    <p className="text-xs text-muted-foreground mt-1 break-all">
+                      Previous: {selectedAudit.previousHash}
+                    </p>
                   </div>
                 )}
 
-                {selectedAudit.newData && (
-                  <div>
-                    <Label>New Data</Label>
-                    <pre className="text-xs bg-muted p-4 rounded overflow-x-auto">
-                      {formatJsonData(selectedAudit.newData)}
-                    </pre>
-                  </div>
-                )}
+                <Tabs defaultValue="changes">
+                  <TabsList>
+                    <TabsTrigger value="changes" data-testid="tab-audit-changes">Changes</TabsTrigger>
+                    <TabsTrigger value="raw" data-testid="tab-audit-raw">Raw Data</TabsTrigger>
+                  </TabsList>
+                  <TabsContent value="changes">
+                    <AuditDiff changes={selectedAudit.changes ?? []} />
+                  </TabsContent>
+                  <TabsContent value="raw" className="space-y-4">
+                    {selectedAudit.oldData && (
+                      <div>
+                        <Label>Old Data</Label>
+                        <pre className="text-xs bg-muted p-4 rounded overflow-x-auto">
+                          {formatJsonData(selectedAudit.oldData)}
+                        </pre>
+                      </div>
+                    )}
+
+                    {selectedAudit.newData && (
+                      <div>
+                        <Label>New Data</Label>
+                        <pre className="text-xs bg-muted p-4 rounded overflow-x-auto">
+                          {formatJsonData(selectedAudit.newData)}
+                        </pre>
+                      </div>
+                    )}
+                  </TabsContent>
+                </Tabs>
               </div>
             )}
           </DialogContent>
@@ -1,5 +1,6 @@
 import { useState, useEffect } from "react";
 import { useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
 import { useAuth } from "@/hooks/use-auth";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -7,10 +8,12 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Alert, AlertDescription } from "@/components/ui/alert";
-import { Users, Shield, Eye, Mail, CheckCircle } from "lucide-react";
+import { InputOTP, InputOTPGroup, InputOTPSlot } from "@/components/ui/input-otp";
+import { Users, Shield, Eye, Mail, CheckCircle, KeyRound, AlertCircle, LogIn, Fingerprint } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { PasswordChangeDialog } from "@/components/password-change-dialog";
 import { apiRequest } from "@/lib/queryClient";
+import { browserSupportsWebAuthn } from "@simplewebauthn/browser";
 
 /**
  * Authentication page providing login and registration functionality for the HR management system
@@ -28,11 +31,13 @@ import { apiRequest } from "@/lib/queryClient";
  * - Features responsive split layout with hero section showcasing system benefits
  * - Password confirmation validation with real-time feedback
  * - Invitation token processing for employee onboarding workflow
+ * - Second sign-in step (authenticator or recovery code) for MFA-enrolled users
+ * - Passkey sign-in for employees as an alternative to the password
  * - Uses data-testid attributes for comprehensive testing coverage
  */
 export default function AuthPage() {
   const [, navigate] = useLocation();
-  const { user, loginMutation, registerMutation } = useAuth();
+  const { user, loginMutation, mfaLoginMutation, passkeyLoginMutation, registerMutation } = useAuth();
   const { toast } = useToast();
   const [loginData, setLoginData] = useState({ username: "", password: "" });
   const [registerData, setRegisterData] = useState({ 
@@ -58,6 +63,22 @@ export default function AuthPage() {
   const [resetEmail, setResetEmail] = useState("");
   const [resetEmailSent, setResetEmailSent] = useState(false);
   const [resetLoading, setResetLoading] = useState(false);
+  /**
+   * MFA challenge state
+   * Set after a correct password for users enrolled in two-factor authentication
+   */
+  const [mfaChallenge, setMfaChallenge] = useState(false);
+  const [mfaCode, setMfaCode] = useState("");
+  const [useRecoveryCode, setUseRecoveryCode] = useState(false);
+  const [recoveryCode, setRecoveryCode] = useState("");
+  /**
+   * Single sign-on state
+   * ssoError is set when the IdP callback redirects back with ?sso_error=
+   */
+  const [ssoError, setSsoError] = useState<string | null>(null);
+  const { data: ssoConfig } = useQuery<{ enabled: boolean; displayName: string }>({
+    queryKey: ["/api/auth/oidc/config"],
+  });
 
   /**
    * Extract invitation token from URL on component mount
@@ -66,6 +87,7 @@ export default function AuthPage() {
    * - Checks URL query parameters for invitation token
    * - Sets onboarding mode if token is present
    * - Enables special registration flow for invited employees
+   * - Picks up single sign-on errors returned by the IdP callback
    */
   useEffect(() => {
     // Check for invitation token in URL
@@ -75,6 +97,10 @@ export default function AuthPage() {
       setInvitationToken(token);
       setIsOnboarding(true);
     }
+    const ssoErrorMessage = urlParams.get('sso_error');
+    if (ssoErrorMessage) {
+      setSsoError(ssoErrorMessage);
+    }
   }, []);
   
   useEffect(() => {
@@ -145,16 +171,72 @@ export default function AuthPage() {
    * - Redirects to dashboard on success
    * - Shows error toast on failure
    * - Handles forced password change requirement
+   * - Switches to the MFA step when the server requests a second factor
    */
   const handleLogin = (e: React.FormEvent) => {
     e.preventDefault();
     loginMutation.mutate(loginData, {
+      onSuccess: (data: any) => {
+        if (data?.mfaRequired) {
+          setMfaChallenge(true);
+        } else if (data?.requirePasswordChange) {
+          setShowPasswordChange(true);
+        } else {
+          navigate("/");
+        }
+      }
+    });
+  };
+
+  /**
+   * Handle passkey sign-in
+   * 
+   * @description
+   * - Passes the typed username (if any) so security keys without a stored
+   *   passkey can still be offered by the browser
+   * - Redirects to dashboard on success
+   */
+  const handlePasskeyLogin = () => {
+    passkeyLoginMutation.mutate(
+      { username: loginData.username.trim() || undefined },
+      { onSuccess: () => navigate("/") }
+    );
+  };
+
+  /**
+   * Handle MFA code submission (second sign-in step)
+   * 
+   * @param {React.FormEvent} e - Form submission event
+   * 
+   * @description
+   * - Sends either the 6-digit authenticator code or a recovery code
+   * - Returns to the password step if the challenge has expired
+   */
+  const handleMfaLogin = (e: React.FormEvent) => {
+    e.preventDefault();
+    const payload = useRecoveryCode ? { recoveryCode } : { code: mfaCode };
+    mfaLoginMutation.mutate(payload, {
       onSuccess: (data: any) => {
         if (data?.requirePasswordChange) {
           setShowPasswordChange(true);
         } else {
           navigate("/");
         }
+      },
+      onError: (error: any) => {
+        const expired = error.message?.startsWith("400");
+        toast({
+          title: expired ? "Sign-in Expired" : "Verification Failed",
+          description: expired
+            ? "Please enter your username and password again."
+            : "The code you entered is not valid.",
+          variant: "destructive"
+        });
+        setMfaCode("");
+        setRecoveryCode("");
+        if (expired) {
+          setMfaChallenge(false);
+        }
       }
     });
   };
@@ -253,7 +335,98 @@ export default function AuthPage() {
               </TabsList>
               
               <TabsContent value="login">
+                {mfaChallenge ? (
+                <form onSubmit={handleMfaLogin} className="space-y-4" data-testid="mfa-form">
+                  <Alert>
+                    <KeyRound className="h-4 w-4" />
+                    <AlertDescription>
+                      {useRecoveryCode
+                        ? "Enter one of your saved recovery codes."
+                        : "Enter the 6-digit code from your authenticator app."}
+                    </AlertDescription>
+                  </Alert>
+                  {useRecoveryCode ? (
+                    <div>
+                      <Label htmlFor="recovery-code">Recovery Code</Label>
+                      <Input
+                        id="recovery-code"
+                        type="text"
+                        placeholder="xxxxx-xxxxx"
+                        autoComplete="one-time-code"
+                        value={recoveryCode}
+                        onChange={(e) => setRecoveryCode(e.target.value)}
+                        required
+                        data-testid="input-recovery-code"
+                      />
+                    </div>
+                  ) : (
+                    <div className="flex justify-center">
+                      <InputOTP maxLength={6} value={mfaCode} onChange={setMfaCode} autoFocus data-testid="input-mfa-code">
+                        <InputOTPGroup>
+                          {Array.from({ length: 6 }, (_, index) => (
+                            <InputOTPSlot key={index} index={index} />
+                          ))}
+                        </InputOTPGroup>
+                      </InputOTP>
+                    </div>
+                  )}
+                  <Button
+                    type="submit"
+                    className="w-full"
+                    disabled={mfaLoginMutation.isPending || (useRecoveryCode ? !recoveryCode : mfaCode.length !== 6)}
+                    data-testid="button-mfa-submit"
+                  >
+                    {mfaLoginMutation.isPending ? "Verifying..." : "Verify"}
+                  </Button>
+                  <div className="flex justify-between text-sm">
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setUseRecoveryCode(!useRecoveryCode);
+                      }}
+                      className="text-primary hover:underline"
+                      data-testid="link-toggle-recovery-code"
+                    >
+                      {useRecoveryCode ? "Use authenticator app" : "Use a recovery code"}
+                    </a>
+                    <a
+                      href="#"
+                      onClick={(e) => {
+                        e.preventDefault();
+                        setMfaChallenge(false);
+                        setMfaCode("");
+                        setRecoveryCode("");
+                      }}
+                      className="text-muted-foreground hover:underline"
+                      data-testid="link-mfa-cancel"
+                    >
+                      Back to sign in
+                    </a>
+                  </div>
+                </form>
+                ) : (
                 <form onSubmit={handleLogin} className="space-y-4" data-testid="login-form">
+                  {ssoError && (
+                    <Alert variant="destructive" data-testid="alert-sso-error">
+                      <AlertCircle className="h-4 w-4" />
+                      <AlertDescription>{ssoError}</AlertDescription>
+                    </Alert>
+                  )}
+                  {ssoConfig?.enabled && (
+                    <>
+                      <Button asChild variant="outline" className="w-full" data-testid="button-sso-login">
+                        {/* Full page navigation: the server redirects to the identity provider */}
+                        <a href="/api/auth/oidc/login">
+                          <LogIn className="h-4 w-4 mr-2" />
+                          Sign in with {ssoConfig.displayName}
+                        </a>
+                      </Button>
+                      <div className="relative text-center text-xs text-muted-foreground">
+                        <span className="bg-card px-2">or sign in with your password</span>
+                      </div>
+                    </>
+                  )}
                   <div>
                     <Label htmlFor="login-username">Username</Label>
                     <Input
@@ -286,6 +459,19 @@ export default function AuthPage() {
                   >
                     {loginMutation.isPending ? "Signing In..." : "Sign In"}
                   </Button>
+                  {browserSupportsWebAuthn() && (
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      disabled={passkeyLoginMutation.isPending}
+                      onClick={handlePasskeyLogin}
+                      data-testid="button-passkey-login"
+                    >
+                      <Fingerprint className="h-4 w-4 mr-2" />
+                      {passkeyLoginMutation.isPending ? "Waiting for passkey..." : "Sign in with a passkey"}
+                    </Button>
+                  )}
                   <div className="mt-4 text-center">
                     <a 
                       href="#" 
@@ -302,6 +488,7 @@ export default function AuthPage() {
                     </a>
                   </div>
                 </form>
+                )}
               </TabsContent>
               
               <TabsContent value="register">
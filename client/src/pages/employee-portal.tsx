@@ -11,6 +11,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Input } from "@/components/ui/input";
 import { FileUpload } from "@/components/file-upload";
+import { EmployeeAccessLog } from "@/components/employee-access-log";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
@@ -487,12 +488,13 @@ export default function EmployeePortal() {
 
         {/* Main Content Tabs */}
         <Tabs defaultValue="personal" className="space-y-4">
-          <TabsList className="grid w-full grid-cols-5 lg:w-[600px]">
+          <TabsList className="grid w-full grid-cols-6 lg:w-[720px]">
             <TabsTrigger value="personal">Personal</TabsTrigger>
             <TabsTrigger value="documents">Documents</TabsTrigger>
             <TabsTrigger value="licenses">Licenses</TabsTrigger>
             <TabsTrigger value="training">Training</TabsTrigger>
             <TabsTrigger value="history">History</TabsTrigger>
+            <TabsTrigger value="access" data-testid="tab-record-access">Record Access</TabsTrigger>
           </TabsList>
 
           {/* Personal Information Tab */}
@@ -1060,6 +1062,15 @@ export default function EmployeePortal() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          {/* Record Access Tab */}
+          <TabsContent value="access" className="space-y-4">
+            <EmployeeAccessLog
+              endpoint="/api/employee/access-log"
+              title="Who Accessed My Record"
+              description="Everyone who viewed your sensitive information (SSN, date of birth, CAQH/NPPES credentials) or downloaded your documents."
+            />
+          </TabsContent>
         </Tabs>
 
         {/* Add Emergency Contact Dialog */}
@@ -0,0 +1,263 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ArrowLeft, GitMerge, RefreshCw, XCircle } from "lucide-react";
+import type {
+  EmployeeDuplicateCandidateSummary,
+  EmployeeDuplicateReason,
+  EmployeeDuplicateSide,
+} from "@shared/schema";
+
+interface DuplicatesResponse {
+  candidates: EmployeeDuplicateCandidateSummary[];
+  total: number;
+  page: number;
+  totalPages: number;
+}
+
+interface ScanResponse {
+  pairs: number;
+  detected: number;
+  resolved: number;
+}
+
+const REASON_LABELS: Record<EmployeeDuplicateReason, string> = {
+  npi: "Same NPI",
+  ssn: "Same SSN",
+  dob_name: "Same name and date of birth",
+  email: "Same email",
+};
+
+const PAGE_SIZE = 20;
+
+/**
+ * One employee of a duplicate pair
+ */
+function EmployeeSide({ side, id }: { side: EmployeeDuplicateSide | null; id: number }) {
+  if (!side) {
+    return <p className="text-sm text-muted-foreground">Employee #{id} (deleted)</p>;
+  }
+  return (
+    <div className="space-y-1 text-sm">
+      <Link href={`/employees/${side.id}`} className="font-medium text-primary hover:underline">
+        {side.firstName} {side.lastName} (#{side.id})
+      </Link>
+      <p className="text-muted-foreground">{side.jobTitle || "No job title"} · {side.status || "unknown status"}</p>
+      <p>{side.workEmail}{side.personalEmail ? ` · ${side.personalEmail}` : ""}</p>
+      {side.npiNumber && <p>NPI {side.npiNumber}</p>}
+      {side.createdAt && <p className="text-muted-foreground">Created {new Date(side.createdAt).toLocaleDateString()}</p>}
+    </div>
+  );
+}
+
+/**
+ * Review queue of employee records that look like the same person:
+ * merge them into one record or dismiss the match
+ */
+export default function EmployeeDuplicates() {
+  const { toast } = useToast();
+  const [status, setStatus] = useState("pending");
+  const [page, setPage] = useState(1);
+  const [pendingMerge, setPendingMerge] = useState<{ candidate: EmployeeDuplicateCandidateSummary; survivingEmployeeId: number } | null>(null);
+
+  const { data, isLoading } = useQuery<DuplicatesResponse>({
+    queryKey: [`/api/employees/duplicates?status=${status}&page=${page}&limit=${PAGE_SIZE}`],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ predicate: query => String(query.queryKey[0]).startsWith("/api/employees") });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async () => (await apiRequest("POST", "/api/employees/duplicates/scan")).json() as Promise<ScanResponse>,
+    onSuccess: (result) => {
+      invalidate();
+      toast({ title: "Scan complete", description: `${result.pairs} possible duplicates, ${result.detected} new` });
+    },
+    onError: showError("Scan failed"),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: async (id: number) => apiRequest("POST", `/api/employees/duplicates/${id}/dismiss`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Marked as not a duplicate" });
+    },
+    onError: showError("Could not dismiss"),
+  });
+
+  const mergeMutation = useMutation({
+    mutationFn: async ({ id, survivingEmployeeId }: { id: number; survivingEmployeeId: number }) =>
+      apiRequest("POST", `/api/employees/duplicates/${id}/merge`, { survivingEmployeeId }),
+    onSuccess: () => {
+      invalidate();
+      setPendingMerge(null);
+      toast({ title: "Employees merged" });
+    },
+    onError: showError("Merge failed"),
+  });
+
+  const mergedSide = pendingMerge && (pendingMerge.survivingEmployeeId === pendingMerge.candidate.employeeId
+    ? pendingMerge.candidate.duplicate
+    : pendingMerge.candidate.employee);
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground" data-testid="text-duplicates-title">Duplicate Employees</h1>
+            <p className="text-muted-foreground">Records sharing an NPI, SSN, email, or name and date of birth</p>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => scanMutation.mutate()} disabled={scanMutation.isPending} data-testid="button-scan-duplicates">
+              <RefreshCw className={`w-4 h-4 mr-2 ${scanMutation.isPending ? "animate-spin" : ""}`} />
+              Scan now
+            </Button>
+            <Link href="/employees">
+              <Button variant="outline" data-testid="button-back-employees">
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Employees
+              </Button>
+            </Link>
+          </div>
+        </div>
+
+        <Select value={status} onValueChange={(value) => { setStatus(value); setPage(1); }}>
+          <SelectTrigger className="w-48" data-testid="select-duplicate-status">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="pending">Pending review</SelectItem>
+            <SelectItem value="dismissed">Dismissed</SelectItem>
+            <SelectItem value="merged">Merged</SelectItem>
+          </SelectContent>
+        </Select>
+
+        {isLoading && <p className="text-muted-foreground">Loading...</p>}
+        {!isLoading && data?.candidates.length === 0 && (
+          <Card>
+            <CardContent className="py-8 text-center text-muted-foreground">No {status} duplicates</CardContent>
+          </Card>
+        )}
+
+        {data?.candidates.map(candidate => (
+          <Card key={candidate.id} data-testid={`card-duplicate-${candidate.id}`}>
+            <CardHeader>
+              <CardTitle className="flex flex-wrap items-center gap-2 text-base">
+                {candidate.reasons.map(reason => (
+                  <Badge key={reason} variant="secondary">{REASON_LABELS[reason]}</Badge>
+                ))}
+              </CardTitle>
+              <CardDescription>
+                Detected {new Date(candidate.detectedAt).toLocaleDateString()}
+                {candidate.reviewedAt && ` · reviewed ${new Date(candidate.reviewedAt).toLocaleDateString()}`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-6 md:grid-cols-2">
+                {[candidate.employeeId, candidate.duplicateEmployeeId].map(id => (
+                  <div key={id} className="space-y-3 rounded-md border p-4">
+                    <EmployeeSide id={id} side={id === candidate.employeeId ? candidate.employee : candidate.duplicate} />
+                    {candidate.status === "pending" && (
+                      <Button
+                        size="sm"
+                        onClick={() => setPendingMerge({ candidate, survivingEmployeeId: id })}
+                        disabled={!candidate.employee || !candidate.duplicate}
+                        data-testid={`button-keep-${candidate.id}-${id}`}
+                      >
+                        <GitMerge className="w-4 h-4 mr-2" />
+                        Keep this record
+                      </Button>
+                    )}
+                    {candidate.status === "merged" && candidate.survivingEmployeeId === id && (
+                      <Badge>Kept</Badge>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {candidate.status === "pending" && (
+                <Button variant="outline" size="sm" onClick={() => dismissMutation.mutate(candidate.id)} disabled={dismissMutation.isPending} data-testid={`button-dismiss-${candidate.id}`}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Not a duplicate
+                </Button>
+              )}
+
+              {candidate.mergeSummary && (
+                <div className="text-sm text-muted-foreground">
+                  <p>
+                    Moved: {Object.entries(candidate.mergeSummary.movedRecords)
+                      .map(([table, ids]) => `${ids.length} ${table.replace(/_/g, " ")}`)
+                      .join(", ") || "nothing"}
+                  </p>
+                  {candidate.mergeSummary.filledFields.length > 0 && (
+                    <p>Filled in: {candidate.mergeSummary.filledFields.join(", ")}</p>
+                  )}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+
+        {data && data.totalPages > 1 && (
+          <div className="flex items-center justify-end gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>Previous</Button>
+            <span className="text-sm text-muted-foreground">Page {page} of {data.totalPages}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= data.totalPages}>Next</Button>
+          </div>
+        )}
+      </div>
+
+      <AlertDialog open={!!pendingMerge} onOpenChange={(open) => !open && setPendingMerge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Merge employees</AlertDialogTitle>
+            <AlertDialogDescription>
+              Licenses, documents, forms, tasks and other records of {mergedSide?.firstName} {mergedSide?.lastName} (#{mergedSide?.id})
+              move to employee #{pendingMerge?.survivingEmployeeId}, whose empty fields are filled in from the other record.
+              Employee #{mergedSide?.id} is then deleted. This cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel data-testid="button-cancel-merge">Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => pendingMerge && mergeMutation.mutate({ id: pendingMerge.candidate.id, survivingEmployeeId: pendingMerge.survivingEmployeeId })}
+              disabled={mergeMutation.isPending}
+              data-testid="button-confirm-merge"
+            >
+              Merge
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </MainLayout>
+  );
+}
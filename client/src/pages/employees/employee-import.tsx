@@ -0,0 +1,374 @@
+import { useState } from "react";
+import { Link } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { MainLayout } from "@/components/layout/main-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { ArrowLeft, CheckCircle, Download, FileSpreadsheet, Upload } from "lucide-react";
+import type {
+  EmployeeImportField,
+  EmployeeImportPreview,
+  EmployeeImportReport,
+  EmployeeImportRow,
+  EmployeeImportSection,
+} from "@shared/schema";
+
+/**
+ * Select value standing for "do not import this column"
+ */
+const SKIP = "__skip__";
+
+/**
+ * Headings of the field groups in the mapping selects
+ */
+const SECTION_LABELS: Record<EmployeeImportSection, string> = {
+  employee: "Employee",
+  stateLicense: "State license",
+  deaLicense: "DEA license",
+  boardCertification: "Board certification",
+};
+
+const STATUS_VARIANTS: Record<EmployeeImportRow["status"], "default" | "destructive" | "secondary"> = {
+  valid: "default",
+  invalid: "destructive",
+  duplicate: "secondary",
+};
+
+type Step = "upload" | "map" | "review" | "done";
+
+/**
+ * Send the spreadsheet and mapping to an import endpoint
+ * @param {string} url - Import endpoint
+ * @param {File} file - Spreadsheet
+ * @param {Record<string, string | null>} [mapping] - Field key per header
+ * @param {Record<string, string>} [fields] - Extra form fields
+ * @returns {Promise<Response>} OK response
+ * @throws {Error} With the server's error message
+ */
+async function postImport(url: string, file: File, mapping?: Record<string, string | null>, fields: Record<string, string> = {}): Promise<Response> {
+  const formData = new FormData();
+  formData.append("file", file);
+  if (mapping) formData.append("mapping", JSON.stringify(mapping));
+  for (const [name, value] of Object.entries(fields)) formData.append(name, value);
+
+  const res = await fetch(url, { method: "POST", body: formData, credentials: "include" });
+  if (!res.ok) {
+    const body = await res.json().catch(() => null);
+    throw new Error(body?.error || body?.message || res.statusText);
+  }
+  return res;
+}
+
+/**
+ * Bulk employee import wizard: upload a CSV or XLSX file, map its columns,
+ * review the dry run and import
+ */
+export default function EmployeeImport() {
+  const { toast } = useToast();
+  const [step, setStep] = useState<Step>("upload");
+  const [file, setFile] = useState<File | null>(null);
+  const [preview, setPreview] = useState<EmployeeImportPreview | null>(null);
+  const [mapping, setMapping] = useState<Record<string, string | null>>({});
+  const [report, setReport] = useState<EmployeeImportReport | null>(null);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (selected: File) => (await postImport("/api/employees/import/preview", selected)).json() as Promise<EmployeeImportPreview>,
+    onSuccess: (data) => {
+      setPreview(data);
+      setMapping(data.mapping);
+      setStep("map");
+    },
+    onError: showError("Could not read file"),
+  });
+
+  const validateMutation = useMutation({
+    mutationFn: async () => (await postImport("/api/employees/import/validate", file!, mapping)).json() as Promise<EmployeeImportReport>,
+    onSuccess: (data) => {
+      setReport(data);
+      setSkipInvalid(false);
+      setStep("review");
+    },
+    onError: showError("Dry run failed"),
+  });
+
+  const errorFileMutation = useMutation({
+    mutationFn: async () => (await postImport("/api/employees/import/errors", file!, mapping)).blob(),
+    onSuccess: (blob) => {
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `${file!.name.replace(/\.[^.]+$/, "")}-errors.csv`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      window.URL.revokeObjectURL(url);
+    },
+    onError: showError("Could not download error file"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async () => (await postImport("/api/employees/import", file!, mapping, { skipInvalid: String(skipInvalid) })).json() as Promise<EmployeeImportReport>,
+    onSuccess: (data) => {
+      setReport(data);
+      setStep("done");
+      queryClient.invalidateQueries({ queryKey: ["/api/employees"] });
+      toast({ title: "Import complete", description: `${data.createdEmployeeIds?.length ?? 0} employees created` });
+    },
+    onError: showError("Import failed"),
+  });
+
+  const handleFile = (selected: File | undefined) => {
+    if (!selected) return;
+    setFile(selected);
+    previewMutation.mutate(selected);
+  };
+
+  const reset = () => {
+    setStep("upload");
+    setFile(null);
+    setPreview(null);
+    setMapping({});
+    setReport(null);
+  };
+
+  const fieldsBySection = (preview?.fields ?? []).reduce<Record<string, EmployeeImportField[]>>((groups, field) => {
+    (groups[field.section] ??= []).push(field);
+    return groups;
+  }, {});
+  const mappedKeys = new Set(Object.values(mapping).filter(Boolean));
+  const missingRequired = (preview?.fields ?? []).filter(field => field.section === "employee" && field.required && !mappedKeys.has(field.key));
+  const failedRows = report ? report.invalidRows + report.duplicateRows : 0;
+
+  return (
+    <MainLayout>
+      <div className="space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground" data-testid="text-import-title">Import Employees</h1>
+            <p className="text-muted-foreground">Create employees with their licenses and certifications from a CSV or XLSX spreadsheet</p>
+          </div>
+          <Link href="/employees">
+            <Button variant="outline" data-testid="button-back-employees">
+              <ArrowLeft className="w-4 h-4 mr-2" />
+              Employees
+            </Button>
+          </Link>
+        </div>
+
+        {step === "upload" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Upload spreadsheet</CardTitle>
+              <CardDescription>
+                First sheet, column headers in row 1, up to 5000 rows. Rows with the same work email are one employee;
+                each row can add a state license, a DEA license and a board certification.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <Label htmlFor="import-file">File</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx"
+                disabled={previewMutation.isPending}
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                data-testid="input-import-file"
+              />
+              {previewMutation.isPending && <p className="text-sm text-muted-foreground">Reading file...</p>}
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "map" && preview && (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Map columns</CardTitle>
+              <CardDescription>
+                <FileSpreadsheet className="inline w-4 h-4 mr-1" />
+                {file?.name}: {preview.rowCount} rows. Choose the field each column fills; columns left on "Don't import" are ignored.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Column</TableHead>
+                    <TableHead>Sample</TableHead>
+                    <TableHead>Field</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.headers.map((header, index) => (
+                    <TableRow key={header}>
+                      <TableCell className="font-medium">{header}</TableCell>
+                      <TableCell className="text-muted-foreground max-w-[200px] truncate">
+                        {preview.sampleRows.map(row => row[index]).filter(Boolean).slice(0, 2).join(", ")}
+                      </TableCell>
+                      <TableCell>
+                        <Select
+                          value={mapping[header] ?? SKIP}
+                          onValueChange={(value) => setMapping({ ...mapping, [header]: value === SKIP ? null : value })}
+                        >
+                          <SelectTrigger className="w-[280px]" data-testid={`select-mapping-${index}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={SKIP}>Don't import</SelectItem>
+                            {(Object.keys(SECTION_LABELS) as EmployeeImportSection[]).map(section => (
+                              <SelectGroup key={section}>
+                                <SelectLabel>{SECTION_LABELS[section]}</SelectLabel>
+                                {(fieldsBySection[section] ?? []).map(field => (
+                                  <SelectItem
+                                    key={field.key}
+                                    value={field.key}
+                                    disabled={mappedKeys.has(field.key) && mapping[header] !== field.key}
+                                  >
+                                    {field.label}{field.required ? " *" : ""}
+                                  </SelectItem>
+                                ))}
+                              </SelectGroup>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {missingRequired.length > 0 && (
+                <p className="text-sm text-destructive">Map a column to {missingRequired.map(field => field.label).join(", ")}</p>
+              )}
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={reset}>Choose another file</Button>
+                <Button
+                  onClick={() => validateMutation.mutate()}
+                  disabled={missingRequired.length > 0 || validateMutation.isPending}
+                  data-testid="button-dry-run"
+                >
+                  {validateMutation.isPending ? "Validating..." : "Run dry run"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "review" && report && (
+          <Card>
+            <CardHeader>
+              <CardTitle>3. Review dry run</CardTitle>
+              <CardDescription>Nothing has been saved yet.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex flex-wrap gap-2" data-testid="import-summary">
+                <Badge>{report.employees} employees</Badge>
+                <Badge variant="outline">{report.stateLicenses} state licenses</Badge>
+                <Badge variant="outline">{report.deaLicenses} DEA licenses</Badge>
+                <Badge variant="outline">{report.boardCertifications} board certifications</Badge>
+                {report.invalidRows > 0 && <Badge variant="destructive">{report.invalidRows} invalid rows</Badge>}
+                {report.duplicateRows > 0 && <Badge variant="secondary">{report.duplicateRows} duplicate rows</Badge>}
+              </div>
+
+              {failedRows > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Row</TableHead>
+                      <TableHead>Employee</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Errors</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.rows.filter(row => row.status !== "valid").map(row => (
+                      <TableRow key={row.row} data-testid={`row-import-${row.row}`}>
+                        <TableCell>{row.row}</TableCell>
+                        <TableCell>{row.name ?? row.workEmail ?? "—"}</TableCell>
+                        <TableCell><Badge variant={STATUS_VARIANTS[row.status]}>{row.status}</Badge></TableCell>
+                        <TableCell className="text-sm">{row.errors.join("; ")}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+
+              {failedRows > 0 && (
+                <div className="flex items-center justify-between rounded-md border p-3">
+                  <div className="flex items-center space-x-2">
+                    <Switch id="skip-invalid" checked={skipInvalid} onCheckedChange={setSkipInvalid} data-testid="switch-skip-invalid" />
+                    <Label htmlFor="skip-invalid">Import the valid employees and leave out the rows with errors</Label>
+                  </div>
+                  <Button variant="outline" onClick={() => errorFileMutation.mutate()} disabled={errorFileMutation.isPending} data-testid="button-download-errors">
+                    <Download className="w-4 h-4 mr-2" />
+                    Download error file
+                  </Button>
+                </div>
+              )}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep("map")}>Back to mapping</Button>
+                <Button
+                  onClick={() => importMutation.mutate()}
+                  disabled={report.employees === 0 || (failedRows > 0 && !skipInvalid) || importMutation.isPending}
+                  data-testid="button-commit-import"
+                >
+                  <Upload className="w-4 h-4 mr-2" />
+                  {importMutation.isPending ? "Importing..." : `Import ${report.employees} employees`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "done" && report && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CheckCircle className="w-5 h-5 mr-2 text-green-600" />
+                Import complete
+              </CardTitle>
+              <CardDescription>
+                {report.createdEmployeeIds?.length ?? 0} employees created with {report.stateLicenses} state licenses,
+                {" "}{report.deaLicenses} DEA licenses and {report.boardCertifications} board certifications.
+                {failedRows > 0 && ` ${failedRows} rows were left out.`}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="flex space-x-2">
+              <Link href="/employees">
+                <Button data-testid="button-view-employees">View employees</Button>
+              </Link>
+              <Button variant="outline" onClick={reset}>Import another file</Button>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </MainLayout>
+  );
+}
@@ -1,4 +1,4 @@
-import { useParams, useLocation, Link } from "wouter";
+import { useParams, useLocation, useSearch, Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useState, useEffect } from "react";
 import { MainLayout } from "@/components/layout/main-layout";
@@ -63,7 +63,9 @@ import {
   FileSignature,
   Upload,
   CheckCircle2,
-  X
+  X,
+  Eye,
+  UserMinus
 } from "lucide-react";
 import type { Employee } from "@/lib/types";
 import { EducationsManager } from "@/components/entity-managers/educations-manager";
@@ -80,6 +82,8 @@ import { FormsManager } from "@/components/entity-managers/forms-manager";
 import { DocumentUploader } from "@/components/documents/DocumentUploader";
 import { DocumentList } from "@/components/documents/DocumentList";
 import { EmployeeTasks } from "@/components/tasks/EmployeeTasks";
+import { EmployeeAccessLog } from "@/components/employee-access-log";
+import { EmployeeOffboarding } from "@/components/employee-offboarding";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
@@ -116,6 +120,10 @@ export default function EmployeeProfile() {
   const { toast } = useToast();
   const { user } = useAuth();
   const employeeId = parseInt(params.id || "0");
+  // Links from the audit log open a specific tab (?tab=state-licenses)
+  const initialTab = new URLSearchParams(useSearch()).get("tab") || "education";
+  const canViewAccessLog = user?.role === "admin" || user?.role === "hr";
+  const canOffboard = user?.role === "admin" || user?.role === "hr";
   const lastUpdated = new Date().toLocaleString('en-US', {
     month: 'short',
     day: 'numeric',
@@ -1318,7 +1326,7 @@ export default function EmployeeProfile() {
               </CardTitle>
             </CardHeader>
             <CardContent className="p-0">
-              <Tabs defaultValue="education" className="flex flex-col lg:flex-row w-full" orientation="vertical">
+              <Tabs key={initialTab} defaultValue={initialTab} className="flex flex-col lg:flex-row w-full" orientation="vertical">
                 {/* Desktop: Vertical sidebar, Mobile: Collapsible navigation */}
                 <div className="lg:w-64 w-full lg:border-r border-b lg:border-b-0 bg-muted/5">
                   <div className="lg:hidden p-3 border-b bg-muted/10">
@@ -1434,6 +1442,26 @@ export default function EmployeeProfile() {
                       <AlertTriangle className="w-4 h-4 mr-3 flex-shrink-0" />
                       <span className="text-left">Incident Reports</span>
                     </TabsTrigger>
+                    {canViewAccessLog && (
+                      <TabsTrigger 
+                        value="access-log"
+                        className="w-full justify-start data-[state=active]:bg-primary/10 data-[state=active]:text-primary data-[state=active]:border-l-2 data-[state=active]:border-primary rounded-md h-10 px-3 hover:bg-muted/50 transition-colors"
+                        data-testid="tab-access-log"
+                      >
+                        <Eye className="w-4 h-4 mr-3 flex-shrink-0" />
+                        <span className="text-left">Access Log</span>
+                      </TabsTrigger>
+                    )}
+                    {canOffboard && (
+                      <TabsTrigger 
+                        value="offboarding"
+                        className="w-full justify-start data-[state=active]:bg-primary/10 data-[state=active]:text-primary data-[state=active]:border-l-2 data-[state=active]:border-primary rounded-md h-10 px-3 hover:bg-muted/50 transition-colors"
+                        data-testid="tab-offboarding"
+                      >
+                        <UserMinus className="w-4 h-4 mr-3 flex-shrink-0" />
+                        <span className="text-left">Offboarding</span>
+                      </TabsTrigger>
+                    )}
                   </TabsList>
                 </div>
                 
@@ -1482,6 +1510,18 @@ export default function EmployeeProfile() {
                     <IncidentLogsManager employeeId={employeeId} />
                   </TabsContent>
                   
+                  {canViewAccessLog && (
+                    <TabsContent value="access-log" className="mt-0 animate-in fade-in-50 duration-300">
+                      <EmployeeAccessLog endpoint={`/api/employees/${employeeId}/access-log`} />
+                    </TabsContent>
+                  )}
+                  
+                  {canOffboard && (
+                    <TabsContent value="offboarding" className="mt-0 animate-in fade-in-50 duration-300">
+                      <EmployeeOffboarding employeeId={employeeId} employeeName={`${employee.firstName} ${employee.lastName}`} />
+                    </TabsContent>
+                  )}
+                  
                   <TabsContent value="forms" className="mt-0 animate-in fade-in-50 duration-300">
                     <FormsManager employeeId={employeeId} />
                   </TabsContent>
@@ -16,7 +16,7 @@ import { SearchFilters } from "@/components/search-filters";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
-import { Plus, Search, UserPlus, Mail, Clock, RefreshCw, CheckCircle, XCircle, TestTube, Copy } from "lucide-react";
+import { Plus, Search, UserPlus, Mail, Clock, RefreshCw, CheckCircle, XCircle, TestTube, Copy, FileUp, Users } from "lucide-react";
 import { Employee } from "@/lib/types";
 
 /**
@@ -661,6 +661,26 @@ export default function EmployeesList() {
               </Dialog>
             )}
             
+            {/* Bulk Import Button */}
+            {(user?.role === 'admin' || user?.role === 'hr') && (
+              <Link href="/employees/import">
+                <Button variant="outline" data-testid="button-import-employees">
+                  <FileUp className="w-4 h-4 mr-2" />
+                  Import
+                </Button>
+              </Link>
+            )}
+            
+            {/* Duplicate Review Button */}
+            {(user?.role === 'admin' || user?.role === 'hr') && (
+              <Link href="/employees/duplicates">
+                <Button variant="outline" data-testid="button-duplicate-employees">
+                  <Users className="w-4 h-4 mr-2" />
+                  Duplicates
+                </Button>
+              </Link>
+            )}
+            
             {/* Add Employee Button */}
             <Link href="/employees/new">
               <Button className="bg-primary text-primary-foreground hover:bg-primary/90" data-testid="button-add-employee">
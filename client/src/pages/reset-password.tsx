@@ -8,6 +8,7 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Users, AlertCircle, CheckCircle, Lock } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { PasswordRequirements, usePasswordPolicy, meetsPasswordPolicy } from "@/components/password-requirements";
 
 /**
  * Password Reset Page - Final step of password recovery process
@@ -36,6 +37,7 @@ export default function ResetPasswordPage() {
   const [loading, setLoading] = useState(false);
   const [resetSuccess, setResetSuccess] = useState(false);
   const [tokenError, setTokenError] = useState(false);
+  const passwordPolicy = usePasswordPolicy();
 
   /**
    * Validate reset token from URL on mount
@@ -88,8 +90,7 @@ export default function ResetPasswordPage() {
    * - Automatic redirect after success
    * 
    * @validation
-   * - Min 8 characters
-   * - Must contain uppercase, lowercase, number, special char
+   * - Must meet the admin-configured password policy
    * - Passwords must match
    */
   const handleResetPassword = async (e: React.FormEvent) => {
@@ -106,11 +107,10 @@ export default function ResetPasswordPage() {
     }
 
     // Validate password strength
-    const passwordRegex = /^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/;
-    if (passwords.newPassword.length < 8 || !passwordRegex.test(passwords.newPassword)) {
+    if (!meetsPasswordPolicy(passwords.newPassword, passwordPolicy)) {
       toast({
         title: "Weak Password",
-        description: "Password must be at least 8 characters and contain uppercase, lowercase, number, and special character.",
+        description: "Password does not meet the password requirements listed below the field.",
         variant: "destructive"
       });
       return;
@@ -121,7 +121,8 @@ export default function ResetPasswordPage() {
     try {
       const response = await apiRequest('POST', '/api/auth/confirm-reset-password', {
         token: token,
-        newPassword: passwords.newPassword
+        newPassword: passwords.newPassword,
+        confirmPassword: passwords.confirmPassword
       });
       
       const data = await response.json();
@@ -246,9 +247,9 @@ export default function ResetPasswordPage() {
                     data-testid="input-new-password"
                     disabled={loading}
                   />
-                  <p className="text-xs text-muted-foreground mt-1">
-                    Must be at least 8 characters with uppercase, lowercase, number, and special character
-                  </p>
+                  <div className="mt-1">
+                    <PasswordRequirements password={passwords.newPassword} policy={passwordPolicy} />
+                  </div>
                 </div>
                 
                 <div>
@@ -12,7 +12,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Settings as SettingsIcon, Users, Bell, Shield, Edit, Trash2, Plus, Save, Key, Cloud, Database, CheckCircle, XCircle, ArrowUpCircle, Mail, Send, MailCheck, FileSignature, RefreshCw, Link2, FileText, ChevronUp, ChevronDown, GripVertical } from "lucide-react";
+import { Settings as SettingsIcon, Users, Bell, Shield, Edit, Trash2, Plus, Save, Key, Cloud, Database, CheckCircle, XCircle, ArrowUpCircle, Mail, Send, MailCheck, FileSignature, RefreshCw, Link2, FileText, ChevronUp, ChevronDown, GripVertical, Webhook } from "lucide-react";
 import { Link } from "wouter";
 import {
   insertRequiredDocumentTypeSchema,
@@ -29,6 +29,7 @@ import { Switch } from "@/components/ui/switch";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import Audits from "./audits";
+import { EncryptionKeysPanel } from "@/components/encryption-keys-panel";
 
 
 /**
@@ -42,6 +43,75 @@ interface SystemSettings {
   caqhReattestationWarningDays: number;
 }
 
+/**
+ * System security policy (admin only)
+ */
+interface SecuritySettings {
+  mfaRequiredRoles: string[];
+  passwordLoginDisabledRoles: string[];
+  ssoRoleMappings: SsoRoleMappings | null;
+  ssoAutoProvision: boolean;
+  ssoConfigured?: boolean;
+  passwordMinLength: number;
+  passwordRequireUppercase: boolean;
+  passwordRequireLowercase: boolean;
+  passwordRequireNumber: boolean;
+  passwordRequireSymbol: boolean;
+  passwordBlockBreached: boolean;
+  passwordHistoryCount: number;
+  passwordMaxAgeDays: number;
+  updatedAt?: string;
+}
+
+/**
+ * Identity provider group names that grant each role on SSO sign-in
+ */
+interface SsoRoleMappings {
+  admin: string[];
+  hr: string[];
+  employee: string[];
+}
+
+/**
+ * Roles that can be required to use two-factor authentication
+ */
+const MFA_POLICY_ROLES = [
+  { role: "admin", label: "Administrators" },
+  { role: "hr", label: "HR Staff" }
+];
+
+/**
+ * Password complexity rules that can be switched on or off
+ */
+type PasswordRuleField =
+  | "passwordRequireUppercase"
+  | "passwordRequireLowercase"
+  | "passwordRequireNumber"
+  | "passwordRequireSymbol"
+  | "passwordBlockBreached";
+
+const PASSWORD_RULES: Array<{ field: PasswordRuleField; label: string }> = [
+  { field: "passwordRequireUppercase", label: "Require an uppercase letter" },
+  { field: "passwordRequireLowercase", label: "Require a lowercase letter" },
+  { field: "passwordRequireNumber", label: "Require a number" },
+  { field: "passwordRequireSymbol", label: "Require a special character" },
+  { field: "passwordBlockBreached", label: "Block common and breached passwords" }
+];
+
+/**
+ * Numeric password policy limits edited as text until saved
+ */
+type PasswordLimitField = "passwordMinLength" | "passwordHistoryCount" | "passwordMaxAgeDays";
+
+/**
+ * Roles that can be mapped from identity provider groups or restricted to SSO
+ */
+const SSO_POLICY_ROLES: Array<{ role: keyof SsoRoleMappings; label: string }> = [
+  { role: "admin", label: "Administrators" },
+  { role: "hr", label: "HR Staff" },
+  { role: "employee", label: "Employees" }
+];
+
 interface S3Status {
   configured: boolean;
   bucketName: string;
@@ -216,6 +286,16 @@ export default function Settings() {
   const [activeTab, setActiveTab] = useState("general");
 
 
+  // Security Settings Query (Admin only)
+  const { data: securitySettings } = useQuery<SecuritySettings>({
+    queryKey: ["/api/admin/security-settings"],
+    enabled: isAdmin
+  });
+  // Comma-separated group names being edited (null until the admin types)
+  const [ssoGroupDraft, setSsoGroupDraft] = useState<Record<keyof SsoRoleMappings, string> | null>(null);
+  // Password length, history and age limits being edited (null until the admin types)
+  const [passwordLimitDraft, setPasswordLimitDraft] = useState<Record<PasswordLimitField, string> | null>(null);
+
   // S3 Storage Status Query
   const { data: s3Status, isLoading: s3StatusLoading } = useQuery<S3Status>({
     queryKey: ["/api/storage/status"],
@@ -302,6 +382,98 @@ export default function Settings() {
     }
   });
 
+  // Security Settings Mutation
+  const updateSecuritySettingsMutation = useMutation({
+    mutationFn: (data: Partial<SecuritySettings>) =>
+      apiRequest("PUT", "/api/admin/security-settings", data),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Security policy updated successfully"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/security-settings"] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  /**
+   * Toggle whether a role must use two-factor authentication
+   */
+  const toggleMfaRequiredRole = (role: string, required: boolean) => {
+    const current = securitySettings?.mfaRequiredRoles || [];
+    const mfaRequiredRoles = required
+      ? Array.from(new Set([...current, role]))
+      : current.filter(r => r !== role);
+    updateSecuritySettingsMutation.mutate({ mfaRequiredRoles });
+  };
+
+  /**
+   * Toggle whether a role may still sign in with a password (SSO only when disabled)
+   */
+  const togglePasswordLoginDisabledRole = (role: string, disabled: boolean) => {
+    const current = securitySettings?.passwordLoginDisabledRoles || [];
+    const passwordLoginDisabledRoles = disabled
+      ? Array.from(new Set([...current, role]))
+      : current.filter(r => r !== role);
+    updateSecuritySettingsMutation.mutate({ passwordLoginDisabledRoles });
+  };
+
+  /**
+   * Current group mapping text for a role (draft value while editing)
+   */
+  const ssoGroupValue = (role: keyof SsoRoleMappings) =>
+    ssoGroupDraft ? ssoGroupDraft[role] : (securitySettings?.ssoRoleMappings?.[role] || []).join(", ");
+
+  /**
+   * Save identity provider group to role mappings
+   */
+  const saveSsoRoleMappings = () => {
+    const ssoRoleMappings = SSO_POLICY_ROLES.reduce((mappings, { role }) => {
+      mappings[role] = ssoGroupValue(role).split(",").map(group => group.trim()).filter(Boolean);
+      return mappings;
+    }, {} as SsoRoleMappings);
+    updateSecuritySettingsMutation.mutate({ ssoRoleMappings }, {
+      onSuccess: () => setSsoGroupDraft(null)
+    });
+  };
+
+  /**
+   * Current password limit text (draft value while editing)
+   */
+  const passwordLimitValue = (field: PasswordLimitField) =>
+    passwordLimitDraft ? passwordLimitDraft[field] : String(securitySettings?.[field] ?? "");
+
+  /**
+   * Update one password limit in the draft
+   */
+  const editPasswordLimit = (field: PasswordLimitField, value: string) => {
+    setPasswordLimitDraft({
+      passwordMinLength: passwordLimitValue("passwordMinLength"),
+      passwordHistoryCount: passwordLimitValue("passwordHistoryCount"),
+      passwordMaxAgeDays: passwordLimitValue("passwordMaxAgeDays"),
+      [field]: value
+    });
+  };
+
+  /**
+   * Save password length, history and age limits
+   */
+  const savePasswordLimits = () => {
+    updateSecuritySettingsMutation.mutate({
+      passwordMinLength: parseInt(passwordLimitValue("passwordMinLength"), 10),
+      passwordHistoryCount: parseInt(passwordLimitValue("passwordHistoryCount"), 10) || 0,
+      passwordMaxAgeDays: parseInt(passwordLimitValue("passwordMaxAgeDays"), 10) || 0
+    }, {
+      onSuccess: () => setPasswordLimitDraft(null)
+    });
+  };
+
   // S3 Configuration Mutations
   const updateS3ConfigMutation = useMutation({
     mutationFn: (configData: typeof s3FormData) =>
@@ -1739,11 +1911,18 @@ export default function Settings() {
               <Key className="w-5 h-5 mr-2" />
               API Keys
             </CardTitle>
-            <Link href="/settings/api-keys">
-              <Button size="sm" variant="outline" data-testid="button-manage-api-keys">
-                Manage API Keys
-              </Button>
-            </Link>
+            <div className="flex gap-2">
+              <Link href="/settings/api-docs">
+                <Button size="sm" variant="outline" data-testid="button-api-reference">
+                  API Reference
+                </Button>
+              </Link>
+              <Link href="/settings/api-keys">
+                <Button size="sm" variant="outline" data-testid="button-manage-api-keys">
+                  Manage API Keys
+                </Button>
+              </Link>
+            </div>
           </CardHeader>
           <CardContent>
             <p className="text-muted-foreground">
@@ -1770,6 +1949,29 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Outbound Webhooks */}
+        {isAdmin && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <CardTitle className="flex items-center">
+                <Webhook className="w-5 h-5 mr-2" />
+                Webhooks
+              </CardTitle>
+              <Link href="/settings/webhooks">
+                <Button size="sm" variant="outline" data-testid="button-manage-webhooks">
+                  Manage Webhooks
+                </Button>
+              </Link>
+            </CardHeader>
+            <CardContent>
+              <p className="text-muted-foreground">
+                Send signed event notifications to payroll, EMR provisioning and badge access systems
+                when employees are approved, licenses expire, forms are completed or invitations are accepted.
+              </p>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Security Information */}
         <Card>
           <CardHeader>
@@ -1815,6 +2017,182 @@ export default function Settings() {
           </CardContent>
         </Card>
 
+        {/* Authentication Policy Card */}
+        {isAdmin && (
+          <Card data-testid="card-authentication-policy">
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Key className="w-5 h-5 mr-2" />
+                Authentication Policy
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <p className="font-medium">Require Two-Factor Authentication</p>
+                <p className="text-sm text-muted-foreground">
+                  Users in these roles must enroll an authenticator app before they can use the system.
+                </p>
+              </div>
+              {MFA_POLICY_ROLES.map(({ role, label }) => (
+                <div key={role} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <Label htmlFor={`mfa-required-${role}`}>{label}</Label>
+                  <Switch
+                    id={`mfa-required-${role}`}
+                    checked={securitySettings?.mfaRequiredRoles?.includes(role) || false}
+                    onCheckedChange={(checked) => toggleMfaRequiredRole(role, checked)}
+                    disabled={updateSecuritySettingsMutation.isPending}
+                    data-testid={`switch-mfa-required-${role}`}
+                  />
+                </div>
+              ))}
+
+              <div className="pt-4 border-t">
+                <p className="font-medium">Single Sign-On</p>
+                <p className="text-sm text-muted-foreground">
+                  {securitySettings?.ssoConfigured
+                    ? "Map identity provider groups to roles. Separate multiple group names with commas."
+                    : "Set the OIDC_ISSUER_URL, OIDC_CLIENT_ID and OIDC_CLIENT_SECRET environment variables to enable single sign-on."}
+                </p>
+              </div>
+              {SSO_POLICY_ROLES.map(({ role, label }) => (
+                <div key={role} className="grid grid-cols-3 items-center gap-4">
+                  <Label htmlFor={`sso-groups-${role}`}>{label}</Label>
+                  <Input
+                    id={`sso-groups-${role}`}
+                    className="col-span-2"
+                    placeholder="e.g. hr-admins"
+                    value={ssoGroupValue(role)}
+                    onChange={(e) => setSsoGroupDraft({
+                      admin: ssoGroupValue("admin"),
+                      hr: ssoGroupValue("hr"),
+                      employee: ssoGroupValue("employee"),
+                      [role]: e.target.value
+                    })}
+                    disabled={!securitySettings?.ssoConfigured}
+                    data-testid={`input-sso-groups-${role}`}
+                  />
+                </div>
+              ))}
+              <div className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                <div>
+                  <Label htmlFor="sso-auto-provision">Create accounts on first sign-in</Label>
+                  <p className="text-sm text-muted-foreground">
+                    New users whose groups map to a role get an account automatically.
+                  </p>
+                </div>
+                <Switch
+                  id="sso-auto-provision"
+                  checked={securitySettings?.ssoAutoProvision ?? true}
+                  onCheckedChange={(checked) => updateSecuritySettingsMutation.mutate({ ssoAutoProvision: checked })}
+                  disabled={!securitySettings?.ssoConfigured || updateSecuritySettingsMutation.isPending}
+                  data-testid="switch-sso-auto-provision"
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={saveSsoRoleMappings}
+                  disabled={!securitySettings?.ssoConfigured || !ssoGroupDraft || updateSecuritySettingsMutation.isPending}
+                  data-testid="button-save-sso-mappings"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Group Mappings
+                </Button>
+              </div>
+
+              <div className="pt-4 border-t">
+                <p className="font-medium">Disable Password Sign-In</p>
+                <p className="text-sm text-muted-foreground">
+                  Users in these roles must sign in through single sign-on.
+                </p>
+              </div>
+              {SSO_POLICY_ROLES.map(({ role, label }) => (
+                <div key={role} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <Label htmlFor={`password-login-disabled-${role}`}>{label}</Label>
+                  <Switch
+                    id={`password-login-disabled-${role}`}
+                    checked={securitySettings?.passwordLoginDisabledRoles?.includes(role) || false}
+                    onCheckedChange={(checked) => togglePasswordLoginDisabledRole(role, checked)}
+                    disabled={!securitySettings?.ssoConfigured || updateSecuritySettingsMutation.isPending}
+                    data-testid={`switch-password-login-disabled-${role}`}
+                  />
+                </div>
+              ))}
+
+              <div className="pt-4 border-t">
+                <p className="font-medium">Password Policy</p>
+                <p className="text-sm text-muted-foreground">
+                  Applies whenever a password is set or changed. Expired passwords must be changed at next sign-in.
+                </p>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="password-min-length">Minimum length</Label>
+                  <Input
+                    id="password-min-length"
+                    type="number"
+                    min={8}
+                    max={128}
+                    value={passwordLimitValue("passwordMinLength")}
+                    onChange={(e) => editPasswordLimit("passwordMinLength", e.target.value)}
+                    data-testid="input-password-min-length"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password-history-count">Remembered passwords</Label>
+                  <Input
+                    id="password-history-count"
+                    type="number"
+                    min={0}
+                    max={24}
+                    value={passwordLimitValue("passwordHistoryCount")}
+                    onChange={(e) => editPasswordLimit("passwordHistoryCount", e.target.value)}
+                    data-testid="input-password-history-count"
+                  />
+                  <p className="text-xs text-muted-foreground">0 allows reuse</p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password-max-age">Maximum age (days)</Label>
+                  <Input
+                    id="password-max-age"
+                    type="number"
+                    min={0}
+                    max={365}
+                    value={passwordLimitValue("passwordMaxAgeDays")}
+                    onChange={(e) => editPasswordLimit("passwordMaxAgeDays", e.target.value)}
+                    data-testid="input-password-max-age"
+                  />
+                  <p className="text-xs text-muted-foreground">0 never expires</p>
+                </div>
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  onClick={savePasswordLimits}
+                  disabled={!passwordLimitDraft || updateSecuritySettingsMutation.isPending}
+                  data-testid="button-save-password-limits"
+                >
+                  <Save className="w-4 h-4 mr-2" />
+                  Save Password Limits
+                </Button>
+              </div>
+              {PASSWORD_RULES.map(({ field, label }) => (
+                <div key={field} className="flex items-center justify-between p-3 bg-muted/50 rounded-lg">
+                  <Label htmlFor={`switch-${field}`}>{label}</Label>
+                  <Switch
+                    id={`switch-${field}`}
+                    checked={securitySettings?.[field] ?? true}
+                    onCheckedChange={(checked) => updateSecuritySettingsMutation.mutate({ [field]: checked })}
+                    disabled={updateSecuritySettingsMutation.isPending}
+                    data-testid={`switch-${field}`}
+                  />
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Encryption Keys Card */}
+        {isAdmin && <EncryptionKeysPanel />}
+
         {/* DocuSeal Forms Configuration Card */}
         {isAdmin && (
           <Card data-testid="card-docuseal-config">
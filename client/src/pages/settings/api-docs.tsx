@@ -0,0 +1,220 @@
+import { useRef, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import SwaggerUI from "swagger-ui-react";
+import "swagger-ui-react/swagger-ui.css";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { BookOpen, Download, Key, AlertTriangle } from "lucide-react";
+
+/**
+ * Prefix of sandbox API keys; the explorer refuses live keys
+ */
+const TEST_KEY_PREFIX = "hrms_test_";
+
+/**
+ * Swagger UI plugin that hides the built-in Authorize button, since the key
+ * is entered above the explorer and restricted to test keys
+ */
+const HideAuthorizePlugin = () => ({
+  wrapComponents: {
+    authorizeBtn: () => () => null,
+  },
+});
+
+/**
+ * Interactive API reference generated from the server's OpenAPI document
+ * @component
+ * @returns {JSX.Element} API explorer page
+ * @example
+ * <ApiDocsPage />
+ *
+ * @description
+ * - Renders GET /api/openapi.json with Swagger UI
+ * - "Try it out" requests are sent with the entered hrms_test_ key only;
+ *   the browser session cookie is never attached, so calls behave exactly as
+ *   they would from an integration using that key
+ * - Live keys are rejected to keep experiments away from production data
+ * - The raw document can be downloaded for client generators
+ * - Uses data-testid attributes for automated testing
+ */
+export default function ApiDocsPage() {
+  const [keyInput, setKeyInput] = useState("");
+  const [activeKey, setActiveKey] = useState<string | null>(null);
+  // The interceptor is captured by Swagger UI once, so it reads the key from a ref
+  const activeKeyRef = useRef<string | null>(null);
+
+  const { data: spec, isLoading, error } = useQuery<object>({
+    queryKey: ["/api/openapi.json"],
+  });
+
+  const trimmedKey = keyInput.trim();
+  const keyError = trimmedKey && !trimmedKey.startsWith(TEST_KEY_PREFIX)
+    ? `Only test keys (${TEST_KEY_PREFIX}...) can be used in the explorer`
+    : null;
+
+  /**
+   * Uses the entered key for "Try it out" requests
+   */
+  const applyKey = () => {
+    if (!trimmedKey || keyError) return;
+    activeKeyRef.current = trimmedKey;
+    setActiveKey(trimmedKey);
+  };
+
+  /**
+   * Stops sending the key
+   */
+  const clearKey = () => {
+    activeKeyRef.current = null;
+    setActiveKey(null);
+    setKeyInput("");
+  };
+
+  /**
+   * Sends explorer requests as the test key instead of the signed-in user
+   * @param {object} request - Swagger UI request
+   * @returns {object} Request with the key header and without cookies
+   */
+  const requestInterceptor = (request: Record<string, any>) => {
+    request.credentials = "omit";
+    request.headers = request.headers ?? {};
+    delete request.headers["X-API-Key"];
+    if (activeKeyRef.current) {
+      request.headers["Authorization"] = `Bearer ${activeKeyRef.current}`;
+    } else {
+      delete request.headers["Authorization"];
+    }
+    return request;
+  };
+
+  /**
+   * Downloads the OpenAPI document as JSON
+   */
+  const downloadSpec = () => {
+    if (!spec) return;
+    const blob = new Blob([JSON.stringify(spec, null, 2)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "openapi.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="p-6 space-y-6" data-testid="api-docs-page">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">API Reference</h1>
+          <p className="text-muted-foreground mt-1">
+            Endpoints, parameters and schemas generated from the running server
+          </p>
+        </div>
+        <Button variant="outline" onClick={downloadSpec} disabled={!spec} data-testid="button-download-openapi">
+          <Download className="mr-2 h-4 w-4" />
+          Download OpenAPI JSON
+        </Button>
+      </div>
+
+      {/* Test Key */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Key className="w-5 h-5 mr-2" />
+            Test API Key
+          </CardTitle>
+          <CardDescription>
+            "Try it out" requests are sent with this key, not your session. Create a test key
+            under <Link href="/settings/api-keys" className="underline">API Keys</Link>;
+            its scopes decide which requests succeed.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <div className="flex items-end gap-3">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="test-api-key">API key</Label>
+              <Input
+                id="test-api-key"
+                type="password"
+                autoComplete="off"
+                placeholder={`${TEST_KEY_PREFIX}...`}
+                value={keyInput}
+                onChange={(e) => setKeyInput(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && applyKey()}
+                data-testid="input-test-api-key"
+              />
+            </div>
+            <Button onClick={applyKey} disabled={!trimmedKey || !!keyError} data-testid="button-use-test-key">
+              Use Key
+            </Button>
+            {activeKey && (
+              <Button variant="outline" onClick={clearKey} data-testid="button-clear-test-key">
+                Clear
+              </Button>
+            )}
+          </div>
+          {keyError && (
+            <p className="text-sm text-destructive" data-testid="text-test-key-error">{keyError}</p>
+          )}
+          {activeKey ? (
+            <Badge variant="secondary" data-testid="badge-test-key-active">
+              Using {activeKey.slice(0, TEST_KEY_PREFIX.length + 6)}...
+            </Badge>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              Without a key, requests from the explorer are rejected with 401.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Explorer */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <BookOpen className="w-5 h-5 mr-2" />
+            Endpoints
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : error || !spec ? (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>Failed to load the API reference.</AlertDescription>
+            </Alert>
+          ) : (
+            <div data-testid="swagger-ui">
+              <SwaggerUI
+                spec={spec}
+                requestInterceptor={requestInterceptor}
+                plugins={[HideAuthorizePlugin]}
+                docExpansion="none"
+                defaultModelsExpandDepth={0}
+                displayRequestDuration
+                filter
+              />
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
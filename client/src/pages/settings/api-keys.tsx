@@ -1,7 +1,10 @@
 import { useState } from "react";
+import { Link } from "wouter";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth, userHasPermission } from "@/hooks/use-auth";
+import type { PermissionDefinition, ApiKeyUsageSummary } from "@shared/schema";
 import {
   Card,
   CardContent,
@@ -48,6 +51,17 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  ChartContainer,
+  ChartTooltip,
+  ChartTooltipContent,
+  ChartLegend,
+  ChartLegendContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
 import { Skeleton } from "@/components/ui/skeleton";
 import {
   Key,
@@ -61,6 +75,8 @@ import {
   Clock,
   Shield,
   Activity,
+  BookOpen,
+  Network,
 } from "lucide-react";
 import { format } from "date-fns";
 
@@ -78,6 +94,10 @@ interface ApiKey {
   revokedAt: string | null;
   environment: string;
   rateLimitPerHour: number;
+  /** Addresses and CIDR ranges the key may be used from; empty allows any */
+  allowedIps: string[];
+  /** Requests made with the key must carry an HMAC signature */
+  signingEnabled: boolean;
 }
 
 interface NewKeyResponse {
@@ -91,6 +111,16 @@ interface NewKeyResponse {
   message: string;
 }
 
+/**
+ * Signing secret returned once when request signing is enabled
+ */
+interface SigningSecretResponse {
+  id: number;
+  signingEnabled: boolean;
+  signingSecret: string;
+  message: string;
+}
+
 interface KeyUsageStats {
   keyId: number;
   name: string;
@@ -108,20 +138,27 @@ interface KeyUsageStats {
   authAttempts: number;
   successfulAuths: number;
   failedAuths: number;
+  allowedIps: string[];
+  usage: ApiKeyUsageSummary;
 }
 
-const AVAILABLE_PERMISSIONS = [
-  { value: "read:employees", label: "Read Employees" },
-  { value: "write:employees", label: "Write Employees" },
-  { value: "delete:employees", label: "Delete Employees" },
-  { value: "read:licenses", label: "Read Licenses" },
-  { value: "write:licenses", label: "Write Licenses" },
-  { value: "read:documents", label: "Read Documents" },
-  { value: "write:documents", label: "Write Documents" },
-  { value: "read:reports", label: "Read Reports" },
-  { value: "read:audits", label: "Read Audits" },
-  { value: "manage:api_keys", label: "Manage API Keys" },
-];
+/**
+ * Series colors for the daily usage chart
+ */
+const usageChartConfig = {
+  succeeded: { label: "Succeeded", color: "hsl(142 71% 45%)" },
+  errors: { label: "Errors", color: "hsl(38 92% 50%)" },
+  blocked: { label: "Blocked", color: "hsl(0 84% 60%)" },
+} satisfies ChartConfig;
+
+/**
+ * Split a textarea of addresses (one per line or comma separated) into entries
+ * @param {string} text - Raw textarea value
+ * @returns {string[]} Non-empty entries
+ */
+function parseAllowedIps(text: string): string[] {
+  return text.split(/[\s,]+/).map((entry) => entry.trim()).filter(Boolean);
+}
 
 /**
  * API key management page for external application integration
@@ -140,6 +177,9 @@ const AVAILABLE_PERMISSIONS = [
  * - Secure key display with one-time viewing after creation
  * - Copy-to-clipboard functionality for easy key distribution
  * - Rotation workflow with grace period for seamless transitions
+ * - Optional HMAC request signing per key, with the signing secret shown once
+ * - IPv4/IPv6 CIDR allowlists per key
+ * - Daily request, error and blocked-attempt charts with per-endpoint error rates
  * - Comprehensive audit trail for all key operations
  * - Status indicators with color-coded badges (active, expired, revoked)
  * - Search and filtering capabilities for large key inventories
@@ -156,6 +196,10 @@ export default function ApiKeysPage() {
   const [showRotateDialog, setShowRotateDialog] = useState(false);
   const [showUsageDialog, setShowUsageDialog] = useState(false);
   const [usageStats, setUsageStats] = useState<KeyUsageStats | null>(null);
+  const [signingSecret, setSigningSecret] = useState<SigningSecretResponse | null>(null);
+  const [disableSigningKey, setDisableSigningKey] = useState<ApiKey | null>(null);
+  const [allowlistKey, setAllowlistKey] = useState<ApiKey | null>(null);
+  const [allowlistText, setAllowlistText] = useState("");
   
   // Form state for new key
   const [keyName, setKeyName] = useState("");
@@ -163,12 +207,22 @@ export default function ApiKeysPage() {
   const [environment, setEnvironment] = useState<"live" | "test">("live");
   const [expiresInDays, setExpiresInDays] = useState(90);
   const [rateLimit, setRateLimit] = useState(1000);
+  const [allowedIpsText, setAllowedIpsText] = useState("");
 
   // Fetch API keys
   const { data: apiKeys, isLoading } = useQuery<ApiKey[]>({
     queryKey: ["/api/settings/api-keys"],
   });
 
+  // Keys can only be granted permissions the user's own role has
+  const { user } = useAuth();
+  const { data: permissionCatalog = [] } = useQuery<PermissionDefinition[]>({
+    queryKey: ["/api/permissions"],
+  });
+  const availablePermissions = permissionCatalog
+    .filter((perm) => userHasPermission(user, perm.key))
+    .map((perm) => ({ value: perm.key, label: `${perm.group}: ${perm.label}` }));
+
   // Create API key mutation
   const createKeyMutation = useMutation({
     mutationFn: async () => {
@@ -178,6 +232,7 @@ export default function ApiKeysPage() {
         environment,
         expiresInDays,
         rateLimitPerHour: rateLimit,
+        metadata: { allowedIps: parseAllowedIps(allowedIpsText) },
       });
       if (!response.ok) {
         throw new Error("Failed to create API key");
@@ -198,6 +253,7 @@ export default function ApiKeysPage() {
       setEnvironment("live");
       setExpiresInDays(90);
       setRateLimit(1000);
+      setAllowedIpsText("");
     },
     onError: (error: any) => {
       toast({
@@ -266,6 +322,65 @@ export default function ApiKeysPage() {
     },
   });
 
+  // Enable or disable request signing for a key
+  const signingMutation = useMutation({
+    mutationFn: async ({ keyId, enabled }: { keyId: number; enabled: boolean }) => {
+      const response = await apiRequest(enabled ? "POST" : "DELETE", `/api/settings/api-keys/${keyId}/signing`);
+      return response.json() as Promise<SigningSecretResponse | { id: number; signingEnabled: false }>;
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/api-keys"] });
+      if ("signingSecret" in data) {
+        setSigningSecret(data);
+      } else {
+        toast({
+          title: "Request Signing Disabled",
+          description: "The key now accepts unsigned requests.",
+        });
+      }
+      setDisableSigningKey(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update request signing",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Replace the IP allowlist of a key
+  const allowlistMutation = useMutation({
+    mutationFn: async ({ keyId, allowedIps }: { keyId: number; allowedIps: string[] }) => {
+      const response = await apiRequest("PUT", `/api/settings/api-keys/${keyId}/allowed-ips`, { allowedIps });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/settings/api-keys"] });
+      toast({
+        title: "Allowed IPs Updated",
+        description: "The key can now only be used from the listed addresses.",
+      });
+      setAllowlistKey(null);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update allowed IPs",
+        variant: "destructive",
+      });
+    },
+  });
+
+  /**
+   * Opens the allowlist editor for a key
+   * @param {ApiKey} key - Key to edit
+   */
+  const openAllowlist = (key: ApiKey) => {
+    setAllowlistKey(key);
+    setAllowlistText(key.allowedIps.join("\n"));
+  };
+
   // Fetch usage statistics
   const fetchUsageStats = async (keyId: number) => {
     try {
@@ -289,11 +404,11 @@ export default function ApiKeysPage() {
    * Copies text to clipboard and shows success notification
    * @param {string} text - Text to copy to clipboard
    */
-  const copyToClipboard = (text: string) => {
+  const copyToClipboard = (text: string, description = "API key copied to clipboard") => {
     navigator.clipboard.writeText(text);
     toast({
       title: "Copied",
-      description: "API key copied to clipboard",
+      description,
     });
   };
 
@@ -346,113 +461,136 @@ export default function ApiKeysPage() {
             Manage API keys for external application integration
           </p>
         </div>
-        <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-create-api-key">
-              <Plus className="mr-2 h-4 w-4" />
-              Create API Key
+        <div className="flex gap-2">
+          <Link href="/settings/api-docs">
+            <Button variant="outline" data-testid="button-api-reference">
+              <BookOpen className="mr-2 h-4 w-4" />
+              API Reference
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-2xl">
-            <DialogHeader>
-              <DialogTitle>Create New API Key</DialogTitle>
-              <DialogDescription>
-                Generate a new API key for external applications to access the HR system.
-              </DialogDescription>
-            </DialogHeader>
-            <div className="space-y-4 py-4">
-              <div className="space-y-2">
-                <Label htmlFor="name">Key Name</Label>
-                <Input
-                  id="name"
-                  placeholder="e.g., Production Integration"
-                  value={keyName}
-                  onChange={(e) => setKeyName(e.target.value)}
-                  data-testid="input-key-name"
-                />
-              </div>
-              
-              <div className="space-y-2">
-                <Label>Environment</Label>
-                <Select value={environment} onValueChange={(v) => setEnvironment(v as "live" | "test")}>
-                  <SelectTrigger data-testid="select-environment">
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="live">Live</SelectItem>
-                    <SelectItem value="test">Test</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div className="space-y-2">
-                <Label>Permissions</Label>
-                <div className="grid grid-cols-2 gap-3">
-                  {AVAILABLE_PERMISSIONS.map((perm) => (
-                    <div key={perm.value} className="flex items-center space-x-2">
-                      <Checkbox
-                        id={perm.value}
-                        checked={selectedPermissions.includes(perm.value)}
-                        onCheckedChange={() => togglePermission(perm.value)}
-                        data-testid={`checkbox-${perm.value}`}
-                      />
-                      <label
-                        htmlFor={perm.value}
-                        className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
-                      >
-                        {perm.label}
-                      </label>
-                    </div>
-                  ))}
-                </div>
-              </div>
-
-              <div className="grid grid-cols-2 gap-4">
+          </Link>
+          <Dialog open={createDialogOpen} onOpenChange={setCreateDialogOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-create-api-key">
+                <Plus className="mr-2 h-4 w-4" />
+                Create API Key
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-2xl">
+              <DialogHeader>
+                <DialogTitle>Create New API Key</DialogTitle>
+                <DialogDescription>
+                  Generate a new API key for external applications to access the HR system.
+                </DialogDescription>
+              </DialogHeader>
+              <div className="space-y-4 py-4">
                 <div className="space-y-2">
-                  <Label htmlFor="expires">Expires In (days)</Label>
+                  <Label htmlFor="name">Key Name</Label>
                   <Input
-                    id="expires"
-                    type="number"
-                    min="1"
-                    max="365"
-                    value={expiresInDays}
-                    onChange={(e) => setExpiresInDays(parseInt(e.target.value))}
-                    data-testid="input-expires-days"
+                    id="name"
+                    placeholder="e.g., Production Integration"
+                    value={keyName}
+                    onChange={(e) => setKeyName(e.target.value)}
+                    data-testid="input-key-name"
                   />
                 </div>
                 
                 <div className="space-y-2">
-                  <Label htmlFor="rateLimit">Rate Limit (per hour)</Label>
-                  <Input
-                    id="rateLimit"
-                    type="number"
-                    min="10"
-                    max="10000"
-                    value={rateLimit}
-                    onChange={(e) => setRateLimit(parseInt(e.target.value))}
-                    data-testid="input-rate-limit"
+                  <Label>Environment</Label>
+                  <Select value={environment} onValueChange={(v) => setEnvironment(v as "live" | "test")}>
+                    <SelectTrigger data-testid="select-environment">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="live">Live</SelectItem>
+                      <SelectItem value="test">Test</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Permissions</Label>
+                  <div className="grid grid-cols-2 gap-3">
+                    {availablePermissions.map((perm) => (
+                      <div key={perm.value} className="flex items-center space-x-2">
+                        <Checkbox
+                          id={perm.value}
+                          checked={selectedPermissions.includes(perm.value)}
+                          onCheckedChange={() => togglePermission(perm.value)}
+                          data-testid={`checkbox-${perm.value}`}
+                        />
+                        <label
+                          htmlFor={perm.value}
+                          className="text-sm font-medium leading-none peer-disabled:cursor-not-allowed peer-disabled:opacity-70"
+                        >
+                          {perm.label}
+                        </label>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="expires">Expires In (days)</Label>
+                    <Input
+                      id="expires"
+                      type="number"
+                      min="1"
+                      max="365"
+                      value={expiresInDays}
+                      onChange={(e) => setExpiresInDays(parseInt(e.target.value))}
+                      data-testid="input-expires-days"
+                    />
+                  </div>
+                  
+                  <div className="space-y-2">
+                    <Label htmlFor="rateLimit">Rate Limit (per hour)</Label>
+                    <Input
+                      id="rateLimit"
+                      type="number"
+                      min="10"
+                      max="10000"
+                      value={rateLimit}
+                      onChange={(e) => setRateLimit(parseInt(e.target.value))}
+                      data-testid="input-rate-limit"
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="allowedIps">Allowed IPs (optional)</Label>
+                  <Textarea
+                    id="allowedIps"
+                    placeholder={"203.0.113.7\n10.0.0.0/8\n2001:db8::/32"}
+                    value={allowedIpsText}
+                    onChange={(e) => setAllowedIpsText(e.target.value)}
+                    rows={3}
+                    data-testid="input-allowed-ips"
                   />
+                  <p className="text-xs text-muted-foreground">
+                    One IPv4/IPv6 address or CIDR range per line. Leave empty to allow any address.
+                  </p>
                 </div>
               </div>
-            </div>
-            <DialogFooter>
-              <Button
-                variant="outline"
-                onClick={() => setCreateDialogOpen(false)}
-                data-testid="button-cancel"
-              >
-                Cancel
-              </Button>
-              <Button
-                onClick={() => createKeyMutation.mutate()}
-                disabled={!keyName || selectedPermissions.length === 0 || createKeyMutation.isPending}
-                data-testid="button-create"
-              >
-                {createKeyMutation.isPending ? "Creating..." : "Create Key"}
-              </Button>
-            </DialogFooter>
-          </DialogContent>
-        </Dialog>
+              <DialogFooter>
+                <Button
+                  variant="outline"
+                  onClick={() => setCreateDialogOpen(false)}
+                  data-testid="button-cancel"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={() => createKeyMutation.mutate()}
+                  disabled={!keyName || selectedPermissions.length === 0 || createKeyMutation.isPending}
+                  data-testid="button-create"
+                >
+                  {createKeyMutation.isPending ? "Creating..." : "Create Key"}
+                </Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Show new key dialog */}
@@ -500,6 +638,56 @@ export default function ApiKeysPage() {
         </Dialog>
       )}
 
+      {/* Signing secret dialog */}
+      {signingSecret && (
+        <Dialog open={!!signingSecret} onOpenChange={() => setSigningSecret(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <Shield className="h-5 w-5 text-green-500" />
+                Request Signing Enabled
+              </DialogTitle>
+              <DialogDescription className="text-red-500 font-semibold">
+                {signingSecret.message}
+              </DialogDescription>
+            </DialogHeader>
+            <div className="space-y-4 py-4">
+              <div className="p-4 bg-muted rounded-lg">
+                <div className="flex items-center justify-between">
+                  <code className="text-sm break-all" data-testid="text-signing-secret">
+                    {signingSecret.signingSecret}
+                  </code>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => copyToClipboard(signingSecret.signingSecret, "Signing secret copied to clipboard")}
+                    data-testid="button-copy-signing-secret"
+                  >
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <div className="space-y-2 text-sm">
+                <p>Send the API key as usual, plus these headers on every request:</p>
+                <ul className="list-disc pl-5 space-y-1 text-muted-foreground">
+                  <li><code>X-HRMS-Timestamp</code>: current Unix time in seconds (within 5 minutes of server time)</li>
+                  <li><code>X-HRMS-Nonce</code>: a random value used only once</li>
+                  <li>
+                    <code>X-HRMS-Signature</code>: <code>sha256=</code> followed by the hex HMAC-SHA256 of
+                    {" "}<code>METHOD\nPATH?QUERY\nTIMESTAMP\nNONCE\nSHA256(BODY)</code> using this secret
+                  </li>
+                </ul>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setSigningSecret(null)} data-testid="button-close-signing-dialog">
+                I've Saved the Secret
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* API Keys Table */}
       <Card>
         <CardHeader>
@@ -523,6 +711,7 @@ export default function ApiKeysPage() {
                   <TableHead>Key Prefix</TableHead>
                   <TableHead>Environment</TableHead>
                   <TableHead>Status</TableHead>
+                  <TableHead>Signing</TableHead>
                   <TableHead>Last Used</TableHead>
                   <TableHead>Expires</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -546,6 +735,19 @@ export default function ApiKeysPage() {
                       </Badge>
                     </TableCell>
                     <TableCell>{getStatusBadge(key)}</TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={key.signingEnabled}
+                        onCheckedChange={(checked) =>
+                          checked
+                            ? signingMutation.mutate({ keyId: key.id, enabled: true })
+                            : setDisableSigningKey(key)
+                        }
+                        disabled={!!key.revokedAt || signingMutation.isPending}
+                        aria-label="Require signed requests"
+                        data-testid={`switch-signing-${key.id}`}
+                      />
+                    </TableCell>
                     <TableCell>
                       {key.lastUsedAt ? (
                         <div className="flex items-center gap-1 text-sm">
@@ -561,6 +763,16 @@ export default function ApiKeysPage() {
                     </TableCell>
                     <TableCell className="text-right">
                       <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openAllowlist(key)}
+                          disabled={!!key.revokedAt}
+                          title={key.allowedIps.length > 0 ? `Allowed from ${key.allowedIps.join(", ")}` : "Allowed from any IP"}
+                          data-testid={`button-allowlist-${key.id}`}
+                        >
+                          <Network className={key.allowedIps.length > 0 ? "h-4 w-4 text-primary" : "h-4 w-4"} />
+                        </Button>
                         <Button
                           variant="ghost"
                           size="sm"
@@ -634,6 +846,68 @@ export default function ApiKeysPage() {
         </AlertDialogContent>
       </AlertDialog>
 
+      {/* Disable Signing Confirmation Dialog */}
+      <AlertDialog open={!!disableSigningKey} onOpenChange={(open) => !open && setDisableSigningKey(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Disable Request Signing</AlertDialogTitle>
+            <AlertDialogDescription>
+              "{disableSigningKey?.name}" will accept unsigned requests again, and its signing
+              secret will be discarded. Anyone holding the key alone will be able to use it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => disableSigningKey && signingMutation.mutate({ keyId: disableSigningKey.id, enabled: false })}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Disable Signing
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Allowed IPs Dialog */}
+      <Dialog open={!!allowlistKey} onOpenChange={(open) => !open && setAllowlistKey(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Allowed IPs</DialogTitle>
+            <DialogDescription>
+              Requests with "{allowlistKey?.name}" from any other address are rejected and counted
+              as blocked attempts.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-2">
+            <Textarea
+              placeholder={"203.0.113.7\n10.0.0.0/8\n2001:db8::/32"}
+              value={allowlistText}
+              onChange={(e) => setAllowlistText(e.target.value)}
+              rows={6}
+              data-testid="input-edit-allowed-ips"
+            />
+            <p className="text-xs text-muted-foreground">
+              One IPv4/IPv6 address or CIDR range per line. Leave empty to allow any address.
+            </p>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAllowlistKey(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => allowlistKey && allowlistMutation.mutate({
+                keyId: allowlistKey.id,
+                allowedIps: parseAllowedIps(allowlistText),
+              })}
+              disabled={allowlistMutation.isPending}
+              data-testid="button-save-allowed-ips"
+            >
+              {allowlistMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Rotate Confirmation Dialog */}
       <AlertDialog open={showRotateDialog} onOpenChange={setShowRotateDialog}>
         <AlertDialogContent>
@@ -660,7 +934,7 @@ export default function ApiKeysPage() {
       {/* Usage Statistics Dialog */}
       {usageStats && (
         <Dialog open={showUsageDialog} onOpenChange={setShowUsageDialog}>
-          <DialogContent className="max-w-2xl">
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
             <DialogHeader>
               <DialogTitle>API Key Usage Statistics</DialogTitle>
               <DialogDescription>
@@ -696,6 +970,88 @@ export default function ApiKeysPage() {
                 </Card>
               </div>
               
+              <div className="grid grid-cols-4 gap-4 text-center">
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Requests</p>
+                  <p className="text-xl font-semibold" data-testid="text-usage-requests">{usageStats.usage.totals.requests}</p>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Errors</p>
+                  <p className="text-xl font-semibold">{usageStats.usage.totals.errors}</p>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Error Rate</p>
+                  <p className="text-xl font-semibold">{usageStats.usage.totals.errorRate}%</p>
+                </div>
+                <div className="p-3 bg-muted/50 rounded-lg">
+                  <p className="text-sm text-muted-foreground">Blocked</p>
+                  <p className="text-xl font-semibold text-red-600" data-testid="text-usage-blocked">{usageStats.usage.totals.blocked}</p>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-semibold mb-2">Requests per Day (last {usageStats.usage.days} days)</h4>
+                <ChartContainer config={usageChartConfig} className="h-56 w-full">
+                  <BarChart
+                    data={usageStats.usage.daily.map((day) => ({
+                      date: day.date,
+                      succeeded: day.requests - day.errors,
+                      errors: day.errors - day.blocked,
+                      blocked: day.blocked,
+                    }))}
+                  >
+                    <CartesianGrid vertical={false} />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      tickFormatter={(date: string) => format(new Date(`${date}T00:00:00`), "MMM d")}
+                    />
+                    <YAxis allowDecimals={false} tickLine={false} axisLine={false} width={32} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <ChartLegend content={<ChartLegendContent />} />
+                    <Bar dataKey="succeeded" stackId="requests" fill="var(--color-succeeded)" />
+                    <Bar dataKey="errors" stackId="requests" fill="var(--color-errors)" />
+                    <Bar dataKey="blocked" stackId="requests" fill="var(--color-blocked)" />
+                  </BarChart>
+                </ChartContainer>
+              </div>
+
+              {usageStats.usage.endpoints.length > 0 && (
+                <div>
+                  <h4 className="font-semibold mb-2">Endpoints</h4>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Endpoint</TableHead>
+                        <TableHead className="text-right">Requests</TableHead>
+                        <TableHead className="text-right">Error Rate</TableHead>
+                        <TableHead className="text-right">Blocked</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {usageStats.usage.endpoints.map((endpoint) => (
+                        <TableRow key={`${endpoint.method} ${endpoint.route}`}>
+                          <TableCell>
+                            <code className="text-xs">{endpoint.method} {endpoint.route}</code>
+                          </TableCell>
+                          <TableCell className="text-right">{endpoint.requests}</TableCell>
+                          <TableCell className="text-right">{endpoint.errorRate}%</TableCell>
+                          <TableCell className="text-right">{endpoint.blocked}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              )}
+
+              <div className="text-sm text-muted-foreground">
+                {usageStats.allowedIps.length > 0
+                  ? `Allowed from: ${usageStats.allowedIps.join(", ")}`
+                  : "Allowed from any IP address"}
+                {usageStats.usage.lastBlockedIp && ` · Last blocked request from ${usageStats.usage.lastBlockedIp}`}
+              </div>
+
               {usageStats.rotations.length > 0 && (
                 <div>
                   <h4 className="font-semibold mb-2">Rotation History</h4>
@@ -1,11 +1,20 @@
 import React from 'react'
 import { MainLayout } from '@/components/layout/main-layout'
+import { AuditIntegrityPanel } from '@/components/audit-integrity-panel'
+import { AuditRetentionPanel } from '@/components/audit-retention-panel'
+import { useAuth } from '@/hooks/use-auth'
 import Audits from '../audits'
 
 export default function AuditsManagement() {
+  const { user } = useAuth()
+
   return (
     <MainLayout>
-      <Audits />
+      <div className="space-y-6">
+        {user?.role === 'admin' && <AuditIntegrityPanel />}
+        {user?.role === 'admin' && <AuditRetentionPanel />}
+        <Audits />
+      </div>
     </MainLayout>
   )
-}
\ No newline at end of file
+}
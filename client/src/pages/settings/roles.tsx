@@ -0,0 +1,377 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/use-auth";
+import { MainLayout } from "@/components/layout/main-layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Plus, Edit, Trash2, Shield } from "lucide-react";
+import type { PermissionDefinition, RoleSummary } from "@shared/schema";
+
+interface RoleFormState {
+  key: string;
+  name: string;
+  description: string;
+  permissions: string[];
+}
+
+const EMPTY_ROLE: RoleFormState = { key: "", name: "", description: "", permissions: [] };
+
+/**
+ * Suggest a role key from its display name ("Credentialing Specialist" -> credentialing_specialist)
+ */
+const toRoleKey = (name: string) =>
+  name.toLowerCase().replace(/[^a-z0-9]+/g, "_").replace(/^_+|_+$/g, "").replace(/^[^a-z]+/, "").slice(0, 50);
+
+/**
+ * Permission matrix: one row per resource group, one checkbox per permission
+ *
+ * @component
+ * @param {object} props - Component props
+ * @param {PermissionDefinition[]} props.catalog - Permission catalog from /api/permissions
+ * @param {string[]} props.selected - Granted permissions
+ * @param {function} props.onChange - Called with the new permission list
+ * @param {boolean} [props.disabled] - Read-only (built-in roles)
+ * @returns {JSX.Element} Permission matrix
+ */
+function PermissionMatrix({
+  catalog,
+  selected,
+  onChange,
+  disabled
+}: {
+  catalog: PermissionDefinition[];
+  selected: string[];
+  onChange: (permissions: string[]) => void;
+  disabled?: boolean;
+}) {
+  const groups = Array.from(new Set(catalog.map(permission => permission.group)));
+  const grantsAll = selected.includes("*");
+
+  const toggle = (key: string, checked: boolean) => {
+    onChange(checked ? [...selected, key] : selected.filter(permission => permission !== key));
+  };
+
+  return (
+    <div className="rounded-md border divide-y" data-testid="permission-matrix">
+      {groups.map(group => (
+        <div key={group} className="grid grid-cols-3 gap-4 p-3">
+          <p className="text-sm font-medium">{group}</p>
+          <div className="col-span-2 flex flex-wrap gap-x-6 gap-y-2">
+            {catalog.filter(permission => permission.group === group).map(permission => (
+              <div key={permission.key} className="flex items-center gap-2" title={permission.description}>
+                <Checkbox
+                  id={`permission-${permission.key}`}
+                  checked={grantsAll || selected.includes(permission.key)}
+                  onCheckedChange={(checked) => toggle(permission.key, checked === true)}
+                  disabled={disabled}
+                  data-testid={`checkbox-permission-${permission.key}`}
+                />
+                <label htmlFor={`permission-${permission.key}`} className="text-sm">
+                  {permission.label}
+                </label>
+              </div>
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+/**
+ * Roles and permissions management page (admin only)
+ *
+ * @component
+ * @returns {JSX.Element} Role list with create, edit and delete dialogs
+ *
+ * @description
+ * - Lists built-in roles (read-only) and admin-defined custom roles
+ * - Custom roles are built from the same permission catalog as API keys
+ * - Roles assigned to users cannot be deleted
+ */
+export default function RolesPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [editingRole, setEditingRole] = useState<RoleSummary | null>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [form, setForm] = useState<RoleFormState>(EMPTY_ROLE);
+  const [deletingRole, setDeletingRole] = useState<RoleSummary | null>(null);
+
+  const isAdmin = user?.role === "admin";
+
+  const { data: roles, isLoading } = useQuery<RoleSummary[]>({
+    queryKey: ["/api/admin/roles"],
+    enabled: isAdmin
+  });
+
+  const { data: catalog = [] } = useQuery<PermissionDefinition[]>({
+    queryKey: ["/api/permissions"],
+    enabled: isAdmin
+  });
+
+  const saveRoleMutation = useMutation({
+    mutationFn: (data: RoleFormState) => editingRole?.id
+      ? apiRequest("PUT", `/api/admin/roles/${editingRole.id}`, {
+          name: data.name,
+          description: data.description || null,
+          permissions: data.permissions
+        })
+      : apiRequest("POST", "/api/admin/roles", { ...data, description: data.description || null }),
+    onSuccess: () => {
+      toast({ title: "Success", description: editingRole ? "Role updated successfully" : "Role created successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+      setDialogOpen(false);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteRoleMutation = useMutation({
+    mutationFn: (id: number) => apiRequest("DELETE", `/api/admin/roles/${id}`),
+    onSuccess: () => {
+      toast({ title: "Success", description: "Role deleted successfully" });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/roles"] });
+      setDeletingRole(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+      setDeletingRole(null);
+    }
+  });
+
+  /**
+   * Open the role dialog for a new role, or to edit/view an existing one
+   */
+  const openRoleDialog = (role: RoleSummary | null) => {
+    setEditingRole(role);
+    setForm(role
+      ? { key: role.key, name: role.name, description: role.description || "", permissions: role.permissions }
+      : EMPTY_ROLE);
+    setDialogOpen(true);
+  };
+
+  if (!isAdmin) {
+    return (
+      <MainLayout>
+        <div className="container mx-auto p-6">
+          <div className="text-center py-12">
+            <Shield className="w-12 h-12 text-muted-foreground mx-auto mb-4" />
+            <h3 className="text-lg font-medium text-muted-foreground">Access Denied</h3>
+            <p className="text-muted-foreground">You must be an admin to manage roles.</p>
+            <Button onClick={() => setLocation("/settings")} className="mt-4">
+              Return to Settings
+            </Button>
+          </div>
+        </div>
+      </MainLayout>
+    );
+  }
+
+  const readOnly = !!editingRole?.builtIn;
+
+  return (
+    <MainLayout>
+      <div className="container mx-auto p-6 space-y-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-2xl font-bold flex items-center gap-2">
+              <KeyRound className="w-6 h-6" />
+              Roles & Permissions
+            </h1>
+            <p className="text-muted-foreground">
+              Build roles from the permission catalog and assign them in User Management.
+            </p>
+          </div>
+          <Button onClick={() => openRoleDialog(null)} data-testid="button-create-role">
+            <Plus className="w-4 h-4 mr-2" />
+            New Role
+          </Button>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Roles</CardTitle>
+            <CardDescription>Built-in roles cannot be changed. Changes to custom roles apply on the holders' next request.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <Skeleton className="h-40 w-full" />
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Role</TableHead>
+                    <TableHead>Key</TableHead>
+                    <TableHead>Permissions</TableHead>
+                    <TableHead>Users</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {roles?.map(role => (
+                    <TableRow key={role.key} data-testid={`row-role-${role.key}`}>
+                      <TableCell>
+                        <div className="font-medium">
+                          {role.name}
+                          {role.builtIn && <Badge variant="secondary" className="ml-2">Built-in</Badge>}
+                        </div>
+                        {role.description && (
+                          <p className="text-xs text-muted-foreground">{role.description}</p>
+                        )}
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{role.key}</TableCell>
+                      <TableCell>
+                        {role.permissions.includes("*")
+                          ? <Badge>All permissions</Badge>
+                          : `${role.permissions.length} of ${catalog.length}`}
+                      </TableCell>
+                      <TableCell>{role.userCount}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openRoleDialog(role)}
+                          data-testid={`button-edit-role-${role.key}`}
+                        >
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        {!role.builtIn && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDeletingRole(role)}
+                            data-testid={`button-delete-role-${role.key}`}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+          <DialogContent className="sm:max-w-2xl" data-testid="dialog-role">
+            <DialogHeader>
+              <DialogTitle>
+                {readOnly ? editingRole?.name : editingRole ? "Edit Role" : "New Role"}
+              </DialogTitle>
+              <DialogDescription>
+                {readOnly
+                  ? "Built-in roles are defined by the system and cannot be changed."
+                  : "Choose exactly what holders of this role can see and change."}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="role-name">Name</Label>
+                  <Input
+                    id="role-name"
+                    value={form.name}
+                    placeholder="e.g. Credentialing Specialist"
+                    onChange={(e) => setForm({
+                      ...form,
+                      name: e.target.value,
+                      key: editingRole ? form.key : toRoleKey(e.target.value)
+                    })}
+                    disabled={readOnly}
+                    data-testid="input-role-name"
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="role-key">Key</Label>
+                  <Input
+                    id="role-key"
+                    value={form.key}
+                    onChange={(e) => setForm({ ...form, key: e.target.value })}
+                    disabled={!!editingRole}
+                    className="font-mono"
+                    data-testid="input-role-key"
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="role-description">Description</Label>
+                <Textarea
+                  id="role-description"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  disabled={readOnly}
+                  rows={2}
+                  data-testid="input-role-description"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Permissions</Label>
+                <PermissionMatrix
+                  catalog={catalog}
+                  selected={form.permissions}
+                  onChange={(permissions) => setForm({ ...form, permissions })}
+                  disabled={readOnly}
+                />
+              </div>
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setDialogOpen(false)}>
+                {readOnly ? "Close" : "Cancel"}
+              </Button>
+              {!readOnly && (
+                <Button
+                  onClick={() => saveRoleMutation.mutate(form)}
+                  disabled={!form.name || !form.key || saveRoleMutation.isPending}
+                  data-testid="button-save-role"
+                >
+                  {saveRoleMutation.isPending ? "Saving..." : "Save Role"}
+                </Button>
+              )}
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+
+        <AlertDialog open={!!deletingRole} onOpenChange={(open) => !open && setDeletingRole(null)}>
+          <AlertDialogContent>
+            <AlertDialogHeader>
+              <AlertDialogTitle>Delete {deletingRole?.name}?</AlertDialogTitle>
+              <AlertDialogDescription>
+                {deletingRole?.userCount
+                  ? `This role is assigned to ${deletingRole.userCount} user(s). Reassign them before deleting it.`
+                  : "This role will be removed permanently."}
+              </AlertDialogDescription>
+            </AlertDialogHeader>
+            <AlertDialogFooter>
+              <AlertDialogCancel>Cancel</AlertDialogCancel>
+              <AlertDialogAction
+                onClick={() => deletingRole?.id && deleteRoleMutation.mutate(deletingRole.id)}
+                disabled={!!deletingRole?.userCount}
+                data-testid="button-confirm-delete-role"
+              >
+                Delete
+              </AlertDialogAction>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialog>
+      </div>
+    </MainLayout>
+  );
+}
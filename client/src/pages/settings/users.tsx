@@ -7,21 +7,25 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
-import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter } from "@/components/ui/dialog";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger, DialogFooter, DialogDescription } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { ActiveSessionsList } from "@/components/active-sessions-list";
+import { PasskeyList } from "@/components/passkey-list";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
-import { Users, Edit, Trash2, Plus, Search, UserCheck, UserX, Lock, Unlock, RotateCcw, MoreVertical, ChevronLeft, ChevronRight, AlertTriangle, Shield, User, Eye } from "lucide-react";
+import { Users, Edit, Trash2, Plus, Search, UserCheck, UserX, Lock, Unlock, RotateCcw, MoreVertical, ChevronLeft, ChevronRight, AlertTriangle, Shield, ShieldOff, User, Eye, Monitor, MapPin, ScanEye, KeyRound } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { createInsertSchema } from "drizzle-zod";
-import { users } from "@shared/schema";
+import { users, type RoleSummary, type Location } from "@shared/schema";
 import { useLocation } from "wouter";
 import { format } from "date-fns";
 
@@ -36,6 +40,7 @@ interface User {
   lastLoginAt?: string;
   failedLoginAttempts: number;
   lockedUntil?: string;
+  mfaEnabled?: boolean;
 }
 
 interface UsersResponse {
@@ -54,7 +59,7 @@ const editUserSchema = userInsertSchema.pick({
 }).extend({
   username: z.string().min(3, "Username must be at least 3 characters"),
   email: z.string().email("Invalid email address").optional().or(z.literal("")).transform(val => val === "" ? undefined : val),
-  role: z.enum(["admin", "hr", "prospective_employee", "employee"])
+  role: z.string().min(1, "Role is required")
 });
 
 const createUserSchema = editUserSchema.extend({
@@ -141,6 +146,26 @@ function RoleBadge({ role }: { role: string }) {
   );
 }
 
+/**
+ * Select options for admin-defined roles (built-in roles are listed inline)
+ *
+ * @component
+ * @returns {JSX.Element[]} One SelectItem per custom role
+ */
+function CustomRoleItems() {
+  const { data: roles = [] } = useQuery<RoleSummary[]>({
+    queryKey: ["/api/admin/roles"]
+  });
+
+  return (
+    <>
+      {roles.filter(role => !role.builtIn).map(role => (
+        <SelectItem key={role.key} value={role.key}>{role.name}</SelectItem>
+      ))}
+    </>
+  );
+}
+
 // Edit User Dialog Component
 function EditUserDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
   const { user: currentUser } = useAuth();
@@ -151,7 +176,7 @@ function EditUserDialog({ user, open, onOpenChange }: { user: User; open: boolea
     defaultValues: {
       username: user.username,
       email: user.email || "",
-      role: user.role as "admin" | "hr" | "prospective_employee" | "employee"
+      role: user.role
     }
   });
 
@@ -235,6 +260,7 @@ function EditUserDialog({ user, open, onOpenChange }: { user: User; open: boolea
                       <SelectItem value="hr">HR</SelectItem>
                       <SelectItem value="prospective_employee">Prospective Employee</SelectItem>
                       <SelectItem value="employee">Employee</SelectItem>
+                      <CustomRoleItems />
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -351,6 +377,11 @@ function StatusManagementDialog({ user, open, onOpenChange }: { user: User; open
                       <SelectItem value="disabled">Disabled</SelectItem>
                     </SelectContent>
                   </Select>
+                  {field.value !== "active" && (
+                    <p className="text-sm text-muted-foreground">
+                      The user will be signed out of all active sessions.
+                    </p>
+                  )}
                   <FormMessage />
                 </FormItem>
               )}
@@ -431,6 +462,288 @@ function UnlockUserDialog({ user, open, onOpenChange }: { user: User; open: bool
   );
 }
 
+// MFA Reset Dialog Component
+function MfaResetDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+
+  const resetMfaMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/admin/users/${user.id}/mfa/reset`),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Two-factor authentication reset successfully"
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"], exact: false });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <AlertDialog open={open} onOpenChange={onOpenChange}>
+      <AlertDialogContent data-testid="dialog-reset-mfa">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Reset Two-Factor Authentication</AlertDialogTitle>
+          <AlertDialogDescription>
+            This removes {user.username}'s authenticator app and recovery codes. They will need to enroll again
+            if two-factor authentication is required for their role. This action is recorded in the audit log.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <AlertDialogFooter>
+          <AlertDialogCancel data-testid="button-cancel-reset-mfa">Cancel</AlertDialogCancel>
+          <AlertDialogAction
+            onClick={() => resetMfaMutation.mutate()}
+            disabled={resetMfaMutation.isPending}
+            data-testid="button-confirm-reset-mfa"
+          >
+            {resetMfaMutation.isPending ? "Resetting..." : "Reset 2FA"}
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
+
+// Active Sessions Dialog Component
+function SessionsDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-user-sessions">
+        <DialogHeader>
+          <DialogTitle>Where {user.username} Is Signed In</DialogTitle>
+        </DialogHeader>
+        <ActiveSessionsList
+          endpoint={`/api/admin/users/${user.id}/sessions`}
+          revokeAllLabel="Sign Out of All Sessions"
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Passkeys Dialog Component
+function PasskeysDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-user-passkeys">
+        <DialogHeader>
+          <DialogTitle>Passkeys for {user.username}</DialogTitle>
+          <DialogDescription>
+            Revoke a passkey when a security key is lost or a device is retired. It stops working immediately.
+          </DialogDescription>
+        </DialogHeader>
+        <PasskeyList endpoint={`/api/admin/users/${user.id}/passkeys`} removeLabel="revoked" />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Location Assignment Dialog Component
+function LocationsDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<number[]>([]);
+
+  const { data: assigned, isLoading } = useQuery<{ locationIds: number[] }>({
+    queryKey: [`/api/admin/users/${user.id}/locations`],
+    enabled: open
+  });
+
+  const { data: locationData } = useQuery<{ locations: Location[] }>({
+    queryKey: ["/api/locations?limit=1000"],
+    enabled: open
+  });
+
+  useEffect(() => {
+    if (assigned) {
+      setSelected(assigned.locationIds);
+    }
+  }, [assigned]);
+
+  const updateLocationsMutation = useMutation({
+    mutationFn: (locationIds: number[]) => apiRequest("PUT", `/api/admin/users/${user.id}/locations`, { locationIds }),
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Location access updated successfully"
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/users/${user.id}/locations`] });
+      onOpenChange(false);
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  const toggle = (locationId: number, checked: boolean) => {
+    setSelected(checked ? [...selected, locationId] : selected.filter(id => id !== locationId));
+  };
+
+  // Sort by materialized path so sub-locations follow their parent
+  const locationOptions = [...(locationData?.locations || [])]
+    .sort((a, b) => (a.path || "").localeCompare(b.path || ""));
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg" data-testid="dialog-user-locations">
+        <DialogHeader>
+          <DialogTitle>Location Access for {user.username}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          Restrict this user to employees, licenses, compliance documents and tasks at the selected
+          locations and their sub-locations. Leave everything unchecked for access to all locations.
+        </p>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : (
+          <div className="max-h-72 overflow-y-auto space-y-2 border rounded-md p-3">
+            {locationOptions.map(location => (
+              <div
+                key={location.id}
+                className="flex items-center gap-2"
+                style={{ paddingLeft: `${location.level * 1.25}rem` }}
+              >
+                <Checkbox
+                  id={`location-${location.id}`}
+                  checked={selected.includes(location.id)}
+                  onCheckedChange={(checked) => toggle(location.id, checked === true)}
+                  data-testid={`checkbox-location-${location.id}`}
+                />
+                <label htmlFor={`location-${location.id}`} className="text-sm">
+                  {location.name}
+                </label>
+              </div>
+            ))}
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-locations">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => updateLocationsMutation.mutate(selected)}
+            disabled={updateLocationsMutation.isPending || isLoading}
+            data-testid="button-save-locations"
+          >
+            {updateLocationsMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+// Impersonation Dialog Component
+function ImpersonateDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [reason, setReason] = useState("");
+  const [durationMinutes, setDurationMinutes] = useState("15");
+  const [allowWrites, setAllowWrites] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setReason("");
+      setDurationMinutes("15");
+      setAllowWrites(false);
+    }
+  }, [open]);
+
+  const impersonateMutation = useMutation({
+    mutationFn: () => apiRequest("POST", "/api/admin/impersonation", {
+      userId: user.id,
+      reason,
+      durationMinutes: parseInt(durationMinutes),
+      allowWrites
+    }),
+    onSuccess: () => {
+      onOpenChange(false);
+      // Drop everything cached for the admin before loading the app as the user
+      queryClient.clear();
+      setLocation(user.role === "employee" ? "/employee-portal" : "/");
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md" data-testid="dialog-impersonate-user">
+        <DialogHeader>
+          <DialogTitle>View as {user.username}</DialogTitle>
+        </DialogHeader>
+        <p className="text-sm text-muted-foreground">
+          See the application exactly as this user does. Every request is recorded in the audit log
+          under both your account and theirs. Password, two-factor and session settings stay locked.
+        </p>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="impersonation-reason">Reason</Label>
+            <Textarea
+              id="impersonation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Ticket #1234: employee portal shows no documents"
+              data-testid="input-impersonation-reason"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label>Duration</Label>
+            <Select value={durationMinutes} onValueChange={setDurationMinutes}>
+              <SelectTrigger data-testid="select-impersonation-duration">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="5">5 minutes</SelectItem>
+                <SelectItem value="15">15 minutes</SelectItem>
+                <SelectItem value="30">30 minutes</SelectItem>
+                <SelectItem value="60">60 minutes</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-start gap-2">
+            <Checkbox
+              id="impersonation-allow-writes"
+              checked={allowWrites}
+              onCheckedChange={(checked) => setAllowWrites(checked === true)}
+              data-testid="checkbox-impersonation-allow-writes"
+            />
+            <label htmlFor="impersonation-allow-writes" className="text-sm">
+              Allow changes on this user's behalf (otherwise read-only)
+            </label>
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-impersonation">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => impersonateMutation.mutate()}
+            disabled={impersonateMutation.isPending || !reason.trim()}
+            data-testid="button-start-impersonation"
+          >
+            {impersonateMutation.isPending ? "Starting..." : "View as User"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
 // Password Reset Dialog Component
 function PasswordResetDialog({ user, open, onOpenChange }: { user: User; open: boolean; onOpenChange: (open: boolean) => void }) {
   const { toast } = useToast();
@@ -573,6 +886,7 @@ function CreateUserDialog({ open, onOpenChange }: { open: boolean; onOpenChange:
                       <SelectItem value="hr">HR</SelectItem>
                       <SelectItem value="prospective_employee">Prospective Employee</SelectItem>
                       <SelectItem value="employee">Employee</SelectItem>
+                      <CustomRoleItems />
                     </SelectContent>
                   </Select>
                   <FormMessage />
@@ -702,6 +1016,11 @@ function UserActionMenu({ user }: { user: User }) {
   const [statusDialogOpen, setStatusDialogOpen] = useState(false);
   const [unlockDialogOpen, setUnlockDialogOpen] = useState(false);
   const [resetDialogOpen, setResetDialogOpen] = useState(false);
+  const [mfaResetDialogOpen, setMfaResetDialogOpen] = useState(false);
+  const [sessionsDialogOpen, setSessionsDialogOpen] = useState(false);
+  const [passkeysDialogOpen, setPasskeysDialogOpen] = useState(false);
+  const [locationsDialogOpen, setLocationsDialogOpen] = useState(false);
+  const [impersonateDialogOpen, setImpersonateDialogOpen] = useState(false);
   const [deleteDialogOpen, setDeleteDialogOpen] = useState(false);
 
   const isSelf = currentUser?.id === user.id;
@@ -738,6 +1057,38 @@ function UserActionMenu({ user }: { user: User }) {
             <RotateCcw className="w-4 h-4 mr-2" />
             Reset Password
           </DropdownMenuItem>
+          {user.mfaEnabled && (
+            <DropdownMenuItem onClick={() => setMfaResetDialogOpen(true)} data-testid={`action-reset-mfa-${user.id}`}>
+              <ShieldOff className="w-4 h-4 mr-2" />
+              Reset 2FA
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => setSessionsDialogOpen(true)} data-testid={`action-sessions-${user.id}`}>
+            <Monitor className="w-4 h-4 mr-2" />
+            Active Sessions
+          </DropdownMenuItem>
+          {user.role === 'employee' && (
+            <DropdownMenuItem onClick={() => setPasskeysDialogOpen(true)} data-testid={`action-passkeys-${user.id}`}>
+              <KeyRound className="w-4 h-4 mr-2" />
+              Passkeys
+            </DropdownMenuItem>
+          )}
+          {user.role !== 'admin' && (
+            <DropdownMenuItem onClick={() => setLocationsDialogOpen(true)} data-testid={`action-locations-${user.id}`}>
+              <MapPin className="w-4 h-4 mr-2" />
+              Location Access
+            </DropdownMenuItem>
+          )}
+          {currentUser?.role === 'admin' && user.role !== 'admin' && (
+            <DropdownMenuItem
+              onClick={() => setImpersonateDialogOpen(true)}
+              disabled={user.status !== 'active'}
+              data-testid={`action-impersonate-${user.id}`}
+            >
+              <ScanEye className="w-4 h-4 mr-2" />
+              View as User
+            </DropdownMenuItem>
+          )}
           <DropdownMenuItem 
             onClick={() => setDeleteDialogOpen(true)} 
             disabled={isSelf || user.id === 1}
@@ -754,6 +1105,11 @@ function UserActionMenu({ user }: { user: User }) {
       <StatusManagementDialog user={user} open={statusDialogOpen} onOpenChange={setStatusDialogOpen} />
       <UnlockUserDialog user={user} open={unlockDialogOpen} onOpenChange={setUnlockDialogOpen} />
       <PasswordResetDialog user={user} open={resetDialogOpen} onOpenChange={setResetDialogOpen} />
+      <MfaResetDialog user={user} open={mfaResetDialogOpen} onOpenChange={setMfaResetDialogOpen} />
+      <SessionsDialog user={user} open={sessionsDialogOpen} onOpenChange={setSessionsDialogOpen} />
+      <PasskeysDialog user={user} open={passkeysDialogOpen} onOpenChange={setPasskeysDialogOpen} />
+      <LocationsDialog user={user} open={locationsDialogOpen} onOpenChange={setLocationsDialogOpen} />
+      <ImpersonateDialog user={user} open={impersonateDialogOpen} onOpenChange={setImpersonateDialogOpen} />
       <DeleteConfirmationDialog user={user} open={deleteDialogOpen} onOpenChange={setDeleteDialogOpen} />
     </>
   );
@@ -1053,6 +1409,7 @@ export default function UsersManagement() {
                   <SelectItem value="admin">Admin</SelectItem>
                   <SelectItem value="hr">HR</SelectItem>
                   <SelectItem value="viewer">Viewer</SelectItem>
+                  <CustomRoleItems />
                 </SelectContent>
               </Select>
               <Select value={statusFilter} onValueChange={handleStatusFilterChange}>
@@ -0,0 +1,785 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type {
+  WebhookDelivery,
+  WebhookEndpointSummary,
+  WebhookEventDefinition,
+} from "@shared/schema";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Webhook,
+  Plus,
+  Copy,
+  Pencil,
+  RotateCw,
+  Trash2,
+  Send,
+  History,
+  RefreshCw,
+  CheckCircle,
+  AlertTriangle,
+} from "lucide-react";
+import { format } from "date-fns";
+
+/**
+ * Paged delivery log returned by the deliveries and dead-letter endpoints
+ */
+interface DeliveriesResponse {
+  deliveries: WebhookDelivery[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+/**
+ * Signing secret shown once after creating an endpoint or rotating its secret
+ */
+interface RevealedSecret {
+  endpointName: string;
+  secret: string;
+}
+
+const DELIVERY_STATUS_LABELS: Record<string, string> = {
+  pending: "Pending",
+  retrying: "Retrying",
+  succeeded: "Delivered",
+  dead: "Failed",
+};
+
+/**
+ * Returns a badge for a delivery status
+ * @param {string} status - pending, retrying, succeeded or dead
+ * @returns {JSX.Element} Styled badge
+ */
+function DeliveryStatusBadge({ status }: { status: string }) {
+  if (status === "succeeded") {
+    return <Badge variant="outline" className="border-green-500 text-green-500">Delivered</Badge>;
+  }
+  if (status === "dead") {
+    return <Badge variant="destructive">Failed</Badge>;
+  }
+  if (status === "retrying") {
+    return <Badge variant="outline" className="border-orange-500 text-orange-500">Retrying</Badge>;
+  }
+  return <Badge variant="secondary">{DELIVERY_STATUS_LABELS[status] ?? status}</Badge>;
+}
+
+/**
+ * Table of webhook deliveries with their latest response
+ *
+ * @component
+ * @param {object} props - Component configuration
+ * @param {WebhookDelivery[]} props.deliveries - Deliveries to show
+ * @param {Record<number, string>} [props.endpointNames] - Endpoint names, shown when listing several endpoints
+ * @param {(id: number) => void} props.onRedeliver - Requeue a retrying or failed delivery
+ * @param {boolean} props.redelivering - Disables the redeliver buttons while a request is running
+ * @returns {JSX.Element} Delivery table
+ */
+function DeliveryTable({
+  deliveries,
+  endpointNames,
+  onRedeliver,
+  redelivering,
+}: {
+  deliveries: WebhookDelivery[];
+  endpointNames?: Record<number, string>;
+  onRedeliver: (id: number) => void;
+  redelivering: boolean;
+}) {
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Event</TableHead>
+          {endpointNames && <TableHead>Endpoint</TableHead>}
+          <TableHead>Status</TableHead>
+          <TableHead>Attempts</TableHead>
+          <TableHead>Last Response</TableHead>
+          <TableHead>Queued</TableHead>
+          <TableHead className="text-right">Actions</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {deliveries.map((delivery) => (
+          <TableRow key={delivery.id} data-testid={`row-delivery-${delivery.id}`}>
+            <TableCell>
+              <code className="text-xs">{delivery.eventType}</code>
+              <p className="text-xs text-muted-foreground">{delivery.eventId}</p>
+            </TableCell>
+            {endpointNames && (
+              <TableCell>{endpointNames[delivery.endpointId] ?? `#${delivery.endpointId}`}</TableCell>
+            )}
+            <TableCell>
+              <DeliveryStatusBadge status={delivery.status} />
+              {delivery.status === "retrying" && delivery.nextAttemptAt && (
+                <p className="text-xs text-muted-foreground mt-1">
+                  Next try {format(new Date(delivery.nextAttemptAt), "PPp")}
+                </p>
+              )}
+            </TableCell>
+            <TableCell>{delivery.attempts}</TableCell>
+            <TableCell className="max-w-xs">
+              {delivery.responseStatus && (
+                <code className="text-xs">HTTP {delivery.responseStatus}</code>
+              )}
+              {delivery.error && (
+                <p className="text-xs text-destructive truncate" title={delivery.error}>
+                  {delivery.error}
+                </p>
+              )}
+              {!delivery.responseStatus && !delivery.error && (
+                <span className="text-muted-foreground text-sm">—</span>
+              )}
+            </TableCell>
+            <TableCell className="text-sm">
+              {format(new Date(delivery.createdAt), "PPp")}
+            </TableCell>
+            <TableCell className="text-right">
+              {(delivery.status === "dead" || delivery.status === "retrying") && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRedeliver(delivery.id)}
+                  disabled={redelivering}
+                  data-testid={`button-redeliver-${delivery.id}`}
+                >
+                  <RefreshCw className="h-4 w-4" />
+                </Button>
+              )}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/**
+ * Webhook endpoint management page for downstream integrations
+ * @component
+ * @returns {JSX.Element} Webhook subscriptions, delivery logs and dead letters
+ * @example
+ * <WebhooksPage />
+ *
+ * @description
+ * - Admins register HTTPS endpoints (payroll, EMR provisioning, badge access)
+ *   and choose which events each receives
+ * - Signing secrets are shown once, after creation or rotation
+ * - "Send test" posts a webhook.test event and shows the receiver's response
+ * - Per-endpoint delivery log filtered by status
+ * - Dead-letter list of deliveries that failed every retry, with redelivery
+ * - Uses data-testid attributes for automated testing
+ */
+export default function WebhooksPage() {
+  const { toast } = useToast();
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<WebhookEndpointSummary | null>(null);
+  const [revealedSecret, setRevealedSecret] = useState<RevealedSecret | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<WebhookEndpointSummary | null>(null);
+  const [rotateTarget, setRotateTarget] = useState<WebhookEndpointSummary | null>(null);
+  const [logEndpoint, setLogEndpoint] = useState<WebhookEndpointSummary | null>(null);
+  const [logStatus, setLogStatus] = useState("all");
+
+  // Form state for create/edit
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [description, setDescription] = useState("");
+  const [selectedEvents, setSelectedEvents] = useState<string[]>([]);
+  const [active, setActive] = useState(true);
+
+  const { data: endpoints, isLoading } = useQuery<WebhookEndpointSummary[]>({
+    queryKey: ["/api/settings/webhooks"],
+  });
+
+  const { data: events = [] } = useQuery<WebhookEventDefinition[]>({
+    queryKey: ["/api/settings/webhooks/events"],
+  });
+
+  const { data: deadLetters } = useQuery<DeliveriesResponse>({
+    queryKey: ["/api/settings/webhooks/dead-letters"],
+  });
+
+  const { data: deliveryLog, isLoading: isLogLoading } = useQuery<DeliveriesResponse>({
+    queryKey: ["/api/settings/webhooks", logEndpoint?.id, "deliveries", logStatus],
+    queryFn: async ({ queryKey }) => {
+      const [base, endpointId, path, status] = queryKey;
+      const params = new URLSearchParams({ limit: "50" });
+      if (status !== "all") params.set("status", String(status));
+
+      const res = await fetch(`${base}/${endpointId}/${path}?${params}`, { credentials: "include" });
+      if (!res.ok) throw new Error("Failed to fetch deliveries");
+      return res.json();
+    },
+    enabled: !!logEndpoint,
+  });
+
+  const endpointNames = Object.fromEntries((endpoints ?? []).map((endpoint) => [endpoint.id, endpoint.name]));
+
+  /**
+   * Refreshes every webhook query (endpoint counts, logs and dead letters)
+   */
+  const invalidateWebhooks = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/settings/webhooks"] });
+  };
+
+  /**
+   * Opens the endpoint form, prefilled when editing
+   * @param {WebhookEndpointSummary | null} endpoint - Endpoint to edit, or null to create
+   */
+  const openForm = (endpoint: WebhookEndpointSummary | null) => {
+    setEditing(endpoint);
+    setName(endpoint?.name ?? "");
+    setUrl(endpoint?.url ?? "");
+    setDescription(endpoint?.description ?? "");
+    setSelectedEvents(endpoint?.events ?? []);
+    setActive(endpoint?.active ?? true);
+    setFormOpen(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const payload = { name, url, description: description || null, events: selectedEvents, active };
+      const response = editing
+        ? await apiRequest("PUT", `/api/settings/webhooks/${editing.id}`, payload)
+        : await apiRequest("POST", "/api/settings/webhooks", payload);
+      return response.json() as Promise<WebhookEndpointSummary & { secret?: string }>;
+    },
+    onSuccess: (data) => {
+      setFormOpen(false);
+      invalidateWebhooks();
+      if (data.secret) {
+        setRevealedSecret({ endpointName: data.name, secret: data.secret });
+      }
+      toast({
+        title: editing ? "Webhook Updated" : "Webhook Created",
+        description: editing ? `${data.name} has been updated.` : "Save the signing secret before closing the dialog.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save webhook",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (endpointId: number) => {
+      await apiRequest("DELETE", `/api/settings/webhooks/${endpointId}`);
+    },
+    onSuccess: () => {
+      invalidateWebhooks();
+      setDeleteTarget(null);
+      toast({ title: "Webhook Deleted", description: "The endpoint will no longer receive events." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to delete webhook", variant: "destructive" });
+    },
+  });
+
+  const rotateMutation = useMutation({
+    mutationFn: async (endpoint: WebhookEndpointSummary) => {
+      const response = await apiRequest("POST", `/api/settings/webhooks/${endpoint.id}/rotate-secret`);
+      const { secret } = await response.json() as { secret: string };
+      return { endpointName: endpoint.name, secret };
+    },
+    onSuccess: (data) => {
+      setRotateTarget(null);
+      setRevealedSecret(data);
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to rotate secret", variant: "destructive" });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async (endpointId: number) => {
+      const response = await apiRequest("POST", `/api/settings/webhooks/${endpointId}/test`);
+      return response.json() as Promise<WebhookDelivery>;
+    },
+    onSuccess: (delivery) => {
+      invalidateWebhooks();
+      if (delivery.status === "succeeded") {
+        toast({ title: "Test Delivered", description: `The endpoint responded with HTTP ${delivery.responseStatus}.` });
+      } else {
+        toast({
+          title: "Test Failed",
+          description: `${delivery.error ?? "No response"}. It will be retried automatically.`,
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to send test event", variant: "destructive" });
+    },
+  });
+
+  const redeliverMutation = useMutation({
+    mutationFn: async (deliveryId: number) => {
+      await apiRequest("POST", `/api/settings/webhooks/deliveries/${deliveryId}/redeliver`);
+    },
+    onSuccess: () => {
+      invalidateWebhooks();
+      toast({ title: "Redelivery Queued", description: "The delivery will be sent again shortly." });
+    },
+    onError: (error: any) => {
+      toast({ title: "Error", description: error.message || "Failed to redeliver", variant: "destructive" });
+    },
+  });
+
+  /**
+   * Copies text to clipboard and shows success notification
+   * @param {string} text - Text to copy to clipboard
+   */
+  const copyToClipboard = (text: string) => {
+    navigator.clipboard.writeText(text);
+    toast({
+      title: "Copied",
+      description: "Signing secret copied to clipboard",
+    });
+  };
+
+  /**
+   * Toggles an event subscription in the endpoint form
+   * @param {string} eventType - Event type to toggle
+   */
+  const toggleEvent = (eventType: string) => {
+    setSelectedEvents((prev) =>
+      prev.includes(eventType)
+        ? prev.filter((e) => e !== eventType)
+        : [...prev, eventType]
+    );
+  };
+
+  return (
+    <div className="p-6 space-y-6" data-testid="webhooks-page">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-3xl font-bold">Webhooks</h1>
+          <p className="text-muted-foreground mt-1">
+            Notify payroll, EMR provisioning and badge access systems when HR events happen
+          </p>
+        </div>
+        <Button onClick={() => openForm(null)} data-testid="button-create-webhook">
+          <Plus className="mr-2 h-4 w-4" />
+          Add Endpoint
+        </Button>
+      </div>
+
+      {/* Endpoints Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Endpoints</CardTitle>
+          <CardDescription>
+            Each event is POSTed as JSON and signed with the endpoint's secret
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="space-y-3">
+              <Skeleton className="h-10 w-full" />
+              <Skeleton className="h-10 w-full" />
+            </div>
+          ) : endpoints && endpoints.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Events</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Deliveries</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {endpoints.map((endpoint) => (
+                  <TableRow key={endpoint.id} data-testid={`row-webhook-${endpoint.id}`}>
+                    <TableCell className="font-medium">
+                      <div className="flex items-center gap-2">
+                        <Webhook className="h-4 w-4 text-muted-foreground" />
+                        {endpoint.name}
+                      </div>
+                      <code className="text-xs text-muted-foreground break-all">{endpoint.url}</code>
+                    </TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {endpoint.events.map((event) => (
+                          <Badge key={event} variant="secondary">
+                            {event === "*" ? "All events" : event}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {endpoint.active ? (
+                        <Badge variant="outline" className="border-green-500 text-green-500">Active</Badge>
+                      ) : (
+                        <Badge variant="secondary">Paused</Badge>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      <span className="text-green-600">{endpoint.deliveryCounts.succeeded ?? 0} delivered</span>
+                      {(endpoint.deliveryCounts.dead ?? 0) > 0 && (
+                        <span className="text-red-600"> · {endpoint.deliveryCounts.dead} failed</span>
+                      )}
+                      {(endpoint.deliveryCounts.retrying ?? 0) > 0 && (
+                        <span className="text-orange-600"> · {endpoint.deliveryCounts.retrying} retrying</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            setLogStatus("all");
+                            setLogEndpoint(endpoint);
+                          }}
+                          data-testid={`button-deliveries-${endpoint.id}`}
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => testMutation.mutate(endpoint.id)}
+                          disabled={testMutation.isPending}
+                          data-testid={`button-test-${endpoint.id}`}
+                        >
+                          <Send className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => openForm(endpoint)}
+                          data-testid={`button-edit-${endpoint.id}`}
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setRotateTarget(endpoint)}
+                          data-testid={`button-rotate-${endpoint.id}`}
+                        >
+                          <RotateCw className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setDeleteTarget(endpoint)}
+                          data-testid={`button-delete-${endpoint.id}`}
+                        >
+                          <Trash2 className="h-4 w-4 text-destructive" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Webhook className="h-12 w-12 mx-auto mb-4 opacity-50" />
+              <p>No webhook endpoints</p>
+              <p className="text-sm mt-1">Add an endpoint to start sending events</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Dead Letters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Failed Deliveries
+          </CardTitle>
+          <CardDescription>
+            Deliveries that failed every retry. Fix the receiver, then redeliver them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {deadLetters && deadLetters.deliveries.length > 0 ? (
+            <DeliveryTable
+              deliveries={deadLetters.deliveries}
+              endpointNames={endpointNames}
+              onRedeliver={(id) => redeliverMutation.mutate(id)}
+              redelivering={redeliverMutation.isPending}
+            />
+          ) : (
+            <p className="text-sm text-muted-foreground" data-testid="text-no-dead-letters">
+              No failed deliveries.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Webhook Endpoint" : "Add Webhook Endpoint"}</DialogTitle>
+            <DialogDescription>
+              Events are sent as signed HTTPS POST requests. Payloads contain record IDs, not personal details.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                placeholder="e.g., Payroll sync"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                data-testid="input-webhook-name"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                type="url"
+                placeholder="https://payroll.example.com/hooks/hr"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                data-testid="input-webhook-url"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="webhook-description">Description</Label>
+              <Textarea
+                id="webhook-description"
+                placeholder="What the receiving system does with these events"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                data-testid="input-webhook-description"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="space-y-3">
+                {events.map((event) => (
+                  <div key={event.type} className="flex items-start space-x-2">
+                    <Checkbox
+                      id={`event-${event.type}`}
+                      checked={selectedEvents.includes(event.type)}
+                      onCheckedChange={() => toggleEvent(event.type)}
+                      data-testid={`checkbox-event-${event.type}`}
+                    />
+                    <label htmlFor={`event-${event.type}`} className="text-sm leading-tight">
+                      <code className="font-medium">{event.type}</code>
+                      <span className="block text-muted-foreground">{event.description}</span>
+                    </label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between">
+              <div>
+                <Label htmlFor="webhook-active">Active</Label>
+                <p className="text-sm text-muted-foreground">Paused endpoints keep their queued deliveries</p>
+              </div>
+              <Switch
+                id="webhook-active"
+                checked={active}
+                onCheckedChange={setActive}
+                data-testid="switch-webhook-active"
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} data-testid="button-cancel">
+              Cancel
+            </Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={!name || !url || selectedEvents.length === 0 || saveMutation.isPending}
+              data-testid="button-save-webhook"
+            >
+              {saveMutation.isPending ? "Saving..." : editing ? "Save Changes" : "Add Endpoint"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Signing Secret Dialog */}
+      {revealedSecret && (
+        <Dialog open={!!revealedSecret} onOpenChange={() => setRevealedSecret(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <CheckCircle className="h-5 w-5 text-green-500" />
+                Signing Secret for {revealedSecret.endpointName}
+              </DialogTitle>
+              <DialogDescription className="text-red-500 font-semibold">
+                This secret will not be shown again. Configure it on the receiver to verify X-Webhook-Signature.
+              </DialogDescription>
+            </DialogHeader>
+            <div className="p-4 bg-muted rounded-lg">
+              <div className="flex items-center justify-between">
+                <code className="text-sm break-all" data-testid="text-webhook-secret">
+                  {revealedSecret.secret}
+                </code>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => copyToClipboard(revealedSecret.secret)}
+                  data-testid="button-copy-secret"
+                >
+                  <Copy className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            <DialogFooter>
+              <Button onClick={() => setRevealedSecret(null)} data-testid="button-close-secret-dialog">
+                I've Saved the Secret
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
+      {/* Delivery Log Dialog */}
+      <Dialog open={!!logEndpoint} onOpenChange={(open) => !open && setLogEndpoint(null)}>
+        <DialogContent className="max-w-5xl">
+          <DialogHeader>
+            <DialogTitle>Delivery Log</DialogTitle>
+            <DialogDescription>
+              Recent deliveries to {logEndpoint?.name}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex justify-end">
+            <Select value={logStatus} onValueChange={setLogStatus}>
+              <SelectTrigger className="w-48" data-testid="select-delivery-status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All deliveries</SelectItem>
+                {Object.entries(DELIVERY_STATUS_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="max-h-[60vh] overflow-y-auto">
+            {isLogLoading ? (
+              <Skeleton className="h-24 w-full" />
+            ) : deliveryLog && deliveryLog.deliveries.length > 0 ? (
+              <DeliveryTable
+                deliveries={deliveryLog.deliveries}
+                onRedeliver={(id) => redeliverMutation.mutate(id)}
+                redelivering={redeliverMutation.isPending}
+              />
+            ) : (
+              <p className="text-sm text-muted-foreground py-6 text-center">No deliveries yet.</p>
+            )}
+          </div>
+          {deliveryLog && deliveryLog.total > deliveryLog.deliveries.length && (
+            <p className="text-xs text-muted-foreground">
+              Showing the latest {deliveryLog.deliveries.length} of {deliveryLog.total} deliveries
+            </p>
+          )}
+          <DialogFooter>
+            <Button onClick={() => setLogEndpoint(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <AlertDialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete Webhook Endpoint</AlertDialogTitle>
+            <AlertDialogDescription>
+              {deleteTarget?.name} will stop receiving events and its delivery log will be deleted.
+              This action cannot be undone.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deleteTarget && deleteMutation.mutate(deleteTarget.id)}
+              className="bg-destructive text-destructive-foreground"
+            >
+              Delete Endpoint
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Rotate Confirmation Dialog */}
+      <AlertDialog open={!!rotateTarget} onOpenChange={(open) => !open && setRotateTarget(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Rotate Signing Secret</AlertDialogTitle>
+            <AlertDialogDescription>
+              The current secret stops working immediately. Deliveries will fail signature
+              checks until {rotateTarget?.name} is updated with the new secret.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => rotateTarget && rotateMutation.mutate(rotateTarget)}>
+              Rotate Secret
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -43,7 +43,7 @@ const taskFormSchema = z.object({
   relatedType: z.enum(["employee", "location"]),
   relatedEmployeeId: z.coerce.number().optional(),
   relatedLocationId: z.coerce.number().optional(),
-  category: z.enum(["inspection", "review", "compliance", "training", "other"]).optional(),
+  category: z.enum(["inspection", "review", "compliance", "training", "offboarding", "other"]).optional(),
   priority: z.enum(["low", "medium", "high", "urgent"]).default("medium"),
   status: z.enum(["open", "in_progress", "completed", "cancelled"]).default("open"),
   isRecurring: z.boolean().default(false),
@@ -454,6 +454,7 @@ export default function TaskForm() {
                             <SelectItem value="review">Review</SelectItem>
                             <SelectItem value="compliance">Compliance</SelectItem>
                             <SelectItem value="training">Training</SelectItem>
+                            <SelectItem value="offboarding">Offboarding</SelectItem>
                             <SelectItem value="other">Other</SelectItem>
                           </SelectContent>
                         </Select>
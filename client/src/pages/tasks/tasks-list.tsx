@@ -257,6 +257,7 @@ export default function TasksList() {
                     <SelectItem value="review">Review</SelectItem>
                     <SelectItem value="compliance">Compliance</SelectItem>
                     <SelectItem value="training">Training</SelectItem>
+                    <SelectItem value="offboarding">Offboarding</SelectItem>
                     <SelectItem value="other">Other</SelectItem>
                   </SelectContent>
                 </Select>
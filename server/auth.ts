@@ -10,6 +10,10 @@
  * - Timing-safe password comparison to prevent timing attacks
  * - Session-based authentication with PostgreSQL store
  * - Secure session configuration
+ * - TOTP multi-factor second step for enrolled or policy-bound users
+ * - OpenID Connect single sign-on with per-role password login switch
+ * - Time-boxed, audited admin impersonation ("view as user")
+ * - Per-IP rate limits on sign-in and registration, shared across instances
  * 
  * @module auth
  * @requires passport
@@ -20,19 +24,114 @@
 
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { scrypt, randomBytes, timingSafeEqual } from "crypto";
 import { promisify } from "util";
 import { storage } from "./storage";
 import { User as SelectUser } from "@shared/schema";
+import { mfaService } from "./services/mfaService";
+import { oidcService, OidcLoginError } from "./services/oidcService";
+import { sessionService, type SessionDeviceInfo } from "./services/sessionService";
+import { passwordPolicyService } from "./services/passwordPolicyService";
+import { resolveRolePermissions } from "./middleware/apiKeyAuth";
+import { impersonationService, ImpersonationError, type ImpersonationState } from "./services/impersonationService";
+import { getBaseUrl } from "./utils/url";
+import { passkeyService, PasskeyError, type PasskeyChallenge } from "./services/passkeyService";
+import { webhookService } from "./services/webhookService";
+import { publicRateLimiter } from "./services/rateLimitService";
+import { logger } from "./utils/logger";
 
 declare global {
   namespace Express {
     interface User extends SelectUser {}
+    interface Request {
+      /** Real admin while impersonating; req.user is then the user being viewed as */
+      impersonator?: SelectUser;
+    }
+  }
+}
+
+declare module "express-session" {
+  interface SessionData {
+    /** User who passed the password step and still owes a TOTP code */
+    pendingMfaUserId?: number;
+    /** Epoch ms after which the pending MFA challenge is discarded */
+    pendingMfaExpiresAt?: number;
+    /** Wrong codes entered for the pending MFA challenge */
+    pendingMfaFailures?: number;
+    /** Set when policy requires MFA but the signed-in user has not enrolled yet */
+    mfaEnrollmentRequired?: boolean;
+    /** PKCE verifier, state and nonce for an in-flight OIDC sign-in */
+    oidc?: { state: string; nonce: string; codeVerifier: string };
+    /** Device, IP and activity shown in the active sessions list */
+    device?: SessionDeviceInfo;
+    /** Active "view as user" state for an admin session */
+    impersonation?: ImpersonationState;
+    /** Pending WebAuthn challenge between passkey options and verification */
+    webauthn?: PasskeyChallenge;
   }
 }
 
+/**
+ * Passport failure message for roles that must sign in through SSO
+ */
+const PASSWORD_LOGIN_DISABLED = "PASSWORD_LOGIN_DISABLED";
+
+/**
+ * How long a user has to complete the TOTP step after a correct password
+ */
+const MFA_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Wrong codes accepted for one MFA challenge before the password step must be repeated
+ */
+const MFA_CHALLENGE_MAX_FAILURES = 5;
+
+/**
+ * Minimum time between last-activity updates, to avoid a session write per request
+ */
+const SESSION_ACTIVITY_INTERVAL_MS = 60 * 1000;
+
+/**
+ * API paths still reachable while a user is forced to enroll in MFA
+ */
+const MFA_ENROLLMENT_ALLOWED_PATHS = ["/api/user", "/api/logout", "/api/mfa"];
+
+/**
+ * Save the device, IP address and activity time on the current session
+ * Called right after sign-in and then periodically by the activity tracker.
+ * 
+ * @param {Request} req - Request with an established session
+ */
+function recordSessionDevice(req: Request) {
+  const now = new Date().toISOString();
+  req.session.device = {
+    userAgent: req.get("user-agent")?.slice(0, 500),
+    ipAddress: req.ip,
+    createdAt: req.session.device?.createdAt || now,
+    lastActiveAt: now
+  };
+}
+
+/**
+ * Strip credential material from a user record before returning it to a client
+ * 
+ * @function sanitizeUser
+ * @param {SelectUser} user - Full user row
+ * @returns {object} User without password hash, reset token or MFA secrets
+ */
+export function sanitizeUser(user: SelectUser) {
+  const {
+    passwordHash,
+    passwordResetToken,
+    mfaSecret,
+    mfaRecoveryCodes,
+    ...safeUser
+  } = user;
+  return safeUser;
+}
+
 /**
  * Promisified version of scrypt for async/await usage
  */
@@ -125,6 +224,10 @@ export async function comparePasswords(supplied: string, stored: string) {
  * - Passport.js local authentication strategy
  * - User serialization/deserialization for sessions
  * - Authentication endpoints (/api/login, /api/logout, /api/register, /api/user)
+ * - MFA enrollment and second-step endpoints (/api/login/mfa, /api/mfa/*)
+ * - Passkey sign-in and management for employees (/api/login/passkey, /api/passkeys)
+ * - OpenID Connect single sign-on endpoints (/api/auth/oidc/*)
+ * - Active session listing and remote sign-out (/api/sessions)
  * 
  * @throws {Error} If SESSION_SECRET environment variable is not set
  * 
@@ -170,23 +273,39 @@ export function setupAuth(app: Express) {
    */
   passport.use(
     new LocalStrategy(async (username, password, done) => {
-      console.log(`Authentication attempt for username: ${username}`);
+      logger.info('Authentication attempt', { username });
       
       const user = await storage.getUserByUsername(username);
       
       if (!user) {
-        console.log(`Authentication failed: User '${username}' not found`);
+        logger.info('Authentication failed: user not found', { username });
         return done(null, false);
       }
       
       const passwordMatch = await comparePasswords(password, user.passwordHash);
       
       if (!passwordMatch) {
-        console.log(`Authentication failed: Invalid password for user '${username}'`);
+        logger.info('Authentication failed: invalid password', { username, userId: user.id });
+        return done(null, false);
+      }
+      
+      // Suspended, locked and disabled (e.g. deprovisioned over SCIM) accounts cannot sign in
+      if (user.status !== 'active') {
+        logger.info(`Authentication failed: user is ${user.status}`, { username, userId: user.id });
         return done(null, false);
       }
       
-      console.log(`Authentication successful for user '${username}' (ID: ${user.id}, Role: ${user.role})`);
+      // Roles moved to single sign-on cannot use their local password
+      const securitySettings = await storage.getSecuritySettings();
+      if (securitySettings?.passwordLoginDisabledRoles?.includes(user.role)) {
+        logger.info(`Authentication failed: password login disabled for role '${user.role}'`, { username, userId: user.id });
+        return done(null, false, { message: PASSWORD_LOGIN_DISABLED });
+      }
+      
+      // Passwords older than the policy's maximum age must be changed
+      await passwordPolicyService.expireIfNeeded(user);
+      
+      logger.info('Authentication successful', { username, userId: user.id, role: user.role });
       return done(null, user);
     }),
   );
@@ -197,6 +316,98 @@ export function setupAuth(app: Express) {
     done(null, user);
   });
 
+  /**
+   * Session activity tracker
+   * 
+   * Records the device, IP address and last activity on signed-in sessions so
+   * they can be listed under "Where you're signed in". Activity is refreshed at
+   * most once per SESSION_ACTIVITY_INTERVAL_MS.
+   */
+  app.use((req: Request, _res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated?.() || !req.session) {
+      return next();
+    }
+    
+    const device = req.session.device;
+    if (!device || Date.now() - new Date(device.lastActiveAt).getTime() > SESSION_ACTIVITY_INTERVAL_MS) {
+      recordSessionDevice(req);
+    }
+    next();
+  });
+
+  /**
+   * Impersonation middleware
+   * 
+   * While an admin is viewing as another user, swaps req.user for that user and
+   * keeps the admin on req.impersonator. Expired impersonation (or a target that
+   * is no longer valid) ends on the next request. Writes are refused unless the
+   * admin allowed them, and every API request is audited with both user IDs.
+   */
+  app.use(async (req: Request, res: Response, next: NextFunction) => {
+    const state = req.session?.impersonation;
+    if (!state || !req.isAuthenticated?.()) {
+      return next();
+    }
+    
+    try {
+      if (req.user.id !== state.adminId || req.user.role !== 'admin') {
+        delete req.session.impersonation;
+        return next();
+      }
+      
+      const target = await storage.getUser(state.userId);
+      const expired = impersonationService.isExpired(state);
+      if (expired || !target || target.role === 'admin' || target.status !== 'active') {
+        delete req.session.impersonation;
+        await impersonationService.end(state, expired ? 'expired' : 'invalid');
+        return next();
+      }
+      
+      req.impersonator = req.user;
+      req.user = target;
+      
+      if (req.path.startsWith("/api/")) {
+        res.on("finish", () => {
+          impersonationService.recordRequest(state, {
+            method: req.method,
+            path: req.path,
+            statusCode: res.statusCode
+          });
+        });
+      }
+      
+      if (impersonationService.isBlocked(state, req.method, req.path)) {
+        return res.status(403).json({
+          error: "This action is not allowed while viewing as another user",
+          code: "IMPERSONATION_READ_ONLY"
+        });
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  /**
+   * MFA enrollment gate
+   * 
+   * When the security policy requires MFA for a user's role and they have not
+   * enrolled yet, only the enrollment endpoints, /api/user and /api/logout stay
+   * reachable until enrollment completes.
+   */
+  app.use((req: Request, res: Response, next: NextFunction) => {
+    if (!req.session?.mfaEnrollmentRequired || !req.path.startsWith("/api/")) {
+      return next();
+    }
+    if (MFA_ENROLLMENT_ALLOWED_PATHS.some(path => req.path === path || req.path.startsWith(`${path}/`))) {
+      return next();
+    }
+    res.status(403).json({
+      error: "Multi-factor authentication enrollment is required",
+      code: "MFA_ENROLLMENT_REQUIRED"
+    });
+  });
+
   /**
    * POST /api/register
    * 
@@ -238,7 +449,7 @@ export function setupAuth(app: Express) {
    * - Failed registrations clean up partial data for consistency
    * - Email from invitation is stored in user record for identification
    */
-  app.post("/api/register", async (req, res, next) => {
+  app.post("/api/register", publicRateLimiter, async (req, res, next) => {
     const { username, password, invitationToken } = req.body;
     
     // Invitation token is now required
@@ -251,6 +462,11 @@ export function setupAuth(app: Express) {
     if (existingUser) {
       return res.status(400).send("Username already exists");
     }
+    
+    const passwordErrors = passwordPolicyService.validateStrength(password || "", await passwordPolicyService.getPolicy());
+    if (passwordErrors.length > 0) {
+      return res.status(400).json({ error: passwordErrors[0], details: passwordErrors });
+    }
 
     let invitation = null;
     let employee = null;
@@ -289,7 +505,7 @@ export function setupAuth(app: Express) {
     // If this is an onboarding registration, handle employee record and send forms
     if (invitation) {
       try {
-        console.log(`Processing employee onboarding for user ${user.id} (${username}) with invitation ${invitation.id}`);
+        logger.info(`Processing employee onboarding for user ${user.id} with invitation ${invitation.id}`, { username });
         
         // Check if employee with this email already exists
         const existingEmployee = await storage.getEmployeeByWorkEmail(invitation.email);
@@ -297,7 +513,7 @@ export function setupAuth(app: Express) {
         if (existingEmployee) {
           // Employee already exists - link user account to existing employee
           // This handles pre-created employee records from HR
-          console.log(`Found existing employee with email ${invitation.email} (ID: ${existingEmployee.id})`);
+          logger.info(`Found existing employee ${existingEmployee.id} for invitation ${invitation.id}`, { email: invitation.email });
           
           // Check if employee already has a user linked to prevent duplicates
           if (existingEmployee.userId) {
@@ -311,11 +527,11 @@ export function setupAuth(app: Express) {
             invitationId: invitation.id
           });
           
-          console.log(`Successfully linked user ${user.id} to existing employee ${existingEmployee.id}: ${existingEmployee.firstName} ${existingEmployee.lastName}`);
+          logger.info(`Successfully linked user ${user.id} to existing employee ${existingEmployee.id}: ${existingEmployee.firstName} ${existingEmployee.lastName}`);
         } else {
           // No existing employee - create new employee record
           // Critical for prospective_employee users to access /onboarding page
-          console.log(`Creating new employee record for ${invitation.firstName} ${invitation.lastName} (${invitation.email})`);
+          logger.info(`Creating new employee record for invitation ${invitation.id}`, { email: invitation.email });
           
           // Ensure we have required fields - use defaults if missing
           const employeeData = {
@@ -330,10 +546,10 @@ export function setupAuth(app: Express) {
             userId: user.id
           };
           
-          console.log('Creating employee with data:', employeeData);
+          logger.debug('Creating employee with data', employeeData);
           employee = await storage.createEmployee(employeeData);
           
-          console.log(`Successfully created employee record ${employee.id} for user ${user.id}: ${employee.firstName} ${employee.lastName}`);
+          logger.info(`Successfully created employee record ${employee.id} for user ${user.id}: ${employee.firstName} ${employee.lastName}`);
         }
         
         // Verify the employee record was created/updated correctly
@@ -352,6 +568,12 @@ export function setupAuth(app: Express) {
           employeeId: employee.id
         });
         
+        await webhookService.emit('invitation.accepted', {
+          invitationId: invitation.id,
+          employeeId: employee.id,
+          userId: user.id
+        });
+        
         // Try to send DocuSeal onboarding forms
         try {
           const { docuSealService } = await import('./services/docusealService');
@@ -374,30 +596,29 @@ export function setupAuth(app: Express) {
               status: formsSent > 0 ? 'in_progress' : 'registered'
             });
             
-            console.log(`Sent ${formsSent} onboarding forms to ${invitation.email}`);
+            logger.info(`Sent ${formsSent} onboarding forms for invitation ${invitation.id}`, { email: invitation.email });
           } else {
-            console.log("DocuSeal not configured - skipping form sending");
+            logger.info("DocuSeal not configured - skipping form sending");
           }
         } catch (error) {
           // Log error but don't fail registration
-          console.error("Failed to send onboarding forms:", error);
+          logger.error("Failed to send onboarding forms", error);
         }
       } catch (error) {
         // If employee linking/creation fails, clean up user and return error
         // This maintains data consistency by preventing orphaned user accounts
         const err = error instanceof Error ? error : new Error(String(error));
-        console.error(`Failed to complete employee onboarding for user ${user.id} (${username}):`, err.message);
-        console.error('Full error:', error);
+        logger.error(`Failed to complete employee onboarding for user ${user.id}`, { username, error: err });
         
         // Clean up the created user account to maintain data consistency
         try {
           await storage.deleteUser(user.id);
-          console.log(`Cleaned up user account ${user.id} (${username}) due to employee onboarding failure`);
+          logger.info(`Cleaned up user account ${user.id} due to employee onboarding failure`, { username });
         } catch (cleanupError) {
           const cleanupErr = cleanupError instanceof Error ? cleanupError : new Error(String(cleanupError));
-          console.error(`CRITICAL: Failed to clean up user account ${user.id} after employee onboarding failure:`, cleanupErr.message);
+          logger.error(`CRITICAL: Failed to clean up user account ${user.id} after employee onboarding failure`, { error: cleanupErr.message });
           // Log this for manual cleanup later
-          console.error(`MANUAL CLEANUP REQUIRED: User ${user.id} (${username}) with email ${invitation.email} needs manual cleanup`);
+          logger.error(`MANUAL CLEANUP REQUIRED: User ${user.id} needs manual cleanup`, { username, email: invitation.email });
         }
         
         // Return appropriate error message based on the original error
@@ -423,7 +644,7 @@ export function setupAuth(app: Express) {
         }
         
         // Log invitation details for debugging
-        console.error('Invitation details:', {
+        logger.error('Invitation details', {
           id: invitation.id,
           email: invitation.email,
           firstName: invitation.firstName,
@@ -439,8 +660,8 @@ export function setupAuth(app: Express) {
 
     // CRITICAL: Verify employee was created for prospective_employee users
     if (user.role === 'prospective_employee' && !employee) {
-      console.error('CRITICAL ERROR: prospective_employee user created without employee record!');
-      console.error('User ID:', user.id, 'Username:', user.username);
+      logger.error('CRITICAL ERROR: prospective_employee user created without employee record!');
+      logger.error('Onboarding failure details', { userId: user.id, username: user.username });
       
       // This should never happen but if it does, fail the registration
       return res.status(500).json({
@@ -451,6 +672,7 @@ export function setupAuth(app: Express) {
     // Log the user in
     req.login(user, (err) => {
       if (err) return next(err);
+      recordSessionDevice(req);
       
       const response: any = {
         id: user.id,
@@ -489,13 +711,319 @@ export function setupAuth(app: Express) {
    *   "password": "SecurePass123!"
    * }
    */
-  app.post("/api/login", passport.authenticate("local"), (req, res) => {
-    // Include requirePasswordChange flag in the response
-    const userResponse = {
-      ...req.user,
-      requirePasswordChange: req.user?.requirePasswordChange || false
+  app.post("/api/login", publicRateLimiter, (req, res, next) => {
+    passport.authenticate("local", async (err: any, user: SelectUser | false, info?: { message?: string }) => {
+      if (err) return next(err);
+      if (!user && info?.message === PASSWORD_LOGIN_DISABLED) {
+        return res.status(403).json({
+          error: "Password sign-in is disabled for your role. Please use single sign-on.",
+          code: PASSWORD_LOGIN_DISABLED
+        });
+      }
+      if (!user) return res.status(401).send("Unauthorized");
+
+      try {
+        // Enrolled users must complete the TOTP step before a session is issued
+        if (user.mfaEnabled) {
+          req.session.pendingMfaUserId = user.id;
+          req.session.pendingMfaExpiresAt = Date.now() + MFA_CHALLENGE_TTL_MS;
+          req.session.pendingMfaFailures = 0;
+          return req.session.save((saveErr) => {
+            if (saveErr) return next(saveErr);
+            res.status(200).json({ mfaRequired: true });
+          });
+        }
+
+        const mfaEnrollmentRequired = await mfaService.isRequiredForUser(user);
+        const permissions = await resolveRolePermissions(user.role);
+
+        req.login(user, (loginErr) => {
+          if (loginErr) return next(loginErr);
+          recordSessionDevice(req);
+          if (mfaEnrollmentRequired) {
+            req.session.mfaEnrollmentRequired = true;
+          }
+          res.status(200).json({
+            ...sanitizeUser(user),
+            requirePasswordChange: user.requirePasswordChange || false,
+            mfaEnrollmentRequired,
+            permissions
+          });
+        });
+      } catch (error) {
+        next(error);
+      }
+    })(req, res, next);
+  });
+
+  /**
+   * POST /api/login/mfa
+   * 
+   * @route POST /api/login/mfa
+   * @group Authentication
+   * @param {string} body.code - Six-digit code from the authenticator app
+   * @param {string} body.recoveryCode - One-time recovery code (alternative to code)
+   * 
+   * @returns {object} 200 - Authenticated user object
+   * @returns {Error} 400 - No pending MFA challenge or challenge expired
+   * @returns {Error} 401 - Invalid or already used code
+   * 
+   * @description Second login step for MFA-enrolled users. Requires a prior
+   * successful POST /api/login in the same session. Each code works once, and
+   * after five wrong codes the challenge is discarded so the password must be
+   * entered again. Recovery code use is written to the audit log.
+   * 
+   * @example request
+   * {
+   *   "code": "492039"
+   * }
+   */
+  app.post("/api/login/mfa", publicRateLimiter, async (req, res, next) => {
+    const { code, recoveryCode } = req.body;
+    const { pendingMfaUserId, pendingMfaExpiresAt } = req.session;
+    const clearChallenge = () => {
+      delete req.session.pendingMfaUserId;
+      delete req.session.pendingMfaExpiresAt;
+      delete req.session.pendingMfaFailures;
+    };
+    // Counts a wrong code; the last allowed failure discards the challenge
+    const rejectCode = (error: string) => {
+      const failures = (req.session.pendingMfaFailures || 0) + 1;
+      if (failures >= MFA_CHALLENGE_MAX_FAILURES) {
+        clearChallenge();
+        return res.status(401).json({ error: "Too many invalid codes. Please sign in again." });
+      }
+      req.session.pendingMfaFailures = failures;
+      return res.status(401).json({ error });
     };
-    res.status(200).json(userResponse);
+
+    if (!pendingMfaUserId || !pendingMfaExpiresAt || pendingMfaExpiresAt < Date.now()) {
+      clearChallenge();
+      return res.status(400).json({ error: "No pending MFA challenge. Please sign in again." });
+    }
+
+    try {
+      const user = await storage.getUser(pendingMfaUserId);
+      if (!user || !user.mfaEnabled) {
+        return res.status(400).json({ error: "No pending MFA challenge. Please sign in again." });
+      }
+
+      if (recoveryCode) {
+        const remaining = await mfaService.consumeRecoveryCode(user, recoveryCode);
+        if (remaining === null) {
+          logger.info('MFA recovery code rejected', { username: user.username, userId: user.id });
+          return rejectCode("Invalid recovery code");
+        }
+        await storage.createAudit({
+          tableName: "users",
+          recordId: user.id,
+          action: "MFA_RECOVERY_USED",
+          changedBy: user.id,
+          oldData: null,
+          newData: { remainingRecoveryCodes: remaining }
+        });
+      } else if (!(await mfaService.verifyUserToken(user, code))) {
+        logger.info('MFA code rejected', { username: user.username, userId: user.id });
+        return rejectCode("Invalid authentication code");
+      }
+
+      clearChallenge();
+
+      const permissions = await resolveRolePermissions(user.role);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordSessionDevice(req);
+        res.status(200).json({
+          ...sanitizeUser(user),
+          requirePasswordChange: user.requirePasswordChange || false,
+          permissions
+        });
+      });
+    } catch (error) {
+      logger.error("Error verifying MFA login", error);
+      res.status(500).json({ error: "Failed to verify authentication code" });
+    }
+  });
+
+  /**
+   * POST /api/login/passkey/options
+   * 
+   * @route POST /api/login/passkey/options
+   * @group Authentication
+   * @param {string} body.username - Optional username, to allow security keys without a stored passkey
+   * 
+   * @returns {object} 200 - WebAuthn request options for navigator.credentials.get()
+   * 
+   * @description First step of passkey sign-in (employee accounts only). The
+   * challenge is kept in the session for POST /api/login/passkey.
+   */
+  app.post("/api/login/passkey/options", publicRateLimiter, async (req, res) => {
+    try {
+      const rp = passkeyService.getRelyingParty(getBaseUrl(req));
+      const username = typeof req.body?.username === "string" ? req.body.username : undefined;
+      const { options, challenge } = await passkeyService.startAuthentication(rp, username);
+      req.session.webauthn = challenge;
+      res.json(options);
+    } catch (error) {
+      logger.error("Error creating passkey sign-in options", error);
+      res.status(500).json({ error: "Failed to start passkey sign-in" });
+    }
+  });
+
+  /**
+   * POST /api/login/passkey
+   * 
+   * @route POST /api/login/passkey
+   * @group Authentication
+   * @param {object} body.response.required - Authenticator response from navigator.credentials.get()
+   * 
+   * @returns {object} 200 - Authenticated user object (same shape as POST /api/login)
+   * @returns {Error} 400 - No pending passkey challenge or challenge expired
+   * @returns {Error} 401 - Unknown passkey or verification failed
+   * 
+   * @description Signs in with a passkey instead of a password. Passkeys
+   * require user verification (PIN or biometric), so no TOTP step follows.
+   */
+  app.post("/api/login/passkey", publicRateLimiter, async (req, res, next) => {
+    const challenge = req.session.webauthn;
+    delete req.session.webauthn;
+
+    try {
+      const user = await passkeyService.finishAuthentication({
+        response: req.body?.response,
+        challenge,
+        rp: passkeyService.getRelyingParty(getBaseUrl(req))
+      });
+      const permissions = await resolveRolePermissions(user.role);
+
+      req.login(user, (err) => {
+        if (err) return next(err);
+        recordSessionDevice(req);
+        res.status(200).json({
+          ...sanitizeUser(user),
+          requirePasswordChange: false,
+          mfaEnrollmentRequired: false,
+          permissions
+        });
+      });
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error("Error verifying passkey sign-in", error);
+      res.status(500).json({ error: "Failed to verify passkey" });
+    }
+  });
+
+  /**
+   * GET /api/auth/oidc/config
+   * 
+   * @route GET /api/auth/oidc/config
+   * @group Authentication
+   * 
+   * @returns {object} 200 - Whether SSO is available and the button label
+   * 
+   * @example response
+   * {
+   *   "enabled": true,
+   *   "displayName": "Clinic SSO"
+   * }
+   */
+  app.get("/api/auth/oidc/config", (req, res) => {
+    res.json({
+      enabled: oidcService.isConfigured(),
+      displayName: oidcService.getDisplayName()
+    });
+  });
+
+  /**
+   * GET /api/auth/oidc/login
+   * 
+   * @route GET /api/auth/oidc/login
+   * @group Authentication
+   * 
+   * @returns 302 - Redirect to the identity provider
+   * @returns {Error} 404 - SSO not configured
+   * 
+   * @description Starts the authorization code flow with PKCE. State, nonce
+   * and code verifier are kept in the session for the callback.
+   */
+  app.get("/api/auth/oidc/login", async (req, res) => {
+    if (!oidcService.isConfigured()) {
+      return res.status(404).json({ error: "Single sign-on is not configured" });
+    }
+
+    try {
+      const redirectUri = process.env.OIDC_REDIRECT_URI || `${getBaseUrl(req)}/api/auth/oidc/callback`;
+      const { url, state, nonce, codeVerifier } = await oidcService.createAuthorizationRequest(redirectUri);
+
+      req.session.oidc = { state, nonce, codeVerifier };
+      req.session.save((err) => {
+        if (err) {
+          logger.error("Error saving OIDC session state", err);
+          return res.redirect("/auth?sso_error=" + encodeURIComponent("Unable to start single sign-on"));
+        }
+        res.redirect(url);
+      });
+    } catch (error) {
+      logger.error("Error starting OIDC login", error);
+      res.redirect("/auth?sso_error=" + encodeURIComponent("Unable to reach the identity provider"));
+    }
+  });
+
+  /**
+   * GET /api/auth/oidc/callback
+   * 
+   * @route GET /api/auth/oidc/callback
+   * @group Authentication
+   * @param {string} query.code - Authorization code from the identity provider
+   * @param {string} query.state - State echoed back by the identity provider
+   * 
+   * @returns 302 - Redirect to the dashboard, or to /auth?sso_error=... on failure
+   * 
+   * @description Exchanges the code, links or provisions the local user by
+   * email, applies IdP group role mappings, then creates the session.
+   * The identity provider is responsible for multi-factor authentication, so
+   * the local TOTP step and enrollment policy do not apply to SSO sessions.
+   */
+  app.get("/api/auth/oidc/callback", async (req, res, next) => {
+    const checks = req.session.oidc;
+    delete req.session.oidc;
+
+    const fail = (message: string) => res.redirect("/auth?sso_error=" + encodeURIComponent(message));
+
+    if (!checks) {
+      return fail("Your sign-in session expired. Please try again.");
+    }
+
+    try {
+      const redirectUri = process.env.OIDC_REDIRECT_URI || `${getBaseUrl(req)}/api/auth/oidc/callback`;
+      const callbackUrl = new URL(redirectUri);
+      callbackUrl.search = new URL(req.originalUrl, "http://localhost").search;
+
+      const identity = await oidcService.handleCallback(callbackUrl, checks);
+      const user = await oidcService.findOrProvisionUser(identity);
+
+      req.login(user, async (err) => {
+        if (err) return next(err);
+        recordSessionDevice(req);
+        try {
+          await storage.updateUser(user.id, { lastLoginAt: new Date() });
+        } catch (updateError) {
+          logger.error("Error recording SSO login time", updateError);
+        }
+        logger.info('SSO authentication successful', { username: user.username, userId: user.id, role: user.role });
+        res.redirect("/");
+      });
+    } catch (error) {
+      if (error instanceof OidcLoginError) {
+        logger.info(`SSO authentication rejected: ${error.message}`);
+        return fail(error.message);
+      }
+      logger.error("Error completing OIDC login", error);
+      fail("Single sign-on failed. Please try again.");
+    }
   });
 
   /**
@@ -510,7 +1038,14 @@ export function setupAuth(app: Express) {
    * 
    * @description Destroys the user session and clears authentication
    */
-  app.post("/api/logout", (req, res, next) => {
+  app.post("/api/logout", async (req, res, next) => {
+    const impersonation = req.session?.impersonation;
+    if (impersonation) {
+      delete req.session.impersonation;
+      await impersonationService.end(impersonation, 'stopped').catch(error => {
+        logger.error("Failed to audit impersonation end", error);
+      });
+    }
     req.logout((err) => {
       if (err) return next(err);
       res.sendStatus(200);
@@ -528,16 +1063,32 @@ export function setupAuth(app: Express) {
    * @returns 401 - Not authenticated
    * 
    * @description Returns the currently authenticated user's information
-   * Used for checking authentication status and getting user details
+   * Used for checking authentication status and getting user details.
+   * While impersonating this is the user being viewed as, with `impersonation`
+   * describing the admin and time box.
    */
-  app.get("/api/user", (req, res) => {
+  app.get("/api/user", async (req, res, next) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
-    // Include requirePasswordChange flag in the response
-    const userResponse = {
-      ...req.user,
-      requirePasswordChange: req.user?.requirePasswordChange || false
-    };
-    res.json(userResponse);
+    try {
+      // Include requirePasswordChange, MFA enrollment flags and role permissions in the response
+      const userResponse = {
+        ...sanitizeUser(req.user),
+        requirePasswordChange: req.user?.requirePasswordChange || false,
+        mfaEnrollmentRequired: !!req.session.mfaEnrollmentRequired,
+        permissions: await resolveRolePermissions(req.user.role),
+        impersonation: req.impersonator && req.session.impersonation
+          ? {
+              impersonator: { id: req.impersonator.id, username: req.impersonator.username },
+              reason: req.session.impersonation.reason,
+              allowWrites: req.session.impersonation.allowWrites,
+              expiresAt: req.session.impersonation.expiresAt
+            }
+          : null
+      };
+      res.json(userResponse);
+    } catch (error) {
+      next(error);
+    }
   });
 
   /**
@@ -584,13 +1135,42 @@ export function setupAuth(app: Express) {
       req.user = updatedUser;
       
       // Return updated user data
-      res.json(updatedUser);
+      res.json(sanitizeUser(updatedUser));
     } catch (error) {
-      console.error("Error updating user profile:", error);
+      logger.error("Error updating user profile", error);
       res.status(500).json({ error: "Failed to update profile" });
     }
   });
 
+  /**
+   * GET /api/auth/password-policy
+   * 
+   * @route GET /api/auth/password-policy
+   * @group Authentication
+   * 
+   * @returns {object} 200 - Current password requirements (public, used by password forms)
+   * 
+   * @example response
+   * {
+   *   "minLength": 12,
+   *   "requireUppercase": true,
+   *   "requireLowercase": true,
+   *   "requireNumber": true,
+   *   "requireSymbol": true,
+   *   "blockBreached": true,
+   *   "historyCount": 5,
+   *   "maxAgeDays": 90
+   * }
+   */
+  app.get("/api/auth/password-policy", async (_req, res) => {
+    try {
+      res.json(await passwordPolicyService.getPolicy());
+    } catch (error) {
+      logger.error("Error fetching password policy", error);
+      res.status(500).json({ error: "Failed to fetch password policy" });
+    }
+  });
+
   /**
    * POST /api/change-password
    * 
@@ -601,10 +1181,11 @@ export function setupAuth(app: Express) {
    * @param {string} body.newPassword.required - New password
    * 
    * @returns {object} 200 - Password changed successfully
-   * @returns {Error} 400 - Invalid current password or validation error
+   * @returns {Error} 400 - Invalid current password or password policy violation
    * @returns {Error} 401 - Not authenticated
    * 
-   * @description Changes the user's password and sets requirePasswordChange to false
+   * @description Changes the user's password and sets requirePasswordChange to false.
+   * The new password must satisfy the password policy, including reuse prevention.
    */
   app.post("/api/change-password", async (req, res) => {
     if (!req.isAuthenticated() || !req.user) {
@@ -617,10 +1198,6 @@ export function setupAuth(app: Express) {
       return res.status(400).json({ error: "Current password and new password are required" });
     }
     
-    if (newPassword.length < 8) {
-      return res.status(400).json({ error: "New password must be at least 8 characters long" });
-    }
-    
     try {
       // Verify current password
       const user = await storage.getUser(req.user.id);
@@ -633,20 +1210,535 @@ export function setupAuth(app: Express) {
         return res.status(400).json({ error: "Current password is incorrect" });
       }
       
-      // Update password and set requirePasswordChange to false
-      const hashedPassword = await hashPassword(newPassword);
-      await storage.updateUser(user.id, {
-        passwordHash: hashedPassword,
-        requirePasswordChange: false
-      });
+      const passwordErrors = await passwordPolicyService.validateNewPassword(user, newPassword);
+      if (passwordErrors.length > 0) {
+        return res.status(400).json({ error: passwordErrors[0], details: passwordErrors });
+      }
+      
+      // Update password (recorded in history) and set requirePasswordChange to false
+      await passwordPolicyService.setPassword(user.id, newPassword);
       
       // Update the session user object
       req.user.requirePasswordChange = false;
       
       res.json({ message: "Password changed successfully" });
     } catch (error) {
-      console.error("Error changing password:", error);
+      logger.error("Error changing password", error);
       res.status(500).json({ error: "Failed to change password" });
     }
   });
+
+  /**
+   * GET /api/mfa/status
+   * 
+   * @route GET /api/mfa/status
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object} 200 - MFA state for the current user
+   * @returns {Error} 401 - Not authenticated
+   * 
+   * @example response
+   * {
+   *   "enabled": true,
+   *   "enrolledAt": "2025-01-20T10:00:00Z",
+   *   "required": true,
+   *   "recoveryCodesRemaining": 8
+   * }
+   */
+  app.get("/api/mfa/status", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      res.json({
+        enabled: req.user.mfaEnabled,
+        enrolledAt: req.user.mfaEnrolledAt,
+        required: await mfaService.isRequiredForUser(req.user),
+        recoveryCodesRemaining: req.user.mfaRecoveryCodes?.length || 0
+      });
+    } catch (error) {
+      logger.error("Error fetching MFA status", error);
+      res.status(500).json({ error: "Failed to fetch MFA status" });
+    }
+  });
+
+  /**
+   * POST /api/mfa/setup
+   * 
+   * @route POST /api/mfa/setup
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object} 200 - Base32 secret, otpauth URI and QR code data URL
+   * @returns {Error} 400 - MFA already enabled
+   * @returns {Error} 401 - Not authenticated
+   * 
+   * @description Starts TOTP enrollment. MFA is not active until the user
+   * confirms a code via POST /api/mfa/verify.
+   */
+  app.post("/api/mfa/setup", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    if (req.user.mfaEnabled) {
+      return res.status(400).json({ error: "Multi-factor authentication is already enabled" });
+    }
+
+    try {
+      const enrollment = await mfaService.beginEnrollment(req.user);
+      res.json(enrollment);
+    } catch (error) {
+      logger.error("Error starting MFA enrollment", error);
+      res.status(500).json({ error: "Failed to start MFA enrollment" });
+    }
+  });
+
+  /**
+   * POST /api/mfa/verify
+   * 
+   * @route POST /api/mfa/verify
+   * @group Authentication
+   * @security Bearer
+   * @param {string} body.code.required - Current code from the authenticator app
+   * 
+   * @returns {object} 200 - Recovery codes (shown only once)
+   * @returns {Error} 400 - Invalid code or no enrollment in progress
+   * @returns {Error} 401 - Not authenticated
+   */
+  app.post("/api/mfa/verify", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const recoveryCodes = await mfaService.confirmEnrollment(req.user, req.body.code);
+      if (!recoveryCodes) {
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      delete req.session.mfaEnrollmentRequired;
+
+      await storage.createAudit({
+        tableName: "users",
+        recordId: req.user.id,
+        action: "MFA_ENROLLED",
+        changedBy: req.user.id,
+        oldData: null,
+        newData: { mfaEnabled: true }
+      });
+
+      res.json({
+        recoveryCodes,
+        message: "Multi-factor authentication enabled. Store these recovery codes somewhere safe; they will not be shown again."
+      });
+    } catch (error) {
+      logger.error("Error confirming MFA enrollment", error);
+      res.status(500).json({ error: "Failed to confirm MFA enrollment" });
+    }
+  });
+
+  /**
+   * POST /api/mfa/recovery-codes
+   * 
+   * @route POST /api/mfa/recovery-codes
+   * @group Authentication
+   * @security Bearer
+   * @param {string} body.code.required - Current code from the authenticator app
+   * 
+   * @returns {object} 200 - New recovery codes; previous codes stop working
+   * @returns {Error} 400 - MFA not enabled or invalid code
+   * @returns {Error} 401 - Not authenticated
+   */
+  app.post("/api/mfa/recovery-codes", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      if (!(await mfaService.verifyUserToken(req.user, req.body.code))) {
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      const recoveryCodes = await mfaService.regenerateRecoveryCodes(req.user);
+      res.json({ recoveryCodes });
+    } catch (error) {
+      logger.error("Error regenerating MFA recovery codes", error);
+      res.status(500).json({ error: "Failed to regenerate recovery codes" });
+    }
+  });
+
+  /**
+   * DELETE /api/mfa
+   * 
+   * @route DELETE /api/mfa
+   * @group Authentication
+   * @security Bearer
+   * @param {string} body.code.required - Current code from the authenticator app
+   * 
+   * @returns {object} 200 - MFA disabled
+   * @returns {Error} 400 - Invalid code
+   * @returns {Error} 401 - Not authenticated
+   * @returns {Error} 403 - MFA is required for the user's role
+   */
+  app.delete("/api/mfa", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      if (await mfaService.isRequiredForUser(req.user)) {
+        return res.status(403).json({ error: "Multi-factor authentication is required for your role" });
+      }
+
+      if (!(await mfaService.verifyUserToken(req.user, req.body.code))) {
+        return res.status(400).json({ error: "Invalid authentication code" });
+      }
+
+      await mfaService.reset(req.user.id);
+
+      await storage.createAudit({
+        tableName: "users",
+        recordId: req.user.id,
+        action: "MFA_DISABLED",
+        changedBy: req.user.id,
+        oldData: { mfaEnabled: true },
+        newData: { mfaEnabled: false }
+      });
+
+      res.json({ message: "Multi-factor authentication disabled" });
+    } catch (error) {
+      logger.error("Error disabling MFA", error);
+      res.status(500).json({ error: "Failed to disable multi-factor authentication" });
+    }
+  });
+
+  /**
+   * GET /api/passkeys
+   * 
+   * @route GET /api/passkeys
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object[]} 200 - Passkeys registered by the current user
+   * @returns {Error} 401 - Not authenticated
+   * 
+   * @example response
+   * [{
+   *   "id": 3,
+   *   "name": "Front desk security key",
+   *   "deviceType": "singleDevice",
+   *   "backedUp": false,
+   *   "createdAt": "2025-01-20T10:00:00Z",
+   *   "lastUsedAt": "2025-01-22T08:14:00Z"
+   * }]
+   */
+  app.get("/api/passkeys", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      res.json(await passkeyService.list(req.user.id));
+    } catch (error) {
+      logger.error("Error fetching passkeys", error);
+      res.status(500).json({ error: "Failed to fetch passkeys" });
+    }
+  });
+
+  /**
+   * POST /api/passkeys/register/options
+   * 
+   * @route POST /api/passkeys/register/options
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object} 200 - WebAuthn creation options for navigator.credentials.create()
+   * @returns {Error} 400 - Passkey limit reached
+   * @returns {Error} 401 - Not authenticated
+   * @returns {Error} 403 - Passkeys are not available for the user's role
+   */
+  app.post("/api/passkeys/register/options", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const rp = passkeyService.getRelyingParty(getBaseUrl(req));
+      const { options, challenge } = await passkeyService.startRegistration(req.user, rp);
+      req.session.webauthn = challenge;
+      res.json(options);
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error("Error creating passkey registration options", error);
+      res.status(500).json({ error: "Failed to start passkey registration" });
+    }
+  });
+
+  /**
+   * POST /api/passkeys/register/verify
+   * 
+   * @route POST /api/passkeys/register/verify
+   * @group Authentication
+   * @security Bearer
+   * @param {object} body.response.required - Authenticator response from navigator.credentials.create()
+   * @param {string} body.name - Label for the passkey (e.g. "Work laptop")
+   * 
+   * @returns {object} 201 - Registered passkey
+   * @returns {Error} 400 - Challenge expired or verification failed
+   * @returns {Error} 401 - Not authenticated
+   * @returns {Error} 409 - Passkey already registered
+   */
+  app.post("/api/passkeys/register/verify", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const challenge = req.session.webauthn;
+    delete req.session.webauthn;
+
+    try {
+      const passkey = await passkeyService.finishRegistration(req.user, {
+        response: req.body?.response,
+        challenge,
+        rp: passkeyService.getRelyingParty(getBaseUrl(req)),
+        name: typeof req.body?.name === "string" ? req.body.name : undefined
+      });
+      res.status(201).json(passkey);
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error("Error registering passkey", error);
+      res.status(500).json({ error: "Failed to register passkey" });
+    }
+  });
+
+  /**
+   * DELETE /api/passkeys/:id
+   * 
+   * @route DELETE /api/passkeys/{id}
+   * @group Authentication
+   * @security Bearer
+   * @param {number} id.path.required - Passkey ID
+   * 
+   * @returns {object} 200 - Passkey removed
+   * @returns {Error} 401 - Not authenticated
+   * @returns {Error} 404 - Passkey not found
+   */
+  app.delete("/api/passkeys/:id", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      await passkeyService.remove(req.user.id, parseInt(req.params.id), req.user);
+      res.json({ message: "Passkey removed" });
+    } catch (error) {
+      if (error instanceof PasskeyError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error("Error removing passkey", error);
+      res.status(500).json({ error: "Failed to remove passkey" });
+    }
+  });
+
+  /**
+   * GET /api/sessions
+   * 
+   * @route GET /api/sessions
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object[]} 200 - Sessions where the current user is signed in
+   * @returns {Error} 401 - Not authenticated
+   * 
+   * @example response
+   * [{
+   *   "id": "3f2a9c...",
+   *   "device": "Chrome on Windows",
+   *   "ipAddress": "203.0.113.10",
+   *   "createdAt": "2025-01-20T10:00:00Z",
+   *   "lastActiveAt": "2025-01-20T14:32:00Z",
+   *   "expiresAt": "2025-01-21T14:32:00Z",
+   *   "current": true
+   * }]
+   */
+  app.get("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      res.json(await sessionService.listForUser(req.user.id, req.sessionID));
+    } catch (error) {
+      logger.error("Error listing sessions", error);
+      res.status(500).json({ error: "Failed to list sessions" });
+    }
+  });
+
+  /**
+   * DELETE /api/sessions/:id
+   * 
+   * @route DELETE /api/sessions/:id
+   * @group Authentication
+   * @security Bearer
+   * @param {string} id.path.required - Session identifier from GET /api/sessions
+   * 
+   * @returns {object} 200 - Session signed out
+   * @returns {Error} 400 - Attempt to revoke the current session (use /api/logout)
+   * @returns {Error} 401 - Not authenticated
+   * @returns {Error} 404 - Session not found
+   */
+  app.delete("/api/sessions/:id", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    if (req.params.id === sessionService.getPublicId(req.sessionID)) {
+      return res.status(400).json({ error: "Use sign out to end your current session" });
+    }
+
+    try {
+      if (!(await sessionService.revoke(req.user.id, req.params.id))) {
+        return res.status(404).json({ error: "Session not found" });
+      }
+
+      await storage.createAudit({
+        tableName: "users",
+        recordId: req.user.id,
+        action: "SESSION_REVOKED",
+        changedBy: req.user.id,
+        oldData: null,
+        newData: { sessionId: req.params.id }
+      });
+
+      res.json({ message: "Session signed out" });
+    } catch (error) {
+      logger.error("Error revoking session", error);
+      res.status(500).json({ error: "Failed to sign out session" });
+    }
+  });
+
+  /**
+   * DELETE /api/sessions
+   * 
+   * @route DELETE /api/sessions
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object} 200 - Number of other sessions signed out
+   * @returns {Error} 401 - Not authenticated
+   * 
+   * @description Signs the user out everywhere except the current session.
+   */
+  app.delete("/api/sessions", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    try {
+      const revoked = await sessionService.revokeAll(req.user.id, req.sessionID);
+
+      await storage.createAudit({
+        tableName: "users",
+        recordId: req.user.id,
+        action: "SESSIONS_REVOKED",
+        changedBy: req.user.id,
+        oldData: null,
+        newData: { revoked, keptCurrentSession: true }
+      });
+
+      res.json({ message: "Signed out of all other sessions", revoked });
+    } catch (error) {
+      logger.error("Error revoking sessions", error);
+      res.status(500).json({ error: "Failed to sign out other sessions" });
+    }
+  });
+
+  /**
+   * POST /api/admin/impersonation
+   * 
+   * @route POST /api/admin/impersonation
+   * @group Authentication
+   * @security Bearer
+   * @param {number} body.userId.required - User to view as
+   * @param {string} body.reason.required - Why support needs to view as this user
+   * @param {number} body.durationMinutes - Time box in minutes (1-60, default 15)
+   * @param {boolean} body.allowWrites - Allow create, update and delete requests (default false)
+   * 
+   * @returns {object} 200 - Impersonation started; reload /api/user to see the target
+   * @returns {Error} 400 - Missing reason, invalid duration, inactive target or already impersonating
+   * @returns {Error} 401 - Not authenticated
+   * @returns {Error} 403 - Not an admin, or the target is an admin
+   * @returns {Error} 404 - User not found
+   * 
+   * @description Starts "view as user" for the admin's current session only.
+   * Password, MFA and session endpoints stay blocked for the whole time box.
+   */
+  app.post("/api/admin/impersonation", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+    if (req.session.impersonation) {
+      return res.status(400).json({ error: "Stop viewing as the current user first" });
+    }
+
+    try {
+      const { state, target } = await impersonationService.start(req.user, {
+        userId: parseInt(req.body.userId),
+        reason: typeof req.body.reason === "string" ? req.body.reason : "",
+        durationMinutes: req.body.durationMinutes === undefined ? undefined : Number(req.body.durationMinutes),
+        allowWrites: req.body.allowWrites === true
+      });
+      req.session.impersonation = state;
+
+      res.json({
+        user: { id: target.id, username: target.username, role: target.role },
+        allowWrites: state.allowWrites,
+        expiresAt: state.expiresAt
+      });
+    } catch (error) {
+      if (error instanceof ImpersonationError) {
+        return res.status(error.status).json({ error: error.message });
+      }
+      logger.error("Error starting impersonation", error);
+      res.status(500).json({ error: "Failed to start impersonation" });
+    }
+  });
+
+  /**
+   * POST /api/impersonation/stop
+   * 
+   * @route POST /api/impersonation/stop
+   * @group Authentication
+   * @security Bearer
+   * 
+   * @returns {object} 200 - Back to the admin's own account
+   * @returns {Error} 400 - Not viewing as another user
+   * @returns {Error} 401 - Not authenticated
+   */
+  app.post("/api/impersonation/stop", async (req, res) => {
+    if (!req.isAuthenticated() || !req.user) {
+      return res.status(401).json({ error: "Authentication required" });
+    }
+
+    const state = req.session.impersonation;
+    if (!state) {
+      return res.status(400).json({ error: "Not viewing as another user" });
+    }
+
+    try {
+      delete req.session.impersonation;
+      await impersonationService.end(state, "stopped");
+      res.json({ message: "Stopped viewing as user" });
+    } catch (error) {
+      logger.error("Error stopping impersonation", error);
+      res.status(500).json({ error: "Failed to stop impersonation" });
+    }
+  });
 }
@@ -1,49 +1,25 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
-import { setupVite, serveStatic, log } from "./vite";
+import { setupVite, serveStatic } from "./vite";
 import { storage } from "./storage";
 import { hashPassword } from "./auth";
+import { captureRawBody } from "./services/requestSigningService";
+import { logger } from "./utils/logger";
+import { requestLogger } from "./middleware/requestLogger";
 
 const app = express();
-app.use(express.json());
-app.use(express.urlencoded({ extended: false }));
+app.use(express.json({ verify: captureRawBody }));
+app.use(express.urlencoded({ extended: false, verify: captureRawBody }));
 
 // Enable trust proxy for production deployments
 // This allows proper protocol and host detection when behind proxies
 if (process.env.NODE_ENV === 'production' || process.env.REPLIT_DOMAINS) {
   app.set('trust proxy', 1);
-  console.log('Trust proxy enabled for production environment');
+  logger.info('Trust proxy enabled for production environment');
 }
 
-app.use((req, res, next) => {
-  const start = Date.now();
-  const path = req.path;
-  let capturedJsonResponse: Record<string, any> | undefined = undefined;
-
-  const originalResJson = res.json;
-  res.json = function (bodyJson, ...args) {
-    capturedJsonResponse = bodyJson;
-    return originalResJson.apply(res, [bodyJson, ...args]);
-  };
-
-  res.on("finish", () => {
-    const duration = Date.now() - start;
-    if (path.startsWith("/api")) {
-      let logLine = `${req.method} ${path} ${res.statusCode} in ${duration}ms`;
-      if (capturedJsonResponse) {
-        logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
-      }
-
-      if (logLine.length > 80) {
-        logLine = logLine.slice(0, 79) + "…";
-      }
-
-      log(logLine);
-    }
-  });
-
-  next();
-});
+// Request IDs and one structured log entry per API request (no response bodies)
+app.use(requestLogger);
 
 /**
  * Ensure default admin account exists for system access
@@ -99,7 +75,7 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
         try {
           const isValidPassword = await comparePasswords('admin', adminUser.passwordHash);
           if (isValidPassword) {
-            console.log(`Default admin account already exists (ID: ${adminUser.id}) and password is valid`);
+            logger.info(`Default admin account already exists (ID: ${adminUser.id}) and password is valid`);
             return;
           } else {
             /**
@@ -109,11 +85,11 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
              * - Password was changed incorrectly
              * - Security reset is required
              */
-            console.log(`Admin user exists but password is invalid. Resetting password...`);
+            logger.info(`Admin user exists but password is invalid. Resetting password...`);
             const newHashedPassword = await hashPassword('admin');
             await storage.updateUser(adminUser.id, { passwordHash: newHashedPassword });
-            console.log('✅ Admin password has been reset to: admin');
-            console.log('⚠️  IMPORTANT: Change the default password after first login!');
+            logger.info('✅ Admin password has been reset to: admin');
+            logger.info('⚠️  IMPORTANT: Change the default password after first login!');
             return;
           }
         } catch (error) {
@@ -125,11 +101,11 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
            * - Encryption key changes
            * Solution: Reset to known good state
            */
-          console.log(`Admin user exists but password hash appears corrupted. Resetting password...`);
+          logger.info(`Admin user exists but password hash appears corrupted. Resetting password...`);
           const newHashedPassword = await hashPassword('admin');
           await storage.updateUser(adminUser.id, { passwordHash: newHashedPassword });
-          console.log('✅ Admin password has been reset to: admin');
-          console.log('⚠️  IMPORTANT: Change the default password after first login!');
+          logger.info('✅ Admin password has been reset to: admin');
+          logger.info('⚠️  IMPORTANT: Change the default password after first login!');
           return;
         }
       }
@@ -144,7 +120,7 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
       const totalUsers = result.total;
       
       if (!usersList || totalUsers === 0) {
-        console.log(`[Attempt ${attempt}/${retries}] No users found. Creating default admin account...`);
+        logger.info(`[Attempt ${attempt}/${retries}] No users found. Creating default admin account...`);
         
         const hashedPassword = await hashPassword('admin');
         const newAdminUser = await storage.createUser({
@@ -155,25 +131,25 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
           requirePasswordChange: false  // Don't require password change for initial deployment
         });
         
-        console.log('✅ Default admin account created successfully');
-        console.log('Username: admin');
-        console.log('Password: admin');
-        console.log('⚠️  IMPORTANT: Change the default password after first login!');
+        logger.info('✅ Default admin account created successfully');
+        logger.info('Username: admin');
+        logger.info('Password: admin');
+        logger.info('⚠️  IMPORTANT: Change the default password after first login!');
         return;
       } else {
-        console.log(`Found ${totalUsers} existing users. No default admin needed.`);
+        logger.info(`Found ${totalUsers} existing users. No default admin needed.`);
         return;
       }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
-      console.error(`[Attempt ${attempt}/${retries}] Failed to check/create admin account:`, errorMessage);
+      logger.error(`[Attempt ${attempt}/${retries}] Failed to check/create admin account`, errorMessage);
       
       if (attempt === retries) {
-        console.error('❌ CRITICAL: Failed to ensure default admin account after all retries');
-        console.error('The application may not be accessible without manual database intervention');
+        logger.error('❌ CRITICAL: Failed to ensure default admin account after all retries');
+        logger.error('The application may not be accessible without manual database intervention');
         // Don't throw - let the app continue but log the critical issue
       } else {
-        console.log(`Retrying in ${delay}ms...`);
+        logger.info(`Retrying in ${delay}ms...`);
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
@@ -190,8 +166,10 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
     const status = err.status || err.statusCode || 500;
     const message = err.message || "Internal Server Error";
 
+    if (status >= 500) {
+      logger.error('Unhandled request error', err);
+    }
     res.status(status).json({ message });
-    throw err;
   });
 
   // importantly only setup vite in development and after
@@ -213,6 +191,6 @@ async function ensureDefaultAdmin(retries = 5, delay = 2000): Promise<void> {
     host: "0.0.0.0",
     reusePort: true,
   }, () => {
-    log(`serving on port ${port}`);
+    logger.info(`serving on port ${port}`, { port });
   });
 })();
@@ -3,12 +3,14 @@
  * 
  * This module provides API key-based authentication as an alternative to session authentication.
  * It supports secure key validation, permission checking, and usage tracking.
+ * It also owns the permission engine shared by API keys and session users:
+ * a user's permissions come from their role (built-in or admin-defined).
  * 
  * Features:
  * - Dual header support (Authorization Bearer and X-API-Key)
  * - Secure hash comparison using bcrypt
- * - Permission-based access control
- * - Rate limiting per API key
+ * - Permission-based access control for API keys and user roles
+ * - Rate limiting per API key, shared across server instances (see rateLimitService)
  * - Usage tracking and auditing
  * 
  * @module apiKeyAuth
@@ -22,7 +24,17 @@ import bcrypt from "bcrypt";
 import { randomBytes } from "crypto";
 import { storage } from "../storage";
 import { logAudit, AuditRequest } from "./audit";
-import { ApiKey, User } from "@shared/schema";
+import { ApiKey, User, PermissionDefinition } from "@shared/schema";
+import { describeMiddleware } from "../utils/routeMetadata";
+import { requestSigningService, RequestSigningError } from "../services/requestSigningService";
+import { apiKeyUsageService } from "../services/apiKeyUsageService";
+import { isIpAllowed } from "../utils/ipAllowlist";
+import {
+  rateLimitService,
+  API_KEY_RATE_LIMIT_WINDOW_MS,
+  DEFAULT_API_KEY_RATE_LIMIT
+} from "../services/rateLimitService";
+import { logger } from "../utils/logger";
 
 /**
  * Express request extension for API key authentication
@@ -37,6 +49,10 @@ export interface ApiKeyRequest extends AuditRequest {
   apiKey?: ApiKey;
   /** Array of permissions granted to the API key */
   permissions?: string[];
+  /** Unparsed request body, captured for request signature checks */
+  rawBody?: Buffer;
+  /** Set when requirePermission let a session user through to their own employee record */
+  selfAccess?: boolean;
 }
 
 /**
@@ -64,30 +80,117 @@ export const API_KEY_PERMISSIONS = {
   READ_EMPLOYEES: 'read:employees',
   WRITE_EMPLOYEES: 'write:employees',
   DELETE_EMPLOYEES: 'delete:employees',
+  READ_SSN: 'read:ssn',
   
   // License permissions
   READ_LICENSES: 'read:licenses',
   WRITE_LICENSES: 'write:licenses',
   
+  // Payer enrollment permissions
+  READ_PAYER_ENROLLMENTS: 'read:payer_enrollments',
+  WRITE_PAYER_ENROLLMENTS: 'write:payer_enrollments',
+  
   // Document permissions
   READ_DOCUMENTS: 'read:documents',
   WRITE_DOCUMENTS: 'write:documents',
   
+  // Task permissions
+  READ_TASKS: 'read:tasks',
+  WRITE_TASKS: 'write:tasks',
+  
   // Report permissions
   READ_REPORTS: 'read:reports',
   
   // Audit permissions
   READ_AUDITS: 'read:audits',
   
+  // User management permissions
+  READ_USERS: 'read:users',
+  WRITE_USERS: 'write:users',
+  DELETE_USERS: 'delete:users',
+  MANAGE_ROLES: 'manage:roles',
+  
   // Settings permissions (for managing API keys)
-  MANAGE_API_KEYS: 'manage:api_keys'
+  MANAGE_API_KEYS: 'manage:api_keys',
+  
+  // Directory provisioning (SCIM 2.0 endpoints, API keys only)
+  SCIM_PROVISION: 'scim:provision'
 } as const;
 
 /**
- * Rate limit tracking for API keys
- * Map of apiKeyId -> { count: number, resetTime: Date }
+ * Descriptions of every permission scope, grouped by resource
+ * 
+ * @constant {PermissionDefinition[]} PERMISSION_CATALOG
+ * @description Served to the roles and API key screens so admins build roles
+ * from the same vocabulary that API keys use.
+ */
+export const PERMISSION_CATALOG: PermissionDefinition[] = [
+  { key: API_KEY_PERMISSIONS.READ_EMPLOYEES, label: 'Read', group: 'Employees', description: 'View employee profiles and related records' },
+  { key: API_KEY_PERMISSIONS.WRITE_EMPLOYEES, label: 'Write', group: 'Employees', description: 'Create and edit employees and related records' },
+  { key: API_KEY_PERMISSIONS.DELETE_EMPLOYEES, label: 'Delete', group: 'Employees', description: 'Delete employees' },
+  { key: API_KEY_PERMISSIONS.READ_SSN, label: 'Read SSN', group: 'Employees', description: 'See Social Security numbers (blank without this permission)' },
+  { key: API_KEY_PERMISSIONS.READ_LICENSES, label: 'Read', group: 'Licenses', description: 'View state and DEA licenses' },
+  { key: API_KEY_PERMISSIONS.WRITE_LICENSES, label: 'Write', group: 'Licenses', description: 'Create, edit and delete state and DEA licenses' },
+  { key: API_KEY_PERMISSIONS.READ_PAYER_ENROLLMENTS, label: 'Read', group: 'Payer Enrollments', description: 'View payer enrollments' },
+  { key: API_KEY_PERMISSIONS.WRITE_PAYER_ENROLLMENTS, label: 'Write', group: 'Payer Enrollments', description: 'Create, edit and delete payer enrollments' },
+  { key: API_KEY_PERMISSIONS.READ_DOCUMENTS, label: 'Read', group: 'Documents', description: 'View and download documents' },
+  { key: API_KEY_PERMISSIONS.WRITE_DOCUMENTS, label: 'Write', group: 'Documents', description: 'Upload and edit documents' },
+  { key: API_KEY_PERMISSIONS.READ_TASKS, label: 'Read', group: 'Tasks', description: 'View tasks and task updates' },
+  { key: API_KEY_PERMISSIONS.WRITE_TASKS, label: 'Write', group: 'Tasks', description: 'Create, update and complete tasks' },
+  { key: API_KEY_PERMISSIONS.READ_REPORTS, label: 'Read', group: 'Reports', description: 'View dashboards and reports' },
+  { key: API_KEY_PERMISSIONS.READ_AUDITS, label: 'Read', group: 'Audits', description: 'View the audit trail' },
+  { key: API_KEY_PERMISSIONS.READ_USERS, label: 'Read', group: 'Users', description: 'View user accounts' },
+  { key: API_KEY_PERMISSIONS.WRITE_USERS, label: 'Write', group: 'Users', description: 'Create and edit user accounts' },
+  { key: API_KEY_PERMISSIONS.DELETE_USERS, label: 'Delete', group: 'Users', description: 'Delete user accounts' },
+  { key: API_KEY_PERMISSIONS.MANAGE_ROLES, label: 'Manage Roles', group: 'Users', description: 'Create and edit custom roles' },
+  { key: API_KEY_PERMISSIONS.MANAGE_API_KEYS, label: 'Manage API Keys', group: 'Settings', description: 'Manage API keys' },
+  { key: API_KEY_PERMISSIONS.SCIM_PROVISION, label: 'SCIM Provisioning', group: 'Settings', description: 'Create, update and deactivate users from a directory over SCIM' }
+];
+
+/**
+ * Permissions of the built-in roles
+ * 
+ * @constant {Record<string, string[]>} BUILT_IN_ROLE_PERMISSIONS
+ * @description Admin-defined roles are stored in the roles table; these roles
+ * are defined in code and cannot be edited.
+ * - admin: everything
+ * - hr: everything except user, role, API key and SCIM administration (can look up users)
+ * - viewer: read-only access to employee data, documents and reports
+ * - employee: tasks (the self-service portal does not use permissions)
+ * - prospective_employee: none (onboarding routes are role-gated)
+ *
+ * Routes under an employee record can also let a user reach their own record
+ * without these permissions (see the self option of requirePermission), which
+ * is how the onboarding wizard loads the applicant's licenses and education.
  */
-const rateLimitCache = new Map<number, { count: number; resetTime: Date }>();
+export const BUILT_IN_ROLE_PERMISSIONS: Record<string, string[]> = {
+  admin: ['*'],
+  hr: Object.values(API_KEY_PERMISSIONS).filter(permission =>
+    permission !== API_KEY_PERMISSIONS.WRITE_USERS &&
+    permission !== API_KEY_PERMISSIONS.DELETE_USERS &&
+    permission !== API_KEY_PERMISSIONS.MANAGE_ROLES &&
+    permission !== API_KEY_PERMISSIONS.MANAGE_API_KEYS &&
+    permission !== API_KEY_PERMISSIONS.SCIM_PROVISION
+  ),
+  viewer: [
+    API_KEY_PERMISSIONS.READ_EMPLOYEES,
+    API_KEY_PERMISSIONS.READ_LICENSES,
+    API_KEY_PERMISSIONS.READ_PAYER_ENROLLMENTS,
+    API_KEY_PERMISSIONS.READ_DOCUMENTS,
+    API_KEY_PERMISSIONS.READ_REPORTS
+  ],
+  employee: [
+    API_KEY_PERMISSIONS.READ_TASKS,
+    API_KEY_PERMISSIONS.WRITE_TASKS
+  ],
+  prospective_employee: []
+};
+
+/**
+ * Custom role permissions cache
+ * Map of role key -> permissions (cleared whenever a custom role changes)
+ */
+const rolePermissionCache = new Map<string, string[]>();
 
 /**
  * Generate a new API key
@@ -188,48 +291,57 @@ export function hasPermission(keyPermissions: string[], requiredPermission: stri
 }
 
 /**
- * Check and update rate limit for API key
+ * Check whether a role is defined in code rather than by an admin
  * 
- * @function checkRateLimit
- * @param {number} apiKeyId - API key ID for tracking
- * @param {number} limit - Maximum requests allowed per hour
- * @returns {boolean} True if within rate limit, false if exceeded
+ * @function isBuiltInRole
+ * @param {string} role - Role stored in users.role
+ * @returns {boolean} True for admin, hr, viewer, employee and prospective_employee
+ */
+export function isBuiltInRole(role: string): boolean {
+  return Object.prototype.hasOwnProperty.call(BUILT_IN_ROLE_PERMISSIONS, role);
+}
+
+/**
+ * Resolve the permissions granted by a role
  * 
- * @description
- * Implements in-memory rate limiting for API keys using a sliding window.
- * Each API key gets its own counter that resets every hour.
- * This prevents API abuse and ensures fair usage across all clients.
+ * @async
+ * @function resolveRolePermissions
+ * @param {string} role - Built-in role or custom role key
+ * @returns {Promise<string[]>} Granted permissions (empty for unknown roles)
  * 
- * @throws {Error} Does not throw - handles invalid input gracefully
+ * @description
+ * Built-in roles resolve from BUILT_IN_ROLE_PERMISSIONS. Custom roles are
+ * read from storage and cached until clearRolePermissionCache() is called.
  * 
  * @example
- * // Check if API key #123 can make another request (limit: 1000/hour)
- * const canProceed = checkRateLimit(123, 1000);
- * if (!canProceed) {
- *   return res.status(429).json({ error: 'Rate limit exceeded' });
- * }
+ * const permissions = await resolveRolePermissions(req.user.role);
+ * if (hasPermission(permissions, 'read:ssn')) { ... }
  */
-function checkRateLimit(apiKeyId: number, limit: number): boolean {
-  const now = new Date();
-  const cached = rateLimitCache.get(apiKeyId);
-  
-  // Initialize or reset rate limit tracking
-  if (!cached || cached.resetTime < now) {
-    rateLimitCache.set(apiKeyId, {
-      count: 1,
-      resetTime: new Date(now.getTime() + 60 * 60 * 1000) // 1 hour from now
-    });
-    return true;
+export async function resolveRolePermissions(role: string): Promise<string[]> {
+  if (isBuiltInRole(role)) {
+    return BUILT_IN_ROLE_PERMISSIONS[role];
   }
   
-  // Check if limit exceeded
-  if (cached.count >= limit) {
-    return false;
+  const cached = rolePermissionCache.get(role);
+  if (cached) {
+    return cached;
   }
   
-  // Increment counter
-  cached.count++;
-  return true;
+  const customRole = await storage.getRoleByKey(role);
+  const permissions = customRole?.permissions || [];
+  rolePermissionCache.set(role, permissions);
+  return permissions;
+}
+
+/**
+ * Forget cached custom role permissions
+ * 
+ * @function clearRolePermissionCache
+ * @description Call after a custom role is created, edited or deleted so the
+ * next request picks up the change.
+ */
+export function clearRolePermissionCache(): void {
+  rolePermissionCache.clear();
 }
 
 /**
@@ -249,9 +361,14 @@ function checkRateLimit(apiKeyId: number, limit: number): boolean {
  * 3. Looks up key in database by prefix for efficiency
  * 4. Verifies key hash using bcrypt
  * 5. Checks key expiration and revocation status
- * 6. Enforces rate limiting
- * 7. Updates lastUsedAt timestamp
- * 8. Attaches user and permissions to request
+ * 6. Checks the client IP against the key's allowlist (metadata.allowedIps)
+ * 7. Verifies the HMAC request signature when the key is in signing mode
+ * 8. Enforces rate limiting
+ * 9. Updates lastUsedAt timestamp
+ * 10. Attaches user and permissions to request
+ * 
+ * Every request made with a known key is counted per route for usage
+ * analytics, with rejections after step 3 counted as blocked attempts.
  * 
  * @throws {Error} Database errors, bcrypt failures, or storage issues
  * 
@@ -309,34 +426,70 @@ export async function apiKeyAuth(
       return;
     }
     
+    // Count every request made with this key, including the ones rejected below
+    apiKeyUsageService.track(req, res, storedKey.id);
+    const reject = (status: number, body: Record<string, unknown>) => {
+      apiKeyUsageService.markBlocked(res);
+      res.status(status).json(body);
+    };
+    
     // Verify the key hash
     const isValid = await verifyApiKey(apiKey, storedKey.keyHash);
     
     if (!isValid) {
       // Log failed authentication attempt (redacted for security)
-      console.log(`API key authentication failed for key ${keyPrefix.substring(0, 8)}*** (ID: ${storedKey.id}) from IP ${req.ip}`);
-      res.status(401).json({ error: 'Invalid API key' });
+      logger.info(`API key authentication failed for key ${keyPrefix.substring(0, 8)}*** (ID: ${storedKey.id}) from IP ${req.ip}`);
+      reject(401, { error: 'Invalid API key' });
       return;
     }
     
     // Check if key is revoked
     if (storedKey.revokedAt) {
-      res.status(401).json({ error: 'API key has been revoked' });
+      reject(401, { error: 'API key has been revoked' });
       return;
     }
     
     // Check if key is expired
     if (new Date(storedKey.expiresAt) < new Date()) {
-      res.status(401).json({ error: 'API key has expired' });
+      reject(401, { error: 'API key has expired' });
+      return;
+    }
+    
+    // Keys with an allowlist only work from the listed addresses and CIDR ranges
+    const allowedIps = (storedKey.metadata as { allowedIps?: string[] } | null)?.allowedIps;
+    if (allowedIps && allowedIps.length > 0 && !isIpAllowed(req.ip, allowedIps)) {
+      logger.info(`API key ${keyPrefix.substring(0, 8)}*** (ID: ${storedKey.id}) used from IP ${req.ip} outside its allowlist`);
+      reject(403, { error: 'API key is not allowed from this IP address' });
       return;
     }
     
-    // Check rate limit
-    const rateLimit = storedKey.rateLimitPerHour || 1000;
-    if (!checkRateLimit(storedKey.id, rateLimit)) {
-      res.status(429).json({ 
+    // Keys in signing mode also need a fresh HMAC signature, so a leaked key alone cannot be replayed
+    try {
+      await requestSigningService.verify(storedKey, {
+        method: req.method,
+        path: req.originalUrl,
+        headers: req.headers,
+        body: req.rawBody
+      });
+    } catch (error) {
+      if (error instanceof RequestSigningError) {
+        logger.info(`API key signature rejected for key ${keyPrefix.substring(0, 8)}*** (ID: ${storedKey.id}) from IP ${req.ip}: ${error.message}`);
+        reject(error.status, { error: error.message });
+        return;
+      }
+      throw error;
+    }
+    
+    // Check rate limit (counted in Postgres, so it holds across restarts and instances)
+    const rateLimit = await rateLimitService.consume(res, {
+      key: `api-key:${storedKey.id}`,
+      limit: storedKey.rateLimitPerHour || DEFAULT_API_KEY_RATE_LIMIT,
+      windowMs: API_KEY_RATE_LIMIT_WINDOW_MS
+    });
+    if (!rateLimit.allowed) {
+      reject(429, { 
         error: 'Rate limit exceeded',
-        retryAfter: 3600 // seconds
+        retryAfter: rateLimit.retryAfter // seconds
       });
       return;
     }
@@ -360,26 +513,32 @@ export async function apiKeyAuth(
     req.permissions = storedKey.permissions as string[];
     
     // Log successful authentication (redacted for security)
-    console.log(`API key authentication successful for key ${keyPrefix.substring(0, 8)}*** (ID: ${storedKey.id}) from IP ${req.ip}`);
+    logger.info(`API key authentication successful for key ${keyPrefix.substring(0, 8)}*** (ID: ${storedKey.id}) from IP ${req.ip}`);
     
     next();
   } catch (error) {
-    console.error('API key authentication error:', error);
+    logger.error('API key authentication error', error);
     res.status(500).json({ error: 'Authentication error' });
   }
 }
 
 /**
- * Middleware to require specific permission for API key
+ * Middleware to require a permission for API keys and session users
  * 
  * @function requirePermission
- * @param {string} permission - Required permission (e.g., 'read:employees')
+ * @param {string | string[]} permission - Required permission (e.g., 'read:employees'),
+ * or several permissions of which any one is enough
+ * @param {{ self?: string }} [options] - self: route parameter holding an employee ID;
+ * a session user linked to that employee passes without the permission
  * @returns {Function} Express middleware function
  * 
  * @description
- * Checks if the authenticated API key has the required permission.
- * Must be used after apiKeyAuth middleware. Session-authenticated users
- * bypass permission checks as they have full access.
+ * Checks if the caller has the required permission. Must be used after
+ * apiKeyAuth middleware. API keys are checked against the key's permissions;
+ * session users against their role's permissions (see resolveRolePermissions),
+ * which are attached to req.permissions for later checks such as SSN access.
+ * With the self option, session users lacking the permission may still reach
+ * their own employee record, e.g. an applicant during onboarding.
  * 
  * @throws {Error} Does not throw - returns 403 response for insufficient permissions
  * 
@@ -397,32 +556,54 @@ export async function apiKeyAuth(
  *   requirePermission('delete:employees'),
  *   deleteEmployee
  * );
+ * 
+ * @example
+ * // Applicants can read their own education records
+ * app.get('/api/employees/:id/educations',
+ *   apiKeyAuth,
+ *   requirePermission('read:employees', { self: 'id' }),
+ *   getEducations
+ * );
  */
-export function requirePermission(permission: string) {
-  return (req: ApiKeyRequest, res: Response, next: NextFunction) => {
-    // Skip permission check for session-authenticated users (they have full permissions)
-    if (req.user && !req.apiKey) {
-      return next();
-    }
-    
-    // Check if API key is present
-    if (!req.apiKey || !req.permissions) {
-      // No API key auth, requireAnyAuth should have caught this
-      return next();
-    }
-    
-    // Check if API key has required permission
-    if (!hasPermission(req.permissions, permission)) {
-      res.status(403).json({ 
-        error: 'Insufficient permissions',
-        required: permission,
-        granted: req.permissions
-      });
-      return;
+export function requirePermission(permission: string | string[], options: { self?: string } = {}) {
+  const accepted = Array.isArray(permission) ? permission : [permission];
+  
+  return describeMiddleware(async (req: ApiKeyRequest, res: Response, next: NextFunction) => {
+    try {
+      // Session users get the permissions of their role
+      if (req.user && !req.apiKey) {
+        req.permissions = await resolveRolePermissions(req.user.role);
+      }
+      
+      if (!req.permissions) {
+        // Not authenticated, requireAnyAuth should have caught this
+        return next();
+      }
+      
+      // Check if the caller has any of the accepted permissions
+      if (!accepted.some(required => hasPermission(req.permissions!, required))) {
+        if (options.self && req.user && !req.apiKey) {
+          const employeeId = parseInt(req.params[options.self]);
+          const employee = Number.isNaN(employeeId) ? undefined : await storage.getEmployee(employeeId);
+          if (employee && employee.userId === req.user.id) {
+            req.selfAccess = true;
+            return next();
+          }
+        }
+        res.status(403).json({ 
+          error: 'Insufficient permissions',
+          required: permission,
+          granted: req.permissions
+        });
+        return;
+      }
+      
+      next();
+    } catch (error) {
+      logger.error('Permission check error', error);
+      res.status(500).json({ error: 'Authorization error' });
     }
-    
-    next();
-  };
+  }, { permissions: accepted, allowsSelf: !!options.self });
 }
 
 /**
@@ -463,16 +644,5 @@ export function requireAnyAuth(
   res.status(401).json({ error: 'Authentication required' });
 }
 
-/**
- * Clean up expired rate limit entries periodically
- * Run this every hour to prevent memory leaks
- */
-setInterval(() => {
-  const now = new Date();
-  const entries = Array.from(rateLimitCache.entries());
-  for (const [keyId, data] of entries) {
-    if (data.resetTime < now) {
-      rateLimitCache.delete(keyId);
-    }
-  }
-}, 60 * 60 * 1000); // Every hour
\ No newline at end of file
+describeMiddleware(apiKeyAuth, { acceptsApiKey: true });
+describeMiddleware(requireAnyAuth, { requiresAuth: true });
@@ -20,6 +20,8 @@
 import { Request, Response, NextFunction } from "express";
 import { storage } from "../storage";
 import { User } from "@shared/schema";
+import { redactSensitiveFields } from "./encryption";
+import { logger } from "../utils/logger";
 
 /**
  * Extended Express Request interface for audit logging
@@ -106,7 +108,9 @@ export const auditMiddleware = (tableName: string) => {
  * - Which specific record was affected
  * - What type of operation was performed
  * - Who made the change (user attribution)
- * - Before and after data snapshots
+ * - The real admin, when the change was made while viewing as that user
+ * - Before and after data snapshots, with encrypted columns replaced by keyed
+ *   hashes so the trail shows that they changed but not their values
  * - Timestamp of the change
  * 
  * This function provides the complete audit trail required for healthcare
@@ -135,10 +139,11 @@ export const logAudit = async (req: AuditRequest, recordId: number, oldData?: an
       recordId,
       action: req.auditData.action,
       changedBy: req.user.id,
-      oldData: oldData ? JSON.parse(JSON.stringify(oldData)) : null,
-      newData: newData ? JSON.parse(JSON.stringify(newData)) : null
+      impersonatedBy: req.impersonator?.id ?? null,
+      oldData: oldData ? JSON.parse(JSON.stringify(redactSensitiveFields(oldData, req.auditData.tableName))) : null,
+      newData: newData ? JSON.parse(JSON.stringify(redactSensitiveFields(newData, req.auditData.tableName))) : null
     });
   } catch (error) {
-    console.error('Failed to log audit:', error);
+    logger.error('Failed to log audit', error);
   }
 };
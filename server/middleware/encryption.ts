@@ -2,118 +2,79 @@
  * @fileoverview Encryption Middleware for Sensitive Data Protection
  * 
  * This module provides encryption and decryption utilities for protecting
- * sensitive employee data such as SSN, passwords, and other PII. It uses
- * AES-256-GCM encryption to ensure data security both at rest and in transit.
+ * sensitive employee data such as SSN, passwords, and other PII. Values are
+ * encrypted by the envelope encryption service (AES-256-GCM under a per-value
+ * data key wrapped by a versioned key) to ensure data security at rest.
  * 
  * Features:
- * - AES-256-GCM encryption for authenticated encryption
- * - Automatic field-level encryption for sensitive data
- * - SSN masking for display purposes
- * - Batch encryption/decryption for multiple fields
+ * - Envelope encryption with the key ID embedded in each value
+ * - Field-level encryption driven by the sensitive column registry
+ *   (employees, DEA licenses, emergency contacts)
+ * - Blind indexes for exact-match lookups on encrypted columns
+ * - SSN and credential masking for API responses and audit snapshots
  * 
  * @module encryption
- * @requires crypto
+ * @requires ../services/encryptionService
+ * @requires @shared/schema
  */
 
-import crypto from "crypto";
+import { encryptionService } from "../services/encryptionService";
+import { SENSITIVE_COLUMNS, type SensitiveColumn, type SensitiveTable } from "@shared/schema";
+import { logger } from "../utils/logger";
 
 /**
- * Encryption algorithm used for all sensitive data
- * @constant {string}
- */
-const algorithm = 'aes-256-gcm';
-
-/**
- * Secret key for encryption, sourced from environment or fallback
- * @constant {string}
- */
-const secretKey = process.env.SECRET_KEY || 'default-secret-key-change-in-production';
-
-/**
- * Derived encryption key using scrypt key derivation
- * @constant {Buffer}
- */
-const key = crypto.scryptSync(secretKey, 'salt', 32);
-
-/**
- * Encrypt sensitive text using AES-256-GCM
+ * Encrypt sensitive text under the active key
  * 
  * @function encrypt
  * @param {string} text - Plain text to encrypt
- * @returns {string} Encrypted text in format "iv:authTag:encryptedData" or original text if empty
+ * @returns {string} Ciphertext in format "v2:keyId:data" or original text if empty
  * 
  * @description
- * Encrypts sensitive data using AES-256-GCM authenticated encryption.
- * The function returns the encrypted data in a format that includes:
- * - Initialization Vector (IV) for randomization
- * - Authentication Tag for integrity verification
- * - Encrypted data
- * 
- * All components are hex-encoded and separated by colons for easy parsing.
+ * Encrypts sensitive data with a fresh data key that is wrapped by the key
+ * provider's active key. The key ID is part of the result, so values stay
+ * readable after the active key is rotated.
  * Empty or null input is returned unchanged for compatibility.
  * 
- * @throws {Error} Throws if encryption fails due to invalid input or crypto errors
- * 
  * @example
  * const ssn = "123-45-6789";
  * const encryptedSSN = encrypt(ssn);
- * // Returns: "a1b2c3d4....:e5f6g7h8....:9i0j1k2l...."
+ * // Returns: "v2:default:Qk1x...."
  */
 export function encrypt(text: string): string {
   if (!text) return text;
-  
-  const iv = crypto.randomBytes(16);
-  const cipher = crypto.createCipher(algorithm, key);
-  
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
-  
-  const authTag = cipher.getAuthTag();
-  
-  return iv.toString('hex') + ':' + authTag.toString('hex') + ':' + encrypted;
+  return encryptionService.encrypt(text);
 }
 
 /**
- * Decrypt AES-256-GCM encrypted text
+ * Decrypt text encrypted with encrypt() or an earlier scheme
  * 
  * @function decrypt
- * @param {string} encryptedText - Encrypted text in format "iv:authTag:encryptedData"
+ * @param {string} encryptedText - Encrypted text
  * @returns {string} Decrypted plain text or original text if decryption fails
  * 
  * @description
- * Decrypts data that was encrypted using the encrypt() function.
- * Expects the input to be in the format "iv:authTag:encryptedData"
- * where all components are hex-encoded.
+ * Decrypts envelope ciphertext as well as the hex "iv:authTag:encryptedData"
+ * values written before envelope encryption.
  * 
  * The function gracefully handles errors by:
- * - Returning the original text if format is invalid
+ * - Returning the original text if it is not encrypted
  * - Logging errors for debugging
  * - Never throwing exceptions to avoid breaking the application
  * 
  * @throws {Error} Does not throw - handles all errors gracefully
  * 
  * @example
- * const encryptedSSN = "a1b2c3d4....:e5f6g7h8....:9i0j1k2l....";
+ * const encryptedSSN = "v2:default:Qk1x....";
  * const plainSSN = decrypt(encryptedSSN);
  * // Returns: "123-45-6789"
  */
 export function decrypt(encryptedText: string): string {
-  if (!encryptedText || !encryptedText.includes(':')) return encryptedText;
+  if (!encryptionService.isEncrypted(encryptedText)) return encryptedText;
   
   try {
-    const [ivHex, authTagHex, encrypted] = encryptedText.split(':');
-    const iv = Buffer.from(ivHex, 'hex');
-    const authTag = Buffer.from(authTagHex, 'hex');
-    
-    const decipher = crypto.createDecipher(algorithm, key);
-    decipher.setAuthTag(authTag);
-    
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
-    
-    return decrypted;
+    return encryptionService.decrypt(encryptedText);
   } catch (error) {
-    console.error('Decryption failed:', error);
+    logger.error('Decryption failed', error instanceof Error ? error.message : error);
     return encryptedText; // Return original if decryption fails
   }
 }
@@ -155,53 +116,142 @@ export function maskSSN(ssn: string): string {
   return '***-**-****';
 }
 
+/**
+ * Values responses put in place of masked columns; writing one back keeps the stored value
+ */
+const MASK_PLACEHOLDERS: Record<NonNullable<SensitiveColumn['mask']>, RegExp> = {
+  ssn: /^\*{3}-\*{2}-.{4}$/,
+  secret: /^\*{3}$/
+};
+
+/**
+ * Registry entries of a table
+ * @param {SensitiveTable} table - Table name
+ * @returns {Array<[string, SensitiveColumn]>} Column names and their settings
+ */
+function sensitiveColumns(table: SensitiveTable): Array<[string, SensitiveColumn]> {
+  return Object.entries(SENSITIVE_COLUMNS[table]) as Array<[string, SensitiveColumn]>;
+}
+
+/**
+ * Plain value of a stored or submitted column value
+ * @param {string} value - Ciphertext or plain value
+ * @returns {string | null} Plain value, or null when it cannot be decrypted
+ */
+function plainValue(value: string): string | null {
+  if (!encryptionService.isEncrypted(value)) return value;
+  try {
+    return encryptionService.decrypt(value);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Blind index of a value for an exact-match lookup
+ * 
+ * @function blindIndex
+ * @param {SensitiveTable} table - Table name
+ * @param {string} column - Column with a blind index in the registry
+ * @param {string} value - Plain value to look up
+ * @returns {string} Value to compare the column's blind index with
+ * 
+ * @example
+ * const employee = await db.select().from(employees)
+ *   .where(eq(employees.ssnHash, blindIndex('employees', 'ssn', '123-45-6789')));
+ */
+export function blindIndex(table: SensitiveTable, column: string, value: string): string {
+  return encryptionService.blindIndex(`${table}.${column}`, value);
+}
+
 /**
  * Encrypt sensitive fields in an object
  * 
  * @function encryptSensitiveFields
- * @param {any} data - Object containing potentially sensitive data
- * @returns {any} Object with sensitive fields encrypted
+ * @param {T} data - Insert or update values
+ * @param {SensitiveTable} [table='employees'] - Table the values are written to
+ * @returns {T} Copy with registry columns encrypted and their blind indexes set
  * 
  * @description
- * Automatically encrypts predefined sensitive fields in an object.
- * This function is used as middleware to encrypt data before storing
- * it in the database. Currently encrypts:
- * - ssn: Social Security Numbers
- * - caqhPassword: CAQH provider passwords
- * - nppesPassword: NPPES registry passwords
- * 
- * Only encrypts fields that have non-empty values. Empty or null
- * fields are left unchanged. Creates a shallow copy of the input
- * object to avoid modifying the original.
+ * Encrypts the columns declared in the table's sensitive column registry
+ * (shared/schema.ts) before they are stored. The storage layer calls this on
+ * every write, so routes do not need to. For employees these are:
+ * - ssn, dateOfBirth, driversLicenseNumber, deaNumber
+ * - medicaidNumber, medicarePtanNumber
+ * - caqhPassword, nppesPassword
+ * 
+ * Safe to apply more than once:
+ * - Values that are already encrypted are kept as they are
+ * - Mask placeholders sent back from a form ("***-**-6789", "***") are dropped,
+ *   so the stored value is kept
+ * - Blank values clear the blind index along with the value
+ * - Dates are stored as YYYY-MM-DD
+ * 
+ * Creates a shallow copy of the input object to avoid modifying the original.
  * 
  * @example
- * const employeeData = {
- *   firstName: "John",
- *   lastName: "Doe",
- *   ssn: "123-45-6789",
- *   caqhPassword: "secretPassword"
- * };
- * const encrypted = encryptSensitiveFields(employeeData);
+ * const encrypted = encryptSensitiveFields({ firstName: "John", ssn: "123-45-6789" });
  * // Returns: {
  * //   firstName: "John",
- * //   lastName: "Doe", 
- * //   ssn: "a1b2c3d4....:e5f6g7h8....:9i0j1k2l....",
- * //   caqhPassword: "x9y8z7w6....:m5n4o3p2....:q1r0s9t8...."
+ * //   ssn: "v2:default:Qk1x....",
+ * //   ssnHash: "9f86d081884c7d65..."
  * // }
  */
-export function encryptSensitiveFields(data: any): any {
+export function encryptSensitiveFields<T>(data: T, table: SensitiveTable = 'employees'): T {
   if (!data) return data;
   
-  const sensitiveFields = ['ssn', 'caqhPassword', 'nppesPassword'];
-  const result = { ...data };
+  const result: Record<string, any> = { ...data };
   
-  sensitiveFields.forEach(field => {
-    if (result[field]) {
-      result[field] = encrypt(result[field]);
+  for (const [column, settings] of sensitiveColumns(table)) {
+    let value = result[column];
+    if (value === undefined) continue;
+    if (value instanceof Date) {
+      value = value.toISOString().split('T')[0];
+    }
+    if (value === null || value === '') {
+      if (settings.blindIndex) result[settings.blindIndex] = null;
+      continue;
     }
-  });
+    if (settings.mask && MASK_PLACEHOLDERS[settings.mask].test(value)) {
+      delete result[column];
+      continue;
+    }
+
+    const plain = plainValue(String(value));
+    result[column] = encryptionService.isEncrypted(value) ? value : encrypt(String(value));
+    if (settings.blindIndex && plain !== null) {
+      result[settings.blindIndex] = blindIndex(table, column, plain);
+    }
+  }
   
-  return result;
+  return result as T;
+}
+
+/**
+ * Decrypt the columns that are returned decrypted when read
+ * 
+ * @function decryptReadableFields
+ * @param {T} row - Row as stored
+ * @param {SensitiveTable} [table='employees'] - Table the row belongs to
+ * @returns {T} Copy with unmasked registry columns decrypted
+ * 
+ * @description
+ * Used by the storage layer on every read. Masked columns (SSN, credential
+ * passwords) stay encrypted; use decryptSensitiveFields where a feature needs
+ * them. Values that cannot be decrypted are returned as stored.
+ */
+export function decryptReadableFields<T>(row: T, table: SensitiveTable = 'employees'): T {
+  if (!row) return row;
+  
+  const result: Record<string, any> = { ...row };
+  
+  for (const [column, settings] of sensitiveColumns(table)) {
+    if (!settings.mask && typeof result[column] === 'string') {
+      result[column] = decrypt(result[column]);
+    }
+  }
+  
+  return result as T;
 }
 
 /**
@@ -209,15 +259,13 @@ export function encryptSensitiveFields(data: any): any {
  * 
  * @function decryptSensitiveFields
  * @param {any} data - Object containing encrypted sensitive data
+ * @param {SensitiveTable} [table='employees'] - Table the object belongs to
  * @returns {any} Object with sensitive fields decrypted
  * 
  * @description
- * Automatically decrypts predefined sensitive fields in an object.
- * This function is used to decrypt data retrieved from the database
- * before processing or returning to authorized users. Decrypts:
- * - ssn: Social Security Numbers
- * - caqhPassword: CAQH provider passwords
- * - nppesPassword: NPPES registry passwords
+ * Decrypts every registry column, masked ones included, and leaves out the
+ * blind indexes. Used where the person the record belongs to reads it
+ * (self-service profile, onboarding).
  * 
  * Only processes fields that have non-empty values. Empty or null
  * fields are left unchanged. Creates a shallow copy of the input
@@ -230,8 +278,8 @@ export function encryptSensitiveFields(data: any): any {
  * const encryptedData = {
  *   firstName: "John",
  *   lastName: "Doe",
- *   ssn: "a1b2c3d4....:e5f6g7h8....:9i0j1k2l....",
- *   caqhPassword: "x9y8z7w6....:m5n4o3p2....:q1r0s9t8...."
+ *   ssn: "v2:default:Qk1x....",
+ *   caqhPassword: "v2:default:Zp0r...."
  * };
  * const decrypted = decryptSensitiveFields(encryptedData);
  * // Returns: {
@@ -241,17 +289,84 @@ export function encryptSensitiveFields(data: any): any {
  * //   caqhPassword: "secretPassword"
  * // }
  */
-export function decryptSensitiveFields(data: any): any {
+export function decryptSensitiveFields(data: any, table: SensitiveTable = 'employees'): any {
   if (!data) return data;
   
-  const sensitiveFields = ['ssn', 'caqhPassword', 'nppesPassword'];
   const result = { ...data };
   
-  sensitiveFields.forEach(field => {
-    if (result[field]) {
-      result[field] = decrypt(result[field]);
+  for (const [column, settings] of sensitiveColumns(table)) {
+    if (settings.blindIndex) delete result[settings.blindIndex];
+    if (result[column]) {
+      result[column] = decrypt(result[column]);
     }
-  });
+  }
+  
+  return result;
+}
+
+/**
+ * Apply the registry masks to a record sent to an API caller
+ * 
+ * @function maskSensitiveFields
+ * @param {T} data - Record as read from storage
+ * @param {SensitiveTable} table - Table the record belongs to
+ * @param {{ readSsn: boolean }} [access] - Whether the caller holds read:ssn
+ * @returns {T} Copy with masked columns replaced and blind indexes removed
+ * 
+ * @example
+ * maskSensitiveFields(employee, 'employees', { readSsn: true });
+ * // ssn: "***-**-6789", caqhPassword: "***", no ssnHash
+ */
+export function maskSensitiveFields<T>(data: T, table: SensitiveTable, access: { readSsn: boolean } = { readSsn: false }): T {
+  if (!data) return data;
+  
+  const result: Record<string, any> = { ...data };
+  
+  for (const [column, settings] of sensitiveColumns(table)) {
+    if (settings.blindIndex) delete result[settings.blindIndex];
+
+    const value = result[column];
+    if (value === undefined) continue;
+    if (settings.mask === 'ssn') {
+      result[column] = access.readSsn && value ? maskSSN(value) : '';
+    } else if (settings.mask === 'secret') {
+      result[column] = value ? '***' : '';
+    } else if (typeof value === 'string') {
+      result[column] = decrypt(value);
+    }
+  }
+  
+  return result as T;
+}
+
+/**
+ * Replace sensitive values in an audit snapshot with keyed hashes
+ * 
+ * @function redactSensitiveFields
+ * @param {any} data - oldData or newData of an audit row
+ * @param {string} table - Audited table
+ * @returns {any} Copy without plain or encrypted sensitive values
+ * 
+ * @description
+ * Audit rows are kept for years and hash-chained, so they must not hold
+ * values that are readable (or re-encryptable) later. Each registry column is
+ * replaced with its keyed hash: the audit viewer still shows whether the value
+ * changed, but not what it was. Tables without registry entries are returned
+ * unchanged.
+ */
+export function redactSensitiveFields(data: any, table: string): any {
+  if (!data || typeof data !== 'object' || !(table in SENSITIVE_COLUMNS)) return data;
+  
+  const result = { ...data };
+  
+  for (const [column, settings] of sensitiveColumns(table as SensitiveTable)) {
+    if (settings.blindIndex) delete result[settings.blindIndex];
+
+    const value = result[column];
+    if (typeof value === 'string' && value) {
+      result[column] = `hmac:${blindIndex(table as SensitiveTable, column, plainValue(value) ?? value)}`;
+    }
+  }
   
   return result;
 }
@@ -0,0 +1,76 @@
+/**
+ * @fileoverview Request Logging Middleware
+ *
+ * Gives every request an ID and writes one log entry per API request when
+ * the response is sent: method, path, status and duration. Response bodies
+ * are not logged, since they hold employee records, and token path segments
+ * (invitation links) are masked.
+ *
+ * The ID is taken from an incoming X-Request-Id header when it is a plain
+ * token (so IDs from a load balancer carry through), generated otherwise,
+ * and returned in the X-Request-Id response header. Every entry logged while
+ * the request is handled carries it.
+ *
+ * @module requestLogger
+ * @requires crypto
+ * @requires ../utils/logger
+ */
+
+import { randomUUID } from "crypto";
+import type { Request, Response, NextFunction } from "express";
+import { logger, requestContext } from "../utils/logger";
+
+/**
+ * Incoming request IDs that are accepted as they are
+ */
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+/**
+ * Path segments long enough to be tokens rather than IDs or names
+ */
+const TOKEN_SEGMENT_PATTERN = /\/[A-Za-z0-9_-]{32,}(?=\/|$)/g;
+
+/**
+ * Assign a request ID and log the API request once it completes
+ *
+ * @function requestLogger
+ * @param {Request} req - Express request
+ * @param {Response} res - Express response
+ * @param {NextFunction} next - Next middleware
+ *
+ * @example
+ * app.use(requestLogger);
+ * // {"level":"info","msg":"GET /api/employees 200 in 12ms","requestId":"…","method":"GET","path":"/api/employees","status":200,"durationMs":12}
+ */
+export function requestLogger(req: Request, res: Response, next: NextFunction): void {
+  const incoming = req.get('x-request-id');
+  const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+  const start = Date.now();
+  const path = req.path.replace(TOKEN_SEGMENT_PATTERN, '/[REDACTED]');
+
+  res.setHeader('X-Request-Id', requestId);
+
+  res.on('finish', () => {
+    if (!path.startsWith('/api')) {
+      return;
+    }
+
+    const durationMs = Date.now() - start;
+    const fields = {
+      requestId,
+      userId: (req.user as { id?: number } | undefined)?.id,
+      method: req.method,
+      path,
+      status: res.statusCode,
+      durationMs
+    };
+    const message = `${req.method} ${path} ${res.statusCode} in ${durationMs}ms`;
+    if (res.statusCode >= 500) {
+      logger.error(message, fields);
+    } else {
+      logger.info(message, fields);
+    }
+  });
+
+  requestContext.run({ requestId, getUserId: () => (req.user as { id?: number } | undefined)?.id }, next);
+}
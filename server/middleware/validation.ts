@@ -27,7 +27,8 @@ import { Request, Response, NextFunction } from "express";
  * - lastName: Required, non-empty string
  * - workEmail: Required, valid email format
  * - dateOfBirth: Optional, valid date (YYYY-MM-DD)
- * - ssn: Optional, valid SSN format (XXX-XX-XXXX or XXXXXXXXX)
+ * - ssn: Optional, valid SSN format (XXX-XX-XXXX or XXXXXXXXX), or the masked
+ *   value from a response ("***-**-XXXX"), which keeps the stored SSN
  * 
  * @example
  * app.post('/api/employees', validateEmployee(), handleValidationErrors, ...)
@@ -37,7 +38,7 @@ export const validateEmployee = (): ValidationChain[] => [
   body('lastName').notEmpty().withMessage('Last name is required'),
   body('workEmail').isEmail().withMessage('Valid work email is required'),
   body('dateOfBirth').optional().isDate().withMessage('Valid date of birth required'),
-  body('ssn').optional().matches(/^\d{3}-?\d{2}-?\d{4}$/).withMessage('Valid SSN format required')
+  body('ssn').optional().matches(/^(\d{3}-?\d{2}-?\d{4}|\*{3}-\*{2}-\d{4})$/).withMessage('Valid SSN format required')
 ];
 
 /**
@@ -100,6 +101,27 @@ export const validatePagination = (): ValidationChain[] => [
   query('search').optional().isLength({ max: 255 }).withMessage('Search term too long')
 ];
 
+/**
+ * Validation rules for audit log search filters
+ * 
+ * @function validateAuditSearch
+ * @returns {ValidationChain[]} Array of validation rules
+ * 
+ * @description
+ * - recordId / userId: positive integers
+ * - user: username fragment, max 255 characters
+ * - field: a field name (letters, digits, underscores)
+ * - startDate / endDate: ISO 8601 dates
+ */
+export const validateAuditSearch = (): ValidationChain[] => [
+  query('recordId').optional().isInt({ min: 1 }).withMessage('Record ID must be a positive integer'),
+  query('userId').optional().isInt({ min: 1 }).withMessage('User ID must be a positive integer'),
+  query('user').optional().isLength({ max: 255 }).withMessage('User search too long'),
+  query('field').optional().matches(/^[A-Za-z_][A-Za-z0-9_]{0,63}$/).withMessage('Field must be a field name'),
+  query('startDate').optional().isISO8601().withMessage('Start date must be a valid date'),
+  query('endDate').optional().isISO8601().withMessage('End date must be a valid date')
+];
+
 export const validateId = (): ValidationChain[] => [
   param('id').isInt({ min: 1 }).withMessage('ID must be a positive integer')
 ];
@@ -213,7 +235,7 @@ export const validateIncidentLog = (): ValidationChain[] => [
  * @description Validates user management operations including:
  * - username: Required, 3-50 characters, alphanumeric + underscore/dot
  * - email: Optional but if provided must be valid email format
- * - role: Must be one of admin, hr, viewer
+ * - role: Built-in role or custom role key (existence is checked in the route)
  * - status: Must be one of active, suspended, locked, disabled
  */
 export const validateUser = (): ValidationChain[] => [
@@ -229,8 +251,8 @@ export const validateUser = (): ValidationChain[] => [
     .withMessage('Valid email is required'),
   body('role')
     .optional()
-    .isIn(['admin', 'hr', 'prospective_employee', 'employee'])
-    .withMessage('Role must be admin, hr, prospective_employee, or employee'),
+    .matches(/^[a-z][a-z0-9_]{1,49}$/)
+    .withMessage('Role must be a built-in role or a custom role key'),
   body('status')
     .optional()
     .isIn(['active', 'suspended', 'locked', 'disabled'])
@@ -254,16 +276,18 @@ export const validateUserStatus = (): ValidationChain[] => [
  * 
  * @function validatePasswordChange
  * @returns {ValidationChain[]} Array of validation rules
+ * 
+ * @description Strength rules come from the admin-configured password policy
+ * and are checked in the route handler (see passwordPolicyService).
  */
 export const validatePasswordChange = (): ValidationChain[] => [
   body('currentPassword')
     .notEmpty()
     .withMessage('Current password is required'),
   body('newPassword')
-    .isLength({ min: 8 })
-    .withMessage('New password must be at least 8 characters')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
-    .withMessage('New password must contain uppercase, lowercase, number, and special character'),
+    .isString()
+    .notEmpty()
+    .withMessage('New password is required'),
   body('confirmPassword')
     .custom((value, { req }) => {
       if (value !== req.body.newPassword) {
@@ -290,6 +314,8 @@ export const validatePasswordReset = (): ValidationChain[] => [
  * 
  * @function validatePasswordResetConfirm
  * @returns {ValidationChain[]} Array of validation rules
+ * 
+ * @description Strength rules are checked against the password policy in the route handler.
  */
 export const validatePasswordResetConfirm = (): ValidationChain[] => [
   body('token')
@@ -298,10 +324,9 @@ export const validatePasswordResetConfirm = (): ValidationChain[] => [
     .isLength({ min: 32 })
     .withMessage('Invalid token format'),
   body('newPassword')
-    .isLength({ min: 8 })
-    .withMessage('New password must be at least 8 characters')
-    .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)(?=.*[@$!%*?&])[A-Za-z\d@$!%*?&]/)
-    .withMessage('New password must contain uppercase, lowercase, number, and special character'),
+    .isString()
+    .notEmpty()
+    .withMessage('New password is required'),
   body('confirmPassword')
     .custom((value, { req }) => {
       if (value !== req.body.newPassword) {
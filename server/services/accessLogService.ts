@@ -0,0 +1,183 @@
+/**
+ * @fileoverview PHI Access Logging Service
+ *
+ * The audit middleware records changes; this service records reads of
+ * protected health information so reviews can answer "who looked at this
+ * employee's record". An ACCESS row is written to the audit trail whenever
+ * a response serves sensitive employee fields (SSN, date of birth, license and
+ * payer numbers, CAQH and NPPES credentials) or a document is downloaded or
+ * handed out as a download URL.
+ *
+ * Events are written once the response has been sent successfully, so
+ * requests that fail or are rejected do not count as access. Logging never
+ * fails the request it describes.
+ *
+ * @module accessLogService
+ */
+
+import type { Request, Response } from 'express';
+import { storage } from '../storage';
+import type { ApiKeyRequest } from '../middleware/apiKeyAuth';
+import type { AccessEvent } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'access-log' });
+
+/**
+ * Employee fields whose reads are logged
+ */
+export const SENSITIVE_EMPLOYEE_FIELDS = [
+  'ssn',
+  'dateOfBirth',
+  'driversLicenseNumber',
+  'deaNumber',
+  'medicaidNumber',
+  'medicarePtanNumber',
+  'caqhProviderId',
+  'caqhLoginId',
+  'caqhPassword',
+  'nppesLoginId',
+  'nppesPassword'
+] as const;
+
+/**
+ * Audit action of read-access rows
+ */
+export const ACCESS_ACTION = 'ACCESS';
+
+/**
+ * Employee document, compliance document or form submission being downloaded
+ */
+export interface DownloadedFile {
+  id: number;
+  employeeId?: number | null;
+  documentType?: string | null;
+  fileName?: string | null;
+}
+
+/**
+ * Sensitive fields actually present in a response body
+ *
+ * @param {Record<string, unknown>} record - Employee as sent to the client
+ * @returns {string[]} Fields with a value; blank and masked ('***') values are not access
+ */
+export function sensitiveFieldsServed(record: Record<string, unknown>): string[] {
+  return SENSITIVE_EMPLOYEE_FIELDS.filter(field => {
+    const value = record[field];
+    return value !== null && value !== undefined && value !== '' && value !== '***';
+  });
+}
+
+/**
+ * Access Log Service Class
+ *
+ * @class AccessLogService
+ * @description Writes read-access events and builds the per-employee access report.
+ */
+class AccessLogService {
+  /**
+   * Log the sensitive fields of an employee record once the response is sent
+   *
+   * @param {Request} req - Request serving the record
+   * @param {Response} res - Response carrying the record
+   * @param {number} employeeId - Employee ID
+   * @param {Record<string, unknown>} record - Employee as sent to the client
+   */
+  trackEmployeeAccess(req: Request, res: Response, employeeId: number, record: Record<string, unknown>): void {
+    const fields = sensitiveFieldsServed(record);
+    if (fields.length === 0) {
+      return;
+    }
+
+    this.onSuccess(res, () => this.log(req, 'employees', employeeId, { event: 'phi_access', fields }));
+  }
+
+  /**
+   * Log a document download once the file or its download URL has been sent
+   *
+   * @param {Request} req - Download request
+   * @param {Response} res - Response streaming the file or carrying its URL
+   * @param {DownloadedFile} document - Downloaded document
+   * @param {string} [tableName='documents'] - Table the document belongs to
+   */
+  trackDocumentDownload(req: Request, res: Response, document: DownloadedFile, tableName = 'documents'): void {
+    this.onSuccess(res, () => this.log(req, tableName, document.id, {
+      event: 'document_download',
+      employeeId: document.employeeId ?? null,
+      documentType: document.documentType,
+      fileName: document.fileName
+    }));
+  }
+
+  /**
+   * Get the access report of an employee
+   *
+   * @param {number} employeeId - Employee ID
+   * @param {object} [options] - Pagination
+   * @param {number} [options.page=1] - Page number
+   * @param {number} [options.limit=25] - Events per page
+   * @returns {Promise<{events: AccessEvent[]; total: number; page: number; totalPages: number}>} Events, newest first
+   */
+  async getEmployeeAccessLog(
+    employeeId: number,
+    options: { page?: number; limit?: number } = {}
+  ): Promise<{ events: AccessEvent[]; total: number; page: number; totalPages: number }> {
+    const page = options.page || 1;
+    const limit = options.limit || 25;
+    const { events, total } = await storage.getAccessEvents(employeeId, { limit, offset: (page - 1) * limit });
+
+    return { events, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Run a callback after a successful response has been sent
+   * @param {Response} res - Response
+   * @param {Function} callback - Logging callback
+   */
+  private onSuccess(res: Response, callback: () => Promise<void>): void {
+    res.once('finish', () => {
+      if (res.statusCode < 400) {
+        void callback();
+      }
+    });
+  }
+
+  /**
+   * Write an ACCESS row to the audit trail
+   * @param {Request} req - Request that read the data
+   * @param {string} tableName - Table of the record read
+   * @param {number} recordId - Record read
+   * @param {Record<string, unknown>} details - Event details
+   */
+  private async log(req: Request, tableName: string, recordId: number, details: Record<string, unknown>): Promise<void> {
+    const apiKeyRequest = req as ApiKeyRequest;
+    const route = typeof req.route?.path === 'string' ? `${req.baseUrl}${req.route.path}` : req.path;
+
+    try {
+      await storage.createAudit({
+        tableName,
+        recordId,
+        action: ACCESS_ACTION,
+        changedBy: apiKeyRequest.user?.id ?? null,
+        impersonatedBy: apiKeyRequest.impersonator?.id ?? null,
+        oldData: null,
+        newData: {
+          ...details,
+          method: req.method,
+          route,
+          ip: req.ip ?? null,
+          userAgent: req.get('user-agent') ?? null,
+          apiKeyId: apiKeyRequest.apiKey?.id ?? null
+        }
+      });
+    } catch (error) {
+      log.error('Failed to log access event', error);
+    }
+  }
+}
+
+/**
+ * Singleton instance of AccessLogService
+ * @type {AccessLogService}
+ */
+export const accessLogService = new AccessLogService();
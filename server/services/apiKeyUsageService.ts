@@ -0,0 +1,154 @@
+/**
+ * @fileoverview API Key Usage Analytics Service
+ *
+ * Counts every request made with an API key in hourly buckets per route
+ * (api_key_usage table) and summarizes them for the usage view in
+ * Settings > API Keys: request volume per day, endpoints hit, error rates
+ * and blocked attempts.
+ *
+ * Blocked attempts are requests rejected after the key was identified:
+ * wrong secret, revoked or expired key, IP address outside the key's
+ * allowlist, invalid request signature or rate limit exceeded.
+ *
+ * @module apiKeyUsageService
+ */
+
+import type { Request, Response } from 'express';
+import { storage } from '../storage';
+import type { ApiKeyUsageSummary } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'api-key-usage' });
+
+/**
+ * Default number of days shown in the usage view
+ */
+export const API_KEY_USAGE_DAYS = 30;
+
+/**
+ * Start of the UTC hour containing a date
+ * @param {Date} date - Any time
+ * @returns {Date} Hour bucket
+ */
+export function usageBucket(date: Date): Date {
+  const bucket = new Date(date);
+  bucket.setUTCMinutes(0, 0, 0);
+  return bucket;
+}
+
+/**
+ * API Key Usage Service Class
+ *
+ * @class ApiKeyUsageService
+ * @description Records requests per key and builds usage summaries.
+ */
+class ApiKeyUsageService {
+  /**
+   * Count a request once its response has been sent
+   *
+   * Call as soon as the key is identified, so requests rejected afterwards
+   * are counted too; mark those with markBlocked().
+   *
+   * @param {Request} req - Request made with the key
+   * @param {Response} res - Response to the request
+   * @param {number} apiKeyId - API key ID
+   */
+  track(req: Request, res: Response, apiKeyId: number): void {
+    res.on('finish', () => {
+      const route = typeof req.route?.path === 'string' ? `${req.baseUrl}${req.route.path}` : req.path;
+      const blocked = res.locals.apiKeyBlocked === true;
+
+      storage.recordApiKeyUsage({
+        apiKeyId,
+        bucket: usageBucket(new Date()),
+        method: req.method,
+        route: route.substring(0, 255),
+        error: res.statusCode >= 400,
+        blocked,
+        ip: blocked ? req.ip ?? null : null
+      }).catch(error => {
+        // Usage counters must never affect the request itself
+        log.error('Failed to record API key usage', error);
+      });
+    });
+  }
+
+  /**
+   * Mark the current request as blocked by an API key check
+   * @param {Response} res - Response about to be rejected
+   */
+  markBlocked(res: Response): void {
+    res.locals.apiKeyBlocked = true;
+  }
+
+  /**
+   * Summarize a key's usage over the last days
+   * @param {number} apiKeyId - API key ID
+   * @param {number} [days=30] - Days to include, ending today (UTC)
+   * @returns {Promise<ApiKeyUsageSummary>} Totals, daily series and endpoints
+   */
+  async getSummary(apiKeyId: number, days: number = API_KEY_USAGE_DAYS): Promise<ApiKeyUsageSummary> {
+    const start = new Date();
+    start.setUTCHours(0, 0, 0, 0);
+    start.setUTCDate(start.getUTCDate() - (days - 1));
+
+    const rows = await storage.getApiKeyUsage(apiKeyId, start);
+
+    // Every day in the range, so charts show gaps as zero
+    const daily = new Map<string, ApiKeyUsageSummary['daily'][number]>();
+    for (let i = 0; i < days; i++) {
+      const date = new Date(start);
+      date.setUTCDate(start.getUTCDate() + i);
+      const key = date.toISOString().slice(0, 10);
+      daily.set(key, { date: key, requests: 0, errors: 0, blocked: 0 });
+    }
+
+    const endpoints = new Map<string, ApiKeyUsageSummary['endpoints'][number]>();
+    const totals = { requests: 0, errors: 0, blocked: 0, errorRate: 0 };
+    let lastBlocked: { at: Date; ip: string } | null = null;
+
+    for (const row of rows) {
+      const day = daily.get(new Date(row.bucket).toISOString().slice(0, 10));
+      if (day) {
+        day.requests += row.requestCount;
+        day.errors += row.errorCount;
+        day.blocked += row.blockedCount;
+      }
+
+      const endpointKey = `${row.method} ${row.route}`;
+      const endpoint = endpoints.get(endpointKey)
+        ?? { method: row.method, route: row.route, requests: 0, errors: 0, blocked: 0, errorRate: 0 };
+      endpoint.requests += row.requestCount;
+      endpoint.errors += row.errorCount;
+      endpoint.blocked += row.blockedCount;
+      endpoints.set(endpointKey, endpoint);
+
+      totals.requests += row.requestCount;
+      totals.errors += row.errorCount;
+      totals.blocked += row.blockedCount;
+
+      if (row.lastBlockedIp && (!lastBlocked || row.updatedAt > lastBlocked.at)) {
+        lastBlocked = { at: row.updatedAt, ip: row.lastBlockedIp };
+      }
+    }
+
+    const rate = (errors: number, requests: number) => requests > 0 ? Math.round((errors / requests) * 1000) / 10 : 0;
+    totals.errorRate = rate(totals.errors, totals.requests);
+
+    return {
+      days,
+      totals,
+      daily: Array.from(daily.values()),
+      endpoints: Array.from(endpoints.values())
+        .map(endpoint => ({ ...endpoint, errorRate: rate(endpoint.errors, endpoint.requests) }))
+        .sort((a, b) => b.requests - a.requests),
+      lastBlockedIp: lastBlocked?.ip ?? null
+    };
+  }
+}
+
+/**
+ * Singleton instance of ApiKeyUsageService
+ * @type {ApiKeyUsageService}
+ */
+export const apiKeyUsageService = new ApiKeyUsageService();
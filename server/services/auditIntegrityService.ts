@@ -0,0 +1,364 @@
+/**
+ * @fileoverview Audit Log Integrity Service
+ *
+ * Proves that the audit trail has not been edited after the fact:
+ *
+ * - Verification walks the audit hash chain (see utils/auditHash) and reports
+ *   every row whose hash no longer matches its content or whose link to the
+ *   previous row is broken, which is what editing, deleting or inserting rows
+ *   directly in the database leaves behind.
+ * - Daily checkpoints record the end of the chain at midnight UTC, signed with
+ *   an Ed25519 key. Someone able to rewrite the table could recompute every
+ *   hash, but not the signatures of checkpoints already exported, so exported
+ *   checkpoints pin history up to each day.
+ *
+ * Rows pruned by a retention policy leave gaps in the chain. A gap is
+ * accepted when every missing ID lies inside an archived range (see
+ * auditRetentionService); any other gap is reported as a break.
+ *
+ * The signing key comes from AUDIT_CHECKPOINT_PRIVATE_KEY (PKCS#8 PEM). When it
+ * is not set, a key is derived from ENCRYPTION_KEY so checkpoints are still
+ * signed consistently across restarts and instances.
+ *
+ * @module auditIntegrityService
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import { canonicalJson, computeAuditHash, isArchivedGap, AUDIT_CHAIN_GENESIS_HASH } from '../utils/auditHash';
+import type { AuditCheckpoint, AuditChainVerification } from '@shared/schema';
+
+/**
+ * Rows read per query while verifying the chain
+ */
+const VERIFY_BATCH_SIZE = 1000;
+
+/**
+ * Maximum breaks listed in a verification result
+ */
+const MAX_REPORTED_BREAKS = 100;
+
+/**
+ * DER prefix of a PKCS#8 Ed25519 private key, followed by the 32-byte seed
+ */
+const ED25519_PKCS8_PREFIX = Buffer.from('302e020100300506032b657004220420', 'hex');
+
+/**
+ * Checkpoint contents covered by the signature
+ */
+export interface AuditCheckpointPayload {
+  date: string;
+  lastAuditId: number | null;
+  lastHash: string;
+  auditCount: number;
+}
+
+/**
+ * Signed checkpoint as exported for safekeeping outside the system
+ */
+export interface AuditCheckpointExport {
+  version: 1;
+  algorithm: 'Ed25519';
+  checkpoint: AuditCheckpointPayload;
+  /** Base64 signature over the canonical JSON of `checkpoint` */
+  signature: string;
+  /** SPKI PEM public key to verify the signature with */
+  publicKey: string;
+  createdAt: string;
+}
+
+/**
+ * Custom error class for audit integrity operations
+ */
+export class AuditIntegrityError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AuditIntegrityError';
+  }
+}
+
+/**
+ * Format a date as YYYY-MM-DD (UTC)
+ * @param {Date} date - Any time on the day
+ * @returns {string} Day
+ */
+function formatDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Audit Integrity Service Class
+ *
+ * @class AuditIntegrityService
+ * @description Verifies the audit hash chain and makes signed daily checkpoints.
+ */
+class AuditIntegrityService {
+  private keys: { privateKey: crypto.KeyObject; publicKey: crypto.KeyObject } | null = null;
+
+  /**
+   * Load the checkpoint signing key pair
+   * @returns {{ privateKey: crypto.KeyObject; publicKey: crypto.KeyObject }} Ed25519 key pair
+   */
+  private getKeys(): { privateKey: crypto.KeyObject; publicKey: crypto.KeyObject } {
+    if (!this.keys) {
+      const configured = process.env.AUDIT_CHECKPOINT_PRIVATE_KEY;
+      let privateKey: crypto.KeyObject;
+
+      if (configured) {
+        privateKey = crypto.createPrivateKey(configured.replace(/\\n/g, '\n'));
+      } else {
+        const secret = process.env.ENCRYPTION_KEY || 'default-encryption-key-change-this-in-production';
+        const seed = crypto.createHash('sha256').update(`audit-checkpoint:${secret}`).digest();
+        privateKey = crypto.createPrivateKey({
+          key: Buffer.concat([ED25519_PKCS8_PREFIX, seed]),
+          format: 'der',
+          type: 'pkcs8'
+        });
+      }
+
+      this.keys = { privateKey, publicKey: crypto.createPublicKey(privateKey) };
+    }
+    return this.keys;
+  }
+
+  /**
+   * Public key that verifies checkpoint signatures
+   * @returns {string} SPKI PEM
+   */
+  getPublicKey(): string {
+    return this.getKeys().publicKey.export({ type: 'spki', format: 'pem' }).toString();
+  }
+
+  /**
+   * Sign checkpoint contents
+   * @param {AuditCheckpointPayload} payload - Checkpoint contents
+   * @returns {string} Base64 signature
+   */
+  sign(payload: AuditCheckpointPayload): string {
+    return crypto.sign(null, Buffer.from(canonicalJson(payload)), this.getKeys().privateKey).toString('base64');
+  }
+
+  /**
+   * Check a checkpoint signature
+   * @param {AuditCheckpointPayload} payload - Checkpoint contents
+   * @param {string} signature - Base64 signature
+   * @returns {boolean} True when the signature matches
+   */
+  verifySignature(payload: AuditCheckpointPayload, signature: string): boolean {
+    try {
+      return crypto.verify(null, Buffer.from(canonicalJson(payload)), this.getKeys().publicKey, Buffer.from(signature, 'base64'));
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Walk the whole audit chain and all checkpoints
+   *
+   * @returns {Promise<AuditChainVerification>} Breaks found, if any
+   *
+   * @description
+   * Rows written before chaining was enabled carry no hash and are counted as
+   * legacy rows as long as they come before the first chained row. A row
+   * without a hash after that point is reported as a break. A row whose link
+   * points past archived rows is counted as an archived gap instead.
+   */
+  async verifyChain(): Promise<AuditChainVerification> {
+    const breaks: AuditChainVerification['breaks'] = [];
+    const addBreak = (entry: AuditChainVerification['breaks'][number]) => {
+      if (breaks.length < MAX_REPORTED_BREAKS) {
+        breaks.push(entry);
+      }
+    };
+
+    let checked = 0;
+    let legacyRows = 0;
+    let firstChainedId: number | null = null;
+    let lastChainedId: number | null = null;
+    let brokenRows = 0;
+    let archivedGaps = 0;
+    let expectedPreviousHash = AUDIT_CHAIN_GENESIS_HASH;
+    let afterId = 0;
+    const archivedRanges = await storage.getAuditArchiveRanges();
+
+    for (;;) {
+      const batch = await storage.getAuditChainBatch(afterId, VERIFY_BATCH_SIZE);
+      if (batch.length === 0) {
+        break;
+      }
+
+      for (const audit of batch) {
+        const previousId = afterId;
+        afterId = audit.id;
+
+        if (!audit.hash) {
+          if (firstChainedId === null) {
+            legacyRows++;
+          } else {
+            brokenRows++;
+            addBreak({ auditId: audit.id, reason: 'missing_hash' });
+          }
+          continue;
+        }
+
+        firstChainedId ??= audit.id;
+        lastChainedId = audit.id;
+        checked++;
+
+        let linked = audit.previousHash === expectedPreviousHash;
+        if (!linked && audit.id > previousId + 1 && isArchivedGap(previousId + 1, audit.id - 1, archivedRanges)) {
+          archivedGaps++;
+          linked = true;
+        }
+
+        if (!linked) {
+          brokenRows++;
+          addBreak({ auditId: audit.id, reason: 'previous_hash_mismatch' });
+        } else if (computeAuditHash(audit, audit.previousHash ?? '') !== audit.hash) {
+          brokenRows++;
+          addBreak({ auditId: audit.id, reason: 'hash_mismatch' });
+        }
+
+        expectedPreviousHash = audit.hash;
+      }
+    }
+
+    const checkpoints = await this.verifyCheckpoints(archivedRanges);
+
+    return {
+      valid: brokenRows === 0 && checkpoints.failures.length === 0,
+      verifiedAt: new Date().toISOString(),
+      checked,
+      legacyRows,
+      archivedGaps,
+      firstChainedId,
+      lastChainedId,
+      breaks,
+      checkpoints
+    };
+  }
+
+  /**
+   * Check every stored checkpoint against its signature and the current chain
+   * @param {Array<{ firstAuditId: number; lastAuditId: number }>} archivedRanges - Archived audit ID
+   * ranges; checkpoints ending on an archived row are only checked for their signature
+   * @returns {Promise<AuditChainVerification['checkpoints']>} Checkpoints checked and failures
+   */
+  private async verifyCheckpoints(
+    archivedRanges: Array<{ firstAuditId: number; lastAuditId: number }>
+  ): Promise<AuditChainVerification['checkpoints']> {
+    const checkpoints = await storage.getAuditCheckpoints();
+    const failures: AuditChainVerification['checkpoints']['failures'] = [];
+
+    for (const checkpoint of checkpoints) {
+      if (!this.verifySignature(this.toPayload(checkpoint), checkpoint.signature)) {
+        failures.push({ date: checkpoint.checkpointDate, reason: 'invalid_signature' });
+        continue;
+      }
+      if (checkpoint.lastAuditId === null) {
+        continue;
+      }
+
+      const audit = await storage.getAudit(checkpoint.lastAuditId);
+      if (!audit) {
+        if (!isArchivedGap(checkpoint.lastAuditId, checkpoint.lastAuditId, archivedRanges)) {
+          failures.push({ date: checkpoint.checkpointDate, reason: 'audit_missing' });
+        }
+      } else if (audit.hash !== checkpoint.lastHash) {
+        failures.push({ date: checkpoint.checkpointDate, reason: 'hash_mismatch' });
+      }
+    }
+
+    return { checked: checkpoints.length, failures };
+  }
+
+  /**
+   * Make the signed checkpoint of a day
+   *
+   * @param {string} [date] - Day to checkpoint (YYYY-MM-DD, UTC); defaults to yesterday
+   * @returns {Promise<AuditCheckpoint>} New checkpoint, or the existing one for that day
+   * @throws {AuditIntegrityError} When the date is invalid or the day has not ended
+   */
+  async createCheckpoint(date?: string): Promise<AuditCheckpoint> {
+    const yesterday = new Date();
+    yesterday.setUTCDate(yesterday.getUTCDate() - 1);
+    const day = date ?? formatDay(yesterday);
+
+    const start = new Date(`${day}T00:00:00.000Z`);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(day) || isNaN(start.getTime()) || formatDay(start) !== day) {
+      throw new AuditIntegrityError('Date must be in YYYY-MM-DD format');
+    }
+    const end = new Date(start);
+    end.setUTCDate(end.getUTCDate() + 1);
+    if (end > new Date()) {
+      throw new AuditIntegrityError('Checkpoints can only be made for days that have ended');
+    }
+
+    const existing = await storage.getAuditCheckpoint(day);
+    if (existing) {
+      return existing;
+    }
+
+    const head = await storage.getAuditChainHead(end);
+    const payload: AuditCheckpointPayload = { date: day, ...head };
+
+    return storage.createAuditCheckpoint({
+      checkpointDate: day,
+      lastAuditId: head.lastAuditId,
+      lastHash: head.lastHash,
+      auditCount: head.auditCount,
+      signature: this.sign(payload)
+    });
+  }
+
+  /**
+   * List checkpoints, newest first
+   * @param {number} [limit=90] - Maximum checkpoints to return
+   * @returns {Promise<AuditCheckpoint[]>} Checkpoints
+   */
+  async listCheckpoints(limit: number = 90): Promise<AuditCheckpoint[]> {
+    return storage.getAuditCheckpoints(limit);
+  }
+
+  /**
+   * Build the export file of a checkpoint
+   * @param {string} date - Day (YYYY-MM-DD)
+   * @returns {Promise<AuditCheckpointExport>} Signed checkpoint with the public key
+   * @throws {AuditIntegrityError} 404 when there is no checkpoint for the day
+   */
+  async exportCheckpoint(date: string): Promise<AuditCheckpointExport> {
+    const checkpoint = await storage.getAuditCheckpoint(date);
+    if (!checkpoint) {
+      throw new AuditIntegrityError('Checkpoint not found', 404);
+    }
+
+    return {
+      version: 1,
+      algorithm: 'Ed25519',
+      checkpoint: this.toPayload(checkpoint),
+      signature: checkpoint.signature,
+      publicKey: this.getPublicKey(),
+      createdAt: new Date(checkpoint.createdAt).toISOString()
+    };
+  }
+
+  /**
+   * Signed contents of a stored checkpoint
+   * @param {AuditCheckpoint} checkpoint - Stored checkpoint
+   * @returns {AuditCheckpointPayload} Payload
+   */
+  private toPayload(checkpoint: AuditCheckpoint): AuditCheckpointPayload {
+    return {
+      date: checkpoint.checkpointDate,
+      lastAuditId: checkpoint.lastAuditId,
+      lastHash: checkpoint.lastHash,
+      auditCount: checkpoint.auditCount
+    };
+  }
+}
+
+/**
+ * Singleton instance of AuditIntegrityService
+ * @type {AuditIntegrityService}
+ */
+export const auditIntegrityService = new AuditIntegrityService();
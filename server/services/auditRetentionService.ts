@@ -0,0 +1,467 @@
+/**
+ * @fileoverview Audit Retention Service
+ *
+ * Keeps the audits table from growing without bound:
+ *
+ * - Retention policies say how long rows of a table and/or action stay in the
+ *   live table. The most specific matching policy decides for each row; rows
+ *   no policy matches are kept forever.
+ * - Expired rows are written to gzipped JSONL files in object storage (via
+ *   s3Service), read back and checksummed, and only then pruned, in the same
+ *   transaction that records the archive.
+ * - An archive can be restored into the read-only archived_audits table so
+ *   auditors can search old history with the usual audit filters, and
+ *   unloaded again when no longer needed.
+ *
+ * Pruning leaves gaps in the audit hash chain. Chain verification accepts a
+ * gap when the missing IDs fall inside archived ranges, and restoring an
+ * archive rechecks the hash of every row in it.
+ *
+ * @module auditRetentionService
+ */
+
+import crypto from 'crypto';
+import zlib from 'zlib';
+import { storage, type AuditRetentionScope } from '../storage';
+import { s3Service } from './s3Service';
+import { siemExportService } from './siemExportService';
+import { computeAuditHash } from '../utils/auditHash';
+import type {
+  Audit,
+  ArchivedAudit,
+  AuditArchive,
+  AuditRetentionPolicy,
+  InsertAuditRetentionPolicy
+} from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'audit-retention' });
+
+/**
+ * Audit rows per archive file
+ */
+const ARCHIVE_BATCH_SIZE = 5000;
+
+/**
+ * Archive files written per policy per run, so one run cannot take hours
+ */
+const MAX_ARCHIVES_PER_POLICY = 20;
+
+/**
+ * Rows expired by a policy
+ */
+export interface AuditRetentionPreview {
+  policyId: number;
+  tableName: string | null;
+  action: string | null;
+  retentionDays: number;
+  cutoff: string;
+  expiredRows: number;
+}
+
+/**
+ * Outcome of a retention run
+ */
+export interface AuditRetentionRunResult {
+  archives: AuditArchive[];
+  archivedRows: number;
+  /** Policies that failed; their rows stay in the live table */
+  errors: Array<{ policyId: number; error: string }>;
+}
+
+/**
+ * Custom error class for audit retention operations
+ */
+export class AuditRetentionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'AuditRetentionError';
+  }
+}
+
+/**
+ * How specific a policy is: table and action, then table, then action, then catch-all
+ * @param {Pick<AuditRetentionPolicy, 'tableName' | 'action'>} policy - Policy scope
+ * @returns {number} Higher is more specific
+ */
+function specificity(policy: Pick<AuditRetentionPolicy, 'tableName' | 'action'>): number {
+  return (policy.tableName ? 2 : 0) + (policy.action ? 1 : 0);
+}
+
+/**
+ * Audit Retention Service Class
+ *
+ * @class AuditRetentionService
+ * @description Manages retention policies, archives expired audit rows and restores archives.
+ */
+class AuditRetentionService {
+  private running = false;
+
+  /**
+   * List retention policies
+   * @returns {Promise<AuditRetentionPolicy[]>} Policies
+   */
+  async listPolicies(): Promise<AuditRetentionPolicy[]> {
+    return await storage.getAuditRetentionPolicies();
+  }
+
+  /**
+   * Get a retention policy
+   * @param {number} id - Policy ID
+   * @returns {Promise<AuditRetentionPolicy>} Policy
+   * @throws {AuditRetentionError} When the policy does not exist
+   */
+  async getPolicy(id: number): Promise<AuditRetentionPolicy> {
+    const policy = await storage.getAuditRetentionPolicy(id);
+    if (!policy) {
+      throw new AuditRetentionError('Retention policy not found', 404);
+    }
+    return policy;
+  }
+
+  /**
+   * Create a retention policy
+   * @param {InsertAuditRetentionPolicy} input - Scope, retention and description
+   * @param {number} createdBy - Admin creating the policy
+   * @returns {Promise<AuditRetentionPolicy>} Created policy
+   * @throws {AuditRetentionError} When a policy with the same scope exists
+   */
+  async createPolicy(input: InsertAuditRetentionPolicy, createdBy: number): Promise<AuditRetentionPolicy> {
+    const scope = { tableName: input.tableName || null, action: input.action || null };
+    await this.assertScopeAvailable(scope);
+
+    return await storage.createAuditRetentionPolicy({
+      ...scope,
+      retentionDays: input.retentionDays,
+      active: input.active ?? true,
+      description: input.description ?? null,
+      createdBy
+    });
+  }
+
+  /**
+   * Update a retention policy
+   * @param {number} id - Policy ID
+   * @param {Partial<InsertAuditRetentionPolicy>} input - Fields to change
+   * @returns {Promise<AuditRetentionPolicy>} Updated policy
+   * @throws {AuditRetentionError} When the policy is missing or the new scope is taken
+   */
+  async updatePolicy(id: number, input: Partial<InsertAuditRetentionPolicy>): Promise<AuditRetentionPolicy> {
+    const existing = await this.getPolicy(id);
+    const updates: Partial<InsertAuditRetentionPolicy> = { ...input };
+
+    if (input.tableName !== undefined || input.action !== undefined) {
+      updates.tableName = input.tableName !== undefined ? input.tableName || null : existing.tableName;
+      updates.action = input.action !== undefined ? input.action || null : existing.action;
+      await this.assertScopeAvailable({ tableName: updates.tableName, action: updates.action }, id);
+    }
+
+    return await storage.updateAuditRetentionPolicy(id, updates);
+  }
+
+  /**
+   * Delete a retention policy; rows it covered are kept from now on unless another policy matches
+   * @param {number} id - Policy ID
+   * @returns {Promise<AuditRetentionPolicy>} Deleted policy
+   * @throws {AuditRetentionError} When the policy does not exist
+   */
+  async deletePolicy(id: number): Promise<AuditRetentionPolicy> {
+    const policy = await this.getPolicy(id);
+    await storage.deleteAuditRetentionPolicy(id);
+    return policy;
+  }
+
+  /**
+   * Count the rows each active policy would archive now
+   * @returns {Promise<AuditRetentionPreview[]>} Expired rows per policy
+   */
+  async preview(): Promise<AuditRetentionPreview[]> {
+    const policies = await storage.getAuditRetentionPolicies();
+    const maxAuditId = await this.getMaxArchivableId();
+    const now = new Date();
+
+    return await Promise.all(policies.filter(policy => policy.active).map(async (policy) => {
+      const scope = this.toScope(policy, policies, now, maxAuditId);
+      return {
+        policyId: policy.id,
+        tableName: policy.tableName,
+        action: policy.action,
+        retentionDays: policy.retentionDays,
+        cutoff: scope.before.toISOString(),
+        expiredRows: await storage.countExpiredAudits(scope)
+      };
+    }));
+  }
+
+  /**
+   * Archive and prune every row past retention
+   *
+   * @returns {Promise<AuditRetentionRunResult>} Archives written and per-policy failures
+   *
+   * @description
+   * Policies run from most to least specific. A policy that fails (e.g. the
+   * upload cannot be verified) keeps its rows and the run moves on to the
+   * next one. Rows not yet delivered to the SIEM are never pruned.
+   */
+  async run(): Promise<AuditRetentionRunResult> {
+    if (this.running) {
+      throw new AuditRetentionError('A retention run is already in progress', 409);
+    }
+
+    this.running = true;
+    const result: AuditRetentionRunResult = { archives: [], archivedRows: 0, errors: [] };
+
+    try {
+      const policies = await storage.getAuditRetentionPolicies();
+      const maxAuditId = await this.getMaxArchivableId();
+      const now = new Date();
+      const ordered = policies
+        .filter(policy => policy.active)
+        .sort((a, b) => specificity(b) - specificity(a));
+
+      for (const policy of ordered) {
+        const scope = this.toScope(policy, policies, now, maxAuditId);
+        try {
+          for (let i = 0; i < MAX_ARCHIVES_PER_POLICY; i++) {
+            const rows = await storage.getExpiredAudits(scope, ARCHIVE_BATCH_SIZE);
+            if (rows.length === 0) break;
+
+            const archive = await this.archiveRows(policy, rows);
+            result.archives.push(archive);
+            result.archivedRows += archive.rowCount;
+            if (rows.length < ARCHIVE_BATCH_SIZE) break;
+          }
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          log.error(`Audit retention policy ${policy.id} failed`, message);
+          result.errors.push({ policyId: policy.id, error: message });
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * List archives
+   * @param {number} [page=1] - Page number
+   * @param {number} [limit=25] - Archives per page
+   * @returns {Promise<{ archives: AuditArchive[]; total: number; page: number; totalPages: number }>} Archives, newest first
+   */
+  async listArchives(page: number = 1, limit: number = 25): Promise<{
+    archives: AuditArchive[];
+    total: number;
+    page: number;
+    totalPages: number;
+  }> {
+    const { archives, total } = await storage.getAuditArchives({ limit, offset: (page - 1) * limit });
+    return { archives, total, page, totalPages: Math.ceil(total / limit) };
+  }
+
+  /**
+   * Load an archive into archived_audits so it can be searched
+   *
+   * @param {number} id - Archive ID
+   * @param {number} restoredBy - User restoring the archive
+   * @returns {Promise<{ archive: AuditArchive; restoredRows: number; invalidRows: number[] }>} Restored
+   * archive, rows loaded, and IDs of rows whose hash no longer matches their content
+   * @throws {AuditRetentionError} When the archive is missing, cannot be downloaded or fails its checksum
+   */
+  async restoreArchive(id: number, restoredBy: number): Promise<{
+    archive: AuditArchive;
+    restoredRows: number;
+    invalidRows: number[];
+  }> {
+    const archive = await this.getArchive(id);
+    const rows = await this.readArchive(archive);
+
+    const invalidRows = rows
+      .filter(row => row.hash && computeAuditHash(row, row.previousHash ?? '') !== row.hash)
+      .map(row => row.id);
+
+    const restored = await storage.loadArchivedAudits(id, rows, restoredBy);
+    return { archive: restored, restoredRows: rows.length, invalidRows };
+  }
+
+  /**
+   * Remove a restored archive from archived_audits (the archive file is kept)
+   * @param {number} id - Archive ID
+   * @returns {Promise<AuditArchive>} Archive marked as not restored
+   * @throws {AuditRetentionError} When the archive does not exist
+   */
+  async unloadArchive(id: number): Promise<AuditArchive> {
+    await this.getArchive(id);
+    return await storage.unloadArchivedAudits(id);
+  }
+
+  /**
+   * Get an archive
+   * @param {number} id - Archive ID
+   * @returns {Promise<AuditArchive>} Archive
+   * @throws {AuditRetentionError} When the archive does not exist
+   */
+  private async getArchive(id: number): Promise<AuditArchive> {
+    const archive = await storage.getAuditArchive(id);
+    if (!archive) {
+      throw new AuditRetentionError('Audit archive not found', 404);
+    }
+    return archive;
+  }
+
+  /**
+   * Upload a batch of expired rows, verify the stored copy and prune the rows
+   * @param {AuditRetentionPolicy} policy - Policy that expired the rows
+   * @param {Audit[]} rows - Expired rows ordered by ID
+   * @returns {Promise<AuditArchive>} Recorded archive
+   * @throws {Error} When the upload fails or the stored copy does not match
+   */
+  private async archiveRows(policy: AuditRetentionPolicy, rows: Audit[]): Promise<AuditArchive> {
+    const body = zlib.gzipSync(Buffer.from(rows.map(row => JSON.stringify(row)).join('\n') + '\n'));
+    const sha256 = crypto.createHash('sha256').update(body).digest('hex');
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    const month = (first.changedAt ?? new Date()).toISOString().slice(0, 7).replace('-', '/');
+    const key = `audit-archives/${month}/audits-${first.id}-${last.id}-${Date.now()}.jsonl.gz`;
+
+    const upload = await s3Service.uploadFile(body, key, 'application/gzip', {
+      'row-count': String(rows.length),
+      'first-audit-id': String(first.id),
+      'last-audit-id': String(last.id),
+      sha256
+    }, { type: 'audit-archive' });
+    if (!upload.success) {
+      throw new Error(`Archive upload failed: ${upload.error}`);
+    }
+
+    // Prune only what can be read back intact
+    const stored = await s3Service.downloadFile(upload.storageKey, upload.storageType);
+    if (!stored.success || !stored.data || crypto.createHash('sha256').update(stored.data).digest('hex') !== sha256) {
+      throw new Error('Archive could not be read back intact; rows were kept');
+    }
+
+    return await storage.archiveAudits({
+      policyId: policy.id,
+      storageType: upload.storageType,
+      storageKey: upload.storageKey,
+      rowCount: rows.length,
+      firstAuditId: first.id,
+      lastAuditId: last.id,
+      firstChangedAt: rows.reduce<Date | null>((min, row) => row.changedAt && (!min || row.changedAt < min) ? row.changedAt : min, null),
+      lastChangedAt: rows.reduce<Date | null>((max, row) => row.changedAt && (!max || row.changedAt > max) ? row.changedAt : max, null),
+      sha256,
+      sizeBytes: body.length
+    }, rows.map(row => row.id));
+  }
+
+  /**
+   * Download, checksum and parse an archive file
+   * @param {AuditArchive} archive - Archive
+   * @returns {Promise<Array<Omit<ArchivedAudit, 'archiveId'>>>} Rows in the file
+   * @throws {AuditRetentionError} When the file cannot be read or fails its checksum
+   */
+  private async readArchive(archive: AuditArchive): Promise<Array<Omit<ArchivedAudit, 'archiveId'>>> {
+    const download = await s3Service.downloadFile(archive.storageKey, archive.storageType as 's3' | 'local');
+    if (!download.success || !download.data) {
+      throw new AuditRetentionError(`Archive file could not be downloaded: ${download.error ?? 'no data'}`, 502);
+    }
+    if (crypto.createHash('sha256').update(download.data).digest('hex') !== archive.sha256) {
+      throw new AuditRetentionError('Archive file does not match its checksum', 409);
+    }
+
+    return zlib.gunzipSync(download.data)
+      .toString('utf8')
+      .split('\n')
+      .filter(line => line.trim())
+      .map(line => {
+        const row = JSON.parse(line);
+        return {
+          id: row.id,
+          tableName: row.tableName,
+          recordId: row.recordId,
+          action: row.action,
+          changedBy: row.changedBy ?? null,
+          impersonatedBy: row.impersonatedBy ?? null,
+          changedAt: row.changedAt ? new Date(row.changedAt) : null,
+          oldData: row.oldData ?? null,
+          newData: row.newData ?? null,
+          previousHash: row.previousHash ?? null,
+          hash: row.hash ?? null
+        };
+      });
+  }
+
+  /**
+   * Build the storage scope of a policy
+   * @param {AuditRetentionPolicy} policy - Policy
+   * @param {AuditRetentionPolicy[]} policies - All policies
+   * @param {Date} now - Run time
+   * @param {number | undefined} maxAuditId - Highest archivable audit ID
+   * @returns {AuditRetentionScope} Scope excluding rows that more specific policies decide
+   */
+  private toScope(
+    policy: AuditRetentionPolicy,
+    policies: AuditRetentionPolicy[],
+    now: Date,
+    maxAuditId: number | undefined
+  ): AuditRetentionScope {
+    const exclude = policies
+      .filter(other =>
+        other.id !== policy.id &&
+        specificity(other) > specificity(policy) &&
+        (!policy.tableName || other.tableName === policy.tableName) &&
+        (!policy.action || other.action === policy.action))
+      .map(other => ({ tableName: other.tableName, action: other.action }));
+
+    return {
+      tableName: policy.tableName,
+      action: policy.action,
+      before: new Date(now.getTime() - policy.retentionDays * 24 * 60 * 60 * 1000),
+      exclude,
+      maxAuditId
+    };
+  }
+
+  /**
+   * Highest audit ID that may be pruned: the last one delivered to the SIEM when export is on
+   * @returns {Promise<number | undefined>} Audit ID, or undefined when there is no limit
+   */
+  private async getMaxArchivableId(): Promise<number | undefined> {
+    if (!siemExportService.isEnabled()) {
+      return undefined;
+    }
+    try {
+      const name = siemExportService.getConfig()?.name ?? 'default';
+      return (await storage.getSiemExportCheckpoint(name))?.lastAuditId ?? 0;
+    } catch {
+      return 0;
+    }
+  }
+
+  /**
+   * Reject a scope another policy already covers
+   * @param {{ tableName: string | null; action: string | null }} scope - Table and action
+   * @param {number} [exceptId] - Policy being updated
+   * @throws {AuditRetentionError} When the scope is taken
+   */
+  private async assertScopeAvailable(
+    scope: { tableName?: string | null; action?: string | null },
+    exceptId?: number
+  ): Promise<void> {
+    const policies = await storage.getAuditRetentionPolicies();
+    const duplicate = policies.find(policy =>
+      policy.id !== exceptId &&
+      policy.tableName === (scope.tableName ?? null) &&
+      policy.action === (scope.action ?? null));
+    if (duplicate) {
+      throw new AuditRetentionError('A retention policy for this table and action already exists', 409);
+    }
+  }
+}
+
+/**
+ * Singleton instance of AuditRetentionService
+ * @type {AuditRetentionService}
+ */
+export const auditRetentionService = new AuditRetentionService();
@@ -7,9 +7,18 @@
  * regulatory compliance and system maintenance.
  * 
  * Schedule Overview:
+ * - Every 10 seconds: New audit rows streamed to the SIEM (when SIEM_EXPORT_TARGET is set)
+ * - Every minute: Outbound webhook deliveries and retries, and the running
+ *   re-encryption job (when an administrator has started one)
+ * - Hourly: Expired rate limit counters and request signature nonces are deleted
+ * - 12:10 AM UTC: Signed audit log checkpoint for the previous day
+ * - 12:20 AM UTC: Offboardings reaching their termination date completed
+ * - 1:45 AM UTC: Duplicate employee scan refreshing the review queue
+ * - 2:30 AM UTC: Audit rows past their retention policy archived to S3 and pruned
  * - 4:00 AM: Automatic API key rotation (90+ day old keys)
  * - 5:00 AM: API key expiration notifications (7 days warning)
- * - 6:00 AM: License/certification expiration check (30 days warning)
+ * - 6:00 AM: License/certification expiration check (30 days warning) and
+ *   license.expired webhook events for licenses expiring today
  * - 7:00 AM Sunday: Weekly compliance reporting
  * 
  * @module cronJobs
@@ -21,6 +30,18 @@
 import cron from "node-cron";
 import { storage } from "../storage";
 import { generateApiKey } from "../middleware/apiKeyAuth";
+import { webhookService } from "./webhookService";
+import { rateLimitService } from "./rateLimitService";
+import { requestSigningService } from "./requestSigningService";
+import { auditIntegrityService } from "./auditIntegrityService";
+import { siemExportService } from "./siemExportService";
+import { auditRetentionService } from "./auditRetentionService";
+import { reencryptionService } from "./reencryptionService";
+import { employeeDuplicateService } from "./employeeDuplicateService";
+import { employeeOffboardingService } from "./employeeOffboardingService";
+import { logger } from "../utils/logger";
+
+const log = logger.child({ module: 'cron' });
 
 /**
  * Initialize and start all automated cron jobs
@@ -47,35 +68,146 @@ import { generateApiKey } from "../middleware/apiKeyAuth";
 export function startCronJobs() {
   // Check for expiring licenses/certifications daily at 6 AM
   cron.schedule('0 6 * * *', async () => {
-    console.log('Running daily expiration check...');
+    log.info('Running daily expiration check...');
     
     try {
       const expiringItems = await storage.getExpiringItems(30);
       
       if (expiringItems.length > 0) {
-        console.log(`Found ${expiringItems.length} items expiring in the next 30 days:`);
+        log.info(`Found ${expiringItems.length} items expiring in the next 30 days:`);
         
         expiringItems.forEach(item => {
-          console.log(`- ${item.employeeName}: ${item.itemType} (${item.licenseNumber}) expires on ${item.expirationDate} (${item.daysRemaining} days remaining)`);
+          log.info(`- ${item.employeeName}: ${item.itemType} (${item.licenseNumber}) expires on ${item.expirationDate} (${item.daysRemaining} days remaining)`);
         });
         
         // In a real application, you would send emails here
         // await sendExpirationNotifications(expiringItems);
       } else {
-        console.log('No items expiring in the next 30 days.');
+        log.info('No items expiring in the next 30 days.');
+      }
+    } catch (error) {
+      log.error('Error during expiration check', error);
+    }
+
+    // Tell downstream systems (badge access, EMR provisioning) about licenses that lapse today
+    try {
+      const expiredLicenses = await storage.getLicensesExpiringToday();
+      for (const license of expiredLicenses) {
+        await webhookService.emit('license.expired', { ...license });
+      }
+      if (expiredLicenses.length > 0) {
+        log.info(`Sent license.expired events for ${expiredLicenses.length} licenses`);
+      }
+    } catch (error) {
+      log.error('Error sending license expiration events', error);
+    }
+  });
+
+  // Stream new audit rows to the SIEM; failures are retried from the checkpoint on the next run
+  if (siemExportService.isEnabled()) {
+    cron.schedule('*/10 * * * * *', async () => {
+      try {
+        const result = await siemExportService.exportPending();
+        if (result.exported > 0) {
+          log.info(`Sent ${result.exported} audit events to the SIEM (through audit #${result.lastAuditId})`);
+        }
+      } catch (error) {
+        log.error('Error exporting audit events to the SIEM', error instanceof Error ? error.message : error);
+      }
+    });
+  }
+
+  // Send queued webhook deliveries and retries every minute
+  cron.schedule('* * * * *', async () => {
+    await webhookService.processDue();
+  });
+
+  // Advance the running re-encryption job; its position is saved after every batch
+  cron.schedule('* * * * *', async () => {
+    try {
+      const job = await reencryptionService.runPending();
+      if (job && job.status !== 'running') {
+        log.info(`Re-encryption job ${job.id} ${job.status}: ${job.reencryptedValues} values moved to key ${job.targetKeyId}, ${job.failedValues} failed`);
+      }
+    } catch (error) {
+      log.error('Error running re-encryption job', error);
+    }
+  });
+
+  // Delete rate limit counters whose window has ended, hourly
+  cron.schedule('15 * * * *', async () => {
+    try {
+      const deleted = await rateLimitService.cleanupExpired();
+      if (deleted > 0) {
+        log.info(`Deleted ${deleted} expired rate limit counters`);
       }
     } catch (error) {
-      console.error('Error during expiration check:', error);
+      log.error('Error cleaning up rate limit counters', error);
     }
   });
 
+  // Delete signed request nonces whose timestamp window has ended, hourly
+  cron.schedule('15 * * * *', async () => {
+    try {
+      const deleted = await requestSigningService.cleanupExpiredNonces();
+      if (deleted > 0) {
+        log.info(`Deleted ${deleted} expired request signature nonces`);
+      }
+    } catch (error) {
+      log.error('Error cleaning up request signature nonces', error);
+    }
+  });
+
+  // Sign the end of the audit hash chain for the day that just ended
+  cron.schedule('10 0 * * *', async () => {
+    try {
+      const checkpoint = await auditIntegrityService.createCheckpoint();
+      log.info(`Audit checkpoint for ${checkpoint.checkpointDate}: ${checkpoint.auditCount} chained rows, last hash ${checkpoint.lastHash}`);
+    } catch (error) {
+      log.error('Error creating audit checkpoint', error);
+    }
+  }, { timezone: 'UTC' });
+
+  // Terminate employees whose offboarding reached its termination date
+  cron.schedule('20 0 * * *', async () => {
+    try {
+      const completed = await employeeOffboardingService.completeDue();
+      if (completed > 0) {
+        log.info(`Completed ${completed} employee offboardings`);
+      }
+    } catch (error) {
+      log.error('Error completing employee offboardings', error);
+    }
+  }, { timezone: 'UTC' });
+
+  // Queue likely duplicate employee records for HR review
+  cron.schedule('45 1 * * *', async () => {
+    try {
+      await employeeDuplicateService.scan();
+    } catch (error) {
+      log.error('Error scanning for duplicate employees', error);
+    }
+  }, { timezone: 'UTC' });
+
+  // Archive audit rows past retention, after the day's checkpoint has pinned them
+  cron.schedule('30 2 * * *', async () => {
+    try {
+      const result = await auditRetentionService.run();
+      if (result.archivedRows > 0 || result.errors.length > 0) {
+        log.info(`Archived ${result.archivedRows} audit rows into ${result.archives.length} files (${result.errors.length} policies failed)`);
+      }
+    } catch (error) {
+      log.error('Error running audit retention', error);
+    }
+  }, { timezone: 'UTC' });
+
   // Weekly compliance check on Sundays at 7 AM
   cron.schedule('0 7 * * 0', async () => {
-    console.log('Running weekly compliance check...');
+    log.info('Running weekly compliance check...');
     
     try {
       const stats = await storage.getEmployeeStats();
-      console.log('Compliance Summary:', {
+      log.info('Compliance Summary', {
         totalEmployees: stats.totalEmployees,
         activeEmployees: stats.activeEmployees,
         expiringSoon: stats.expiringSoon,
@@ -85,36 +217,36 @@ export function startCronJobs() {
       // In a real application, you would send compliance reports here
       // await sendComplianceReport(stats);
     } catch (error) {
-      console.error('Error during compliance check:', error);
+      log.error('Error during compliance check', error);
     }
   });
 
   // Check for expiring API keys daily at 5 AM
   cron.schedule('0 5 * * *', async () => {
-    console.log('Running daily API key expiration check...');
+    log.info('Running daily API key expiration check...');
     
     try {
       const expiringKeys = await storage.getExpiringApiKeys(7); // Keys expiring in 7 days
       
       if (expiringKeys.length > 0) {
-        console.log(`Found ${expiringKeys.length} API keys expiring in the next 7 days`);
+        log.info(`Found ${expiringKeys.length} API keys expiring in the next 7 days`);
         
         for (const key of expiringKeys) {
           const user = await storage.getUser(key.userId);
           if (user) {
-            console.log(`- API Key "${key.name}" for user ${user.username} expires on ${key.expiresAt}`);
+            log.info(`- API Key "${key.name}" for user ${user.id} expires on ${key.expiresAt}`, { username: user.username });
             // In production, send notification email here
           }
         }
       }
     } catch (error) {
-      console.error('Error during API key expiration check:', error);
+      log.error('Error during API key expiration check', error);
     }
   });
 
   // Automatic API key rotation (for keys older than 90 days) - runs daily at 4 AM
   cron.schedule('0 4 * * *', async () => {
-    console.log('Running automatic API key rotation check...');
+    log.info('Running automatic API key rotation check...');
     
     try {
       const activeKeys = await storage.getActiveApiKeys();
@@ -125,7 +257,7 @@ export function startCronJobs() {
         const keyAge = Math.floor((now.getTime() - new Date(key.createdAt).getTime()) / (1000 * 60 * 60 * 24));
         
         if (keyAge >= rotationThreshold) {
-          console.log(`Auto-rotating API key "${key.name}" (${keyAge} days old)`);
+          log.info(`Auto-rotating API key "${key.name}" (${keyAge} days old)`);
           
           // Generate new key
           const { key: newKey, hash, prefix } = await generateApiKey(key.environment as 'live' | 'test');
@@ -158,22 +290,22 @@ export function startCronJobs() {
           // Schedule old key revocation after grace period
           setTimeout(async () => {
             await storage.revokeApiKey(key.id);
-            console.log(`Revoked old API key "${key.name}" after grace period`);
+            log.info(`Revoked old API key "${key.name}" after grace period`);
           }, 24 * 60 * 60 * 1000);
           
           const user = await storage.getUser(key.userId);
           if (user) {
-            console.log(`Notifying user ${user.username} about automatic key rotation`);
+            log.info(`Notifying user ${user.username} about automatic key rotation`);
             // In production, send notification email with new key here
           }
         }
       }
     } catch (error) {
-      console.error('Error during automatic API key rotation:', error);
+      log.error('Error during automatic API key rotation', error);
     }
   });
 
-  console.log('Cron jobs started successfully');
+  log.info('Cron jobs started successfully');
 }
 
 /**
@@ -212,14 +344,14 @@ export function startCronJobs() {
  * });
  */
 export async function manualExpirationCheck(): Promise<any[]> {
-  console.log('Running manual expiration check...');
+  log.info('Running manual expiration check...');
   
   try {
     const expiringItems = await storage.getExpiringItems(30);
-    console.log(`Found ${expiringItems.length} items expiring in the next 30 days`);
+    log.info(`Found ${expiringItems.length} items expiring in the next 30 days`);
     return expiringItems;
   } catch (error) {
-    console.error('Error during manual expiration check:', error);
+    log.error('Error during manual expiration check', error);
     throw error;
   }
 }
@@ -267,7 +399,7 @@ export async function manualExpirationCheck(): Promise<any[]> {
  * }
  */
 export async function checkExpiringApiKeys(days: number = 7): Promise<any[]> {
-  console.log(`Checking for API keys expiring in the next ${days} days...`);
+  log.info(`Checking for API keys expiring in the next ${days} days...`);
   
   try {
     const expiringKeys = await storage.getExpiringApiKeys(days);
@@ -286,7 +418,7 @@ export async function checkExpiringApiKeys(days: number = 7): Promise<any[]> {
     
     return results;
   } catch (error) {
-    console.error('Error checking expiring API keys:', error);
+    log.error('Error checking expiring API keys', error);
     throw error;
   }
 }
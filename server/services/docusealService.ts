@@ -21,6 +21,11 @@ import {
 } from "@shared/schema";
 import { eq, and, desc, inArray } from "drizzle-orm";
 import { encrypt, decrypt } from "../utils/encryption";
+import { decryptReadableFields } from "../middleware/encryption";
+import { webhookService } from "./webhookService";
+import { logger } from "../utils/logger";
+
+const log = logger.child({ module: 'docuseal' });
 
 /**
  * DocuSeal API response types
@@ -97,7 +102,7 @@ export class DocuSealService {
         .limit(1);
       
       if (configs.length === 0) {
-        console.log("DocuSeal Service: No enabled configuration found");
+        log.info("DocuSeal Service: No enabled configuration found");
         return false;
       }
 
@@ -107,7 +112,7 @@ export class DocuSealService {
       if (this.config.apiKey) {
         this.apiKey = decrypt(this.config.apiKey);
       } else {
-        console.error("DocuSeal Service: No API key configured");
+        log.error("DocuSeal Service: No API key configured");
         return false;
       }
 
@@ -117,10 +122,10 @@ export class DocuSealService {
       }
 
       this.initialized = true;
-      console.log("DocuSeal Service: Initialized successfully");
+      log.info("DocuSeal Service: Initialized successfully");
       return true;
     } catch (error) {
-      console.error("DocuSeal Service: Failed to initialize", error);
+      log.error("DocuSeal Service: Failed to initialize", error);
       return false;
     }
   }
@@ -228,7 +233,7 @@ export class DocuSealService {
       const data = await response.json();
       return Array.isArray(data) ? data : data.data || [];
     } catch (error) {
-      console.error("Failed to fetch templates from DocuSeal:", error);
+      log.error("Failed to fetch templates from DocuSeal", error);
       throw error;
     }
   }
@@ -280,7 +285,7 @@ export class DocuSealService {
           
           syncedCount++;
         } catch (error) {
-          console.error(`Failed to sync template ${apiTemplate.id}:`, error);
+          log.error(`Failed to sync template ${apiTemplate.id}`, error);
           failedCount++;
         }
       }
@@ -350,7 +355,7 @@ export class DocuSealService {
 
       if (!response.ok) {
         const errorText = await response.text();
-        console.error(`DocuSeal API error (${response.status}):`, {
+        log.error(`DocuSeal API error (${response.status})`, {
           status: response.status,
           statusText: response.statusText,
           error: errorText,
@@ -381,7 +386,7 @@ export class DocuSealService {
       }
 
       if (!submissionId) {
-        console.error("DocuSeal createSubmission: unexpected response shape", {
+        log.error("DocuSeal createSubmission: unexpected response shape", {
           keys: raw ? Object.keys(raw) : [],
           preview: raw ? JSON.stringify(raw).slice(0, 600) : null
         });
@@ -464,7 +469,7 @@ export class DocuSealService {
       return normalized;
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
-      console.error("Failed to create DocuSeal submission:", {
+      log.error("Failed to create DocuSeal submission", {
         message: err.message,
         template_id: options.template_id,
         submitters: options.submitters?.map(s => ({ email: s.email, name: s.name })),
@@ -502,7 +507,7 @@ export class DocuSealService {
       const submission = await response.json();
       return submission;
     } catch (error) {
-      console.error(`Failed to get submission ${submissionId}:`, error);
+      log.error(`Failed to get submission ${submissionId}`, error);
       throw error;
     }
   }
@@ -562,7 +567,7 @@ export class DocuSealService {
       return buffer;
   
     } catch (error) {
-      console.error(`Failed to download documents for submission ${submissionId}:`, error);
+      log.error(`Failed to download documents for submission ${submissionId}`, error);
       throw error;
     }
   }
@@ -583,7 +588,7 @@ export class DocuSealService {
         .limit(1);
 
       if (dbSubmissions.length === 0) {
-        console.warn(`Submission ${submissionId} not found in database`);
+        log.warn(`Submission ${submissionId} not found in database`);
         return null;
       }
 
@@ -615,9 +620,21 @@ export class DocuSealService {
         .where(eq(formSubmissions.id, dbSubmission.id))
         .returning();
 
-      return updatedSubmission[0];
+      // Notify webhook subscribers once, when the form first becomes completed
+      const submission = updatedSubmission[0];
+      if (submission.status === 'completed' && dbSubmission.status !== 'completed') {
+        await webhookService.emit('form.completed', {
+          submissionId: submission.id,
+          employeeId: submission.employeeId,
+          templateId: submission.templateId,
+          invitationId: submission.invitationId,
+          completedAt: submission.completedAt
+        });
+      }
+
+      return submission;
     } catch (error) {
-      console.error(`Failed to update submission status for ${submissionId}:`, error);
+      log.error(`Failed to update submission status for ${submissionId}`, error);
       throw error;
     }
   }
@@ -670,7 +687,7 @@ export class DocuSealService {
         throw error;
       }
 
-      const emp = employee[0];
+      const emp = decryptReadableFields(employee[0]);
       const tmpl = template[0];
 
       // Check if template requires multi-party signing
@@ -721,7 +738,7 @@ export class DocuSealService {
             }
           }
         } catch (e) {
-          console.warn('Failed to parse template signer roles in sendOnboardingForms, using defaults:', e);
+          log.warn('Failed to parse template signer roles in sendOnboardingForms, using defaults', e);
         }
       }
 
@@ -807,7 +824,7 @@ export class DocuSealService {
               formValues.SSN3 = cleanSSN.substring(5, 9);
             }
           } catch (e) {
-            console.warn('Failed to decrypt SSN for form pre-fill:', e);
+            log.warn('Failed to decrypt SSN for form pre-fill', e);
           }
         }
       }
@@ -945,7 +962,7 @@ export class DocuSealService {
         }
       }
       
-      console.error("Failed to send form to employee:", {
+      log.error("Failed to send form to employee", {
         message: err.message,
         statusCode: (err as any).statusCode,
         errorType: (err as any).errorType,
@@ -1020,7 +1037,7 @@ export class DocuSealService {
         return submissions;
       }
     } catch (error) {
-      console.error("Failed to send onboarding forms:", error);
+      log.error("Failed to send onboarding forms", error);
       throw error;
     }
   }
@@ -1044,7 +1061,7 @@ export class DocuSealService {
       // Check if all submissions are completed
       return submissions.every(s => s.status === 'completed');
     } catch (error) {
-      console.error("Failed to check onboarding form completion:", error);
+      log.error("Failed to check onboarding form completion", error);
       return false;
     }
   }
@@ -1072,7 +1089,7 @@ export class DocuSealService {
       );
 
       if (!submitter) {
-        console.error(`Signer ${signerEmail} not found in submission ${submissionId}`);
+        log.error(`Signer ${signerEmail} not found in submission ${submissionId}`);
         return null;
       }
 
@@ -1082,7 +1099,7 @@ export class DocuSealService {
       
       return signingUrl;
     } catch (error) {
-      console.error(`Failed to get signing URL for submission ${submissionId}:`, error);
+      log.error(`Failed to get signing URL for submission ${submissionId}`, error);
       throw error;
     }
   }
@@ -1164,7 +1181,7 @@ export class DocuSealService {
       };
     } catch (error) {
       const err = error instanceof Error ? error : new Error(String(error));
-      console.error("Failed to send reminder:", {
+      log.error("Failed to send reminder", {
         message: err.message,
         submissionId,
         signerEmail,
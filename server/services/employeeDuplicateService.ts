@@ -0,0 +1,277 @@
+/**
+ * @fileoverview Employee Duplicate Service
+ *
+ * Finds employee records that belong to the same person, which happens when
+ * staff are re-invited or rehired, and merges them. The scanner runs nightly
+ * (and on request) and matches employees by NPI number, SSN through its blind
+ * index, date of birth with first and last name, and work or personal email.
+ * Matching pairs wait in a review queue until HR dismisses or merges them.
+ *
+ * A merge keeps one record: the other's child records (educations, licenses,
+ * documents, form submissions, tasks, ...) are repointed to it, its empty
+ * fields are filled in from the other record, and the other record is deleted.
+ * The candidate keeps a summary of every row that moved.
+ *
+ * Users restricted to locations only list, dismiss and merge pairs whose
+ * employees both work at their locations.
+ *
+ * @module employeeDuplicateService
+ */
+
+import {
+  educations,
+  employments,
+  peerReferences,
+  stateLicenses,
+  deaLicenses,
+  boardCertifications,
+  documents,
+  employeeInvitations,
+  formSubmissions,
+  onboardingFormSubmissions,
+  emergencyContacts,
+  taxForms,
+  trainings,
+  payerEnrollments,
+  incidentLogs,
+  tasks,
+  employeeTasks,
+  responsiblePersons,
+  employeeDocumentUploads,
+  employeeApprovalChecklists,
+  employeeSeparations,
+  type Employee,
+  type EmployeeDuplicateCandidate,
+  type EmployeeDuplicateCandidateSummary,
+  type EmployeeDuplicateReason,
+  type EmployeeDuplicateSide
+} from '@shared/schema';
+import { storage, type EmployeeMergeResult, type EmployeeReference } from '../storage';
+import { logger } from '../utils/logger';
+import { locationScopeService } from './locationScopeService';
+
+const log = logger.child({ module: 'employee-duplicates' });
+
+/**
+ * Error raised for invalid duplicate review actions
+ */
+export class EmployeeDuplicateError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'EmployeeDuplicateError';
+  }
+}
+
+/**
+ * Columns pointing at employees, repointed to the surviving record by a merge
+ */
+export const EMPLOYEE_REFERENCES: EmployeeReference[] = [
+  { name: 'educations', table: educations, column: 'employeeId' },
+  { name: 'employments', table: employments, column: 'employeeId' },
+  { name: 'peer_references', table: peerReferences, column: 'employeeId' },
+  { name: 'state_licenses', table: stateLicenses, column: 'employeeId' },
+  { name: 'dea_licenses', table: deaLicenses, column: 'employeeId' },
+  { name: 'board_certifications', table: boardCertifications, column: 'employeeId' },
+  { name: 'documents', table: documents, column: 'employeeId' },
+  { name: 'employee_invitations', table: employeeInvitations, column: 'employeeId' },
+  { name: 'form_submissions', table: formSubmissions, column: 'employeeId' },
+  { name: 'onboarding_form_submissions', table: onboardingFormSubmissions, column: 'employeeId' },
+  { name: 'emergency_contacts', table: emergencyContacts, column: 'employeeId' },
+  { name: 'tax_forms', table: taxForms, column: 'employeeId' },
+  { name: 'trainings', table: trainings, column: 'employeeId' },
+  { name: 'payer_enrollments', table: payerEnrollments, column: 'employeeId' },
+  { name: 'incident_logs', table: incidentLogs, column: 'employeeId' },
+  { name: 'tasks', table: tasks, column: 'relatedEmployeeId' },
+  { name: 'employee_tasks', table: employeeTasks, column: 'employeeId' },
+  { name: 'employee_tasks.assignee', table: employeeTasks, column: 'assigneeId' },
+  { name: 'responsible_persons', table: responsiblePersons, column: 'employeeId' },
+  { name: 'employee_document_uploads', table: employeeDocumentUploads, column: 'employeeId' },
+  { name: 'employee_approval_checklists', table: employeeApprovalChecklists, column: 'employeeId', onePerEmployee: true },
+  { name: 'employee_separations', table: employeeSeparations, column: 'employeeId' }
+];
+
+/**
+ * Outcome of a duplicate scan
+ */
+export interface EmployeeDuplicateScanResult {
+  /** Pairs matching at least one identifier */
+  pairs: number;
+  /** Pairs added to the review queue */
+  detected: number;
+  /** Pending pairs removed because they no longer match */
+  resolved: number;
+}
+
+/**
+ * Review queue fields of an employee
+ * @param {Employee} employee - Employee record
+ * @returns {EmployeeDuplicateSide} Identifying fields only (no sensitive values)
+ */
+function duplicateSide(employee: Employee): EmployeeDuplicateSide {
+  return {
+    id: employee.id,
+    firstName: employee.firstName,
+    lastName: employee.lastName,
+    workEmail: employee.workEmail,
+    personalEmail: employee.personalEmail,
+    npiNumber: employee.npiNumber,
+    jobTitle: employee.jobTitle,
+    status: employee.status,
+    createdAt: employee.createdAt
+  };
+}
+
+/**
+ * Employee Duplicate Service Class
+ *
+ * @class EmployeeDuplicateService
+ * @description Scans for duplicate employee records and resolves the review queue
+ */
+class EmployeeDuplicateService {
+  private scanning = false;
+
+  /**
+   * Scan employees for duplicates and refresh the review queue
+   * @param {number[]} [locationIds] - Only pair employees at these locations and leave other pairs untouched (undefined scans everyone)
+   * @returns {Promise<EmployeeDuplicateScanResult | null>} Scan counts, or null when a scan is already running
+   */
+  async scan(locationIds?: number[]): Promise<EmployeeDuplicateScanResult | null> {
+    if (this.scanning) {
+      return null;
+    }
+
+    this.scanning = true;
+    try {
+      const matches = await storage.findDuplicateEmployeePairs(locationIds);
+      const pairs = new Map<string, { employeeId: number; duplicateEmployeeId: number; reasons: EmployeeDuplicateReason[] }>();
+      for (const match of matches) {
+        const key = `${match.employeeId}:${match.duplicateEmployeeId}`;
+        const pair = pairs.get(key) ?? { employeeId: match.employeeId, duplicateEmployeeId: match.duplicateEmployeeId, reasons: [] };
+        if (!pair.reasons.includes(match.reason)) pair.reasons.push(match.reason);
+        pairs.set(key, pair);
+      }
+
+      const { detected, resolved } = await storage.recordEmployeeDuplicateScan(Array.from(pairs.values()), locationIds);
+      log.info('Employee duplicate scan completed', { pairs: pairs.size, detected, resolved });
+      return { pairs: pairs.size, detected, resolved };
+    } finally {
+      this.scanning = false;
+    }
+  }
+
+  /**
+   * List duplicate candidates with both employee records
+   * @param {object} options - Status filter (pending, dismissed, merged), location scope and pagination
+   * @returns {Promise<{ candidates: EmployeeDuplicateCandidateSummary[]; total: number }>} Page of candidates and total count
+   */
+  async list(options: { status?: string; locationIds?: number[]; limit: number; offset: number }): Promise<{ candidates: EmployeeDuplicateCandidateSummary[]; total: number }> {
+    const { candidates, total } = await storage.getEmployeeDuplicateCandidates(options);
+    const ids = new Set(candidates.flatMap(candidate => [candidate.employeeId, candidate.duplicateEmployeeId]));
+    const employeesById = new Map((await storage.getEmployeesByIds(Array.from(ids))).map(employee => [employee.id, employee]));
+    const side = (id: number) => {
+      const employee = employeesById.get(id);
+      return employee ? duplicateSide(employee) : null;
+    };
+
+    return {
+      candidates: candidates.map(candidate => ({
+        ...candidate,
+        employee: side(candidate.employeeId),
+        duplicate: side(candidate.duplicateEmployeeId)
+      })),
+      total
+    };
+  }
+
+  /**
+   * Mark a pending pair as not being the same person; later scans leave it dismissed
+   * @param {number} id - Candidate ID
+   * @param {number | null} userId - Reviewing user
+   * @param {number[]} [scope] - Location scope of the reviewing user (undefined when unrestricted)
+   * @returns {Promise<{ before: EmployeeDuplicateCandidate; candidate: EmployeeDuplicateCandidate }>} Candidate before and after
+   * @throws {EmployeeDuplicateError} 404 when not found or outside the scope, 409 when already reviewed
+   */
+  async dismiss(id: number, userId: number | null, scope?: number[]): Promise<{ before: EmployeeDuplicateCandidate; candidate: EmployeeDuplicateCandidate }> {
+    const before = await this.getPending(id, scope);
+    const candidate = await storage.updateEmployeeDuplicateCandidate(id, {
+      status: 'dismissed',
+      reviewedBy: userId,
+      reviewedAt: new Date()
+    });
+    return { before, candidate };
+  }
+
+  /**
+   * Merge a pending pair into one employee record
+   * @param {number} id - Candidate ID
+   * @param {number} survivingEmployeeId - Employee of the pair to keep
+   * @param {number | null} userId - Reviewing user
+   * @param {number[]} [scope] - Location scope of the reviewing user (undefined when unrestricted)
+   * @returns {Promise<EmployeeMergeResult & { before: EmployeeDuplicateCandidate }>} Candidate before and after, the surviving employee and the deleted record
+   * @throws {EmployeeDuplicateError} 400 when the survivor is not part of the pair, 404 when not found or outside the scope, 409 when already reviewed or a record is gone
+   */
+  async merge(id: number, survivingEmployeeId: number, userId: number | null, scope?: number[]): Promise<EmployeeMergeResult & { before: EmployeeDuplicateCandidate }> {
+    const candidate = await this.getPending(id, scope);
+    const pair = [candidate.employeeId, candidate.duplicateEmployeeId];
+    if (!pair.includes(survivingEmployeeId)) {
+      throw new EmployeeDuplicateError(`survivingEmployeeId must be ${pair[0]} or ${pair[1]}`);
+    }
+    const mergedEmployeeId = pair.find(employeeId => employeeId !== survivingEmployeeId)!;
+
+    const result = await storage.mergeEmployees(id, survivingEmployeeId, mergedEmployeeId, EMPLOYEE_REFERENCES, userId);
+    if (!result) {
+      throw new EmployeeDuplicateError('One of the employees no longer exists; run a new scan', 409);
+    }
+    const summary = result.candidate.mergeSummary!;
+    log.info('Employee records merged', {
+      candidateId: id,
+      survivingEmployeeId,
+      mergedEmployeeId,
+      movedRecords: Object.values(summary.movedRecords).reduce((total, ids) => total + ids.length, 0),
+      filledFields: summary.filledFields.length
+    });
+    return { ...result, before: candidate };
+  }
+
+  /**
+   * Get a candidate that is still awaiting review
+   * @param {number} id - Candidate ID
+   * @param {number[]} [scope] - Location scope both employees must be in (undefined when unrestricted)
+   * @returns {Promise<EmployeeDuplicateCandidate>} Pending candidate
+   * @throws {EmployeeDuplicateError} 404 when not found or outside the scope, 409 when already reviewed
+   */
+  private async getPending(id: number, scope?: number[]): Promise<EmployeeDuplicateCandidate> {
+    const candidate = await storage.getEmployeeDuplicateCandidate(id);
+    if (!candidate || !(await this.inScope(candidate, scope))) {
+      throw new EmployeeDuplicateError('Duplicate candidate not found', 404);
+    }
+    if (candidate.status !== 'pending') {
+      throw new EmployeeDuplicateError(`Duplicate candidate is already ${candidate.status}`, 409);
+    }
+    return candidate;
+  }
+
+  /**
+   * Whether both employees of a pair are inside a location scope
+   * @param {EmployeeDuplicateCandidate} candidate - Pair to check
+   * @param {number[]} [scope] - Location scope (undefined when unrestricted)
+   * @returns {Promise<boolean>} True when unrestricted or both employees exist and are in scope
+   */
+  private async inScope(candidate: EmployeeDuplicateCandidate, scope?: number[]): Promise<boolean> {
+    if (!scope) {
+      return true;
+    }
+    const pair = await storage.getEmployeesByIds([candidate.employeeId, candidate.duplicateEmployeeId]);
+    if (pair.length !== 2) {
+      return false;
+    }
+    const workLocations = await locationScopeService.getWorkLocations(scope);
+    return pair.every(employee => !!employee.workLocation && !!workLocations?.has(employee.workLocation));
+  }
+}
+
+/**
+ * Singleton instance of EmployeeDuplicateService
+ * @type {EmployeeDuplicateService}
+ */
+export const employeeDuplicateService = new EmployeeDuplicateService();
@@ -0,0 +1,775 @@
+/**
+ * @fileoverview Bulk Employee Import Service
+ *
+ * Creates employees with their state licenses, DEA licenses and board
+ * certifications from a CSV or XLSX spreadsheet, for moving a credentialing
+ * spreadsheet into the system.
+ *
+ * The import wizard works in steps, each sending the file again with the
+ * column mapping (nothing is kept on the server between steps):
+ * 1. Preview: headers, sample rows and a suggested mapping
+ * 2. Dry run: every row is validated against insertEmployeeSchema and the
+ *    credential schemas and checked for duplicates; nothing is written
+ * 3. Error file: the rows that failed, with their errors, as CSV to fix and
+ *    upload again
+ * 4. Commit: all valid employees are created in one transaction
+ *
+ * Rows with the same work email describe one employee: the first row carries
+ * the employee columns and every row may add one state license, DEA license
+ * and board certification. An employee is a duplicate when its NPI, SSN or an
+ * email address belongs to an existing employee or to an earlier employee in
+ * the file.
+ *
+ * Users restricted to locations can only import employees whose work location
+ * is in their scope, and duplicates outside it are reported without naming
+ * the existing employee.
+ *
+ * @module employeeImportService
+ */
+
+import path from 'path';
+import { getTableColumns } from 'drizzle-orm';
+import type { ZodError } from 'zod';
+import { storage } from '../storage';
+import { locationScopeService } from './locationScopeService';
+import { blindIndex } from '../middleware/encryption';
+import { parseCsv, parseXlsx, toCsv, type SheetLimits } from '../utils/spreadsheet';
+import { logger } from '../utils/logger';
+import {
+  employees,
+  stateLicenses,
+  deaLicenses,
+  boardCertifications,
+  insertEmployeeSchema,
+  insertStateLicenseSchema,
+  insertDeaLicenseSchema,
+  insertBoardCertificationSchema,
+  SENSITIVE_COLUMNS,
+  type Employee,
+  type EmployeeImportField,
+  type EmployeeImportPreview,
+  type EmployeeImportRecord,
+  type EmployeeImportReport,
+  type EmployeeImportRow,
+  type EmployeeImportSection
+} from '@shared/schema';
+
+const log = logger.child({ module: 'employee-import' });
+
+/**
+ * Data rows accepted in one file
+ */
+export const MAX_IMPORT_ROWS = 5000;
+
+/**
+ * Largest XLSX sheet read: room for the header, MAX_IMPORT_ROWS data rows and
+ * as many blank rows again, and far more columns than there are fields
+ */
+const MAX_SHEET_SIZE: SheetLimits = { maxRows: 2 * MAX_IMPORT_ROWS + 1, maxColumns: 500 };
+
+/**
+ * Data rows returned with a preview
+ */
+const SAMPLE_ROWS = 5;
+
+/**
+ * Employee columns the import does not fill: keys, blind indexes and the
+ * onboarding and approval workflow
+ */
+const EXCLUDED_EMPLOYEE_COLUMNS = new Set([
+  'id',
+  'applicationStatus',
+  'onboardingStatus',
+  'invitationId',
+  'userId',
+  'onboardingCompletedAt',
+  'approvedAt',
+  'approvedBy',
+  'createdAt',
+  'updatedAt',
+  ...Object.values(SENSITIVE_COLUMNS.employees).flatMap(settings => settings?.blindIndex ? [settings.blindIndex] : [])
+]);
+
+/**
+ * Labels of the credential columns
+ */
+const CHILD_LABELS: Record<Exclude<EmployeeImportSection, 'employee'>, Record<string, string>> = {
+  stateLicense: {
+    licenseNumber: 'State License Number',
+    state: 'State License State',
+    issueDate: 'State License Issue Date',
+    expirationDate: 'State License Expiration Date',
+    status: 'State License Status'
+  },
+  deaLicense: {
+    licenseNumber: 'DEA License Number',
+    issueDate: 'DEA License Issue Date',
+    expirationDate: 'DEA License Expiration Date',
+    status: 'DEA License Status'
+  },
+  boardCertification: {
+    boardName: 'Board Name',
+    certification: 'Board Certification',
+    issueDate: 'Board Certification Issue Date',
+    expirationDate: 'Board Certification Expiration Date',
+    status: 'Board Certification Status'
+  }
+};
+
+/**
+ * Tables and schemas behind each section
+ */
+const SECTIONS = {
+  employee: { table: employees, schema: insertEmployeeSchema },
+  stateLicense: { table: stateLicenses, schema: insertStateLicenseSchema },
+  deaLicense: { table: deaLicenses, schema: insertDeaLicenseSchema },
+  boardCertification: { table: boardCertifications, schema: insertBoardCertificationSchema }
+};
+
+/**
+ * Header spellings that do not match a label, normalized
+ */
+const HEADER_ALIASES: Record<string, string> = {
+  first: 'employee.firstName',
+  last: 'employee.lastName',
+  email: 'employee.workEmail',
+  npi: 'employee.npiNumber',
+  ssn: 'employee.ssn',
+  socialsecuritynumber: 'employee.ssn',
+  dob: 'employee.dateOfBirth',
+  birthdate: 'employee.dateOfBirth',
+  phone: 'employee.cellPhone',
+  mobile: 'employee.cellPhone',
+  title: 'employee.jobTitle',
+  dea: 'deaLicense.licenseNumber',
+  board: 'boardCertification.boardName'
+};
+
+/**
+ * Words spelled in capitals in employee labels
+ */
+const ACRONYMS = new Set(['Npi', 'Ssn', 'Dea', 'Caqh', 'Nppes', 'Dl', 'Ptan', 'Id']);
+
+const SSN_PATTERN = /^\d{3}-?\d{2}-?\d{4}$/;
+const NPI_PATTERN = /^\d{10}$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+/**
+ * Custom error class for employee import operations
+ */
+export class EmployeeImportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'EmployeeImportError';
+  }
+}
+
+/**
+ * Uploaded file (the parts of a multer file the import reads)
+ */
+export interface ImportFile {
+  originalname: string;
+  buffer: Buffer;
+}
+
+/**
+ * Spreadsheet header to field key; unmapped headers are left out or null
+ */
+export type ImportMapping = Record<string, string | null | undefined>;
+
+/**
+ * Importable column with what is needed to convert cell text
+ */
+interface FieldDefinition extends EmployeeImportField {
+  column: string;
+  kind: 'text' | 'date' | 'boolean';
+}
+
+/**
+ * Rows with the same work email, becoming one employee
+ */
+interface EmployeeGroup {
+  workEmail: string;
+  rows: number[];
+  employee: Record<string, unknown>;
+  children: Record<Exclude<EmployeeImportSection, 'employee'>, Array<Record<string, unknown>>>;
+  /** Row-level errors by spreadsheet row number */
+  errors: Map<number, string[]>;
+  duplicate: boolean;
+  record?: EmployeeImportRecord;
+}
+
+/**
+ * Result of checking a file against a mapping
+ */
+interface ImportAnalysis {
+  headers: string[];
+  dataRows: string[][];
+  report: EmployeeImportReport;
+  records: EmployeeImportRecord[];
+}
+
+/**
+ * Field label from a camelCase column name ("npiNumber" → "NPI Number")
+ * @param {string} column - Column name
+ * @returns {string} Label
+ */
+function humanize(column: string): string {
+  return column
+    .replace(/([a-z])([A-Z0-9])/g, '$1 $2')
+    .split(' ')
+    .map(word => {
+      const capitalized = word.charAt(0).toUpperCase() + word.slice(1);
+      return ACRONYMS.has(capitalized) ? capitalized.toUpperCase() : capitalized;
+    })
+    .join(' ');
+}
+
+/**
+ * Header or label reduced to lower case letters and digits
+ * @param {string} text - Header or label
+ * @returns {string} Normalized text
+ */
+function normalizeHeader(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Whether every cell of a row is empty
+ * @param {string[]} cells - Row
+ * @returns {boolean} True for blank rows
+ */
+function isBlankRow(cells: string[]): boolean {
+  return cells.every(cell => cell.trim() === '');
+}
+
+/**
+ * Cell text as a value for the column, or undefined when blank
+ *
+ * Dates written M/D/YYYY become YYYY-MM-DD; yes/no, true/false and 1/0 become
+ * booleans. Anything else is left for the schema to reject.
+ *
+ * @param {FieldDefinition} field - Target column
+ * @param {string | undefined} cell - Cell text
+ * @returns {unknown} Value
+ */
+function cellValue(field: FieldDefinition, cell: string | undefined): unknown {
+  const text = cell?.trim() ?? '';
+  if (text === '') return undefined;
+
+  if (field.kind === 'date') {
+    const us = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    return us ? `${us[3]}-${us[1].padStart(2, '0')}-${us[2].padStart(2, '0')}` : text;
+  }
+  if (field.kind === 'boolean') {
+    if (/^(true|yes|y|1)$/i.test(text)) return true;
+    if (/^(false|no|n|0)$/i.test(text)) return false;
+  }
+  return text;
+}
+
+/**
+ * Parsed values with dates as YYYY-MM-DD, the form date columns are stored in
+ * @param {Record<string, unknown>} values - Schema output
+ * @returns {Record<string, unknown>} Values ready to insert
+ */
+function toColumnValues(values: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(Object.entries(values).map(([key, value]) =>
+    [key, value instanceof Date ? value.toISOString().split('T')[0] : value]
+  ));
+}
+
+/**
+ * Messages of a schema validation failure, prefixed with field labels
+ * @param {ZodError} error - Validation error
+ * @param {EmployeeImportSection} section - Section validated
+ * @param {Map<string, FieldDefinition>} fields - Fields by key
+ * @returns {string[]} Messages
+ */
+function schemaMessages(error: ZodError, section: EmployeeImportSection, fields: Map<string, FieldDefinition>): string[] {
+  return error.errors.map(issue => {
+    const column = String(issue.path[0] ?? '');
+    const label = fields.get(`${section}.${column}`)?.label ?? humanize(column);
+    return `${label}: ${issue.message}`;
+  });
+}
+
+/**
+ * Employee Import Service Class
+ *
+ * @class EmployeeImportService
+ * @description Reads spreadsheets, validates them against the employee and
+ * credential schemas and creates the employees in one transaction.
+ */
+class EmployeeImportService {
+  private readonly fields: FieldDefinition[];
+  private readonly fieldsByKey: Map<string, FieldDefinition>;
+
+  constructor() {
+    this.fields = (Object.keys(SECTIONS) as EmployeeImportSection[]).flatMap(section =>
+      Object.entries(getTableColumns(SECTIONS[section].table)).flatMap(([column, definition]) => {
+        const label = section === 'employee'
+          ? (EXCLUDED_EMPLOYEE_COLUMNS.has(column) ? undefined : humanize(column))
+          : CHILD_LABELS[section][column];
+        if (!label) return [];
+
+        const kind: FieldDefinition['kind'] = definition.columnType === 'PgDateString' || column === 'dateOfBirth'
+          ? 'date'
+          : definition.columnType === 'PgBoolean' ? 'boolean' : 'text';
+        return [{
+          key: `${section}.${column}`,
+          section,
+          column,
+          label,
+          required: definition.notNull && !definition.hasDefault,
+          kind
+        }];
+      })
+    );
+    this.fieldsByKey = new Map(this.fields.map(field => [field.key, field]));
+  }
+
+  /**
+   * Columns a spreadsheet column can be mapped to
+   * @returns {EmployeeImportField[]} Fields, employee columns first
+   */
+  getFields(): EmployeeImportField[] {
+    return this.fields.map(({ key, section, label, required }) => ({ key, section, label, required }));
+  }
+
+  /**
+   * Read the uploaded file's headers and first rows and suggest a mapping
+   *
+   * @param {ImportFile} file - Uploaded CSV or XLSX file
+   * @returns {EmployeeImportPreview} Preview for the mapping step
+   * @throws {EmployeeImportError} The file cannot be read, is empty or too long
+   */
+  preview(file: ImportFile): EmployeeImportPreview {
+    const { headers, dataRows } = this.readFile(file);
+    return {
+      headers,
+      sampleRows: dataRows.filter(cells => !isBlankRow(cells)).slice(0, SAMPLE_ROWS),
+      rowCount: dataRows.filter(cells => !isBlankRow(cells)).length,
+      mapping: this.suggestMapping(headers),
+      fields: this.getFields()
+    };
+  }
+
+  /**
+   * Suggest a field for each header by its label, column name or a common alias
+   *
+   * @param {string[]} headers - Spreadsheet headers
+   * @returns {Record<string, string | null>} Field key per header; each field is suggested once
+   *
+   * @example
+   * employeeImportService.suggestMapping(['First Name', 'NPI', 'Notes']);
+   * // { 'First Name': 'employee.firstName', NPI: 'employee.npiNumber', Notes: null }
+   */
+  suggestMapping(headers: string[]): Record<string, string | null> {
+    const candidates = new Map<string, string>(Object.entries(HEADER_ALIASES));
+    for (const field of [...this.fields].reverse()) {
+      candidates.set(normalizeHeader(field.label), field.key);
+      candidates.set(normalizeHeader(field.key), field.key);
+      if (field.section === 'employee') {
+        candidates.set(normalizeHeader(field.column), field.key);
+      }
+    }
+
+    const used = new Set<string>();
+    return Object.fromEntries(headers.map(header => {
+      const key = candidates.get(normalizeHeader(header));
+      if (!key || used.has(key)) return [header, null];
+      used.add(key);
+      return [header, key];
+    }));
+  }
+
+  /**
+   * Validate every row without writing anything (dry run)
+   *
+   * @param {ImportFile} file - Uploaded CSV or XLSX file
+   * @param {ImportMapping} mapping - Field key per header
+   * @param {object} [options] - Import options
+   * @param {number[]} [options.scope] - Location scope of the importing user (undefined when unrestricted)
+   * @returns {Promise<EmployeeImportReport>} Per-row outcome and what would be created
+   * @throws {EmployeeImportError} The file cannot be read or the mapping is invalid
+   */
+  async validate(file: ImportFile, mapping: ImportMapping, options: { scope?: number[] } = {}): Promise<EmployeeImportReport> {
+    return (await this.analyze(file, mapping, options.scope)).report;
+  }
+
+  /**
+   * Rows that failed validation as CSV: the original columns plus the row
+   * number and its errors, for fixing and uploading again
+   *
+   * @param {ImportFile} file - Uploaded CSV or XLSX file
+   * @param {ImportMapping} mapping - Field key per header
+   * @param {object} [options] - Import options
+   * @param {number[]} [options.scope] - Location scope of the importing user (undefined when unrestricted)
+   * @returns {Promise<string>} CSV text (header only when every row is valid)
+   */
+  async buildErrorFile(file: ImportFile, mapping: ImportMapping, options: { scope?: number[] } = {}): Promise<string> {
+    const { headers, dataRows, report } = await this.analyze(file, mapping, options.scope);
+    const failed = report.rows.filter(row => row.status !== 'valid');
+
+    return toCsv([
+      [...headers, 'Row', 'Errors'],
+      ...failed.map(row => [...headers.map((_header, index) => dataRows[row.row - 2][index] ?? ''), row.row, row.errors.join('; ')])
+    ]);
+  }
+
+  /**
+   * Create the employees of a file in one transaction
+   *
+   * Rows are validated again first. Unless skipInvalid is set, any invalid or
+   * duplicate row stops the import; with it, only the valid employees are
+   * created.
+   *
+   * @param {ImportFile} file - Uploaded CSV or XLSX file
+   * @param {ImportMapping} mapping - Field key per header
+   * @param {object} [options] - Import options
+   * @param {boolean} [options.skipInvalid=false] - Create the valid employees and leave the rest out
+   * @param {number[]} [options.scope] - Location scope of the importing user (undefined when unrestricted)
+   * @returns {Promise<{report: EmployeeImportReport; employees: Employee[]}>} Report with the created IDs, and the employees
+   * @throws {EmployeeImportError} 422 when rows have errors, 409 when a conflicting employee was created meanwhile
+   */
+  async commit(
+    file: ImportFile,
+    mapping: ImportMapping,
+    options: { skipInvalid?: boolean; scope?: number[] } = {}
+  ): Promise<{ report: EmployeeImportReport; employees: Employee[] }> {
+    const { report, records } = await this.analyze(file, mapping, options.scope);
+    const failedRows = report.invalidRows + report.duplicateRows;
+
+    if (failedRows > 0 && !options.skipInvalid) {
+      throw new EmployeeImportError(`${failedRows} row(s) have errors; fix them or import only the valid rows`, 422);
+    }
+    if (records.length === 0) {
+      throw new EmployeeImportError('No valid rows to import', 422);
+    }
+
+    let created: Employee[];
+    try {
+      created = await storage.importEmployees(records);
+    } catch (error) {
+      if ((error as { code?: string }).code === '23505') {
+        throw new EmployeeImportError('An employee in the file was created while importing; run the dry run again', 409);
+      }
+      throw error;
+    }
+
+    log.info('Employees imported', { fileName: file.originalname, employees: created.length, skippedRows: failedRows });
+    return {
+      report: { ...report, createdEmployeeIds: created.map(employee => employee.id) },
+      employees: created
+    };
+  }
+
+  /**
+   * Read the header row and data rows of a CSV or XLSX file
+   *
+   * @param {ImportFile} file - Uploaded file
+   * @returns {{headers: string[]; dataRows: string[][]}} Trimmed headers and the rows below
+   * them, blank rows included so indexes map to row numbers
+   * @throws {EmployeeImportError} Unsupported type, unreadable, empty or over MAX_IMPORT_ROWS
+   */
+  private readFile(file: ImportFile): { headers: string[]; dataRows: string[][] } {
+    const extension = path.extname(file.originalname).toLowerCase();
+    let rows: string[][];
+    try {
+      if (extension === '.csv') {
+        rows = parseCsv(file.buffer.toString('utf8'));
+      } else if (extension === '.xlsx') {
+        rows = parseXlsx(file.buffer, MAX_SHEET_SIZE);
+      } else {
+        throw new EmployeeImportError('Upload a .csv or .xlsx file');
+      }
+    } catch (error) {
+      if (error instanceof EmployeeImportError) throw error;
+      throw new EmployeeImportError(`Could not read ${file.originalname}: ${(error as Error).message}`);
+    }
+
+    while (rows.length > 0 && isBlankRow(rows[rows.length - 1])) {
+      rows.pop();
+    }
+    if (rows.length < 2) {
+      throw new EmployeeImportError('The file has no rows below the header row');
+    }
+    if (rows.slice(1).filter(cells => !isBlankRow(cells)).length > MAX_IMPORT_ROWS) {
+      throw new EmployeeImportError(`Import at most ${MAX_IMPORT_ROWS} rows per file`);
+    }
+
+    const headers = rows[0].map(header => header.trim());
+    while (headers.length > 0 && headers[headers.length - 1] === '') {
+      headers.pop();
+    }
+    if (headers.some(header => header === '') || new Set(headers).size !== headers.length) {
+      throw new EmployeeImportError('Every column needs a distinct header');
+    }
+    return { headers, dataRows: rows.slice(1) };
+  }
+
+  /**
+   * Check that a mapping names known fields, each once, including the
+   * required employee fields
+   *
+   * @param {string[]} headers - Spreadsheet headers
+   * @param {ImportMapping} mapping - Field key per header
+   * @returns {Array<[number, FieldDefinition]>} Column index and field of each mapped header
+   * @throws {EmployeeImportError} Unknown or repeated field, or a required field left unmapped
+   */
+  private resolveMapping(headers: string[], mapping: ImportMapping): Array<[number, FieldDefinition]> {
+    const resolved: Array<[number, FieldDefinition]> = [];
+    const used = new Set<string>();
+
+    headers.forEach((header, index) => {
+      const key = mapping[header];
+      if (!key) return;
+      const field = this.fieldsByKey.get(key);
+      if (!field) {
+        throw new EmployeeImportError(`Unknown field "${key}" for column "${header}"`);
+      }
+      if (used.has(key)) {
+        throw new EmployeeImportError(`${field.label} is mapped to more than one column`);
+      }
+      used.add(key);
+      resolved.push([index, field]);
+    });
+
+    const missing = this.fields.filter(field => field.section === 'employee' && field.required && !used.has(field.key));
+    if (missing.length > 0) {
+      throw new EmployeeImportError(`Map a column to ${missing.map(field => field.label).join(', ')}`);
+    }
+    return resolved;
+  }
+
+  /**
+   * Validate a file: group rows into employees, parse them with the insert
+   * schemas and look for duplicates in the file and the database
+   *
+   * @param {ImportFile} file - Uploaded file
+   * @param {ImportMapping} mapping - Field key per header
+   * @param {number[]} [scope] - Location scope of the importing user (undefined when unrestricted)
+   * @returns {Promise<ImportAnalysis>} Report and the records of the valid employees
+   */
+  private async analyze(file: ImportFile, mapping: ImportMapping, scope?: number[]): Promise<ImportAnalysis> {
+    const { headers, dataRows } = this.readFile(file);
+    const columns = this.resolveMapping(headers, mapping);
+    const workLocations = await locationScopeService.getWorkLocations(scope);
+    const groups = new Map<string, EmployeeGroup>();
+    const ungrouped: EmployeeImportRow[] = [];
+
+    dataRows.forEach((cells, index) => {
+      if (isBlankRow(cells)) return;
+      const rowNumber = index + 2;
+      const values: Record<EmployeeImportSection, Record<string, unknown>> = {
+        employee: {}, stateLicense: {}, deaLicense: {}, boardCertification: {}
+      };
+      for (const [column, field] of columns) {
+        const value = cellValue(field, cells[column]);
+        if (value !== undefined) values[field.section][field.column] = value;
+      }
+
+      const workEmail = typeof values.employee.workEmail === 'string' ? values.employee.workEmail.toLowerCase() : '';
+      if (!workEmail) {
+        ungrouped.push({ row: rowNumber, status: 'invalid', workEmail: null, name: null, errors: ['Work Email: Required'] });
+        return;
+      }
+
+      let group = groups.get(workEmail);
+      if (!group) {
+        group = {
+          workEmail,
+          rows: [],
+          employee: values.employee,
+          children: { stateLicense: [], deaLicense: [], boardCertification: [] },
+          errors: new Map(),
+          duplicate: false
+        };
+        groups.set(workEmail, group);
+      } else {
+        // Later rows of an employee may repeat its columns but not change them
+        const conflicts = Object.entries(values.employee)
+          .filter(([column, value]) => column !== 'workEmail' && group!.employee[column] !== undefined && group!.employee[column] !== value)
+          .map(([column]) => `${this.fieldsByKey.get(`employee.${column}`)!.label} differs from row ${group!.rows[0]}`);
+        if (conflicts.length > 0) group.errors.set(rowNumber, conflicts);
+        for (const [column, value] of Object.entries(values.employee)) {
+          if (group.employee[column] === undefined) group.employee[column] = value;
+        }
+      }
+      group.rows.push(rowNumber);
+
+      for (const section of ['stateLicense', 'deaLicense', 'boardCertification'] as const) {
+        if (Object.keys(values[section]).length > 0) {
+          group.children[section].push({ ...values[section], row: rowNumber });
+        }
+      }
+    });
+
+    for (const group of Array.from(groups.values())) {
+      this.validateGroup(group, workLocations);
+    }
+    await this.findDuplicates(Array.from(groups.values()), workLocations);
+
+    const rows: EmployeeImportRow[] = [...ungrouped];
+    const records: EmployeeImportRecord[] = [];
+    for (const group of Array.from(groups.values())) {
+      const failed = group.errors.size > 0;
+      const status: EmployeeImportRow['status'] = group.duplicate ? 'duplicate' : failed ? 'invalid' : 'valid';
+      const name = [group.employee.firstName, group.employee.lastName].filter(Boolean).join(' ') || null;
+      const firstFailedRow = Array.from(group.errors.keys()).sort((a, b) => a - b)[0];
+
+      for (const row of group.rows) {
+        const errors = group.errors.get(row) ?? (failed ? [`Not imported: see row ${firstFailedRow}`] : []);
+        rows.push({ row, status, workEmail: group.workEmail, name, errors });
+      }
+      if (!failed && group.record) records.push(group.record);
+    }
+    rows.sort((a, b) => a.row - b.row);
+
+    return {
+      headers,
+      dataRows,
+      records,
+      report: {
+        totalRows: dataRows.filter(cells => !isBlankRow(cells)).length,
+        employees: records.length,
+        stateLicenses: records.reduce((total, record) => total + record.stateLicenses.length, 0),
+        deaLicenses: records.reduce((total, record) => total + record.deaLicenses.length, 0),
+        boardCertifications: records.reduce((total, record) => total + record.boardCertifications.length, 0),
+        invalidRows: rows.filter(row => row.status === 'invalid').length,
+        duplicateRows: rows.filter(row => row.status === 'duplicate').length,
+        rows
+      }
+    };
+  }
+
+  /**
+   * Parse a group's employee and credentials with the insert schemas,
+   * recording errors against their rows and the record when all pass
+   *
+   * @param {EmployeeGroup} group - Rows of one employee
+   * @param {Set<string>} [workLocations] - Work locations the importing user may use (undefined when unrestricted)
+   */
+  private validateGroup(group: EmployeeGroup, workLocations?: Set<string>): void {
+    const addError = (row: number, message: string) => {
+      group.errors.set(row, [...(group.errors.get(row) ?? []), message]);
+    };
+    const firstRow = group.rows[0];
+    const { employee } = group;
+
+    for (const [column, pattern, message] of [
+      ['workEmail', EMAIL_PATTERN, 'Work Email: Invalid email address'],
+      ['personalEmail', EMAIL_PATTERN, 'Personal Email: Invalid email address'],
+      ['npiNumber', NPI_PATTERN, 'NPI Number: Must be 10 digits'],
+      ['ssn', SSN_PATTERN, 'SSN: Must be 9 digits (XXX-XX-XXXX)']
+    ] as const) {
+      const value = employee[column];
+      if (typeof value === 'string' && !pattern.test(value)) addError(firstRow, message);
+    }
+    if (workLocations && !(typeof employee.workLocation === 'string' && workLocations.has(employee.workLocation))) {
+      addError(firstRow, 'Work Location: Must be one of your locations');
+    }
+
+    const parsedEmployee = insertEmployeeSchema.safeParse(employee);
+    if (!parsedEmployee.success) {
+      schemaMessages(parsedEmployee.error, 'employee', this.fieldsByKey).forEach(message => addError(firstRow, message));
+    }
+
+    const children: Record<string, Array<Record<string, unknown>>> = {};
+    for (const section of ['stateLicense', 'deaLicense', 'boardCertification'] as const) {
+      children[section] = [];
+      const required = this.fields.filter(field => field.section === section && field.required);
+      for (const { row, ...values } of group.children[section]) {
+        // Checked here as well since the schemas let some NOT NULL columns (state) through blank
+        const missing = required.filter(field => values[field.column] === undefined);
+        if (missing.length > 0) {
+          missing.forEach(field => addError(row as number, `${field.label}: Required`));
+          continue;
+        }
+        const parsed = SECTIONS[section].schema.safeParse(values);
+        if (parsed.success) {
+          children[section].push(toColumnValues(parsed.data));
+        } else {
+          schemaMessages(parsed.error, section, this.fieldsByKey).forEach(message => addError(row as number, message));
+        }
+      }
+    }
+
+    if (group.errors.size === 0 && parsedEmployee.success) {
+      group.record = {
+        employee: toColumnValues(parsedEmployee.data) as EmployeeImportRecord['employee'],
+        stateLicenses: children.stateLicense as EmployeeImportRecord['stateLicenses'],
+        deaLicenses: children.deaLicense as EmployeeImportRecord['deaLicenses'],
+        boardCertifications: children.boardCertification as EmployeeImportRecord['boardCertifications']
+      };
+    }
+  }
+
+  /**
+   * Mark employees whose NPI, SSN or email addresses belong to an existing
+   * employee or an earlier employee in the file
+   *
+   * @param {EmployeeGroup[]} groups - Employees in file order
+   * @param {Set<string>} [workLocations] - Work locations the importing user may see (undefined when unrestricted)
+   */
+  private async findDuplicates(groups: EmployeeGroup[], workLocations?: Set<string>): Promise<void> {
+    const identifiers = (group: EmployeeGroup) => {
+      const { npiNumber, ssn, personalEmail } = group.employee;
+      return {
+        npi: typeof npiNumber === 'string' ? npiNumber : undefined,
+        ssnHash: typeof ssn === 'string' && SSN_PATTERN.test(ssn) ? blindIndex('employees', 'ssn', ssn) : undefined,
+        emails: [group.workEmail, typeof personalEmail === 'string' ? personalEmail.toLowerCase() : undefined]
+          .filter((email): email is string => Boolean(email))
+      };
+    };
+    const markDuplicate = (group: EmployeeGroup, message: string) => {
+      group.duplicate = true;
+      group.errors.set(group.rows[0], [...(group.errors.get(group.rows[0]) ?? []), message]);
+    };
+
+    const all = groups.map(group => ({ group, ...identifiers(group) }));
+    const existing = await storage.findEmployeesByIdentifiers({
+      npiNumbers: all.flatMap(item => item.npi ? [item.npi] : []),
+      ssnHashes: all.flatMap(item => item.ssnHash ? [item.ssnHash] : []),
+      emails: all.flatMap(item => item.emails)
+    });
+
+    const seen = new Map<string, number>();
+    for (const { group, npi, ssnHash, emails } of all) {
+      for (const match of existing) {
+        const matchEmails = [match.workEmail, match.personalEmail].map(email => email?.toLowerCase());
+        const reasons = [
+          npi && match.npiNumber === npi ? 'NPI' : null,
+          ssnHash && match.ssnHash === ssnHash ? 'SSN' : null,
+          emails.some(email => matchEmails.includes(email)) ? 'email' : null
+        ].filter(Boolean);
+        if (reasons.length > 0 && workLocations && !(match.workLocation && workLocations.has(match.workLocation))) {
+          markDuplicate(group, `Matches an existing employee at another location by ${reasons.join(', ')}`);
+        } else if (reasons.length > 0) {
+          markDuplicate(group, `Matches existing employee #${match.id} (${match.firstName} ${match.lastName}) by ${reasons.join(', ')}`);
+        }
+      }
+
+      const keys: Array<[string, string]> = [
+        ...(npi ? [[`npi:${npi}`, 'NPI'] as [string, string]] : []),
+        ...(ssnHash ? [[`ssn:${ssnHash}`, 'SSN'] as [string, string]] : []),
+        ...emails.map(email => [`email:${email}`, 'email'] as [string, string])
+      ];
+      for (const [key, label] of keys) {
+        const earlierRow = seen.get(key);
+        if (earlierRow !== undefined && earlierRow !== group.rows[0]) {
+          markDuplicate(group, `Same ${label} as row ${earlierRow}`);
+        } else if (earlierRow === undefined) {
+          seen.set(key, group.rows[0]);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Singleton instance of the employee import service
+ * @type {EmployeeImportService}
+ */
+export const employeeImportService = new EmployeeImportService();
@@ -0,0 +1,233 @@
+/**
+ * @fileoverview Employee Offboarding Service
+ *
+ * Structured separation of an employee, recorded in employee_separations with
+ * the termination date, reason and rehire eligibility.
+ *
+ * Starting an offboarding creates tasks, due on the termination date, for
+ * collecting the equipment and closing the systems access that onboarding set
+ * up (the laptopSetup, phoneSetup, emailSetup and emrSetup items of the
+ * approval checklist) and for sending a termination notice to each payer the
+ * employee is enrolled with.
+ *
+ * On the termination date (right away when it is today or in the past, else
+ * from the daily cron run) the offboarding completes: the employee is marked
+ * terminated, their portal account is disabled with its API keys revoked and
+ * sessions signed out, payer enrollments end, their responsible-person
+ * assignments on clinic licenses are released, and an employee.terminated
+ * webhook event carries the ended enrollments to credentialing systems.
+ *
+ * @module employeeOffboardingService
+ */
+
+import type {
+  Employee,
+  EmployeeSeparation,
+  InsertEmployeeSeparation,
+  Task
+} from '@shared/schema';
+import { storage, type CompletedSeparation } from '../storage';
+import { webhookService } from './webhookService';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'offboarding' });
+
+/**
+ * Error raised for invalid offboarding requests
+ */
+export class EmployeeOffboardingError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = 'EmployeeOffboardingError';
+  }
+}
+
+/**
+ * Approval checklist items that hand out equipment or access, with the task
+ * that takes it back
+ */
+export const OFFBOARDING_EQUIPMENT: Array<{ field: 'laptopSetup' | 'phoneSetup' | 'emailSetup' | 'emrSetup'; title: string }> = [
+  { field: 'laptopSetup', title: 'Collect laptop' },
+  { field: 'phoneSetup', title: 'Collect phone' },
+  { field: 'emailSetup', title: 'Close email account' },
+  { field: 'emrSetup', title: 'Remove EMR access' }
+];
+
+/**
+ * Today's date in UTC
+ * @returns {string} YYYY-MM-DD
+ */
+function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Employee Offboarding Service Class
+ *
+ * @class EmployeeOffboardingService
+ * @description Starts, cancels and completes employee separations
+ */
+class EmployeeOffboardingService {
+  private completing = false;
+
+  /**
+   * Start offboarding an employee and create the offboarding tasks
+   * @param {Employee} employee - Employee leaving
+   * @param {InsertEmployeeSeparation} input - Termination date, reason and rehire eligibility
+   * @param {number} userId - HR user starting the offboarding; tasks are assigned to them
+   * @returns {Promise<{ separation: EmployeeSeparation; tasks: Task[] }>} Separation (completed when the date has been reached) and created tasks
+   * @throws {EmployeeOffboardingError} 400 for the caller's own record, 409 when already terminated or being offboarded
+   */
+  async start(employee: Employee, input: InsertEmployeeSeparation, userId: number): Promise<{ separation: EmployeeSeparation; tasks: Task[] }> {
+    if (employee.userId === userId) {
+      throw new EmployeeOffboardingError('You cannot offboard your own employee record');
+    }
+    if (employee.status === 'terminated') {
+      throw new EmployeeOffboardingError('Employee is already terminated', 409);
+    }
+    const separations = await storage.getEmployeeSeparations(employee.id);
+    if (separations.some(separation => separation.status === 'scheduled')) {
+      throw new EmployeeOffboardingError('Employee already has an offboarding in progress', 409);
+    }
+
+    const name = `${employee.firstName} ${employee.lastName}`;
+    const checklist = await storage.getEmployeeApprovalChecklist(employee.id);
+    // Without a checklist there is no record of what was handed out, so ask for everything back
+    const equipment = OFFBOARDING_EQUIPMENT.filter(item => !checklist || checklist[item.field] === 'yes');
+    const enrollments = (await storage.getEmployeePayerEnrollments(employee.id))
+      .filter(enrollment => enrollment.status !== 'terminated');
+
+    const task = (title: string, description: string) => ({
+      title,
+      description,
+      dueDate: input.terminationDate,
+      status: 'open',
+      priority: 'high',
+      category: 'offboarding',
+      assignedToId: userId,
+      createdById: userId,
+      relatedEmployeeId: employee.id
+    });
+    const { separation, tasks } = await storage.createEmployeeSeparation(
+      {
+        employeeId: employee.id,
+        terminationDate: input.terminationDate,
+        reason: input.reason,
+        reasonDetails: input.reasonDetails ?? null,
+        eligibleForRehire: input.eligibleForRehire,
+        initiatedBy: userId
+      },
+      [
+        ...equipment.map(item => task(`${item.title} from ${name}`, `Offboarding: last day ${input.terminationDate}`)),
+        ...enrollments.map(enrollment => task(
+          `Notify ${enrollment.payerName || 'payer'} of ${name}'s termination`,
+          `Enrollment ${enrollment.enrollmentId || `#${enrollment.id}`} ends ${input.terminationDate}`
+        ))
+      ]
+    );
+    log.info('Employee offboarding started', { employeeId: employee.id, separationId: separation.id, tasks: tasks.length });
+
+    if (separation.terminationDate <= today()) {
+      const completed = await this.complete(separation.id, userId);
+      return { separation: completed?.separation ?? separation, tasks };
+    }
+    return { separation, tasks };
+  }
+
+  /**
+   * Cancel an employee's scheduled offboarding and its open tasks
+   * @param {number} employeeId - Employee ID
+   * @returns {Promise<{ before: EmployeeSeparation; separation: EmployeeSeparation }>} Separation before and after
+   * @throws {EmployeeOffboardingError} 404 when no offboarding is scheduled
+   */
+  async cancel(employeeId: number): Promise<{ before: EmployeeSeparation; separation: EmployeeSeparation }> {
+    const before = (await storage.getEmployeeSeparations(employeeId)).find(separation => separation.status === 'scheduled');
+    const separation = before && await storage.cancelEmployeeSeparation(before.id);
+    if (!before || !separation) {
+      throw new EmployeeOffboardingError('No offboarding in progress for this employee', 404);
+    }
+    return { before, separation };
+  }
+
+  /**
+   * Complete a scheduled separation and report what changed
+   *
+   * Audit entries are written here rather than by the route, since completion
+   * also runs from the cron job.
+   *
+   * @param {number} id - Separation ID
+   * @param {number | null} actorId - User recorded in the audit log
+   * @returns {Promise<CompletedSeparation | null>} Outcome, or null when the separation is not scheduled
+   */
+  async complete(id: number, actorId: number | null): Promise<CompletedSeparation | null> {
+    const result = await storage.completeEmployeeSeparation(id);
+    if (!result) {
+      return null;
+    }
+    const { separation, before, employee, endedPayerEnrollments } = result;
+
+    await storage.createAudit({
+      tableName: 'employees',
+      recordId: employee.id,
+      action: 'UPDATE',
+      changedBy: actorId,
+      oldData: { status: before.status },
+      newData: { status: employee.status }
+    });
+    await storage.createAudit({
+      tableName: 'employee_separations',
+      recordId: separation.id,
+      action: 'COMPLETE',
+      changedBy: actorId,
+      oldData: { employeeId: employee.id, status: 'scheduled' },
+      newData: { employeeId: employee.id, status: separation.status, summary: separation.summary }
+    });
+
+    await webhookService.emit('employee.terminated', {
+      employeeId: employee.id,
+      separationId: separation.id,
+      terminationDate: separation.terminationDate,
+      eligibleForRehire: separation.eligibleForRehire,
+      payerEnrollments: endedPayerEnrollments.map(enrollment => ({
+        id: enrollment.id,
+        payerName: enrollment.payerName,
+        enrollmentId: enrollment.enrollmentId,
+        terminationDate: enrollment.terminationDate
+      }))
+    });
+
+    log.info('Employee offboarding completed', { employeeId: employee.id, separationId: separation.id, ...separation.summary });
+    return result;
+  }
+
+  /**
+   * Complete every scheduled separation whose termination date has been reached
+   * @returns {Promise<number>} Separations completed
+   */
+  async completeDue(): Promise<number> {
+    if (this.completing) {
+      return 0;
+    }
+
+    this.completing = true;
+    try {
+      let completed = 0;
+      for (const separation of await storage.getDueEmployeeSeparations(today())) {
+        try {
+          if (await this.complete(separation.id, separation.initiatedBy)) completed++;
+        } catch (error) {
+          log.error(`Failed to complete employee offboarding ${separation.id}`, error);
+        }
+      }
+      return completed;
+    } finally {
+      this.completing = false;
+    }
+  }
+}
+
+/**
+ * Singleton instance of EmployeeOffboardingService
+ * @type {EmployeeOffboardingService}
+ */
+export const employeeOffboardingService = new EmployeeOffboardingService();
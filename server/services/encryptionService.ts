@@ -0,0 +1,520 @@
+/**
+ * @fileoverview Envelope Encryption Service
+ *
+ * Encrypts sensitive employee fields and stored credentials. Each value gets
+ * its own random 256-bit data key; the value is sealed with AES-256-GCM and the
+ * data key is wrapped (AES key wrap, RFC 3394) with a key encryption key held
+ * by the key provider. Ciphertext names the key that wrapped it:
+ *
+ *   v2:<keyId>:<base64url(wrappedDataKey | iv | authTag | ciphertext)>
+ *
+ * The version and key ID are bound into the GCM tag, so a value cannot be
+ * relabelled with another key ID. Rotating keys only changes which key wraps
+ * new values; older values stay readable as long as their key remains with the
+ * provider, and the re-encryption job moves them to the active key.
+ *
+ * Exact-match lookups on encrypted columns use blind indexes: an HMAC of the
+ * normalized value under BLIND_INDEX_KEY. That key is kept apart from the key
+ * provider so indexes survive key rotation.
+ *
+ * Values written before envelope encryption ("iv:authTag:data" in hex) are
+ * still decrypted. There were two schemes: stored credentials used a SHA-256 of
+ * ENCRYPTION_KEY with a random IV; employee fields used the deprecated
+ * createCipher with a key derived from SECRET_KEY and a fixed salt, which also
+ * fixes the GCM nonce, so every employee value shared one IV.
+ *
+ * Key providers (ENCRYPTION_KEY_PROVIDER):
+ * - env (default): keys from ENCRYPTION_KEYS ("id=base64key,...") or an env-style
+ *   file named by ENCRYPTION_KEYS_FILE; ENCRYPTION_ACTIVE_KEY_ID picks the active
+ *   key (default: the last listed). Without either, a single "default" key is
+ *   derived from ENCRYPTION_KEY.
+ * - local-kms: a stand-in for a cloud KMS. Keys live in a keyring file
+ *   (ENCRYPTION_KMS_KEYRING, default .kms/keyring.json) that the provider creates
+ *   and rotates itself; key material never leaves the provider.
+ *
+ * @module encryptionService
+ */
+
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * Current ciphertext version
+ */
+const VERSION = 'v2';
+
+/**
+ * Initial value for AES key wrap (RFC 3394)
+ */
+const KEY_WRAP_IV = Buffer.from('A6A6A6A6A6A6A6A6', 'hex');
+
+/**
+ * Length of a data key wrapped with AES key wrap
+ */
+const WRAPPED_KEY_LENGTH = 40;
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+/**
+ * Key IDs are embedded in ciphertext, so they are short and need no escaping
+ */
+const KEY_ID_PATTERN = /^[A-Za-z0-9_-]{1,32}$/;
+
+/**
+ * Hex "iv:authTag:data" written before envelope encryption
+ */
+const LEGACY_PATTERN = /^[0-9a-f]{32}:[0-9a-f]{32}:[0-9a-f]*$/;
+
+/**
+ * Custom error class for encryption operations
+ */
+export class EncryptionError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'EncryptionError';
+  }
+}
+
+/**
+ * Holder of key encryption keys
+ *
+ * Providers wrap and unwrap data keys; they never hand out the keys themselves.
+ */
+export interface KeyProvider {
+  readonly name: string;
+  /** ID of the key that wraps new data keys */
+  getActiveKeyId(): string;
+  /** IDs of every key the provider can unwrap with */
+  getKeyIds(): string[];
+  wrapDataKey(keyId: string, dataKey: Buffer): Buffer;
+  unwrapDataKey(keyId: string, wrappedKey: Buffer): Buffer;
+  /** Create a key and make it active (providers that manage their own keys) */
+  createKey?(): string;
+}
+
+/**
+ * Wrap a data key with AES-256 key wrap
+ * @param {Buffer} keyEncryptionKey - 32-byte key encryption key
+ * @param {Buffer} dataKey - Data key
+ * @returns {Buffer} Wrapped key
+ */
+function wrapKey(keyEncryptionKey: Buffer, dataKey: Buffer): Buffer {
+  const cipher = crypto.createCipheriv('id-aes256-wrap', keyEncryptionKey, KEY_WRAP_IV);
+  return Buffer.concat([cipher.update(dataKey), cipher.final()]);
+}
+
+/**
+ * Unwrap a data key wrapped with wrapKey
+ * @param {Buffer} keyEncryptionKey - 32-byte key encryption key
+ * @param {Buffer} wrappedKey - Wrapped key
+ * @returns {Buffer} Data key
+ * @throws {Error} When the key does not match (the wrap carries an integrity check)
+ */
+function unwrapKey(keyEncryptionKey: Buffer, wrappedKey: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv('id-aes256-wrap', keyEncryptionKey, KEY_WRAP_IV);
+  return Buffer.concat([decipher.update(wrappedKey), decipher.final()]);
+}
+
+/**
+ * Parse "id=base64key" entries, one per line or comma-separated
+ * @param {string} source - Key list
+ * @param {string} origin - Where the list came from, for error messages
+ * @returns {Map<string, Buffer>} Keys by ID, in listed order
+ * @throws {EncryptionError} When an entry is malformed
+ */
+function parseKeyList(source: string, origin: string): Map<string, Buffer> {
+  const keys = new Map<string, Buffer>();
+
+  for (const raw of source.split(/[,\n]/)) {
+    const entry = raw.trim();
+    if (!entry || entry.startsWith('#')) continue;
+
+    const separator = entry.indexOf('=');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+    if (separator === -1 || !KEY_ID_PATTERN.test(id) || id === 'legacy') {
+      throw new EncryptionError(`${origin}: entries must look like "key-id=base64key" with a key ID of letters, digits, - or _`);
+    }
+    if (key.length !== 32) {
+      throw new EncryptionError(`${origin}: key "${id}" must be 32 bytes (base64)`);
+    }
+    keys.set(id, key);
+  }
+
+  return keys;
+}
+
+/**
+ * Keys from the environment or an env-style key file
+ */
+export class EnvKeyProvider implements KeyProvider {
+  readonly name = 'env';
+  private keys: Map<string, Buffer>;
+  private activeKeyId: string;
+
+  constructor(env: NodeJS.ProcessEnv = process.env) {
+    if (env.ENCRYPTION_KEYS_FILE) {
+      this.keys = parseKeyList(fs.readFileSync(env.ENCRYPTION_KEYS_FILE, 'utf8'), 'ENCRYPTION_KEYS_FILE');
+    } else if (env.ENCRYPTION_KEYS) {
+      this.keys = parseKeyList(env.ENCRYPTION_KEYS, 'ENCRYPTION_KEYS');
+    } else {
+      const secret = env.ENCRYPTION_KEY || 'default-encryption-key-change-this-in-production';
+      this.keys = new Map([['default', Buffer.from(crypto.hkdfSync('sha256', secret, '', 'hrms-key-encryption-key', 32))]]);
+    }
+
+    if (this.keys.size === 0) {
+      throw new EncryptionError('No encryption keys configured');
+    }
+
+    this.activeKeyId = env.ENCRYPTION_ACTIVE_KEY_ID || Array.from(this.keys.keys()).pop()!;
+    if (!this.keys.has(this.activeKeyId)) {
+      throw new EncryptionError(`ENCRYPTION_ACTIVE_KEY_ID "${this.activeKeyId}" is not one of the configured keys`);
+    }
+  }
+
+  getActiveKeyId(): string {
+    return this.activeKeyId;
+  }
+
+  getKeyIds(): string[] {
+    return Array.from(this.keys.keys());
+  }
+
+  wrapDataKey(keyId: string, dataKey: Buffer): Buffer {
+    return wrapKey(this.getKey(keyId), dataKey);
+  }
+
+  unwrapDataKey(keyId: string, wrappedKey: Buffer): Buffer {
+    return unwrapKey(this.getKey(keyId), wrappedKey);
+  }
+
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new EncryptionError(`Encryption key "${keyId}" is not configured`, 500);
+    }
+    return key;
+  }
+}
+
+/**
+ * Keyring stored by the local KMS stand-in
+ */
+interface LocalKeyring {
+  activeKeyId: string;
+  keys: Array<{ id: string; key: string; createdAt: string }>;
+}
+
+/**
+ * Local stand-in for a cloud KMS
+ *
+ * Keeps its keys in a keyring file (created with mode 0600 on first use) and
+ * rotates them itself, so the rest of the application only ever sees key IDs
+ * and wrapped data keys, as it would with a real KMS.
+ */
+export class LocalKmsKeyProvider implements KeyProvider {
+  readonly name = 'local-kms';
+  private keyring: LocalKeyring;
+
+  constructor(private keyringPath: string) {
+    if (fs.existsSync(keyringPath)) {
+      this.keyring = JSON.parse(fs.readFileSync(keyringPath, 'utf8'));
+    } else {
+      this.keyring = { activeKeyId: '', keys: [] };
+      this.createKey();
+    }
+  }
+
+  getActiveKeyId(): string {
+    return this.keyring.activeKeyId;
+  }
+
+  getKeyIds(): string[] {
+    return this.keyring.keys.map(entry => entry.id);
+  }
+
+  wrapDataKey(keyId: string, dataKey: Buffer): Buffer {
+    return wrapKey(this.getKey(keyId), dataKey);
+  }
+
+  unwrapDataKey(keyId: string, wrappedKey: Buffer): Buffer {
+    return unwrapKey(this.getKey(keyId), wrappedKey);
+  }
+
+  createKey(): string {
+    const id = `kms-${new Date().toISOString().slice(0, 10).replace(/-/g, '')}-${crypto.randomBytes(3).toString('hex')}`;
+    const keyring: LocalKeyring = {
+      activeKeyId: id,
+      keys: [...this.keyring.keys, { id, key: crypto.randomBytes(32).toString('base64'), createdAt: new Date().toISOString() }]
+    };
+
+    fs.mkdirSync(path.dirname(this.keyringPath), { recursive: true, mode: 0o700 });
+    const temporaryPath = `${this.keyringPath}.${process.pid}.tmp`;
+    fs.writeFileSync(temporaryPath, JSON.stringify(keyring, null, 2), { mode: 0o600 });
+    fs.renameSync(temporaryPath, this.keyringPath);
+
+    this.keyring = keyring;
+    return id;
+  }
+
+  private getKey(keyId: string): Buffer {
+    const entry = this.keyring.keys.find(key => key.id === keyId);
+    if (!entry) {
+      throw new EncryptionError(`Encryption key "${keyId}" is not in the keyring`, 500);
+    }
+    return Buffer.from(entry.key, 'base64');
+  }
+}
+
+/**
+ * Key for blind indexes: BLIND_INDEX_KEY, or one derived from ENCRYPTION_KEY
+ * @returns {Buffer} 32-byte HMAC key
+ * @throws {EncryptionError} When BLIND_INDEX_KEY is not 32 bytes
+ */
+function blindIndexKey(): Buffer {
+  if (process.env.BLIND_INDEX_KEY) {
+    const key = Buffer.from(process.env.BLIND_INDEX_KEY, 'base64');
+    if (key.length !== 32) {
+      throw new EncryptionError('BLIND_INDEX_KEY must be 32 bytes (base64)');
+    }
+    return key;
+  }
+  const secret = process.env.ENCRYPTION_KEY || 'default-encryption-key-change-this-in-production';
+  return Buffer.from(crypto.hkdfSync('sha256', secret, '', 'hrms-blind-index', 32));
+}
+
+/**
+ * Key used by stored credentials before envelope encryption
+ * @returns {Buffer} SHA-256 of ENCRYPTION_KEY
+ */
+function legacyCredentialKey(): Buffer {
+  const secret = process.env.ENCRYPTION_KEY || 'default-encryption-key-change-this-in-production';
+  return crypto.createHash('sha256').update(secret).digest();
+}
+
+/**
+ * Key and IV used by employee fields before envelope encryption
+ *
+ * The old code passed a scrypt key for SECRET_KEY to createCipher, which derives
+ * the real key and IV from it with OpenSSL's EVP_BytesToKey (MD5, one round).
+ *
+ * @returns {{ key: Buffer; iv: Buffer }} AES-256-GCM key and the fixed IV
+ */
+function legacyFieldKey(): { key: Buffer; iv: Buffer } {
+  const password = crypto.scryptSync(process.env.SECRET_KEY || 'default-secret-key-change-in-production', 'salt', 32);
+  let derived = Buffer.alloc(0);
+  let block = Buffer.alloc(0);
+  while (derived.length < 32 + IV_LENGTH) {
+    block = crypto.createHash('md5').update(Buffer.concat([block, password])).digest();
+    derived = Buffer.concat([derived, block]);
+  }
+  return { key: derived.subarray(0, 32), iv: derived.subarray(32, 32 + IV_LENGTH) };
+}
+
+/**
+ * Open AES-256-GCM ciphertext
+ * @returns {string} Plaintext
+ * @throws {Error} When the key is wrong or the data was altered
+ */
+function openGcm(key: Buffer, iv: Buffer, authTag: Buffer, data: Buffer, aad?: Buffer): string {
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, iv);
+  if (aad) decipher.setAAD(aad);
+  decipher.setAuthTag(authTag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Encryption Service Class
+ *
+ * @class EncryptionService
+ * @description Encrypts and decrypts values under the provider's keys and reports
+ * which key protects a value.
+ */
+class EncryptionService {
+  private provider: KeyProvider | null = null;
+  private legacyField: { key: Buffer; iv: Buffer } | null = null;
+  private indexKey: Buffer | null = null;
+
+  /**
+   * Key provider configured by ENCRYPTION_KEY_PROVIDER, created on first use
+   * @returns {KeyProvider} Provider
+   * @throws {EncryptionError} When the provider or its keys are misconfigured
+   */
+  getProvider(): KeyProvider {
+    if (!this.provider) {
+      const name = process.env.ENCRYPTION_KEY_PROVIDER || 'env';
+      if (name === 'env') {
+        this.provider = new EnvKeyProvider();
+      } else if (name === 'local-kms') {
+        this.provider = new LocalKmsKeyProvider(path.resolve(process.env.ENCRYPTION_KMS_KEYRING || '.kms/keyring.json'));
+      } else {
+        throw new EncryptionError('ENCRYPTION_KEY_PROVIDER must be env or local-kms');
+      }
+    }
+    return this.provider;
+  }
+
+  /**
+   * Use a different provider, or re-read the configuration when none is given
+   * @param {KeyProvider} [provider] - Provider to use
+   */
+  setProvider(provider?: KeyProvider): void {
+    this.provider = provider ?? null;
+    this.legacyField = null;
+    this.indexKey = null;
+  }
+
+  /**
+   * Encrypt a value under the active key
+   * @param {string} plaintext - Value to encrypt
+   * @returns {string} "v2:<keyId>:<data>" ciphertext
+   */
+  encrypt(plaintext: string): string {
+    const provider = this.getProvider();
+    const keyId = provider.getActiveKeyId();
+    const dataKey = crypto.randomBytes(32);
+    const iv = crypto.randomBytes(IV_LENGTH);
+
+    const cipher = crypto.createCipheriv('aes-256-gcm', dataKey, iv);
+    cipher.setAAD(Buffer.from(`${VERSION}:${keyId}`));
+    const data = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    const payload = Buffer.concat([provider.wrapDataKey(keyId, dataKey), iv, cipher.getAuthTag(), data]);
+    return `${VERSION}:${keyId}:${payload.toString('base64url')}`;
+  }
+
+  /**
+   * Decrypt a value written by encrypt() or by the earlier schemes
+   * @param {string} ciphertext - Encrypted value
+   * @returns {string} Plaintext
+   * @throws {EncryptionError} When the value is not ciphertext, its key is unknown or it was altered
+   */
+  decrypt(ciphertext: string): string {
+    const keyId = this.getKeyId(ciphertext);
+    if (keyId === null) {
+      throw new EncryptionError('Value is not encrypted');
+    }
+    if (keyId === 'legacy') {
+      return this.decryptLegacy(ciphertext);
+    }
+
+    const payload = Buffer.from(ciphertext.slice(VERSION.length + keyId.length + 2), 'base64url');
+    if (payload.length < WRAPPED_KEY_LENGTH + IV_LENGTH + AUTH_TAG_LENGTH) {
+      throw new EncryptionError('Ciphertext is truncated');
+    }
+
+    try {
+      const dataKey = this.getProvider().unwrapDataKey(keyId, payload.subarray(0, WRAPPED_KEY_LENGTH));
+      const iv = payload.subarray(WRAPPED_KEY_LENGTH, WRAPPED_KEY_LENGTH + IV_LENGTH);
+      const authTag = payload.subarray(WRAPPED_KEY_LENGTH + IV_LENGTH, WRAPPED_KEY_LENGTH + IV_LENGTH + AUTH_TAG_LENGTH);
+      const data = payload.subarray(WRAPPED_KEY_LENGTH + IV_LENGTH + AUTH_TAG_LENGTH);
+      return openGcm(dataKey, iv, authTag, data, Buffer.from(`${VERSION}:${keyId}`));
+    } catch (error) {
+      if (error instanceof EncryptionError) throw error;
+      throw new EncryptionError(`Cannot decrypt value under key "${keyId}": it was altered or the key is wrong`);
+    }
+  }
+
+  /**
+   * Key protecting a value
+   * @param {string | null | undefined} value - Stored value
+   * @returns {string | null} Key ID, "legacy" for pre-envelope ciphertext, or null when the value is not encrypted
+   */
+  getKeyId(value: string | null | undefined): string | null {
+    if (!value) return null;
+    if (LEGACY_PATTERN.test(value)) return 'legacy';
+
+    const [version, keyId] = value.split(':', 2);
+    return version === VERSION && KEY_ID_PATTERN.test(keyId ?? '') && value.length > VERSION.length + keyId.length + 2
+      ? keyId
+      : null;
+  }
+
+  /**
+   * Whether a value is ciphertext in any supported format
+   * @param {string | null | undefined} value - Stored value
+   * @returns {boolean} True when decrypt() can be attempted
+   */
+  isEncrypted(value: string | null | undefined): boolean {
+    return this.getKeyId(value) !== null;
+  }
+
+  /**
+   * Re-encrypt a value under the active key
+   *
+   * Plain values are encrypted, so fields saved before encryption are picked up too.
+   *
+   * @param {string} value - Stored value
+   * @returns {string | null} New ciphertext, or null when the value already uses the active key
+   * @throws {EncryptionError} When the value cannot be decrypted
+   */
+  reencrypt(value: string): string | null {
+    const keyId = this.getKeyId(value);
+    if (keyId === this.getProvider().getActiveKeyId()) {
+      return null;
+    }
+    return this.encrypt(keyId === null ? value : this.decrypt(value));
+  }
+
+  /**
+   * Keyed hash of a value for exact-match lookups on an encrypted column
+   *
+   * Case, spaces and punctuation are ignored, so "123-45-6789" and "123456789"
+   * match. The context keeps equal values in different columns apart.
+   *
+   * @param {string} context - Table and column, e.g. "employees.ssn"
+   * @param {string} value - Plain value
+   * @returns {string} Hex HMAC-SHA256
+   */
+  blindIndex(context: string, value: string): string {
+    this.indexKey ??= blindIndexKey();
+    const normalized = value.toUpperCase().replace(/[^0-9A-Z]/g, '');
+    return crypto.createHmac('sha256', this.indexKey).update(`${context}:${normalized}`).digest('hex');
+  }
+
+  /**
+   * Create a key and make it active
+   * @returns {string} New key ID
+   * @throws {EncryptionError} When the provider's keys are managed outside the application
+   */
+  rotateKey(): string {
+    const provider = this.getProvider();
+    if (!provider.createKey) {
+      throw new EncryptionError(`Keys of the ${provider.name} provider are rotated by adding a key to ENCRYPTION_KEYS and setting ENCRYPTION_ACTIVE_KEY_ID`);
+    }
+    return provider.createKey();
+  }
+
+  /**
+   * Decrypt hex "iv:authTag:data" written before envelope encryption
+   *
+   * Tries the credential scheme first, then the employee field scheme; GCM
+   * authentication tells them apart.
+   */
+  private decryptLegacy(ciphertext: string): string {
+    const [ivHex, authTagHex, dataHex] = ciphertext.split(':');
+    const authTag = Buffer.from(authTagHex, 'hex');
+    const data = Buffer.from(dataHex, 'hex');
+
+    try {
+      return openGcm(legacyCredentialKey(), Buffer.from(ivHex, 'hex'), authTag, data);
+    } catch {
+      // Not a credential; try the employee field scheme
+    }
+
+    this.legacyField ??= legacyFieldKey();
+    try {
+      return openGcm(this.legacyField.key, this.legacyField.iv, authTag, data);
+    } catch {
+      throw new EncryptionError('Cannot decrypt legacy value: it was altered or ENCRYPTION_KEY/SECRET_KEY changed');
+    }
+  }
+}
+
+/**
+ * Singleton instance of EncryptionService
+ * @type {EncryptionService}
+ */
+export const encryptionService = new EncryptionService();
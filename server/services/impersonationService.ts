@@ -0,0 +1,242 @@
+/**
+ * @fileoverview Admin Impersonation Service
+ *
+ * This module backs "view as user": an administrator temporarily sees the
+ * application exactly as another user does, for example to reproduce a
+ * problem reported from the employee portal.
+ *
+ * Rules:
+ * - Only admins may impersonate, and never another admin or an inactive user
+ * - Impersonation is time-boxed (15 minutes by default, 60 at most)
+ * - Requests are read-only unless the admin explicitly allowed changes
+ * - Passwords, MFA, passkeys and sessions can never be changed while impersonating
+ * - Every request is audited with both the real and the effective user
+ *
+ * The state lives in the admin's own login session (`req.session.impersonation`);
+ * the impersonation middleware in auth.ts swaps `req.user` for the target and
+ * keeps the admin on `req.impersonator`.
+ *
+ * @module impersonationService
+ */
+
+import { storage } from '../storage';
+import type { User } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'impersonation' });
+
+/**
+ * Impersonation state saved in the admin's session
+ */
+export interface ImpersonationState {
+  /** Admin doing the impersonation (the real, signed-in user) */
+  adminId: number;
+  /** User being viewed as */
+  userId: number;
+  /** Why support needed to view as this user */
+  reason: string;
+  /** Whether create, update and delete requests are allowed */
+  allowWrites: boolean;
+  startedAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Default and maximum impersonation length in minutes
+ */
+export const DEFAULT_IMPERSONATION_MINUTES = 15;
+export const MAX_IMPERSONATION_MINUTES = 60;
+
+/**
+ * HTTP methods that never change data
+ */
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * API paths that change credentials or sessions and are never reachable while
+ * impersonating, even with changes allowed
+ */
+const ALWAYS_BLOCKED_PATHS = [
+  '/api/change-password',
+  '/api/auth/change-password',
+  '/api/users/me',
+  '/api/mfa',
+  '/api/passkeys',
+  '/api/sessions',
+  '/api/admin/impersonation'
+];
+
+/**
+ * API paths that stay reachable so the admin can always get out
+ */
+const ALWAYS_ALLOWED_PATHS = ['/api/impersonation/stop', '/api/logout'];
+
+/**
+ * Error raised when an impersonation request is not allowed
+ * The message is safe to show to the admin.
+ */
+export class ImpersonationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'ImpersonationError';
+  }
+}
+
+/**
+ * Check whether a request path is, or is below, one of the given paths
+ * Express routes ignore case and a trailing slash, so matching does too.
+ */
+function matchesPath(path: string, paths: string[]): boolean {
+  const normalized = path.toLowerCase().replace(/\/+$/, '');
+  return paths.some(prefix => normalized === prefix || normalized.startsWith(`${prefix}/`));
+}
+
+/**
+ * Impersonation Service Class
+ *
+ * @class ImpersonationService
+ * @description Starts, checks and ends impersonation and writes its audit trail.
+ */
+class ImpersonationService {
+  /**
+   * Start impersonating a user
+   *
+   * @param {User} admin - Signed-in admin
+   * @param {object} input - Target user, reason, duration and write access
+   * @returns {Promise<{ state: ImpersonationState; target: User }>} State to save in the session
+   * @throws {ImpersonationError} When the admin or target is not allowed
+   */
+  async start(
+    admin: User,
+    input: { userId: number; reason: string; durationMinutes?: number; allowWrites?: boolean }
+  ): Promise<{ state: ImpersonationState; target: User }> {
+    if (admin.role !== 'admin') {
+      throw new ImpersonationError('Only administrators can view as another user', 403);
+    }
+    if (input.userId === admin.id) {
+      throw new ImpersonationError('You cannot view as yourself');
+    }
+
+    const reason = input.reason?.trim();
+    if (!reason) {
+      throw new ImpersonationError('A reason is required');
+    }
+
+    const minutes = input.durationMinutes ?? DEFAULT_IMPERSONATION_MINUTES;
+    if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_IMPERSONATION_MINUTES) {
+      throw new ImpersonationError(`Duration must be between 1 and ${MAX_IMPERSONATION_MINUTES} minutes`);
+    }
+
+    const target = await storage.getUser(input.userId);
+    if (!target) {
+      throw new ImpersonationError('User not found', 404);
+    }
+    if (target.role === 'admin') {
+      throw new ImpersonationError('Administrators cannot be impersonated', 403);
+    }
+    if (target.status !== 'active') {
+      throw new ImpersonationError('Inactive users cannot be impersonated');
+    }
+
+    const now = new Date();
+    const state: ImpersonationState = {
+      adminId: admin.id,
+      userId: target.id,
+      reason,
+      allowWrites: !!input.allowWrites,
+      startedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + minutes * 60 * 1000).toISOString()
+    };
+
+    await storage.createAudit({
+      tableName: 'impersonation',
+      recordId: target.id,
+      action: 'IMPERSONATE_START',
+      changedBy: admin.id,
+      oldData: null,
+      newData: { ...state, username: target.username }
+    });
+
+    return { state, target };
+  }
+
+  /**
+   * Check whether an impersonation has run past its time box
+   *
+   * @param {ImpersonationState} state - Session state
+   * @param {number} [now] - Current time in epoch ms
+   * @returns {boolean} True once expiresAt has passed
+   */
+  isExpired(state: ImpersonationState, now: number = Date.now()): boolean {
+    return new Date(state.expiresAt).getTime() <= now;
+  }
+
+  /**
+   * Check whether a request must be refused while impersonating
+   *
+   * @param {ImpersonationState} state - Session state
+   * @param {string} method - HTTP method
+   * @param {string} path - Request path
+   * @returns {boolean} True if the request is blocked
+   */
+  isBlocked(state: ImpersonationState, method: string, path: string): boolean {
+    if (matchesPath(path, ALWAYS_ALLOWED_PATHS)) {
+      return false;
+    }
+    if (matchesPath(path, ALWAYS_BLOCKED_PATHS)) {
+      return true;
+    }
+    return !state.allowWrites && !SAFE_METHODS.includes(method.toUpperCase());
+  }
+
+  /**
+   * End an impersonation and audit why it ended
+   *
+   * @param {ImpersonationState} state - Session state
+   * @param {'stopped' | 'expired' | 'invalid'} endedBecause - Admin stopped it, time ran out, or the target is no longer valid
+   * @returns {Promise<void>}
+   */
+  async end(state: ImpersonationState, endedBecause: 'stopped' | 'expired' | 'invalid'): Promise<void> {
+    await storage.createAudit({
+      tableName: 'impersonation',
+      recordId: state.userId,
+      action: 'IMPERSONATE_END',
+      changedBy: state.adminId,
+      oldData: null,
+      newData: { ...state, endedBecause, endedAt: new Date().toISOString() }
+    });
+  }
+
+  /**
+   * Audit a request made while impersonating
+   * Recorded as the effective user, tagged with the real admin.
+   *
+   * @param {ImpersonationState} state - Session state
+   * @param {object} request - Method, path and response status
+   * @returns {Promise<void>} Resolves once recorded; failures are logged, not thrown
+   */
+  async recordRequest(
+    state: ImpersonationState,
+    request: { method: string; path: string; statusCode: number }
+  ): Promise<void> {
+    try {
+      await storage.createAudit({
+        tableName: 'impersonation',
+        recordId: state.userId,
+        action: 'REQUEST',
+        changedBy: state.userId,
+        impersonatedBy: state.adminId,
+        oldData: null,
+        newData: request
+      });
+    } catch (error) {
+      log.error('Failed to audit impersonated request', error);
+    }
+  }
+}
+
+/**
+ * Singleton instance of impersonation service
+ * @type {ImpersonationService}
+ */
+export const impersonationService = new ImpersonationService();
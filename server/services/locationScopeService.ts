@@ -0,0 +1,144 @@
+/**
+ * @fileoverview Location Scope Service
+ *
+ * This module resolves which locations a user may see. A site HR coordinator
+ * assigned to "North Clinic" sees employees, clinic licenses, compliance
+ * documents and tasks for North Clinic and every location below it in the
+ * `locations` hierarchy, and nothing else.
+ *
+ * Rules:
+ * - Admins are never location-restricted
+ * - Users without location assignments are not restricted
+ * - Assignments include sub-locations (matched by materialized `path`)
+ * - API keys carry the scope of the user who owns them
+ * - Tasks are in scope through their location or employee, or when they are
+ *   assigned to the user
+ *
+ * The resolved scope is passed to storage queries as `locationIds`, so the
+ * restriction applies to lists, dashboards and exports alike.
+ *
+ * @module locationScopeService
+ */
+
+import { storage } from '../storage';
+import type { ComplianceDocument, Employee, Task, User } from '@shared/schema';
+
+/**
+ * Location Scope Service Class
+ *
+ * @class LocationScopeService
+ * @description Resolves location scopes and checks single records against them.
+ */
+class LocationScopeService {
+  /**
+   * Resolve the locations a user is restricted to
+   * @param {Pick<User, 'id' | 'role'>} [user] - Signed-in user or API key owner
+   * @returns {Promise<number[] | undefined>} Location IDs, or undefined when unrestricted
+   */
+  async getScope(user?: Pick<User, 'id' | 'role'>): Promise<number[] | undefined> {
+    if (!user || user.role === 'admin') {
+      return undefined;
+    }
+
+    const assigned = await storage.getUserLocationIds(user.id);
+    if (assigned.length === 0) {
+      return undefined;
+    }
+
+    return storage.getLocationSubtreeIds(assigned);
+  }
+
+  /**
+   * Check whether a location is inside a scope
+   * @param {number[] | undefined} scope - Scope from getScope()
+   * @param {number | null} locationId - Location to check
+   * @returns {boolean} True when unrestricted or the location is in scope
+   */
+  includesLocation(scope: number[] | undefined, locationId: number | null): boolean {
+    return !scope || (locationId !== null && scope.includes(locationId));
+  }
+
+  /**
+   * Check whether an employee works at a location inside a scope
+   * Employees are matched by location name or code in `workLocation`.
+   * @param {number[] | undefined} scope - Scope from getScope()
+   * @param {Employee} employee - Employee to check
+   * @returns {Promise<boolean>} True when unrestricted or the employee is in scope
+   */
+  async includesEmployee(scope: number[] | undefined, employee: Pick<Employee, 'workLocation'>): Promise<boolean> {
+    const workLocations = await this.getWorkLocations(scope);
+    return !workLocations || (!!employee.workLocation && workLocations.has(employee.workLocation));
+  }
+
+  /**
+   * Names and codes of the locations in a scope, as employees carry them in
+   * `workLocation`
+   * @param {number[] | undefined} scope - Scope from getScope()
+   * @returns {Promise<Set<string> | undefined>} Location names and codes, or undefined when unrestricted
+   */
+  async getWorkLocations(scope: number[] | undefined): Promise<Set<string> | undefined> {
+    if (!scope) {
+      return undefined;
+    }
+
+    const locations = await storage.getAllLocations();
+    return new Set(locations
+      .filter(location => scope.includes(location.id))
+      .flatMap(location => location.code ? [location.name, location.code] : [location.name]));
+  }
+
+  /**
+   * Check whether a task is inside a scope: it concerns a location or an
+   * employee inside it, or it is assigned to the user
+   * @param {number[] | undefined} scope - Scope from getScope()
+   * @param {Task} task - Task to check
+   * @param {number} [userId] - User the scope belongs to
+   * @returns {Promise<boolean>} True when unrestricted or the task is in scope
+   */
+  async includesTask(
+    scope: number[] | undefined,
+    task: Pick<Task, 'relatedLocationId' | 'relatedEmployeeId' | 'assignedToId'>,
+    userId?: number
+  ): Promise<boolean> {
+    if (!scope || (userId !== undefined && task.assignedToId === userId)) {
+      return true;
+    }
+    if (this.includesLocation(scope, task.relatedLocationId)) {
+      return true;
+    }
+    if (!task.relatedEmployeeId) {
+      return false;
+    }
+
+    const employee = await storage.getEmployee(task.relatedEmployeeId);
+    return !!employee && this.includesEmployee(scope, employee);
+  }
+
+  /**
+   * Check whether a compliance document belongs to a location inside a scope
+   * (directly or through its clinic license)
+   * @param {number[] | undefined} scope - Scope from getScope()
+   * @param {ComplianceDocument} document - Document to check
+   * @returns {Promise<boolean>} True when unrestricted or the document is in scope
+   */
+  async includesComplianceDocument(
+    scope: number[] | undefined,
+    document: Pick<ComplianceDocument, 'locationId' | 'clinicLicenseId'>
+  ): Promise<boolean> {
+    if (this.includesLocation(scope, document.locationId)) {
+      return true;
+    }
+    if (!document.clinicLicenseId) {
+      return false;
+    }
+
+    const license = await storage.getClinicLicense(document.clinicLicenseId);
+    return !!license && this.includesLocation(scope, license.locationId);
+  }
+}
+
+/**
+ * Singleton instance of location scope service
+ * @type {LocationScopeService}
+ */
+export const locationScopeService = new LocationScopeService();
@@ -25,6 +25,9 @@ import { db } from "../db";
 import { sesConfigurations, emailReminders } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { encrypt, decrypt } from "../utils/encryption";
+import { logger } from "../utils/logger";
+
+const log = logger.child({ module: 'mailtrap' });
 
 /**
  * Email options for sending messages via Mailtrap
@@ -96,7 +99,7 @@ export class MailtrapService {
    */
   async initialize(): Promise<boolean> {
     try {
-      console.log("Mailtrap Service: Initializing...");
+      log.info("Mailtrap Service: Initializing...");
       
       // First try environment variables
       const mailtrapToken = process.env.MAILTRAP_TOKEN || process.env.MAILTRAP_API_TOKEN;
@@ -104,9 +107,9 @@ export class MailtrapService {
       const mailtrapFromName = process.env.MAILTRAP_FROM_NAME || process.env.FROM_NAME || "HR Management System";
       
       if (mailtrapToken) {
-        console.log("Mailtrap Service: Using environment variables for configuration");
-        console.log("Mailtrap Service: From email:", mailtrapFromEmail);
-        console.log("Mailtrap Service: Token length:", mailtrapToken.length);
+        log.info("Mailtrap Service: Using environment variables for configuration");
+        log.info("Mailtrap Service: From email", mailtrapFromEmail);
+        log.info("Mailtrap Service: Token length", mailtrapToken.length);
         
         this.client = new MailtrapClient({
           token: mailtrapToken,
@@ -115,23 +118,23 @@ export class MailtrapService {
         this.fromEmail = mailtrapFromEmail;
         this.fromName = mailtrapFromName;
         this.initialized = true;
-        console.log("Mailtrap Service: ✅ Initialized successfully using environment variables");
+        log.info("Mailtrap Service: ✅ Initialized successfully using environment variables");
         return true;
       }
       
       // Fall back to database configuration (for backward compatibility)
-      console.log("Mailtrap Service: Checking database for configuration...");
+      log.info("Mailtrap Service: Checking database for configuration...");
       const configs = await db.select().from(sesConfigurations).where(eq(sesConfigurations.enabled, true));
       
       if (configs.length === 0) {
-        console.log("Mailtrap Service: No enabled configuration found");
-        console.log("Mailtrap Service: Please set MAILTRAP_TOKEN environment variable or configure in settings");
+        log.info("Mailtrap Service: No enabled configuration found");
+        log.info("Mailtrap Service: Please set MAILTRAP_TOKEN environment variable or configure in settings");
         this.initialized = false;
         return false;
       }
 
       this.config = configs[0];
-      console.log("Mailtrap Service: Found configuration in database");
+      log.info("Mailtrap Service: Found configuration in database");
       
       // Try to decrypt stored token (stored in accessKeyId field for compatibility)
       let token = '';
@@ -139,19 +142,19 @@ export class MailtrapService {
         if (this.config.accessKeyId && this.config.accessKeyId !== '') {
           token = decrypt(this.config.accessKeyId);
           if (!token) {
-            console.log("Mailtrap Service: Failed to decrypt token from database");
+            log.info("Mailtrap Service: Failed to decrypt token from database");
             this.initialized = false;
             return false;
           }
         }
       } catch (error) {
-        console.error("Mailtrap Service: Error decrypting token:", error);
+        log.error("Mailtrap Service: Error decrypting token", error);
         this.initialized = false;
         return false;
       }
       
       if (!token) {
-        console.error("Mailtrap Service: No Mailtrap token found");
+        log.error("Mailtrap Service: No Mailtrap token found");
         this.initialized = false;
         return false;
       }
@@ -166,17 +169,17 @@ export class MailtrapService {
         this.fromName = this.config.fromName || mailtrapFromName;
         
         this.initialized = true;
-        console.log("Mailtrap Service: ✅ Initialized successfully from database");
+        log.info("Mailtrap Service: ✅ Initialized successfully from database");
         return true;
         
       } catch (clientError) {
-        console.error("Mailtrap Service: Failed to create Mailtrap client:", clientError);
+        log.error("Mailtrap Service: Failed to create Mailtrap client", clientError);
         this.initialized = false;
         return false;
       }
       
     } catch (error: any) {
-      console.error("Mailtrap Service: Initialization failed:", {
+      log.error("Mailtrap Service: Initialization failed", {
         message: error.message,
         code: error.code,
         stack: error.stack?.split('\n').slice(0, 3).join('\n')
@@ -257,7 +260,7 @@ export class MailtrapService {
       await this.initialize();
       return true;
     } catch (error) {
-      console.error("Mailtrap Service: Failed to save configuration", error);
+      log.error("Mailtrap Service: Failed to save configuration", error);
       return false;
     }
   }
@@ -425,7 +428,7 @@ export class MailtrapService {
   async sendEmail(options: EmailOptions): Promise<{ success: boolean; messageId?: string; error?: string }> {
     try {
       if (!this.initialized) {
-        console.log("Mailtrap Service: Not initialized, attempting to initialize...");
+        log.info("Mailtrap Service: Not initialized, attempting to initialize...");
         const initialized = await this.initialize();
         if (!initialized) {
           return { 
@@ -439,9 +442,9 @@ export class MailtrapService {
         return { success: false, error: "Mailtrap client not initialized" };
       }
 
-      console.log("Mailtrap Service: Sending email to:", options.to);
-      console.log("Mailtrap Service: Subject:", options.subject);
-      console.log("Mailtrap Service: From:", this.fromEmail);
+      log.info("Mailtrap Service: Sending email to", options.to);
+      log.info("Mailtrap Service: Subject", options.subject);
+      log.info("Mailtrap Service: From", this.fromEmail);
 
       // Send email using Mailtrap
       const response = await this.client.send({
@@ -462,8 +465,8 @@ export class MailtrapService {
         })
       });
 
-      console.log("Mailtrap Service: Email sent successfully");
-      console.log("Mailtrap Service: Response:", response);
+      log.info("Mailtrap Service: Email sent successfully");
+      log.info("Mailtrap Service: Response", response);
 
       // Mailtrap returns an object with success and message_ids
       if (response.success) {
@@ -479,7 +482,7 @@ export class MailtrapService {
       }
 
     } catch (error: any) {
-      console.error("Mailtrap Service: Send email failed:", error);
+      log.error("Mailtrap Service: Send email failed", error);
       return { 
         success: false, 
         error: error.message || 'Failed to send email' 
@@ -589,7 +592,7 @@ HR Management System
             failed++;
           }
         } catch (error: any) {
-          console.error(`Mailtrap Service: Failed to send reminder ${reminder.id}:`, error);
+          log.error(`Mailtrap Service: Failed to send reminder ${reminder.id}`, error);
           await db.update(emailReminders)
             .set({
               status: 'failed',
@@ -600,10 +603,10 @@ HR Management System
         }
       }
 
-      console.log(`Mailtrap Service: Sent ${sent} reminders, ${failed} failed`);
+      log.info(`Mailtrap Service: Sent ${sent} reminders, ${failed} failed`);
       return { sent, failed };
     } catch (error) {
-      console.error("Mailtrap Service: Error processing reminders:", error);
+      log.error("Mailtrap Service: Error processing reminders", error);
       return { sent, failed };
     }
   }
@@ -662,7 +665,7 @@ HR Management System
         region: 'global' // Mailtrap is global, no specific region
       };
     } catch (error) {
-      console.error("Mailtrap Service: Failed to get configuration status", error);
+      log.error("Mailtrap Service: Failed to get configuration status", error);
       return { configured: false, enabled: false, verified: false };
     }
   }
@@ -680,7 +683,7 @@ HR Management System
    * This method exists for API compatibility but always returns true.
    */
   async verifyEmailAddress(email: string): Promise<boolean> {
-    console.log(`Mailtrap Service: Email verification not required for ${email} (Mailtrap automatically handles this)`);
+    log.info(`Mailtrap Service: Email verification not required for ${email} (Mailtrap automatically handles this)`);
     return true;
   }
 
@@ -872,14 +875,14 @@ HR Management System
       
       // Log the attempt for debugging
       if (!result.success) {
-        console.error(`Password reset email failed for ${email}:`, result.error);
+        log.error(`Password reset email failed for ${email}`, result.error);
       } else {
-        console.log(`Password reset email sent successfully to ${email} (Message ID: ${result.messageId})`);
+        log.info(`Password reset email sent successfully to ${email} (Message ID: ${result.messageId})`);
       }
       
       return result;
     } catch (error) {
-      console.error('Error sending password reset email:', error);
+      log.error('Error sending password reset email', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to send password reset email'
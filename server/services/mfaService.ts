@@ -0,0 +1,359 @@
+/**
+ * @fileoverview Multi-Factor Authentication (TOTP) Service
+ *
+ * This module implements time-based one-time passwords (RFC 6238) for the
+ * second login step of admin and HR accounts, along with enrollment helpers
+ * and single-use recovery codes.
+ *
+ * Features:
+ * - Base32 shared secret generation compatible with authenticator apps
+ * - otpauth:// provisioning URIs rendered as QR codes for enrollment
+ * - TOTP verification with a ±1 step window for clock drift
+ * - Sign-in codes are single use: the last accepted time step is stored per
+ *   user and codes from it or an earlier step are rejected
+ * - Recovery codes stored only as SHA-256 hashes and consumed on use
+ * - Role-based enforcement policy from security settings
+ *
+ * @module mfaService
+ * @requires crypto
+ * @requires qrcode
+ */
+
+import crypto from 'crypto';
+import QRCode from 'qrcode';
+import { storage } from '../storage';
+import { encrypt, decrypt } from '../utils/encryption';
+import type { User } from '@shared/schema';
+
+/**
+ * RFC 4648 base32 alphabet used by authenticator apps
+ */
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+
+/**
+ * TOTP parameters (authenticator app defaults)
+ */
+const TOTP_STEP_SECONDS = 30;
+const TOTP_DIGITS = 6;
+const TOTP_WINDOW = 1;
+
+/**
+ * Number of recovery codes issued at enrollment
+ */
+const RECOVERY_CODE_COUNT = 10;
+
+/**
+ * Issuer label shown in authenticator apps
+ */
+const MFA_ISSUER = process.env.MFA_ISSUER || 'HR Management System';
+
+/**
+ * Enrollment material returned when a user starts MFA setup
+ */
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+  qrCodeDataUrl: string;
+}
+
+/**
+ * Encode bytes as unpadded base32
+ */
+function base32Encode(buffer: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of Array.from(buffer)) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+
+  return output;
+}
+
+/**
+ * Decode base32 (case-insensitive, padding and spaces ignored)
+ */
+function base32Decode(input: string): Buffer {
+  const cleaned = input.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error('Invalid base32 character in MFA secret');
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+/**
+ * Compute the HOTP value (RFC 4226) for a counter
+ */
+function hotp(secret: Buffer, counter: number): string {
+  const counterBuffer = Buffer.alloc(8);
+  counterBuffer.writeBigUInt64BE(BigInt(counter));
+
+  const hmac = crypto.createHmac('sha1', secret).update(counterBuffer).digest();
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const code = ((hmac[offset] & 0x7f) << 24)
+    | (hmac[offset + 1] << 16)
+    | (hmac[offset + 2] << 8)
+    | hmac[offset + 3];
+
+  return (code % 10 ** TOTP_DIGITS).toString().padStart(TOTP_DIGITS, '0');
+}
+
+/**
+ * Hash a recovery code for storage/comparison
+ * Codes are normalized so dashes and casing do not matter when typed back
+ */
+function hashRecoveryCode(code: string): string {
+  const normalized = code.replace(/[\s-]/g, '').toLowerCase();
+  return crypto.createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * MFA Service Class
+ *
+ * @class MfaService
+ * @description Stateless TOTP helper plus user-level enrollment operations.
+ * Secrets are stored encrypted on the users table; recovery codes are hashed.
+ */
+class MfaService {
+  /**
+   * Generate a new random base32 TOTP secret (160 bits)
+   * @returns {string} Base32-encoded secret
+   */
+  generateSecret(): string {
+    return base32Encode(crypto.randomBytes(20));
+  }
+
+  /**
+   * Generate the TOTP code for a secret at a point in time
+   * @param {string} secret - Base32 secret
+   * @param {number} timestamp - Milliseconds since epoch (defaults to now)
+   * @returns {string} Six-digit code
+   */
+  generateToken(secret: string, timestamp: number = Date.now()): string {
+    const counter = Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+    return hotp(base32Decode(secret), counter);
+  }
+
+  /**
+   * Verify a TOTP code, allowing one step of clock drift either way
+   * @param {string} secret - Base32 secret
+   * @param {string} token - Code entered by the user
+   * @param {number} timestamp - Milliseconds since epoch (defaults to now)
+   * @returns {boolean} True if the code is valid within the window
+   */
+  verifyToken(secret: string, token: string, timestamp: number = Date.now()): boolean {
+    return this.matchTokenStep(secret, token, timestamp) !== null;
+  }
+
+  /**
+   * Find the time step a TOTP code belongs to, within the drift window
+   * @param {string} secret - Base32 secret
+   * @param {string} token - Code entered by the user
+   * @param {number} timestamp - Milliseconds since epoch (defaults to now)
+   * @returns {number | null} Time step of the code, or null if it is invalid
+   */
+  matchTokenStep(secret: string, token: string, timestamp: number = Date.now()): number | null {
+    const normalized = (token || '').replace(/\s/g, '');
+    if (!/^\d{6}$/.test(normalized)) {
+      return null;
+    }
+
+    const key = base32Decode(secret);
+    const counter = Math.floor(timestamp / 1000 / TOTP_STEP_SECONDS);
+
+    for (let offset = -TOTP_WINDOW; offset <= TOTP_WINDOW; offset++) {
+      const expected = hotp(key, counter + offset);
+      if (crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+        return counter + offset;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Build the otpauth:// provisioning URI for authenticator apps
+   * @param {string} accountName - Label for the account (username)
+   * @param {string} secret - Base32 secret
+   * @returns {string} otpauth URI
+   */
+  buildOtpAuthUrl(accountName: string, secret: string): string {
+    const label = encodeURIComponent(`${MFA_ISSUER}:${accountName}`);
+    const params = new URLSearchParams({
+      secret,
+      issuer: MFA_ISSUER,
+      algorithm: 'SHA1',
+      digits: String(TOTP_DIGITS),
+      period: String(TOTP_STEP_SECONDS)
+    });
+    return `otpauth://totp/${label}?${params.toString()}`;
+  }
+
+  /**
+   * Generate a fresh set of human-friendly recovery codes
+   * @returns {{ codes: string[], hashes: string[] }} Plain codes (show once) and hashes (store)
+   */
+  generateRecoveryCodes(): { codes: string[]; hashes: string[] } {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+    return { codes, hashes: codes.map(hashRecoveryCode) };
+  }
+
+  /**
+   * Check whether MFA is mandatory for a user's role under the current policy
+   * @param {User} user - User to evaluate
+   * @returns {Promise<boolean>} True if the user's role must use MFA
+   */
+  async isRequiredForUser(user: User): Promise<boolean> {
+    const settings = await storage.getSecuritySettings();
+    return !!settings?.mfaRequiredRoles?.includes(user.role);
+  }
+
+  /**
+   * Start enrollment: create a pending secret and QR code for the user
+   *
+   * @param {User} user - User enrolling
+   * @returns {Promise<MfaEnrollment>} Secret, otpauth URI and QR code data URL
+   *
+   * @description The secret is saved encrypted but MFA stays disabled until
+   * the user proves possession with confirmEnrollment().
+   */
+  async beginEnrollment(user: User): Promise<MfaEnrollment> {
+    const secret = this.generateSecret();
+    const otpauthUrl = this.buildOtpAuthUrl(user.username, secret);
+    const qrCodeDataUrl = await QRCode.toDataURL(otpauthUrl);
+
+    await storage.updateUser(user.id, {
+      mfaSecret: encrypt(secret),
+      mfaEnabled: false,
+      mfaRecoveryCodes: null
+    });
+
+    return { secret, otpauthUrl, qrCodeDataUrl };
+  }
+
+  /**
+   * Complete enrollment by verifying a code from the authenticator app
+   *
+   * @param {User} user - User enrolling (must have a pending secret)
+   * @param {string} token - Current TOTP code
+   * @returns {Promise<string[] | null>} Recovery codes to show once, or null if the code is invalid
+   */
+  async confirmEnrollment(user: User, token: string): Promise<string[] | null> {
+    if (!user.mfaSecret) {
+      return null;
+    }
+
+    const secret = decrypt(user.mfaSecret);
+    if (!secret || !this.verifyToken(secret, token)) {
+      return null;
+    }
+
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await storage.updateUser(user.id, {
+      mfaEnabled: true,
+      mfaRecoveryCodes: hashes,
+      mfaEnrolledAt: new Date()
+    });
+
+    return codes;
+  }
+
+  /**
+   * Verify a TOTP code for an enrolled user and use it up
+   *
+   * @param {User} user - Enrolled user
+   * @param {string} token - Code entered by the user
+   * @returns {Promise<boolean>} True if valid and not used before
+   *
+   * @description A code is accepted once: its time step is stored and later
+   * codes must come from a newer step, so a code seen over the user's
+   * shoulder or in transit cannot be replayed within the drift window.
+   */
+  async verifyUserToken(user: User, token: string): Promise<boolean> {
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      return false;
+    }
+    const secret = decrypt(user.mfaSecret);
+    const step = secret ? this.matchTokenStep(secret, token) : null;
+    return step !== null && await storage.claimMfaTimeStep(user.id, step);
+  }
+
+  /**
+   * Consume a recovery code for an enrolled user
+   *
+   * @param {User} user - Enrolled user
+   * @param {string} code - Recovery code entered by the user
+   * @returns {Promise<number | null>} Remaining recovery codes, or null if the code is invalid
+   */
+  async consumeRecoveryCode(user: User, code: string): Promise<number | null> {
+    const hashes = user.mfaRecoveryCodes || [];
+    const hash = hashRecoveryCode(code || '');
+    const index = hashes.indexOf(hash);
+
+    if (!user.mfaEnabled || index === -1) {
+      return null;
+    }
+
+    const remaining = hashes.filter((_, i) => i !== index);
+    await storage.updateUser(user.id, { mfaRecoveryCodes: remaining });
+
+    return remaining.length;
+  }
+
+  /**
+   * Issue a new set of recovery codes, invalidating the previous set
+   * @param {User} user - Enrolled user
+   * @returns {Promise<string[]>} New recovery codes to show once
+   */
+  async regenerateRecoveryCodes(user: User): Promise<string[]> {
+    const { codes, hashes } = this.generateRecoveryCodes();
+    await storage.updateUser(user.id, { mfaRecoveryCodes: hashes });
+    return codes;
+  }
+
+  /**
+   * Remove MFA from a user entirely (admin reset or self-disable)
+   * @param {number} userId - User ID
+   */
+  async reset(userId: number): Promise<void> {
+    await storage.updateUser(userId, {
+      mfaEnabled: false,
+      mfaSecret: null,
+      mfaRecoveryCodes: null,
+      mfaEnrolledAt: null
+    });
+  }
+}
+
+/**
+ * Singleton instance of MFA service
+ * @type {MfaService}
+ */
+export const mfaService = new MfaService();
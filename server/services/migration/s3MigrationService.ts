@@ -21,6 +21,9 @@ import path from 'path';
 import { storage } from '../../storage';
 import { s3Service } from '../s3Service';
 import type { Document, ComplianceDocument, EmployeeDocumentUpload } from '@shared/schema';
+import { logger } from '../../utils/logger';
+
+const log = logger.child({ module: 's3-migration' });
 
 /**
  * Migration result interface
@@ -90,11 +93,11 @@ export class S3MigrationService {
     const startTime = Date.now();
     const { dryRun = false, deleteLocal = false, batchSize = this.BATCH_SIZE, validateUpload = true } = options;
 
-    console.log(`\n=== Starting Employee Documents Migration ===`);
-    console.log(`Employee ID: ${employeeId || 'ALL'}`);
-    console.log(`Dry Run: ${dryRun}`);
-    console.log(`Delete Local: ${deleteLocal}`);
-    console.log(`Batch Size: ${batchSize}\n`);
+    log.info(`\n=== Starting Employee Documents Migration ===`);
+    log.info(`Employee ID: ${employeeId || 'ALL'}`);
+    log.info(`Dry Run: ${dryRun}`);
+    log.info(`Delete Local: ${deleteLocal}`);
+    log.info(`Batch Size: ${batchSize}\n`);
 
     const result: MigrationResult = {
       total: 0,
@@ -127,7 +130,7 @@ export class S3MigrationService {
       }
 
       result.total = allDocuments.length;
-      console.log(`Found ${result.total} employee documents to process`);
+      log.info(`Found ${result.total} employee documents to process`);
 
       for (let i = 0; i < allDocuments.length; i += batchSize) {
         const batch = allDocuments.slice(i, i + batchSize);
@@ -156,11 +159,11 @@ export class S3MigrationService {
         );
 
         const progress = Math.round(((i + batch.length) / result.total) * 100);
-        console.log(`Progress: ${i + batch.length}/${result.total} (${progress}%)`);
+        log.info(`Progress: ${i + batch.length}/${result.total} (${progress}%)`);
       }
 
     } catch (error) {
-      console.error('Employee documents migration failed:', error);
+      log.error('Employee documents migration failed', error);
       result.errors.push({
         documentId: 0,
         tableName: 'documents',
@@ -186,11 +189,11 @@ export class S3MigrationService {
     const startTime = Date.now();
     const { dryRun = false, deleteLocal = false, batchSize = this.BATCH_SIZE, validateUpload = true } = options;
 
-    console.log(`\n=== Starting Compliance Documents Migration ===`);
-    console.log(`Location ID: ${locationId || 'ALL'}`);
-    console.log(`Dry Run: ${dryRun}`);
-    console.log(`Delete Local: ${deleteLocal}`);
-    console.log(`Batch Size: ${batchSize}\n`);
+    log.info(`\n=== Starting Compliance Documents Migration ===`);
+    log.info(`Location ID: ${locationId || 'ALL'}`);
+    log.info(`Dry Run: ${dryRun}`);
+    log.info(`Delete Local: ${deleteLocal}`);
+    log.info(`Batch Size: ${batchSize}\n`);
 
     const result: MigrationResult = {
       total: 0,
@@ -223,7 +226,7 @@ export class S3MigrationService {
       }
 
       result.total = allDocuments.length;
-      console.log(`Found ${result.total} compliance documents to process`);
+      log.info(`Found ${result.total} compliance documents to process`);
 
       for (let i = 0; i < allDocuments.length; i += batchSize) {
         const batch = allDocuments.slice(i, i + batchSize);
@@ -253,11 +256,11 @@ export class S3MigrationService {
         );
 
         const progress = Math.round(((i + batch.length) / result.total) * 100);
-        console.log(`Progress: ${i + batch.length}/${result.total} (${progress}%)`);
+        log.info(`Progress: ${i + batch.length}/${result.total} (${progress}%)`);
       }
 
     } catch (error) {
-      console.error('Compliance documents migration failed:', error);
+      log.error('Compliance documents migration failed', error);
       result.errors.push({
         documentId: 0,
         tableName: 'complianceDocuments',
@@ -283,11 +286,11 @@ export class S3MigrationService {
     const startTime = Date.now();
     const { dryRun = false, deleteLocal = false, batchSize = this.BATCH_SIZE, validateUpload = true } = options;
 
-    console.log(`\n=== Starting Onboarding Documents Migration ===`);
-    console.log(`Employee ID: ${employeeId || 'ALL'}`);
-    console.log(`Dry Run: ${dryRun}`);
-    console.log(`Delete Local: ${deleteLocal}`);
-    console.log(`Batch Size: ${batchSize}\n`);
+    log.info(`\n=== Starting Onboarding Documents Migration ===`);
+    log.info(`Employee ID: ${employeeId || 'ALL'}`);
+    log.info(`Dry Run: ${dryRun}`);
+    log.info(`Delete Local: ${deleteLocal}`);
+    log.info(`Batch Size: ${batchSize}\n`);
 
     const result: MigrationResult = {
       total: 0,
@@ -316,7 +319,7 @@ export class S3MigrationService {
       }
 
       result.total = allDocuments.length;
-      console.log(`Found ${result.total} onboarding documents to process`);
+      log.info(`Found ${result.total} onboarding documents to process`);
 
       for (let i = 0; i < allDocuments.length; i += batchSize) {
         const batch = allDocuments.slice(i, i + batchSize);
@@ -342,11 +345,11 @@ export class S3MigrationService {
         );
 
         const progress = Math.round(((i + batch.length) / result.total) * 100);
-        console.log(`Progress: ${i + batch.length}/${result.total} (${progress}%)`);
+        log.info(`Progress: ${i + batch.length}/${result.total} (${progress}%)`);
       }
 
     } catch (error) {
-      console.error('Onboarding documents migration failed:', error);
+      log.error('Onboarding documents migration failed', error);
       result.errors.push({
         documentId: 0,
         tableName: 'employeeDocumentUploads',
@@ -382,9 +385,9 @@ export class S3MigrationService {
   ): Promise<MigrationResult> {
     const startTime = Date.now();
 
-    console.log(`\n========================================`);
-    console.log(`   MIGRATING ALL DOCUMENTS TO S3`);
-    console.log(`========================================\n`);
+    log.info(`\n========================================`);
+    log.info(`   MIGRATING ALL DOCUMENTS TO S3`);
+    log.info(`========================================\n`);
 
     const combinedResult: MigrationResult = {
       total: 0,
@@ -406,9 +409,9 @@ export class S3MigrationService {
 
     combinedResult.duration = Date.now() - startTime;
 
-    console.log(`\n========================================`);
-    console.log(`   MIGRATION COMPLETE`);
-    console.log(`========================================`);
+    log.info(`\n========================================`);
+    log.info(`   MIGRATION COMPLETE`);
+    log.info(`========================================`);
     this.logMigrationSummary('ALL DOCUMENTS', combinedResult);
 
     return combinedResult;
@@ -437,7 +440,7 @@ export class S3MigrationService {
           tableName: doc.tableName,
           error: errorMessage
         });
-        console.error(`Error migrating document ${doc.id} from ${doc.tableName}: ${errorMessage}`);
+        log.error(`Error migrating document ${doc.id} from ${doc.tableName}: ${errorMessage}`);
       }
     }
   }
@@ -456,7 +459,7 @@ export class S3MigrationService {
   ): Promise<void> {
     if (!docInfo.filePath) {
       result.skipped++;
-      console.log(`Skipped ${docInfo.tableName}:${docInfo.id} - No file path`);
+      log.info(`Skipped ${docInfo.tableName}:${docInfo.id} - No file path`);
       return;
     }
 
@@ -464,14 +467,14 @@ export class S3MigrationService {
       const doc = await storage.getDocument(docInfo.id);
       if (doc?.storageType === 's3') {
         result.skipped++;
-        console.log(`Skipped ${docInfo.tableName}:${docInfo.id} - Already on S3`);
+        log.info(`Skipped ${docInfo.tableName}:${docInfo.id} - Already on S3`);
         return;
       }
     } else if (docInfo.tableName === 'complianceDocuments') {
       const doc = await storage.getComplianceDocument(docInfo.id);
       if (doc?.storageType === 's3') {
         result.skipped++;
-        console.log(`Skipped ${docInfo.tableName}:${docInfo.id} - Already on S3`);
+        log.info(`Skipped ${docInfo.tableName}:${docInfo.id} - Already on S3`);
         return;
       }
     }
@@ -484,13 +487,13 @@ export class S3MigrationService {
       await fs.access(localPath);
     } catch (error) {
       result.skipped++;
-      console.log(`Skipped ${docInfo.tableName}:${docInfo.id} - File not found: ${localPath}`);
+      log.info(`Skipped ${docInfo.tableName}:${docInfo.id} - File not found: ${localPath}`);
       return;
     }
 
     if (dryRun) {
       result.migrated++;
-      console.log(`[DRY RUN] Would migrate ${docInfo.tableName}:${docInfo.id} - ${docInfo.fileName}`);
+      log.info(`[DRY RUN] Would migrate ${docInfo.tableName}:${docInfo.id} - ${docInfo.fileName}`);
       return;
     }
 
@@ -538,18 +541,18 @@ export class S3MigrationService {
     }
 
     if (validateUpload && docInfo.fileSize && stats.size !== docInfo.fileSize) {
-      console.warn(`Warning: File size mismatch for ${docInfo.tableName}:${docInfo.id}. Expected ${docInfo.fileSize}, got ${stats.size}`);
+      log.warn(`Warning: File size mismatch for ${docInfo.tableName}:${docInfo.id}. Expected ${docInfo.fileSize}, got ${stats.size}`);
     }
 
     await updateDatabase(docInfo, uploadResult.storageKey, uploadResult.etag, uploadResult.versionId);
 
     if (deleteLocal) {
       await fs.unlink(localPath);
-      console.log(`Deleted local file: ${localPath}`);
+      log.info(`Deleted local file: ${localPath}`);
     }
 
     result.migrated++;
-    console.log(`Migrated ${docInfo.tableName}:${docInfo.id} - ${docInfo.fileName} -> ${s3Key}`);
+    log.info(`Migrated ${docInfo.tableName}:${docInfo.id} - ${docInfo.fileName} -> ${s3Key}`);
   }
 
   /**
@@ -592,20 +595,20 @@ export class S3MigrationService {
    * @private
    */
   private logMigrationSummary(category: string, result: MigrationResult): void {
-    console.log(`\n--- ${category} Migration Summary ---`);
-    console.log(`Total Documents: ${result.total}`);
-    console.log(`Migrated: ${result.migrated} ✅`);
-    console.log(`Skipped: ${result.skipped} ⏭️`);
-    console.log(`Failed: ${result.failed} ❌`);
-    console.log(`Duration: ${(result.duration / 1000).toFixed(2)}s`);
+    log.info(`\n--- ${category} Migration Summary ---`);
+    log.info(`Total Documents: ${result.total}`);
+    log.info(`Migrated: ${result.migrated} ✅`);
+    log.info(`Skipped: ${result.skipped} ⏭️`);
+    log.info(`Failed: ${result.failed} ❌`);
+    log.info(`Duration: ${(result.duration / 1000).toFixed(2)}s`);
     
     if (result.errors.length > 0) {
-      console.log(`\nErrors (${result.errors.length}):`);
+      log.info(`\nErrors (${result.errors.length}):`);
       result.errors.forEach((err, idx) => {
-        console.log(`  ${idx + 1}. [${err.tableName}:${err.documentId}] ${err.error}`);
+        log.info(`  ${idx + 1}. [${err.tableName}:${err.documentId}] ${err.error}`);
       });
     }
-    console.log('');
+    log.info('');
   }
 
   /**
@@ -616,7 +619,7 @@ export class S3MigrationService {
    */
   async rollbackDocument(tableName: string, documentId: number): Promise<boolean> {
     try {
-      console.log(`Rolling back ${tableName}:${documentId} from S3 to local storage`);
+      log.info(`Rolling back ${tableName}:${documentId} from S3 to local storage`);
 
       let storageKey: string | null = null;
       let originalPath: string | null = null;
@@ -674,11 +677,11 @@ export class S3MigrationService {
         });
       }
 
-      console.log(`Successfully rolled back ${tableName}:${documentId} to ${localPath}`);
+      log.info(`Successfully rolled back ${tableName}:${documentId} to ${localPath}`);
       return true;
 
     } catch (error) {
-      console.error(`Rollback failed for ${tableName}:${documentId}:`, error);
+      log.error(`Rollback failed for ${tableName}:${documentId}`, error);
       return false;
     }
   }
@@ -708,7 +711,7 @@ export class S3MigrationService {
         estimatedSize
       };
     } catch (error) {
-      console.error('Failed to get migration stats:', error);
+      log.error('Failed to get migration stats', error);
       throw error;
     }
   }
@@ -0,0 +1,308 @@
+/**
+ * @fileoverview OpenID Connect Single Sign-On Service
+ *
+ * This module lets staff sign in with the organization's identity provider
+ * alongside the existing username/password login. It wraps openid-client
+ * (authorization code flow with PKCE) and handles account linking.
+ *
+ * Features:
+ * - Issuer discovery with cached client configuration
+ * - Authorization code + PKCE with state and nonce checks
+ * - Just-in-time linking of IdP identities to `users` rows by email
+ * - Optional auto-provisioning of new users on first sign-in
+ * - IdP group to role mapping (admin, hr, employee) from security settings
+ *
+ * Configuration (environment):
+ * - OIDC_ISSUER_URL: Issuer identifier (discovery base URL)
+ * - OIDC_CLIENT_ID / OIDC_CLIENT_SECRET: Client credentials registered at the IdP
+ * - OIDC_REDIRECT_URI: Optional explicit callback URL (defaults to <base>/api/auth/oidc/callback)
+ * - OIDC_SCOPES: Optional scopes (default "openid email profile groups")
+ * - OIDC_GROUPS_CLAIM: Claim holding group names (default "groups")
+ * - OIDC_DISPLAY_NAME: Label for the login button (default "Single Sign-On")
+ * - OIDC_ALLOW_INSECURE: "true" to allow an http:// issuer (local mock IdP only; ignored in production)
+ *
+ * @module oidcService
+ * @requires openid-client
+ */
+
+import * as client from 'openid-client';
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import type { User, SsoRoleMappings } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'oidc' });
+
+/**
+ * Role precedence when a user's groups map to more than one role
+ */
+const ROLE_PRECEDENCE: Array<keyof SsoRoleMappings> = ['admin', 'hr', 'employee'];
+
+/**
+ * Values carried in the session between the redirect and the callback
+ */
+export interface OidcAuthorizationRequest {
+  url: string;
+  state: string;
+  nonce: string;
+  codeVerifier: string;
+}
+
+/**
+ * Identity claims used for linking and role mapping
+ */
+export interface OidcIdentity {
+  subject: string;
+  email?: string;
+  emailVerified?: boolean;
+  preferredUsername?: string;
+  groups: string[];
+}
+
+/**
+ * Error raised when an IdP identity cannot be signed in
+ * The message is safe to show to the end user.
+ */
+export class OidcLoginError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OidcLoginError';
+  }
+}
+
+/**
+ * OIDC Service Class
+ *
+ * @class OidcService
+ * @description Lazily discovers the issuer on first use and caches the
+ * resulting client configuration for the process lifetime.
+ */
+class OidcService {
+  private configPromise: Promise<client.Configuration> | null = null;
+
+  /**
+   * Check whether SSO environment variables are present
+   * @returns {boolean} True when issuer and client ID are configured
+   */
+  isConfigured(): boolean {
+    return !!(process.env.OIDC_ISSUER_URL && process.env.OIDC_CLIENT_ID);
+  }
+
+  /**
+   * Label for the sign-in button
+   * @returns {string} Display name for the identity provider
+   */
+  getDisplayName(): string {
+    return process.env.OIDC_DISPLAY_NAME || 'Single Sign-On';
+  }
+
+  /**
+   * Discover the issuer and build the client configuration (cached)
+   * @returns {Promise<client.Configuration>} openid-client configuration
+   * @throws {Error} If SSO is not configured or discovery fails
+   */
+  private async getConfiguration(): Promise<client.Configuration> {
+    if (!this.isConfigured()) {
+      throw new Error('OpenID Connect is not configured');
+    }
+
+    if (!this.configPromise) {
+      const allowInsecure = process.env.OIDC_ALLOW_INSECURE === 'true' && process.env.NODE_ENV !== 'production';
+
+      this.configPromise = client.discovery(
+        new URL(process.env.OIDC_ISSUER_URL!),
+        process.env.OIDC_CLIENT_ID!,
+        process.env.OIDC_CLIENT_SECRET,
+        undefined,
+        allowInsecure ? { execute: [client.allowInsecureRequests] } : undefined
+      ).catch((error) => {
+        // Allow a retry on the next login attempt
+        this.configPromise = null;
+        throw error;
+      });
+    }
+
+    return this.configPromise;
+  }
+
+  /**
+   * Drop the cached issuer configuration (used after env changes and in tests)
+   */
+  resetConfiguration(): void {
+    this.configPromise = null;
+  }
+
+  /**
+   * Build the IdP authorization URL with PKCE, state and nonce
+   *
+   * @param {string} redirectUri - Callback URL registered at the IdP
+   * @returns {Promise<OidcAuthorizationRequest>} Redirect URL and values to keep in the session
+   */
+  async createAuthorizationRequest(redirectUri: string): Promise<OidcAuthorizationRequest> {
+    const config = await this.getConfiguration();
+    const codeVerifier = client.randomPKCECodeVerifier();
+    const state = client.randomState();
+    const nonce = client.randomNonce();
+
+    const url = client.buildAuthorizationUrl(config, {
+      redirect_uri: redirectUri,
+      scope: process.env.OIDC_SCOPES || 'openid email profile groups',
+      code_challenge: await client.calculatePKCECodeChallenge(codeVerifier),
+      code_challenge_method: 'S256',
+      state,
+      nonce
+    });
+
+    return { url: url.href, state, nonce, codeVerifier };
+  }
+
+  /**
+   * Exchange the authorization code and extract the identity claims
+   *
+   * @param {URL} callbackUrl - Full callback URL including code and state
+   * @param {object} checks - Values saved when the login started
+   * @returns {Promise<OidcIdentity>} Verified identity from the ID token
+   */
+  async handleCallback(
+    callbackUrl: URL,
+    checks: { state: string; nonce: string; codeVerifier: string }
+  ): Promise<OidcIdentity> {
+    const config = await this.getConfiguration();
+    const tokens = await client.authorizationCodeGrant(config, callbackUrl, {
+      pkceCodeVerifier: checks.codeVerifier,
+      expectedState: checks.state,
+      expectedNonce: checks.nonce,
+      idTokenExpected: true
+    });
+
+    const claims = tokens.claims();
+    if (!claims) {
+      throw new OidcLoginError('Identity provider did not return an ID token');
+    }
+
+    const groupsClaim = process.env.OIDC_GROUPS_CLAIM || 'groups';
+    const rawGroups = claims[groupsClaim];
+
+    return {
+      subject: claims.sub,
+      email: typeof claims.email === 'string' ? claims.email : undefined,
+      // Some IdPs send the claim as a string
+      emailVerified: claims.email_verified === true || claims.email_verified === 'true',
+      preferredUsername: typeof claims.preferred_username === 'string' ? claims.preferred_username : undefined,
+      groups: Array.isArray(rawGroups) ? rawGroups.map(String) : typeof rawGroups === 'string' ? [rawGroups] : []
+    };
+  }
+
+  /**
+   * Map IdP groups to a system role using the configured mappings
+   *
+   * @param {string[]} groups - Group names from the ID token
+   * @param {SsoRoleMappings | null | undefined} mappings - Group names per role
+   * @returns {string | null} Highest matching role, or null if no group matches
+   */
+  resolveRole(groups: string[], mappings: SsoRoleMappings | null | undefined): string | null {
+    if (!mappings) return null;
+    const memberOf = new Set(groups.map(group => group.toLowerCase()));
+
+    for (const role of ROLE_PRECEDENCE) {
+      const roleGroups = mappings[role] || [];
+      if (roleGroups.some(group => memberOf.has(group.toLowerCase()))) {
+        return role;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Find, link or provision the local user for an IdP identity
+   *
+   * @param {OidcIdentity} identity - Verified identity claims
+   * @returns {Promise<User>} User to sign in
+   * @throws {OidcLoginError} If the identity cannot be matched or the account is not active
+   *
+   * @description
+   * 1. A user already linked to the IdP subject is used directly.
+   * 2. Otherwise a user with the same email is linked just-in-time, but only
+   *    when the IdP asserts email_verified; a missing claim counts as unverified.
+   * 3. Otherwise, if auto-provisioning is on and a group maps to a role, a new user is created.
+   * When groups map to a role, the user's role is kept in sync with the IdP.
+   */
+  async findOrProvisionUser(identity: OidcIdentity): Promise<User> {
+    const settings = await storage.getSecuritySettings();
+    const mappedRole = this.resolveRole(identity.groups, settings?.ssoRoleMappings as SsoRoleMappings | null);
+
+    let user = await storage.getUserByOidcSubject(identity.subject);
+
+    if (!user) {
+      // An IdP that does not vouch for the address could claim any local account, admins included
+      if (!identity.email || identity.emailVerified !== true) {
+        throw new OidcLoginError('Your identity provider account has no verified email address');
+      }
+
+      user = await storage.getUserByEmail(identity.email)
+        ?? await storage.getUserByEmail(identity.email.toLowerCase());
+
+      if (user) {
+        if (user.oidcSubject && user.oidcSubject !== identity.subject) {
+          throw new OidcLoginError('This account is already linked to a different identity');
+        }
+        user = await storage.updateUser(user.id, { oidcSubject: identity.subject });
+        log.info(`SSO: linked user '${user.username}' (ID: ${user.id}) to IdP subject`);
+      } else {
+        if (!mappedRole || settings?.ssoAutoProvision === false) {
+          throw new OidcLoginError('No account exists for your email address. Please contact your administrator.');
+        }
+
+        user = await storage.createUser({
+          username: await this.uniqueUsername(identity.preferredUsername || identity.email),
+          // Random unusable password; SSO users sign in through the IdP
+          passwordHash: await hashPassword(randomBytes(32).toString('hex')),
+          role: mappedRole,
+          email: identity.email.toLowerCase(),
+          status: 'active'
+        });
+        user = await storage.updateUser(user.id, { oidcSubject: identity.subject });
+        log.info(`SSO: provisioned user '${user.username}' (ID: ${user.id}) with role '${mappedRole}'`);
+      }
+    }
+
+    if (user.status !== 'active') {
+      throw new OidcLoginError('Your account is not active. Please contact your administrator.');
+    }
+
+    if (mappedRole && user.role !== mappedRole) {
+      log.info(`SSO: updating role for user '${user.username}' from '${user.role}' to '${mappedRole}'`);
+      user = await storage.updateUser(user.id, { role: mappedRole });
+    }
+
+    return user;
+  }
+
+  /**
+   * Derive a unique username (max 50 chars) from an IdP username or email
+   */
+  private async uniqueUsername(base: string): Promise<string> {
+    const candidate = base.toLowerCase().slice(0, 50);
+    if (!(await storage.getUserByUsername(candidate))) {
+      return candidate;
+    }
+
+    for (let attempt = 2; attempt < 100; attempt++) {
+      const suffix = `-${attempt}`;
+      const next = `${candidate.slice(0, 50 - suffix.length)}${suffix}`;
+      if (!(await storage.getUserByUsername(next))) {
+        return next;
+      }
+    }
+
+    throw new OidcLoginError('Could not create a username for your account. Please contact your administrator.');
+  }
+}
+
+/**
+ * Singleton instance of OIDC service
+ * @type {OidcService}
+ */
+export const oidcService = new OidcService();
@@ -0,0 +1,707 @@
+/**
+ * @fileoverview OpenAPI Document Generator
+ *
+ * Builds an OpenAPI 3 description of the REST API from the routes registered
+ * on the Express app, so the document cannot drift from the handlers:
+ *
+ * - Paths, methods and path parameters come from the Express router
+ * - Query, path and body fields come from the express-validator chains in
+ *   each route (middleware/validation.ts and inline `query()`/`body()` calls)
+ * - Request and response bodies of the CRUD resources come from the Zod
+ *   insert schemas and Drizzle tables in shared/schema.ts
+ * - Security, permissions and roles come from the auth middleware on each
+ *   route (see utils/routeMetadata)
+ *
+ * Served at GET /api/openapi.json and rendered by the in-app API explorer.
+ *
+ * @module openApiService
+ */
+
+import type { Application } from 'express';
+import { z, ZodEffects, ZodObject, type ZodTypeAny } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { createSelectSchema } from 'drizzle-zod';
+import type { PgTable } from 'drizzle-orm/pg-core';
+import type { ContextBuilder } from 'express-validator/lib/context-builder';
+import type { ContextItem } from 'express-validator/lib/context-items';
+import { getMiddlewareMetadata, type MiddlewareMetadata } from '../utils/routeMetadata';
+import {
+  employees,
+  educations,
+  employments,
+  peerReferences,
+  stateLicenses,
+  deaLicenses,
+  boardCertifications,
+  emergencyContacts,
+  taxForms,
+  trainings,
+  payerEnrollments,
+  incidentLogs,
+  documents,
+  tasks,
+  locations,
+  licenseTypes,
+  responsiblePersons,
+  clinicLicenses,
+  complianceDocuments,
+  roles,
+  insertEmployeeSchema,
+  insertEducationSchema,
+  insertEmploymentSchema,
+  insertPeerReferenceSchema,
+  insertStateLicenseSchema,
+  insertDeaLicenseSchema,
+  insertBoardCertificationSchema,
+  insertEmergencyContactSchema,
+  insertTaxFormSchema,
+  insertTrainingSchema,
+  insertPayerEnrollmentSchema,
+  insertIncidentLogSchema,
+  insertDocumentSchema,
+  insertTaskSchema,
+  insertLocationSchema,
+  insertLicenseTypeSchema,
+  insertResponsiblePersonSchema,
+  insertClinicLicenseSchema,
+  insertComplianceDocumentSchema,
+  insertRoleSchema,
+  insertWebhookEndpointSchema
+} from '@shared/schema';
+
+/**
+ * JSON Schema object as used in OpenAPI 3.0
+ */
+export type JsonSchema = Record<string, any>;
+
+/**
+ * OpenAPI parameter object
+ */
+export interface OpenApiParameter {
+  name: string;
+  in: 'path' | 'query' | 'header';
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+/**
+ * OpenAPI operation object (one method on one path)
+ */
+export interface OpenApiOperation {
+  operationId: string;
+  tags: string[];
+  summary?: string;
+  description?: string;
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, { schema: JsonSchema }> };
+  responses: Record<string, { description: string; content?: Record<string, { schema: JsonSchema }> }>;
+  security?: Array<Record<string, string[]>>;
+  'x-permissions'?: string[];
+  'x-roles'?: string[];
+}
+
+/**
+ * OpenAPI 3 document
+ */
+export interface OpenApiDocument {
+  openapi: string;
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  tags: Array<{ name: string }>;
+  paths: Record<string, Record<string, OpenApiOperation>>;
+  components: {
+    securitySchemes: Record<string, JsonSchema>;
+    schemas: Record<string, JsonSchema>;
+  };
+}
+
+/**
+ * A CRUD resource whose bodies are described by its Zod insert schema
+ */
+interface ResourceDefinition {
+  /** Component name (singular, PascalCase) */
+  name: string;
+  /** Zod insert schema from shared/schema.ts */
+  insert: ZodTypeAny;
+  /** Drizzle table, used for response bodies */
+  table?: PgTable;
+  /** List and create path */
+  collection?: string;
+  /** Get, update and delete path */
+  item?: string;
+  /** Property holding the rows when the list is paginated ({ <key>, total, page, totalPages }) */
+  listKey?: string;
+  /** Column filled from the :id of a nested collection path (e.g. employeeId) */
+  parentKey?: string;
+}
+
+/**
+ * Employee sub-records created under /api/employees/:id/<segment> and
+ * changed under /api/<segment>/:id
+ */
+const employeeRecord = (
+  name: string,
+  segment: string,
+  insert: ZodTypeAny,
+  table: ResourceDefinition['table']
+): ResourceDefinition => ({
+  name,
+  insert,
+  table,
+  collection: `/api/employees/:id/${segment}`,
+  item: `/api/${segment}/:id`,
+  parentKey: 'employeeId'
+});
+
+/**
+ * Resources documented from their Zod insert schemas
+ */
+const RESOURCES: ResourceDefinition[] = [
+  { name: 'Employee', insert: insertEmployeeSchema, table: employees, collection: '/api/employees', item: '/api/employees/:id', listKey: 'employees' },
+  employeeRecord('Education', 'educations', insertEducationSchema, educations),
+  employeeRecord('Employment', 'employments', insertEmploymentSchema, employments),
+  employeeRecord('PeerReference', 'peer-references', insertPeerReferenceSchema, peerReferences),
+  employeeRecord('StateLicense', 'state-licenses', insertStateLicenseSchema, stateLicenses),
+  employeeRecord('DeaLicense', 'dea-licenses', insertDeaLicenseSchema, deaLicenses),
+  employeeRecord('BoardCertification', 'board-certifications', insertBoardCertificationSchema, boardCertifications),
+  employeeRecord('EmergencyContact', 'emergency-contacts', insertEmergencyContactSchema, emergencyContacts),
+  employeeRecord('TaxForm', 'tax-forms', insertTaxFormSchema, taxForms),
+  employeeRecord('Training', 'trainings', insertTrainingSchema, trainings),
+  employeeRecord('PayerEnrollment', 'payer-enrollments', insertPayerEnrollmentSchema, payerEnrollments),
+  employeeRecord('IncidentLog', 'incident-logs', insertIncidentLogSchema, incidentLogs),
+  { name: 'Document', insert: insertDocumentSchema, table: documents, collection: '/api/documents', item: '/api/documents/:id', listKey: 'documents' },
+  { name: 'Task', insert: insertTaskSchema, table: tasks, collection: '/api/tasks', item: '/api/tasks/:id' },
+  { name: 'Location', insert: insertLocationSchema, table: locations, collection: '/api/locations', item: '/api/locations/:id', listKey: 'locations' },
+  { name: 'LicenseType', insert: insertLicenseTypeSchema, table: licenseTypes, collection: '/api/license-types', item: '/api/license-types/:id', listKey: 'licenseTypes' },
+  { name: 'ResponsiblePerson', insert: insertResponsiblePersonSchema, table: responsiblePersons, collection: '/api/responsible-persons', item: '/api/responsible-persons/:id', listKey: 'persons' },
+  { name: 'ClinicLicense', insert: insertClinicLicenseSchema, table: clinicLicenses, collection: '/api/clinic-licenses', item: '/api/clinic-licenses/:id', listKey: 'licenses' },
+  { name: 'ComplianceDocument', insert: insertComplianceDocumentSchema, table: complianceDocuments, collection: '/api/compliance-documents', item: '/api/compliance-documents/:id', listKey: 'documents' },
+  { name: 'Role', insert: insertRoleSchema, table: roles, collection: '/api/admin/roles', item: '/api/admin/roles/:id' },
+  { name: 'WebhookEndpoint', insert: insertWebhookEndpointSchema, collection: '/api/settings/webhooks', item: '/api/settings/webhooks/:id' }
+];
+
+/**
+ * Path prefixes included in the document
+ */
+const DOCUMENTED_PREFIXES = ['/api/', '/scim/v2/'];
+
+/**
+ * HTTP methods documented (HEAD and OPTIONS are handled by Express)
+ */
+const DOCUMENTED_METHODS = ['get', 'post', 'put', 'patch', 'delete'];
+
+const ERROR_RESPONSE = { $ref: '#/components/schemas/ErrorResponse' };
+
+/**
+ * Options passed to a validator: bounds for isInt/isLength, values for isIn,
+ * a pattern for matches
+ */
+type ValidatorOptions = { min?: number; max?: number } | unknown[] | RegExp | string;
+
+/**
+ * Validation chain item as stored by express-validator; standard validators
+ * keep these fields private, so they are read structurally
+ */
+interface ValidationChainItem extends ContextItem {
+  validator?: { name: string };
+  negated?: boolean;
+  options?: [ValidatorOptions?, ...unknown[]];
+  message?: unknown;
+}
+
+/**
+ * Minimal view of an Express route layer
+ */
+interface RouteLayer {
+  route?: {
+    path: unknown;
+    methods: Record<string, boolean>;
+    stack: Array<{ handle: Function & { builder?: ContextBuilder; name: string } }>;
+  };
+}
+
+/**
+ * Field extracted from an express-validator chain
+ */
+interface ValidatedField {
+  name: string;
+  location: string;
+  required: boolean;
+  schema: JsonSchema;
+  message?: string;
+}
+
+/**
+ * Convert a Zod schema to an OpenAPI 3.0 schema
+ * @param {ZodTypeAny} schema - Zod schema
+ * @returns {JsonSchema} Schema without the $schema keyword
+ */
+function toJsonSchema(schema: ZodTypeAny): JsonSchema {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, { target: 'openApi3', $refStrategy: 'none' }) as JsonSchema;
+  return jsonSchema;
+}
+
+/**
+ * Remove .refine() wrappers so the object shape can be picked or made partial
+ * @param {ZodTypeAny} schema - Insert schema
+ * @returns {ZodObject | null} Underlying object schema, or null when it is not an object
+ */
+function unwrapObject(schema: ZodTypeAny): ZodObject<any> | null {
+  let current: ZodTypeAny = schema;
+  while (current instanceof ZodEffects) {
+    current = current.innerType();
+  }
+  return current instanceof ZodObject ? current : null;
+}
+
+/**
+ * Read min/max bounds from validator options
+ * @param {ValidatorOptions} [options] - First validator option
+ * @returns {{ min?: number; max?: number }} Bounds, empty when the options are not an object
+ */
+function boundsOf(options?: ValidatorOptions): { min?: number; max?: number } {
+  return options && typeof options === 'object' && !Array.isArray(options) && !(options instanceof RegExp) ? options : {};
+}
+
+/**
+ * Describe one express-validator field as a JSON schema
+ * @param {ContextBuilder} builder - Chain builder attached to the middleware
+ * @returns {ValidatedField[]} One entry per field and location
+ */
+function describeValidationChain(builder: ContextBuilder): ValidatedField[] {
+  const context = builder.build();
+  const schema: JsonSchema = { type: 'string' };
+  let required = context.optional === false;
+  let message: string | undefined;
+
+  for (const item of context.stack as ReadonlyArray<ValidationChainItem>) {
+    const validatorName = item.validator?.name;
+    const [options] = item.options ?? [];
+    const { min, max } = boundsOf(options);
+    if (typeof item.message === 'string') {
+      message = item.message;
+    }
+
+    switch (validatorName) {
+      case 'isInt':
+        schema.type = 'integer';
+        if (min !== undefined) schema.minimum = min;
+        if (max !== undefined) schema.maximum = max;
+        break;
+      case 'isFloat':
+      case 'isNumeric':
+      case 'isDecimal':
+        schema.type = 'number';
+        break;
+      case 'isBoolean':
+        schema.type = 'boolean';
+        break;
+      case 'isEmail':
+        schema.format = 'email';
+        break;
+      case 'isURL':
+        schema.format = 'uri';
+        break;
+      case 'isUUID':
+        schema.format = 'uuid';
+        break;
+      case 'isDate':
+        schema.format = 'date';
+        break;
+      case 'isISO8601':
+        schema.format = 'date-time';
+        break;
+      case 'isIn':
+        if (Array.isArray(options)) schema.enum = options;
+        break;
+      case 'isLength':
+        if (min !== undefined) schema.minLength = min;
+        if (max !== undefined) schema.maxLength = max;
+        break;
+      case 'matches':
+        if (options instanceof RegExp) schema.pattern = options.source;
+        else if (typeof options === 'string') schema.pattern = options;
+        break;
+      case 'isEmpty':
+        // notEmpty() is a negated isEmpty()
+        if (item.negated) {
+          required = true;
+          schema.minLength = Math.max(schema.minLength ?? 0, 1);
+        }
+        break;
+    }
+  }
+
+  return context.fields.flatMap(field =>
+    context.locations.map(location => ({
+      name: field,
+      location,
+      required,
+      schema: { ...schema },
+      message
+    }))
+  );
+}
+
+/**
+ * Build an object schema from validated body fields
+ * Nested fields ("address.city") become nested objects; wildcards are skipped.
+ * @param {ValidatedField[]} fields - Body fields
+ * @returns {JsonSchema} Object schema
+ */
+function bodySchemaFromFields(fields: ValidatedField[]): JsonSchema {
+  const root: JsonSchema = { type: 'object', properties: {} };
+
+  for (const field of fields) {
+    if (field.name.includes('*') || field.name === '') continue;
+
+    const parts = field.name.split('.');
+    let target = root;
+    for (const part of parts.slice(0, -1)) {
+      target.properties[part] ??= { type: 'object', properties: {} };
+      target = target.properties[part];
+    }
+
+    const key = parts[parts.length - 1];
+    target.properties[key] = { ...field.schema, ...(field.message ? { description: field.message } : {}) };
+    if (field.required) {
+      target.required = Array.from(new Set([...(target.required ?? []), key]));
+    }
+  }
+
+  return root;
+}
+
+/**
+ * Convert an Express path (/api/employees/:id) to an OpenAPI path (/api/employees/{id})
+ */
+function toOpenApiPath(path: string): string {
+  return path.replace(/:([A-Za-z0-9_]+)\??/g, '{$1}');
+}
+
+/**
+ * Tag grouping a route in the explorer, from its first path segments
+ * @example tagFor('/api/employees/:id/educations') // 'Employees'
+ * @example tagFor('/api/settings/webhooks') // 'Settings: Webhooks'
+ */
+function tagFor(path: string): string {
+  if (path.startsWith('/scim/v2')) {
+    return 'SCIM';
+  }
+
+  const [first, second] = path.replace(/^\/api\//, '').split('/');
+  const title = (segment: string) => segment
+    .split('-')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+  if ((first === 'admin' || first === 'settings') && second && !second.startsWith(':')) {
+    return `${title(first)}: ${title(second)}`;
+  }
+  return title(first);
+}
+
+/**
+ * Operation ID from the method and path
+ * @example operationIdFor('get', '/api/employees/:id') // 'getApiEmployeesById'
+ */
+function operationIdFor(method: string, path: string): string {
+  const words = path
+    .split('/')
+    .filter(Boolean)
+    .map(segment => segment.startsWith(':') ? `by-${segment.slice(1)}` : segment)
+    .join('-')
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1));
+  return method + words.join('');
+}
+
+/**
+ * Turn a PascalCase component name into words for summaries
+ * @example words('StateLicense') // 'state license'
+ */
+function words(name: string): string {
+  return name.replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+}
+
+/**
+ * OpenAPI Service Class
+ *
+ * @class OpenApiService
+ * @description Generates and caches the OpenAPI document for the running app.
+ */
+class OpenApiService {
+  private cache: Omit<OpenApiDocument, 'servers'> | null = null;
+
+  /**
+   * Get the OpenAPI document for the app
+   *
+   * Routes do not change after startup, so the document is generated once
+   * and reused; only the server URL is filled in per request.
+   *
+   * @param {Application} app - Express application with all routes registered
+   * @param {string} serverUrl - Base URL of this deployment
+   * @returns {OpenApiDocument} OpenAPI 3 document
+   */
+  getDocument(app: Application, serverUrl: string): OpenApiDocument {
+    this.cache ??= this.buildDocument(app);
+    return { ...this.cache, servers: [{ url: serverUrl }] };
+  }
+
+  /**
+   * Generate the OpenAPI document from the app's routes
+   * @param {Application} app - Express application with all routes registered
+   * @returns {object} Document without servers
+   */
+  buildDocument(app: Application): Omit<OpenApiDocument, 'servers'> {
+    const schemas = this.buildComponentSchemas();
+    const paths: OpenApiDocument['paths'] = {};
+    const tags = new Set<string>();
+
+    const layers: RouteLayer[] = app._router?.stack ?? [];
+    for (const layer of layers) {
+      const route = layer.route;
+      const path = route?.path;
+      if (!route || typeof path !== 'string') continue;
+      if (!DOCUMENTED_PREFIXES.some(prefix => path.startsWith(prefix))) continue;
+
+      for (const method of DOCUMENTED_METHODS) {
+        if (!route.methods[method]) continue;
+
+        const openApiPath = toOpenApiPath(path);
+        paths[openApiPath] ??= {};
+        // Express runs the first matching registration, so later duplicates are ignored
+        if (paths[openApiPath][method]) continue;
+
+        const operation = this.describeOperation(method, path, route.stack.map(entry => entry.handle));
+        paths[openApiPath][method] = operation;
+        operation.tags.forEach(tag => tags.add(tag));
+      }
+    }
+
+    return {
+      openapi: '3.0.3',
+      info: {
+        title: 'HR Management System API',
+        version: '1.0.0',
+        description: [
+          'Generated from the routes, validators and Zod schemas of this deployment.',
+          '',
+          'Authenticate with an API key in `Authorization: Bearer <key>` or `X-API-Key: <key>`. Keys are created under Settings > API Keys;',
+          'use a `hrms_test_` key when experimenting. Routes marked "session only" accept the browser session cookie and not API keys.',
+          'Keys with request signing enabled must also send `X-HRMS-Timestamp`, `X-HRMS-Nonce` and `X-HRMS-Signature` headers.',
+          'Routes without a security requirement are public or check the session inside the handler (account and login routes).',
+          '',
+          'Errors are returned as `{ "error": "message" }`. SCIM routes return SCIM error documents instead.'
+        ].join('\n')
+      },
+      tags: Array.from(tags).sort().map(name => ({ name })),
+      paths,
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key (hrms_live_... or hrms_test_...)' },
+          apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' },
+          session: { type: 'apiKey', in: 'cookie', name: 'connect.sid', description: 'Browser session from POST /api/login' }
+        },
+        schemas
+      }
+    };
+  }
+
+  /**
+   * Describe one route method
+   * @param {string} method - Lower-case HTTP method
+   * @param {string} path - Express path
+   * @param {Function[]} handlers - Middleware and handler chain
+   * @returns {OpenApiOperation} Operation object
+   */
+  private describeOperation(method: string, path: string, handlers: Array<Function & { builder?: ContextBuilder }>): OpenApiOperation {
+    const access: MiddlewareMetadata = {};
+    const fields: ValidatedField[] = [];
+    let multipart = false;
+
+    for (const handler of handlers) {
+      const metadata = getMiddlewareMetadata(handler);
+      if (metadata) {
+        access.acceptsApiKey ||= metadata.acceptsApiKey;
+        access.requiresAuth ||= metadata.requiresAuth;
+        access.sessionOnly ||= metadata.sessionOnly;
+        if (metadata.permissions) access.permissions = metadata.permissions;
+        if (metadata.roles) access.roles = metadata.roles;
+        access.allowsSelf ||= metadata.allowsSelf;
+      }
+      if (handler.builder) {
+        fields.push(...describeValidationChain(handler.builder));
+      }
+      if (handler.name === 'multerMiddleware') {
+        multipart = true;
+      }
+    }
+
+    const operation: OpenApiOperation = {
+      operationId: operationIdFor(method, path),
+      tags: [tagFor(path)],
+      responses: {}
+    };
+
+    // Path parameters: every :param in the path, typed by its validator when there is one
+    const pathParams = Array.from(path.matchAll(/:([A-Za-z0-9_]+)/g), match => match[1]);
+    const parameters: OpenApiParameter[] = pathParams.map(name => {
+      const validated = fields.find(field => field.location === 'params' && field.name === name);
+      return { name, in: 'path', required: true, schema: validated?.schema ?? { type: 'string' } };
+    });
+    for (const field of fields.filter(field => field.location === 'query')) {
+      parameters.push({
+        name: field.name,
+        in: 'query',
+        required: field.required,
+        schema: field.schema,
+        ...(field.message ? { description: field.message } : {})
+      });
+    }
+    if (parameters.length > 0) {
+      operation.parameters = parameters;
+    }
+
+    const resource = this.describeResourceOperation(method, path, operation);
+    if (!operation.requestBody && ['post', 'put', 'patch'].includes(method)) {
+      const bodyFields = fields.filter(field => field.location === 'body');
+      if (multipart) {
+        operation.requestBody = {
+          required: true,
+          content: { 'multipart/form-data': { schema: { type: 'object', additionalProperties: true } } }
+        };
+      } else if (bodyFields.length > 0) {
+        operation.requestBody = { required: true, content: { 'application/json': { schema: bodySchemaFromFields(bodyFields) } } };
+      }
+    }
+
+    if (!resource) {
+      operation.responses['200'] = { description: 'Success' };
+    }
+    if (fields.length > 0 || operation.requestBody) {
+      operation.responses['400'] = { description: 'Invalid request', content: { 'application/json': { schema: ERROR_RESPONSE } } };
+    }
+
+    // Security and access notes
+    const notes: string[] = [];
+    if (access.requiresAuth) {
+      operation.security = access.acceptsApiKey && !access.sessionOnly
+        ? [{ bearerAuth: [] }, { apiKeyHeader: [] }, { session: [] }]
+        : [{ session: [] }];
+      operation.responses['401'] = { description: 'Authentication required', content: { 'application/json': { schema: ERROR_RESPONSE } } };
+      if (access.sessionOnly || !access.acceptsApiKey) {
+        notes.push('Session only: API keys are not accepted.');
+      }
+    }
+    if (access.permissions) {
+      operation['x-permissions'] = access.permissions;
+      notes.push(`Requires ${access.permissions.length > 1 ? 'one of the permissions' : 'the permission'} ${access.permissions.map(p => `\`${p}\``).join(', ')} (API key scopes or role permissions)${access.allowsSelf ? ', unless the employee is the signed-in user' : ''}.`);
+    }
+    if (access.roles) {
+      operation['x-roles'] = access.roles;
+      notes.push(`Roles: ${access.roles.join(', ')}.`);
+    }
+    if (access.permissions || access.roles) {
+      operation.responses['403'] = { description: 'Insufficient permissions', content: { 'application/json': { schema: ERROR_RESPONSE } } };
+    }
+    if (notes.length > 0) {
+      operation.description = notes.join('\n\n');
+    }
+
+    return operation;
+  }
+
+  /**
+   * Fill in the summary and bodies of CRUD routes on a documented resource
+   * @returns {boolean} True when the route belongs to a resource
+   */
+  private describeResourceOperation(method: string, path: string, operation: OpenApiOperation): boolean {
+    const collection = RESOURCES.find(resource => resource.collection === path);
+    const item = RESOURCES.find(resource => resource.item === path);
+    const resource = collection ?? item;
+    if (!resource) {
+      return false;
+    }
+
+    const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+    const json = (schema: JsonSchema) => ({ 'application/json': { schema } });
+    const label = words(resource.name);
+    const response = resource.table ? ref(resource.name) : undefined;
+
+    if (collection && method === 'get') {
+      operation.summary = `List ${label} records`;
+      const list = response && (resource.listKey
+        ? {
+            type: 'object',
+            properties: {
+              [resource.listKey]: { type: 'array', items: response },
+              total: { type: 'integer' },
+              page: { type: 'integer' },
+              totalPages: { type: 'integer' }
+            }
+          }
+        : { type: 'array', items: response });
+      operation.responses['200'] = { description: 'Success', ...(list ? { content: json(list) } : {}) };
+    } else if (collection && method === 'post') {
+      operation.summary = `Create ${label}`;
+      operation.requestBody = { required: true, content: json(ref(`${resource.name}Input`)) };
+      operation.responses['201'] = { description: 'Created', ...(response ? { content: json(response) } : {}) };
+    } else if (item && method === 'get') {
+      operation.summary = `Get ${label}`;
+      operation.responses['200'] = { description: 'Success', ...(response ? { content: json(response) } : {}) };
+      operation.responses['404'] = { description: 'Not found', content: json(ERROR_RESPONSE) };
+    } else if (item && (method === 'put' || method === 'patch')) {
+      operation.summary = `Update ${label}`;
+      operation.requestBody = { required: true, content: json(ref(`${resource.name}Update`)) };
+      operation.responses['200'] = { description: 'Success', ...(response ? { content: json(response) } : {}) };
+      operation.responses['404'] = { description: 'Not found', content: json(ERROR_RESPONSE) };
+    } else if (item && method === 'delete') {
+      operation.summary = `Delete ${label}`;
+      operation.responses['200'] = { description: 'Deleted' };
+      operation.responses['404'] = { description: 'Not found', content: json(ERROR_RESPONSE) };
+    } else {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Build the reusable schemas: <Name> (stored record), <Name>Input (create) and <Name>Update
+   * @returns {Record<string, JsonSchema>} Component schemas
+   */
+  private buildComponentSchemas(): Record<string, JsonSchema> {
+    const schemas: Record<string, JsonSchema> = {
+      ErrorResponse: {
+        type: 'object',
+        required: ['error'],
+        properties: { error: { type: 'string' } }
+      }
+    };
+
+    for (const resource of RESOURCES) {
+      const shape = unwrapObject(resource.insert);
+      // Nested collections take the parent ID from the path, not the body
+      const input = shape && resource.parentKey && resource.parentKey in shape.shape
+        ? shape.omit({ [resource.parentKey]: true })
+        : resource.insert;
+
+      schemas[`${resource.name}Input`] = toJsonSchema(input);
+      schemas[`${resource.name}Update`] = toJsonSchema(unwrapObject(input)?.partial() ?? z.object({}).passthrough());
+      if (resource.table) {
+        schemas[resource.name] = toJsonSchema(createSelectSchema(resource.table));
+      }
+    }
+
+    return schemas;
+  }
+}
+
+/**
+ * Singleton instance of OpenApiService
+ * @type {OpenApiService}
+ */
+export const openApiService = new OpenApiService();
@@ -0,0 +1,403 @@
+/**
+ * @fileoverview WebAuthn Passkey Service
+ *
+ * This module lets employee portal users sign in with a passkey instead of a
+ * password. Clinicians on shared workstations can use a roaming authenticator
+ * (security key or phone) and staff on their own devices can use a platform
+ * authenticator (Touch ID, Windows Hello). It wraps @simplewebauthn/server.
+ *
+ * Rules:
+ * - Only users with the `employee` role can register or sign in with passkeys
+ * - User verification (PIN or biometric) is required, so a passkey sign-in
+ *   stands on its own without a password
+ * - Challenges are single-use and expire after five minutes
+ * - Signature counters are checked and stored to detect cloned authenticators
+ * - Adding, removing and admin revocation of passkeys are audited
+ *
+ * Configuration (environment):
+ * - WEBAUTHN_RP_ID: Relying party ID, the domain passkeys are bound to
+ *   (defaults to the host name of the application base URL)
+ * - WEBAUTHN_RP_NAME: Name shown by the browser (default "HR Management System")
+ * - WEBAUTHN_ORIGIN: Expected origin of responses (defaults to the base URL)
+ *
+ * @module passkeyService
+ * @requires @simplewebauthn/server
+ */
+
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse,
+  type AuthenticatorTransportFuture,
+  type AuthenticationResponseJSON,
+  type PublicKeyCredentialCreationOptionsJSON,
+  type PublicKeyCredentialRequestOptionsJSON,
+  type RegistrationResponseJSON
+} from '@simplewebauthn/server';
+import { storage } from '../storage';
+import type { Passkey, PasskeySummary, User } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'passkeys' });
+
+/**
+ * Roles allowed to use passkeys
+ */
+export const PASSKEY_ROLES = ['employee'];
+
+/**
+ * How long a registration or sign-in challenge stays valid
+ */
+export const PASSKEY_CHALLENGE_TTL_MS = 5 * 60 * 1000;
+
+/**
+ * Maximum passkeys per user
+ */
+export const MAX_PASSKEYS_PER_USER = 10;
+
+/**
+ * Relying party the passkeys are bound to
+ */
+export interface RelyingParty {
+  /** Domain (e.g. hr.example.com) */
+  id: string;
+  /** Name shown in the browser prompt */
+  name: string;
+  /** Expected origin (e.g. https://hr.example.com) */
+  origin: string;
+}
+
+/**
+ * Pending WebAuthn challenge saved in the session between options and verify
+ */
+export interface PasskeyChallenge {
+  challenge: string;
+  purpose: 'registration' | 'authentication';
+  /** User registering a passkey (registration only) */
+  userId?: number;
+  expiresAt: number;
+}
+
+/**
+ * Error raised when a passkey operation is not allowed or fails verification
+ * The message is safe to show to the user.
+ */
+export class PasskeyError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'PasskeyError';
+  }
+}
+
+/**
+ * Build the passkey summary returned to clients
+ * @param {Passkey} passkey - Stored passkey
+ * @returns {PasskeySummary} Passkey without credential material
+ */
+export function toPasskeySummary(passkey: Passkey): PasskeySummary {
+  return {
+    id: passkey.id,
+    name: passkey.name,
+    deviceType: passkey.deviceType,
+    backedUp: passkey.backedUp,
+    createdAt: passkey.createdAt.toISOString(),
+    lastUsedAt: passkey.lastUsedAt ? passkey.lastUsedAt.toISOString() : null
+  };
+}
+
+/**
+ * Passkey Service Class
+ *
+ * @class PasskeyService
+ * @description Generates WebAuthn options and verifies authenticator responses.
+ * Challenges are kept in the caller's session; this service only checks them.
+ */
+class PasskeyService {
+  /**
+   * Resolve the relying party from the environment or the application base URL
+   * @param {string} baseUrl - Application base URL for the current request
+   * @returns {RelyingParty} Relying party ID, name and origin
+   */
+  getRelyingParty(baseUrl: string): RelyingParty {
+    const origin = (process.env.WEBAUTHN_ORIGIN || baseUrl).replace(/\/$/, '');
+    return {
+      id: process.env.WEBAUTHN_RP_ID || new URL(origin).hostname,
+      name: process.env.WEBAUTHN_RP_NAME || 'HR Management System',
+      origin
+    };
+  }
+
+  /**
+   * Whether a user may register and sign in with passkeys
+   * @param {User} user - User to check
+   * @returns {boolean} True for active employee users
+   */
+  isAllowed(user: User): boolean {
+    return PASSKEY_ROLES.includes(user.role) && user.status === 'active';
+  }
+
+  /**
+   * List a user's passkeys
+   * @param {number} userId - User ID
+   * @returns {Promise<PasskeySummary[]>} Passkeys, oldest first
+   */
+  async list(userId: number): Promise<PasskeySummary[]> {
+    const passkeys = await storage.getUserPasskeys(userId);
+    return passkeys.map(toPasskeySummary);
+  }
+
+  /**
+   * Create options for registering a new passkey
+   * @param {User} user - Signed-in user
+   * @param {RelyingParty} rp - Relying party
+   * @returns {Promise<object>} Options for the browser and the challenge to save in the session
+   * @throws {PasskeyError} When the user may not use passkeys or has too many
+   */
+  async startRegistration(user: User, rp: RelyingParty): Promise<{
+    options: PublicKeyCredentialCreationOptionsJSON;
+    challenge: PasskeyChallenge;
+  }> {
+    if (!this.isAllowed(user)) {
+      throw new PasskeyError('Passkeys are only available for employee accounts', 403);
+    }
+
+    const existing = await storage.getUserPasskeys(user.id);
+    if (existing.length >= MAX_PASSKEYS_PER_USER) {
+      throw new PasskeyError(`You can register at most ${MAX_PASSKEYS_PER_USER} passkeys`);
+    }
+
+    const options = await generateRegistrationOptions({
+      rpName: rp.name,
+      rpID: rp.id,
+      userName: user.username,
+      userID: new TextEncoder().encode(String(user.id)),
+      userDisplayName: user.email || user.username,
+      attestationType: 'none',
+      excludeCredentials: existing.map(passkey => ({
+        id: passkey.credentialId,
+        transports: (passkey.transports || undefined) as AuthenticatorTransportFuture[] | undefined
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'required'
+      }
+    });
+
+    return {
+      options,
+      challenge: {
+        challenge: options.challenge,
+        purpose: 'registration',
+        userId: user.id,
+        expiresAt: Date.now() + PASSKEY_CHALLENGE_TTL_MS
+      }
+    };
+  }
+
+  /**
+   * Verify a registration response and store the new passkey
+   * @param {User} user - Signed-in user
+   * @param {object} params - Browser response, saved challenge, relying party and label
+   * @returns {Promise<PasskeySummary>} Stored passkey
+   * @throws {PasskeyError} When the challenge is missing or the response does not verify
+   */
+  async finishRegistration(user: User, params: {
+    response: RegistrationResponseJSON;
+    challenge: PasskeyChallenge | undefined;
+    rp: RelyingParty;
+    name?: string;
+  }): Promise<PasskeySummary> {
+    const { response, challenge, rp } = params;
+    if (!this.isAllowed(user)) {
+      throw new PasskeyError('Passkeys are only available for employee accounts', 403);
+    }
+    this.checkChallenge(challenge, 'registration', user.id);
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge!.challenge,
+        expectedOrigin: rp.origin,
+        expectedRPID: rp.id,
+        requireUserVerification: true
+      });
+    } catch (error) {
+      throw new PasskeyError(`Passkey could not be verified: ${(error as Error).message}`);
+    }
+
+    if (!verification.verified || !verification.registrationInfo) {
+      throw new PasskeyError('Passkey could not be verified');
+    }
+
+    const { credential, credentialDeviceType, credentialBackedUp } = verification.registrationInfo;
+    if (await storage.getPasskeyByCredentialId(credential.id)) {
+      throw new PasskeyError('This passkey is already registered', 409);
+    }
+
+    const name = params.name?.trim().slice(0, 100) || 'Passkey';
+    const passkey = await storage.createPasskey({
+      userId: user.id,
+      credentialId: credential.id,
+      publicKey: Buffer.from(credential.publicKey).toString('base64url'),
+      counter: credential.counter,
+      transports: credential.transports || null,
+      deviceType: credentialDeviceType,
+      backedUp: credentialBackedUp,
+      name
+    });
+
+    await storage.createAudit({
+      tableName: 'users',
+      recordId: user.id,
+      action: 'PASSKEY_ADDED',
+      changedBy: user.id,
+      oldData: null,
+      newData: { passkeyId: passkey.id, name, deviceType: credentialDeviceType }
+    });
+
+    return toPasskeySummary(passkey);
+  }
+
+  /**
+   * Create options for signing in with a passkey
+   *
+   * Without a username the browser offers any discoverable passkey for this
+   * site. With a username the user's registered credentials are allowed too,
+   * which roaming security keys without resident credentials need. Unknown
+   * usernames get the same response shape so accounts cannot be probed.
+   *
+   * @param {RelyingParty} rp - Relying party
+   * @param {string} [username] - Optional username typed on the login form
+   * @returns {Promise<object>} Options for the browser and the challenge to save in the session
+   */
+  async startAuthentication(rp: RelyingParty, username?: string): Promise<{
+    options: PublicKeyCredentialRequestOptionsJSON;
+    challenge: PasskeyChallenge;
+  }> {
+    let allowCredentials: Passkey[] = [];
+    if (username?.trim()) {
+      const user = await storage.getUserByUsername(username.trim());
+      if (user && this.isAllowed(user)) {
+        allowCredentials = await storage.getUserPasskeys(user.id);
+      }
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: rp.id,
+      userVerification: 'required',
+      allowCredentials: allowCredentials.map(passkey => ({
+        id: passkey.credentialId,
+        transports: (passkey.transports || undefined) as AuthenticatorTransportFuture[] | undefined
+      }))
+    });
+
+    return {
+      options,
+      challenge: {
+        challenge: options.challenge,
+        purpose: 'authentication',
+        expiresAt: Date.now() + PASSKEY_CHALLENGE_TTL_MS
+      }
+    };
+  }
+
+  /**
+   * Verify a sign-in response and return the user it belongs to
+   * @param {object} params - Browser response, saved challenge and relying party
+   * @returns {Promise<User>} User to sign in
+   * @throws {PasskeyError} 401 when the passkey is unknown, not allowed or does not verify
+   */
+  async finishAuthentication(params: {
+    response: AuthenticationResponseJSON;
+    challenge: PasskeyChallenge | undefined;
+    rp: RelyingParty;
+  }): Promise<User> {
+    const { response, challenge, rp } = params;
+    this.checkChallenge(challenge, 'authentication');
+
+    const passkey = response?.id ? await storage.getPasskeyByCredentialId(response.id) : undefined;
+    if (!passkey) {
+      throw new PasskeyError('Passkey not recognized', 401);
+    }
+
+    const user = await storage.getUser(passkey.userId);
+    if (!user || !this.isAllowed(user)) {
+      throw new PasskeyError('Passkey not recognized', 401);
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge!.challenge,
+        expectedOrigin: rp.origin,
+        expectedRPID: rp.id,
+        requireUserVerification: true,
+        credential: {
+          id: passkey.credentialId,
+          publicKey: new Uint8Array(Buffer.from(passkey.publicKey, 'base64url')),
+          counter: passkey.counter,
+          transports: (passkey.transports || undefined) as AuthenticatorTransportFuture[] | undefined
+        }
+      });
+    } catch (error) {
+      log.info(`Passkey sign-in rejected for user '${user.username}': ${(error as Error).message}`);
+      throw new PasskeyError('Passkey could not be verified', 401);
+    }
+
+    if (!verification.verified) {
+      throw new PasskeyError('Passkey could not be verified', 401);
+    }
+
+    await storage.updatePasskey(passkey.id, {
+      counter: verification.authenticationInfo.newCounter,
+      lastUsedAt: new Date()
+    });
+
+    return user;
+  }
+
+  /**
+   * Remove a passkey from a user's account
+   * @param {number} userId - Passkey owner
+   * @param {number} passkeyId - Passkey ID
+   * @param {User} actor - User removing the passkey (the owner, or an admin revoking it)
+   * @throws {PasskeyError} 404 when the passkey does not belong to the user
+   */
+  async remove(userId: number, passkeyId: number, actor: User): Promise<void> {
+    const passkey = await storage.getPasskey(passkeyId);
+    if (!passkey || passkey.userId !== userId) {
+      throw new PasskeyError('Passkey not found', 404);
+    }
+
+    await storage.deletePasskey(passkey.id);
+
+    await storage.createAudit({
+      tableName: 'users',
+      recordId: userId,
+      action: actor.id === userId ? 'PASSKEY_REMOVED' : 'PASSKEY_REVOKED',
+      changedBy: actor.id,
+      oldData: { passkeyId: passkey.id, name: passkey.name },
+      newData: null
+    });
+  }
+
+  /**
+   * Check that a saved challenge exists, is for this step and has not expired
+   * @throws {PasskeyError} When the challenge cannot be used
+   */
+  private checkChallenge(challenge: PasskeyChallenge | undefined, purpose: PasskeyChallenge['purpose'], userId?: number): void {
+    if (!challenge || challenge.purpose !== purpose || challenge.expiresAt < Date.now() ||
+        (userId !== undefined && challenge.userId !== userId)) {
+      throw new PasskeyError('Passkey request expired. Please try again.');
+    }
+  }
+}
+
+/**
+ * Singleton instance of PasskeyService
+ * @type {PasskeyService}
+ */
+export const passkeyService = new PasskeyService();
@@ -0,0 +1,247 @@
+/**
+ * @fileoverview Password Policy Service
+ *
+ * This module enforces the admin-configurable password policy stored in
+ * security settings whenever a password is chosen, and tracks password
+ * history and age.
+ *
+ * Features:
+ * - Minimum length and required character classes
+ * - Rejection of passwords on the bundled breached-password list
+ * - Reuse prevention against the last N passwords
+ * - Maximum password age, flagged through `users.requirePasswordChange`
+ *
+ * @module passwordPolicyService
+ */
+
+import { storage } from '../storage';
+import { hashPassword, comparePasswords } from '../auth';
+import { COMMON_PASSWORDS } from '../data/commonPasswords';
+import type { User, SecuritySettings } from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'password-policy' });
+
+/**
+ * Effective password policy
+ */
+export interface PasswordPolicy {
+  minLength: number;
+  requireUppercase: boolean;
+  requireLowercase: boolean;
+  requireNumber: boolean;
+  requireSymbol: boolean;
+  blockBreached: boolean;
+  historyCount: number;
+  maxAgeDays: number;
+}
+
+/**
+ * Policy applied before an admin saves security settings
+ * (matches the column defaults on security_settings)
+ */
+export const DEFAULT_PASSWORD_POLICY: PasswordPolicy = {
+  minLength: 8,
+  requireUppercase: true,
+  requireLowercase: true,
+  requireNumber: true,
+  requireSymbol: true,
+  blockBreached: true,
+  historyCount: 0,
+  maxAgeDays: 0
+};
+
+const BREACHED_PASSWORDS = new Set(COMMON_PASSWORDS);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Password Policy Service Class
+ *
+ * @class PasswordPolicyService
+ * @description Reads the policy on each call so admin changes apply immediately.
+ */
+class PasswordPolicyService {
+  /**
+   * Build the effective policy from saved security settings
+   * @param {SecuritySettings} [settings] - Saved settings (defaults when undefined)
+   * @returns {PasswordPolicy} Effective policy
+   */
+  fromSettings(settings?: SecuritySettings): PasswordPolicy {
+    if (!settings) {
+      return { ...DEFAULT_PASSWORD_POLICY };
+    }
+
+    return {
+      minLength: settings.passwordMinLength,
+      requireUppercase: settings.passwordRequireUppercase,
+      requireLowercase: settings.passwordRequireLowercase,
+      requireNumber: settings.passwordRequireNumber,
+      requireSymbol: settings.passwordRequireSymbol,
+      blockBreached: settings.passwordBlockBreached,
+      historyCount: settings.passwordHistoryCount,
+      maxAgeDays: settings.passwordMaxAgeDays
+    };
+  }
+
+  /**
+   * Get the current password policy
+   * @returns {Promise<PasswordPolicy>} Effective policy
+   */
+  async getPolicy(): Promise<PasswordPolicy> {
+    return this.fromSettings(await storage.getSecuritySettings());
+  }
+
+  /**
+   * Check a password against the bundled breached-password list
+   *
+   * @param {string} password - Candidate password
+   * @returns {boolean} True if the password, or the password without trailing
+   * digits and symbols (e.g. "Password1!"), is on the list
+   */
+  isBreached(password: string): boolean {
+    const normalized = password.toLowerCase();
+    const base = normalized.replace(/[^a-z]+$/, '');
+    return BREACHED_PASSWORDS.has(normalized) || (base.length >= 4 && BREACHED_PASSWORDS.has(base));
+  }
+
+  /**
+   * Check length, character classes and the breached list
+   *
+   * @param {string} password - Candidate password
+   * @param {PasswordPolicy} policy - Policy to apply
+   * @returns {string[]} Human-readable violations (empty when valid)
+   */
+  validateStrength(password: string, policy: PasswordPolicy): string[] {
+    const errors: string[] = [];
+
+    if (password.length < policy.minLength) {
+      errors.push(`Password must be at least ${policy.minLength} characters`);
+    }
+    if (policy.requireUppercase && !/[A-Z]/.test(password)) {
+      errors.push('Password must contain an uppercase letter');
+    }
+    if (policy.requireLowercase && !/[a-z]/.test(password)) {
+      errors.push('Password must contain a lowercase letter');
+    }
+    if (policy.requireNumber && !/\d/.test(password)) {
+      errors.push('Password must contain a number');
+    }
+    if (policy.requireSymbol && !/[^A-Za-z0-9]/.test(password)) {
+      errors.push('Password must contain a special character');
+    }
+    if (policy.blockBreached && this.isBreached(password)) {
+      errors.push('This password is too common and appears in known data breaches');
+    }
+
+    return errors;
+  }
+
+  /**
+   * Check whether a password matches one of the user's recent passwords
+   *
+   * @param {User} user - User changing their password
+   * @param {string} password - Candidate password
+   * @param {PasswordPolicy} policy - Policy to apply
+   * @returns {Promise<boolean>} True if the password was used within the last `historyCount` changes
+   */
+  async isReused(user: User, password: string, policy: PasswordPolicy): Promise<boolean> {
+    if (policy.historyCount <= 0) {
+      return false;
+    }
+
+    const history = await storage.getPasswordHistory(user.id, policy.historyCount);
+    // Users created before history tracking only have their current password
+    const hashes = history.length > 0 ? history.map(entry => entry.passwordHash) : [user.passwordHash];
+
+    for (const hash of hashes) {
+      if (await comparePasswords(password, hash)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Validate a new password for a user against the full policy
+   *
+   * @param {User} user - User changing their password
+   * @param {string} password - Candidate password
+   * @returns {Promise<string[]>} Violations (empty when the password is acceptable)
+   */
+  async validateNewPassword(user: User, password: string): Promise<string[]> {
+    const policy = await this.getPolicy();
+    const errors = this.validateStrength(password, policy);
+
+    if (errors.length === 0 && await this.isReused(user, password, policy)) {
+      errors.push(`Password must not match any of your last ${policy.historyCount} passwords`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * Hash and save a new password, recording it in the password history
+   *
+   * @param {number} userId - User ID
+   * @param {string} password - New password (already validated)
+   * @param {object} [options] - Set requirePasswordChange (e.g. for admin-issued temporary passwords)
+   * @returns {Promise<User>} Updated user
+   */
+  async setPassword(userId: number, password: string, options: { requirePasswordChange?: boolean } = {}): Promise<User> {
+    const policy = await this.getPolicy();
+    const passwordHash = await hashPassword(password);
+
+    const user = await storage.updateUser(userId, {
+      passwordHash,
+      passwordChangedAt: new Date(),
+      requirePasswordChange: options.requirePasswordChange ?? false
+    });
+
+    await storage.addPasswordHistory({ userId, passwordHash });
+    await storage.trimPasswordHistory(userId, Math.max(policy.historyCount, 1));
+
+    return user;
+  }
+
+  /**
+   * Check whether a user's password is older than the maximum age
+   *
+   * @param {User} user - User to check
+   * @param {PasswordPolicy} policy - Policy to apply
+   * @param {Date} [now] - Current time
+   * @returns {boolean} True if the password has expired
+   */
+  isExpired(user: User, policy: PasswordPolicy, now: Date = new Date()): boolean {
+    if (policy.maxAgeDays <= 0) {
+      return false;
+    }
+    const changedAt = user.passwordChangedAt || user.createdAt;
+    return now.getTime() - new Date(changedAt).getTime() > policy.maxAgeDays * DAY_MS;
+  }
+
+  /**
+   * Flag the user for a password change if their password has expired
+   *
+   * @param {User} user - User who just signed in with a password
+   * @returns {Promise<boolean>} True if the password has expired
+   */
+  async expireIfNeeded(user: User): Promise<boolean> {
+    if (!this.isExpired(user, await this.getPolicy())) {
+      return false;
+    }
+
+    if (!user.requirePasswordChange) {
+      await storage.updateUser(user.id, { requirePasswordChange: true });
+      user.requirePasswordChange = true;
+      log.info(`Password expired for user '${user.username}' (ID: ${user.id}); change required`);
+    }
+    return true;
+  }
+}
+
+/**
+ * Singleton instance of password policy service
+ * @type {PasswordPolicyService}
+ */
+export const passwordPolicyService = new PasswordPolicyService();
@@ -0,0 +1,314 @@
+/**
+ * @fileoverview Rate Limiting Service
+ *
+ * Postgres-backed rate limiting for the API. Counters live in the
+ * rate_limit_counters table, so limits hold across restarts and are shared by
+ * every server instance behind a load balancer.
+ *
+ * Provides:
+ * - PostgresRateLimitStore, a store for express-rate-limit
+ * - createRateLimiter() for route and app-level limiters
+ * - endpointRateLimit() for limits counted separately per endpoint
+ * - publicRateLimiter for unauthenticated routes (login, invitations, password reset)
+ * - rateLimitService.consume() for the per-key limit (rateLimitPerHour) in apiKeyAuth
+ *
+ * All limiters send the standard RateLimit-Policy, RateLimit-Limit,
+ * RateLimit-Remaining and RateLimit-Reset headers (IETF draft 6), plus
+ * Retry-After when a request is rejected.
+ *
+ * @module rateLimitService
+ * @requires express-rate-limit
+ */
+
+import type { Request, Response } from 'express';
+import rateLimit, {
+  ipKeyGenerator,
+  type ClientRateLimitInfo,
+  type Options,
+  type RateLimitRequestHandler,
+  type Store
+} from 'express-rate-limit';
+import { storage } from '../storage';
+import type { ApiKeyRequest } from '../middleware/apiKeyAuth';
+
+/**
+ * Window of the per-key limit (apiKeys.rateLimitPerHour)
+ */
+export const API_KEY_RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000;
+
+/**
+ * Default per-key limit when a key has none set
+ */
+export const DEFAULT_API_KEY_RATE_LIMIT = 1000;
+
+/**
+ * Requests per IP allowed on unauthenticated routes in each 15-minute window
+ */
+export const PUBLIC_RATE_LIMIT = parseInt(process.env.PUBLIC_RATE_LIMIT || '100', 10);
+
+/**
+ * Outcome of counting a request against a limit
+ */
+export interface RateLimitResult {
+  /** The request is within the limit */
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetTime: Date;
+  /** Seconds until the window ends */
+  retryAfter: number;
+}
+
+/**
+ * Options for createRateLimiter()
+ */
+export interface RateLimiterOptions {
+  /** Limiter name, prefixed to every counter key so limiters never share counts */
+  name: string;
+  /** Window length in milliseconds */
+  windowMs: number;
+  /** Requests allowed per client and window, or a function of the request */
+  limit: number | ((req: Request) => number);
+  /** Error returned with the 429 response */
+  message: string;
+  /** Count requests separately for every endpoint the limiter is mounted on */
+  perEndpoint?: boolean;
+  /** Client identifier; defaults to rateLimitClientKey() */
+  keyGenerator?: (req: Request) => string;
+}
+
+/**
+ * express-rate-limit store backed by the rate_limit_counters table
+ *
+ * @class PostgresRateLimitStore
+ * @implements {Store}
+ */
+export class PostgresRateLimitStore implements Store {
+  /** Counters of other instances are visible, so double counting can be detected */
+  localKeys = false;
+  prefix: string;
+  private windowMs = 60 * 1000;
+
+  /**
+   * @param {string} name - Limiter name used as the key prefix
+   */
+  constructor(name: string) {
+    this.prefix = `${name}:`;
+  }
+
+  /**
+   * Receive the limiter options
+   * @param {Options} options - Options passed to rateLimit()
+   */
+  init(options: Options): void {
+    this.windowMs = options.windowMs;
+  }
+
+  /**
+   * Get a client's hit count and reset time
+   * @param {string} key - Client identifier
+   * @returns {Promise<ClientRateLimitInfo | undefined>} Current window, if open
+   */
+  async get(key: string): Promise<ClientRateLimitInfo | undefined> {
+    const counter = await storage.getRateLimit(this.prefix + key);
+    return counter ? { totalHits: counter.hits, resetTime: counter.resetAt } : undefined;
+  }
+
+  /**
+   * Count a request
+   * @param {string} key - Client identifier
+   * @returns {Promise<ClientRateLimitInfo>} Hits and reset time after counting
+   */
+  async increment(key: string): Promise<ClientRateLimitInfo> {
+    const counter = await storage.incrementRateLimit(this.prefix + key, this.windowMs);
+    return { totalHits: counter.hits, resetTime: counter.resetAt };
+  }
+
+  /**
+   * Take back a counted request
+   * @param {string} key - Client identifier
+   */
+  async decrement(key: string): Promise<void> {
+    await storage.decrementRateLimit(this.prefix + key);
+  }
+
+  /**
+   * Reset a client's counter
+   * @param {string} key - Client identifier
+   */
+  async resetKey(key: string): Promise<void> {
+    await storage.resetRateLimit(this.prefix + key);
+  }
+}
+
+/**
+ * Identify the client a request is counted against
+ *
+ * API keys and signed-in users are counted by identity, so clients behind a
+ * shared NAT address do not exhaust each other's limits; anonymous requests
+ * are counted by IP address (IPv6 addresses by /56 subnet).
+ *
+ * @param {Request} req - Incoming request
+ * @returns {string} Client identifier
+ */
+export function rateLimitClientKey(req: Request): string {
+  const { apiKey, user } = req as ApiKeyRequest;
+  if (apiKey) {
+    return `key-${apiKey.id}`;
+  }
+  if (user) {
+    return `user-${user.id}`;
+  }
+  return `ip-${ipKeyGenerator(req.ip ?? '')}`;
+}
+
+/**
+ * Write the standard rate limit headers
+ * @param {Response} res - Response
+ * @param {RateLimitResult} result - Counted request
+ * @param {number} windowMs - Window length in milliseconds
+ */
+function setRateLimitHeaders(res: Response, result: RateLimitResult, windowMs: number): void {
+  if (res.headersSent) {
+    return;
+  }
+  res.setHeader('RateLimit-Policy', `${result.limit};w=${Math.ceil(windowMs / 1000)}`);
+  res.setHeader('RateLimit-Limit', String(result.limit));
+  res.setHeader('RateLimit-Remaining', String(result.remaining));
+  res.setHeader('RateLimit-Reset', String(result.retryAfter));
+  if (!result.allowed) {
+    res.setHeader('Retry-After', String(result.retryAfter));
+  }
+}
+
+/**
+ * Create a Postgres-backed rate limiter middleware
+ *
+ * @param {RateLimiterOptions} options - Name, window, limit and message
+ * @returns {RateLimitRequestHandler} Express middleware
+ *
+ * @description
+ * Rejected requests receive 429 with `{ error, retryAfter }`. If the counter
+ * table cannot be reached the request is let through rather than failing, so
+ * a database hiccup never locks everyone out.
+ *
+ * @example
+ * const exportLimiter = createRateLimiter({
+ *   name: 'export',
+ *   windowMs: 60 * 60 * 1000,
+ *   limit: 30,
+ *   message: 'Too many export requests, please try again later'
+ * });
+ */
+export function createRateLimiter(options: RateLimiterOptions): RateLimitRequestHandler {
+  const clientKey = options.keyGenerator ?? rateLimitClientKey;
+
+  return rateLimit({
+    windowMs: options.windowMs,
+    limit: options.limit,
+    standardHeaders: 'draft-6',
+    legacyHeaders: false,
+    passOnStoreError: true,
+    store: new PostgresRateLimitStore(options.name),
+    keyGenerator: (req: Request) => {
+      const client = clientKey(req);
+      if (!options.perEndpoint) {
+        return client;
+      }
+      const route = typeof req.route?.path === 'string' ? `${req.baseUrl}${req.route.path}` : req.path;
+      return `${client}:${req.method} ${route}`;
+    },
+    handler: (req: Request, res: Response) => {
+      const resetTime = (req as Request & { rateLimit?: { resetTime?: Date } }).rateLimit?.resetTime;
+      const retryAfter = resetTime
+        ? Math.max(0, Math.ceil((resetTime.getTime() - Date.now()) / 1000))
+        : Math.ceil(options.windowMs / 1000);
+      res.setHeader('Retry-After', String(retryAfter));
+      res.status(429).json({ error: options.message, retryAfter });
+    }
+  });
+}
+
+/**
+ * Create a limiter that counts each endpoint it is mounted on separately
+ *
+ * @param {number} limit - Requests allowed per client, endpoint and window
+ * @param {number} [windowMs=3600000] - Window length in milliseconds
+ * @returns {RateLimitRequestHandler} Express middleware for route chains
+ *
+ * @example
+ * app.get('/api/export/employees', requireAuth, endpointRateLimit(30), handler);
+ */
+export function endpointRateLimit(limit: number, windowMs: number = 60 * 60 * 1000): RateLimitRequestHandler {
+  return createRateLimiter({
+    name: 'endpoint',
+    windowMs,
+    limit,
+    perEndpoint: true,
+    message: 'Too many requests to this endpoint, please try again later'
+  });
+}
+
+/**
+ * Limiter for unauthenticated routes, counted per IP address and endpoint
+ */
+export const publicRateLimiter = createRateLimiter({
+  name: 'public',
+  windowMs: 15 * 60 * 1000,
+  limit: PUBLIC_RATE_LIMIT,
+  perEndpoint: true,
+  keyGenerator: (req: Request) => `ip-${ipKeyGenerator(req.ip ?? '')}`,
+  message: 'Too many requests, please try again later'
+});
+
+/**
+ * Rate Limit Service Class
+ *
+ * @class RateLimitService
+ * @description Counts requests against limits that are only known inside a
+ * middleware, such as the per-key limit of an API key.
+ */
+class RateLimitService {
+  /**
+   * Count a request and set the rate limit headers on the response
+   *
+   * @param {Response} res - Response to add headers to
+   * @param {object} options - Counter key, limit and window
+   * @param {string} options.key - Limiter name and client identifier (e.g. "api-key:12")
+   * @param {number} options.limit - Requests allowed per window
+   * @param {number} options.windowMs - Window length in milliseconds
+   * @returns {Promise<RateLimitResult>} Whether the request is allowed
+   *
+   * @example
+   * const result = await rateLimitService.consume(res, { key: `api-key:${key.id}`, limit: 1000, windowMs: 3600000 });
+   * if (!result.allowed) return res.status(429).json({ error: 'Rate limit exceeded' });
+   */
+  async consume(res: Response, options: { key: string; limit: number; windowMs: number }): Promise<RateLimitResult> {
+    const counter = await storage.incrementRateLimit(options.key, options.windowMs);
+    const retryAfter = Math.max(0, Math.ceil((counter.resetAt.getTime() - Date.now()) / 1000));
+    const result: RateLimitResult = {
+      allowed: counter.hits <= options.limit,
+      limit: options.limit,
+      remaining: Math.max(0, options.limit - counter.hits),
+      resetTime: counter.resetAt,
+      retryAfter
+    };
+
+    setRateLimitHeaders(res, result, options.windowMs);
+    return result;
+  }
+
+  /**
+   * Delete counters whose window has ended
+   * @returns {Promise<number>} Number of counters deleted
+   */
+  async cleanupExpired(): Promise<number> {
+    return storage.deleteExpiredRateLimits();
+  }
+}
+
+/**
+ * Singleton instance of RateLimitService
+ * @type {RateLimitService}
+ */
+export const rateLimitService = new RateLimitService();
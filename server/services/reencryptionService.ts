@@ -0,0 +1,249 @@
+/**
+ * @fileoverview Re-encryption Service
+ *
+ * Moves every encrypted value to the active key after a key rotation: the
+ * employee, DEA license and emergency contact columns of the sensitive column
+ * registry, MFA secrets, S3/SES/Mailtrap/DocuSeal credentials, webhook secrets
+ * and API key signing secrets. Values still in the pre-envelope format, or
+ * saved before encryption, are encrypted as well, and missing or stale blind
+ * indexes are filled in, so a run after a schema change migrates existing rows.
+ *
+ * A job is started by an administrator and advanced in batches by the cron
+ * runner. Each batch locks its rows, rewrites them and saves the job position
+ * in one transaction, so the job resumes after a restart without skipping or
+ * repeating rows. Values that cannot be decrypted are left unchanged and
+ * counted; the job finishes regardless so they can be investigated.
+ *
+ * Audit snapshots are not re-encrypted: they are hash-chained, so retired
+ * keys must stay with the provider for as long as old audit rows are kept.
+ *
+ * @module reencryptionService
+ */
+
+import {
+  users,
+  employees,
+  deaLicenses,
+  emergencyContacts,
+  s3Configuration,
+  sesConfigurations,
+  docusealConfigurations,
+  webhookEndpoints,
+  apiKeys,
+  SENSITIVE_COLUMNS,
+  type SensitiveTable,
+  type EncryptionJob
+} from '@shared/schema';
+import { storage, type EncryptedTable, type ReencryptedRow } from '../storage';
+import { encryptionService, EncryptionError } from './encryptionService';
+import { blindIndex } from '../middleware/encryption';
+
+/**
+ * Rows rewritten per batch
+ */
+const BATCH_SIZE = 200;
+
+/**
+ * Batches per run at most, so one run cannot hold the job for long
+ */
+const MAX_BATCHES_PER_RUN = 50;
+
+/**
+ * Job entry for a table of the sensitive column registry
+ * @param {SensitiveTable} name - Registry table name
+ * @param {EncryptedTable['table']} table - Drizzle table
+ * @returns {EncryptedTable} Entry covering every registry column and its blind index
+ */
+function registryTable(name: SensitiveTable, table: EncryptedTable['table']): EncryptedTable {
+  const columns = Object.entries(SENSITIVE_COLUMNS[name]);
+  return {
+    name,
+    table,
+    columns: columns.map(([column]) => column),
+    blindIndexes: Object.fromEntries(columns
+      .filter(([, sensitive]) => sensitive?.blindIndex)
+      .map(([column, sensitive]) => [column, sensitive!.blindIndex!]))
+  };
+}
+
+/**
+ * Tables with encrypted values, in processing order
+ *
+ * A dotted column reaches into a JSON column.
+ */
+export const ENCRYPTED_TABLES: EncryptedTable[] = [
+  { name: 'users', table: users, columns: ['mfaSecret'] },
+  registryTable('employees', employees),
+  registryTable('dea_licenses', deaLicenses),
+  registryTable('emergency_contacts', emergencyContacts),
+  { name: 's3_configuration', table: s3Configuration, columns: ['accessKeyId', 'secretAccessKey'] },
+  { name: 'ses_configurations', table: sesConfigurations, columns: ['accessKeyId', 'secretAccessKey'] },
+  { name: 'docuseal_configurations', table: docusealConfigurations, columns: ['apiKey'] },
+  { name: 'webhook_endpoints', table: webhookEndpoints, columns: ['secret'] },
+  { name: 'api_keys', table: apiKeys, columns: ['metadata.signing.secret'] }
+];
+
+/**
+ * Encryption configuration and job history for administrators
+ */
+export interface EncryptionStatus {
+  provider: string;
+  activeKeyId: string;
+  keyIds: string[];
+  /** Whether the provider can create keys itself (POST /api/admin/encryption/keys) */
+  canCreateKeys: boolean;
+  jobs: EncryptionJob[];
+}
+
+/**
+ * Copy a row value with one nested property replaced
+ * @param {unknown} value - JSON value
+ * @param {string[]} path - Property path
+ * @param {string} replacement - New value at the path
+ * @returns {Record<string, unknown>} Copy with the replacement
+ */
+function setPath(value: unknown, path: string[], replacement: string): Record<string, unknown> {
+  const copy = { ...(value as Record<string, unknown>) };
+  copy[path[0]] = path.length === 1 ? replacement : setPath(copy[path[0]], path.slice(1), replacement);
+  return copy;
+}
+
+/**
+ * Re-encryption Service Class
+ *
+ * @class ReencryptionService
+ * @description Starts, advances and reports re-encryption jobs.
+ */
+class ReencryptionService {
+  private running = false;
+
+  /**
+   * Key configuration and recent jobs
+   * @returns {Promise<EncryptionStatus>} Status
+   */
+  async getStatus(): Promise<EncryptionStatus> {
+    const provider = encryptionService.getProvider();
+    return {
+      provider: provider.name,
+      activeKeyId: provider.getActiveKeyId(),
+      keyIds: provider.getKeyIds(),
+      canCreateKeys: Boolean(provider.createKey),
+      jobs: await storage.getEncryptionJobs(10)
+    };
+  }
+
+  /**
+   * Create a key with the provider and make it active
+   * @returns {Promise<EncryptionStatus>} Status with the new active key
+   * @throws {EncryptionError} When the provider's keys are managed outside the application
+   */
+  async rotateKey(): Promise<EncryptionStatus> {
+    encryptionService.rotateKey();
+    return await this.getStatus();
+  }
+
+  /**
+   * Start moving every encrypted value to the active key
+   * @param {number} userId - Administrator starting the job
+   * @returns {Promise<EncryptionJob>} Created job
+   * @throws {EncryptionError} 409 when a job is already running
+   */
+  async start(userId: number): Promise<EncryptionJob> {
+    if (await storage.getRunningEncryptionJob()) {
+      throw new EncryptionError('A re-encryption job is already running', 409);
+    }
+    return await storage.createEncryptionJob(encryptionService.getProvider().getActiveKeyId(), userId);
+  }
+
+  /**
+   * Stop a running job; values already moved keep the new key
+   * @param {number} id - Job ID
+   * @returns {Promise<EncryptionJob>} Cancelled job
+   * @throws {EncryptionError} 404 when no such job is running
+   */
+  async cancel(id: number): Promise<EncryptionJob> {
+    const job = await storage.cancelEncryptionJob(id);
+    if (!job) {
+      throw new EncryptionError('No running re-encryption job with this ID', 404);
+    }
+    return job;
+  }
+
+  /**
+   * Advance the running job, if any
+   * @returns {Promise<EncryptionJob | null>} Job after this run, or null when there was nothing to do
+   */
+  async runPending(): Promise<EncryptionJob | null> {
+    if (this.running) {
+      return null;
+    }
+
+    this.running = true;
+    try {
+      let job: EncryptionJob | null = await storage.getRunningEncryptionJob() ?? null;
+      if (!job) {
+        return null;
+      }
+
+      // Values would otherwise end up under a key the job does not report
+      if (job.targetKeyId !== encryptionService.getProvider().getActiveKeyId()) {
+        return await storage.cancelEncryptionJob(job.id) ?? null;
+      }
+
+      for (let i = 0; i < MAX_BATCHES_PER_RUN && job?.status === 'running'; i++) {
+        job = await storage.advanceEncryptionJob(job.id, ENCRYPTED_TABLES, BATCH_SIZE, (table, row) => this.reencryptRow(table, row));
+      }
+      return job;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * New values for a row's encrypted columns and their blind indexes
+   * @param {EncryptedTable} table - Table the row belongs to
+   * @param {Record<string, unknown>} row - Row as selected
+   * @returns {ReencryptedRow} Columns to write back and counts
+   */
+  private reencryptRow(table: EncryptedTable, row: Record<string, unknown>): ReencryptedRow {
+    const result: ReencryptedRow = { changes: {}, reencrypted: 0, failed: 0 };
+
+    for (const column of table.columns) {
+      const [property, ...path] = column.split('.');
+      let current: unknown = result.changes[property] ?? row[property];
+      const value = path.reduce<unknown>((nested, key) => (nested as Record<string, unknown> | null)?.[key], current);
+      if (typeof value !== 'string' || !value) {
+        continue;
+      }
+
+      try {
+        const indexColumn = table.blindIndexes?.[column];
+        if (indexColumn) {
+          const plain = encryptionService.isEncrypted(value) ? encryptionService.decrypt(value) : value;
+          const index = blindIndex(table.name as SensitiveTable, column, plain);
+          if (row[indexColumn] !== index) {
+            result.changes[indexColumn] = index;
+          }
+        }
+
+        const reencrypted = encryptionService.reencrypt(value);
+        if (reencrypted !== null) {
+          current = path.length > 0 ? setPath(current, path, reencrypted) : reencrypted;
+          result.changes[property] = current;
+          result.reencrypted++;
+        }
+      } catch (error) {
+        result.failed++;
+        result.error = `${table.name}.${column} of row ${row.id}: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    return result;
+  }
+}
+
+/**
+ * Singleton instance of ReencryptionService
+ * @type {ReencryptionService}
+ */
+export const reencryptionService = new ReencryptionService();
@@ -0,0 +1,251 @@
+/**
+ * @fileoverview API Key Request Signing Service
+ *
+ * Optional per-key HMAC signing for API requests. A bearer key that leaks
+ * from a log can be replayed by anyone; once signing is enabled on a key, a
+ * request is only accepted when it also carries a fresh signature made with a
+ * separate signing secret that never travels over the wire.
+ *
+ * Clients sign the canonical request:
+ *
+ *   METHOD \n PATH?QUERY \n TIMESTAMP \n NONCE \n SHA256_HEX(BODY)
+ *
+ * with HMAC-SHA256 and send:
+ *
+ *   X-HRMS-Timestamp: <unix seconds>
+ *   X-HRMS-Nonce: <random string, unique per request>
+ *   X-HRMS-Signature: sha256=<hex>
+ *
+ * Requests older or newer than five minutes are rejected as stale, and a
+ * nonce can be used only once within that window. Used nonces are recorded
+ * in Postgres, so a replay is caught by any server instance and after a
+ * restart; the hourly cron job deletes them once their window has passed.
+ *
+ * The signing secret is stored encrypted in apiKeys.metadata.signing.
+ *
+ * @module requestSigningService
+ */
+
+import crypto from 'crypto';
+import type { IncomingMessage } from 'http';
+import { storage } from '../storage';
+import { encrypt, decrypt } from '../utils/encryption';
+import type { ApiKey } from '@shared/schema';
+
+/**
+ * Request headers carrying the signature
+ */
+export const SIGNATURE_HEADER = 'x-hrms-signature';
+export const TIMESTAMP_HEADER = 'x-hrms-timestamp';
+export const NONCE_HEADER = 'x-hrms-nonce';
+
+/**
+ * How far a request timestamp may differ from server time
+ */
+export const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+/**
+ * Signing settings stored under apiKeys.metadata.signing
+ */
+export interface ApiKeySigningMetadata {
+  enabled: boolean;
+  /** Encrypted signing secret */
+  secret: string;
+  enabledAt: string;
+}
+
+/**
+ * The parts of a request covered by the signature
+ */
+export interface SignableRequest {
+  method: string;
+  /** Path including the query string, as sent (e.g. /api/employees?page=2) */
+  path: string;
+  timestamp: string;
+  nonce: string;
+  /** Raw request body; empty for requests without a JSON or form body */
+  body?: Buffer | string;
+}
+
+/**
+ * Custom error class for request signing operations
+ */
+export class RequestSigningError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RequestSigningError';
+  }
+}
+
+/**
+ * Keep the unparsed body so signatures can be checked against the exact bytes sent
+ *
+ * Pass as the `verify` option of express.json() and express.urlencoded().
+ *
+ * @example
+ * app.use(express.json({ verify: captureRawBody }));
+ */
+export function captureRawBody(req: IncomingMessage, _res: unknown, buffer: Buffer): void {
+  (req as IncomingMessage & { rawBody?: Buffer }).rawBody = buffer;
+}
+
+/**
+ * Build the string that is signed
+ * @param {SignableRequest} request - Request parts
+ * @returns {string} Canonical request
+ */
+export function buildCanonicalRequest(request: SignableRequest): string {
+  const bodyHash = crypto.createHash('sha256').update(request.body ?? '').digest('hex');
+  return [request.method.toUpperCase(), request.path, request.timestamp, request.nonce, bodyHash].join('\n');
+}
+
+/**
+ * Sign a request with a key's signing secret
+ * @param {string} secret - Plaintext signing secret
+ * @param {SignableRequest} request - Request parts
+ * @returns {string} Signature header value (sha256=<hex>)
+ *
+ * @example
+ * const signature = signRequest(secret, {
+ *   method: 'POST',
+ *   path: '/api/employees',
+ *   timestamp: String(Math.floor(Date.now() / 1000)),
+ *   nonce: crypto.randomUUID(),
+ *   body: JSON.stringify(payload)
+ * });
+ */
+export function signRequest(secret: string, request: SignableRequest): string {
+  const hmac = crypto.createHmac('sha256', secret).update(buildCanonicalRequest(request)).digest('hex');
+  return `sha256=${hmac}`;
+}
+
+/**
+ * Request Signing Service Class
+ *
+ * @class RequestSigningService
+ * @description Enables signing on API keys and verifies signed requests.
+ */
+class RequestSigningService {
+  /**
+   * Read the signing settings of a key
+   * @param {ApiKey} key - API key
+   * @returns {ApiKeySigningMetadata | null} Settings when signing is enabled
+   */
+  getSigning(key: ApiKey): ApiKeySigningMetadata | null {
+    const signing = (key.metadata as { signing?: ApiKeySigningMetadata } | null)?.signing;
+    return signing?.enabled ? signing : null;
+  }
+
+  /**
+   * Whether requests made with a key must be signed
+   * @param {ApiKey} key - API key
+   * @returns {boolean} True when signing is enabled
+   */
+  isEnabled(key: ApiKey): boolean {
+    return this.getSigning(key) !== null;
+  }
+
+  /**
+   * Turn on signing for a key with a new secret
+   *
+   * Calling this again replaces the secret, so it also serves as rotation.
+   *
+   * @param {ApiKey} key - API key
+   * @returns {Promise<{ key: ApiKey; secret: string }>} Updated key and the plaintext secret (shown once)
+   * @throws {RequestSigningError} When the key is revoked
+   */
+  async enable(key: ApiKey): Promise<{ key: ApiKey; secret: string }> {
+    if (key.revokedAt) {
+      throw new RequestSigningError('Cannot enable signing on a revoked key');
+    }
+
+    const secret = `hrms_sig_${crypto.randomBytes(24).toString('hex')}`;
+    const signing: ApiKeySigningMetadata = {
+      enabled: true,
+      secret: encrypt(secret),
+      enabledAt: new Date().toISOString()
+    };
+    const updated = await storage.updateApiKey(key.id, {
+      metadata: { ...(key.metadata as Record<string, unknown> | null), signing }
+    });
+
+    return { key: updated, secret };
+  }
+
+  /**
+   * Turn off signing and discard the secret
+   * @param {ApiKey} key - API key
+   * @returns {Promise<ApiKey>} Updated key
+   */
+  async disable(key: ApiKey): Promise<ApiKey> {
+    const { signing, ...metadata } = (key.metadata as Record<string, unknown> | null) ?? {};
+    return storage.updateApiKey(key.id, { metadata });
+  }
+
+  /**
+   * Verify the signature of a request made with a signing key
+   * @param {ApiKey} key - API key that authenticated the request
+   * @param {object} request - Method, path, headers and raw body of the request
+   * @returns {Promise<void>}
+   * @throws {RequestSigningError} 401 when the signature is missing, stale, replayed or wrong
+   */
+  async verify(
+    key: ApiKey,
+    request: { method: string; path: string; headers: Record<string, string | string[] | undefined>; body?: Buffer }
+  ): Promise<void> {
+    const signing = this.getSigning(key);
+    if (!signing) {
+      return;
+    }
+
+    const header = (name: string) => {
+      const value = request.headers[name];
+      return Array.isArray(value) ? value[0] : value;
+    };
+    const signature = header(SIGNATURE_HEADER);
+    const timestamp = header(TIMESTAMP_HEADER);
+    const nonce = header(NONCE_HEADER);
+
+    if (!signature || !timestamp || !nonce) {
+      throw new RequestSigningError('This API key requires signed requests', 401);
+    }
+
+    const sentAt = Number(timestamp);
+    if (!/^\d+$/.test(timestamp) || Math.abs(Date.now() / 1000 - sentAt) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new RequestSigningError('Request timestamp is outside the allowed window', 401);
+    }
+
+    const expected = signRequest(decrypt(signing.secret), {
+      method: request.method,
+      path: request.path,
+      timestamp,
+      nonce,
+      body: request.body
+    });
+    const valid = signature.length === expected.length
+      && crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+    if (!valid) {
+      throw new RequestSigningError('Invalid request signature', 401);
+    }
+
+    // Only record nonces of correctly signed requests, so forged requests cannot burn them
+    const expiresAt = new Date((sentAt + SIGNATURE_TOLERANCE_SECONDS) * 1000);
+    if (!(await storage.claimRequestNonce(key.id, nonce, expiresAt))) {
+      throw new RequestSigningError('Request has already been used', 401);
+    }
+  }
+
+  /**
+   * Delete nonces whose requests are too old to be accepted anyway
+   * @returns {Promise<number>} Number of nonces deleted
+   */
+  async cleanupExpiredNonces(): Promise<number> {
+    return storage.deleteExpiredRequestNonces();
+  }
+}
+
+/**
+ * Singleton instance of RequestSigningService
+ * @type {RequestSigningService}
+ */
+export const requestSigningService = new RequestSigningService();
@@ -0,0 +1,177 @@
+/**
+ * @fileoverview Custom Role Service
+ *
+ * This module manages admin-defined roles. A custom role is a named set of
+ * permissions from the same catalog API keys use, such as a "Credentialing
+ * Specialist" who can read licenses and write payer enrollments but cannot
+ * see SSNs. Users are assigned a custom role by storing its key in
+ * `users.role`; permissions are enforced by requirePermission in apiKeyAuth.
+ *
+ * Features:
+ * - Lists built-in and custom roles with their permissions and user counts
+ * - Validates role keys and permissions against the catalog
+ * - Keeps the permission cache in sync when roles change
+ *
+ * @module roleService
+ */
+
+import { storage } from '../storage';
+import {
+  BUILT_IN_ROLE_PERMISSIONS,
+  PERMISSION_CATALOG,
+  isBuiltInRole,
+  clearRolePermissionCache
+} from '../middleware/apiKeyAuth';
+import type { Role, InsertRole, RoleSummary } from '@shared/schema';
+
+/**
+ * Display names and descriptions of the built-in roles
+ */
+const BUILT_IN_ROLE_DETAILS: Record<string, { name: string; description: string }> = {
+  admin: { name: 'Administrator', description: 'Full access, including users, roles and system settings' },
+  hr: { name: 'HR Staff', description: 'Manages employees, credentials, documents and tasks' },
+  viewer: { name: 'Viewer', description: 'Read-only access to employee records and reports' },
+  employee: { name: 'Employee', description: 'Self-service portal and assigned tasks' },
+  prospective_employee: { name: 'Prospective Employee', description: 'Onboarding forms only' }
+};
+
+/**
+ * Error raised when a role change is not allowed
+ * The message is safe to show to the admin.
+ */
+export class RoleValidationError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'RoleValidationError';
+  }
+}
+
+/**
+ * Role Service Class
+ *
+ * @class RoleService
+ * @description Wraps role storage so every change clears the permission cache.
+ */
+class RoleService {
+  /**
+   * List built-in roles followed by custom roles
+   * @returns {Promise<RoleSummary[]>} Roles with permissions and user counts
+   */
+  async listRoles(): Promise<RoleSummary[]> {
+    const customRoles = await storage.getRoles();
+
+    const builtIn = await Promise.all(Object.keys(BUILT_IN_ROLE_PERMISSIONS).map(async key => ({
+      id: null,
+      key,
+      name: BUILT_IN_ROLE_DETAILS[key].name,
+      description: BUILT_IN_ROLE_DETAILS[key].description,
+      permissions: BUILT_IN_ROLE_PERMISSIONS[key],
+      builtIn: true,
+      userCount: await storage.countUsersWithRole(key)
+    })));
+
+    const custom = await Promise.all(customRoles.map(async role => ({
+      id: role.id,
+      key: role.key,
+      name: role.name,
+      description: role.description,
+      permissions: role.permissions,
+      builtIn: false,
+      userCount: await storage.countUsersWithRole(role.key)
+    })));
+
+    return [...builtIn, ...custom];
+  }
+
+  /**
+   * Check whether a role can be assigned to a user
+   * @param {string} role - Built-in role or custom role key
+   * @returns {Promise<boolean>} True if the role exists
+   */
+  async isAssignable(role: string): Promise<boolean> {
+    return isBuiltInRole(role) || !!(await storage.getRoleByKey(role));
+  }
+
+  /**
+   * Find permissions that are not in the catalog
+   * @param {string[]} permissions - Requested permissions
+   * @returns {string[]} Unknown permissions (empty when all are valid)
+   */
+  findUnknownPermissions(permissions: string[]): string[] {
+    const known = new Set(PERMISSION_CATALOG.map(permission => permission.key));
+    return permissions.filter(permission => !known.has(permission));
+  }
+
+  /**
+   * Create a custom role
+   * @param {InsertRole} data - Validated role data
+   * @returns {Promise<Role>} Created role
+   * @throws {RoleValidationError} If the key is taken or a permission is unknown
+   */
+  async createRole(data: InsertRole): Promise<Role> {
+    if (isBuiltInRole(data.key) || await storage.getRoleByKey(data.key)) {
+      throw new RoleValidationError(`A role with key '${data.key}' already exists`, 409);
+    }
+    this.assertKnownPermissions(data.permissions);
+
+    const role = await storage.createRole({ ...data, permissions: Array.from(new Set(data.permissions)) });
+    clearRolePermissionCache();
+    return role;
+  }
+
+  /**
+   * Update a custom role's name, description or permissions
+   * (the key cannot change because users reference it)
+   * @param {number} id - Role ID
+   * @param {Partial<InsertRole>} data - Fields to change
+   * @returns {Promise<Role>} Updated role
+   * @throws {RoleValidationError} If a permission is unknown
+   */
+  async updateRole(id: number, data: Partial<InsertRole>): Promise<Role> {
+    const { key, createdBy, ...changes } = data;
+    if (changes.permissions) {
+      this.assertKnownPermissions(changes.permissions);
+      changes.permissions = Array.from(new Set(changes.permissions));
+    }
+
+    const role = await storage.updateRole(id, changes);
+    clearRolePermissionCache();
+    return role;
+  }
+
+  /**
+   * Delete a custom role that no user holds
+   * @param {Role} role - Role to delete
+   * @throws {RoleValidationError} If users still have the role
+   */
+  async deleteRole(role: Role): Promise<void> {
+    const userCount = await storage.countUsersWithRole(role.key);
+    if (userCount > 0) {
+      throw new RoleValidationError(
+        `Role is assigned to ${userCount} user${userCount === 1 ? '' : 's'}; reassign them first`,
+        409
+      );
+    }
+
+    await storage.deleteRole(role.id);
+    clearRolePermissionCache();
+  }
+
+  /**
+   * Reject permissions that are not in the catalog
+   * @param {string[]} permissions - Requested permissions
+   * @throws {RoleValidationError} Listing the unknown permissions
+   */
+  private assertKnownPermissions(permissions: string[]): void {
+    const unknown = this.findUnknownPermissions(permissions);
+    if (unknown.length > 0) {
+      throw new RoleValidationError(`Unknown permissions: ${unknown.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Singleton instance of role service
+ * @type {RoleService}
+ */
+export const roleService = new RoleService();
@@ -38,6 +38,9 @@ import { storage } from '../storage';
 import { encrypt, decrypt } from '../utils/encryption';
 import type { S3Configuration } from '@shared/schema';
 import { CopyObjectCommand, PutObjectTaggingCommand, GetObjectTaggingCommand } from '@aws-sdk/client-s3';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 's3' });
 
 /**
  * S3 configuration interface
@@ -194,14 +197,14 @@ class S3Service {
         
         // Optionally save env config to database for future use
         if (envConfig.credentials?.accessKeyId && envConfig.credentials?.secretAccessKey && envConfig.bucketName) {
-          console.log('S3 Service: Consider saving configuration to database for better security');
+          log.info('S3 Service: Consider saving configuration to database for better security');
         }
       } else {
-        console.log('S3 Service: No configuration found. Using local storage fallback.');
+        log.info('S3 Service: No configuration found. Using local storage fallback.');
         this._isConfigured = false;
       }
     } catch (error) {
-      console.error('S3 Service: Failed to initialize:', error);
+      log.error('S3 Service: Failed to initialize', error);
       this._isConfigured = false;
     }
   }
@@ -231,14 +234,14 @@ class S3Service {
             
             // Check if decryption actually succeeded (returns empty string on failure)
             if (!decryptedAccessKey || !decryptedSecretKey) {
-              console.warn('S3 Service: Decryption returned empty credentials from cache. Configuration may need to be reset.');
+              log.warn('S3 Service: Decryption returned empty credentials from cache. Configuration may need to be reset.');
               // Clear cache to force reload from DB
               this.cachedConfig = null;
               this.configCacheTime = 0;
               return null;
             }
           } catch (error) {
-            console.error('S3 Service: Failed to decrypt cached credentials:', error);
+            log.error('S3 Service: Failed to decrypt cached credentials', error);
             // Clear cache to force reload from DB
             this.cachedConfig = null;
             this.configCacheTime = 0;
@@ -275,7 +278,7 @@ class S3Service {
         try {
           // Skip decryption if fields are empty (already cleared)
           if (config.accessKeyId === '' || config.secretAccessKey === '') {
-            console.log('S3 Service: Credentials are empty, skipping decryption. Please reconfigure S3.');
+            log.info('S3 Service: Credentials are empty, skipping decryption. Please reconfigure S3.');
             return null;
           }
           
@@ -284,14 +287,14 @@ class S3Service {
           
           // Check if decryption actually succeeded
           if (!decryptedAccessKey || !decryptedSecretKey) {
-            console.warn('S3 Service: Decryption returned empty credentials. Configuration needs to be reset.');
-            console.log('S3 Service: Please reconfigure S3 credentials in Settings.');
+            log.warn('S3 Service: Decryption returned empty credentials. Configuration needs to be reset.');
+            log.info('S3 Service: Please reconfigure S3 credentials in Settings.');
             return null;
           }
         } catch (error) {
-          console.error('S3 Service: Failed to decrypt stored credentials:', error);
-          console.log('S3 Service: This usually means the ENCRYPTION_KEY has changed.');
-          console.log('S3 Service: Please reconfigure S3 credentials in Settings.');
+          log.error('S3 Service: Failed to decrypt stored credentials', error);
+          log.info('S3 Service: This usually means the ENCRYPTION_KEY has changed.');
+          log.info('S3 Service: Please reconfigure S3 credentials in Settings.');
           return null;
         }
       }
@@ -308,7 +311,7 @@ class S3Service {
       
       return decryptedConfig;
     } catch (error) {
-      console.error('S3 Service: Failed to load config from database:', error);
+      log.error('S3 Service: Failed to load config from database', error);
       return null;
     }
   }
@@ -326,15 +329,16 @@ class S3Service {
     const bucketName = process.env.AWS_S3_BUCKET_NAME;
     const endpoint = process.env.AWS_S3_ENDPOINT;
 
-    console.log('S3 Service [DEBUG]: Loading environment configuration:');
-    console.log(`  - Access Key ID: ${accessKeyId ? accessKeyId.substring(0, 10) + '...' : 'NOT SET'}`);
-    console.log(`  - Secret Key: ${secretAccessKey ? '***SET***' : 'NOT SET'}`); 
-    console.log(`  - Region: ${region}`);
-    console.log(`  - Bucket Name: ${bucketName || 'NOT SET'}`);
-    console.log(`  - Endpoint: ${endpoint || 'default AWS endpoint'}`);
+    log.debug('S3 Service: Loading environment configuration', {
+      hasAccessKey: !!accessKeyId,
+      hasSecretKey: !!secretAccessKey,
+      region,
+      bucketName: bucketName || 'NOT SET',
+      endpoint: endpoint || 'default AWS endpoint'
+    });
 
     if (!accessKeyId || !secretAccessKey || !bucketName) {
-      console.log('S3 Service [DEBUG]: Missing required environment variables');
+      log.debug('S3 Service: Missing required environment variables');
       return null;
     }
 
@@ -356,17 +360,18 @@ class S3Service {
    */
   private async initializeFromConfig(config: S3Config): Promise<void> {
     if (!config.credentials || !config.bucketName) {
-      console.log('S3 Service: Incomplete configuration. Using local storage fallback.');
+      log.info('S3 Service: Incomplete configuration. Using local storage fallback.');
       this._isConfigured = false;
       return;
     }
 
     try {
-      console.log('S3 Service [DEBUG]: Initializing S3 client with configuration:');
-      console.log(`  - Region: ${config.region}`);
-      console.log(`  - Bucket: ${config.bucketName}`);
-      console.log(`  - Endpoint: ${config.endpoint || 'default AWS endpoint'}`);
-      console.log(`  - Force Path Style: true`);
+      log.debug('S3 Service: Initializing S3 client with configuration', {
+        region: config.region,
+        bucket: config.bucketName,
+        endpoint: config.endpoint || 'default AWS endpoint',
+        forcePathStyle: true
+      });
       
       const clientConfig: any = {
         region: config.region,
@@ -381,19 +386,19 @@ class S3Service {
       this.client = new S3Client(clientConfig);
       this.bucketName = config.bucketName;
       
-      console.log('S3 Service [DEBUG]: S3 client created, checking bucket access...');
+      log.debug('S3 Service: S3 client created, checking bucket access...');
       
       // Check bucket access and handle region mismatches
       const isAccessible = await this.checkBucketAccessWithRetry();
       this._isConfigured = isAccessible;
       
       if (isAccessible) {
-        console.log(`S3 Service: ✅ Initialized successfully with bucket ${config.bucketName}`);
+        log.info(`S3 Service: ✅ Initialized successfully with bucket ${config.bucketName}`);
       } else {
-        console.error(`S3 Service: ⚠️ Bucket ${config.bucketName} is not accessible. Using local storage fallback.`);
+        log.error(`S3 Service: ⚠️ Bucket ${config.bucketName} is not accessible. Using local storage fallback.`);
       }
     } catch (error) {
-      console.error('S3 Service: Failed to initialize with config:', error);
+      log.error('S3 Service: Failed to initialize with config', error);
       this._isConfigured = false;
     }
   }
@@ -446,7 +451,7 @@ class S3Service {
       // If the bucket exists (even with denied access), consider it configured
       // This allows uploads to be attempted even if LIST is denied
       if (result || this.client !== null) {
-        console.log('S3 Service: Client configured. Upload attempts will use S3 (may fallback to local if permissions insufficient).');
+        log.info('S3 Service: Client configured. Upload attempts will use S3 (may fallback to local if permissions insufficient).');
         return true;
       }
     }
@@ -459,12 +464,12 @@ class S3Service {
    */
   public async checkBucketAccess(): Promise<boolean> {
     if (!this.client || !this.bucketName) {
-      console.log('S3 Service [DEBUG]: No client or bucket name configured');
+      log.debug('S3 Service: No client or bucket name configured');
       return false;
     }
 
     try {
-      console.log(`S3 Service [DEBUG]: Checking access to bucket: ${this.bucketName}`);
+      log.debug(`S3 Service: Checking access to bucket: ${this.bucketName}`);
       
       // Try to list objects with a limit of 1 to check bucket access
       const command = new ListObjectsV2Command({
@@ -472,25 +477,26 @@ class S3Service {
         MaxKeys: 1
       });
       
-      console.log('S3 Service [DEBUG]: Sending ListObjectsV2Command...');
+      log.debug('S3 Service: Sending ListObjectsV2Command...');
       await this.client.send(command);
-      console.log('S3 Service [DEBUG]: ✅ Bucket access check successful');
+      log.debug('S3 Service: ✅ Bucket access check successful');
       return true;
     } catch (error: any) {
-      console.log('S3 Service [DEBUG]: Bucket access check failed with error:');
-      console.log(`  - Error Name: ${error.name}`);
-      console.log(`  - Error Code: ${error.Code}`);
-      console.log(`  - Error Message: ${error.message}`);
-      console.log(`  - HTTP Status: ${error.$metadata?.httpStatusCode}`);
-      console.log(`  - Request ID: ${error.RequestId}`);
-      console.log(`  - Extended Request ID: ${error.$metadata?.extendedRequestId}`);
+      log.debug('S3 Service: Bucket access check failed with error', {
+        errorName: error.name,
+        errorCode: error.Code,
+        errorMessage: error.message,
+        httpStatus: error.$metadata?.httpStatusCode,
+        awsRequestId: error.RequestId,
+        extendedRequestId: error.$metadata?.extendedRequestId
+      });
       
       if (error instanceof S3ServiceException) {
-        console.error(`S3 Service: Bucket access check failed - ${error.name}: ${error.message}`);
+        log.error(`S3 Service: Bucket access check failed - ${error.name}: ${error.message}`);
         
         // Handle PermanentRedirect error by trying to parse the correct endpoint
         if (error.name === 'PermanentRedirect' && error.message) {
-          console.error('S3 Service: Bucket requires specific endpoint. Error details:', {
+          log.error('S3 Service: Bucket requires specific endpoint. Error details', {
             bucket: this.bucketName,
             currentRegion: process.env.AWS_REGION || 'us-east-1',
             errorMessage: error.message,
@@ -503,25 +509,25 @@ class S3Service {
                               (error.$response as any)?.headers?.['x-amz-bucket-region'];
           
           if (bucketRegion && bucketRegion !== (process.env.AWS_REGION || 'us-east-1')) {
-            console.log(`S3 Service: Bucket '${this.bucketName}' is in region: ${bucketRegion}`);
-            console.log(`S3 Service: Current configured region: ${process.env.AWS_REGION || 'us-east-1'}`);
-            console.log(`S3 Service: Attempting to reinitialize client with correct region: ${bucketRegion}`);
+            log.info(`S3 Service: Bucket '${this.bucketName}' is in region: ${bucketRegion}`);
+            log.info(`S3 Service: Current configured region: ${process.env.AWS_REGION || 'us-east-1'}`);
+            log.info(`S3 Service: Attempting to reinitialize client with correct region: ${bucketRegion}`);
             return await this.retryWithRegion(bucketRegion);
           }
           
           // Fallback: Try to extract the correct endpoint from the error message
           const endpointMatch = error.message.match(/endpoint:\s*([\w.-]+\.amazonaws\.com)/i);
           if (endpointMatch && endpointMatch[1]) {
-            console.log(`S3 Service: Suggested endpoint from error: ${endpointMatch[1]}`);
+            log.info(`S3 Service: Suggested endpoint from error: ${endpointMatch[1]}`);
             
             // Try to extract region from endpoint
             const regionMatch = endpointMatch[1].match(/s3\.([a-z]{2}-[a-z]+-\d+)\.amazonaws\.com/i) ||
                               endpointMatch[1].match(/([a-z]{2}-[a-z]+-\d+)\.amazonaws\.com/i);
             if (regionMatch && regionMatch[1]) {
               const detectedRegion = regionMatch[1];
-              console.log(`S3 Service: Detected region from endpoint: ${detectedRegion}`);
+              log.info(`S3 Service: Detected region from endpoint: ${detectedRegion}`);
               if (detectedRegion !== (process.env.AWS_REGION || 'us-east-1')) {
-                console.log(`S3 Service: Attempting to reinitialize client with region ${detectedRegion}`);
+                log.info(`S3 Service: Attempting to reinitialize client with region ${detectedRegion}`);
                 return await this.retryWithRegion(detectedRegion);
               }
             }
@@ -533,7 +539,7 @@ class S3Service {
           
           for (const region of commonRegions) {
             if (region !== currentRegion) {
-              console.log(`S3 Service: Trying common region: ${region}`);
+              log.info(`S3 Service: Trying common region: ${region}`);
               const success = await this.retryWithRegion(region);
               if (success) {
                 return true;
@@ -541,12 +547,12 @@ class S3Service {
             }
           }
         } else if (error.name === 'NoSuchBucket') {
-          console.error(`S3 Service: Bucket '${this.bucketName}' does not exist`);
+          log.error(`S3 Service: Bucket '${this.bucketName}' does not exist`);
         } else if (error.name === 'AccessDenied' || error.name === 'Forbidden') {
-          console.error(`S3 Service: Access denied to bucket '${this.bucketName}'. Check IAM permissions.`);
+          log.error(`S3 Service: Access denied to bucket '${this.bucketName}'. Check IAM permissions.`);
         }
       } else {
-        console.error('S3 Service: Bucket access check failed:', error);
+        log.error('S3 Service: Bucket access check failed', error);
       }
       return false;
     }
@@ -595,40 +601,40 @@ class S3Service {
       // If successful, update the main client
       this.client = tempClient;
       this._isConfigured = true; // Mark as configured since we successfully connected
-      console.log(`S3 Service: Successfully connected to bucket '${this.bucketName}' in region ${region}`);
-      console.log(`S3 Service: IMPORTANT: Update AWS_REGION environment variable to '${region}' for optimal performance`);
+      log.info(`S3 Service: Successfully connected to bucket '${this.bucketName}' in region ${region}`);
+      log.info(`S3 Service: IMPORTANT: Update AWS_REGION environment variable to '${region}' for optimal performance`);
       
       return true;
     } catch (error: any) {
       if (error instanceof S3ServiceException) {
         if (error.name === 'AccessDenied') {
-          console.error(`S3 Service: Access denied to bucket '${this.bucketName}' in region ${region}.`);
-          console.error(`S3 Service: The bucket exists in region '${region}' but your AWS credentials don't have permission to access it.`);
-          console.error(`S3 Service: Please check your IAM permissions for the bucket '${this.bucketName}'.`);
+          log.error(`S3 Service: Access denied to bucket '${this.bucketName}' in region ${region}.`);
+          log.error(`S3 Service: The bucket exists in region '${region}' but your AWS credentials don't have permission to access it.`);
+          log.error(`S3 Service: Please check your IAM permissions for the bucket '${this.bucketName}'.`);
           
           // Even though we have AccessDenied, we know the bucket exists in this region
           // Update the client with correct region for operations that might work (like PutObject)
           this.client = tempClient;
           
           // Try a PUT operation to see if we have write permissions even if LIST is denied
-          console.log(`S3 Service: Attempting to verify write access to bucket...`);
+          log.info(`S3 Service: Attempting to verify write access to bucket...`);
           const testWriteSuccess = await this.testWriteAccess();
           
           if (testWriteSuccess) {
             this._isConfigured = true; // Mark as configured if we can write
-            console.log(`S3 Service: ✅ Write access confirmed! S3 storage is configured.`);
-            console.log(`S3 Service: RECOMMENDATION: Update AWS_REGION environment variable to '${region}'`);
+            log.info(`S3 Service: ✅ Write access confirmed! S3 storage is configured.`);
+            log.info(`S3 Service: RECOMMENDATION: Update AWS_REGION environment variable to '${region}'`);
             return true;
           }
           
-          console.log(`S3 Service: Client updated with correct region '${region}', but access is currently denied.`);
-          console.log(`S3 Service: RECOMMENDATION: Update AWS_REGION environment variable to '${region}'`);
+          log.info(`S3 Service: Client updated with correct region '${region}', but access is currently denied.`);
+          log.info(`S3 Service: RECOMMENDATION: Update AWS_REGION environment variable to '${region}'`);
           
           // Return false since we don't have actual access
           return false;
         }
       }
-      console.error(`S3 Service: Retry with region ${region} failed:`, error);
+      log.error(`S3 Service: Retry with region ${region} failed`, error);
       return false;
     }
   }
@@ -666,12 +672,12 @@ class S3Service {
         await this.client.send(deleteCommand);
       } catch (deleteError) {
         // Ignore delete errors - we mainly care about write access
-        console.log('S3 Service: Test file created but could not be deleted (this is okay)');
+        log.info('S3 Service: Test file created but could not be deleted (this is okay)');
       }
       
       return true;
     } catch (error: any) {
-      console.error('S3 Service: Write access test failed:', error.name || error);
+      log.error('S3 Service: Write access test failed', error.name || error);
       return false;
     }
   }
@@ -820,13 +826,14 @@ class S3Service {
     metadata?: Record<string, string>,
     tags?: Record<string, string>
   ): Promise<UploadResult & { versionId?: string }> {
-    console.log('S3 Service [DEBUG]: uploadFile called with:');
-    console.log(`  - Key: ${key}`);
-    console.log(`  - Content Type: ${contentType}`);
-    console.log(`  - Buffer Size: ${buffer.length} bytes`);
-    console.log(`  - Is Configured: ${this.isConfigured()}`);
-    console.log(`  - Has Client: ${!!this.client}`);
-    console.log(`  - Bucket Name: ${this.bucketName}`);
+    log.debug('S3 Service: uploadFile called with', {
+      key,
+      contentType,
+      bufferSizeBytes: buffer.length,
+      isConfigured: this.isConfigured(),
+      hasClient: !!this.client,
+      bucketName: this.bucketName
+    });
     
     // Use S3 if configured
     if (this.isConfigured() && this.client && this.bucketName) {
@@ -841,19 +848,21 @@ class S3Service {
           StorageClass: 'STANDARD_IA' // Use infrequent access for cost optimization
         };
 
-        console.log('S3 Service [DEBUG]: Sending PutObjectCommand with:');
-        console.log(`  - Bucket: ${params.Bucket}`);
-        console.log(`  - Key: ${params.Key}`);
-        console.log(`  - Content Type: ${params.ContentType}`);
-        console.log(`  - Server Side Encryption: ${params.ServerSideEncryption}`);
-        console.log(`  - Storage Class: ${params.StorageClass}`);
+        log.debug('S3 Service: Sending PutObjectCommand with', {
+          bucket: params.Bucket,
+          key: params.Key,
+          contentType: params.ContentType,
+          serverSideEncryption: params.ServerSideEncryption,
+          storageClass: params.StorageClass
+        });
         
         const command = new PutObjectCommand(params);
         const response = await this.client.send(command);
         
-        console.log('S3 Service [DEBUG]: ✅ Upload successful!');
-        console.log(`  - ETag: ${response.ETag}`);
-        console.log(`  - Version ID: ${response.VersionId || 'N/A'}`);
+        log.debug('S3 Service: ✅ Upload successful!', {
+          etag: response.ETag,
+          versionId: response.VersionId || 'N/A'
+        });
         
         // Add tags if provided
         if (tags && Object.keys(tags).length > 0) {
@@ -870,12 +879,12 @@ class S3Service {
             });
             await this.client.send(tagCommand);
           } catch (tagError) {
-            console.error('S3 Service: Failed to add tags:', tagError);
+            log.error('S3 Service: Failed to add tags', tagError);
             // Continue even if tagging fails
           }
         }
         
-        console.log(`S3 Service: Successfully uploaded file to S3: ${key}${response.VersionId ? ` (version: ${response.VersionId})` : ''}`);
+        log.info(`S3 Service: Successfully uploaded file to S3: ${key}${response.VersionId ? ` (version: ${response.VersionId})` : ''}`);
         
         return {
           success: true,
@@ -885,19 +894,20 @@ class S3Service {
           versionId: response.VersionId
         };
       } catch (error: any) {
-        console.log('S3 Service [DEBUG]: Upload failed with error:');
-        console.log(`  - Error Name: ${error.name}`);
-        console.log(`  - Error Code: ${error.Code}`);
-        console.log(`  - Error Message: ${error.message}`);
-        console.log(`  - HTTP Status: ${error.$metadata?.httpStatusCode}`);
-        console.log(`  - Request ID: ${error.RequestId}`);
-        console.log(`  - Extended Request ID: ${error.$metadata?.extendedRequestId}`);
+        log.debug('S3 Service: Upload failed with error', {
+          errorName: error.name,
+          errorCode: error.Code,
+          errorMessage: error.message,
+          httpStatus: error.$metadata?.httpStatusCode,
+          awsRequestId: error.RequestId,
+          extendedRequestId: error.$metadata?.extendedRequestId
+        });
         
-        console.error('S3 Service: Upload failed, falling back to local storage:', error);
+        log.error('S3 Service: Upload failed, falling back to local storage', error);
         // Fall through to local storage fallback
       }
     } else {
-      console.log('S3 Service [DEBUG]: S3 not configured, using local storage');
+      log.debug('S3 Service: S3 not configured, using local storage');
     }
 
     // Fallback to local storage
@@ -911,7 +921,7 @@ class S3Service {
         await fs.promises.writeFile(metaPath, JSON.stringify({ metadata, tags }, null, 2));
       }
       
-      console.log(`S3 Service: Saved file to local storage: ${localPath}`);
+      log.info(`S3 Service: Saved file to local storage: ${localPath}`);
       
       return {
         success: true,
@@ -919,7 +929,7 @@ class S3Service {
         storageKey: localPath
       };
     } catch (error) {
-      console.error('S3 Service: Local storage fallback failed:', error);
+      log.error('S3 Service: Local storage fallback failed', error);
       return {
         success: false,
         storageType: 'local',
@@ -949,7 +959,7 @@ class S3Service {
           contentType: 'application/octet-stream'
         };
       } catch (error) {
-        console.error('S3 Service: Failed to read local file:', error);
+        log.error('S3 Service: Failed to read local file', error);
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to read file'
@@ -989,7 +999,7 @@ class S3Service {
           error: 'No data received from S3'
         };
       } catch (error) {
-        console.error('S3 Service: Download failed:', error);
+        log.error('S3 Service: Download failed', error);
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Download failed'
@@ -1016,10 +1026,10 @@ class S3Service {
       try {
         const localPath = storageType === 'local' ? key : path.join(this.localFallbackPath, key.replace(/\//g, '-'));
         await fs.promises.unlink(localPath);
-        console.log(`S3 Service: Deleted local file: ${localPath}`);
+        log.info(`S3 Service: Deleted local file: ${localPath}`);
         return true;
       } catch (error) {
-        console.error('S3 Service: Failed to delete local file:', error);
+        log.error('S3 Service: Failed to delete local file', error);
         return false;
       }
     }
@@ -1033,10 +1043,10 @@ class S3Service {
         });
 
         await this.client.send(command);
-        console.log(`S3 Service: Deleted S3 object: ${key}`);
+        log.info(`S3 Service: Deleted S3 object: ${key}`);
         return true;
       } catch (error) {
-        console.error('S3 Service: Failed to delete S3 object:', error);
+        log.error('S3 Service: Failed to delete S3 object', error);
         return false;
       }
     }
@@ -1053,7 +1063,7 @@ class S3Service {
    */
   public async getSignedUrl(key: string, expirationSeconds: number = 3600): Promise<string | null> {
     if (!this.isConfigured || !this.client || !this.bucketName) {
-      console.log('S3 Service: Cannot generate signed URL - S3 not configured');
+      log.info('S3 Service: Cannot generate signed URL - S3 not configured');
       return null;
     }
 
@@ -1064,10 +1074,10 @@ class S3Service {
       });
 
       const url = await getSignedUrl(this.client, command, { expiresIn: expirationSeconds });
-      console.log(`S3 Service: Generated signed URL for ${key}, expires in ${expirationSeconds}s`);
+      log.info(`S3 Service: Generated signed URL for ${key}, expires in ${expirationSeconds}s`);
       return url;
     } catch (error) {
-      console.error('S3 Service: Failed to generate signed URL:', error);
+      log.error('S3 Service: Failed to generate signed URL', error);
       return null;
     }
   }
@@ -1081,7 +1091,7 @@ class S3Service {
    */
   public async listFiles(prefix: string, maxResults: number = 1000): Promise<FileInfo[]> {
     if (!this.isConfigured || !this.client || !this.bucketName) {
-      console.log('S3 Service: Cannot list files - S3 not configured');
+      log.info('S3 Service: Cannot list files - S3 not configured');
       return [];
     }
 
@@ -1105,7 +1115,7 @@ class S3Service {
         etag: item.ETag
       }));
     } catch (error) {
-      console.error('S3 Service: Failed to list files:', error);
+      log.error('S3 Service: Failed to list files', error);
       return [];
     }
   }
@@ -1133,7 +1143,7 @@ class S3Service {
       if (error instanceof S3ServiceException && error.name === 'NotFound') {
         return false;
       }
-      console.error('S3 Service: Error checking file existence:', error);
+      log.error('S3 Service: Error checking file existence', error);
       return false;
     }
   }
@@ -1161,7 +1171,7 @@ class S3Service {
         const duration = Date.now() - startTime;
         
         if (attempt > 0) {
-          console.log(`S3 Service: ${operationName} succeeded on retry ${attempt} (${duration}ms)`);
+          log.info(`S3 Service: ${operationName} succeeded on retry ${attempt} (${duration}ms)`);
         }
         
         return result;
@@ -1172,20 +1182,20 @@ class S3Service {
         if (error instanceof S3ServiceException) {
           const nonRetryableErrors = ['NoSuchBucket', 'AccessDenied', 'InvalidAccessKeyId', 'SignatureDoesNotMatch'];
           if (nonRetryableErrors.includes(error.name)) {
-            console.error(`S3 Service: ${operationName} failed with non-retryable error: ${error.name}`);
+            log.error(`S3 Service: ${operationName} failed with non-retryable error: ${error.name}`);
             throw error;
           }
         }
         
         if (attempt < maxRetries) {
           const backoffTime = Math.min(1000 * Math.pow(2, attempt), 10000); // Exponential backoff, max 10s
-          console.warn(`S3 Service: ${operationName} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${backoffTime}ms...`, lastError.message);
+          log.warn(`S3 Service: ${operationName} failed (attempt ${attempt + 1}/${maxRetries + 1}), retrying in ${backoffTime}ms...`, { error: lastError.message });
           await new Promise(resolve => setTimeout(resolve, backoffTime));
         }
       }
     }
     
-    console.error(`S3 Service: ${operationName} failed after ${maxRetries + 1} attempts`);
+    log.error(`S3 Service: ${operationName} failed after ${maxRetries + 1} attempts`);
     throw lastError;
   }
 
@@ -1197,7 +1207,7 @@ class S3Service {
    */
   public async uploadFiles(files: BatchUploadFile[]): Promise<BatchUploadResult[]> {
     const timestamp = Date.now();
-    console.log(`S3 Service: Starting batch upload of ${files.length} files at ${new Date(timestamp).toISOString()}`);
+    log.info(`S3 Service: Starting batch upload of ${files.length} files at ${new Date(timestamp).toISOString()}`);
     
     // Process uploads in parallel with Promise.all
     const results = await Promise.all(
@@ -1219,7 +1229,7 @@ class S3Service {
             error: result.error
           };
         } catch (error) {
-          console.error(`S3 Service: Failed to upload ${file.key}:`, error);
+          log.error(`S3 Service: Failed to upload ${file.key}`, error);
           return {
             key: file.key,
             success: false,
@@ -1230,7 +1240,7 @@ class S3Service {
     );
     
     const successCount = results.filter(r => r.success).length;
-    console.log(`S3 Service: Batch upload completed: ${successCount}/${files.length} successful`);
+    log.info(`S3 Service: Batch upload completed: ${successCount}/${files.length} successful`);
     
     return results;
   }
@@ -1244,7 +1254,7 @@ class S3Service {
    */
   public async deleteFiles(keys: string[], storageType: 'local' | 's3' = 's3'): Promise<boolean[]> {
     const timestamp = Date.now();
-    console.log(`S3 Service: Starting batch delete of ${keys.length} files at ${new Date(timestamp).toISOString()}`);
+    log.info(`S3 Service: Starting batch delete of ${keys.length} files at ${new Date(timestamp).toISOString()}`);
     
     // Process deletions in parallel
     const results = await Promise.all(
@@ -1256,14 +1266,14 @@ class S3Service {
             `Delete ${key}`
           );
         } catch (error) {
-          console.error(`S3 Service: Failed to delete ${key}:`, error);
+          log.error(`S3 Service: Failed to delete ${key}`, error);
           return false;
         }
       })
     );
     
     const successCount = results.filter(r => r).length;
-    console.log(`S3 Service: Batch delete completed: ${successCount}/${keys.length} successful`);
+    log.info(`S3 Service: Batch delete completed: ${successCount}/${keys.length} successful`);
     
     return results;
   }
@@ -1279,7 +1289,7 @@ class S3Service {
     // Construct prefix for employee documents
     const prefix = `employees/${employeeId}/`;
     
-    console.log(`S3 Service: Listing documents for employee ${employeeId}`);
+    log.info(`S3 Service: Listing documents for employee ${employeeId}`);
     
     try {
       return await this.executeWithRetry(
@@ -1288,7 +1298,7 @@ class S3Service {
         `List employee ${employeeId} documents`
       );
     } catch (error) {
-      console.error(`S3 Service: Failed to list documents for employee ${employeeId}:`, error);
+      log.error(`S3 Service: Failed to list documents for employee ${employeeId}`, error);
       return [];
     }
   }
@@ -1304,7 +1314,7 @@ class S3Service {
     // Construct prefix for location compliance documents
     const prefix = `compliance/locations/${locationId}/`;
     
-    console.log(`S3 Service: Listing compliance documents for location ${locationId}`);
+    log.info(`S3 Service: Listing compliance documents for location ${locationId}`);
     
     try {
       return await this.executeWithRetry(
@@ -1313,7 +1323,7 @@ class S3Service {
         `List location ${locationId} documents`
       );
     } catch (error) {
-      console.error(`S3 Service: Failed to list documents for location ${locationId}:`, error);
+      log.error(`S3 Service: Failed to list documents for location ${locationId}`, error);
       return [];
     }
   }
@@ -1332,7 +1342,7 @@ class S3Service {
     expirationSeconds: number = 3600
   ): Promise<string | null> {
     if (!this.isConfigured || !this.client || !this.bucketName) {
-      console.log('S3 Service: Cannot generate upload signed URL - S3 not configured');
+      log.info('S3 Service: Cannot generate upload signed URL - S3 not configured');
       return null;
     }
 
@@ -1345,10 +1355,10 @@ class S3Service {
       });
 
       const url = await getSignedUrl(this.client, command, { expiresIn: expirationSeconds });
-      console.log(`S3 Service: Generated upload signed URL for ${key}, expires in ${expirationSeconds}s`);
+      log.info(`S3 Service: Generated upload signed URL for ${key}, expires in ${expirationSeconds}s`);
       return url;
     } catch (error) {
-      console.error('S3 Service: Failed to generate upload signed URL:', error);
+      log.error('S3 Service: Failed to generate upload signed URL', error);
       return null;
     }
   }
@@ -1359,10 +1369,10 @@ class S3Service {
    * @returns {Promise<boolean>} True if connection is successful and bucket is accessible
    */
   public async testConnection(): Promise<boolean> {
-    console.log('S3 Service: Testing S3 connection...');
+    log.info('S3 Service: Testing S3 connection...');
     
     if (!this.client || !this.bucketName) {
-      console.log('S3 Service: Connection test failed - S3 not configured');
+      log.info('S3 Service: Connection test failed - S3 not configured');
       return false;
     }
 
@@ -1374,14 +1384,14 @@ class S3Service {
       );
       
       if (isAccessible) {
-        console.log('S3 Service: ✅ Connection test successful');
+        log.info('S3 Service: ✅ Connection test successful');
       } else {
-        console.log('S3 Service: ❌ Connection test failed - bucket not accessible');
+        log.info('S3 Service: ❌ Connection test failed - bucket not accessible');
       }
       
       return isAccessible;
     } catch (error) {
-      console.error('S3 Service: Connection test failed:', error);
+      log.error('S3 Service: Connection test failed', error);
       return false;
     }
   }
@@ -1404,7 +1414,7 @@ class S3Service {
       try {
         info.accessible = await this.checkBucketAccess();
       } catch (error) {
-        console.error('S3 Service: Error checking bucket accessibility:', error);
+        log.error('S3 Service: Error checking bucket accessibility', error);
       }
     }
 
@@ -1418,13 +1428,13 @@ class S3Service {
    * @returns {Promise<void>}
    */
   public async reconfigure(): Promise<void> {
-    console.log('S3 Service: Reconfiguring S3 service...');
+    log.info('S3 Service: Reconfiguring S3 service...');
     await this.refreshConfiguration();
     
     if (this.isConfigured()) {
-      console.log('S3 Service: ✅ Reconfiguration successful');
+      log.info('S3 Service: ✅ Reconfiguration successful');
     } else {
-      console.log('S3 Service: ⚠️ Reconfiguration completed but S3 is not accessible');
+      log.info('S3 Service: ⚠️ Reconfiguration completed but S3 is not accessible');
     }
   }
 
@@ -1489,12 +1499,12 @@ class S3Service {
       });
 
       if (result.success && result.storageType === 's3') {
-        console.log(`S3 Service: Successfully migrated ${localPath} to S3`);
+        log.info(`S3 Service: Successfully migrated ${localPath} to S3`);
       }
 
       return result;
     } catch (error) {
-      console.error('S3 Service: Migration failed:', error);
+      log.error('S3 Service: Migration failed', error);
       return {
         success: false,
         storageType: 'local',
@@ -1551,9 +1561,9 @@ class S3Service {
         });
         await this.client.send(copyCommand);
         archivedPreviousKey = archiveKey;
-        console.log(`S3 Service: Archived previous version to ${archiveKey}`);
+        log.info(`S3 Service: Archived previous version to ${archiveKey}`);
       } catch (error) {
-        console.error('S3 Service: Failed to archive previous version:', error);
+        log.error('S3 Service: Failed to archive previous version', error);
         // Continue with upload even if archiving fails
       }
     }
@@ -1590,12 +1600,12 @@ class S3Service {
             });
             await this.client.send(tagCommand);
           } catch (tagError) {
-            console.error('S3 Service: Failed to add tags:', tagError);
+            log.error('S3 Service: Failed to add tags', tagError);
             // Continue even if tagging fails
           }
         }
         
-        console.log(`S3 Service: Successfully uploaded compliance document to S3: ${s3Key}`);
+        log.info(`S3 Service: Successfully uploaded compliance document to S3: ${s3Key}`);
         
         return {
           success: true,
@@ -1607,7 +1617,7 @@ class S3Service {
           metadata
         };
       } catch (error) {
-        console.error('S3 Service: Compliance document upload failed, falling back to local:', error);
+        log.error('S3 Service: Compliance document upload failed, falling back to local', error);
         // Fall through to local storage fallback
       }
     }
@@ -1628,7 +1638,7 @@ class S3Service {
       const metadataPath = `${localPath}.metadata.json`;
       await fs.promises.writeFile(metadataPath, JSON.stringify(metadata, null, 2));
       
-      console.log(`S3 Service: Saved compliance document to local storage: ${localPath}`);
+      log.info(`S3 Service: Saved compliance document to local storage: ${localPath}`);
       
       return {
         success: true,
@@ -1637,7 +1647,7 @@ class S3Service {
         metadata
       };
     } catch (error) {
-      console.error('S3 Service: Local storage fallback failed:', error);
+      log.error('S3 Service: Local storage fallback failed', error);
       return {
         success: false,
         storageType: 'local',
@@ -1673,7 +1683,7 @@ class S3Service {
           metadata = JSON.parse(metadataContent);
         } catch (metaError) {
           // Metadata file might not exist for older documents
-          console.log('S3 Service: No metadata file found for local document');
+          log.info('S3 Service: No metadata file found for local document');
         }
         
         return {
@@ -1683,7 +1693,7 @@ class S3Service {
           metadata
         };
       } catch (error) {
-        console.error('S3 Service: Failed to read local compliance document:', error);
+        log.error('S3 Service: Failed to read local compliance document', error);
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to read file'
@@ -1735,7 +1745,7 @@ class S3Service {
                 });
               }
             } catch (tagError) {
-              console.log('S3 Service: Could not retrieve tags:', tagError);
+              log.info('S3 Service: Could not retrieve tags', tagError);
             }
           }
           
@@ -1753,7 +1763,7 @@ class S3Service {
           error: 'No data received from S3'
         };
       } catch (error) {
-        console.error('S3 Service: Compliance document download failed:', error);
+        log.error('S3 Service: Compliance document download failed', error);
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Download failed'
@@ -1779,7 +1789,7 @@ class S3Service {
     options: ComplianceDownloadOptions = {}
   ): Promise<string | null> {
     if (!this.isConfigured || !this.client || !this.bucketName) {
-      console.log('S3 Service: Cannot generate signed URL - S3 not configured');
+      log.info('S3 Service: Cannot generate signed URL - S3 not configured');
       return null;
     }
 
@@ -1794,10 +1804,10 @@ class S3Service {
       });
 
       const url = await getSignedUrl(this.client, command, { expiresIn: expirationSeconds });
-      console.log(`S3 Service: Generated compliance document signed URL for ${key}, expires in ${expirationSeconds}s`);
+      log.info(`S3 Service: Generated compliance document signed URL for ${key}, expires in ${expirationSeconds}s`);
       return url;
     } catch (error) {
-      console.error('S3 Service: Failed to generate compliance document signed URL:', error);
+      log.error('S3 Service: Failed to generate compliance document signed URL', error);
       return null;
     }
   }
@@ -1823,7 +1833,7 @@ class S3Service {
     maxResults: number = 1000
   ): Promise<FileInfo[]> {
     if (!this.isConfigured || !this.client || !this.bucketName) {
-      console.log('S3 Service: Cannot list compliance documents - S3 not configured');
+      log.info('S3 Service: Cannot list compliance documents - S3 not configured');
       return [];
     }
 
@@ -1863,7 +1873,7 @@ class S3Service {
         etag: item.ETag
       }));
     } catch (error) {
-      console.error('S3 Service: Failed to list compliance documents:', error);
+      log.error('S3 Service: Failed to list compliance documents', error);
       return [];
     }
   }
@@ -1900,7 +1910,7 @@ class S3Service {
             // Metadata file might not exist
           }
           
-          console.log(`S3 Service: Archived local compliance document to: ${archivePath}`);
+          log.info(`S3 Service: Archived local compliance document to: ${archivePath}`);
           return { success: true, archivedKey: archivePath };
         } else {
           await fs.promises.unlink(localPath);
@@ -1913,11 +1923,11 @@ class S3Service {
             // Metadata file might not exist
           }
           
-          console.log(`S3 Service: Deleted local compliance document: ${localPath}`);
+          log.info(`S3 Service: Deleted local compliance document: ${localPath}`);
           return { success: true };
         }
       } catch (error) {
-        console.error('S3 Service: Failed to delete local compliance document:', error);
+        log.error('S3 Service: Failed to delete local compliance document', error);
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to delete file'
@@ -1941,9 +1951,9 @@ class S3Service {
               MetadataDirective: 'COPY'
             });
             await this.client.send(copyCommand);
-            console.log(`S3 Service: Archived compliance document to ${archivedKey}`);
+            log.info(`S3 Service: Archived compliance document to ${archivedKey}`);
           } catch (archiveError) {
-            console.error('S3 Service: Failed to archive before deletion:', archiveError);
+            log.error('S3 Service: Failed to archive before deletion', archiveError);
             // Continue with deletion even if archiving fails
           }
         }
@@ -1955,11 +1965,11 @@ class S3Service {
         });
 
         await this.client.send(command);
-        console.log(`S3 Service: Deleted S3 compliance document: ${key}`);
+        log.info(`S3 Service: Deleted S3 compliance document: ${key}`);
         
         return { success: true, archivedKey };
       } catch (error) {
-        console.error('S3 Service: Failed to delete S3 compliance document:', error);
+        log.error('S3 Service: Failed to delete S3 compliance document', error);
         return {
           success: false,
           error: error instanceof Error ? error.message : 'Failed to delete from S3'
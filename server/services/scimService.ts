@@ -0,0 +1,762 @@
+/**
+ * @fileoverview SCIM 2.0 Provisioning Service
+ *
+ * This module lets a corporate directory (Okta, Microsoft Entra ID, etc.)
+ * create, update and deactivate user accounts through the SCIM 2.0 protocol
+ * (RFC 7643 / RFC 7644).
+ *
+ * Mapping:
+ * - SCIM User  -> users row (`userName`, primary email, `active`, `externalId`)
+ * - SCIM Group -> role (built-in or custom); the group `id` is the role key
+ * - Group membership -> the user's role; a user belongs to exactly one group
+ *
+ * Rules:
+ * - Deactivating a user sets `users.status` to `disabled`, revokes all of
+ *   their API keys and signs them out everywhere
+ * - Provisioned users get an unusable random password and sign in through
+ *   single sign-on (or after an admin password reset)
+ * - Administrator access is never granted or removed over SCIM, and
+ *   administrator accounts cannot be changed or deactivated over SCIM
+ * - Attributes this application does not store (name, title, ...) are ignored
+ *
+ * @module scimService
+ */
+
+import { randomBytes } from 'crypto';
+import { storage } from '../storage';
+import { hashPassword } from '../auth';
+import { roleService } from './roleService';
+import { sessionService } from './sessionService';
+import type { RoleSummary, User } from '@shared/schema';
+
+/**
+ * SCIM schema and message URNs
+ */
+export const SCIM_SCHEMAS = {
+  USER: 'urn:ietf:params:scim:schemas:core:2.0:User',
+  GROUP: 'urn:ietf:params:scim:schemas:core:2.0:Group',
+  LIST_RESPONSE: 'urn:ietf:params:scim:api:messages:2.0:ListResponse',
+  PATCH_OP: 'urn:ietf:params:scim:api:messages:2.0:PatchOp',
+  ERROR: 'urn:ietf:params:scim:api:messages:2.0:Error',
+  SERVICE_PROVIDER_CONFIG: 'urn:ietf:params:scim:schemas:core:2.0:ServiceProviderConfig',
+  RESOURCE_TYPE: 'urn:ietf:params:scim:schemas:core:2.0:ResourceType'
+} as const;
+
+/**
+ * Largest page a SCIM client may request
+ */
+export const SCIM_MAX_RESULTS = 200;
+
+/**
+ * Role given to a user removed from their group
+ */
+export const SCIM_FALLBACK_ROLE = 'viewer';
+
+/**
+ * SCIM representation of a user
+ */
+export interface ScimUser {
+  schemas: string[];
+  id: string;
+  externalId?: string;
+  userName: string;
+  active: boolean;
+  emails: Array<{ value: string; type: string; primary: boolean }>;
+  groups: Array<{ value: string; display: string }>;
+  meta: { resourceType: 'User'; created: string; location: string };
+}
+
+/**
+ * SCIM representation of a role
+ */
+export interface ScimGroup {
+  schemas: string[];
+  id: string;
+  displayName: string;
+  members?: Array<{ value: string; display: string }>;
+  meta: { resourceType: 'Group'; location: string };
+}
+
+/**
+ * SCIM list response
+ */
+export interface ScimListResponse<T> {
+  schemas: string[];
+  totalResults: number;
+  startIndex: number;
+  itemsPerPage: number;
+  Resources: T[];
+}
+
+/**
+ * A PATCH operation from a PatchOp request
+ */
+interface ScimPatchOperation {
+  op: string;
+  path?: string;
+  value?: any;
+}
+
+/**
+ * User attributes this application stores
+ */
+interface ScimUserChanges {
+  userName?: string;
+  email?: string | null;
+  active?: boolean;
+  externalId?: string | null;
+}
+
+/**
+ * Error raised for invalid SCIM requests
+ * Serialized as a SCIM error message (`status`, `scimType`, `detail`).
+ */
+export class ScimError extends Error {
+  constructor(message: string, public status: number = 400, public scimType?: string) {
+    super(message);
+    this.name = 'ScimError';
+  }
+}
+
+/**
+ * Parse a simple `attribute eq "value"` filter
+ *
+ * @param {string} [filter] - SCIM filter expression
+ * @returns {{ attribute: string; value: string } | undefined} Lower-cased attribute and value
+ * @throws {ScimError} For any other filter expression
+ */
+export function parseScimFilter(filter?: string): { attribute: string; value: string } | undefined {
+  if (!filter) {
+    return undefined;
+  }
+
+  const match = filter.match(/^\s*([\w.]+)\s+eq\s+"((?:[^"\\]|\\.)*)"\s*$/i);
+  if (!match) {
+    throw new ScimError('Only "attribute eq \\"value\\"" filters are supported', 400, 'invalidFilter');
+  }
+  return { attribute: match[1].toLowerCase(), value: match[2].replace(/\\(.)/g, '$1') };
+}
+
+/**
+ * Read a SCIM boolean, which some directories send as "True"/"False"
+ */
+function toBoolean(value: unknown): boolean {
+  if (typeof value === 'string') {
+    return value.toLowerCase() === 'true';
+  }
+  return value === true;
+}
+
+/**
+ * Pick the primary (or first) address from a SCIM emails attribute
+ */
+function primaryEmail(emails: unknown): string | null {
+  if (!Array.isArray(emails) || emails.length === 0) {
+    return null;
+  }
+  const email = emails.find(entry => entry?.primary === true || entry?.primary === 'True') || emails[0];
+  return typeof email?.value === 'string' ? email.value.trim().toLowerCase() : null;
+}
+
+/**
+ * SCIM Service Class
+ *
+ * @class ScimService
+ * @description Translates SCIM resources and operations to users and roles.
+ * Every change is audited against the owner of the SCIM API key.
+ */
+class ScimService {
+  /**
+   * Convert a user to a SCIM User resource
+   *
+   * @param {User} user - User row
+   * @param {string} baseUrl - SCIM base URL (e.g. https://hr.example.com/scim/v2)
+   * @returns {ScimUser} SCIM resource
+   */
+  toScimUser(user: User, baseUrl: string): ScimUser {
+    return {
+      schemas: [SCIM_SCHEMAS.USER],
+      id: String(user.id),
+      ...(user.scimExternalId ? { externalId: user.scimExternalId } : {}),
+      userName: user.username,
+      active: user.status === 'active',
+      emails: user.email ? [{ value: user.email, type: 'work', primary: true }] : [],
+      groups: [{ value: user.role, display: user.role }],
+      meta: {
+        resourceType: 'User',
+        created: new Date(user.createdAt).toISOString(),
+        location: `${baseUrl}/Users/${user.id}`
+      }
+    };
+  }
+
+  /**
+   * Convert a role to a SCIM Group resource
+   *
+   * @param {RoleSummary} role - Role
+   * @param {User[] | undefined} members - Users holding the role, or undefined to omit members
+   * @param {string} baseUrl - SCIM base URL
+   * @returns {ScimGroup} SCIM resource
+   */
+  toScimGroup(role: RoleSummary, members: User[] | undefined, baseUrl: string): ScimGroup {
+    return {
+      schemas: [SCIM_SCHEMAS.GROUP],
+      id: role.key,
+      displayName: role.name,
+      ...(members ? { members: members.map(user => ({ value: String(user.id), display: user.username })) } : {}),
+      meta: { resourceType: 'Group', location: `${baseUrl}/Groups/${role.key}` }
+    };
+  }
+
+  /**
+   * Wrap resources in a SCIM list response
+   */
+  private toListResponse<T>(resources: T[], totalResults: number, startIndex: number): ScimListResponse<T> {
+    return {
+      schemas: [SCIM_SCHEMAS.LIST_RESPONSE],
+      totalResults,
+      startIndex,
+      itemsPerPage: resources.length,
+      Resources: resources
+    };
+  }
+
+  /**
+   * List or search users
+   *
+   * @param {object} options - `filter` (userName, externalId or emails.value eq), 1-based `startIndex`, `count`
+   * @param {string} baseUrl - SCIM base URL
+   * @returns {Promise<ScimListResponse<ScimUser>>} Matching users
+   * @throws {ScimError} For unsupported filters
+   */
+  async listUsers(
+    options: { filter?: string; startIndex?: number; count?: number },
+    baseUrl: string
+  ): Promise<ScimListResponse<ScimUser>> {
+    const startIndex = Math.max(1, options.startIndex || 1);
+    const count = Math.min(SCIM_MAX_RESULTS, Math.max(0, options.count ?? 100));
+    const filter = parseScimFilter(options.filter);
+
+    if (filter) {
+      let user: User | undefined;
+      switch (filter.attribute) {
+        case 'username':
+          user = await storage.getUserByUsername(filter.value);
+          break;
+        case 'externalid':
+          user = await storage.getUserByScimExternalId(filter.value);
+          break;
+        case 'emails.value':
+        case 'emails':
+          user = await storage.getUserByEmail(filter.value.toLowerCase());
+          break;
+        default:
+          throw new ScimError(`Filtering on ${filter.attribute} is not supported`, 400, 'invalidFilter');
+      }
+      const matches = user && startIndex === 1 && count > 0 ? [this.toScimUser(user, baseUrl)] : [];
+      return this.toListResponse(matches, user ? 1 : 0, startIndex);
+    }
+
+    const { users, total } = await storage.getAllUsers({ limit: count, offset: startIndex - 1 });
+    return this.toListResponse(users.map(user => this.toScimUser(user, baseUrl)), total, startIndex);
+  }
+
+  /**
+   * Look up a user by SCIM id
+   *
+   * @param {string} id - SCIM id (the user ID)
+   * @returns {Promise<User>} User
+   * @throws {ScimError} 404 when not found
+   */
+  async getUser(id: string): Promise<User> {
+    const userId = /^\d+$/.test(id) ? parseInt(id) : NaN;
+    const user = Number.isNaN(userId) ? undefined : await storage.getUser(userId);
+    if (!user) {
+      throw new ScimError(`User ${id} not found`, 404);
+    }
+    return user;
+  }
+
+  /**
+   * Look up a user that SCIM may change
+   *
+   * @param {string} id - SCIM id (the user ID)
+   * @returns {Promise<User>} User
+   * @throws {ScimError} 404 when not found, 403 for administrators
+   */
+  private async getManagedUser(id: string): Promise<User> {
+    const user = await this.getUser(id);
+    this.assertManaged(user);
+    return user;
+  }
+
+  /**
+   * Reject changes to administrator accounts, which are managed in the application
+   */
+  private assertManaged(user: User): void {
+    if (user.role === 'admin') {
+      throw new ScimError('Administrator accounts cannot be managed over SCIM', 403);
+    }
+  }
+
+  /**
+   * Read the stored attributes from a SCIM User resource
+   */
+  private readUserResource(resource: any): ScimUserChanges {
+    if (!resource || typeof resource !== 'object') {
+      throw new ScimError('Request body must be a SCIM User', 400, 'invalidSyntax');
+    }
+
+    const changes: ScimUserChanges = {};
+    if (resource.userName !== undefined) {
+      changes.userName = String(resource.userName).trim();
+    }
+    if (resource.emails !== undefined) {
+      changes.email = primaryEmail(resource.emails);
+    }
+    if (resource.active !== undefined) {
+      changes.active = toBoolean(resource.active);
+    }
+    if (resource.externalId !== undefined) {
+      changes.externalId = resource.externalId ? String(resource.externalId) : null;
+    }
+    return changes;
+  }
+
+  /**
+   * Check uniqueness and length of changed attributes
+   */
+  private async validateChanges(changes: ScimUserChanges, existing?: User): Promise<void> {
+    if (changes.userName !== undefined) {
+      if (!changes.userName || changes.userName.length > 50) {
+        throw new ScimError('userName must be 1-50 characters', 400, 'invalidValue');
+      }
+      const owner = await storage.getUserByUsername(changes.userName);
+      if (owner && owner.id !== existing?.id) {
+        throw new ScimError(`userName ${changes.userName} is already in use`, 409, 'uniqueness');
+      }
+    }
+    if (changes.email) {
+      if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(changes.email) || changes.email.length > 100) {
+        throw new ScimError('Invalid email address', 400, 'invalidValue');
+      }
+      const owner = await storage.getUserByEmail(changes.email);
+      if (owner && owner.id !== existing?.id) {
+        throw new ScimError(`Email ${changes.email} is already in use`, 409, 'uniqueness');
+      }
+    }
+    if (changes.externalId) {
+      const owner = await storage.getUserByScimExternalId(changes.externalId);
+      if (owner && owner.id !== existing?.id) {
+        throw new ScimError(`externalId ${changes.externalId} is already in use`, 409, 'uniqueness');
+      }
+    }
+  }
+
+  /**
+   * Provision a new user
+   *
+   * @param {any} resource - SCIM User resource
+   * @param {number} actorId - Owner of the SCIM API key
+   * @returns {Promise<User>} Created user (role defaults to hr)
+   * @throws {ScimError} For missing userName or duplicate identifiers
+   */
+  async createUser(resource: any, actorId: number): Promise<User> {
+    const changes = this.readUserResource(resource);
+    if (!changes.userName) {
+      throw new ScimError('userName is required', 400, 'invalidValue');
+    }
+    await this.validateChanges(changes);
+
+    const user = await storage.createUser({
+      username: changes.userName,
+      passwordHash: await hashPassword(randomBytes(32).toString('hex')),
+      email: changes.email || null,
+      status: changes.active === false ? 'disabled' : 'active',
+      scimExternalId: changes.externalId || null
+    });
+
+    await storage.createAudit({
+      tableName: 'users',
+      recordId: user.id,
+      action: 'SCIM_CREATE',
+      changedBy: actorId,
+      oldData: null,
+      newData: { username: user.username, email: user.email, status: user.status, externalId: user.scimExternalId }
+    });
+
+    return user;
+  }
+
+  /**
+   * Replace a user's stored attributes (SCIM PUT)
+   *
+   * @param {string} id - SCIM id
+   * @param {any} resource - Full SCIM User resource
+   * @param {number} actorId - Owner of the SCIM API key
+   * @returns {Promise<User>} Updated user
+   * @throws {ScimError} 403 for administrators
+   */
+  async replaceUser(id: string, resource: any, actorId: number): Promise<User> {
+    const user = await this.getManagedUser(id);
+    const changes = this.readUserResource(resource);
+    if (!changes.userName) {
+      throw new ScimError('userName is required', 400, 'invalidValue');
+    }
+
+    return this.applyChanges(user, {
+      userName: changes.userName,
+      email: changes.email ?? null,
+      active: changes.active ?? true,
+      externalId: changes.externalId ?? null
+    }, actorId);
+  }
+
+  /**
+   * Apply SCIM PATCH operations to a user
+   *
+   * @param {string} id - SCIM id
+   * @param {any} body - PatchOp request
+   * @param {number} actorId - Owner of the SCIM API key
+   * @returns {Promise<User>} Updated user
+   * @throws {ScimError} 403 for administrators
+   */
+  async patchUser(id: string, body: any, actorId: number): Promise<User> {
+    const user = await this.getManagedUser(id);
+    const changes: ScimUserChanges = {};
+
+    for (const operation of this.readOperations(body)) {
+      const op = operation.op.toLowerCase();
+      const entries: Array<[string, any]> = operation.path
+        ? [[operation.path, operation.value]]
+        : Object.entries(operation.value || {});
+
+      for (const [path, value] of entries) {
+        const attribute = path.toLowerCase();
+        const remove = op === 'remove';
+
+        if (attribute === 'active') {
+          if (!remove) changes.active = toBoolean(value);
+        } else if (attribute === 'username') {
+          if (!remove) changes.userName = String(value).trim();
+        } else if (attribute === 'externalid') {
+          changes.externalId = remove || !value ? null : String(value);
+        } else if (attribute === 'emails') {
+          changes.email = remove ? null : primaryEmail(Array.isArray(value) ? value : [value]);
+        } else if (/^emails\[.*\]\.value$/.test(attribute) || attribute === 'emails.value') {
+          changes.email = remove || !value ? null : String(value).trim().toLowerCase();
+        }
+        // Other attributes (name, title, ...) are not stored and are ignored
+      }
+    }
+
+    return this.applyChanges(user, changes, actorId);
+  }
+
+  /**
+   * Read and check the Operations of a PatchOp request
+   */
+  private readOperations(body: any): ScimPatchOperation[] {
+    const operations = body?.Operations;
+    if (!Array.isArray(operations) || operations.length === 0) {
+      throw new ScimError('Operations must be a non-empty array', 400, 'invalidSyntax');
+    }
+    for (const operation of operations) {
+      if (!['add', 'replace', 'remove'].includes(String(operation?.op).toLowerCase())) {
+        throw new ScimError(`Unsupported operation ${operation?.op}`, 400, 'invalidSyntax');
+      }
+    }
+    return operations;
+  }
+
+  /**
+   * Save changed attributes, deactivating or reactivating as needed
+   */
+  private async applyChanges(user: User, changes: ScimUserChanges, actorId: number): Promise<User> {
+    await this.validateChanges(changes, user);
+
+    const updates: { username?: string; email?: string | null; scimExternalId?: string | null } = {};
+    if (changes.userName !== undefined && changes.userName !== user.username) {
+      updates.username = changes.userName;
+    }
+    if (changes.email !== undefined && changes.email !== user.email) {
+      updates.email = changes.email;
+    }
+    if (changes.externalId !== undefined && changes.externalId !== user.scimExternalId) {
+      updates.scimExternalId = changes.externalId;
+    }
+
+    let updated = user;
+    if (Object.keys(updates).length > 0) {
+      updated = await storage.updateUser(user.id, updates);
+      await storage.createAudit({
+        tableName: 'users',
+        recordId: user.id,
+        action: 'SCIM_UPDATE',
+        changedBy: actorId,
+        oldData: { username: user.username, email: user.email, externalId: user.scimExternalId },
+        newData: { username: updated.username, email: updated.email, externalId: updated.scimExternalId }
+      });
+    }
+
+    if (changes.active === false && updated.status !== 'disabled') {
+      updated = await this.deactivateUser(updated, actorId);
+    } else if (changes.active === true && updated.status === 'disabled') {
+      // Only undo SCIM deactivation; suspended or locked accounts stay as the admin left them
+      updated = await storage.updateUserStatus(updated.id, 'active');
+      await storage.createAudit({
+        tableName: 'users',
+        recordId: updated.id,
+        action: 'SCIM_REACTIVATE',
+        changedBy: actorId,
+        oldData: { status: 'disabled' },
+        newData: { status: 'active' }
+      });
+    }
+
+    return updated;
+  }
+
+  /**
+   * Deactivate a user: disable the account, revoke API keys and sign out everywhere
+   *
+   * @param {User} user - User to deactivate
+   * @param {number} actorId - Owner of the SCIM API key
+   * @returns {Promise<User>} Disabled user
+   * @throws {ScimError} 403 for administrators
+   */
+  async deactivateUser(user: User, actorId: number): Promise<User> {
+    this.assertManaged(user);
+    const disabled = await storage.updateUserStatus(user.id, 'disabled');
+    const revokedApiKeys = await storage.revokeUserApiKeys(user.id);
+    const revokedSessions = await sessionService.revokeAll(user.id);
+
+    await storage.createAudit({
+      tableName: 'users',
+      recordId: user.id,
+      action: 'SCIM_DEACTIVATE',
+      changedBy: actorId,
+      oldData: { status: user.status },
+      newData: { status: 'disabled', revokedApiKeys, revokedSessions }
+    });
+
+    return disabled;
+  }
+
+  /**
+   * Look up a role by SCIM group id (the role key)
+   *
+   * @param {string} id - Role key
+   * @returns {Promise<RoleSummary>} Role
+   * @throws {ScimError} 404 when the role does not exist
+   */
+  async getGroup(id: string): Promise<RoleSummary> {
+    const role = (await roleService.listRoles()).find(candidate => candidate.key === id);
+    if (!role) {
+      throw new ScimError(`Group ${id} not found`, 404);
+    }
+    return role;
+  }
+
+  /**
+   * List or search roles as SCIM groups
+   *
+   * @param {object} options - `filter` (displayName eq), 1-based `startIndex`, `count`, `excludeMembers`
+   * @param {string} baseUrl - SCIM base URL
+   * @returns {Promise<ScimListResponse<ScimGroup>>} Matching groups
+   */
+  async listGroups(
+    options: { filter?: string; startIndex?: number; count?: number; excludeMembers?: boolean },
+    baseUrl: string
+  ): Promise<ScimListResponse<ScimGroup>> {
+    const startIndex = Math.max(1, options.startIndex || 1);
+    const count = Math.min(SCIM_MAX_RESULTS, Math.max(0, options.count ?? 100));
+    const filter = parseScimFilter(options.filter);
+    if (filter && filter.attribute !== 'displayname') {
+      throw new ScimError(`Filtering on ${filter.attribute} is not supported`, 400, 'invalidFilter');
+    }
+
+    const roles = (await roleService.listRoles()).filter(role =>
+      !filter ||
+      role.name.toLowerCase() === filter.value.toLowerCase() ||
+      role.key === filter.value
+    );
+    const page = roles.slice(startIndex - 1, startIndex - 1 + count);
+    const groups = await Promise.all(page.map(async role =>
+      this.toScimGroup(role, options.excludeMembers ? undefined : await storage.getUsersByRole(role.key), baseUrl)
+    ));
+
+    return this.toListResponse(groups, roles.length, startIndex);
+  }
+
+  /**
+   * Apply SCIM PATCH member operations to a group
+   *
+   * @param {string} id - Role key
+   * @param {any} body - PatchOp request
+   * @param {number} actorId - Owner of the SCIM API key
+   * @returns {Promise<RoleSummary>} Role
+   */
+  async patchGroup(id: string, body: any, actorId: number): Promise<RoleSummary> {
+    const role = await this.getGroup(id);
+    const add: number[] = [];
+    const remove: number[] = [];
+
+    for (const operation of this.readOperations(body)) {
+      const op = operation.op.toLowerCase();
+      const path = operation.path || '';
+      const filtered = path.match(/^members\[value eq "(\d+)"\]$/i);
+
+      if (filtered && op === 'remove') {
+        remove.push(parseInt(filtered[1]));
+      } else if (path.toLowerCase() === 'members') {
+        const ids = this.readMemberIds(operation.value);
+        if (op === 'remove') {
+          remove.push(...ids);
+        } else if (op === 'add') {
+          add.push(...ids);
+        } else {
+          const current = await storage.getUsersByRole(role.key);
+          remove.push(...current.map(user => user.id).filter(userId => !ids.includes(userId)));
+          add.push(...ids);
+        }
+      } else if (path.toLowerCase() === 'displayname' || (!path && operation.value?.displayName)) {
+        const displayName = path ? operation.value : operation.value.displayName;
+        if (displayName !== role.name) {
+          throw new ScimError('Group names are managed in the application', 400, 'mutability');
+        }
+      } else {
+        throw new ScimError(`Unsupported path ${path || '(none)'}`, 400, 'invalidPath');
+      }
+    }
+
+    await this.setMembership(role, add, remove, actorId);
+    return role;
+  }
+
+  /**
+   * Replace a group's members (SCIM PUT)
+   *
+   * @param {string} id - Role key
+   * @param {any} resource - Full SCIM Group resource
+   * @param {number} actorId - Owner of the SCIM API key
+   * @returns {Promise<RoleSummary>} Role
+   */
+  async replaceGroup(id: string, resource: any, actorId: number): Promise<RoleSummary> {
+    const role = await this.getGroup(id);
+    if (resource?.displayName && resource.displayName !== role.name) {
+      throw new ScimError('Group names are managed in the application', 400, 'mutability');
+    }
+
+    const ids = this.readMemberIds(resource?.members || []);
+    const current = await storage.getUsersByRole(role.key);
+    await this.setMembership(
+      role,
+      ids,
+      current.map(user => user.id).filter(userId => !ids.includes(userId)),
+      actorId
+    );
+    return role;
+  }
+
+  /**
+   * Read user IDs from a SCIM members value
+   */
+  private readMemberIds(members: any): number[] {
+    const list = Array.isArray(members) ? members : [members];
+    return list.map(member => {
+      const userId = parseInt(member?.value);
+      if (Number.isNaN(userId)) {
+        throw new ScimError('Member values must be user ids', 400, 'invalidValue');
+      }
+      return userId;
+    });
+  }
+
+  /**
+   * Move users into a role, and users removed from it to the fallback role
+   */
+  private async setMembership(role: RoleSummary, add: number[], remove: number[], actorId: number): Promise<void> {
+    if ((add.length > 0 || remove.length > 0) && role.key === 'admin') {
+      throw new ScimError('Administrator access cannot be managed over SCIM', 403);
+    }
+
+    const changes: Array<[number, string]> = [
+      ...remove.filter(userId => !add.includes(userId)).map(userId => [userId, SCIM_FALLBACK_ROLE] as [number, string]),
+      ...add.map(userId => [userId, role.key] as [number, string])
+    ];
+
+    for (const [userId, newRole] of changes) {
+      const user = await storage.getUser(userId);
+      if (!user) {
+        throw new ScimError(`User ${userId} not found`, 400, 'invalidValue');
+      }
+      if (user.role === 'admin') {
+        throw new ScimError('Administrator access cannot be managed over SCIM', 403);
+      }
+      // Removing a user from a group they are no longer in is a no-op
+      if (user.role === newRole || (newRole === SCIM_FALLBACK_ROLE && user.role !== role.key)) {
+        continue;
+      }
+
+      await storage.updateUser(userId, { role: newRole });
+      await storage.createAudit({
+        tableName: 'users',
+        recordId: userId,
+        action: 'SCIM_GROUP_UPDATE',
+        changedBy: actorId,
+        oldData: { role: user.role },
+        newData: { role: newRole }
+      });
+    }
+  }
+
+  /**
+   * Describe the supported SCIM features
+   *
+   * @param {string} baseUrl - SCIM base URL
+   * @returns {object} ServiceProviderConfig resource
+   */
+  getServiceProviderConfig(baseUrl: string) {
+    return {
+      schemas: [SCIM_SCHEMAS.SERVICE_PROVIDER_CONFIG],
+      patch: { supported: true },
+      bulk: { supported: false, maxOperations: 0, maxPayloadSize: 0 },
+      filter: { supported: true, maxResults: SCIM_MAX_RESULTS },
+      changePassword: { supported: false },
+      sort: { supported: false },
+      etag: { supported: false },
+      authenticationSchemes: [{
+        type: 'oauthbearertoken',
+        name: 'API Key',
+        description: 'Bearer API key with the scim:provision permission',
+        primary: true
+      }],
+      meta: { resourceType: 'ServiceProviderConfig', location: `${baseUrl}/ServiceProviderConfig` }
+    };
+  }
+
+  /**
+   * Describe the User and Group resource types
+   *
+   * @param {string} baseUrl - SCIM base URL
+   * @returns {ScimListResponse<object>} ResourceType resources
+   */
+  getResourceTypes(baseUrl: string) {
+    const types = [
+      { id: 'User', name: 'User', endpoint: '/Users', schema: SCIM_SCHEMAS.USER },
+      { id: 'Group', name: 'Group', endpoint: '/Groups', schema: SCIM_SCHEMAS.GROUP }
+    ].map(type => ({
+      schemas: [SCIM_SCHEMAS.RESOURCE_TYPE],
+      ...type,
+      meta: { resourceType: 'ResourceType', location: `${baseUrl}/ResourceTypes/${type.id}` }
+    }));
+    return this.toListResponse(types, types.length, 1);
+  }
+}
+
+/**
+ * Singleton instance of SCIM service
+ * @type {ScimService}
+ */
+export const scimService = new ScimService();
@@ -27,6 +27,9 @@ import { db } from "../db";
 import { sesConfigurations, emailReminders } from "@shared/schema";
 import { eq, and } from "drizzle-orm";
 import { encrypt, decrypt } from "../utils/encryption";
+import { logger } from "../utils/logger";
+
+const log = logger.child({ module: 'ses' });
 
 
 
@@ -101,38 +104,38 @@ export class SESService {
   async initialize(): Promise<boolean> {
     try {
       // Get SES configuration from database
-      console.log("SES Service: Fetching configuration from database...");
+      log.info("SES Service: Fetching configuration from database...");
       const configs = await db.select().from(sesConfigurations).where(eq(sesConfigurations.enabled, true));
       
       if (configs.length === 0) {
-        console.log("SES Service: No enabled configuration found in database");
+        log.info("SES Service: No enabled configuration found in database");
         // Try to get all configs to see what's there
         const allConfigs = await db.select().from(sesConfigurations);
-        console.log("SES Service: Total configurations in database:", allConfigs.length);
+        log.info("SES Service: Total configurations in database", allConfigs.length);
         if (allConfigs.length > 0) {
-          console.log("SES Service: Found disabled configuration(s). Enable SES in settings.");
+          log.info("SES Service: Found disabled configuration(s). Enable SES in settings.");
         }
         this.initialized = false;
         return false;
       }
 
       this.config = configs[0];
-      console.log("SES Service: Found configuration with ID:", this.config.id);
-      console.log("SES Service: From email:", this.config.fromEmail);
-      console.log("SES Service: Region:", this.config.region);
+      log.info("SES Service: Found configuration with ID", this.config.id);
+      log.info("SES Service: From email", this.config.fromEmail);
+      log.info("SES Service: Region", this.config.region);
       
       // Check if we should use environment credentials directly
       const useEnvCredentials = process.env.AWS_SES_ACCESS_KEY_ID && process.env.AWS_SES_SECRET_ACCESS_KEY;
       
       if (useEnvCredentials) {
-        console.log("SES Service: Using environment credentials directly (bypassing decryption)");
+        log.info("SES Service: Using environment credentials directly (bypassing decryption)");
       } else {
-        console.log("SES Service: Using database credentials with decryption");
+        log.info("SES Service: Using database credentials with decryption");
       }
       
       // Check encryption key status
       const hasEncryptionKey = !!process.env.ENCRYPTION_KEY;
-      console.log("SES Service: ENCRYPTION_KEY environment variable is", hasEncryptionKey ? "SET" : "NOT SET (using development fallback)");
+      log.info("SES Service: ENCRYPTION_KEY environment variable is", hasEncryptionKey ? "SET" : "NOT SET (using development fallback)");
       
       // Decrypt credentials with enhanced error handling
       let accessKeyId = '';
@@ -141,40 +144,42 @@ export class SESService {
       // Try environment credentials first (direct use without decryption)
       // First try SES-specific credentials, then fall back to general AWS credentials
       if (process.env.AWS_SES_ACCESS_KEY_ID && process.env.AWS_SES_SECRET_ACCESS_KEY) {
-        console.log("SES Service [DEBUG]: Using SES-specific environment credentials directly");
-        console.log(`  - Access Key ID: ${process.env.AWS_SES_ACCESS_KEY_ID.substring(0, 10)}...`);
-        console.log(`  - Secret Key: ***SET***`);
+        log.debug("SES Service: Using SES-specific environment credentials directly", {
+          hasAccessKey: true,
+          hasSecretKey: true
+        });
         accessKeyId = process.env.AWS_SES_ACCESS_KEY_ID;
         secretAccessKey = process.env.AWS_SES_SECRET_ACCESS_KEY;
-        console.log("SES Service [DEBUG]: SES environment credentials loaded successfully");
+        log.debug("SES Service: SES environment credentials loaded successfully");
       } else if (process.env.AWS_ACCESS_KEY_ID && process.env.AWS_SECRET_ACCESS_KEY) {
-        console.log("SES Service [DEBUG]: Using general AWS environment credentials as fallback");
-        console.log(`  - Access Key ID: ${process.env.AWS_ACCESS_KEY_ID.substring(0, 10)}...`);
-        console.log(`  - Secret Key: ***SET***`);
+        log.debug("SES Service: Using general AWS environment credentials as fallback", {
+          hasAccessKey: true,
+          hasSecretKey: true
+        });
         accessKeyId = process.env.AWS_ACCESS_KEY_ID;
         secretAccessKey = process.env.AWS_SECRET_ACCESS_KEY;
-        console.log("SES Service [DEBUG]: General AWS credentials loaded successfully");
+        log.debug("SES Service: General AWS credentials loaded successfully");
       } else if (this.config.accessKeyId && this.config.accessKeyId !== '') {
-        console.log("SES Service: Attempting to decrypt access key from database...");
-        console.log("SES Service: Encrypted access key length:", this.config.accessKeyId.length);
+        log.info("SES Service: Attempting to decrypt access key from database...");
+        log.info("SES Service: Encrypted access key length", this.config.accessKeyId.length);
         
         try {
           accessKeyId = decrypt(this.config.accessKeyId);
           if (!accessKeyId) {
-            console.log("SES Service: Decryption returned empty. Configuration needs to be reset.");
-            console.log("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
+            log.info("SES Service: Decryption returned empty. Configuration needs to be reset.");
+            log.info("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
             this.initialized = false;
             return false;
           }
-          console.log("SES Service: Successfully decrypted access key");
+          log.info("SES Service: Successfully decrypted access key");
         } catch (error) {
-          console.error("SES Service: Failed to decrypt access key:", error);
-          console.log("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
+          log.error("SES Service: Failed to decrypt access key", error);
+          log.info("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
           this.initialized = false;
           return false;
         }
       } else {
-        console.log("SES Service: No access key configured. Please configure SES in Settings.");
+        log.info("SES Service: No access key configured. Please configure SES in Settings.");
         this.initialized = false;
         return false;
       }
@@ -182,39 +187,39 @@ export class SESService {
       // Only decrypt secret key if we're not using environment credentials directly
       if (!(process.env.AWS_SES_ACCESS_KEY_ID && process.env.AWS_SES_SECRET_ACCESS_KEY)) {
         if (this.config.secretAccessKey && this.config.secretAccessKey !== '') {
-          console.log("SES Service: Attempting to decrypt secret key from database...");
-          console.log("SES Service: Encrypted secret key length:", this.config.secretAccessKey.length);
+          log.info("SES Service: Attempting to decrypt secret key from database...");
+          log.info("SES Service: Encrypted secret key length", this.config.secretAccessKey.length);
           
           try {
             secretAccessKey = decrypt(this.config.secretAccessKey);
             if (!secretAccessKey) {
-              console.log("SES Service: Decryption returned empty. Configuration needs to be reset.");
-              console.log("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
+              log.info("SES Service: Decryption returned empty. Configuration needs to be reset.");
+              log.info("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
               this.initialized = false;
               return false;
             }
-            console.log("SES Service: Successfully decrypted secret key");
+            log.info("SES Service: Successfully decrypted secret key");
           } catch (error) {
-            console.error("SES Service: Failed to decrypt secret key:", error);
-            console.log("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
+            log.error("SES Service: Failed to decrypt secret key", error);
+            log.info("SES Service: Please reconfigure SES credentials in Settings → Email Configuration");
             this.initialized = false;
             return false;
           }
         } else {
-          console.log("SES Service: No secret key configured. Please configure SES in Settings.");
+          log.info("SES Service: No secret key configured. Please configure SES in Settings.");
           this.initialized = false;
           return false;
         }
       }
       
       if (!accessKeyId || !secretAccessKey) {
-        console.error("SES Service: Missing AWS credentials after decryption");
-        console.error("SES Service: Has encrypted accessKeyId:", !!this.config.accessKeyId);
-        console.error("SES Service: Has encrypted secretAccessKey:", !!this.config.secretAccessKey);
-        console.error("SES Service: Has env AWS_SES_ACCESS_KEY_ID:", !!process.env.AWS_SES_ACCESS_KEY_ID);
-        console.error("SES Service: Has env AWS_SES_SECRET_ACCESS_KEY:", !!process.env.AWS_SES_SECRET_ACCESS_KEY);
-        console.error("SES Service: Decrypted accessKeyId length:", accessKeyId.length);
-        console.error("SES Service: Decrypted secretAccessKey length:", secretAccessKey.length);
+        log.error("SES Service: Missing AWS credentials after decryption");
+        log.error("SES Service: Has encrypted accessKeyId", !!this.config.accessKeyId);
+        log.error("SES Service: Has encrypted secretAccessKey", !!this.config.secretAccessKey);
+        log.error("SES Service: Has env AWS_SES_ACCESS_KEY_ID", !!process.env.AWS_SES_ACCESS_KEY_ID);
+        log.error("SES Service: Has env AWS_SES_SECRET_ACCESS_KEY", !!process.env.AWS_SES_SECRET_ACCESS_KEY);
+        log.error("SES Service: Decrypted accessKeyId length", accessKeyId.length);
+        log.error("SES Service: Decrypted secretAccessKey length", secretAccessKey.length);
         this.initialized = false;
         return false;
       }
@@ -223,32 +228,33 @@ export class SESService {
       if (accessKeyId.includes('dummy') || accessKeyId.includes('test') || 
           secretAccessKey.includes('dummy') || secretAccessKey.includes('test') ||
           accessKeyId.toLowerCase().includes('fake') || secretAccessKey.toLowerCase().includes('fake')) {
-        console.log("SES Service: Detected test/dummy credentials, marking as development mode");
+        log.info("SES Service: Detected test/dummy credentials, marking as development mode");
         this.initialized = false;
         return false;
       }
 
       // Validate AWS credential format
       if (!accessKeyId.startsWith('AKIA') && !accessKeyId.startsWith('ASIA')) {
-        console.warn("SES Service: Access key doesn't match AWS format (should start with AKIA or ASIA)");
+        log.warn("SES Service: Access key doesn't match AWS format (should start with AKIA or ASIA)");
       }
       
       if (secretAccessKey.length < 20) {
-        console.warn("SES Service: Secret access key seems too short (AWS keys are typically 40+ characters)");
+        log.warn("SES Service: Secret access key seems too short (AWS keys are typically 40+ characters)");
       }
 
       // Initialize SES client with timeout configuration
       try {
         const region = this.config.region || process.env.AWS_SES_REGION || "us-east-1";
-        console.log("SES Service [DEBUG]: Creating SES client with configuration:");
-        console.log(`  - Region: ${region}`);
-        console.log(`  - Access Key ID: ${accessKeyId.substring(0, 10)}...`);
-        console.log(`  - From Email: ${this.config.fromEmail}`);
-        console.log(`  - Request Timeout: 10000ms`);
-        console.log(`  - Connection Timeout: 5000ms`);
+        log.debug("SES Service: Creating SES client with configuration", {
+          region,
+          hasAccessKey: !!accessKeyId,
+          fromEmail: this.config.fromEmail,
+          requestTimeoutMs: 10000,
+          connectionTimeoutMs: 5000
+        });
         
         this.client = new SESClient({
-          region: region,
+          region,
           credentials: {
             accessKeyId,
             secretAccessKey
@@ -260,17 +266,17 @@ export class SESService {
         });
         
         this.initialized = true;
-        console.log(`SES Service [DEBUG]: ✅ Initialized successfully with region: ${region}`);
+        log.debug(`SES Service: ✅ Initialized successfully with region: ${region}`);
         return true;
         
       } catch (clientError) {
-        console.error("SES Service: Failed to create SES client:", clientError);
+        log.error("SES Service: Failed to create SES client", clientError);
         this.initialized = false;
         return false;
       }
       
     } catch (error: any) {
-      console.error("SES Service: Initialization failed:", {
+      log.error("SES Service: Initialization failed", {
         message: error.message,
         code: error.code,
         stack: error.stack?.split('\n').slice(0, 3).join('\n') // First 3 lines of stack
@@ -362,7 +368,7 @@ export class SESService {
       await this.initialize();
       return true;
     } catch (error) {
-      console.error("SES Service: Failed to save configuration", error);
+      log.error("SES Service: Failed to save configuration", error);
       return false;
     }
   }
@@ -396,17 +402,17 @@ export class SESService {
     }
 
     if (!this.client) {
-      console.error("SES Service: Client not initialized");
+      log.error("SES Service: Client not initialized");
       return false;
     }
 
     try {
       const command = new VerifyEmailIdentityCommand({ EmailAddress: email });
       await this.client.send(command);
-      console.log(`SES Service: Verification email sent to ${email}`);
+      log.info(`SES Service: Verification email sent to ${email}`);
       return true;
     } catch (error) {
-      console.error("SES Service: Failed to verify email", error);
+      log.error("SES Service: Failed to verify email", error);
       return false;
     }
   }
@@ -942,14 +948,14 @@ HR Management System
       
       // Log the attempt for debugging
       if (!result.success) {
-        console.error(`Password reset email failed for ${email}:`, result.error);
+        log.error(`Password reset email failed for ${email}`, result.error);
       } else {
-        console.log(`Password reset email sent successfully to ${email} (Message ID: ${result.messageId})`);
+        log.info(`Password reset email sent successfully to ${email} (Message ID: ${result.messageId})`);
       }
       
       return result;
     } catch (error) {
-      console.error('Error sending password reset email:', error);
+      log.error('Error sending password reset email', error);
       return {
         success: false,
         error: error instanceof Error ? error.message : 'Failed to send password reset email'
@@ -1002,21 +1008,21 @@ HR Management System
       const initialized = await this.initialize();
       if (!initialized) {
         // Development mode fallback - log email details instead of sending
-        console.log("============================================");
-        console.log("SES Service: DEVELOPMENT MODE - Email Details");
-        console.log("============================================");
-        console.log("TO:", options.to);
-        console.log("SUBJECT:", options.subject);
-        console.log("BODY (text):", options.bodyText?.substring(0, 200) + "...");
+        log.info("============================================");
+        log.info("SES Service: DEVELOPMENT MODE - Email Details");
+        log.info("============================================");
+        log.info("TO", options.to);
+        log.info("SUBJECT", options.subject);
+        log.info("BODY (text)", options.bodyText?.substring(0, 200) + "...");
         if (options.replyTo) {
-          console.log("REPLY-TO:", options.replyTo);
+          log.info("REPLY-TO", options.replyTo);
         }
-        console.log("============================================");
-        console.log("NOTE: Email not sent - SES is not configured.");
-        console.log("To enable email sending:");
-        console.log("1. Set ENCRYPTION_KEY environment variable");
-        console.log("2. Configure SES in Settings → Email Configuration");
-        console.log("============================================");
+        log.info("============================================");
+        log.info("NOTE: Email not sent - SES is not configured.");
+        log.info("To enable email sending:");
+        log.info("1. Set ENCRYPTION_KEY environment variable");
+        log.info("2. Configure SES in Settings → Email Configuration");
+        log.info("============================================");
         
         // Return success in development mode to allow workflow to continue
         // But include a flag indicating it's a development mode send
@@ -1028,13 +1034,13 @@ HR Management System
       }
 
       if (!this.client || !this.config) {
-        console.log("SES Service: Client not initialized, using development mode");
-        console.log("============================================");
-        console.log("SES Service: DEVELOPMENT MODE - Email Details");
-        console.log("============================================");
-        console.log("TO:", options.to);
-        console.log("SUBJECT:", options.subject);
-        console.log("============================================");
+        log.info("SES Service: Client not initialized, using development mode");
+        log.info("============================================");
+        log.info("SES Service: DEVELOPMENT MODE - Email Details");
+        log.info("============================================");
+        log.info("TO", options.to);
+        log.info("SUBJECT", options.subject);
+        log.info("============================================");
         return { 
           success: true, 
           messageId: `dev-mode-${Date.now()}`,
@@ -1044,13 +1050,14 @@ HR Management System
 
       // Use simple email format without display name to avoid permission issues
       const sourceEmail = this.config.fromEmail || 'admin@atcemr.com';
-      console.log(`SES Service [DEBUG]: Preparing to send email:`);
-      console.log(`  - From: ${sourceEmail}`);
-      console.log(`  - To: ${options.to}`);
-      console.log(`  - Subject: ${options.subject}`);
-      console.log(`  - Has HTML body: ${!!options.bodyHtml}`);
-      console.log(`  - Has text body: ${!!options.bodyText}`);
-      console.log(`  - Reply-To: ${options.replyTo || 'not set'}`);
+      log.debug(`SES Service: Preparing to send email`, {
+        from: sourceEmail,
+        to: options.to,
+        subject: options.subject,
+        hasHtmlBody: !!options.bodyHtml,
+        hasTextBody: !!options.bodyText,
+        replyTo: options.replyTo || 'not set'
+      });
       
       const params = {
         Source: sourceEmail, // Use just the email address without display name
@@ -1080,7 +1087,7 @@ HR Management System
         ...(options.replyTo && { ReplyToAddresses: [options.replyTo] })
       };
 
-      console.log("SES Service [DEBUG]: Sending email via AWS SES...");
+      log.debug("SES Service: Sending email via AWS SES...");
       const command = new SendEmailCommand(params);
       
       // Add promise timeout wrapper to prevent hanging
@@ -1091,21 +1098,23 @@ HR Management System
       
       const response = await Promise.race([sendEmailPromise, timeoutPromise]);
       
-      console.log(`SES Service [DEBUG]: ✅ Email sent successfully!`);
-      console.log(`  - To: ${options.to}`);
-      console.log(`  - Message ID: ${response.MessageId}`);
-      console.log(`  - Request ID: ${response.$metadata?.requestId}`);
+      log.debug(`SES Service: ✅ Email sent successfully!`, {
+        to: options.to,
+        messageId: response.MessageId,
+        awsRequestId: response.$metadata?.requestId
+      });
       return { success: true, messageId: response.MessageId };
     } catch (error: any) {
-      console.log("SES Service [DEBUG]: Email send failed with error:");
-      console.log(`  - Error Name: ${error.name}`);
-      console.log(`  - Error Code: ${error.Code}`);
-      console.log(`  - Error Message: ${error.message}`);
-      console.log(`  - HTTP Status: ${error.$metadata?.httpStatusCode}`);
-      console.log(`  - Request ID: ${error.$metadata?.requestId}`);
-      console.log(`  - Error Type: ${error.$fault}`);
+      log.debug("SES Service: Email send failed with error", {
+        errorName: error.name,
+        errorCode: error.Code,
+        errorMessage: error.message,
+        httpStatus: error.$metadata?.httpStatusCode,
+        awsRequestId: error.$metadata?.requestId,
+        errorType: error.$fault
+      });
       
-      console.error("SES Service: Failed to send email", error);
+      log.error("SES Service: Failed to send email", error);
       return { 
         success: false, 
         error: error.message || "Failed to send email"
@@ -1139,7 +1148,7 @@ HR Management System
         region: config.region
       };
     } catch (error) {
-      console.error("SES Service: Failed to get configuration status", error);
+      log.error("SES Service: Failed to get configuration status", error);
       return { configured: false, enabled: false, verified: false };
     }
   }
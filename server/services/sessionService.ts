@@ -0,0 +1,171 @@
+/**
+ * @fileoverview Active Session Management Service
+ *
+ * This module lists and revokes the login sessions kept by connect-pg-simple
+ * in the `session` table. It backs the "Where you're signed in" panel for
+ * users and the per-user session view for administrators.
+ *
+ * Features:
+ * - Lists unexpired sessions with device, IP address and last activity
+ * - Opaque session identifiers (hash of the session ID) for the client
+ * - Revoking a single session or all sessions for a user
+ *
+ * Device and activity details come from `req.session.device`, which the
+ * activity tracker in auth.ts keeps up to date for signed-in requests.
+ *
+ * @module sessionService
+ * @requires crypto
+ */
+
+import crypto from 'crypto';
+import { storage } from '../storage';
+import type { ActiveSession, SessionRecord } from '@shared/schema';
+
+/**
+ * Device metadata saved in each login session
+ */
+export interface SessionDeviceInfo {
+  userAgent?: string;
+  ipAddress?: string;
+  createdAt: string;
+  lastActiveAt: string;
+}
+
+/**
+ * Browser and platform patterns, checked in order (first match wins)
+ */
+const BROWSER_PATTERNS: Array<[RegExp, string]> = [
+  [/Edg\//, 'Edge'],
+  [/OPR\//, 'Opera'],
+  [/Chrome\//, 'Chrome'],
+  [/Firefox\//, 'Firefox'],
+  [/Version\/.*Safari\//, 'Safari']
+];
+
+const PLATFORM_PATTERNS: Array<[RegExp, string]> = [
+  [/iPhone|iPad/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux']
+];
+
+/**
+ * Turn a User-Agent header into a short label such as "Chrome on Windows"
+ *
+ * @param {string} [userAgent] - Raw User-Agent header
+ * @returns {string} Human-readable device description
+ */
+export function describeUserAgent(userAgent?: string): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = BROWSER_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const platform = PLATFORM_PATTERNS.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+  if (browser) {
+    return platform ? `${browser} on ${platform}` : browser;
+  }
+
+  // Non-browser clients (curl, Postman, scripts): show the product token
+  return userAgent.split(/[\s/]/)[0].slice(0, 50) || 'Unknown device';
+}
+
+/**
+ * Session Service Class
+ *
+ * @class SessionService
+ * @description Clients only ever see a hash of the session ID, so a leaked
+ * session listing cannot be replayed as a cookie.
+ */
+class SessionService {
+  /**
+   * Derive the opaque identifier shown to clients for a session
+   * @param {string} sid - Session ID
+   * @returns {string} 32-character hex identifier
+   */
+  getPublicId(sid: string): string {
+    return crypto.createHash('sha256').update(sid).digest('hex').slice(0, 32);
+  }
+
+  /**
+   * Convert a session row to its client representation
+   */
+  private toActiveSession(record: SessionRecord, currentSid?: string): ActiveSession {
+    const device = (record.sess as { device?: SessionDeviceInfo }).device;
+
+    return {
+      id: this.getPublicId(record.sid),
+      device: describeUserAgent(device?.userAgent),
+      ipAddress: device?.ipAddress || null,
+      createdAt: device?.createdAt || null,
+      lastActiveAt: device?.lastActiveAt || null,
+      expiresAt: new Date(record.expire).toISOString(),
+      current: record.sid === currentSid
+    };
+  }
+
+  /**
+   * List a user's active sessions, current session first then by last activity
+   *
+   * @param {number} userId - User ID
+   * @param {string} [currentSid] - Session ID of the request, flagged as current
+   * @returns {Promise<ActiveSession[]>} Active sessions
+   */
+  async listForUser(userId: number, currentSid?: string): Promise<ActiveSession[]> {
+    const records = await storage.getUserSessions(userId);
+
+    return records
+      .map(record => this.toActiveSession(record, currentSid))
+      .sort((a, b) => {
+        if (a.current !== b.current) return a.current ? -1 : 1;
+        return (b.lastActiveAt || '').localeCompare(a.lastActiveAt || '');
+      });
+  }
+
+  /**
+   * Resolve a public session identifier back to the session ID
+   *
+   * @param {number} userId - Owner of the session
+   * @param {string} publicId - Identifier from listForUser()
+   * @returns {Promise<string | undefined>} Session ID, or undefined if not found for this user
+   */
+  async findSessionId(userId: number, publicId: string): Promise<string | undefined> {
+    const records = await storage.getUserSessions(userId);
+    return records.find(record => this.getPublicId(record.sid) === publicId)?.sid;
+  }
+
+  /**
+   * Revoke one session belonging to a user
+   *
+   * @param {number} userId - Owner of the session
+   * @param {string} publicId - Identifier from listForUser()
+   * @returns {Promise<boolean>} True if a session was revoked
+   */
+  async revoke(userId: number, publicId: string): Promise<boolean> {
+    const sid = await this.findSessionId(userId, publicId);
+    if (!sid) {
+      return false;
+    }
+    return (await storage.deleteUserSessions(userId, { sids: [sid] })) > 0;
+  }
+
+  /**
+   * Revoke all sessions for a user
+   *
+   * @param {number} userId - User ID
+   * @param {string} [exceptSid] - Session ID to keep (the caller's own session)
+   * @returns {Promise<number>} Number of sessions revoked
+   */
+  async revokeAll(userId: number, exceptSid?: string): Promise<number> {
+    return storage.deleteUserSessions(userId, { exceptSid });
+  }
+}
+
+/**
+ * Singleton instance of session service
+ * @type {SessionService}
+ */
+export const sessionService = new SessionService();
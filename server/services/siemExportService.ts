@@ -0,0 +1,355 @@
+/**
+ * @fileoverview SIEM Audit Export Service
+ *
+ * Streams new audit rows to a security team's SIEM as RFC 5424 syslog, CEF
+ * or JSON lines, over TCP, TLS or into a file that a log shipper picks up.
+ *
+ * Delivery is tracked in siem_export_checkpoints: each batch is read after
+ * the exporter's last delivered audit ID and the checkpoint only moves once
+ * the batch has been written, in the same transaction that locks the
+ * checkpoint row. A restart resumes after the last delivered row and a second
+ * instance skips the run instead of sending the same rows. Audit IDs are
+ * assigned under the audit chain lock, so rows commit in ID order and none
+ * are skipped.
+ *
+ * Configuration (environment):
+ * - SIEM_EXPORT_TARGET: tcp://host:port, tls://host:port or file:///path (export is off when unset)
+ * - SIEM_EXPORT_FORMAT: syslog (default), cef or json
+ * - SIEM_EXPORT_NAME: checkpoint name (default "default"); a new name replays the whole log
+ * - SIEM_EXPORT_TLS_CA: PEM CA bundle for tls:// targets
+ * - SIEM_EXPORT_TLS_REJECT_UNAUTHORIZED: "false" to accept self-signed listeners
+ * - SIEM_EXPORT_HOSTNAME, SIEM_EXPORT_APP_NAME, SIEM_EXPORT_FACILITY, SIEM_EXPORT_BATCH_SIZE
+ *
+ * @module siemExportService
+ */
+
+import fs from 'fs';
+import net from 'net';
+import os from 'os';
+import tls from 'tls';
+import { storage } from '../storage';
+import { formatSiemMessage, type SiemFormat, type SiemFormatOptions } from '../utils/siemFormat';
+import type { SiemExportCheckpoint } from '@shared/schema';
+
+/**
+ * Batches sent per run at most, so one run cannot hold the checkpoint for long
+ */
+const MAX_BATCHES_PER_RUN = 20;
+
+/**
+ * Time allowed to connect to the SIEM
+ */
+const CONNECT_TIMEOUT_MS = 10000;
+
+/**
+ * Parsed exporter configuration
+ */
+export interface SiemExportConfig extends SiemFormatOptions {
+  name: string;
+  target: URL;
+  format: SiemFormat;
+  batchSize: number;
+  tls: { ca?: string; rejectUnauthorized: boolean };
+}
+
+/**
+ * Outcome of an export run
+ */
+export interface SiemExportResult {
+  exported: number;
+  lastAuditId: number | null;
+  /** Another instance held the checkpoint; nothing was sent */
+  busy: boolean;
+}
+
+/**
+ * Custom error class for SIEM export operations
+ */
+export class SiemExportError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'SiemExportError';
+  }
+}
+
+/**
+ * Destination that accepts rendered messages
+ */
+interface SiemTransport {
+  send(messages: string[]): Promise<void>;
+  close(): Promise<void>;
+}
+
+/**
+ * Appends newline-terminated messages to a file
+ */
+class FileTransport implements SiemTransport {
+  constructor(private path: string) {}
+
+  async send(messages: string[]): Promise<void> {
+    await fs.promises.appendFile(this.path, messages.map(message => `${message}\n`).join(''));
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * Writes messages to a TCP or TLS connection, reconnecting as needed
+ *
+ * Syslog uses octet-counting framing (RFC 6587), other formats one message per line.
+ */
+class SocketTransport implements SiemTransport {
+  private socket: net.Socket | null = null;
+
+  constructor(private config: SiemExportConfig) {}
+
+  async send(messages: string[]): Promise<void> {
+    const socket = await this.connect();
+    const payload = messages
+      .map(message => this.config.format === 'syslog' ? `${Buffer.byteLength(message)} ${message}` : `${message}\n`)
+      .join('');
+
+    await new Promise<void>((resolve, reject) => {
+      socket.write(payload, (error) => error ? reject(error) : resolve());
+    });
+  }
+
+  async close(): Promise<void> {
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && !socket.destroyed) {
+      await new Promise<void>(resolve => socket.end(resolve));
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Reuse the open connection or open a new one
+   * @returns {Promise<net.Socket>} Connected socket
+   */
+  private connect(): Promise<net.Socket> {
+    if (this.socket && !this.socket.destroyed) {
+      return Promise.resolve(this.socket);
+    }
+
+    const host = this.config.target.hostname;
+    const port = Number(this.config.target.port);
+    const secure = this.config.target.protocol === 'tls:';
+
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? tls.connect({ host, port, servername: net.isIP(host) ? undefined : host, ...this.config.tls })
+        : net.connect({ host, port });
+
+      const onError = (error: Error) => {
+        socket.destroy();
+        reject(new SiemExportError(`Cannot connect to SIEM at ${host}:${port}: ${error.message}`, 502));
+      };
+      socket.once('error', onError);
+      socket.setTimeout(CONNECT_TIMEOUT_MS, () => socket.destroy(new Error('connection timed out')));
+
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        socket.off('error', onError);
+        socket.setTimeout(0);
+        socket.setKeepAlive(true);
+        socket.on('error', () => socket.destroy());
+        socket.on('close', () => {
+          if (this.socket === socket) {
+            this.socket = null;
+          }
+        });
+        this.socket = socket;
+        resolve(socket);
+      });
+    });
+  }
+}
+
+/**
+ * SIEM Export Service Class
+ *
+ * @class SiemExportService
+ * @description Sends new audit rows to the configured SIEM and reports exporter status.
+ */
+class SiemExportService {
+  private transport: SiemTransport | null = null;
+  private transportKey: string | null = null;
+  private running = false;
+
+  /**
+   * Read the exporter configuration from the environment
+   *
+   * @returns {SiemExportConfig | null} Configuration, or null when export is off
+   * @throws {SiemExportError} When a setting is invalid
+   */
+  getConfig(): SiemExportConfig | null {
+    const rawTarget = process.env.SIEM_EXPORT_TARGET;
+    if (!rawTarget) {
+      return null;
+    }
+
+    let target: URL;
+    try {
+      target = new URL(rawTarget);
+    } catch {
+      throw new SiemExportError('SIEM_EXPORT_TARGET must be a URL such as tcp://siem:514, tls://siem:6514 or file:///var/log/hrms-audit.log');
+    }
+    if (!['tcp:', 'tls:', 'file:'].includes(target.protocol)) {
+      throw new SiemExportError('SIEM_EXPORT_TARGET must use tcp://, tls:// or file://');
+    }
+    if (target.protocol !== 'file:' && (!target.hostname || !target.port)) {
+      throw new SiemExportError('SIEM_EXPORT_TARGET must include a host and port');
+    }
+
+    const format = (process.env.SIEM_EXPORT_FORMAT || 'syslog').toLowerCase();
+    if (!['syslog', 'cef', 'json'].includes(format)) {
+      throw new SiemExportError('SIEM_EXPORT_FORMAT must be syslog, cef or json');
+    }
+
+    const facility = parseInt(process.env.SIEM_EXPORT_FACILITY || '13');
+    if (isNaN(facility) || facility < 0 || facility > 23) {
+      throw new SiemExportError('SIEM_EXPORT_FACILITY must be between 0 and 23');
+    }
+
+    return {
+      name: process.env.SIEM_EXPORT_NAME || 'default',
+      target,
+      format: format as SiemFormat,
+      batchSize: Math.min(Math.max(parseInt(process.env.SIEM_EXPORT_BATCH_SIZE || '500') || 500, 1), 5000),
+      hostname: process.env.SIEM_EXPORT_HOSTNAME || os.hostname(),
+      appName: process.env.SIEM_EXPORT_APP_NAME || 'hrms',
+      facility,
+      tls: {
+        ca: process.env.SIEM_EXPORT_TLS_CA?.replace(/\\n/g, '\n'),
+        rejectUnauthorized: process.env.SIEM_EXPORT_TLS_REJECT_UNAUTHORIZED !== 'false'
+      }
+    };
+  }
+
+  /**
+   * Whether a SIEM target is configured
+   * @returns {boolean} True when SIEM_EXPORT_TARGET is set
+   */
+  isEnabled(): boolean {
+    return Boolean(process.env.SIEM_EXPORT_TARGET);
+  }
+
+  /**
+   * Send every audit row written since the last delivered one
+   *
+   * @returns {Promise<SiemExportResult>} Rows sent and the new checkpoint
+   * @throws {SiemExportError} When export is not configured or the SIEM cannot be reached;
+   * the checkpoint is left where it was and the error is recorded on it
+   */
+  async exportPending(): Promise<SiemExportResult> {
+    const config = this.getConfig();
+    if (!config) {
+      throw new SiemExportError('SIEM export is not configured');
+    }
+    if (this.running) {
+      return { exported: 0, lastAuditId: null, busy: true };
+    }
+
+    this.running = true;
+    let exported = 0;
+    let lastAuditId: number | null = null;
+
+    try {
+      for (let i = 0; i < MAX_BATCHES_PER_RUN; i++) {
+        const result = await storage.advanceSiemExportCheckpoint(config.name, async (afterId) => {
+          const batch = await storage.getAuditChainBatch(afterId, config.batchSize);
+          if (batch.length === 0) {
+            return { lastAuditId: afterId, exported: 0 };
+          }
+
+          await this.getTransport(config).send(batch.map(audit => formatSiemMessage(config.format, audit, config)));
+          return { lastAuditId: batch[batch.length - 1].id, exported: batch.length };
+        });
+
+        if (!result) {
+          return { exported, lastAuditId, busy: true };
+        }
+        exported += result.exported;
+        lastAuditId = result.lastAuditId;
+        if (result.exported < config.batchSize) {
+          break;
+        }
+      }
+
+      return { exported, lastAuditId, busy: false };
+    } catch (error) {
+      await this.closeTransport();
+      const message = error instanceof Error ? error.message : String(error);
+      await storage.recordSiemExportError(config.name, message).catch(() => {});
+      throw error instanceof SiemExportError ? error : new SiemExportError(`SIEM export failed: ${message}`, 502);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Exporter configuration and progress
+   * @returns {Promise<object>} Status for administrators (target without credentials)
+   */
+  async getStatus(): Promise<{
+    enabled: boolean;
+    target: string | null;
+    format: SiemFormat | null;
+    name: string | null;
+    checkpoint: SiemExportCheckpoint | null;
+    latestAuditId: number | null;
+  }> {
+    const config = this.getConfig();
+    if (!config) {
+      return { enabled: false, target: null, format: null, name: null, checkpoint: null, latestAuditId: null };
+    }
+
+    const [checkpoint, head] = await Promise.all([
+      storage.getSiemExportCheckpoint(config.name),
+      storage.getAuditChainHead(new Date())
+    ]);
+
+    return {
+      enabled: true,
+      target: config.target.protocol === 'file:' ? `file://${config.target.pathname}` : `${config.target.protocol}//${config.target.host}`,
+      format: config.format,
+      name: config.name,
+      checkpoint: checkpoint ?? null,
+      latestAuditId: head.lastAuditId
+    };
+  }
+
+  /**
+   * Close the SIEM connection
+   * @returns {Promise<void>}
+   */
+  async closeTransport(): Promise<void> {
+    const transport = this.transport;
+    this.transport = null;
+    this.transportKey = null;
+    await transport?.close().catch(() => {});
+  }
+
+  /**
+   * Transport for the configured target, replaced when the target or format changes
+   * @param {SiemExportConfig} config - Configuration
+   * @returns {SiemTransport} Transport
+   */
+  private getTransport(config: SiemExportConfig): SiemTransport {
+    const key = `${config.target.href}|${config.format}`;
+    if (!this.transport || this.transportKey !== key) {
+      void this.transport?.close();
+      this.transport = config.target.protocol === 'file:'
+        ? new FileTransport(decodeURIComponent(config.target.pathname))
+        : new SocketTransport(config);
+      this.transportKey = key;
+    }
+    return this.transport;
+  }
+}
+
+/**
+ * Singleton instance of SiemExportService
+ * @type {SiemExportService}
+ */
+export const siemExportService = new SiemExportService();
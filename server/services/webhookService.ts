@@ -0,0 +1,586 @@
+/**
+ * @fileoverview Outbound Webhook Service
+ *
+ * This module notifies downstream systems (payroll, EMR provisioning, badge
+ * access) when HR events happen, by POSTing signed JSON to endpoints that
+ * administrators register under Settings > Webhooks.
+ *
+ * Events:
+ * - employee.approved: POST /api/employees/:id/approve succeeded
+ * - license.expired: a state or DEA license reached its expiration date (daily cron)
+ * - form.completed: an employee completed a DocuSeal form
+ * - invitation.accepted: an invited employee registered their account
+ * - employee.terminated: an employee's offboarding completed on their termination date
+ *
+ * Delivery:
+ * - Every event is stored as one delivery per subscribed endpoint before it
+ *   is sent, so nothing is lost if the server restarts
+ * - Non-2xx responses, timeouts and network errors are retried after
+ *   1, 5, 30, 120 and 720 minutes; after the sixth failed attempt the
+ *   delivery is dead-lettered until an admin redelivers it
+ * - Each request carries X-Webhook-Signature: sha256=<hex>, an HMAC-SHA256 of
+ *   "<X-Webhook-Timestamp>.<raw body>" keyed with the endpoint's secret
+ *
+ * Payloads carry identifiers and status only, never SSNs or other PHI;
+ * receivers look up anything else through the API with their own key.
+ *
+ * Endpoint hosts must resolve to public addresses, checked when the URL is
+ * saved, before every attempt and on the address each attempt connects to,
+ * so webhooks cannot be pointed at loopback, private networks or cloud
+ * metadata services.
+ *
+ * @module webhookService
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import net from 'net';
+import { Agent, fetch } from 'undici';
+import { storage } from '../storage';
+import { encrypt, decrypt } from '../utils/encryption';
+import type {
+  WebhookDelivery,
+  WebhookEndpoint,
+  WebhookEndpointSummary,
+  WebhookEventDefinition,
+  InsertWebhookEndpoint
+} from '@shared/schema';
+import { logger } from '../utils/logger';
+
+const log = logger.child({ module: 'webhooks' });
+
+/**
+ * Events endpoints can subscribe to
+ */
+export const WEBHOOK_EVENTS: WebhookEventDefinition[] = [
+  { type: 'employee.approved', description: 'A prospective employee was approved and given portal access' },
+  { type: 'license.expired', description: 'A state or DEA license reached its expiration date' },
+  { type: 'form.completed', description: 'An employee completed and signed a DocuSeal form' },
+  { type: 'invitation.accepted', description: 'An invited employee registered their account' },
+  { type: 'employee.terminated', description: 'An employee was terminated and their payer enrollments ended' }
+];
+
+/**
+ * Event sent by "Send test" to a single endpoint, regardless of its filter
+ */
+export const WEBHOOK_TEST_EVENT = 'webhook.test';
+
+/**
+ * Minutes to wait before each retry; the attempt after the last entry is final
+ */
+export const WEBHOOK_RETRY_MINUTES = [1, 5, 30, 120, 720];
+
+/**
+ * Total attempts before a delivery is dead-lettered
+ */
+export const WEBHOOK_MAX_ATTEMPTS = WEBHOOK_RETRY_MINUTES.length + 1;
+
+/**
+ * How long to wait for a receiver to respond
+ */
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Characters of the response body kept in the delivery log
+ */
+const RESPONSE_BODY_LIMIT = 1000;
+
+/**
+ * Addresses endpoints may not resolve to: unspecified, loopback, private,
+ * carrier-grade NAT, link-local (including 169.254.169.254), benchmark,
+ * multicast and reserved ranges. IPv4-mapped IPv6 addresses match the IPv4 ranges.
+ */
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+/**
+ * Deliveries sent per processing run
+ */
+const PROCESS_BATCH_SIZE = 50;
+
+/**
+ * Error raised when a webhook request is not valid
+ * The message is safe to show to the admin.
+ */
+export class WebhookError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+    this.name = 'WebhookError';
+  }
+}
+
+/**
+ * Check whether an address is in one of the blocked ranges
+ */
+function isBlockedAddress(address: string, family: number): boolean {
+  return BLOCKED_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * DNS lookup used when a delivery connects: refuses hosts that resolve to a
+ * blocked address, so the address checked is the one connected to even if
+ * DNS changes between assertPublicHost and the request
+ */
+export const lookupPublicAddress: net.LookupFunction = (hostname, options, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (err, addresses) => {
+    if (err) {
+      return callback(err, '');
+    }
+    if (addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+      return callback(new WebhookError('Webhook URLs must point to a public address'), '');
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
+
+/**
+ * Connection pool for deliveries
+ */
+const deliveryAgent = new Agent({ connect: { lookup: lookupPublicAddress } });
+
+/**
+ * Compute the signature header value for a payload
+ * @param {string} secret - Endpoint signing secret
+ * @param {string} timestamp - Unix seconds sent in X-Webhook-Timestamp
+ * @param {string} body - Raw JSON body
+ * @returns {string} "sha256=<hex digest>"
+ */
+export function signWebhookPayload(secret: string, timestamp: string, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Webhook Service Class
+ *
+ * @class WebhookService
+ * @description Manages endpoints, queues events and sends deliveries with retries.
+ */
+class WebhookService {
+  private processing = false;
+
+  /**
+   * List the events endpoints can subscribe to
+   * @returns {WebhookEventDefinition[]} Event catalog
+   */
+  listEvents(): WebhookEventDefinition[] {
+    return WEBHOOK_EVENTS;
+  }
+
+  /**
+   * List endpoints with their delivery counts
+   * @returns {Promise<WebhookEndpointSummary[]>} Endpoints without secrets
+   */
+  async listEndpoints(): Promise<WebhookEndpointSummary[]> {
+    const [endpoints, counts] = await Promise.all([
+      storage.getWebhookEndpoints(),
+      storage.getWebhookDeliveryCounts()
+    ]);
+
+    return endpoints.map(endpoint => {
+      const deliveryCounts: Record<string, number> = {};
+      for (const row of counts.filter(count => count.endpointId === endpoint.id)) {
+        deliveryCounts[row.status] = row.count;
+      }
+      return this.toSummary(endpoint, deliveryCounts);
+    });
+  }
+
+  /**
+   * Get an endpoint or fail with 404
+   * @param {number} id - Endpoint ID
+   * @returns {Promise<WebhookEndpoint>} Endpoint
+   * @throws {WebhookError} 404 when the endpoint does not exist
+   */
+  async getEndpoint(id: number): Promise<WebhookEndpoint> {
+    const endpoint = Number.isInteger(id) ? await storage.getWebhookEndpoint(id) : undefined;
+    if (!endpoint) {
+      throw new WebhookError('Webhook endpoint not found', 404);
+    }
+    return endpoint;
+  }
+
+  /**
+   * Register an endpoint and generate its signing secret
+   * @param {InsertWebhookEndpoint} input - Name, URL, events and description
+   * @param {number} createdBy - Admin creating the endpoint
+   * @returns {Promise<object>} Created endpoint and the secret (shown only once)
+   * @throws {WebhookError} When the URL or events are invalid
+   */
+  async createEndpoint(input: InsertWebhookEndpoint, createdBy: number): Promise<{
+    endpoint: WebhookEndpoint;
+    secret: string;
+  }> {
+    await this.validateUrl(input.url);
+    this.validateEvents(input.events);
+
+    const secret = this.generateSecret();
+    const endpoint = await storage.createWebhookEndpoint({
+      name: input.name,
+      url: input.url,
+      description: input.description ?? null,
+      events: Array.from(new Set(input.events)),
+      active: input.active ?? true,
+      secret: encrypt(secret),
+      createdBy
+    });
+
+    return { endpoint, secret };
+  }
+
+  /**
+   * Update an endpoint's settings
+   * @param {number} id - Endpoint ID
+   * @param {Partial<InsertWebhookEndpoint>} input - Fields to change
+   * @returns {Promise<WebhookEndpoint>} Updated endpoint
+   * @throws {WebhookError} When the endpoint is missing or the URL or events are invalid
+   */
+  async updateEndpoint(id: number, input: Partial<InsertWebhookEndpoint>): Promise<WebhookEndpoint> {
+    await this.getEndpoint(id);
+    if (input.url !== undefined) await this.validateUrl(input.url);
+    if (input.events !== undefined) this.validateEvents(input.events);
+
+    return storage.updateWebhookEndpoint(id, {
+      ...input,
+      ...(input.events ? { events: Array.from(new Set(input.events)) } : {})
+    });
+  }
+
+  /**
+   * Delete an endpoint along with its delivery log
+   * @param {number} id - Endpoint ID
+   * @returns {Promise<WebhookEndpoint>} Deleted endpoint (for the audit trail)
+   */
+  async deleteEndpoint(id: number): Promise<WebhookEndpoint> {
+    const endpoint = await this.getEndpoint(id);
+    await storage.deleteWebhookEndpoint(id);
+    return endpoint;
+  }
+
+  /**
+   * Replace an endpoint's signing secret
+   * @param {number} id - Endpoint ID
+   * @returns {Promise<string>} New secret (shown only once)
+   */
+  async rotateSecret(id: number): Promise<string> {
+    await this.getEndpoint(id);
+    const secret = this.generateSecret();
+    await storage.updateWebhookEndpoint(id, { secret: encrypt(secret) });
+    return secret;
+  }
+
+  /**
+   * Queue an event for every active endpoint subscribed to it, then start sending
+   *
+   * Never throws: a webhook problem must not fail the request or job that
+   * raised the event.
+   *
+   * @param {string} type - Event type from WEBHOOK_EVENTS
+   * @param {object} data - Event data (identifiers and status, no PHI)
+   * @returns {Promise<number>} Number of deliveries queued
+   */
+  async emit(type: string, data: Record<string, unknown>): Promise<number> {
+    try {
+      const endpoints = await storage.getWebhookEndpointsForEvent(type);
+      if (endpoints.length === 0) {
+        return 0;
+      }
+
+      const event = this.buildEvent(type, data);
+      for (const endpoint of endpoints) {
+        await storage.createWebhookDelivery({
+          endpointId: endpoint.id,
+          eventId: event.id,
+          eventType: type,
+          payload: event,
+          status: 'pending',
+          nextAttemptAt: new Date()
+        });
+      }
+
+      // Send right away instead of waiting for the next cron run
+      void this.processDue();
+      return endpoints.length;
+    } catch (error) {
+      log.error(`Failed to queue webhook event ${type}`, error);
+      return 0;
+    }
+  }
+
+  /**
+   * Send a test event to one endpoint and wait for the result
+   * @param {number} id - Endpoint ID
+   * @returns {Promise<WebhookDelivery>} Delivery with the receiver's response
+   */
+  async sendTest(id: number): Promise<WebhookDelivery> {
+    const endpoint = await this.getEndpoint(id);
+    const event = this.buildEvent(WEBHOOK_TEST_EVENT, { endpointId: endpoint.id, message: 'Test event from HR Management System' });
+
+    const delivery = await storage.createWebhookDelivery({
+      endpointId: endpoint.id,
+      eventId: event.id,
+      eventType: WEBHOOK_TEST_EVENT,
+      payload: event,
+      status: 'pending',
+      nextAttemptAt: new Date()
+    });
+
+    return this.deliver(delivery, endpoint);
+  }
+
+  /**
+   * Send every delivery whose next attempt is due
+   * Runs from the cron job and after each emit; overlapping runs are skipped.
+   * @returns {Promise<number>} Number of deliveries attempted
+   */
+  async processDue(): Promise<number> {
+    if (this.processing) {
+      return 0;
+    }
+    this.processing = true;
+
+    try {
+      const due = await storage.getDueWebhookDeliveries(new Date(), PROCESS_BATCH_SIZE);
+      const endpoints = new Map<number, WebhookEndpoint | undefined>();
+
+      for (const delivery of due) {
+        if (!endpoints.has(delivery.endpointId)) {
+          endpoints.set(delivery.endpointId, await storage.getWebhookEndpoint(delivery.endpointId));
+        }
+        const endpoint = endpoints.get(delivery.endpointId);
+        // Paused endpoints keep their queue until they are resumed
+        if (endpoint && !endpoint.active) {
+          continue;
+        }
+        await this.deliver(delivery, endpoint);
+      }
+      return due.length;
+    } catch (error) {
+      log.error('Error processing webhook deliveries', error);
+      return 0;
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  /**
+   * Queue a failed or dead-lettered delivery to be sent again
+   * @param {number} deliveryId - Delivery ID
+   * @returns {Promise<WebhookDelivery>} Requeued delivery
+   * @throws {WebhookError} 404 when missing, 400 when already delivered or queued
+   */
+  async redeliver(deliveryId: number): Promise<WebhookDelivery> {
+    const delivery = Number.isInteger(deliveryId) ? await storage.getWebhookDelivery(deliveryId) : undefined;
+    if (!delivery) {
+      throw new WebhookError('Delivery not found', 404);
+    }
+    if (delivery.status !== 'dead' && delivery.status !== 'retrying') {
+      throw new WebhookError('Only failed deliveries can be redelivered');
+    }
+
+    const requeued = await storage.updateWebhookDelivery(delivery.id, {
+      status: 'pending',
+      attempts: 0,
+      nextAttemptAt: new Date()
+    });
+    void this.processDue();
+    return requeued;
+  }
+
+  /**
+   * Convert an endpoint to its admin-facing summary
+   * @param {WebhookEndpoint} endpoint - Stored endpoint
+   * @param {Record<string, number>} deliveryCounts - Deliveries by status
+   * @returns {WebhookEndpointSummary} Endpoint without its secret
+   */
+  toSummary(endpoint: WebhookEndpoint, deliveryCounts: Record<string, number> = {}): WebhookEndpointSummary {
+    return {
+      id: endpoint.id,
+      name: endpoint.name,
+      url: endpoint.url,
+      description: endpoint.description,
+      events: endpoint.events,
+      active: endpoint.active,
+      createdAt: endpoint.createdAt.toISOString(),
+      updatedAt: endpoint.updatedAt.toISOString(),
+      deliveryCounts
+    };
+  }
+
+  /**
+   * Make one attempt at a delivery and record the outcome
+   * @param {WebhookDelivery} delivery - Delivery to send
+   * @param {WebhookEndpoint} [endpoint] - Receiving endpoint (dead-letters when missing)
+   * @returns {Promise<WebhookDelivery>} Delivery after the attempt
+   */
+  private async deliver(delivery: WebhookDelivery, endpoint: WebhookEndpoint | undefined): Promise<WebhookDelivery> {
+    const attempts = delivery.attempts + 1;
+    const now = new Date();
+
+    if (!endpoint) {
+      return storage.updateWebhookDelivery(delivery.id, {
+        status: 'dead',
+        nextAttemptAt: null,
+        error: 'Endpoint no longer exists'
+      });
+    }
+
+    const body = JSON.stringify(delivery.payload);
+    const timestamp = Math.floor(now.getTime() / 1000).toString();
+    let responseStatus: number | null = null;
+    let responseBody: string | null = null;
+    let error: string | null = null;
+
+    try {
+      // DNS may have changed since the URL was saved; deliveryAgent checks
+      // the address again when it connects
+      await this.assertPublicHost(endpoint.url);
+      const response = await fetch(endpoint.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'HRMS-Webhooks/1.0',
+          'X-Webhook-Id': delivery.eventId,
+          'X-Webhook-Event': delivery.eventType,
+          'X-Webhook-Delivery': String(delivery.id),
+          'X-Webhook-Timestamp': timestamp,
+          'X-Webhook-Signature': signWebhookPayload(decrypt(endpoint.secret), timestamp, body)
+        },
+        body,
+        redirect: 'manual',
+        signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+        dispatcher: deliveryAgent
+      });
+      responseStatus = response.status;
+      responseBody = (await response.text()).slice(0, RESPONSE_BODY_LIMIT);
+      if (!response.ok) {
+        error = `Receiver responded with HTTP ${response.status}`;
+      }
+    } catch (err) {
+      // fetch reports connection failures, such as a refused address, as their cause
+      const cause = (err as Error).cause;
+      error = (err as Error).name === 'TimeoutError'
+        ? `No response within ${DELIVERY_TIMEOUT_MS / 1000} seconds`
+        : (cause instanceof WebhookError ? cause : err as Error).message;
+    }
+
+    if (!error) {
+      return storage.updateWebhookDelivery(delivery.id, {
+        status: 'succeeded',
+        attempts,
+        lastAttemptAt: now,
+        nextAttemptAt: null,
+        responseStatus,
+        responseBody,
+        error: null,
+        deliveredAt: now
+      });
+    }
+
+    const dead = attempts >= WEBHOOK_MAX_ATTEMPTS;
+    if (dead) {
+      log.warn(`Webhook delivery ${delivery.id} (${delivery.eventType}) to "${endpoint.name}" dead-lettered after ${attempts} attempts: ${error}`);
+    }
+
+    return storage.updateWebhookDelivery(delivery.id, {
+      status: dead ? 'dead' : 'retrying',
+      attempts,
+      lastAttemptAt: now,
+      nextAttemptAt: dead ? null : new Date(now.getTime() + WEBHOOK_RETRY_MINUTES[attempts - 1] * 60 * 1000),
+      responseStatus,
+      responseBody,
+      error
+    });
+  }
+
+  /**
+   * Build the JSON envelope sent for an event
+   */
+  private buildEvent(type: string, data: Record<string, unknown>) {
+    return {
+      id: `evt_${crypto.randomUUID().replace(/-/g, '')}`,
+      type,
+      createdAt: new Date().toISOString(),
+      data
+    };
+  }
+
+  /**
+   * Generate a new signing secret
+   */
+  private generateSecret(): string {
+    return `whsec_${crypto.randomBytes(24).toString('hex')}`;
+  }
+
+  /**
+   * Require an HTTPS URL on a public host (plain HTTP is allowed outside production)
+   * @throws {WebhookError} When the URL is not acceptable
+   */
+  private async validateUrl(url: string): Promise<void> {
+    let parsed: URL;
+    try {
+      parsed = new URL(url);
+    } catch {
+      throw new WebhookError('Enter a valid URL');
+    }
+    const allowHttp = process.env.NODE_ENV !== 'production';
+    if (parsed.protocol !== 'https:' && !(allowHttp && parsed.protocol === 'http:')) {
+      throw new WebhookError('Webhook URLs must use HTTPS');
+    }
+    if (parsed.username || parsed.password) {
+      throw new WebhookError('Webhook URLs cannot contain credentials');
+    }
+    await this.assertPublicHost(url);
+  }
+
+  /**
+   * Require every address the URL's host resolves to be public
+   * @throws {WebhookError} When the host does not resolve or resolves to a blocked address
+   */
+  private async assertPublicHost(url: string): Promise<void> {
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: dns.LookupAddress[];
+    try {
+      addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+    } catch {
+      throw new WebhookError(`Could not resolve ${hostname}`);
+    }
+    if (addresses.some(({ address, family }) => isBlockedAddress(address, family))) {
+      throw new WebhookError('Webhook URLs must point to a public address');
+    }
+  }
+
+  /**
+   * Require known event types (or '*' for all events)
+   * @throws {WebhookError} When an event type is unknown or none are selected
+   */
+  private validateEvents(events: string[]): void {
+    if (events.length === 0) {
+      throw new WebhookError('Select at least one event');
+    }
+    const known = WEBHOOK_EVENTS.map(event => event.type);
+    const unknown = events.filter(event => event !== '*' && !known.includes(event));
+    if (unknown.length > 0) {
+      throw new WebhookError(`Unknown events: ${unknown.join(', ')}`);
+    }
+  }
+}
+
+/**
+ * Singleton instance of WebhookService
+ * @type {WebhookService}
+ */
+export const webhookService = new WebhookService();
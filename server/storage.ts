@@ -36,9 +36,29 @@ import {
   taskUpdates,
   employeeTasks,
   audits,
+  auditCheckpoints,
+  siemExportCheckpoints,
+  auditRetentionPolicies,
+  auditArchives,
+  archivedAudits,
+  encryptionJobs,
+  employeeDuplicateCandidates,
+  employeeSeparations,
+  SENSITIVE_COLUMNS,
   apiKeys,
   apiKeyRotations,
   s3Configuration,
+  securitySettings,
+  session as sessionTable,
+  passwordHistory,
+  roles,
+  userLocations,
+  passkeys,
+  webhookEndpoints,
+  webhookDeliveries,
+  apiKeyUsage,
+  rateLimitCounters,
+  requestSignatureNonces,
   employeeInvitations,
   emailReminders,
   sesConfigurations,
@@ -51,6 +71,7 @@ import {
   type InsertUser,
   type Employee,
   type InsertEmployee,
+  type EmployeeImportRecord,
   type Education,
   type InsertEducation,
   type Employment,
@@ -83,12 +104,42 @@ import {
   type InsertEmployeeTask,
   type Audit,
   type InsertAudit,
+  type AuditCheckpoint,
+  type InsertAuditCheckpoint,
+  type SiemExportCheckpoint,
+  type AuditRetentionPolicy,
+  type InsertAuditRetentionPolicy,
+  type AuditArchive,
+  type InsertAuditArchive,
+  type ArchivedAudit,
+  type EncryptionJob,
+  type EmployeeDuplicateCandidate,
+  type EmployeeDuplicateReason,
+  type EmployeeMergeSummary,
+  type EmployeeSeparation,
+  type EmployeeSeparationSummary,
+  type AccessEvent,
   type ApiKey,
   type InsertApiKey,
   type ApiKeyRotation,
   type InsertApiKeyRotation,
+  type ApiKeyUsage,
+  type RateLimitCounter,
   type S3Configuration,
   type InsertS3Configuration,
+  type SecuritySettings,
+  type InsertSecuritySettings,
+  type SessionRecord,
+  type PasswordHistory,
+  type InsertPasswordHistory,
+  type Role,
+  type InsertRole,
+  type Passkey,
+  type InsertPasskey,
+  type WebhookEndpoint,
+  type InsertWebhookEndpoint,
+  type WebhookDelivery,
+  type InsertWebhookDelivery,
   type EmployeeInvitation,
   type InsertEmployeeInvitation,
   type EmailReminder,
@@ -123,9 +174,13 @@ import {
   type InsertEmployeeDocumentUpload
 } from "@shared/schema";
 import { db } from "./db";
-import { eq, desc, asc, like, and, or, lte, gte, ne, sql, count, inArray } from "drizzle-orm";
+import { eq, desc, asc, like, ilike, and, or, not, lte, gte, gt, lt, ne, sql, count, inArray, notInArray, isNotNull, isNull, getTableColumns, type SQL } from "drizzle-orm";
+import { computeAuditHash, AUDIT_CHAIN_GENESIS_HASH, AUDIT_CHAIN_LOCK_ID } from "./utils/auditHash";
+import { encryptSensitiveFields, decryptReadableFields, blindIndex } from "./middleware/encryption";
+import { alias, type PgColumn, type PgTable } from "drizzle-orm/pg-core";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
+import { logger } from "./utils/logger";
 
 /**
  * PostgreSQL session store for Express sessions
@@ -133,6 +188,196 @@ import connectPg from "connect-pg-simple";
  */
 const PostgresSessionStore = connectPg(session);
 
+/**
+ * Condition limiting employees to the given locations
+ * Employees are linked to a location by its name or code in workLocation.
+ * @param {number[]} locationIds - Location scope (empty matches nothing)
+ */
+function employeeLocationCondition(locationIds: number[]) {
+  return or(
+    inArray(employees.workLocation, db.select({ value: locations.name }).from(locations).where(inArray(locations.id, locationIds))),
+    inArray(employees.workLocation, db.select({ value: locations.code }).from(locations).where(inArray(locations.id, locationIds)))
+  );
+}
+
+/**
+ * Subquery of the IDs of employees working at the given locations
+ * @param {number[]} locationIds - Location scope (empty matches nothing)
+ */
+function employeeIdsAtLocations(locationIds: number[]) {
+  return db.select({ id: employees.id }).from(employees).where(employeeLocationCondition(locationIds));
+}
+
+/**
+ * Condition limiting tasks to the given locations: tasks related to one of
+ * them or to an employee working there, plus tasks assigned to the user
+ * @param {number[]} locationIds - Location scope
+ * @param {number} [userId] - User the scope belongs to
+ */
+function taskLocationCondition(locationIds: number[], userId?: number) {
+  return or(
+    inArray(tasks.relatedLocationId, locationIds),
+    inArray(tasks.relatedEmployeeId, employeeIdsAtLocations(locationIds)),
+    userId ? eq(tasks.assignedToId, userId) : undefined
+  );
+}
+
+/**
+ * Tables of records that belong to one employee, by table name
+ */
+const EMPLOYEE_RECORD_TABLES = {
+  educations,
+  employments,
+  peer_references: peerReferences,
+  state_licenses: stateLicenses,
+  dea_licenses: deaLicenses,
+  board_certifications: boardCertifications,
+  emergency_contacts: emergencyContacts,
+  tax_forms: taxForms,
+  trainings,
+  payer_enrollments: payerEnrollments,
+  incident_logs: incidentLogs,
+  documents
+};
+
+/**
+ * Name of a table whose records belong to one employee
+ */
+export type EmployeeRecordTable = keyof typeof EMPLOYEE_RECORD_TABLES;
+
+/**
+ * Condition limiting compliance documents to the given locations
+ * A document is in scope through its own location or its clinic license's location.
+ * @param {number[]} locationIds - Location scope (empty matches nothing)
+ */
+function complianceDocumentLocationCondition(locationIds: number[]) {
+  return or(
+    inArray(complianceDocuments.locationId, locationIds),
+    inArray(complianceDocuments.clinicLicenseId, db.select({ id: clinicLicenses.id }).from(clinicLicenses).where(inArray(clinicLicenses.locationId, locationIds)))
+  );
+}
+
+/**
+ * Employee fields a merge never copies from the merged record
+ */
+const MERGE_KEPT_EMPLOYEE_FIELDS = new Set(['id', 'createdAt', 'updatedAt']);
+
+/**
+ * State or DEA license that reached its expiration date
+ */
+export interface ExpiredLicense {
+  licenseType: 'state' | 'dea';
+  licenseId: number;
+  employeeId: number | null;
+  licenseNumber: string;
+  /** Issuing state (state licenses only) */
+  state: string | null;
+  expirationDate: string | null;
+}
+
+/**
+ * Audit rows a retention policy has expired
+ */
+export interface AuditRetentionScope {
+  /** Table the policy covers (null for all) */
+  tableName: string | null;
+  /** Action the policy covers (null for all) */
+  action: string | null;
+  /** Rows changed before this time are expired */
+  before: Date;
+  /** Rows matched by more specific policies, which decide for themselves */
+  exclude: Array<{ tableName: string | null; action: string | null }>;
+  /** Highest audit ID that may be archived (e.g. the last row delivered to the SIEM) */
+  maxAuditId?: number;
+}
+
+/**
+ * Build the filter for audit rows expired under a retention scope
+ * @param {AuditRetentionScope} scope - Policy scope and cutoff
+ * @returns {SQL} Condition on the audits table
+ */
+function auditRetentionCondition(scope: AuditRetentionScope) {
+  const matches = (tableName: string | null, action: string | null) => and(
+    tableName ? eq(audits.tableName, tableName) : undefined,
+    action ? eq(audits.action, action) : undefined
+  );
+
+  return and(
+    matches(scope.tableName, scope.action),
+    lt(audits.changedAt, scope.before),
+    scope.maxAuditId !== undefined ? lte(audits.id, scope.maxAuditId) : undefined,
+    ...scope.exclude.map(other => not(matches(other.tableName, other.action)!))
+  );
+}
+
+/**
+ * Table with encrypted columns, walked by the re-encryption job
+ */
+export interface EncryptedTable {
+  /** Name recorded as the job's position */
+  name: string;
+  table: PgTable & { id: PgColumn };
+  /** Properties of the row holding encrypted values */
+  columns: string[];
+  /** Blind index property kept in step with each indexed column */
+  blindIndexes?: Record<string, string>;
+}
+
+/**
+ * Outcome of re-encrypting one row
+ */
+export interface ReencryptedRow {
+  /** Columns to write back (empty when the row already uses the target key) */
+  changes: Record<string, unknown>;
+  reencrypted: number;
+  failed: number;
+  error?: string;
+}
+
+/**
+ * Pair of employees matched by one identifier in a duplicate scan
+ */
+export interface EmployeeDuplicateMatch {
+  employeeId: number;
+  duplicateEmployeeId: number;
+  reason: EmployeeDuplicateReason;
+}
+
+/**
+ * Column pointing at employees, repointed to the surviving record by a merge
+ */
+export interface EmployeeReference {
+  /** Key in the merge summary */
+  name: string;
+  table: PgTable & { id: PgColumn };
+  /** Property of the row holding the employee ID */
+  column: string;
+  /** At most one row per employee: the survivor's row wins */
+  onePerEmployee?: boolean;
+}
+
+/**
+ * Outcome of merging two employee records
+ */
+export interface EmployeeMergeResult {
+  candidate: EmployeeDuplicateCandidate;
+  /** Surviving employee after the merge */
+  survivor: Employee;
+  /** Merged employee as it was before being deleted */
+  merged: Employee;
+}
+
+/**
+ * Outcome of completing an employee separation
+ */
+export interface CompletedSeparation {
+  separation: EmployeeSeparation;
+  /** Employee before and after being marked terminated */
+  before: Employee;
+  employee: Employee;
+  endedPayerEnrollments: PayerEnrollment[];
+}
+
 /**
  * Storage Interface for HR Management System
  * 
@@ -185,6 +430,20 @@ export interface IStorage {
    */
   getUserByEmail(email: string): Promise<User | undefined>;
   
+  /**
+   * Retrieve a user linked to an identity provider subject
+   * @param {string} subject - OIDC `sub` claim
+   * @returns {Promise<User | undefined>} User object or undefined if not linked
+   */
+  getUserByOidcSubject(subject: string): Promise<User | undefined>;
+  
+  /**
+   * Retrieve a user by the identifier the SCIM client assigned to them
+   * @param {string} externalId - SCIM `externalId`
+   * @returns {Promise<User | undefined>} User object or undefined if not provisioned
+   */
+  getUserByScimExternalId(externalId: string): Promise<User | undefined>;
+  
   /**
    * Update user status (active, suspended, locked, disabled)
    * @param {number} id - User ID
@@ -193,6 +452,14 @@ export interface IStorage {
    */
   updateUserStatus(id: number, status: string): Promise<User>;
   
+  /**
+   * Record a TOTP time step as used, unless it or a later step already was
+   * @param {number} id - User ID
+   * @param {number} step - Time step of the accepted code
+   * @returns {Promise<boolean>} True if the step was newer than the last one used
+   */
+  claimMfaTimeStep(id: number, step: number): Promise<boolean>;
+  
   /**
    * Get users by status for admin management
    * @param {string} status - Status to filter by
@@ -200,6 +467,13 @@ export interface IStorage {
    */
   getUsersByStatus(status: string): Promise<User[]>;
   
+  /**
+   * Get users holding a role, oldest first
+   * @param {string} role - Built-in role or custom role key
+   * @returns {Promise<User[]>} Users with the role
+   */
+  getUsersByRole(role: string): Promise<User[]>;
+  
   /**
    * Update password reset token and expiration
    * @param {number} id - User ID
@@ -280,6 +554,11 @@ export interface IStorage {
   
   /**
    * Employee Management Operations
+   *
+   * Columns in the sensitive column registry (shared/schema.ts) are encrypted
+   * on write, with their blind indexes; reads return unmasked ones decrypted
+   * and leave the SSN and credential passwords encrypted. The same applies to
+   * DEA license numbers and emergency contact phones.
    */
   
   /**
@@ -300,10 +579,12 @@ export interface IStorage {
    * @param {object} [options] - Query options for filtering and pagination
    * @param {number} [options.limit=10] - Maximum number of employees to return
    * @param {number} [options.offset=0] - Number of employees to skip
-   * @param {string} [options.search] - Search term for name, email, or ID
+   * @param {string} [options.search] - Search term for name or email; SSN, date of birth and
+   *   license/payer numbers match exactly
    * @param {string} [options.department] - Filter by department
    * @param {string} [options.status] - Filter by employment status
    * @param {string} [options.location] - Filter by work location
+   * @param {number[]} [options.locationIds] - Restrict to employees at these locations (location scope)
    * @returns {Promise<{employees: Employee[]; total: number}>} Paginated employee list with total count
    * @throws {Error} Database query errors or invalid pagination parameters
    * @example
@@ -322,6 +603,7 @@ export interface IStorage {
     department?: string;
     status?: string;
     location?: string;
+    locationIds?: number[];
   }): Promise<{ employees: Employee[]; total: number }>;
   
   /**
@@ -394,7 +676,144 @@ export interface IStorage {
    * console.log('Employee and all related records deleted');
    */
   deleteEmployee(id: number): Promise<void>;
+  
+  /**
+   * Find employees that share an NPI, SSN or email address with the given values
+   * @param {object} identifiers - NPI numbers, SSN blind indexes and lower case email addresses
+   * @returns {Promise<Employee[]>} Employees matching any of them
+   */
+  findEmployeesByIdentifiers(identifiers: { npiNumbers: string[]; ssnHashes: string[]; emails: string[] }): Promise<Employee[]>;
+  
+  /**
+   * Create employees with their state licenses, DEA licenses and board
+   * certifications in one transaction; nothing is written if any insert fails
+   * @param {EmployeeImportRecord[]} records - Validated import records
+   * @returns {Promise<Employee[]>} Created employees, in record order
+   */
+  importEmployees(records: EmployeeImportRecord[]): Promise<Employee[]>;
+  
+  /**
+   * Get employees by ID
+   * @param {number[]} ids - Employee IDs
+   * @returns {Promise<Employee[]>} Employees found (deleted IDs are skipped)
+   */
+  getEmployeesByIds(ids: number[]): Promise<Employee[]>;
+  
+  /**
+   * Get the employee a record under an employee (an education, license,
+   * document, ...) belongs to
+   * @param {EmployeeRecordTable} table - Table of the record
+   * @param {number} id - Record ID
+   * @returns {Promise<number | null | undefined>} Employee ID, null when the record has none, undefined when not found
+   */
+  getRecordEmployeeId(table: EmployeeRecordTable, id: number): Promise<number | null | undefined>;
+  
+  /**
+   * Find pairs of employees sharing an identifier: NPI number (digits only),
+   * SSN blind index, date of birth blind index with first and last name, or a
+   * work or personal email address (case-insensitive)
+   * @param {number[]} [locationIds] - Location scope both employees must be in (undefined for all employees)
+   * @returns {Promise<EmployeeDuplicateMatch[]>} One entry per pair and reason, lower employee ID first
+   */
+  findDuplicateEmployeePairs(locationIds?: number[]): Promise<EmployeeDuplicateMatch[]>;
+  
+  /**
+   * Store the pairs found by a duplicate scan: new pairs join the review queue,
+   * known pairs get their reasons refreshed (dismissed pairs stay dismissed) and
+   * pending pairs that no longer match are removed
+   * @param {Array} pairs - Pairs found, lower employee ID first, with every reason that matched
+   * @param {number[]} [locationIds] - Location scope the scan covered; only pending pairs inside it can be removed
+   * @returns {Promise<{ detected: number; resolved: number }>} New pairs queued and stale pairs removed
+   */
+  recordEmployeeDuplicateScan(pairs: Array<{ employeeId: number; duplicateEmployeeId: number; reasons: EmployeeDuplicateReason[] }>, locationIds?: number[]): Promise<{ detected: number; resolved: number }>;
+  
+  /**
+   * Get duplicate candidates, most recently detected first
+   * @param {object} options - Status filter, location scope (both employees must be in it) and pagination
+   * @returns {Promise<{ candidates: EmployeeDuplicateCandidate[]; total: number }>} Page of candidates and total count
+   */
+  getEmployeeDuplicateCandidates(options: { status?: string; locationIds?: number[]; limit: number; offset: number }): Promise<{ candidates: EmployeeDuplicateCandidate[]; total: number }>;
+  
+  /**
+   * Get a duplicate candidate by ID
+   * @param {number} id - Candidate ID
+   * @returns {Promise<EmployeeDuplicateCandidate | undefined>} Candidate if found
+   */
+  getEmployeeDuplicateCandidate(id: number): Promise<EmployeeDuplicateCandidate | undefined>;
+  
+  /**
+   * Update a duplicate candidate
+   * @param {number} id - Candidate ID
+   * @param {Partial<EmployeeDuplicateCandidate>} data - Fields to change
+   * @returns {Promise<EmployeeDuplicateCandidate>} Updated candidate
+   */
+  updateEmployeeDuplicateCandidate(id: number, data: Partial<Omit<EmployeeDuplicateCandidate, 'id'>>): Promise<EmployeeDuplicateCandidate>;
+  
+  /**
+   * Merge a duplicate employee into the surviving record in one transaction.
+   * Child rows are repointed to the survivor (for one-per-employee tables the
+   * merged employee's row is deleted when the survivor already has one), the
+   * survivor's empty fields are filled in from the merged record, the merged
+   * employee is deleted and the candidate is marked merged with the summary.
+   * Other pending candidates involving the merged employee are removed.
+   * @param {number} candidateId - Duplicate candidate being resolved
+   * @param {number} survivingEmployeeId - Employee kept
+   * @param {number} mergedEmployeeId - Employee merged and deleted
+   * @param {EmployeeReference[]} references - Columns pointing at employees
+   * @param {number | null} mergedBy - Reviewing user
+   * @returns {Promise<EmployeeMergeResult | null>} Merge result, or null when either employee no longer exists
+   */
+  mergeEmployees(
+    candidateId: number,
+    survivingEmployeeId: number,
+    mergedEmployeeId: number,
+    references: EmployeeReference[],
+    mergedBy: number | null
+  ): Promise<EmployeeMergeResult | null>;
 
+  /**
+   * Get an employee's separations, newest first
+   * @param {number} employeeId - Employee ID
+   * @returns {Promise<EmployeeSeparation[]>} Separations, including cancelled ones
+   */
+  getEmployeeSeparations(employeeId: number): Promise<EmployeeSeparation[]>;
+  
+  /**
+   * Get scheduled separations whose termination date has been reached
+   * @param {string} date - Today (YYYY-MM-DD)
+   * @returns {Promise<EmployeeSeparation[]>} Separations due for completion
+   */
+  getDueEmployeeSeparations(date: string): Promise<EmployeeSeparation[]>;
+  
+  /**
+   * Create a scheduled separation with its offboarding tasks in one transaction
+   * @param {object} separation - Separation fields
+   * @param {InsertTask[]} offboardingTasks - Tasks to create, linked to the employee
+   * @returns {Promise<{ separation: EmployeeSeparation; tasks: Task[] }>} Created separation and tasks
+   */
+  createEmployeeSeparation(
+    separation: typeof employeeSeparations.$inferInsert,
+    offboardingTasks: Array<typeof tasks.$inferInsert>
+  ): Promise<{ separation: EmployeeSeparation; tasks: Task[] }>;
+  
+  /**
+   * Cancel a scheduled separation and its offboarding tasks that are still open
+   * @param {number} id - Separation ID
+   * @returns {Promise<EmployeeSeparation | undefined>} Cancelled separation, or undefined when it is not scheduled
+   */
+  cancelEmployeeSeparation(id: number): Promise<EmployeeSeparation | undefined>;
+  
+  /**
+   * Complete a scheduled separation in one transaction: the employee is marked
+   * terminated, their portal account is disabled with its API keys revoked and
+   * sessions signed out, open payer enrollments end on the termination date,
+   * their responsible-person records are set inactive and removed from clinic
+   * licenses, and the separation records what changed
+   * @param {number} id - Separation ID
+   * @returns {Promise<CompletedSeparation | null>} Outcome, or null when the separation is not scheduled
+   */
+  completeEmployeeSeparation(id: number): Promise<CompletedSeparation | null>;
+  
   /**
    * Employee Tasks CRUD (DEPRECATED)
    */
@@ -405,6 +824,10 @@ export interface IStorage {
 
   /**
    * Task Management System
+   * 
+   * getTasks and getDueSoonTasks accept a location scope: with `locationIds`
+   * only tasks related to those locations or their employees are returned,
+   * plus tasks assigned to `scopeUserId`.
    */
   getTasks(filters?: { 
     status?: string; 
@@ -412,6 +835,8 @@ export interface IStorage {
     daysAhead?: number;
     relatedEmployeeId?: number;
     relatedLocationId?: number;
+    locationIds?: number[];
+    scopeUserId?: number;
   }): Promise<Task[]>;
   getTask(id: number): Promise<Task | undefined>;
   createTask(task: InsertTask): Promise<Task>;
@@ -420,7 +845,7 @@ export interface IStorage {
   completeTask(id: number, userId: number): Promise<Task>;
   getTasksByEmployee(employeeId: number): Promise<Task[]>;
   getTasksByLocation(locationId: number): Promise<Task[]>;
-  getDueSoonTasks(days: number): Promise<Task[]>;
+  getDueSoonTasks(days: number, filters?: { locationIds?: number[]; scopeUserId?: number }): Promise<Task[]>;
   addTaskUpdate(update: InsertTaskUpdate): Promise<TaskUpdate>;
   getTaskUpdates(taskId: number): Promise<TaskUpdate[]>;
   
@@ -701,6 +1126,8 @@ export interface IStorage {
    * @param {InsertAudit} audit - Audit data with change details
    * @returns {Promise<Audit>} Created audit record with timestamp
    * @throws {Error} Validation errors or database constraints
+   * @description Appends the row to the audit hash chain: it stores the hash
+   * of the previous row and a hash over its own content (see utils/auditHash).
    * @example
    * const audit = await storage.createAudit({
    *   tableName: 'employees',
@@ -719,10 +1146,16 @@ export interface IStorage {
    * @param {number} [options.limit=50] - Maximum number of audit records
    * @param {number} [options.offset=0] - Number of records to skip
    * @param {string} [options.tableName] - Filter by specific table
-   * @param {string} [options.action] - Filter by action type (CREATE/UPDATE/DELETE)
+   * @param {string} [options.action] - Filter by action type (CREATE/UPDATE/DELETE/ACCESS)
+   * @param {number} [options.recordId] - Filter by affected record
+   * @param {number} [options.changedBy] - Filter by user ID
+   * @param {string} [options.user] - Filter by username (case-insensitive substring)
+   * @param {string} [options.field] - Only rows where this field differs between oldData and
+   * newData, or ACCESS rows that served it
    * @param {Date} [options.startDate] - Filter audits after this date
    * @param {Date} [options.endDate] - Filter audits before this date
-   * @returns {Promise<{audits: Audit[]; total: number}>} Paginated audit records with total count
+   * @returns {Promise<{audits: Array<Audit & { username: string | null }>; total: number}>} Paginated audit
+   * records with the acting user's name and the total count
    * @throws {Error} Database query errors or invalid date ranges
    * @example
    * const auditReport = await storage.getAudits({
@@ -737,9 +1170,220 @@ export interface IStorage {
     offset?: number;
     tableName?: string;
     action?: string;
+    recordId?: number;
+    changedBy?: number;
+    user?: string;
+    field?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<{ audits: Array<Audit & { username: string | null }>; total: number }>;
+  
+  /**
+   * Get audit rows in chain order for verification
+   * @param {number} afterId - Return rows with a higher ID
+   * @param {number} limit - Maximum rows to return
+   * @returns {Promise<Audit[]>} Rows ordered by ID
+   */
+  getAuditChainBatch(afterId: number, limit: number): Promise<Audit[]>;
+  
+  /**
+   * Get a single audit row
+   * @param {number} id - Audit ID
+   * @returns {Promise<Audit | undefined>} Audit row if found
+   */
+  getAudit(id: number): Promise<Audit | undefined>;
+  
+  /**
+   * Get the end of the audit chain as of a point in time
+   * @param {Date} before - Only rows written before this time count
+   * @returns {Promise<{ lastAuditId: number | null; lastHash: string; auditCount: number }>}
+   * Last chained row, its hash (genesis hash when the chain is empty) and the number of chained rows
+   */
+  getAuditChainHead(before: Date): Promise<{ lastAuditId: number | null; lastHash: string; auditCount: number }>;
+  
+  /**
+   * Store a signed audit checkpoint
+   * @param {InsertAuditCheckpoint} checkpoint - Checkpoint data and signature
+   * @returns {Promise<AuditCheckpoint>} Created checkpoint
+   */
+  createAuditCheckpoint(checkpoint: InsertAuditCheckpoint): Promise<AuditCheckpoint>;
+  
+  /**
+   * Get the checkpoint of a day
+   * @param {string} date - Day (YYYY-MM-DD)
+   * @returns {Promise<AuditCheckpoint | undefined>} Checkpoint if one was made
+   */
+  getAuditCheckpoint(date: string): Promise<AuditCheckpoint | undefined>;
+  
+  /**
+   * List audit checkpoints, newest first
+   * @param {number} [limit] - Maximum checkpoints to return (all when omitted)
+   * @returns {Promise<AuditCheckpoint[]>} Checkpoints
+   */
+  getAuditCheckpoints(limit?: number): Promise<AuditCheckpoint[]>;
+  
+  /**
+   * Get the position of a SIEM exporter in the audit log
+   * @param {string} name - Exporter name
+   * @returns {Promise<SiemExportCheckpoint | undefined>} Checkpoint, if the exporter has run
+   */
+  getSiemExportCheckpoint(name: string): Promise<SiemExportCheckpoint | undefined>;
+  
+  /**
+   * Deliver the next batch of a SIEM exporter and move its checkpoint forward
+   * @param {string} name - Exporter name
+   * @param {Function} deliver - Sends audit rows after the given ID; resolves with the last
+   * row delivered and how many were sent
+   * @returns {Promise<{ lastAuditId: number; exported: number } | null>} Delivery result, or null when
+   * another instance holds the checkpoint
+   * @throws {Error} Whatever deliver throws; the checkpoint is left unchanged
+   * @description
+   * The checkpoint row is locked (FOR UPDATE SKIP LOCKED) for the whole delivery and
+   * updated in the same transaction, so a batch is only marked as sent once deliver
+   * resolves and two instances never send the same rows.
+   */
+  advanceSiemExportCheckpoint(
+    name: string,
+    deliver: (afterId: number) => Promise<{ lastAuditId: number; exported: number }>
+  ): Promise<{ lastAuditId: number; exported: number } | null>;
+  
+  /**
+   * Record a failed SIEM delivery
+   * @param {string} name - Exporter name
+   * @param {string} message - Failure description
+   * @returns {Promise<void>}
+   */
+  recordSiemExportError(name: string, message: string): Promise<void>;
+  
+  /**
+   * Get all audit retention policies
+   * @returns {Promise<AuditRetentionPolicy[]>} Policies, oldest first
+   */
+  getAuditRetentionPolicies(): Promise<AuditRetentionPolicy[]>;
+  
+  /**
+   * Get an audit retention policy
+   * @param {number} id - Policy ID
+   * @returns {Promise<AuditRetentionPolicy | undefined>} Policy, if found
+   */
+  getAuditRetentionPolicy(id: number): Promise<AuditRetentionPolicy | undefined>;
+  
+  /**
+   * Create an audit retention policy
+   * @param {InsertAuditRetentionPolicy & { createdBy?: number | null }} policy - Policy settings
+   * @returns {Promise<AuditRetentionPolicy>} Created policy
+   */
+  createAuditRetentionPolicy(policy: InsertAuditRetentionPolicy & { createdBy?: number | null }): Promise<AuditRetentionPolicy>;
+  
+  /**
+   * Update an audit retention policy
+   * @param {number} id - Policy ID
+   * @param {Partial<InsertAuditRetentionPolicy>} updates - Fields to change
+   * @returns {Promise<AuditRetentionPolicy>} Updated policy
+   */
+  updateAuditRetentionPolicy(id: number, updates: Partial<InsertAuditRetentionPolicy>): Promise<AuditRetentionPolicy>;
+  
+  /**
+   * Delete an audit retention policy (archives made under it are kept)
+   * @param {number} id - Policy ID
+   * @returns {Promise<void>}
+   */
+  deleteAuditRetentionPolicy(id: number): Promise<void>;
+  
+  /**
+   * Get audit rows expired under a retention scope, oldest first
+   * @param {AuditRetentionScope} scope - Policy scope and cutoff
+   * @param {number} limit - Maximum rows
+   * @returns {Promise<Audit[]>} Expired rows ordered by ID
+   */
+  getExpiredAudits(scope: AuditRetentionScope, limit: number): Promise<Audit[]>;
+  
+  /**
+   * Count audit rows expired under a retention scope
+   * @param {AuditRetentionScope} scope - Policy scope and cutoff
+   * @returns {Promise<number>} Expired rows
+   */
+  countExpiredAudits(scope: AuditRetentionScope): Promise<number>;
+  
+  /**
+   * Record an uploaded archive and prune its rows from the audits table
+   * @param {InsertAuditArchive} archive - Archive file details
+   * @param {number[]} auditIds - Audit rows in the file
+   * @returns {Promise<AuditArchive>} Recorded archive
+   * @throws {Error} When some rows were already pruned (e.g. by another instance); nothing is
+   * recorded or deleted
+   */
+  archiveAudits(archive: InsertAuditArchive, auditIds: number[]): Promise<AuditArchive>;
+  
+  /**
+   * Get audit archives, newest first
+   * @param {object} [options] - Pagination options
+   * @param {number} [options.limit=25] - Maximum archives
+   * @param {number} [options.offset=0] - Archives to skip
+   * @returns {Promise<{ archives: AuditArchive[]; total: number }>} Archives and total count
+   */
+  getAuditArchives(options?: { limit?: number; offset?: number }): Promise<{ archives: AuditArchive[]; total: number }>;
+  
+  /**
+   * Get an audit archive
+   * @param {number} id - Archive ID
+   * @returns {Promise<AuditArchive | undefined>} Archive, if found
+   */
+  getAuditArchive(id: number): Promise<AuditArchive | undefined>;
+  
+  /**
+   * Get the audit ID range of every archive, for chain verification
+   * @returns {Promise<Array<{ firstAuditId: number; lastAuditId: number }>>} Ranges ordered by first ID
+   */
+  getAuditArchiveRanges(): Promise<Array<{ firstAuditId: number; lastAuditId: number }>>;
+  
+  /**
+   * Load an archive's rows into archived_audits for searching
+   * @param {number} archiveId - Archive ID
+   * @param {Array<Omit<ArchivedAudit, 'archiveId'>>} rows - Rows read from the archive file
+   * @param {number} restoredBy - User who restored the archive
+   * @returns {Promise<AuditArchive>} Archive marked as restored
+   * @description Replaces rows loaded earlier from the same archive.
+   */
+  loadArchivedAudits(archiveId: number, rows: Array<Omit<ArchivedAudit, 'archiveId'>>, restoredBy: number): Promise<AuditArchive>;
+  
+  /**
+   * Remove an archive's rows from archived_audits
+   * @param {number} archiveId - Archive ID
+   * @returns {Promise<AuditArchive>} Archive marked as not restored
+   */
+  unloadArchivedAudits(archiveId: number): Promise<AuditArchive>;
+  
+  /**
+   * Search restored archive rows
+   * @param {object} [options] - The filters of getAudits, plus archiveId
+   * @returns {Promise<{audits: Array<ArchivedAudit & { username: string | null }>; total: number}>} Paginated
+   * rows, newest first, with the acting user's name and the total count
+   */
+  getArchivedAudits(options?: {
+    limit?: number;
+    offset?: number;
+    archiveId?: number;
+    tableName?: string;
+    action?: string;
+    recordId?: number;
+    changedBy?: number;
+    user?: string;
+    field?: string;
     startDate?: Date;
     endDate?: Date;
-  }): Promise<{ audits: Audit[]; total: number }>;
+  }): Promise<{ audits: Array<ArchivedAudit & { username: string | null }>; total: number }>;
+  
+  /**
+   * Get read-access events on an employee's protected data
+   * @param {number} employeeId - Employee whose record was accessed
+   * @param {object} [options] - Pagination options
+   * @param {number} [options.limit=25] - Maximum events to return
+   * @param {number} [options.offset=0] - Number of events to skip
+   * @returns {Promise<{events: AccessEvent[]; total: number}>} Sensitive-field reads of the
+   * employee record and downloads of the employee's documents, newest first
+   */
+  getAccessEvents(employeeId: number, options?: { limit?: number; offset?: number }): Promise<{ events: AccessEvent[]; total: number }>;
   
   /**
    * Compliance Reporting Operations
@@ -748,6 +1392,7 @@ export interface IStorage {
   /**
    * Get licenses and certifications expiring within specified days
    * @param {number} days - Number of days ahead to check for expirations
+   * @param {number[]} [locationIds] - Only include employees at these locations (location scope)
    * @returns {Promise<any[]>} Array of expiring items with employee details
    * @throws {Error} Database query errors or invalid day parameter
    * @example
@@ -756,10 +1401,16 @@ export interface IStorage {
    *   console.log(`${item.employeeName}: ${item.itemType} expires in ${item.daysRemaining} days`);
    * });
    */
-  getExpiringItems(days: number): Promise<any[]>;
+  getExpiringItems(days: number, locationIds?: number[]): Promise<any[]>;
+  /**
+   * Get state and DEA licenses whose expiration date is today
+   * @returns {Promise<ExpiredLicense[]>} Licenses that expired today with their employee
+   */
+  getLicensesExpiringToday(): Promise<ExpiredLicense[]>;
   
   /**
    * Get comprehensive employee statistics for management dashboard
+   * @param {number[]} [locationIds] - Only count employees at these locations (location scope)
    * @returns {Promise<object>} Employee statistics including compliance metrics
    * @throws {Error} Database aggregation errors
    * @example
@@ -767,7 +1418,7 @@ export interface IStorage {
    * console.log(`Total: ${stats.totalEmployees}, Active: ${stats.activeEmployees}`);
    * console.log(`Expiring Soon: ${stats.expiringSoon}, Pending Docs: ${stats.pendingDocs}`);
    */
-  getEmployeeStats(): Promise<{
+  getEmployeeStats(locationIds?: number[]): Promise<{
     totalEmployees: number;
     activeEmployees: number;
     expiringSoon: number;
@@ -790,13 +1441,15 @@ export interface IStorage {
     expiringSoon: number;
   }>;
   
-  // Document operations
+  // Document operations (locationIds limits documents to employees at those locations)
   getDocuments(options?: {
     limit?: number;
     offset?: number;
     search?: string;
     type?: string;
+    types?: string[];
     employeeId?: number;
+    locationIds?: number[];
   }): Promise<{ documents: Document[]; total: number }>;
   getDocument(id: number): Promise<Document | undefined>;
   
@@ -885,9 +1538,10 @@ export interface IStorage {
   
   /**
    * Get compliance document statistics
+   * @param {number[]} [locationIds] - Only count documents for these locations (location scope)
    * @returns {Promise<{total: number; sops: number; renewalGuides: number; certificates: number; reports: number; expiring: number; verified: number}>} Document statistics
    */
-  getComplianceDocumentStats(): Promise<{
+  getComplianceDocumentStats(locationIds?: number[]): Promise<{
     total: number;
     sops: number;
     renewalGuides: number;
@@ -975,6 +1629,13 @@ export interface IStorage {
    */
   revokeApiKey(id: number): Promise<void>;
   
+  /**
+   * Revoke every unrevoked API key owned by a user
+   * @param {number} userId - Key owner
+   * @returns {Promise<number>} Number of keys revoked
+   */
+  revokeUserApiKeys(userId: number): Promise<number>;
+  
   /**
    * Permanently delete API key record
    * @param {number} id - API key ID to delete
@@ -1005,25 +1666,389 @@ export interface IStorage {
   createApiKeyRotation(rotation: InsertApiKeyRotation): Promise<ApiKeyRotation>;
   getApiKeyRotations(apiKeyId: number): Promise<ApiKeyRotation[]>;
   
+  /**
+   * Count one request made with an API key
+   * @param {object} entry - Key, hour bucket, method and route of the request
+   * @param {boolean} entry.error - The response status was 400 or above
+   * @param {boolean} entry.blocked - The request was rejected by a key check
+   * @param {string | null} entry.ip - Client address, kept for blocked requests
+   * @returns {Promise<void>}
+   * 
+   * @description Increments the counters of the (key, hour, method, route) row,
+   * creating it on the first request.
+   */
+  recordApiKeyUsage(entry: {
+    apiKeyId: number;
+    bucket: Date;
+    method: string;
+    route: string;
+    error: boolean;
+    blocked: boolean;
+    ip: string | null;
+  }): Promise<void>;
+  
+  /**
+   * Get the hourly usage rows of an API key
+   * @param {number} apiKeyId - API key ID
+   * @param {Date} since - Earliest bucket to include
+   * @returns {Promise<ApiKeyUsage[]>} Usage rows, oldest first
+   */
+  getApiKeyUsage(apiKeyId: number, since: Date): Promise<ApiKeyUsage[]>;
+  
+  // Rate limit operations
+  /**
+   * Count one request against a rate limit window
+   * @param {string} key - Limiter name and client identifier
+   * @param {number} windowMs - Window length in milliseconds
+   * @returns {Promise<RateLimitCounter>} Counter after the increment
+   * 
+   * @description Atomic, so concurrent requests on any server instance are all
+   * counted. A counter whose window has ended starts again at 1.
+   */
+  incrementRateLimit(key: string, windowMs: number): Promise<RateLimitCounter>;
+  
+  /**
+   * Get the current rate limit counter of a client
+   * @param {string} key - Limiter name and client identifier
+   * @returns {Promise<RateLimitCounter | undefined>} Counter, if its window is still open
+   */
+  getRateLimit(key: string): Promise<RateLimitCounter | undefined>;
+  
+  /**
+   * Take back one counted request (e.g. skipped successful requests)
+   * @param {string} key - Limiter name and client identifier
+   * @returns {Promise<void>}
+   */
+  decrementRateLimit(key: string): Promise<void>;
+  
+  /**
+   * Reset a client's rate limit counter
+   * @param {string} key - Limiter name and client identifier
+   * @returns {Promise<void>}
+   */
+  resetRateLimit(key: string): Promise<void>;
+  
+  /**
+   * Delete counters whose window has ended
+   * @returns {Promise<number>} Number of counters deleted
+   */
+  deleteExpiredRateLimits(): Promise<number>;
+  
+  // Request signature nonce operations
+  /**
+   * Record the nonce of a signed request, unless it was already used
+   * @param {number} apiKeyId - API key that signed the request
+   * @param {string} nonce - Request nonce
+   * @param {Date} expiresAt - When the request timestamp leaves the tolerance window
+   * @returns {Promise<boolean>} True if the nonce had not been used within its window
+   * 
+   * @description Atomic, so two instances receiving the same request cannot
+   * both accept it. An expired row left for cleanup is claimed again.
+   */
+  claimRequestNonce(apiKeyId: number, nonce: string, expiresAt: Date): Promise<boolean>;
+  
+  /**
+   * Delete nonces whose requests are too old to be accepted anyway
+   * @returns {Promise<number>} Number of nonces deleted
+   */
+  deleteExpiredRequestNonces(): Promise<number>;
+  
   // S3 Configuration operations
   getS3Configuration(): Promise<S3Configuration | undefined>;
   createS3Configuration(config: InsertS3Configuration): Promise<S3Configuration>;
   updateS3Configuration(config: Partial<InsertS3Configuration>): Promise<S3Configuration>;
   
-  // Employee Invitation operations
-  createInvitation(invitation: any): Promise<any>;
-  getInvitationById(id: number): Promise<any | undefined>;
-  getInvitationByEmail(email: string): Promise<any | undefined>;
-  getInvitationByToken(token: string): Promise<any | undefined>;
-  getAllInvitations(): Promise<any[]>;
-  updateInvitation(id: number, updates: any): Promise<any>;
-  
-  // Email Reminder operations
-  createEmailReminder(reminder: any): Promise<any>;
-  getEmailRemindersByInvitationId(invitationId: number): Promise<any[]>;
+  // Security Settings operations
+  /**
+   * Get the current system security policy
+   * @returns {Promise<SecuritySettings | undefined>} Security settings or undefined if never saved
+   */
+  getSecuritySettings(): Promise<SecuritySettings | undefined>;
+  /**
+   * Create or update the system security policy
+   * @param {Partial<InsertSecuritySettings>} settings - Policy fields to change
+   * @returns {Promise<SecuritySettings>} Saved security settings
+   */
+  updateSecuritySettings(settings: Partial<InsertSecuritySettings>): Promise<SecuritySettings>;
   
-  // DocuSeal Configuration operations
-  getDocusealConfiguration(): Promise<DocusealConfiguration | undefined>;
+  // Encryption Job operations
+  /**
+   * Get the running re-encryption job
+   * @returns {Promise<EncryptionJob | undefined>} Running job, if any
+   */
+  getRunningEncryptionJob(): Promise<EncryptionJob | undefined>;
+  /**
+   * Get the most recently started re-encryption jobs
+   * @param {number} limit - Maximum jobs to return
+   * @returns {Promise<EncryptionJob[]>} Jobs, newest first
+   */
+  getEncryptionJobs(limit: number): Promise<EncryptionJob[]>;
+  /**
+   * Start a re-encryption job
+   * @param {string} targetKeyId - Key to move values to
+   * @param {number} startedBy - User starting the job
+   * @returns {Promise<EncryptionJob>} Created job
+   */
+  createEncryptionJob(targetKeyId: string, startedBy: number): Promise<EncryptionJob>;
+  /**
+   * Stop a running re-encryption job
+   * @param {number} id - Job ID
+   * @returns {Promise<EncryptionJob | undefined>} Cancelled job, or undefined if it was not running
+   */
+  cancelEncryptionJob(id: number): Promise<EncryptionJob | undefined>;
+  /**
+   * Re-encrypt the next batch of a job and move its position forward
+   * @param {number} jobId - Job ID
+   * @param {EncryptedTable[]} tables - Encrypted tables, in processing order
+   * @param {number} batchSize - Rows per batch
+   * @param {Function} reencryptRow - Computes the new column values of a row
+   * @returns {Promise<EncryptionJob | null>} Updated job, or null when another instance holds it
+   * @description Rows are locked while they are rewritten and the job position is
+   * saved in the same transaction. When a table is exhausted the job moves to the
+   * next one, and it completes after the last.
+   */
+  advanceEncryptionJob(
+    jobId: number,
+    tables: EncryptedTable[],
+    batchSize: number,
+    reencryptRow: (table: EncryptedTable, row: Record<string, unknown>) => ReencryptedRow
+  ): Promise<EncryptionJob | null>;
+  
+  // Password History operations
+  /**
+   * Get a user's most recent password hashes
+   * @param {number} userId - User ID
+   * @param {number} limit - Maximum entries to return
+   * @returns {Promise<PasswordHistory[]>} History entries, newest first
+   */
+  getPasswordHistory(userId: number, limit: number): Promise<PasswordHistory[]>;
+  /**
+   * Record a password hash in the user's history
+   * @param {InsertPasswordHistory} entry - User ID and password hash
+   * @returns {Promise<PasswordHistory>} Created history entry
+   */
+  addPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory>;
+  /**
+   * Delete all but the newest entries of a user's password history
+   * @param {number} userId - User ID
+   * @param {number} keep - Number of newest entries to keep
+   */
+  trimPasswordHistory(userId: number, keep: number): Promise<void>;
+  
+  // Custom Role operations
+  /**
+   * Get all admin-defined roles
+   * @returns {Promise<Role[]>} Roles ordered by name
+   */
+  getRoles(): Promise<Role[]>;
+  /**
+   * Get a custom role by ID
+   * @param {number} id - Role ID
+   * @returns {Promise<Role | undefined>} Role or undefined if not found
+   */
+  getRole(id: number): Promise<Role | undefined>;
+  /**
+   * Get a custom role by the key stored in users.role
+   * @param {string} key - Role key
+   * @returns {Promise<Role | undefined>} Role or undefined if not found
+   */
+  getRoleByKey(key: string): Promise<Role | undefined>;
+  /**
+   * Create a custom role
+   * @param {InsertRole} role - Role data
+   * @returns {Promise<Role>} Created role
+   */
+  createRole(role: InsertRole): Promise<Role>;
+  /**
+   * Update a custom role's name, description or permissions
+   * @param {number} id - Role ID
+   * @param {Partial<InsertRole>} role - Fields to update
+   * @returns {Promise<Role>} Updated role
+   */
+  updateRole(id: number, role: Partial<InsertRole>): Promise<Role>;
+  /**
+   * Delete a custom role
+   * @param {number} id - Role ID
+   */
+  deleteRole(id: number): Promise<void>;
+  /**
+   * Count users assigned a role
+   * @param {string} role - Role key
+   * @returns {Promise<number>} Number of users with the role
+   */
+  countUsersWithRole(role: string): Promise<number>;
+  
+  // User Location operations
+  /**
+   * Get the locations a user manages
+   * @param {number} userId - User ID
+   * @returns {Promise<number[]>} Assigned location IDs (empty when unrestricted)
+   */
+  getUserLocationIds(userId: number): Promise<number[]>;
+  /**
+   * Replace a user's location assignments
+   * @param {number} userId - User ID
+   * @param {number[]} locationIds - Locations the user manages (empty removes the restriction)
+   */
+  setUserLocations(userId: number, locationIds: number[]): Promise<void>;
+  /**
+   * Expand locations to include all of their sub-locations
+   * @param {number[]} locationIds - Root location IDs
+   * @returns {Promise<number[]>} The locations and every descendant, matched by materialized path
+   */
+  getLocationSubtreeIds(locationIds: number[]): Promise<number[]>;
+  /**
+   * Recompute the materialized path of every location from parentId
+   * (fills paths for locations created before paths were maintained)
+   */
+  rebuildLocationPaths(): Promise<void>;
+  
+  // Passkey operations
+  /**
+   * Get the passkeys a user has registered
+   * @param {number} userId - User ID
+   * @returns {Promise<Passkey[]>} Passkeys, oldest first
+   */
+  getUserPasskeys(userId: number): Promise<Passkey[]>;
+  /**
+   * Get a passkey by ID
+   * @param {number} id - Passkey ID
+   * @returns {Promise<Passkey | undefined>} Passkey if found
+   */
+  getPasskey(id: number): Promise<Passkey | undefined>;
+  /**
+   * Find a passkey by the authenticator's credential ID
+   * @param {string} credentialId - Base64url credential ID
+   * @returns {Promise<Passkey | undefined>} Passkey if found
+   */
+  getPasskeyByCredentialId(credentialId: string): Promise<Passkey | undefined>;
+  /**
+   * Store a newly registered passkey
+   * @param {InsertPasskey} passkey - Verified credential data
+   * @returns {Promise<Passkey>} Created passkey
+   */
+  createPasskey(passkey: InsertPasskey): Promise<Passkey>;
+  /**
+   * Update a passkey's signature counter and last use
+   * @param {number} id - Passkey ID
+   * @param {Partial<Passkey>} updates - Fields to update
+   * @returns {Promise<Passkey>} Updated passkey
+   */
+  updatePasskey(id: number, updates: Partial<Pick<Passkey, 'counter' | 'lastUsedAt' | 'name'>>): Promise<Passkey>;
+  /**
+   * Delete a passkey
+   * @param {number} id - Passkey ID
+   */
+  deletePasskey(id: number): Promise<void>;
+  
+  // Webhook operations
+  /**
+   * Get all webhook endpoints
+   * @returns {Promise<WebhookEndpoint[]>} Endpoints, newest first
+   */
+  getWebhookEndpoints(): Promise<WebhookEndpoint[]>;
+  /**
+   * Get a webhook endpoint by ID
+   * @param {number} id - Endpoint ID
+   * @returns {Promise<WebhookEndpoint | undefined>} Endpoint if found
+   */
+  getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined>;
+  /**
+   * Get active endpoints subscribed to an event type
+   * @param {string} eventType - Event type (e.g. employee.approved)
+   * @returns {Promise<WebhookEndpoint[]>} Endpoints subscribed to the event or to all events ('*')
+   */
+  getWebhookEndpointsForEvent(eventType: string): Promise<WebhookEndpoint[]>;
+  /**
+   * Create a webhook endpoint
+   * @param {object} endpoint - Endpoint fields plus the encrypted secret and creator
+   * @returns {Promise<WebhookEndpoint>} Created endpoint
+   */
+  createWebhookEndpoint(endpoint: InsertWebhookEndpoint & { secret: string; createdBy: number | null }): Promise<WebhookEndpoint>;
+  /**
+   * Update a webhook endpoint
+   * @param {number} id - Endpoint ID
+   * @param {object} updates - Fields to update (including a new encrypted secret)
+   * @returns {Promise<WebhookEndpoint>} Updated endpoint
+   */
+  updateWebhookEndpoint(id: number, updates: Partial<InsertWebhookEndpoint> & { secret?: string }): Promise<WebhookEndpoint>;
+  /**
+   * Delete a webhook endpoint and its delivery log
+   * @param {number} id - Endpoint ID
+   */
+  deleteWebhookEndpoint(id: number): Promise<void>;
+  /**
+   * Queue a webhook delivery
+   * @param {InsertWebhookDelivery} delivery - Delivery to queue
+   * @returns {Promise<WebhookDelivery>} Queued delivery
+   */
+  createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery>;
+  /**
+   * Get a webhook delivery by ID
+   * @param {number} id - Delivery ID
+   * @returns {Promise<WebhookDelivery | undefined>} Delivery if found
+   */
+  getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined>;
+  /**
+   * Record the outcome of a delivery attempt
+   * @param {number} id - Delivery ID
+   * @param {Partial<InsertWebhookDelivery>} updates - Fields to update
+   * @returns {Promise<WebhookDelivery>} Updated delivery
+   */
+  updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery>;
+  /**
+   * Get the delivery log, newest first
+   * @param {object} filters - Optional endpoint and status filters with pagination
+   * @returns {Promise<object>} Deliveries and total count
+   */
+  getWebhookDeliveries(filters: {
+    endpointId?: number;
+    status?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ deliveries: WebhookDelivery[]; total: number }>;
+  /**
+   * Get pending and retrying deliveries whose next attempt is due
+   * @param {Date} now - Current time
+   * @param {number} limit - Maximum deliveries to return
+   * @returns {Promise<WebhookDelivery[]>} Due deliveries, oldest first
+   */
+  getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]>;
+  /**
+   * Count deliveries per status for each endpoint
+   * @returns {Promise<Array<{ endpointId: number; status: string; count: number }>>} Counts by endpoint and status
+   */
+  getWebhookDeliveryCounts(): Promise<Array<{ endpointId: number; status: string; count: number }>>;
+  
+  // User Session operations
+  /**
+   * Get the unexpired login sessions belonging to a user
+   * @param {number} userId - User ID stored by passport in the session
+   * @returns {Promise<SessionRecord[]>} Session rows, most recently expiring first
+   */
+  getUserSessions(userId: number): Promise<SessionRecord[]>;
+  /**
+   * Delete login sessions for a user, signing them out on those devices
+   * @param {number} userId - User ID
+   * @param {object} [options] - Limit to specific session IDs or keep one session
+   * @returns {Promise<number>} Number of sessions deleted
+   */
+  deleteUserSessions(userId: number, options?: { sids?: string[]; exceptSid?: string }): Promise<number>;
+  
+  // Employee Invitation operations
+  createInvitation(invitation: any): Promise<any>;
+  getInvitationById(id: number): Promise<any | undefined>;
+  getInvitationByEmail(email: string): Promise<any | undefined>;
+  getInvitationByToken(token: string): Promise<any | undefined>;
+  getAllInvitations(): Promise<any[]>;
+  updateInvitation(id: number, updates: any): Promise<any>;
+  
+  // Email Reminder operations
+  createEmailReminder(reminder: any): Promise<any>;
+  getEmailRemindersByInvitationId(invitationId: number): Promise<any[]>;
+  
+  // DocuSeal Configuration operations
+  getDocusealConfiguration(): Promise<DocusealConfiguration | undefined>;
   createDocusealConfiguration(config: InsertDocusealConfiguration): Promise<DocusealConfiguration>;
   updateDocusealConfiguration(id: number, config: Partial<InsertDocusealConfiguration>): Promise<DocusealConfiguration>;
   deleteDocusealConfiguration(id: number): Promise<void>;
@@ -1107,19 +2132,20 @@ export interface IStorage {
     locationId?: number;
     licenseTypeId?: number;
     responsiblePersonId?: number;
+    locationIds?: number[];
   }): Promise<{ licenses: ClinicLicense[]; total: number }>;
   getClinicLicense(id: number): Promise<ClinicLicense | undefined>;
   createClinicLicense(license: InsertClinicLicense): Promise<ClinicLicense>;
   updateClinicLicense(id: number, license: Partial<InsertClinicLicense>): Promise<ClinicLicense>;
   deleteClinicLicense(id: number): Promise<void>;
   getClinicLicensesByLocation(locationId: number): Promise<ClinicLicense[]>;
-  getExpiringClinicLicenses(days: number): Promise<any[]>;
+  getExpiringClinicLicenses(days: number, locationIds?: number[]): Promise<any[]>;
   renewClinicLicense(id: number, renewalData: {
     newIssueDate: Date;
     newExpirationDate: Date;
     renewalCost?: number;
   }): Promise<ClinicLicense>;
-  getClinicLicensesComplianceStatus(): Promise<{
+  getClinicLicensesComplianceStatus(locationIds?: number[]): Promise<{
     compliant: number;
     warning: number;
     nonCompliant: number;
@@ -1136,6 +2162,7 @@ export interface IStorage {
     clinicLicenseId?: number;
     locationId?: number;
     status?: string;
+    locationIds?: number[];
   }): Promise<{ documents: ComplianceDocument[]; total: number }>;
   getComplianceDocument(id: number): Promise<ComplianceDocument | undefined>;
   createComplianceDocument(document: InsertComplianceDocument): Promise<ComplianceDocument>;
@@ -1146,7 +2173,8 @@ export interface IStorage {
   getComplianceDocumentVersionsByNumber(documentNumber: string): Promise<ComplianceDocument[]>;
   
   // Compliance Dashboard & Reporting operations
-  getComplianceDashboard(): Promise<{
+  // (locationIds limits results to a user's location scope)
+  getComplianceDashboard(locationIds?: number[]): Promise<{
     totalLocations: number;
     activeLocations: number;
     totalLicenses: number;
@@ -1158,7 +2186,7 @@ export interface IStorage {
     documentsCount: number;
     nonCompliantCount: number;
   }>;
-  getComplianceSummaryByLocation(): Promise<Array<{
+  getComplianceSummaryByLocation(locationIds?: number[]): Promise<Array<{
     locationId: number;
     locationName: string;
     totalLicenses: number;
@@ -1167,7 +2195,7 @@ export interface IStorage {
     expiredLicenses: number;
     complianceStatus: string;
   }>>;
-  getComplianceAlerts(): Promise<Array<{
+  getComplianceAlerts(locationIds?: number[]): Promise<Array<{
     id: number;
     type: string;
     severity: string;
@@ -1329,6 +2357,16 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async getUserByOidcSubject(subject: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.oidcSubject, subject));
+    return user;
+  }
+
+  async getUserByScimExternalId(externalId: string): Promise<User | undefined> {
+    const [user] = await db.select().from(users).where(eq(users.scimExternalId, externalId));
+    return user;
+  }
+
   async updateUserStatus(id: number, status: string): Promise<User> {
     const [user] = await db.update(users).set({ status }).where(eq(users.id, id)).returning();
     if (!user) {
@@ -1337,10 +2375,23 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  async claimMfaTimeStep(id: number, step: number): Promise<boolean> {
+    // Conditional update so two requests with the same code cannot both pass
+    const claimed = await db.update(users)
+      .set({ mfaLastUsedStep: step })
+      .where(and(eq(users.id, id), or(isNull(users.mfaLastUsedStep), lt(users.mfaLastUsedStep, step))))
+      .returning({ id: users.id });
+    return claimed.length > 0;
+  }
+
   async getUsersByStatus(status: string): Promise<User[]> {
     return await db.select().from(users).where(eq(users.status, status));
   }
 
+  async getUsersByRole(role: string): Promise<User[]> {
+    return await db.select().from(users).where(eq(users.role, role)).orderBy(asc(users.id));
+  }
+
   async updatePasswordResetToken(id: number, token: string, expiresAt: Date): Promise<User> {
     const [user] = await db.update(users)
       .set({ 
@@ -1474,6 +2525,7 @@ export class DatabaseStorage implements IStorage {
         role: users.role,
         status: users.status,
         email: users.email,
+        scimExternalId: users.scimExternalId,
         createdAt: users.createdAt,
         lastLoginAt: users.lastLoginAt,
         failedLoginAttempts: users.failedLoginAttempts,
@@ -1506,12 +2558,12 @@ export class DatabaseStorage implements IStorage {
   // Employee operations
   async getEmployee(id: number): Promise<Employee | undefined> {
     const [employee] = await db.select().from(employees).where(eq(employees.id, id));
-    return employee;
+    return decryptReadableFields(employee);
   }
 
   async getEmployeeByWorkEmail(workEmail: string): Promise<Employee | undefined> {
     const [employee] = await db.select().from(employees).where(eq(employees.workEmail, workEmail));
-    return employee;
+    return decryptReadableFields(employee);
   }
 
   async getEmployeesByApplicationStatus(status: string): Promise<Employee[]> {
@@ -1519,7 +2571,7 @@ export class DatabaseStorage implements IStorage {
       .from(employees)
       .where(eq(employees.applicationStatus, status))
       .orderBy(asc(employees.lastName), asc(employees.firstName));
-    return result;
+    return result.map(employee => decryptReadableFields(employee));
   }
 
   async getEmployees(options?: {
@@ -1529,8 +2581,9 @@ export class DatabaseStorage implements IStorage {
     department?: string;
     status?: string;
     location?: string;
+    locationIds?: number[];
   }): Promise<{ employees: Employee[]; total: number }> {
-    const { limit = 10, offset = 0, search, department, status, location } = options || {};
+    const { limit = 10, offset = 0, search, department, status, location, locationIds } = options || {};
     
     let conditions = [];
     
@@ -1539,7 +2592,14 @@ export class DatabaseStorage implements IStorage {
         or(
           like(employees.firstName, `%${search}%`),
           like(employees.lastName, `%${search}%`),
-          like(employees.workEmail, `%${search}%`)
+          like(employees.workEmail, `%${search}%`),
+          // Encrypted identifiers can only match exactly, through their blind indexes
+          eq(employees.ssnHash, blindIndex('employees', 'ssn', search)),
+          eq(employees.dateOfBirthHash, blindIndex('employees', 'dateOfBirth', search)),
+          eq(employees.driversLicenseNumberHash, blindIndex('employees', 'driversLicenseNumber', search)),
+          eq(employees.deaNumberHash, blindIndex('employees', 'deaNumber', search)),
+          eq(employees.medicaidNumberHash, blindIndex('employees', 'medicaidNumber', search)),
+          eq(employees.medicarePtanNumberHash, blindIndex('employees', 'medicarePtanNumber', search))
         )
       );
     }
@@ -1555,6 +2615,10 @@ export class DatabaseStorage implements IStorage {
     if (location) {
       conditions.push(eq(employees.workLocation, location));
     }
+    
+    if (locationIds) {
+      conditions.push(employeeLocationCondition(locationIds));
+    }
 
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
@@ -1569,34 +2633,408 @@ export class DatabaseStorage implements IStorage {
     ]);
 
     return {
-      employees: employeesList,
+      employees: employeesList.map(employee => decryptReadableFields(employee)),
       total: totalResult[0].count
     };
   }
   
   async getAllEmployees(): Promise<Employee[]> {
     const employeesList = await db.select().from(employees);
-    return employeesList;
+    return employeesList.map(employee => decryptReadableFields(employee));
   }
 
   async createEmployee(employee: InsertEmployee): Promise<Employee> {
-    const [newEmployee] = await db.insert(employees).values(employee).returning();
-    return newEmployee;
+    const [newEmployee] = await db.insert(employees).values(encryptSensitiveFields(employee)).returning();
+    return decryptReadableFields(newEmployee);
   }
 
   async updateEmployee(id: number, employee: Partial<InsertEmployee>): Promise<Employee> {
     const [updatedEmployee] = await db
       .update(employees)
-      .set({ ...employee, updatedAt: new Date() })
+      .set({ ...encryptSensitiveFields(employee), updatedAt: new Date() })
       .where(eq(employees.id, id))
       .returning();
-    return updatedEmployee;
+    return decryptReadableFields(updatedEmployee);
   }
 
   async deleteEmployee(id: number): Promise<void> {
     await db.delete(employees).where(eq(employees.id, id));
   }
 
+  async findEmployeesByIdentifiers(identifiers: { npiNumbers: string[]; ssnHashes: string[]; emails: string[] }): Promise<Employee[]> {
+    const conditions = [
+      identifiers.npiNumbers.length ? inArray(employees.npiNumber, identifiers.npiNumbers) : undefined,
+      identifiers.ssnHashes.length ? inArray(employees.ssnHash, identifiers.ssnHashes) : undefined,
+      identifiers.emails.length ? inArray(sql`lower(${employees.workEmail})`, identifiers.emails) : undefined,
+      identifiers.emails.length ? inArray(sql`lower(${employees.personalEmail})`, identifiers.emails) : undefined
+    ].filter(condition => condition !== undefined);
+    if (conditions.length === 0) return [];
+    
+    const matches = await db.select().from(employees).where(or(...conditions));
+    return matches.map(employee => decryptReadableFields(employee));
+  }
+
+  async importEmployees(records: EmployeeImportRecord[]): Promise<Employee[]> {
+    return await db.transaction(async (tx) => {
+      const created: Employee[] = [];
+      for (const record of records) {
+        const [employee] = await tx.insert(employees).values(encryptSensitiveFields(record.employee)).returning();
+        const employeeId = employee.id;
+        
+        if (record.stateLicenses.length > 0) {
+          await tx.insert(stateLicenses).values(record.stateLicenses.map(license => ({ ...license, employeeId })));
+        }
+        if (record.deaLicenses.length > 0) {
+          await tx.insert(deaLicenses).values(record.deaLicenses.map(license => encryptSensitiveFields({ ...license, employeeId }, 'dea_licenses')));
+        }
+        if (record.boardCertifications.length > 0) {
+          await tx.insert(boardCertifications).values(record.boardCertifications.map(certification => ({ ...certification, employeeId })));
+        }
+        created.push(decryptReadableFields(employee));
+      }
+      return created;
+    });
+  }
+
+  async getEmployeesByIds(ids: number[]): Promise<Employee[]> {
+    if (ids.length === 0) return [];
+    const employeesList = await db.select().from(employees).where(inArray(employees.id, ids));
+    return employeesList.map(employee => decryptReadableFields(employee));
+  }
+
+  async getRecordEmployeeId(table: EmployeeRecordTable, id: number): Promise<number | null | undefined> {
+    const source: PgTable & { id: PgColumn; employeeId: PgColumn } = EMPLOYEE_RECORD_TABLES[table];
+    const [record] = await db.select({ employeeId: source.employeeId }).from(source).where(eq(source.id, id));
+    return record ? record.employeeId as number | null : undefined;
+  }
+
+  async findDuplicateEmployeePairs(locationIds?: number[]): Promise<EmployeeDuplicateMatch[]> {
+    const other = alias(employees, 'other');
+    const inScope = locationIds ? employeeIdsAtLocations(locationIds) : undefined;
+    const pairs = (reason: EmployeeDuplicateReason, match: SQL | undefined) => db
+      .select({ employeeId: employees.id, duplicateEmployeeId: other.id })
+      .from(employees)
+      .innerJoin(other, and(lt(employees.id, other.id), match))
+      .where(inScope ? and(inArray(employees.id, inScope), inArray(other.id, inScope)) : undefined)
+      .then(rows => rows.map(row => ({ ...row, reason })));
+    const npi = (column: PgColumn) => sql`nullif(regexp_replace(coalesce(${column}, ''), '[^0-9]', '', 'g'), '')`;
+    const name = (column: PgColumn) => sql`lower(trim(${column}))`;
+    const email = (column: PgColumn) => sql`lower(nullif(trim(${column}), ''))`;
+    
+    const matches = await Promise.all([
+      pairs('npi', sql`${npi(employees.npiNumber)} = ${npi(other.npiNumber)}`),
+      pairs('ssn', eq(employees.ssnHash, other.ssnHash)),
+      pairs('dob_name', and(
+        eq(employees.dateOfBirthHash, other.dateOfBirthHash),
+        sql`${name(employees.firstName)} = ${name(other.firstName)}`,
+        sql`${name(employees.lastName)} = ${name(other.lastName)}`
+      )),
+      pairs('email', or(
+        sql`${email(employees.workEmail)} in (${email(other.workEmail)}, ${email(other.personalEmail)})`,
+        sql`${email(employees.personalEmail)} in (${email(other.workEmail)}, ${email(other.personalEmail)})`
+      ))
+    ]);
+    return matches.flat();
+  }
+
+  async recordEmployeeDuplicateScan(pairs: Array<{ employeeId: number; duplicateEmployeeId: number; reasons: EmployeeDuplicateReason[] }>, locationIds?: number[]): Promise<{ detected: number; resolved: number }> {
+    const inScope = locationIds ? employeeIdsAtLocations(locationIds) : undefined;
+    return await db.transaction(async (tx) => {
+      const open = await tx.select()
+        .from(employeeDuplicateCandidates)
+        .where(and(
+          inArray(employeeDuplicateCandidates.status, ['pending', 'dismissed']),
+          inScope ? inArray(employeeDuplicateCandidates.employeeId, inScope) : undefined,
+          inScope ? inArray(employeeDuplicateCandidates.duplicateEmployeeId, inScope) : undefined
+        ));
+      const known = new Map(open.map(candidate => [`${candidate.employeeId}:${candidate.duplicateEmployeeId}`, candidate]));
+      const seen = new Set<number>();
+      const now = new Date();
+      
+      let detected = 0;
+      for (const pair of pairs) {
+        const candidate = known.get(`${pair.employeeId}:${pair.duplicateEmployeeId}`);
+        if (candidate) {
+          seen.add(candidate.id);
+          await tx.update(employeeDuplicateCandidates)
+            .set({ reasons: pair.reasons, lastSeenAt: now })
+            .where(eq(employeeDuplicateCandidates.id, candidate.id));
+          continue;
+        }
+        const inserted = await tx.insert(employeeDuplicateCandidates)
+          .values({ ...pair, detectedAt: now, lastSeenAt: now })
+          .onConflictDoNothing()
+          .returning({ id: employeeDuplicateCandidates.id });
+        detected += inserted.length;
+      }
+      
+      const stale = open
+        .filter(candidate => candidate.status === 'pending' && !seen.has(candidate.id))
+        .map(candidate => candidate.id);
+      if (stale.length > 0) {
+        await tx.delete(employeeDuplicateCandidates).where(inArray(employeeDuplicateCandidates.id, stale));
+      }
+      return { detected, resolved: stale.length };
+    });
+  }
+
+  async getEmployeeDuplicateCandidates(options: { status?: string; locationIds?: number[]; limit: number; offset: number }): Promise<{ candidates: EmployeeDuplicateCandidate[]; total: number }> {
+    const inScope = options.locationIds ? employeeIdsAtLocations(options.locationIds) : undefined;
+    const condition = and(
+      options.status ? eq(employeeDuplicateCandidates.status, options.status) : undefined,
+      inScope ? inArray(employeeDuplicateCandidates.employeeId, inScope) : undefined,
+      inScope ? inArray(employeeDuplicateCandidates.duplicateEmployeeId, inScope) : undefined
+    );
+    const [candidates, [{ total }]] = await Promise.all([
+      db.select()
+        .from(employeeDuplicateCandidates)
+        .where(condition)
+        .orderBy(desc(employeeDuplicateCandidates.detectedAt), desc(employeeDuplicateCandidates.id))
+        .limit(options.limit)
+        .offset(options.offset),
+      db.select({ total: count() }).from(employeeDuplicateCandidates).where(condition)
+    ]);
+    return { candidates, total };
+  }
+
+  async getEmployeeDuplicateCandidate(id: number): Promise<EmployeeDuplicateCandidate | undefined> {
+    const [candidate] = await db.select().from(employeeDuplicateCandidates).where(eq(employeeDuplicateCandidates.id, id));
+    return candidate;
+  }
+
+  async updateEmployeeDuplicateCandidate(id: number, data: Partial<Omit<EmployeeDuplicateCandidate, 'id'>>): Promise<EmployeeDuplicateCandidate> {
+    const [candidate] = await db.update(employeeDuplicateCandidates)
+      .set(data)
+      .where(eq(employeeDuplicateCandidates.id, id))
+      .returning();
+    return candidate;
+  }
+
+  async mergeEmployees(
+    candidateId: number,
+    survivingEmployeeId: number,
+    mergedEmployeeId: number,
+    references: EmployeeReference[],
+    mergedBy: number | null
+  ): Promise<EmployeeMergeResult | null> {
+    return await db.transaction(async (tx) => {
+      const rows = await tx.select()
+        .from(employees)
+        .where(inArray(employees.id, [survivingEmployeeId, mergedEmployeeId]))
+        .orderBy(asc(employees.id))
+        .for('update');
+      const survivor = rows.find(row => row.id === survivingEmployeeId);
+      const merged = rows.find(row => row.id === mergedEmployeeId);
+      if (!survivor || !merged) {
+        return null;
+      }
+      
+      const movedRecords: Record<string, number[]> = {};
+      const droppedRecords: Record<string, number[]> = {};
+      for (const reference of references) {
+        const column = getTableColumns(reference.table)[reference.column];
+        if (reference.onePerEmployee) {
+          const [existing] = await tx.select({ id: reference.table.id })
+            .from(reference.table)
+            .where(eq(column, survivingEmployeeId))
+            .limit(1);
+          if (existing) {
+            const dropped = await tx.delete(reference.table)
+              .where(eq(column, mergedEmployeeId))
+              .returning({ id: reference.table.id });
+            if (dropped.length > 0) droppedRecords[reference.name] = dropped.map(row => row.id as number);
+            continue;
+          }
+        }
+        const moved = await tx.update(reference.table)
+          .set({ [reference.column]: survivingEmployeeId })
+          .where(eq(column, mergedEmployeeId))
+          .returning({ id: reference.table.id });
+        if (moved.length > 0) movedRecords[reference.name] = moved.map(row => row.id as number);
+      }
+      
+      // Fill the survivor's empty fields, copying blind indexes along with their encrypted column
+      const sensitive = SENSITIVE_COLUMNS.employees;
+      const blindIndexes = new Set(Object.values(sensitive).map(settings => settings?.blindIndex));
+      const isBlank = (value: unknown) => value === null || value === undefined || value === '';
+      const fill: Record<string, unknown> = {};
+      const filledFields: string[] = [];
+      for (const [field, value] of Object.entries(merged)) {
+        if (MERGE_KEPT_EMPLOYEE_FIELDS.has(field) || blindIndexes.has(field)) continue;
+        if (!isBlank((survivor as Record<string, unknown>)[field]) || isBlank(value)) continue;
+        fill[field] = value;
+        filledFields.push(field);
+        const blindIndex = sensitive[field]?.blindIndex;
+        if (blindIndex) fill[blindIndex] = (merged as Record<string, unknown>)[blindIndex];
+      }
+      
+      // Delete first so unique values (NPI, emails) can move to the survivor
+      await tx.delete(employees).where(eq(employees.id, mergedEmployeeId));
+      const now = new Date();
+      const [updated] = await tx.update(employees)
+        .set({ ...fill, updatedAt: now })
+        .where(eq(employees.id, survivingEmployeeId))
+        .returning();
+      
+      const mergeSummary: EmployeeMergeSummary = {
+        survivingEmployeeId,
+        mergedEmployeeId,
+        movedRecords,
+        droppedRecords,
+        filledFields,
+        mergedAt: now.toISOString(),
+        mergedBy
+      };
+      const [candidate] = await tx.update(employeeDuplicateCandidates)
+        .set({ status: 'merged', reviewedBy: mergedBy, reviewedAt: now, survivingEmployeeId, mergeSummary })
+        .where(eq(employeeDuplicateCandidates.id, candidateId))
+        .returning();
+      // Pairs with the merged record are stale; the next scan matches the survivor instead
+      await tx.delete(employeeDuplicateCandidates).where(and(
+        eq(employeeDuplicateCandidates.status, 'pending'),
+        or(
+          eq(employeeDuplicateCandidates.employeeId, mergedEmployeeId),
+          eq(employeeDuplicateCandidates.duplicateEmployeeId, mergedEmployeeId)
+        )
+      ));
+      
+      return {
+        candidate,
+        survivor: decryptReadableFields(updated),
+        merged: decryptReadableFields(merged)
+      };
+    });
+  }
+
+  async getEmployeeSeparations(employeeId: number): Promise<EmployeeSeparation[]> {
+    return await db.select()
+      .from(employeeSeparations)
+      .where(eq(employeeSeparations.employeeId, employeeId))
+      .orderBy(desc(employeeSeparations.createdAt), desc(employeeSeparations.id));
+  }
+
+  async getDueEmployeeSeparations(date: string): Promise<EmployeeSeparation[]> {
+    return await db.select()
+      .from(employeeSeparations)
+      .where(and(eq(employeeSeparations.status, 'scheduled'), lte(employeeSeparations.terminationDate, date)))
+      .orderBy(asc(employeeSeparations.terminationDate), asc(employeeSeparations.id));
+  }
+
+  async createEmployeeSeparation(
+    separation: typeof employeeSeparations.$inferInsert,
+    offboardingTasks: Array<typeof tasks.$inferInsert>
+  ): Promise<{ separation: EmployeeSeparation; tasks: Task[] }> {
+    return await db.transaction(async (tx) => {
+      const created = offboardingTasks.length > 0
+        ? await tx.insert(tasks).values(offboardingTasks).returning()
+        : [];
+      const [inserted] = await tx.insert(employeeSeparations)
+        .values({ ...separation, taskIds: created.map(task => task.id) })
+        .returning();
+      return { separation: inserted, tasks: created };
+    });
+  }
+
+  async cancelEmployeeSeparation(id: number): Promise<EmployeeSeparation | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [separation] = await tx.update(employeeSeparations)
+        .set({ status: 'cancelled', cancelledAt: now, updatedAt: now })
+        .where(and(eq(employeeSeparations.id, id), eq(employeeSeparations.status, 'scheduled')))
+        .returning();
+      if (separation && separation.taskIds.length > 0) {
+        await tx.update(tasks)
+          .set({ status: 'cancelled', updatedAt: now })
+          .where(and(inArray(tasks.id, separation.taskIds), inArray(tasks.status, ['open', 'in_progress'])));
+      }
+      return separation;
+    });
+  }
+
+  async completeEmployeeSeparation(id: number): Promise<CompletedSeparation | null> {
+    return await db.transaction(async (tx) => {
+      const [separation] = await tx.select()
+        .from(employeeSeparations)
+        .where(and(eq(employeeSeparations.id, id), eq(employeeSeparations.status, 'scheduled')))
+        .for('update');
+      if (!separation) {
+        return null;
+      }
+      const date = separation.terminationDate;
+      const now = new Date();
+      
+      const [before] = await tx.select().from(employees).where(eq(employees.id, separation.employeeId)).for('update');
+      const [employee] = await tx.update(employees)
+        .set({ status: 'terminated', updatedAt: now })
+        .where(eq(employees.id, separation.employeeId))
+        .returning();
+      
+      let revokedApiKeys = 0;
+      let revokedSessions = 0;
+      if (before.userId) {
+        await tx.update(users).set({ status: 'disabled' }).where(eq(users.id, before.userId));
+        revokedApiKeys = (await tx.update(apiKeys)
+          .set({ revokedAt: now })
+          .where(and(eq(apiKeys.userId, before.userId), sql`${apiKeys.revokedAt} IS NULL`))
+          .returning({ id: apiKeys.id })).length;
+        revokedSessions = (await tx.delete(sessionTable)
+          .where(sql`${sessionTable.sess}->'passport'->>'user' = ${String(before.userId)}`)
+          .returning({ sid: sessionTable.sid })).length;
+      }
+      
+      // Enrollments already ending earlier keep their date
+      const endedPayerEnrollments = await tx.update(payerEnrollments)
+        .set({
+          status: 'terminated',
+          terminationDate: sql`least(coalesce(${payerEnrollments.terminationDate}, ${date}::date), ${date}::date)`
+        })
+        .where(and(
+          eq(payerEnrollments.employeeId, separation.employeeId),
+          or(isNull(payerEnrollments.status), ne(payerEnrollments.status, 'terminated'))
+        ))
+        .returning();
+      
+      const released = await tx.update(responsiblePersons)
+        .set({ status: 'inactive', endDate: date, updatedAt: now })
+        .where(and(eq(responsiblePersons.employeeId, separation.employeeId), ne(responsiblePersons.status, 'inactive')))
+        .returning({ id: responsiblePersons.id });
+      const releasedIds = released.map(person => person.id);
+      const releasedLicenses = new Set<number>();
+      if (releasedIds.length > 0) {
+        const primary = await tx.update(clinicLicenses)
+          .set({ primaryResponsibleId: null, updatedAt: now })
+          .where(inArray(clinicLicenses.primaryResponsibleId, releasedIds))
+          .returning({ id: clinicLicenses.id });
+        const backup = await tx.update(clinicLicenses)
+          .set({ backupResponsibleId: null, updatedAt: now })
+          .where(inArray(clinicLicenses.backupResponsibleId, releasedIds))
+          .returning({ id: clinicLicenses.id });
+        [...primary, ...backup].forEach(license => releasedLicenses.add(license.id));
+      }
+      
+      const summary: EmployeeSeparationSummary = {
+        previousStatus: before.status,
+        userId: before.userId,
+        revokedApiKeys,
+        revokedSessions,
+        endedPayerEnrollments: endedPayerEnrollments.map(enrollment => enrollment.id),
+        releasedResponsiblePersons: releasedIds,
+        releasedClinicLicenses: Array.from(releasedLicenses)
+      };
+      const [completed] = await tx.update(employeeSeparations)
+        .set({ status: 'completed', completedAt: now, updatedAt: now, summary })
+        .where(eq(employeeSeparations.id, id))
+        .returning();
+      
+      return {
+        separation: completed,
+        before: decryptReadableFields(before),
+        employee: decryptReadableFields(employee),
+        endedPayerEnrollments
+      };
+    });
+  }
+
   // Education operations
   async getEmployeeEducations(employeeId: number): Promise<Education[]> {
     return await db.select().from(educations).where(eq(educations.employeeId, employeeId));
@@ -1691,21 +3129,22 @@ export class DatabaseStorage implements IStorage {
 
   // DEA license operations
   async getEmployeeDeaLicenses(employeeId: number): Promise<DeaLicense[]> {
-    return await db.select().from(deaLicenses).where(eq(deaLicenses.employeeId, employeeId));
+    const licenses = await db.select().from(deaLicenses).where(eq(deaLicenses.employeeId, employeeId));
+    return licenses.map(license => decryptReadableFields(license, 'dea_licenses'));
   }
 
   async createDeaLicense(license: InsertDeaLicense): Promise<DeaLicense> {
-    const [newLicense] = await db.insert(deaLicenses).values(license).returning();
-    return newLicense;
+    const [newLicense] = await db.insert(deaLicenses).values(encryptSensitiveFields(license, 'dea_licenses')).returning();
+    return decryptReadableFields(newLicense, 'dea_licenses');
   }
 
   async updateDeaLicense(id: number, license: Partial<InsertDeaLicense>): Promise<DeaLicense> {
     const [updatedLicense] = await db
       .update(deaLicenses)
-      .set(license)
+      .set(encryptSensitiveFields(license, 'dea_licenses'))
       .where(eq(deaLicenses.id, id))
       .returning();
-    return updatedLicense;
+    return decryptReadableFields(updatedLicense, 'dea_licenses');
   }
 
   async deleteDeaLicense(id: number): Promise<void> {
@@ -1771,8 +3210,9 @@ export class DatabaseStorage implements IStorage {
     type?: string; // single type backward compat
     types?: string[]; // multiple types support
     employeeId?: number;
+    locationIds?: number[];
   }): Promise<{ documents: Document[]; total: number }> {
-    const { limit = 10, offset = 0, search, type, types, employeeId } = options || {};
+    const { limit = 10, offset = 0, search, type, types, employeeId, locationIds } = options || {};
     
     let conditions = [];
     
@@ -1789,6 +3229,10 @@ export class DatabaseStorage implements IStorage {
     if (employeeId) {
       conditions.push(eq(documents.employeeId, employeeId));
     }
+    
+    if (locationIds) {
+      conditions.push(inArray(documents.employeeId, employeeIdsAtLocations(locationIds)));
+    }
 
     const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
 
@@ -1885,6 +3329,8 @@ export class DatabaseStorage implements IStorage {
     daysAhead?: number;
     relatedEmployeeId?: number;
     relatedLocationId?: number;
+    locationIds?: number[];
+    scopeUserId?: number;
   }): Promise<Task[]> {
     let query = db.select().from(tasks);
     const conditions = [];
@@ -1906,6 +3352,9 @@ export class DatabaseStorage implements IStorage {
     if (filters?.relatedLocationId) {
       conditions.push(eq(tasks.relatedLocationId, filters.relatedLocationId));
     }
+    if (filters?.locationIds) {
+      conditions.push(taskLocationCondition(filters.locationIds, filters.scopeUserId));
+    }
 
     if (conditions.length > 0) {
       query = query.where(and(...conditions)) as any;
@@ -1977,7 +3426,7 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(tasks.dueDate));
   }
 
-  async getDueSoonTasks(days: number): Promise<Task[]> {
+  async getDueSoonTasks(days: number, filters?: { locationIds?: number[]; scopeUserId?: number }): Promise<Task[]> {
     const futureDate = new Date();
     futureDate.setDate(futureDate.getDate() + days);
     const today = new Date().toISOString().slice(0, 10);
@@ -1987,7 +3436,8 @@ export class DatabaseStorage implements IStorage {
       .from(tasks)
       .where(and(
         lte(tasks.dueDate, future as any),
-        or(eq(tasks.status, 'open'), eq(tasks.status, 'in_progress'))
+        or(eq(tasks.status, 'open'), eq(tasks.status, 'in_progress')),
+        filters?.locationIds ? taskLocationCondition(filters.locationIds, filters.scopeUserId) : undefined
       ))
       .orderBy(asc(tasks.dueDate));
   }
@@ -2118,21 +3568,22 @@ export class DatabaseStorage implements IStorage {
 
   // Emergency contact operations
   async getEmployeeEmergencyContacts(employeeId: number): Promise<EmergencyContact[]> {
-    return await db.select().from(emergencyContacts).where(eq(emergencyContacts.employeeId, employeeId));
+    const contacts = await db.select().from(emergencyContacts).where(eq(emergencyContacts.employeeId, employeeId));
+    return contacts.map(contact => decryptReadableFields(contact, 'emergency_contacts'));
   }
 
   async createEmergencyContact(contact: InsertEmergencyContact): Promise<EmergencyContact> {
-    const [newContact] = await db.insert(emergencyContacts).values(contact).returning();
-    return newContact;
+    const [newContact] = await db.insert(emergencyContacts).values(encryptSensitiveFields(contact, 'emergency_contacts')).returning();
+    return decryptReadableFields(newContact, 'emergency_contacts');
   }
 
   async updateEmergencyContact(id: number, contact: Partial<InsertEmergencyContact>): Promise<EmergencyContact> {
     const [updatedContact] = await db
       .update(emergencyContacts)
-      .set(contact)
+      .set(encryptSensitiveFields(contact, 'emergency_contacts'))
       .where(eq(emergencyContacts.id, id))
       .returning();
-    return updatedContact;
+    return decryptReadableFields(updatedContact, 'emergency_contacts');
   }
 
   async deleteEmergencyContact(id: number): Promise<void> {
@@ -2268,71 +3719,437 @@ export class DatabaseStorage implements IStorage {
 
   // Audit operations
   async createAudit(audit: InsertAudit): Promise<Audit> {
-    const [newAudit] = await db.insert(audits).values(audit).returning();
-    return newAudit;
+    return await db.transaction(async (tx) => {
+      // One writer at a time, so every row links to the row written just before it
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(${AUDIT_CHAIN_LOCK_ID})`);
+      
+      const [previous] = await tx.select({ hash: audits.hash })
+        .from(audits)
+        .where(isNotNull(audits.hash))
+        .orderBy(desc(audits.id))
+        .limit(1);
+      const previousHash = previous?.hash ?? AUDIT_CHAIN_GENESIS_HASH;
+      const changedAt = new Date();
+      const hash = computeAuditHash({ ...audit, changedAt }, previousHash);
+      
+      const [newAudit] = await tx.insert(audits)
+        .values({ ...audit, changedAt, previousHash, hash })
+        .returning();
+      return newAudit;
+    });
   }
-
-  async getAudits(options?: {
-    limit?: number;
-    offset?: number;
-    tableName?: string;
-    action?: string;
-    startDate?: Date;
-    endDate?: Date;
-  }): Promise<{ audits: Audit[]; total: number }> {
-    const { limit = 25, offset = 0, tableName, action, startDate, endDate } = options || {};
-    
-    let conditions = [];
-    
-    if (tableName) {
-      conditions.push(eq(audits.tableName, tableName));
-    }
-    
-    if (action) {
-      conditions.push(eq(audits.action, action));
-    }
-    
-    if (startDate) {
-      conditions.push(sql`${audits.changedAt} >= ${startDate}`);
-    }
-    
-    if (endDate) {
-      conditions.push(sql`${audits.changedAt} <= ${endDate}`);
-    }
-
-    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
-
-    const [auditsList, totalResult] = await Promise.all([
-      db.select({
-        id: audits.id,
-        tableName: audits.tableName,
-        recordId: audits.recordId,
-        action: audits.action,
-        changedBy: audits.changedBy,
-        changedAt: audits.changedAt,
-        oldData: audits.oldData,
-        newData: audits.newData,
-        username: users.username
-      })
+  
+  async getAuditChainBatch(afterId: number, limit: number): Promise<Audit[]> {
+    return await db.select()
+      .from(audits)
+      .where(gt(audits.id, afterId))
+      .orderBy(asc(audits.id))
+      .limit(limit);
+  }
+  
+  async getAudit(id: number): Promise<Audit | undefined> {
+    const [audit] = await db.select().from(audits).where(eq(audits.id, id));
+    return audit;
+  }
+  
+  async getAuditChainHead(before: Date): Promise<{ lastAuditId: number | null; lastHash: string; auditCount: number }> {
+    const chained = and(isNotNull(audits.hash), lt(audits.changedAt, before));
+    const [[last], [total]] = await Promise.all([
+      db.select({ id: audits.id, hash: audits.hash })
         .from(audits)
-        .leftJoin(users, eq(audits.changedBy, users.id))
-        .where(whereClause)
-        .limit(limit)
-        .offset(offset)
-        .orderBy(desc(audits.changedAt)),
-      db.select({ count: count() }).from(audits).where(whereClause)
+        .where(chained)
+        .orderBy(desc(audits.id))
+        .limit(1),
+      db.select({ count: count() }).from(audits).where(chained)
     ]);
-
+    
     return {
-      audits: auditsList.map(audit => ({
-        id: audit.id,
-        tableName: audit.tableName,
+      lastAuditId: last?.id ?? null,
+      lastHash: last?.hash ?? AUDIT_CHAIN_GENESIS_HASH,
+      auditCount: total?.count ?? 0
+    };
+  }
+  
+  async createAuditCheckpoint(checkpoint: InsertAuditCheckpoint): Promise<AuditCheckpoint> {
+    const [created] = await db.insert(auditCheckpoints).values(checkpoint).returning();
+    return created;
+  }
+  
+  async getAuditCheckpoint(date: string): Promise<AuditCheckpoint | undefined> {
+    const [checkpoint] = await db.select()
+      .from(auditCheckpoints)
+      .where(eq(auditCheckpoints.checkpointDate, date));
+    return checkpoint;
+  }
+  
+  async getAuditCheckpoints(limit?: number): Promise<AuditCheckpoint[]> {
+    const query = db.select()
+      .from(auditCheckpoints)
+      .orderBy(desc(auditCheckpoints.checkpointDate));
+    return limit ? await query.limit(limit) : await query;
+  }
+  
+  async getSiemExportCheckpoint(name: string): Promise<SiemExportCheckpoint | undefined> {
+    const [checkpoint] = await db.select()
+      .from(siemExportCheckpoints)
+      .where(eq(siemExportCheckpoints.name, name));
+    return checkpoint;
+  }
+  
+  async advanceSiemExportCheckpoint(
+    name: string,
+    deliver: (afterId: number) => Promise<{ lastAuditId: number; exported: number }>
+  ): Promise<{ lastAuditId: number; exported: number } | null> {
+    return await db.transaction(async (tx) => {
+      await tx.insert(siemExportCheckpoints).values({ name }).onConflictDoNothing();
+      
+      const [checkpoint] = await tx.select()
+        .from(siemExportCheckpoints)
+        .where(eq(siemExportCheckpoints.name, name))
+        .for('update', { skipLocked: true });
+      if (!checkpoint) {
+        return null;
+      }
+      
+      const result = await deliver(checkpoint.lastAuditId);
+      if (result.exported > 0) {
+        const now = new Date();
+        await tx.update(siemExportCheckpoints)
+          .set({
+            lastAuditId: result.lastAuditId,
+            exportedCount: sql`${siemExportCheckpoints.exportedCount} + ${result.exported}`,
+            lastExportedAt: now,
+            lastError: null,
+            lastErrorAt: null,
+            updatedAt: now
+          })
+          .where(eq(siemExportCheckpoints.name, name));
+      }
+      return result;
+    });
+  }
+  
+  async recordSiemExportError(name: string, message: string): Promise<void> {
+    const now = new Date();
+    await db.insert(siemExportCheckpoints)
+      .values({ name, lastError: message, lastErrorAt: now, updatedAt: now })
+      .onConflictDoUpdate({
+        target: siemExportCheckpoints.name,
+        set: { lastError: message, lastErrorAt: now, updatedAt: now }
+      });
+  }
+  
+  async getAuditRetentionPolicies(): Promise<AuditRetentionPolicy[]> {
+    return await db.select().from(auditRetentionPolicies).orderBy(asc(auditRetentionPolicies.id));
+  }
+  
+  async getAuditRetentionPolicy(id: number): Promise<AuditRetentionPolicy | undefined> {
+    const [policy] = await db.select().from(auditRetentionPolicies).where(eq(auditRetentionPolicies.id, id));
+    return policy;
+  }
+  
+  async createAuditRetentionPolicy(policy: InsertAuditRetentionPolicy & { createdBy?: number | null }): Promise<AuditRetentionPolicy> {
+    const [created] = await db.insert(auditRetentionPolicies).values(policy).returning();
+    return created;
+  }
+  
+  async updateAuditRetentionPolicy(id: number, updates: Partial<InsertAuditRetentionPolicy>): Promise<AuditRetentionPolicy> {
+    const [updated] = await db.update(auditRetentionPolicies)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(auditRetentionPolicies.id, id))
+      .returning();
+    return updated;
+  }
+  
+  async deleteAuditRetentionPolicy(id: number): Promise<void> {
+    await db.delete(auditRetentionPolicies).where(eq(auditRetentionPolicies.id, id));
+  }
+  
+  async getExpiredAudits(scope: AuditRetentionScope, limit: number): Promise<Audit[]> {
+    return await db.select()
+      .from(audits)
+      .where(auditRetentionCondition(scope))
+      .orderBy(asc(audits.id))
+      .limit(limit);
+  }
+  
+  async countExpiredAudits(scope: AuditRetentionScope): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(audits).where(auditRetentionCondition(scope));
+    return result?.count ?? 0;
+  }
+  
+  async archiveAudits(archive: InsertAuditArchive, auditIds: number[]): Promise<AuditArchive> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(auditArchives).values(archive).returning();
+      
+      let deleted = 0;
+      for (let i = 0; i < auditIds.length; i += 1000) {
+        const removed = await tx.delete(audits)
+          .where(inArray(audits.id, auditIds.slice(i, i + 1000)))
+          .returning({ id: audits.id });
+        deleted += removed.length;
+      }
+      if (deleted !== auditIds.length) {
+        throw new Error(`Expected to prune ${auditIds.length} audit rows but found ${deleted}`);
+      }
+      
+      return created;
+    });
+  }
+  
+  async getAuditArchives(options?: { limit?: number; offset?: number }): Promise<{ archives: AuditArchive[]; total: number }> {
+    const { limit = 25, offset = 0 } = options || {};
+    const [archives, [total]] = await Promise.all([
+      db.select().from(auditArchives).orderBy(desc(auditArchives.id)).limit(limit).offset(offset),
+      db.select({ count: count() }).from(auditArchives)
+    ]);
+    return { archives, total: total?.count ?? 0 };
+  }
+  
+  async getAuditArchive(id: number): Promise<AuditArchive | undefined> {
+    const [archive] = await db.select().from(auditArchives).where(eq(auditArchives.id, id));
+    return archive;
+  }
+  
+  async getAuditArchiveRanges(): Promise<Array<{ firstAuditId: number; lastAuditId: number }>> {
+    return await db.select({ firstAuditId: auditArchives.firstAuditId, lastAuditId: auditArchives.lastAuditId })
+      .from(auditArchives)
+      .orderBy(asc(auditArchives.firstAuditId));
+  }
+  
+  async loadArchivedAudits(archiveId: number, rows: Array<Omit<ArchivedAudit, 'archiveId'>>, restoredBy: number): Promise<AuditArchive> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(archivedAudits).where(eq(archivedAudits.archiveId, archiveId));
+      for (let i = 0; i < rows.length; i += 500) {
+        await tx.insert(archivedAudits)
+          .values(rows.slice(i, i + 500).map(row => ({ ...row, archiveId })))
+          .onConflictDoNothing();
+      }
+      
+      const [archive] = await tx.update(auditArchives)
+        .set({ restoredAt: new Date(), restoredBy })
+        .where(eq(auditArchives.id, archiveId))
+        .returning();
+      return archive;
+    });
+  }
+  
+  async unloadArchivedAudits(archiveId: number): Promise<AuditArchive> {
+    return await db.transaction(async (tx) => {
+      await tx.delete(archivedAudits).where(eq(archivedAudits.archiveId, archiveId));
+      const [archive] = await tx.update(auditArchives)
+        .set({ restoredAt: null, restoredBy: null })
+        .where(eq(auditArchives.id, archiveId))
+        .returning();
+      return archive;
+    });
+  }
+  
+  async getArchivedAudits(options?: {
+    limit?: number;
+    offset?: number;
+    archiveId?: number;
+    tableName?: string;
+    action?: string;
+    recordId?: number;
+    changedBy?: number;
+    user?: string;
+    field?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<{ audits: Array<ArchivedAudit & { username: string | null }>; total: number }> {
+    const { limit = 25, offset = 0, archiveId, tableName, action, recordId, changedBy, user, field, startDate, endDate } = options || {};
+    
+    const whereClause = and(
+      archiveId ? eq(archivedAudits.archiveId, archiveId) : undefined,
+      tableName ? eq(archivedAudits.tableName, tableName) : undefined,
+      action ? eq(archivedAudits.action, action) : undefined,
+      recordId ? eq(archivedAudits.recordId, recordId) : undefined,
+      changedBy ? eq(archivedAudits.changedBy, changedBy) : undefined,
+      user ? ilike(users.username, `%${user}%`) : undefined,
+      field ? or(
+        sql`(${archivedAudits.oldData} -> ${field}) IS DISTINCT FROM (${archivedAudits.newData} -> ${field})`,
+        and(eq(archivedAudits.action, 'ACCESS'), sql`(${archivedAudits.newData} -> 'fields') @> jsonb_build_array(${field}::text)`)
+      ) : undefined,
+      startDate ? gte(archivedAudits.changedAt, startDate) : undefined,
+      endDate ? lte(archivedAudits.changedAt, endDate) : undefined
+    );
+    
+    const [rows, [total]] = await Promise.all([
+      db.select({ audit: archivedAudits, username: users.username })
+        .from(archivedAudits)
+        .leftJoin(users, eq(archivedAudits.changedBy, users.id))
+        .where(whereClause)
+        .orderBy(desc(archivedAudits.changedAt), desc(archivedAudits.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() })
+        .from(archivedAudits)
+        .leftJoin(users, eq(archivedAudits.changedBy, users.id))
+        .where(whereClause)
+    ]);
+    
+    return {
+      audits: rows.map(row => ({ ...row.audit, username: row.username })),
+      total: total?.count ?? 0
+    };
+  }
+  
+  /**
+   * Get read-access events on an employee's protected data
+   * @param {number} employeeId - Employee whose record was accessed
+   * @param {object} [options] - Pagination options
+   * @returns {Promise<{events: AccessEvent[]; total: number}>} Access events, newest first
+   */
+  async getAccessEvents(employeeId: number, options?: { limit?: number; offset?: number }): Promise<{ events: AccessEvent[]; total: number }> {
+    const { limit = 25, offset = 0 } = options || {};
+    const whereClause = and(
+      eq(audits.action, 'ACCESS'),
+      or(
+        and(eq(audits.tableName, 'employees'), eq(audits.recordId, employeeId)),
+        and(inArray(audits.tableName, ['documents', 'form_submissions']), sql`${audits.newData}->>'employeeId' = ${String(employeeId)}`)
+      )
+    );
+
+    const [rows, totalResult] = await Promise.all([
+      db.select({
+        id: audits.id,
+        tableName: audits.tableName,
+        recordId: audits.recordId,
+        changedBy: audits.changedBy,
+        impersonatedBy: audits.impersonatedBy,
+        changedAt: audits.changedAt,
+        newData: audits.newData,
+        username: users.username
+      })
+        .from(audits)
+        .leftJoin(users, eq(audits.changedBy, users.id))
+        .where(whereClause)
+        .orderBy(desc(audits.changedAt), desc(audits.id))
+        .limit(limit)
+        .offset(offset),
+      db.select({ count: count() }).from(audits).where(whereClause)
+    ]);
+
+    return {
+      events: rows.map(row => {
+        const data = (row.newData ?? {}) as Record<string, any>;
+        const isDownload = row.tableName === 'documents';
+        return {
+          id: row.id,
+          event: isDownload ? 'document_download' : 'phi_access',
+          accessedAt: row.changedAt,
+          accessedBy: row.changedBy,
+          username: row.username,
+          impersonatedBy: row.impersonatedBy,
+          fields: Array.isArray(data.fields) ? data.fields : [],
+          documentId: isDownload ? row.recordId : null,
+          documentType: data.documentType ?? null,
+          fileName: data.fileName ?? null,
+          route: data.route ?? null,
+          ipAddress: data.ip ?? null,
+          apiKeyId: data.apiKeyId ?? null
+        };
+      }),
+      total: totalResult[0].count
+    };
+  }
+
+  async getAudits(options?: {
+    limit?: number;
+    offset?: number;
+    tableName?: string;
+    action?: string;
+    recordId?: number;
+    changedBy?: number;
+    user?: string;
+    field?: string;
+    startDate?: Date;
+    endDate?: Date;
+  }): Promise<{ audits: Array<Audit & { username: string | null }>; total: number }> {
+    const { limit = 25, offset = 0, tableName, action, recordId, changedBy, user, field, startDate, endDate } = options || {};
+    
+    let conditions = [];
+    
+    if (tableName) {
+      conditions.push(eq(audits.tableName, tableName));
+    }
+    
+    if (action) {
+      conditions.push(eq(audits.action, action));
+    }
+    
+    if (recordId) {
+      conditions.push(eq(audits.recordId, recordId));
+    }
+    
+    if (changedBy) {
+      conditions.push(eq(audits.changedBy, changedBy));
+    }
+    
+    if (user) {
+      conditions.push(ilike(users.username, `%${user}%`));
+    }
+    
+    if (field) {
+      // Changed fields differ between the snapshots; PHI reads list the fields they served
+      conditions.push(or(
+        sql`(${audits.oldData} -> ${field}) IS DISTINCT FROM (${audits.newData} -> ${field})`,
+        and(eq(audits.action, 'ACCESS'), sql`(${audits.newData} -> 'fields') @> jsonb_build_array(${field}::text)`)
+      ));
+    }
+    
+    if (startDate) {
+      conditions.push(sql`${audits.changedAt} >= ${startDate}`);
+    }
+    
+    if (endDate) {
+      conditions.push(sql`${audits.changedAt} <= ${endDate}`);
+    }
+
+    const whereClause = conditions.length > 0 ? and(...conditions) : undefined;
+
+    const [auditsList, totalResult] = await Promise.all([
+      db.select({
+        id: audits.id,
+        tableName: audits.tableName,
+        recordId: audits.recordId,
+        action: audits.action,
+        changedBy: audits.changedBy,
+        impersonatedBy: audits.impersonatedBy,
+        changedAt: audits.changedAt,
+        oldData: audits.oldData,
+        newData: audits.newData,
+        previousHash: audits.previousHash,
+        hash: audits.hash,
+        username: users.username
+      })
+        .from(audits)
+        .leftJoin(users, eq(audits.changedBy, users.id))
+        .where(whereClause)
+        .limit(limit)
+        .offset(offset)
+        .orderBy(desc(audits.changedAt)),
+      db.select({ count: count() })
+        .from(audits)
+        .leftJoin(users, eq(audits.changedBy, users.id))
+        .where(whereClause)
+    ]);
+
+    return {
+      audits: auditsList.map(audit => ({
+        id: audit.id,
+        tableName: audit.tableName,
         recordId: audit.recordId,
         action: audit.action,
         changedBy: audit.changedBy,
+        impersonatedBy: audit.impersonatedBy,
         changedAt: audit.changedAt,
         oldData: audit.oldData,
-        newData: audit.newData
+        newData: audit.newData,
+        previousHash: audit.previousHash,
+        hash: audit.hash,
+        username: audit.username
       })),
       total: totalResult[0].count
     };
@@ -2347,15 +4164,17 @@ export class DatabaseStorage implements IStorage {
    * Used by cron jobs for automated notification system
    * 
    * @param {number} days - Number of days to look ahead
+   * @param {number[]} [locationIds] - Only include employees at these locations (location scope)
    * @returns {Promise<any[]>} Array of expiring items with employee info
    * 
    * @example
    * // Get items expiring in next 30 days
    * const expiringItems = await storage.getExpiringItems(30);
    */
-  async getExpiringItems(days: number): Promise<any[]> {
+  async getExpiringItems(days: number, locationIds?: number[]): Promise<any[]> {
     const futureDate = new Date();
     futureDate.setDate(futureDate.getDate() + days);
+    const inScope = locationIds ? employeeLocationCondition(locationIds) : undefined;
 
     const expiringStateLicenses = await db
       .select({
@@ -2370,7 +4189,8 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(employees, eq(stateLicenses.employeeId, employees.id))
       .where(and(
         lte(stateLicenses.expirationDate, futureDate.toISOString().split('T')[0]),
-        sql`${stateLicenses.expirationDate} > CURRENT_DATE`
+        sql`${stateLicenses.expirationDate} > CURRENT_DATE`,
+        inScope
       ));
 
     const expiringDeaLicenses = await db
@@ -2386,7 +4206,8 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(employees, eq(deaLicenses.employeeId, employees.id))
       .where(and(
         lte(deaLicenses.expirationDate, futureDate.toISOString().split('T')[0]),
-        sql`${deaLicenses.expirationDate} > CURRENT_DATE`
+        sql`${deaLicenses.expirationDate} > CURRENT_DATE`,
+        inScope
       ));
 
     const expiringBoardCerts = await db
@@ -2402,10 +4223,49 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(employees, eq(boardCertifications.employeeId, employees.id))
       .where(and(
         lte(boardCertifications.expirationDate, futureDate.toISOString().split('T')[0]),
-        sql`${boardCertifications.expirationDate} > CURRENT_DATE`
+        sql`${boardCertifications.expirationDate} > CURRENT_DATE`,
+        inScope
       ));
 
-    return [...expiringStateLicenses, ...expiringDeaLicenses, ...expiringBoardCerts];
+    return [
+      ...expiringStateLicenses,
+      ...expiringDeaLicenses.map(item => decryptReadableFields(item, 'dea_licenses')),
+      ...expiringBoardCerts
+    ];
+  }
+
+  /**
+   * Get state and DEA licenses expiring today
+   * Used by the daily cron job to emit license.expired webhooks exactly once.
+   * 
+   * @returns {Promise<ExpiredLicense[]>} Expired licenses
+   */
+  async getLicensesExpiringToday(): Promise<ExpiredLicense[]> {
+    const expiredStateLicenses = await db
+      .select({
+        licenseId: stateLicenses.id,
+        employeeId: stateLicenses.employeeId,
+        licenseNumber: stateLicenses.licenseNumber,
+        state: stateLicenses.state,
+        expirationDate: stateLicenses.expirationDate
+      })
+      .from(stateLicenses)
+      .where(sql`${stateLicenses.expirationDate} = CURRENT_DATE`);
+
+    const expiredDeaLicenses = await db
+      .select({
+        licenseId: deaLicenses.id,
+        employeeId: deaLicenses.employeeId,
+        licenseNumber: deaLicenses.licenseNumber,
+        expirationDate: deaLicenses.expirationDate
+      })
+      .from(deaLicenses)
+      .where(sql`${deaLicenses.expirationDate} = CURRENT_DATE`);
+
+    return [
+      ...expiredStateLicenses.map(license => ({ ...license, licenseType: 'state' as const })),
+      ...expiredDeaLicenses.map(license => ({ ...decryptReadableFields(license, 'dea_licenses'), state: null, licenseType: 'dea' as const }))
+    ];
   }
 
   /**
@@ -2416,26 +4276,30 @@ export class DatabaseStorage implements IStorage {
    * - activeEmployees: Number of active employees
    * - expiringSoon: Count of licenses expiring in 30 days
    * - pendingDocs: Estimated pending document count
+   *
+   * @param {number[]} [locationIds] - Only count employees at these locations (location scope)
    */
-  async getEmployeeStats(): Promise<{
+  async getEmployeeStats(locationIds?: number[]): Promise<{
     totalEmployees: number;
     activeEmployees: number;
     expiringSoon: number;
     pendingDocs: number;
   }> {
-    const [totalResult] = await db.select({ count: count() }).from(employees);
+    const inScope = locationIds ? employeeLocationCondition(locationIds) : undefined;
+    const [totalResult] = await db.select({ count: count() }).from(employees).where(inScope);
     const [activeResult] = await db
       .select({ count: count() })
       .from(employees)
-      .where(eq(employees.status, 'active'));
+      .where(and(eq(employees.status, 'active'), inScope));
 
-    const expiringItems = await this.getExpiringItems(30);
+    const expiringItems = await this.getExpiringItems(30, locationIds);
     const expiringSoon = expiringItems.length;
 
     // For demo purposes, using a simple count of documents without status
     const [pendingDocsResult] = await db
       .select({ count: count() })
-      .from(documents);
+      .from(documents)
+      .where(inScope && inArray(documents.employeeId, db.select({ id: employees.id }).from(employees).where(inScope)));
 
     return {
       totalEmployees: totalResult.count,
@@ -2573,252 +4437,1040 @@ export class DatabaseStorage implements IStorage {
       .select({ count: count() })
       .from(documents);
     
-    // Calculate other documents
-    const otherCount = totalDocs.count - licenseDocs.count - certDocs.count - taxDocs.count;
+    // Calculate other documents
+    const otherCount = totalDocs.count - licenseDocs.count - certDocs.count - taxDocs.count;
+    
+    // Count documents expiring soon (30 days)
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + 30);
+    
+    const [expiringSoonDocs] = await db
+      .select({ count: count() })
+      .from(documents)
+      .where(and(
+        lte(documents.expirationDate, futureDate.toISOString().split('T')[0]),
+        sql`${documents.expirationDate} > CURRENT_DATE`
+      ));
+    
+    return {
+      licenses: licenseDocs.count,
+      certifications: certDocs.count,
+      taxForms: taxDocs.count,
+      other: Math.max(0, otherCount),
+      expiringSoon: expiringSoonDocs.count
+    };
+  }
+
+  /**
+   * API Key Operations Implementation
+   */
+  
+  /**
+   * Create a new API key for a user
+   * @param {InsertApiKey} apiKey - API key data with hashed key
+   * @returns {Promise<ApiKey>} Created API key record
+   */
+  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
+    try {
+      // Ensure permissions is properly formatted for text[] field
+      // PostgreSQL text[] fields work directly with JavaScript arrays
+      const permissionsArray = Array.isArray(apiKey.permissions) ? apiKey.permissions : [];
+      
+      // For text[] fields, Drizzle can handle JavaScript arrays directly
+      // No need for raw SQL casting - use the standard insert method
+      const [created] = await db.insert(apiKeys).values({
+        name: apiKey.name,
+        keyHash: apiKey.keyHash,
+        keyPrefix: apiKey.keyPrefix,
+        userId: apiKey.userId,
+        permissions: permissionsArray,
+        expiresAt: apiKey.expiresAt,
+        environment: apiKey.environment,
+        rateLimitPerHour: apiKey.rateLimitPerHour,
+        metadata: apiKey.metadata
+      }).returning();
+      
+      return created;
+    } catch (error) {
+      logger.error('Error creating API key', error);
+      throw error;
+    }
+  }
+  
+  /**
+   * Get API key by ID
+   * @param {number} id - API key ID
+   * @returns {Promise<ApiKey | undefined>} API key if found
+   */
+  async getApiKey(id: number): Promise<ApiKey | undefined> {
+    const [key] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
+    return key;
+  }
+  
+  /**
+   * Get API key by hash (for authentication)
+   * @param {string} keyHash - Hashed API key
+   * @returns {Promise<ApiKey | undefined>} API key if found
+   */
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select()
+      .from(apiKeys)
+      .where(and(
+        eq(apiKeys.keyHash, keyHash),
+        sql`${apiKeys.revokedAt} IS NULL`
+      ));
+    return key;
+  }
+  
+  /**
+   * Get API key by prefix for identification
+   * @param {string} prefix - First 8 characters of the API key
+   * @returns {Promise<ApiKey | undefined>} API key if found
+   */
+  async getApiKeyByPrefix(prefix: string): Promise<ApiKey | undefined> {
+    const [key] = await db.select()
+      .from(apiKeys)
+      .where(eq(apiKeys.keyPrefix, prefix));
+    return key;
+  }
+  
+  /**
+   * Get all API keys for a user
+   * @param {number} userId - User ID
+   * @returns {Promise<ApiKey[]>} Array of user's API keys
+   */
+  async getUserApiKeys(userId: number): Promise<ApiKey[]> {
+    return await db.select()
+      .from(apiKeys)
+      .where(eq(apiKeys.userId, userId))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+  
+  /**
+   * Update an API key (e.g., lastUsedAt)
+   * @param {number} id - API key ID
+   * @param {Partial<ApiKey>} updates - Fields to update
+   * @returns {Promise<ApiKey>} Updated API key
+   */
+  async updateApiKey(id: number, updates: Partial<ApiKey>): Promise<ApiKey> {
+    const [updated] = await db.update(apiKeys)
+      .set(updates)
+      .where(eq(apiKeys.id, id))
+      .returning();
+    return updated;
+  }
+  
+  /**
+   * Revoke an API key (soft delete)
+   * @param {number} id - API key ID
+   */
+  async revokeApiKey(id: number): Promise<void> {
+    await db.update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(eq(apiKeys.id, id));
+  }
+  
+  /**
+   * Revoke all of a user's API keys (e.g. when the account is deactivated)
+   * @param {number} userId - Key owner
+   * @returns {Promise<number>} Number of keys revoked
+   */
+  async revokeUserApiKeys(userId: number): Promise<number> {
+    const revoked = await db.update(apiKeys)
+      .set({ revokedAt: new Date() })
+      .where(and(eq(apiKeys.userId, userId), sql`${apiKeys.revokedAt} IS NULL`))
+      .returning({ id: apiKeys.id });
+    return revoked.length;
+  }
+  
+  /**
+   * Delete an API key (hard delete)
+   * @param {number} id - API key ID
+   */
+  async deleteApiKey(id: number): Promise<void> {
+    await db.delete(apiKeys).where(eq(apiKeys.id, id));
+  }
+  
+  /**
+   * Get all active API keys
+   * @returns {Promise<ApiKey[]>} Array of active API keys
+   */
+  async getActiveApiKeys(): Promise<ApiKey[]> {
+    return await db.select()
+      .from(apiKeys)
+      .where(and(
+        sql`${apiKeys.revokedAt} IS NULL`,
+        sql`${apiKeys.expiresAt} > NOW()`
+      ))
+      .orderBy(desc(apiKeys.createdAt));
+  }
+  
+  /**
+   * Get API keys expiring within specified days
+   * @param {number} days - Number of days to look ahead
+   * @returns {Promise<ApiKey[]>} Array of expiring API keys
+   */
+  async getExpiringApiKeys(days: number): Promise<ApiKey[]> {
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + days);
+    
+    return await db.select()
+      .from(apiKeys)
+      .where(and(
+        sql`${apiKeys.revokedAt} IS NULL`,
+        lte(apiKeys.expiresAt, futureDate),
+        sql`${apiKeys.expiresAt} > NOW()`
+      ))
+      .orderBy(asc(apiKeys.expiresAt));
+  }
+  
+  /**
+   * Create API key rotation record
+   * @param {InsertApiKeyRotation} rotation - Rotation data
+   * @returns {Promise<ApiKeyRotation>} Created rotation record
+   */
+  async createApiKeyRotation(rotation: InsertApiKeyRotation): Promise<ApiKeyRotation> {
+    const [created] = await db.insert(apiKeyRotations).values(rotation).returning();
+    return created;
+  }
+  
+  /**
+   * Get rotation history for an API key
+   * @param {number} apiKeyId - API key ID
+   * @returns {Promise<ApiKeyRotation[]>} Array of rotation records
+   */
+  async getApiKeyRotations(apiKeyId: number): Promise<ApiKeyRotation[]> {
+    return await db.select()
+      .from(apiKeyRotations)
+      .where(eq(apiKeyRotations.apiKeyId, apiKeyId))
+      .orderBy(desc(apiKeyRotations.rotatedAt));
+  }
+  
+  /**
+   * Count one request made with an API key
+   * @param {object} entry - Key, hour bucket, method, route and outcome of the request
+   * @returns {Promise<void>}
+   */
+  async recordApiKeyUsage(entry: {
+    apiKeyId: number;
+    bucket: Date;
+    method: string;
+    route: string;
+    error: boolean;
+    blocked: boolean;
+    ip: string | null;
+  }): Promise<void> {
+    const errorCount = entry.error ? 1 : 0;
+    const blockedCount = entry.blocked ? 1 : 0;
+    const lastBlockedIp = entry.blocked ? entry.ip : null;
+    
+    await db.insert(apiKeyUsage)
+      .values({
+        apiKeyId: entry.apiKeyId,
+        bucket: entry.bucket,
+        method: entry.method,
+        route: entry.route,
+        requestCount: 1,
+        errorCount,
+        blockedCount,
+        lastBlockedIp
+      })
+      .onConflictDoUpdate({
+        target: [apiKeyUsage.apiKeyId, apiKeyUsage.bucket, apiKeyUsage.method, apiKeyUsage.route],
+        set: {
+          requestCount: sql`${apiKeyUsage.requestCount} + 1`,
+          errorCount: sql`${apiKeyUsage.errorCount} + ${errorCount}`,
+          blockedCount: sql`${apiKeyUsage.blockedCount} + ${blockedCount}`,
+          ...(entry.blocked ? { lastBlockedIp } : {}),
+          updatedAt: new Date()
+        }
+      });
+  }
+  
+  /**
+   * Get the hourly usage rows of an API key
+   * @param {number} apiKeyId - API key ID
+   * @param {Date} since - Earliest bucket to include
+   * @returns {Promise<ApiKeyUsage[]>} Usage rows, oldest first
+   */
+  async getApiKeyUsage(apiKeyId: number, since: Date): Promise<ApiKeyUsage[]> {
+    return await db.select()
+      .from(apiKeyUsage)
+      .where(and(
+        eq(apiKeyUsage.apiKeyId, apiKeyId),
+        gte(apiKeyUsage.bucket, since)
+      ))
+      .orderBy(asc(apiKeyUsage.bucket));
+  }
+  
+  /**
+   * Count one request against a rate limit window
+   * @param {string} key - Limiter name and client identifier
+   * @param {number} windowMs - Window length in milliseconds
+   * @returns {Promise<RateLimitCounter>} Counter after the increment
+   */
+  async incrementRateLimit(key: string, windowMs: number): Promise<RateLimitCounter> {
+    const resetAt = new Date(Date.now() + windowMs);
+    const expired = sql`${rateLimitCounters.resetAt} <= now()`;
+    
+    const [counter] = await db.insert(rateLimitCounters)
+      .values({ key, hits: 1, resetAt })
+      .onConflictDoUpdate({
+        target: rateLimitCounters.key,
+        set: {
+          hits: sql`CASE WHEN ${expired} THEN 1 ELSE ${rateLimitCounters.hits} + 1 END`,
+          resetAt: sql`CASE WHEN ${expired} THEN excluded.reset_at ELSE ${rateLimitCounters.resetAt} END`
+        }
+      })
+      .returning();
+    return counter;
+  }
+  
+  /**
+   * Get the current rate limit counter of a client
+   * @param {string} key - Limiter name and client identifier
+   * @returns {Promise<RateLimitCounter | undefined>} Counter, if its window is still open
+   */
+  async getRateLimit(key: string): Promise<RateLimitCounter | undefined> {
+    const [counter] = await db.select()
+      .from(rateLimitCounters)
+      .where(and(
+        eq(rateLimitCounters.key, key),
+        sql`${rateLimitCounters.resetAt} > now()`
+      ));
+    return counter;
+  }
+  
+  /**
+   * Take back one counted request
+   * @param {string} key - Limiter name and client identifier
+   * @returns {Promise<void>}
+   */
+  async decrementRateLimit(key: string): Promise<void> {
+    await db.update(rateLimitCounters)
+      .set({ hits: sql`GREATEST(${rateLimitCounters.hits} - 1, 0)` })
+      .where(eq(rateLimitCounters.key, key));
+  }
+  
+  /**
+   * Reset a client's rate limit counter
+   * @param {string} key - Limiter name and client identifier
+   * @returns {Promise<void>}
+   */
+  async resetRateLimit(key: string): Promise<void> {
+    await db.delete(rateLimitCounters).where(eq(rateLimitCounters.key, key));
+  }
+  
+  /**
+   * Delete counters whose window has ended
+   * @returns {Promise<number>} Number of counters deleted
+   */
+  async deleteExpiredRateLimits(): Promise<number> {
+    const deleted = await db.delete(rateLimitCounters)
+      .where(sql`${rateLimitCounters.resetAt} <= now()`)
+      .returning({ key: rateLimitCounters.key });
+    return deleted.length;
+  }
+  
+  /**
+   * Record the nonce of a signed request, unless it was already used
+   * @param {number} apiKeyId - API key that signed the request
+   * @param {string} nonce - Request nonce
+   * @param {Date} expiresAt - When the request timestamp leaves the tolerance window
+   * @returns {Promise<boolean>} True if the nonce had not been used within its window
+   */
+  async claimRequestNonce(apiKeyId: number, nonce: string, expiresAt: Date): Promise<boolean> {
+    const claimed = await db.insert(requestSignatureNonces)
+      .values({ apiKeyId, nonce, expiresAt })
+      .onConflictDoUpdate({
+        target: [requestSignatureNonces.apiKeyId, requestSignatureNonces.nonce],
+        set: { expiresAt },
+        setWhere: sql`${requestSignatureNonces.expiresAt} <= now()`
+      })
+      .returning({ nonce: requestSignatureNonces.nonce });
+    return claimed.length > 0;
+  }
+  
+  /**
+   * Delete nonces whose requests are too old to be accepted anyway
+   * @returns {Promise<number>} Number of nonces deleted
+   */
+  async deleteExpiredRequestNonces(): Promise<number> {
+    const deleted = await db.delete(requestSignatureNonces)
+      .where(sql`${requestSignatureNonces.expiresAt} <= now()`)
+      .returning({ nonce: requestSignatureNonces.nonce });
+    return deleted.length;
+  }
+  
+  /**
+   * S3 Configuration Operations Implementation
+   */
+  
+  /**
+   * Get current S3 configuration from database
+   * @returns {Promise<S3Configuration | undefined>} S3 configuration or undefined
+   */
+  async getS3Configuration(): Promise<S3Configuration | undefined> {
+    const [config] = await db.select()
+      .from(s3Configuration)
+      .orderBy(desc(s3Configuration.updatedAt))
+      .limit(1);
+    return config;
+  }
+  
+  /**
+   * Create S3 configuration in database
+   * @param {InsertS3Configuration} config - S3 configuration data
+   * @returns {Promise<S3Configuration>} Created configuration
+   */
+  async createS3Configuration(config: InsertS3Configuration): Promise<S3Configuration> {
+    const [created] = await db.insert(s3Configuration).values(config).returning();
+    return created;
+  }
+  
+  /**
+   * Update S3 configuration in database
+   * @param {Partial<InsertS3Configuration>} config - S3 configuration updates
+   * @returns {Promise<S3Configuration>} Updated configuration
+   */
+  async updateS3Configuration(config: Partial<InsertS3Configuration>): Promise<S3Configuration> {
+    // Get the most recent configuration
+    const existingConfig = await this.getS3Configuration();
+    
+    if (!existingConfig) {
+      // If no config exists, create a new one
+      return await this.createS3Configuration(config as InsertS3Configuration);
+    }
+    
+    // Update existing config with new updated timestamp
+    const [updated] = await db.update(s3Configuration)
+      .set({
+        ...config,
+        updatedAt: new Date()
+      })
+      .where(eq(s3Configuration.id, existingConfig.id))
+      .returning();
+    
+    return updated;
+  }
+  
+  /**
+   * Security Settings Operations Implementation
+   */
+  
+  /**
+   * Get current security settings from database
+   * @returns {Promise<SecuritySettings | undefined>} Security settings or undefined
+   */
+  async getSecuritySettings(): Promise<SecuritySettings | undefined> {
+    const [settings] = await db.select()
+      .from(securitySettings)
+      .orderBy(desc(securitySettings.updatedAt))
+      .limit(1);
+    return settings;
+  }
+  
+  /**
+   * Update security settings, creating the row on first save
+   * @param {Partial<InsertSecuritySettings>} settings - Security policy updates
+   * @returns {Promise<SecuritySettings>} Updated settings
+   */
+  async updateSecuritySettings(settings: Partial<InsertSecuritySettings>): Promise<SecuritySettings> {
+    const existing = await this.getSecuritySettings();
+    
+    if (!existing) {
+      const [created] = await db.insert(securitySettings).values(settings).returning();
+      return created;
+    }
+    
+    const [updated] = await db.update(securitySettings)
+      .set({
+        ...settings,
+        updatedAt: new Date()
+      })
+      .where(eq(securitySettings.id, existing.id))
+      .returning();
+    
+    return updated;
+  }
+  
+  /**
+   * Encryption Job Operations Implementation
+   */
+  
+  async getRunningEncryptionJob(): Promise<EncryptionJob | undefined> {
+    const [job] = await db.select()
+      .from(encryptionJobs)
+      .where(eq(encryptionJobs.status, 'running'))
+      .limit(1);
+    return job;
+  }
+  
+  async getEncryptionJobs(limit: number): Promise<EncryptionJob[]> {
+    return await db.select()
+      .from(encryptionJobs)
+      .orderBy(desc(encryptionJobs.id))
+      .limit(limit);
+  }
+  
+  async createEncryptionJob(targetKeyId: string, startedBy: number): Promise<EncryptionJob> {
+    const [job] = await db.insert(encryptionJobs)
+      .values({ targetKeyId, startedBy })
+      .returning();
+    return job;
+  }
+  
+  async cancelEncryptionJob(id: number): Promise<EncryptionJob | undefined> {
+    const now = new Date();
+    const [job] = await db.update(encryptionJobs)
+      .set({ status: 'cancelled', completedAt: now, updatedAt: now })
+      .where(and(eq(encryptionJobs.id, id), eq(encryptionJobs.status, 'running')))
+      .returning();
+    return job;
+  }
+  
+  async advanceEncryptionJob(
+    jobId: number,
+    tables: EncryptedTable[],
+    batchSize: number,
+    reencryptRow: (table: EncryptedTable, row: Record<string, unknown>) => ReencryptedRow
+  ): Promise<EncryptionJob | null> {
+    return await db.transaction(async (tx) => {
+      const [job] = await tx.select()
+        .from(encryptionJobs)
+        .where(eq(encryptionJobs.id, jobId))
+        .for('update', { skipLocked: true });
+      if (!job) {
+        return null;
+      }
+      if (job.status !== 'running') {
+        return job;
+      }
+      
+      const index = Math.max(tables.findIndex(entry => entry.name === job.currentTable), 0);
+      const target = tables[index];
+      const lastId = job.currentTable === target.name ? job.lastId : 0;
+      
+      const rows = await tx.select()
+        .from(target.table)
+        .where(gt(target.table.id, lastId))
+        .orderBy(asc(target.table.id))
+        .limit(batchSize)
+        .for('update') as Array<Record<string, unknown> & { id: number }>;
+      
+      let reencrypted = 0;
+      let failed = 0;
+      let lastError = job.lastError;
+      for (const row of rows) {
+        const result = reencryptRow(target, row);
+        reencrypted += result.reencrypted;
+        failed += result.failed;
+        lastError = result.error ?? lastError;
+        if (Object.keys(result.changes).length > 0) {
+          await tx.update(target.table)
+            .set(result.changes)
+            .where(eq(target.table.id, row.id));
+        }
+      }
+      
+      const tableDone = rows.length < batchSize;
+      const next = tableDone ? tables[index + 1] : target;
+      const now = new Date();
+      const [updated] = await tx.update(encryptionJobs)
+        .set({
+          currentTable: next?.name ?? target.name,
+          lastId: tableDone ? 0 : rows[rows.length - 1].id,
+          scannedRows: sql`${encryptionJobs.scannedRows} + ${rows.length}`,
+          reencryptedValues: sql`${encryptionJobs.reencryptedValues} + ${reencrypted}`,
+          failedValues: sql`${encryptionJobs.failedValues} + ${failed}`,
+          lastError,
+          status: next ? 'running' : 'completed',
+          completedAt: next ? null : now,
+          updatedAt: now
+        })
+        .where(eq(encryptionJobs.id, jobId))
+        .returning();
+      return updated;
+    });
+  }
+  
+  /**
+   * Password History Operations Implementation
+   */
+  
+  /**
+   * Get a user's most recent password hashes
+   * @param {number} userId - User ID
+   * @param {number} limit - Maximum entries to return
+   * @returns {Promise<PasswordHistory[]>} History entries, newest first
+   */
+  async getPasswordHistory(userId: number, limit: number): Promise<PasswordHistory[]> {
+    return await db.select()
+      .from(passwordHistory)
+      .where(eq(passwordHistory.userId, userId))
+      .orderBy(desc(passwordHistory.createdAt), desc(passwordHistory.id))
+      .limit(limit);
+  }
+  
+  /**
+   * Record a password hash in the user's history
+   * @param {InsertPasswordHistory} entry - User ID and password hash
+   * @returns {Promise<PasswordHistory>} Created history entry
+   */
+  async addPasswordHistory(entry: InsertPasswordHistory): Promise<PasswordHistory> {
+    const [created] = await db.insert(passwordHistory).values(entry).returning();
+    return created;
+  }
+  
+  /**
+   * Delete all but the newest entries of a user's password history
+   * @param {number} userId - User ID
+   * @param {number} keep - Number of newest entries to keep
+   */
+  async trimPasswordHistory(userId: number, keep: number): Promise<void> {
+    const kept = await this.getPasswordHistory(userId, keep);
+    const conditions = [eq(passwordHistory.userId, userId)];
+    if (kept.length > 0) {
+      conditions.push(notInArray(passwordHistory.id, kept.map(entry => entry.id)));
+    }
+    await db.delete(passwordHistory).where(and(...conditions));
+  }
+  
+  /**
+   * Custom Role Operations Implementation
+   */
+  
+  /**
+   * Get all admin-defined roles
+   * @returns {Promise<Role[]>} Roles ordered by name
+   */
+  async getRoles(): Promise<Role[]> {
+    return await db.select().from(roles).orderBy(roles.name);
+  }
+  
+  /**
+   * Get a custom role by ID
+   * @param {number} id - Role ID
+   * @returns {Promise<Role | undefined>} Role or undefined if not found
+   */
+  async getRole(id: number): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.id, id));
+    return role || undefined;
+  }
+  
+  /**
+   * Get a custom role by the key stored in users.role
+   * @param {string} key - Role key
+   * @returns {Promise<Role | undefined>} Role or undefined if not found
+   */
+  async getRoleByKey(key: string): Promise<Role | undefined> {
+    const [role] = await db.select().from(roles).where(eq(roles.key, key));
+    return role || undefined;
+  }
+  
+  /**
+   * Create a custom role
+   * @param {InsertRole} role - Role data
+   * @returns {Promise<Role>} Created role
+   */
+  async createRole(role: InsertRole): Promise<Role> {
+    const [created] = await db.insert(roles).values(role).returning();
+    return created;
+  }
+  
+  /**
+   * Update a custom role's name, description or permissions
+   * @param {number} id - Role ID
+   * @param {Partial<InsertRole>} role - Fields to update
+   * @returns {Promise<Role>} Updated role
+   */
+  async updateRole(id: number, role: Partial<InsertRole>): Promise<Role> {
+    const [updated] = await db.update(roles)
+      .set({ ...role, updatedAt: new Date() })
+      .where(eq(roles.id, id))
+      .returning();
+    return updated;
+  }
+  
+  /**
+   * Delete a custom role
+   * @param {number} id - Role ID
+   */
+  async deleteRole(id: number): Promise<void> {
+    await db.delete(roles).where(eq(roles.id, id));
+  }
+  
+  /**
+   * Count users assigned a role
+   * @param {string} role - Role key
+   * @returns {Promise<number>} Number of users with the role
+   */
+  async countUsersWithRole(role: string): Promise<number> {
+    const [result] = await db.select({ count: count() }).from(users).where(eq(users.role, role));
+    return Number(result?.count || 0);
+  }
+  
+  /**
+   * User Location Operations Implementation
+   */
+  
+  /**
+   * Get the locations a user manages
+   * @param {number} userId - User ID
+   * @returns {Promise<number[]>} Assigned location IDs
+   */
+  async getUserLocationIds(userId: number): Promise<number[]> {
+    const rows = await db.select({ locationId: userLocations.locationId })
+      .from(userLocations)
+      .where(eq(userLocations.userId, userId));
+    return rows.map(row => row.locationId);
+  }
+  
+  /**
+   * Replace a user's location assignments
+   * @param {number} userId - User ID
+   * @param {number[]} locationIds - Locations the user manages
+   */
+  async setUserLocations(userId: number, locationIds: number[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(userLocations).where(eq(userLocations.userId, userId));
+      if (locationIds.length > 0) {
+        await tx.insert(userLocations).values(
+          Array.from(new Set(locationIds)).map(locationId => ({ userId, locationId }))
+        );
+      }
+    });
+  }
+  
+  /**
+   * Expand locations to include their sub-locations using the materialized path
+   * @param {number[]} locationIds - Root location IDs
+   * @returns {Promise<number[]>} Location IDs in the subtrees
+   */
+  async getLocationSubtreeIds(locationIds: number[]): Promise<number[]> {
+    if (locationIds.length === 0) {
+      return [];
+    }
+    
+    let roots = await db.select({ id: locations.id, path: locations.path })
+      .from(locations)
+      .where(inArray(locations.id, locationIds));
     
-    // Count documents expiring soon (30 days)
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + 30);
+    if (roots.some(root => !root.path)) {
+      await this.rebuildLocationPaths();
+      roots = await db.select({ id: locations.id, path: locations.path })
+        .from(locations)
+        .where(inArray(locations.id, locationIds));
+    }
     
-    const [expiringSoonDocs] = await db
-      .select({ count: count() })
-      .from(documents)
-      .where(and(
-        lte(documents.expirationDate, futureDate.toISOString().split('T')[0]),
-        sql`${documents.expirationDate} > CURRENT_DATE`
+    const rows = await db.select({ id: locations.id })
+      .from(locations)
+      .where(or(
+        inArray(locations.id, locationIds),
+        ...roots.map(root => like(locations.path, `${root.path}%`))
       ));
+    return rows.map(row => row.id);
+  }
+  
+  /**
+   * Recompute every location's materialized path ("/1/4/9/") from parentId
+   */
+  async rebuildLocationPaths(): Promise<void> {
+    const all = await db.select({ id: locations.id, parentId: locations.parentId, path: locations.path }).from(locations);
+    const byId = new Map(all.map(location => [location.id, location]));
+    const computed = new Map<number, string>();
     
-    return {
-      licenses: licenseDocs.count,
-      certifications: certDocs.count,
-      taxForms: taxDocs.count,
-      other: Math.max(0, otherCount),
-      expiringSoon: expiringSoonDocs.count
+    const pathOf = (id: number, seen: Set<number> = new Set()): string => {
+      const known = computed.get(id);
+      if (known) return known;
+      const location = byId.get(id);
+      // Guard against missing parents and accidental cycles
+      const parentPath = location?.parentId && byId.has(location.parentId) && !seen.has(location.parentId)
+        ? pathOf(location.parentId, seen.add(id))
+        : '/';
+      const path = `${parentPath}${id}/`;
+      computed.set(id, path);
+      return path;
     };
+    
+    for (const location of all) {
+      const path = pathOf(location.id);
+      if (location.path !== path) {
+        await db.update(locations).set({ path }).where(eq(locations.id, location.id));
+      }
+    }
   }
-
+  
   /**
-   * API Key Operations Implementation
+   * Passkey Operations Implementation
    */
   
   /**
-   * Create a new API key for a user
-   * @param {InsertApiKey} apiKey - API key data with hashed key
-   * @returns {Promise<ApiKey>} Created API key record
+   * Get a user's passkeys
+   * @param {number} userId - User ID
+   * @returns {Promise<Passkey[]>} Passkeys ordered by registration
    */
-  async createApiKey(apiKey: InsertApiKey): Promise<ApiKey> {
-    try {
-      // Ensure permissions is properly formatted for text[] field
-      // PostgreSQL text[] fields work directly with JavaScript arrays
-      const permissionsArray = Array.isArray(apiKey.permissions) ? apiKey.permissions : [];
-      
-      // For text[] fields, Drizzle can handle JavaScript arrays directly
-      // No need for raw SQL casting - use the standard insert method
-      const [created] = await db.insert(apiKeys).values({
-        name: apiKey.name,
-        keyHash: apiKey.keyHash,
-        keyPrefix: apiKey.keyPrefix,
-        userId: apiKey.userId,
-        permissions: permissionsArray,
-        expiresAt: apiKey.expiresAt,
-        environment: apiKey.environment,
-        rateLimitPerHour: apiKey.rateLimitPerHour,
-        metadata: apiKey.metadata
-      }).returning();
-      
-      return created;
-    } catch (error) {
-      console.error('Error creating API key:', error);
-      throw error;
-    }
+  async getUserPasskeys(userId: number): Promise<Passkey[]> {
+    return await db.select()
+      .from(passkeys)
+      .where(eq(passkeys.userId, userId))
+      .orderBy(asc(passkeys.createdAt));
   }
   
   /**
-   * Get API key by ID
-   * @param {number} id - API key ID
-   * @returns {Promise<ApiKey | undefined>} API key if found
+   * Get a passkey by ID
+   * @param {number} id - Passkey ID
+   * @returns {Promise<Passkey | undefined>} Passkey if found
    */
-  async getApiKey(id: number): Promise<ApiKey | undefined> {
-    const [key] = await db.select().from(apiKeys).where(eq(apiKeys.id, id));
-    return key;
+  async getPasskey(id: number): Promise<Passkey | undefined> {
+    const [passkey] = await db.select().from(passkeys).where(eq(passkeys.id, id));
+    return passkey || undefined;
   }
   
   /**
-   * Get API key by hash (for authentication)
-   * @param {string} keyHash - Hashed API key
-   * @returns {Promise<ApiKey | undefined>} API key if found
+   * Find a passkey by credential ID
+   * @param {string} credentialId - Base64url credential ID
+   * @returns {Promise<Passkey | undefined>} Passkey if found
    */
-  async getApiKeyByHash(keyHash: string): Promise<ApiKey | undefined> {
-    const [key] = await db.select()
-      .from(apiKeys)
-      .where(and(
-        eq(apiKeys.keyHash, keyHash),
-        sql`${apiKeys.revokedAt} IS NULL`
-      ));
-    return key;
+  async getPasskeyByCredentialId(credentialId: string): Promise<Passkey | undefined> {
+    const [passkey] = await db.select().from(passkeys).where(eq(passkeys.credentialId, credentialId));
+    return passkey || undefined;
   }
   
   /**
-   * Get API key by prefix for identification
-   * @param {string} prefix - First 8 characters of the API key
-   * @returns {Promise<ApiKey | undefined>} API key if found
+   * Store a passkey
+   * @param {InsertPasskey} passkey - Verified credential data
+   * @returns {Promise<Passkey>} Created passkey
    */
-  async getApiKeyByPrefix(prefix: string): Promise<ApiKey | undefined> {
-    const [key] = await db.select()
-      .from(apiKeys)
-      .where(eq(apiKeys.keyPrefix, prefix));
-    return key;
+  async createPasskey(passkey: InsertPasskey): Promise<Passkey> {
+    const [created] = await db.insert(passkeys).values(passkey).returning();
+    return created;
   }
   
   /**
-   * Get all API keys for a user
-   * @param {number} userId - User ID
-   * @returns {Promise<ApiKey[]>} Array of user's API keys
+   * Update a passkey
+   * @param {number} id - Passkey ID
+   * @param {Partial<Passkey>} updates - Fields to update
+   * @returns {Promise<Passkey>} Updated passkey
    */
-  async getUserApiKeys(userId: number): Promise<ApiKey[]> {
-    return await db.select()
-      .from(apiKeys)
-      .where(eq(apiKeys.userId, userId))
-      .orderBy(desc(apiKeys.createdAt));
+  async updatePasskey(id: number, updates: Partial<Pick<Passkey, 'counter' | 'lastUsedAt' | 'name'>>): Promise<Passkey> {
+    const [updated] = await db.update(passkeys).set(updates).where(eq(passkeys.id, id)).returning();
+    return updated;
   }
   
   /**
-   * Update an API key (e.g., lastUsedAt)
-   * @param {number} id - API key ID
-   * @param {Partial<ApiKey>} updates - Fields to update
-   * @returns {Promise<ApiKey>} Updated API key
+   * Delete a passkey
+   * @param {number} id - Passkey ID
    */
-  async updateApiKey(id: number, updates: Partial<ApiKey>): Promise<ApiKey> {
-    const [updated] = await db.update(apiKeys)
-      .set(updates)
-      .where(eq(apiKeys.id, id))
-      .returning();
-    return updated;
+  async deletePasskey(id: number): Promise<void> {
+    await db.delete(passkeys).where(eq(passkeys.id, id));
   }
   
   /**
-   * Revoke an API key (soft delete)
-   * @param {number} id - API key ID
+   * Webhook Operations Implementation
    */
-  async revokeApiKey(id: number): Promise<void> {
-    await db.update(apiKeys)
-      .set({ revokedAt: new Date() })
-      .where(eq(apiKeys.id, id));
+  
+  /**
+   * Get all webhook endpoints
+   * @returns {Promise<WebhookEndpoint[]>} Endpoints, newest first
+   */
+  async getWebhookEndpoints(): Promise<WebhookEndpoint[]> {
+    return await db.select().from(webhookEndpoints).orderBy(desc(webhookEndpoints.createdAt));
   }
   
   /**
-   * Delete an API key (hard delete)
-   * @param {number} id - API key ID
+   * Get a webhook endpoint by ID
+   * @param {number} id - Endpoint ID
+   * @returns {Promise<WebhookEndpoint | undefined>} Endpoint if found
    */
-  async deleteApiKey(id: number): Promise<void> {
-    await db.delete(apiKeys).where(eq(apiKeys.id, id));
+  async getWebhookEndpoint(id: number): Promise<WebhookEndpoint | undefined> {
+    const [endpoint] = await db.select().from(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+    return endpoint || undefined;
   }
   
   /**
-   * Get all active API keys
-   * @returns {Promise<ApiKey[]>} Array of active API keys
+   * Get active endpoints subscribed to an event type
+   * @param {string} eventType - Event type
+   * @returns {Promise<WebhookEndpoint[]>} Subscribed endpoints
    */
-  async getActiveApiKeys(): Promise<ApiKey[]> {
+  async getWebhookEndpointsForEvent(eventType: string): Promise<WebhookEndpoint[]> {
     return await db.select()
-      .from(apiKeys)
+      .from(webhookEndpoints)
       .where(and(
-        sql`${apiKeys.revokedAt} IS NULL`,
-        sql`${apiKeys.expiresAt} > NOW()`
-      ))
-      .orderBy(desc(apiKeys.createdAt));
+        eq(webhookEndpoints.active, true),
+        sql`(${eventType} = ANY(${webhookEndpoints.events}) OR '*' = ANY(${webhookEndpoints.events}))`
+      ));
   }
   
   /**
-   * Get API keys expiring within specified days
-   * @param {number} days - Number of days to look ahead
-   * @returns {Promise<ApiKey[]>} Array of expiring API keys
+   * Create a webhook endpoint
+   * @param {object} endpoint - Endpoint fields with encrypted secret
+   * @returns {Promise<WebhookEndpoint>} Created endpoint
    */
-  async getExpiringApiKeys(days: number): Promise<ApiKey[]> {
-    const futureDate = new Date();
-    futureDate.setDate(futureDate.getDate() + days);
-    
-    return await db.select()
-      .from(apiKeys)
-      .where(and(
-        sql`${apiKeys.revokedAt} IS NULL`,
-        lte(apiKeys.expiresAt, futureDate),
-        sql`${apiKeys.expiresAt} > NOW()`
-      ))
-      .orderBy(asc(apiKeys.expiresAt));
+  async createWebhookEndpoint(endpoint: InsertWebhookEndpoint & { secret: string; createdBy: number | null }): Promise<WebhookEndpoint> {
+    const [created] = await db.insert(webhookEndpoints).values(endpoint).returning();
+    return created;
   }
   
   /**
-   * Create API key rotation record
-   * @param {InsertApiKeyRotation} rotation - Rotation data
-   * @returns {Promise<ApiKeyRotation>} Created rotation record
+   * Update a webhook endpoint
+   * @param {number} id - Endpoint ID
+   * @param {object} updates - Fields to update
+   * @returns {Promise<WebhookEndpoint>} Updated endpoint
    */
-  async createApiKeyRotation(rotation: InsertApiKeyRotation): Promise<ApiKeyRotation> {
-    const [created] = await db.insert(apiKeyRotations).values(rotation).returning();
+  async updateWebhookEndpoint(id: number, updates: Partial<InsertWebhookEndpoint> & { secret?: string }): Promise<WebhookEndpoint> {
+    const [updated] = await db.update(webhookEndpoints)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(webhookEndpoints.id, id))
+      .returning();
+    return updated;
+  }
+  
+  /**
+   * Delete a webhook endpoint (deliveries cascade)
+   * @param {number} id - Endpoint ID
+   */
+  async deleteWebhookEndpoint(id: number): Promise<void> {
+    await db.delete(webhookEndpoints).where(eq(webhookEndpoints.id, id));
+  }
+  
+  /**
+   * Queue a webhook delivery
+   * @param {InsertWebhookDelivery} delivery - Delivery to queue
+   * @returns {Promise<WebhookDelivery>} Queued delivery
+   */
+  async createWebhookDelivery(delivery: InsertWebhookDelivery): Promise<WebhookDelivery> {
+    const [created] = await db.insert(webhookDeliveries).values(delivery).returning();
     return created;
   }
   
   /**
-   * Get rotation history for an API key
-   * @param {number} apiKeyId - API key ID
-   * @returns {Promise<ApiKeyRotation[]>} Array of rotation records
+   * Get a webhook delivery by ID
+   * @param {number} id - Delivery ID
+   * @returns {Promise<WebhookDelivery | undefined>} Delivery if found
    */
-  async getApiKeyRotations(apiKeyId: number): Promise<ApiKeyRotation[]> {
-    return await db.select()
-      .from(apiKeyRotations)
-      .where(eq(apiKeyRotations.apiKeyId, apiKeyId))
-      .orderBy(desc(apiKeyRotations.rotatedAt));
+  async getWebhookDelivery(id: number): Promise<WebhookDelivery | undefined> {
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, id));
+    return delivery || undefined;
   }
   
   /**
-   * S3 Configuration Operations Implementation
+   * Update a webhook delivery
+   * @param {number} id - Delivery ID
+   * @param {Partial<InsertWebhookDelivery>} updates - Fields to update
+   * @returns {Promise<WebhookDelivery>} Updated delivery
    */
+  async updateWebhookDelivery(id: number, updates: Partial<InsertWebhookDelivery>): Promise<WebhookDelivery> {
+    const [updated] = await db.update(webhookDeliveries)
+      .set(updates)
+      .where(eq(webhookDeliveries.id, id))
+      .returning();
+    return updated;
+  }
   
   /**
-   * Get current S3 configuration from database
-   * @returns {Promise<S3Configuration | undefined>} S3 configuration or undefined
+   * Get the delivery log with optional filters
+   * @param {object} filters - Endpoint, status and pagination
+   * @returns {Promise<object>} Deliveries (newest first) and total count
    */
-  async getS3Configuration(): Promise<S3Configuration | undefined> {
-    const [config] = await db.select()
-      .from(s3Configuration)
-      .orderBy(desc(s3Configuration.updatedAt))
-      .limit(1);
-    return config;
+  async getWebhookDeliveries(filters: {
+    endpointId?: number;
+    status?: string;
+    limit?: number;
+    offset?: number;
+  }): Promise<{ deliveries: WebhookDelivery[]; total: number }> {
+    const conditions = [];
+    if (filters.endpointId) {
+      conditions.push(eq(webhookDeliveries.endpointId, filters.endpointId));
+    }
+    if (filters.status) {
+      conditions.push(eq(webhookDeliveries.status, filters.status));
+    }
+    const where = conditions.length > 0 ? and(...conditions) : undefined;
+    
+    const [totalResult] = await db.select({ count: count() }).from(webhookDeliveries).where(where);
+    const deliveries = await db.select()
+      .from(webhookDeliveries)
+      .where(where)
+      .orderBy(desc(webhookDeliveries.createdAt), desc(webhookDeliveries.id))
+      .limit(filters.limit || 50)
+      .offset(filters.offset || 0);
+    
+    return { deliveries, total: totalResult.count };
   }
   
   /**
-   * Create S3 configuration in database
-   * @param {InsertS3Configuration} config - S3 configuration data
-   * @returns {Promise<S3Configuration>} Created configuration
+   * Get deliveries whose next attempt is due
+   * @param {Date} now - Current time
+   * @param {number} limit - Maximum deliveries to return
+   * @returns {Promise<WebhookDelivery[]>} Due deliveries, oldest first
    */
-  async createS3Configuration(config: InsertS3Configuration): Promise<S3Configuration> {
-    const [created] = await db.insert(s3Configuration).values(config).returning();
-    return created;
+  async getDueWebhookDeliveries(now: Date, limit: number): Promise<WebhookDelivery[]> {
+    return await db.select()
+      .from(webhookDeliveries)
+      .where(and(
+        inArray(webhookDeliveries.status, ['pending', 'retrying']),
+        lte(webhookDeliveries.nextAttemptAt, now)
+      ))
+      .orderBy(asc(webhookDeliveries.nextAttemptAt))
+      .limit(limit);
   }
   
   /**
-   * Update S3 configuration in database
-   * @param {Partial<InsertS3Configuration>} config - S3 configuration updates
-   * @returns {Promise<S3Configuration>} Updated configuration
+   * Count deliveries per endpoint and status
+   * @returns {Promise<Array<{ endpointId: number; status: string; count: number }>>} Counts
    */
-  async updateS3Configuration(config: Partial<InsertS3Configuration>): Promise<S3Configuration> {
-    // Get the most recent configuration
-    const existingConfig = await this.getS3Configuration();
+  async getWebhookDeliveryCounts(): Promise<Array<{ endpointId: number; status: string; count: number }>> {
+    return await db.select({
+      endpointId: webhookDeliveries.endpointId,
+      status: webhookDeliveries.status,
+      count: count()
+    })
+      .from(webhookDeliveries)
+      .groupBy(webhookDeliveries.endpointId, webhookDeliveries.status);
+  }
+  
+  /**
+   * User Session Operations Implementation
+   */
+  
+  /**
+   * Get unexpired sessions for a user from the connect-pg-simple table
+   * @param {number} userId - User ID
+   * @returns {Promise<SessionRecord[]>} Session rows
+   */
+  async getUserSessions(userId: number): Promise<SessionRecord[]> {
+    return await db.select()
+      .from(sessionTable)
+      .where(and(
+        sql`${sessionTable.sess}->'passport'->>'user' = ${String(userId)}`,
+        gte(sessionTable.expire, new Date())
+      ))
+      .orderBy(desc(sessionTable.expire));
+  }
+  
+  /**
+   * Delete a user's sessions
+   * @param {number} userId - User ID
+   * @param {object} [options] - sids to delete (default all) and a sid to keep
+   * @returns {Promise<number>} Number of sessions deleted
+   */
+  async deleteUserSessions(userId: number, options: { sids?: string[]; exceptSid?: string } = {}): Promise<number> {
+    const conditions = [sql`${sessionTable.sess}->'passport'->>'user' = ${String(userId)}`];
     
-    if (!existingConfig) {
-      // If no config exists, create a new one
-      return await this.createS3Configuration(config as InsertS3Configuration);
+    if (options.sids) {
+      if (options.sids.length === 0) return 0;
+      conditions.push(inArray(sessionTable.sid, options.sids));
+    }
+    if (options.exceptSid) {
+      conditions.push(ne(sessionTable.sid, options.exceptSid));
     }
     
-    // Update existing config with new updated timestamp
-    const [updated] = await db.update(s3Configuration)
-      .set({
-        ...config,
-        updatedAt: new Date()
-      })
-      .where(eq(s3Configuration.id, existingConfig.id))
-      .returning();
+    const deleted = await db.delete(sessionTable)
+      .where(and(...conditions))
+      .returning({ sid: sessionTable.sid });
     
-    return updated;
+    return deleted.length;
   }
   
   /**
@@ -3201,17 +5853,38 @@ export class DatabaseStorage implements IStorage {
     const [newLocation] = await db.insert(locations)
       .values(location)
       .returning();
-    return newLocation;
+    
+    // Materialized path ("/<root id>/.../<id>/") used for sub-location queries
+    const parent = newLocation.parentId ? await this.getLocation(newLocation.parentId) : undefined;
+    if (parent && !parent.path) {
+      await this.rebuildLocationPaths();
+      return (await this.getLocation(newLocation.id))!;
+    }
+    
+    const [withPath] = await db.update(locations)
+      .set({ path: `${parent?.path || '/'}${newLocation.id}/` })
+      .where(eq(locations.id, newLocation.id))
+      .returning();
+    return withPath;
   }
   
   async updateLocation(id: number, location: Partial<InsertLocation>): Promise<Location> {
+    const [existing] = await db.select({ parentId: locations.parentId }).from(locations).where(eq(locations.id, id));
+    const { path, ...changes } = location;
+    
     const [updatedLocation] = await db.update(locations)
       .set({
-        ...location,
+        ...changes,
         updatedAt: new Date()
       })
       .where(eq(locations.id, id))
       .returning();
+    
+    // Moving a location moves its whole subtree
+    if (existing && 'parentId' in location && (location.parentId ?? null) !== existing.parentId) {
+      await this.rebuildLocationPaths();
+      return (await this.getLocation(id))!;
+    }
     return updatedLocation;
   }
   
@@ -3453,6 +6126,7 @@ export class DatabaseStorage implements IStorage {
     locationId?: number;
     licenseTypeId?: number;
     responsiblePersonId?: number;
+    locationIds?: number[];
   }): Promise<{ licenses: ClinicLicense[]; total: number }> {
     const limit = options?.limit || 10;
     const offset = options?.offset || 0;
@@ -3486,6 +6160,10 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(clinicLicenses.locationId, options.locationId));
     }
     
+    if (options?.locationIds) {
+      conditions.push(inArray(clinicLicenses.locationId, options.locationIds));
+    }
+    
     if (options?.licenseTypeId) {
       conditions.push(eq(clinicLicenses.licenseTypeId, options.licenseTypeId));
     }
@@ -3592,7 +6270,7 @@ export class DatabaseStorage implements IStorage {
       .orderBy(clinicLicenses.expirationDate);
   }
   
-  async getExpiringClinicLicenses(days: number): Promise<any[]> {
+  async getExpiringClinicLicenses(days: number, locationIds?: number[]): Promise<any[]> {
     const futureDate = new Date();
     futureDate.setDate(futureDate.getDate() + days);
     
@@ -3622,7 +6300,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         lte(clinicLicenses.expirationDate, futureDate.toISOString().split('T')[0]),
         sql`${clinicLicenses.status} != 'expired'`,
-        sql`${locations.status} != 'deleted'`
+        sql`${locations.status} != 'deleted'`,
+        locationIds ? inArray(clinicLicenses.locationId, locationIds) : undefined
       ))
       .orderBy(clinicLicenses.expirationDate);
     
@@ -3660,7 +6339,7 @@ export class DatabaseStorage implements IStorage {
     return renewedLicense;
   }
   
-  async getClinicLicensesComplianceStatus(): Promise<{
+  async getClinicLicensesComplianceStatus(locationIds?: number[]): Promise<{
     compliant: number;
     warning: number;
     nonCompliant: number;
@@ -3675,7 +6354,10 @@ export class DatabaseStorage implements IStorage {
     })
     .from(clinicLicenses)
     .innerJoin(locations, eq(clinicLicenses.locationId, locations.id))
-    .where(sql`${locations.status} != 'deleted'`)
+    .where(and(
+      sql`${locations.status} != 'deleted'`,
+      locationIds ? inArray(clinicLicenses.locationId, locationIds) : undefined
+    ))
     .groupBy(clinicLicenses.status, clinicLicenses.complianceStatus);
     
     const summary = {
@@ -3709,6 +6391,7 @@ export class DatabaseStorage implements IStorage {
     clinicLicenseId?: number;
     locationId?: number;
     status?: string;
+    locationIds?: number[];
   }): Promise<{ documents: ComplianceDocument[]; total: number }> {
     const limit = options?.limit || 10;
     const offset = options?.offset || 0;
@@ -3742,6 +6425,10 @@ export class DatabaseStorage implements IStorage {
       conditions.push(eq(complianceDocuments.status, options.status));
     }
     
+    if (options?.locationIds) {
+      conditions.push(complianceDocumentLocationCondition(options.locationIds));
+    }
+    
     const whereCondition = conditions.length > 0 ? and(...conditions) : undefined;
     
     const [totalResult] = whereCondition 
@@ -3779,7 +6466,7 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(complianceDocuments.versionNumber));
   }
   
-  async getComplianceDocumentStats(): Promise<{
+  async getComplianceDocumentStats(locationIds?: number[]): Promise<{
     total: number;
     sops: number;
     renewalGuides: number;
@@ -3788,26 +6475,29 @@ export class DatabaseStorage implements IStorage {
     expiring: number;
     verified: number;
   }> {
+    const scope = locationIds ? complianceDocumentLocationCondition(locationIds) : undefined;
+    
     // Get total count
     const [totalResult] = await db.select({ count: count() })
-      .from(complianceDocuments);
+      .from(complianceDocuments)
+      .where(scope);
     
     // Get counts by document type
     const [sopsResult] = await db.select({ count: count() })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.documentType, 'sop'));
+      .where(and(eq(complianceDocuments.documentType, 'sop'), scope));
     
     const [renewalGuidesResult] = await db.select({ count: count() })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.documentType, 'renewal_application'));
+      .where(and(eq(complianceDocuments.documentType, 'renewal_application'), scope));
     
     const [certificatesResult] = await db.select({ count: count() })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.documentType, 'license_certificate'));
+      .where(and(eq(complianceDocuments.documentType, 'license_certificate'), scope));
     
     const [reportsResult] = await db.select({ count: count() })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.documentType, 'inspection_report'));
+      .where(and(eq(complianceDocuments.documentType, 'inspection_report'), scope));
     
     // Get expiring documents (within 90 days)
     const today = new Date();
@@ -3818,14 +6508,15 @@ export class DatabaseStorage implements IStorage {
         and(
           sql`${complianceDocuments.expirationDate} IS NOT NULL`,
           lte(complianceDocuments.expirationDate, in90Days.toISOString().split('T')[0]),
-          gte(complianceDocuments.expirationDate, today.toISOString().split('T')[0])
+          gte(complianceDocuments.expirationDate, today.toISOString().split('T')[0]),
+          scope
         )
       );
     
     // Get verified documents
     const [verifiedResult] = await db.select({ count: count() })
       .from(complianceDocuments)
-      .where(eq(complianceDocuments.isVerified, true));
+      .where(and(eq(complianceDocuments.isVerified, true), scope));
     
     return {
       total: totalResult?.count || 0,
@@ -3842,7 +6533,7 @@ export class DatabaseStorage implements IStorage {
   // COMPLIANCE DASHBOARD & REPORTING IMPLEMENTATION
   // =====================
   
-  async getComplianceDashboard(): Promise<{
+  async getComplianceDashboard(locationIds?: number[]): Promise<{
     totalLocations: number;
     activeLocations: number;
     totalLicenses: number;
@@ -3854,11 +6545,16 @@ export class DatabaseStorage implements IStorage {
     documentsCount: number;
     nonCompliantCount: number;
   }> {
+    const licenseScope = locationIds ? inArray(clinicLicenses.locationId, locationIds) : undefined;
+    
     const [locationStats] = await db.select({
       total: count(),
       active: sql<number>`sum(case when ${locations.status} = 'active' then 1 else 0 end)`
     }).from(locations)
-    .where(sql`${locations.status} != 'deleted'`);
+    .where(and(
+      sql`${locations.status} != 'deleted'`,
+      locationIds ? inArray(locations.id, locationIds) : undefined
+    ));
     
     // Join with locations to exclude licenses from deleted locations
     const [licenseStats] = await db.select({
@@ -3868,11 +6564,12 @@ export class DatabaseStorage implements IStorage {
       nonCompliant: sql<number>`sum(case when ${clinicLicenses.complianceStatus} = 'non_compliant' then 1 else 0 end)`
     }).from(clinicLicenses)
     .innerJoin(locations, eq(clinicLicenses.locationId, locations.id))
-    .where(sql`${locations.status} != 'deleted'`);
+    .where(and(sql`${locations.status} != 'deleted'`, licenseScope));
     
     const [documentStats] = await db.select({
       total: count()
-    }).from(complianceDocuments);
+    }).from(complianceDocuments)
+    .where(locationIds ? complianceDocumentLocationCondition(locationIds) : undefined);
     
     // Get expiring licenses counts - exclude licenses from deleted locations
     const today = new Date();
@@ -3886,7 +6583,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         lte(clinicLicenses.expirationDate, in30Days.toISOString()),
         sql`${clinicLicenses.status} != 'expired'`,
-        sql`${locations.status} != 'deleted'`
+        sql`${locations.status} != 'deleted'`,
+        licenseScope
       ));
     
     const [expiring60] = await db.select({ count: count() })
@@ -3895,7 +6593,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         lte(clinicLicenses.expirationDate, in60Days.toISOString()),
         sql`${clinicLicenses.status} != 'expired'`,
-        sql`${locations.status} != 'deleted'`
+        sql`${locations.status} != 'deleted'`,
+        licenseScope
       ));
     
     const [expiring90] = await db.select({ count: count() })
@@ -3904,7 +6603,8 @@ export class DatabaseStorage implements IStorage {
       .where(and(
         lte(clinicLicenses.expirationDate, in90Days.toISOString()),
         sql`${clinicLicenses.status} != 'expired'`,
-        sql`${locations.status} != 'deleted'`
+        sql`${locations.status} != 'deleted'`,
+        licenseScope
       ));
     
     // Handle edge case where there are no licenses (avoid division by zero)
@@ -3922,7 +6622,7 @@ export class DatabaseStorage implements IStorage {
     };
   }
   
-  async getComplianceSummaryByLocation(): Promise<Array<{
+  async getComplianceSummaryByLocation(locationIds?: number[]): Promise<Array<{
     locationId: number;
     locationName: string;
     totalLicenses: number;
@@ -3942,7 +6642,10 @@ export class DatabaseStorage implements IStorage {
     })
     .from(locations)
     .leftJoin(clinicLicenses, eq(locations.id, clinicLicenses.locationId))
-    .where(sql`${locations.status} != 'deleted'`)
+    .where(and(
+      sql`${locations.status} != 'deleted'`,
+      locationIds ? inArray(locations.id, locationIds) : undefined
+    ))
     .groupBy(locations.id, locations.name)
     .orderBy(locations.name);
     
@@ -3959,7 +6662,7 @@ export class DatabaseStorage implements IStorage {
     }));
   }
   
-  async getComplianceAlerts(): Promise<Array<{
+  async getComplianceAlerts(locationIds?: number[]): Promise<Array<{
     id: number;
     type: string;
     severity: string;
@@ -3977,6 +6680,7 @@ export class DatabaseStorage implements IStorage {
       entityType: string;
       dueDate?: Date;
     }> = [];
+    const licenseScope = locationIds ? inArray(clinicLicenses.locationId, locationIds) : undefined;
     
     // Get expired licenses - exclude licenses from deleted locations
     const expiredLicenses = await db.select({
@@ -3989,7 +6693,8 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(locations, eq(clinicLicenses.locationId, locations.id))
       .where(and(
         eq(clinicLicenses.status, 'expired'),
-        sql`${locations.status} != 'deleted'`
+        sql`${locations.status} != 'deleted'`,
+        licenseScope
       ));
     
     expiredLicenses.forEach(license => {
@@ -4005,7 +6710,7 @@ export class DatabaseStorage implements IStorage {
     });
     
     // Get expiring licenses (within 30 days)
-    const expiringLicenses = await this.getExpiringClinicLicenses(30);
+    const expiringLicenses = await this.getExpiringClinicLicenses(30, locationIds);
     
     expiringLicenses.forEach(license => {
       const daysUntilExpiry = Math.floor((new Date(license.expirationDate).getTime() - new Date().getTime()) / (1000 * 60 * 60 * 24));
@@ -4031,7 +6736,8 @@ export class DatabaseStorage implements IStorage {
       .innerJoin(locations, eq(clinicLicenses.locationId, locations.id))
       .where(and(
         sql`${locations.status} != 'deleted'`,
-        sql`${clinicLicenses.status} != 'expired'`
+        sql`${clinicLicenses.status} != 'expired'`,
+        licenseScope
       ));
     
     // Get all licenses that have documents
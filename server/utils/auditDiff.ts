@@ -0,0 +1,124 @@
+/**
+ * @fileoverview Field-level diffs of audit rows
+ *
+ * Audit rows keep whole before/after snapshots in oldData and newData. These
+ * helpers turn the two snapshots into a list of changed fields for the audit
+ * viewer, and mask sensitive values so neither the snapshots nor the diff
+ * reveal SSNs, dates of birth, credentials or secrets to whoever reviews the
+ * log. Masked fields still show up as changed.
+ *
+ * @module auditDiff
+ */
+
+import { canonicalJson } from "./auditHash";
+import type { AuditFieldChange } from "@shared/schema";
+
+/**
+ * Replacement shown for masked values
+ */
+export const MASKED_VALUE = "••••••";
+
+/**
+ * Fields whose values are never shown in the audit viewer
+ */
+const MASKED_FIELDS = new Set([
+  "ssn",
+  "dateOfBirth",
+  "driversLicenseNumber",
+  "deaNumber",
+  "medicaidNumber",
+  "medicarePtanNumber",
+  "caqhProviderId",
+  "caqhLoginId",
+  "nppesLoginId",
+  "mfaRecoveryCodes",
+  "secretAccessKey",
+]);
+
+/**
+ * Field names of credentials and secrets (caqhPassword, passwordHash,
+ * passwordResetToken, mfaSecret, keyHash, a webhook's secret, ...)
+ */
+const MASKED_FIELD_PATTERN = /(Password|Secret|Token|Hash)$|^(password|secret|token)$/;
+
+/**
+ * Whether a field's value must be masked
+ * @param {string} field - Field name
+ * @returns {boolean} True for sensitive fields
+ */
+export function isMaskedField(field: string): boolean {
+  return MASKED_FIELDS.has(field) || MASKED_FIELD_PATTERN.test(field);
+}
+
+/**
+ * Mask sensitive values at any depth of an audit snapshot
+ *
+ * @param {unknown} data - oldData or newData
+ * @returns {unknown} Copy with sensitive values replaced; blank values are kept so "was empty" stays visible
+ */
+export function maskAuditData(data: unknown): unknown {
+  if (Array.isArray(data)) {
+    return data.map(maskAuditData);
+  }
+  if (data && typeof data === "object" && !(data instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(data as Record<string, unknown>).map(([key, value]) => [
+        key,
+        isMaskedField(key) && value !== null && value !== undefined && value !== ""
+          ? MASKED_VALUE
+          : maskAuditData(value),
+      ])
+    );
+  }
+  return data;
+}
+
+/**
+ * List the top-level fields that differ between two audit snapshots
+ *
+ * @param {unknown} oldData - Snapshot before the change (null for CREATE)
+ * @param {unknown} newData - Snapshot after the change (null for DELETE)
+ * @returns {AuditFieldChange[]} Changed fields in name order, sensitive values masked
+ *
+ * @example
+ * diffAuditData({ status: 'inactive', ssn: 'a' }, { status: 'active', ssn: 'b' });
+ * // [{ field: 'ssn', change: 'changed', oldValue: '••••••', newValue: '••••••', masked: true },
+ * //  { field: 'status', change: 'changed', oldValue: 'inactive', newValue: 'active', masked: false }]
+ */
+export function diffAuditData(oldData: unknown, newData: unknown): AuditFieldChange[] {
+  const before = asRecord(oldData);
+  const after = asRecord(newData);
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+  const changes: AuditFieldChange[] = [];
+
+  for (const field of fields) {
+    const inBefore = field in before;
+    const inAfter = field in after;
+    if (inBefore && inAfter && canonicalJson(before[field]) === canonicalJson(after[field])) {
+      continue;
+    }
+
+    const masked = isMaskedField(field);
+    const show = (value: unknown) =>
+      masked && value !== null && value !== undefined && value !== "" ? MASKED_VALUE : maskAuditData(value);
+
+    changes.push({
+      field,
+      change: !inBefore ? "added" : !inAfter ? "removed" : "changed",
+      oldValue: inBefore ? show(before[field]) : null,
+      newValue: inAfter ? show(after[field]) : null,
+      masked,
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Treat a snapshot as a plain object
+ * @param {unknown} data - Snapshot
+ * @returns {Record<string, unknown>} The snapshot, or an empty object for null and non-objects
+ */
+function asRecord(data: unknown): Record<string, unknown> {
+  return data && typeof data === "object" && !Array.isArray(data) ? (data as Record<string, unknown>) : {};
+}
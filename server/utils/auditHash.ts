@@ -0,0 +1,120 @@
+/**
+ * @fileoverview Hash chain helpers for the audit log
+ *
+ * Every audit row stores a SHA-256 hash over its own content and the hash of
+ * the row written before it. Editing, deleting or reordering a row changes a
+ * hash that later rows depend on, so any change to history shows up as a
+ * break in the chain.
+ *
+ * Row content is hashed in a canonical form (JSON with sorted keys, as stored
+ * in jsonb), so the hash computed when a row is written matches the one
+ * recomputed from the database later.
+ *
+ * @module auditHash
+ * @requires crypto
+ */
+
+import crypto from "crypto";
+
+/**
+ * previousHash of the first row in the chain
+ */
+export const AUDIT_CHAIN_GENESIS_HASH = "0".repeat(64);
+
+/**
+ * Advisory lock held while appending to the chain, so concurrent writers
+ * cannot both link to the same previous row
+ */
+export const AUDIT_CHAIN_LOCK_ID = 7_305_001;
+
+/**
+ * Audit fields covered by the hash
+ */
+export interface HashableAudit {
+  tableName: string;
+  recordId: number;
+  action: string;
+  changedBy?: number | null;
+  impersonatedBy?: number | null;
+  changedAt: Date | string | null;
+  oldData?: unknown;
+  newData?: unknown;
+}
+
+/**
+ * Serialize a value as JSON with object keys sorted at every level
+ *
+ * @param {unknown} value - Any JSON-compatible value
+ * @returns {string} Canonical JSON
+ *
+ * @description
+ * The value is first round-tripped through JSON so dates, undefined fields
+ * and class instances end up exactly as Postgres stores them in jsonb.
+ */
+export function canonicalJson(value: unknown): string {
+  const normalize = (input: unknown): unknown => {
+    if (Array.isArray(input)) {
+      return input.map(normalize);
+    }
+    if (input && typeof input === "object") {
+      return Object.keys(input as Record<string, unknown>)
+        .sort()
+        .reduce<Record<string, unknown>>((sorted, key) => {
+          sorted[key] = normalize((input as Record<string, unknown>)[key]);
+          return sorted;
+        }, {});
+    }
+    return input;
+  };
+
+  const json = JSON.stringify(value ?? null);
+  return JSON.stringify(normalize(JSON.parse(json)));
+}
+
+/**
+ * Compute the chain hash of an audit row
+ *
+ * @param {HashableAudit} audit - Row content
+ * @param {string} previousHash - Hash of the row before it (genesis hash for the first row)
+ * @returns {string} Hex SHA-256 hash
+ *
+ * @example
+ * const hash = computeAuditHash({ tableName: 'employees', recordId: 12, action: 'UPDATE', changedAt: new Date(), ... }, previous.hash);
+ */
+export function computeAuditHash(audit: HashableAudit, previousHash: string): string {
+  const changedAt = audit.changedAt ? new Date(audit.changedAt).toISOString() : null;
+  const content = canonicalJson({
+    tableName: audit.tableName,
+    recordId: audit.recordId,
+    action: audit.action,
+    changedBy: audit.changedBy ?? null,
+    impersonatedBy: audit.impersonatedBy ?? null,
+    changedAt,
+    oldData: audit.oldData ?? null,
+    newData: audit.newData ?? null,
+    previousHash
+  });
+
+  return crypto.createHash("sha256").update(content).digest("hex");
+}
+
+/**
+ * Whether every ID between two audit IDs falls inside an archived range
+ * @param {number} fromId - First missing ID
+ * @param {number} toId - Last missing ID
+ * @param {Array<{ firstAuditId: number; lastAuditId: number }>} ranges - Archive ranges ordered by first ID
+ * @returns {boolean} True when the gap is covered
+ */
+export function isArchivedGap(
+  fromId: number,
+  toId: number,
+  ranges: Array<{ firstAuditId: number; lastAuditId: number }>
+): boolean {
+  let next = fromId;
+  for (const range of ranges) {
+    if (range.firstAuditId > next) break;
+    next = Math.max(next, range.lastAuditId + 1);
+    if (next > toId) return true;
+  }
+  return next > toId;
+}
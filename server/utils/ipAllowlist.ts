@@ -0,0 +1,91 @@
+/**
+ * @fileoverview IP allowlist utilities for API keys
+ *
+ * Parses and checks the `metadata.allowedIps` list of an API key. Entries are
+ * single addresses or CIDR ranges, IPv4 or IPv6:
+ *
+ * - 203.0.113.7
+ * - 10.0.0.0/8
+ * - 2001:db8::/32
+ *
+ * IPv4 clients reaching a dual-stack server appear as IPv4-mapped IPv6
+ * addresses (::ffff:10.1.2.3) and still match IPv4 entries.
+ *
+ * @module ipAllowlist
+ * @requires net
+ */
+
+import net from "net";
+
+/**
+ * Parse one allowlist entry
+ *
+ * @param {string} entry - Address or CIDR range
+ * @returns {{ address: string; prefix: number; family: 'ipv4' | 'ipv6' } | null} Parsed range, or null when invalid
+ */
+function parseEntry(entry: string): { address: string; prefix: number; family: 'ipv4' | 'ipv6' } | null {
+  const [address, prefixText, extra] = entry.trim().split('/');
+  if (extra !== undefined) {
+    return null;
+  }
+
+  const version = net.isIP(address);
+  if (version === 0) {
+    return null;
+  }
+
+  const maxPrefix = version === 4 ? 32 : 128;
+  if (prefixText !== undefined && !/^\d{1,3}$/.test(prefixText)) {
+    return null;
+  }
+  const prefix = prefixText === undefined ? maxPrefix : Number(prefixText);
+  if (prefix > maxPrefix) {
+    return null;
+  }
+
+  return { address, prefix, family: version === 4 ? 'ipv4' : 'ipv6' };
+}
+
+/**
+ * Check that an allowlist entry is a valid address or CIDR range
+ *
+ * @param {string} entry - Address or CIDR range
+ * @returns {boolean} True when the entry can be enforced
+ *
+ * @example
+ * isValidIpOrCidr('10.0.0.0/8'); // true
+ * isValidIpOrCidr('10.0.0.0/33'); // false
+ */
+export function isValidIpOrCidr(entry: string): boolean {
+  return parseEntry(entry) !== null;
+}
+
+/**
+ * Check whether a client address is covered by an allowlist
+ *
+ * @param {string | undefined} ip - Client address (req.ip)
+ * @param {string[]} allowlist - Addresses and CIDR ranges
+ * @returns {boolean} True when the address matches any entry
+ *
+ * @description
+ * Invalid entries are ignored, so a bad entry never opens a key to everyone;
+ * entries are validated when they are saved.
+ *
+ * @example
+ * isIpAllowed('::ffff:10.1.2.3', ['10.0.0.0/8']); // true
+ */
+export function isIpAllowed(ip: string | undefined, allowlist: string[]): boolean {
+  if (!ip || net.isIP(ip) === 0) {
+    return false;
+  }
+
+  const blockList = new net.BlockList();
+  for (const entry of allowlist) {
+    const range = parseEntry(entry);
+    if (range) {
+      blockList.addSubnet(range.address, range.prefix, range.family);
+    }
+  }
+
+  return blockList.check(ip, net.isIPv4(ip) ? 'ipv4' : 'ipv6');
+}
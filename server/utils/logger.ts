@@ -0,0 +1,294 @@
+/**
+ * @fileoverview Structured logger with PII redaction
+ *
+ * Writes one JSON object per line:
+ *
+ * {"time":"2025-03-01T12:00:00.000Z","level":"info","msg":"Template synced","requestId":"6f1c…","userId":4,"module":"docuseal","templateId":12}
+ *
+ * Entries written while a request is handled carry its request ID and user
+ * (see middleware/requestLogger). Messages and fields pass through a
+ * redaction layer first:
+ * - Registry columns of shared/schema.ts (SSN, date of birth, license and
+ *   program numbers, credential passwords, ...) and their blind indexes,
+ *   SECRET_FIELDS and anything named like a password, token or secret are
+ *   replaced with "[REDACTED]"
+ * - Usernames, email addresses and phone numbers are shortened to their first
+ *   character ("j***@hospital.com")
+ * - SSNs, email addresses, bearer credentials and API keys inside message text
+ *   are masked the same way
+ *
+ * LOG_LEVEL (debug, info, warn, error; default info) sets the lowest level
+ * written. warn and error go to stderr, the rest to stdout.
+ *
+ * @module logger
+ * @requires async_hooks
+ * @requires @shared/schema
+ */
+
+import { AsyncLocalStorage } from "async_hooks";
+import { SENSITIVE_COLUMNS, SECRET_FIELDS } from "@shared/schema";
+
+/**
+ * Log levels, lowest first
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+const LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * Request the current code runs for
+ */
+export interface RequestContext {
+  requestId: string;
+  /** Signed-in user, read when an entry is written (authentication runs after the context is set) */
+  getUserId?: () => number | undefined;
+}
+
+/**
+ * Context of the request being handled, set by the request logger middleware
+ */
+export const requestContext = new AsyncLocalStorage<RequestContext>();
+
+const REDACTED = '[REDACTED]';
+
+/**
+ * Nesting depth below which objects are summarized rather than walked
+ */
+const MAX_DEPTH = 6;
+
+/**
+ * Property name in the form SECRET_KEYS holds
+ * @param {string} key - Property name
+ * @returns {string} Lower case name without underscores
+ */
+function normalizeKey(key: string): string {
+  return key.toLowerCase().replace(/_/g, '');
+}
+
+/**
+ * Property names whose values are never logged, lower case without underscores
+ * so snake_case copies (date_of_birth) match too
+ */
+const SECRET_KEYS = new Set<string>([
+  ...SECRET_FIELDS,
+  ...Object.values(SENSITIVE_COLUMNS).flatMap(columns =>
+    Object.entries(columns).flatMap(([column, settings]) => settings?.blindIndex ? [column, settings.blindIndex] : [column])
+  )
+].map(normalizeKey));
+
+/**
+ * Property names that hold secrets without being schema columns (request bodies, headers)
+ */
+const SECRET_KEY_PATTERN = /password|secret|token|authorization|cookie|apikey|api_key|ssn/i;
+
+/**
+ * Property names that identify a person and are logged shortened
+ */
+const CONTACT_KEY_PATTERN = /^username$|email$|phone$/i;
+
+/**
+ * Patterns masked inside free text
+ */
+const TEXT_PATTERNS: Array<[RegExp, string]> = [
+  [/\b\d{3}-\d{2}-\d{4}\b/g, '***-**-****'],
+  [/\b([A-Za-z0-9._%+-])[A-Za-z0-9._%+-]*@([A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,})\b/g, '$1***@$2'],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]+/gi, `$1 ${REDACTED}`],
+  [/\b(hrms_(?:live|test|sig)_)[A-Za-z0-9_-]+/g, `$1${REDACTED}`]
+];
+
+/**
+ * Mask SSNs, email addresses and credentials in free text
+ * @param {string} text - Message or string value
+ * @returns {string} Text safe to log
+ *
+ * @example
+ * redactText('Invitation sent to jane.smith@hospital.com');
+ * // 'Invitation sent to j***@hospital.com'
+ */
+export function redactText(text: string): string {
+  return TEXT_PATTERNS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+/**
+ * Shorten a username, email address or phone number to its first character
+ * @param {string} value - Contact value
+ * @returns {string} Masked value; email addresses keep their domain
+ */
+function maskContact(value: string): string {
+  const at = value.indexOf('@');
+  if (at > 0) return `${value[0]}***${value.slice(at)}`;
+  return value.length > 1 ? `${value[0]}***` : '***';
+}
+
+/**
+ * Serializable form of an error
+ * @param {Error} error - Error
+ * @returns {Record<string, unknown>} Name, message, code and stack, redacted
+ */
+function serializeError(error: Error): Record<string, unknown> {
+  const code = (error as { code?: unknown }).code;
+  return {
+    name: error.name,
+    message: redactText(error.message),
+    ...(code !== undefined && { code }),
+    ...(error.stack && { stack: redactText(error.stack) })
+  };
+}
+
+/**
+ * Copy of a value with sensitive fields removed
+ *
+ * @param {unknown} value - Value to log
+ * @returns {unknown} JSON-safe copy
+ *
+ * @example
+ * redact({ username: 'jsmith', ssn: '123-45-6789', jobTitle: 'Physician' });
+ * // { username: 'j***', ssn: '[REDACTED]', jobTitle: 'Physician' }
+ */
+export function redact(value: unknown): unknown {
+  const seen = new WeakSet<object>();
+
+  const walk = (current: unknown, depth: number): unknown => {
+    if (typeof current === 'string') return redactText(current);
+    if (typeof current === 'bigint') return current.toString();
+    if (current === null || typeof current !== 'object') return current;
+    if (current instanceof Error) return serializeError(current);
+    if (current instanceof Date) return current.toISOString();
+    if (Buffer.isBuffer(current)) return `[Buffer ${current.length} bytes]`;
+    if (seen.has(current)) return '[Circular]';
+    if (depth >= MAX_DEPTH) return Array.isArray(current) ? '[Array]' : '[Object]';
+    seen.add(current);
+
+    if (Array.isArray(current)) {
+      return current.map(item => walk(item, depth + 1));
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, nested] of Object.entries(current)) {
+      if (nested === null || nested === undefined || nested === '') {
+        result[key] = nested;
+      } else if (SECRET_KEYS.has(normalizeKey(key)) || (SECRET_KEY_PATTERN.test(key) && typeof nested !== 'boolean' && typeof nested !== 'number')) {
+        result[key] = REDACTED;
+      } else if (CONTACT_KEY_PATTERN.test(key) && typeof nested === 'string') {
+        result[key] = maskContact(nested);
+      } else {
+        result[key] = walk(nested, depth + 1);
+      }
+    }
+    return result;
+  };
+
+  return walk(value, 0);
+}
+
+/**
+ * Lowest level written
+ * @returns {LogLevel} LOG_LEVEL, or info when unset or unknown
+ */
+function minimumLevel(): LogLevel {
+  const level = process.env.LOG_LEVEL?.toLowerCase() as LogLevel | undefined;
+  return level && LEVELS.includes(level) ? level : 'info';
+}
+
+/**
+ * Logger Class
+ *
+ * @class Logger
+ * @description Writes redacted JSON log lines. Child loggers add fixed fields
+ * such as the module name.
+ */
+export class Logger {
+  constructor(private readonly bindings: Record<string, unknown> = {}) {}
+
+  /**
+   * Logger that adds fields to every entry
+   * @param {Record<string, unknown>} bindings - Fields such as { module: 's3' }
+   * @returns {Logger} Child logger
+   *
+   * @example
+   * const log = logger.child({ module: 'ses' });
+   * log.info('Email sent', { messageId });
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    return new Logger({ ...this.bindings, ...bindings });
+  }
+
+  /**
+   * Write a debug entry
+   * @param {string} message - What happened
+   * @param {unknown} [details] - Fields object, Error or other value
+   */
+  debug(message: string, details?: unknown): void {
+    this.write('debug', message, details);
+  }
+
+  /**
+   * Write an info entry
+   * @param {string} message - What happened
+   * @param {unknown} [details] - Fields object, Error or other value
+   */
+  info(message: string, details?: unknown): void {
+    this.write('info', message, details);
+  }
+
+  /**
+   * Write a warning
+   * @param {string} message - What happened
+   * @param {unknown} [details] - Fields object, Error or other value
+   */
+  warn(message: string, details?: unknown): void {
+    this.write('warn', message, details);
+  }
+
+  /**
+   * Write an error entry
+   * @param {string} message - What failed
+   * @param {unknown} [details] - The error, or a fields object with an `error` field
+   */
+  error(message: string, details?: unknown): void {
+    this.write('error', message, details);
+  }
+
+  /**
+   * Redact and write one entry
+   * @param {LogLevel} level - Entry level
+   * @param {string} message - Message
+   * @param {unknown} details - Fields object, Error or other value
+   */
+  private write(level: LogLevel, message: string, details: unknown): void {
+    if (LEVELS.indexOf(level) < LEVELS.indexOf(minimumLevel())) {
+      return;
+    }
+
+    const context = requestContext.getStore();
+    let fields: Record<string, unknown> = {};
+    if (details instanceof Error) {
+      fields = { error: details };
+    } else if (details !== null && typeof details === 'object' && !Array.isArray(details)) {
+      fields = details as Record<string, unknown>;
+    } else if (details !== undefined) {
+      fields = { detail: details };
+    }
+
+    const entry = {
+      time: new Date().toISOString(),
+      level,
+      msg: redactText(message),
+      ...(context && { requestId: context.requestId, userId: context.getUserId?.() }),
+      ...(redact({ ...this.bindings, ...fields }) as Record<string, unknown>)
+    };
+
+    const line = `${JSON.stringify(entry)}\n`;
+    if (level === 'warn' || level === 'error') {
+      process.stderr.write(line);
+    } else {
+      process.stdout.write(line);
+    }
+  }
+}
+
+/**
+ * Application logger
+ * @type {Logger}
+ */
+export const logger = new Logger();
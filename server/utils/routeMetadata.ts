@@ -0,0 +1,49 @@
+/**
+ * @fileoverview Route Metadata Registry
+ *
+ * Authentication and authorization middleware record what they enforce here,
+ * so the OpenAPI generator can describe every route from its middleware chain
+ * (see services/openApiService) instead of keeping a second copy of the rules.
+ *
+ * @module routeMetadata
+ */
+
+/**
+ * What a middleware function enforces on a route
+ */
+export interface MiddlewareMetadata {
+  /** The route accepts an API key (Authorization: Bearer or X-API-Key) */
+  acceptsApiKey?: boolean;
+  /** The route rejects unauthenticated requests */
+  requiresAuth?: boolean;
+  /** Only a browser session is accepted; API keys are rejected */
+  sessionOnly?: boolean;
+  /** Permission scopes, any one of which grants access */
+  permissions?: string[];
+  /** Roles allowed for session users */
+  roles?: string[];
+  /** Session users may also act on their own employee record without the permissions */
+  allowsSelf?: boolean;
+}
+
+const registry = new WeakMap<Function, MiddlewareMetadata>();
+
+/**
+ * Record what a middleware function enforces
+ * @param {Function} middleware - Express middleware
+ * @param {MiddlewareMetadata} metadata - Rules the middleware applies
+ * @returns {Function} The same middleware, so it can wrap a return value
+ */
+export function describeMiddleware<T extends Function>(middleware: T, metadata: MiddlewareMetadata): T {
+  registry.set(middleware, { ...registry.get(middleware), ...metadata });
+  return middleware;
+}
+
+/**
+ * Look up what a middleware function enforces
+ * @param {Function} middleware - Express middleware
+ * @returns {MiddlewareMetadata | undefined} Recorded rules, if any
+ */
+export function getMiddlewareMetadata(middleware: Function): MiddlewareMetadata | undefined {
+  return registry.get(middleware);
+}
@@ -0,0 +1,214 @@
+/**
+ * @fileoverview SIEM message formats for audit rows
+ *
+ * Renders audit rows as:
+ * - RFC 5424 syslog messages, with the audit fields as structured data and
+ *   the masked field-level diff as a JSON message
+ * - ArcSight CEF (Common Event Format) lines
+ * - JSON lines
+ *
+ * Sensitive values are masked the same way as in the audit viewer (see
+ * utils/auditDiff), so no SSNs or credentials leave the system. Every
+ * message carries the audit ID, which the SIEM can use to drop duplicates.
+ *
+ * @module siemFormat
+ */
+
+import { diffAuditData } from "./auditDiff";
+import type { Audit } from "@shared/schema";
+
+/**
+ * Supported output formats
+ */
+export type SiemFormat = "syslog" | "cef" | "json";
+
+/**
+ * Fields identifying the sender
+ */
+export interface SiemFormatOptions {
+  /** Syslog HOSTNAME */
+  hostname: string;
+  /** Syslog APP-NAME and CEF product */
+  appName: string;
+  /** Syslog facility (0-23); 13 is "log audit" */
+  facility: number;
+}
+
+/**
+ * Structured data ID of audit fields (the enterprise number is the one RFC 5424 reserves for examples)
+ */
+const SYSLOG_SD_ID = "audit@32473";
+
+/**
+ * CEF severity (0-10) for each syslog severity used
+ */
+const CEF_SEVERITY: Record<number, number> = { 4: 7, 5: 5, 6: 3 };
+
+/**
+ * Syslog severity of an audit action: warning for deletions and failures,
+ * notice for reads of protected data, informational otherwise
+ * @param {string} action - Audit action
+ * @returns {number} Syslog severity (0-7)
+ */
+export function syslogSeverity(action: string): number {
+  if (/DELETE|FAILED|REVOKED|BLOCKED/.test(action)) return 4;
+  if (action === "ACCESS") return 5;
+  return 6;
+}
+
+/**
+ * Event contents shared by all formats
+ * @param {Audit} audit - Audit row
+ * @returns {object} Audit fields with the masked diff
+ */
+export function siemEvent(audit: Audit) {
+  return {
+    id: audit.id,
+    table: audit.tableName,
+    recordId: audit.recordId,
+    action: audit.action,
+    changedBy: audit.changedBy ?? null,
+    impersonatedBy: audit.impersonatedBy ?? null,
+    changedAt: audit.changedAt ? new Date(audit.changedAt).toISOString() : null,
+    hash: audit.hash ?? null,
+    changes: diffAuditData(audit.oldData, audit.newData),
+  };
+}
+
+/**
+ * Escape a structured data parameter value (RFC 5424 section 6.3.3)
+ * @param {unknown} value - Value
+ * @returns {string} Escaped value
+ */
+function escapeSdValue(value: unknown): string {
+  return String(value ?? "").replace(/([\\"\]])/g, "\\$1");
+}
+
+/**
+ * Render an audit row as an RFC 5424 syslog message
+ *
+ * @param {Audit} audit - Audit row
+ * @param {SiemFormatOptions} options - Sender fields
+ * @returns {string} Message without transport framing
+ *
+ * @example
+ * formatSyslog(audit, { hostname: 'hrms-1', appName: 'hrms', facility: 13 });
+ * // <110>1 2025-03-01T10:00:00.000Z hrms-1 hrms 4121 UPDATE [audit@32473 id="42" table="employees" ...] {"id":42,...}
+ */
+export function formatSyslog(audit: Audit, options: SiemFormatOptions): string {
+  const event = siemEvent(audit);
+  const priority = options.facility * 8 + syslogSeverity(audit.action);
+  const params = [
+    ["id", event.id],
+    ["table", event.table],
+    ["recordId", event.recordId],
+    ["action", event.action],
+    ["changedBy", event.changedBy ?? ""],
+    ["impersonatedBy", event.impersonatedBy ?? ""],
+    ["hash", event.hash ?? ""],
+  ]
+    .map(([name, value]) => `${name}="${escapeSdValue(value)}"`)
+    .join(" ");
+
+  return [
+    `<${priority}>1`,
+    event.changedAt ?? "-",
+    options.hostname || "-",
+    options.appName || "-",
+    String(process.pid),
+    audit.action.replace(/[^\x21-\x7e]/g, "").slice(0, 32) || "-",
+    `[${SYSLOG_SD_ID} ${params}]`,
+    JSON.stringify(event),
+  ].join(" ");
+}
+
+/**
+ * Escape a CEF header field
+ * @param {unknown} value - Value
+ * @returns {string} Escaped value
+ */
+function escapeCefHeader(value: unknown): string {
+  return String(value ?? "").replace(/([\\|])/g, "\\$1").replace(/[\r\n]+/g, " ");
+}
+
+/**
+ * Escape a CEF extension value
+ * @param {unknown} value - Value
+ * @returns {string} Escaped value
+ */
+function escapeCefExtension(value: unknown): string {
+  return String(value ?? "")
+    .replace(/([\\=])/g, "\\$1")
+    .replace(/\r?\n/g, "\\n");
+}
+
+/**
+ * Render an audit row as a CEF line
+ *
+ * @param {Audit} audit - Audit row
+ * @param {SiemFormatOptions} options - Sender fields
+ * @returns {string} CEF:0 line
+ *
+ * @description
+ * Severity uses the CEF 0-10 scale (7 for deletions and failures, 5 for PHI
+ * reads, 3 otherwise). The masked diff is sent as JSON in msg.
+ */
+export function formatCef(audit: Audit, options: SiemFormatOptions): string {
+  const event = siemEvent(audit);
+  const severity = CEF_SEVERITY[syslogSeverity(audit.action)] ?? 3;
+  const extension: Array<[string, unknown]> = [
+    ["rt", event.changedAt ? new Date(event.changedAt).getTime() : ""],
+    ["externalId", event.id],
+    ["act", event.action],
+    ["suid", event.changedBy ?? ""],
+    ["dvchost", options.hostname],
+    ["cs1Label", "table"],
+    ["cs1", event.table],
+    ["cn1Label", "recordId"],
+    ["cn1", event.recordId],
+    ["cs2Label", "hash"],
+    ["cs2", event.hash ?? ""],
+    ["cn2Label", "impersonatedBy"],
+    ["cn2", event.impersonatedBy ?? ""],
+    ["msg", JSON.stringify(event.changes)],
+  ];
+
+  return [
+    "CEF:0",
+    "HRMS",
+    escapeCefHeader(options.appName),
+    "1.0",
+    escapeCefHeader(`${audit.tableName}:${audit.action}`),
+    escapeCefHeader(`${audit.action} ${audit.tableName}`),
+    String(severity),
+    extension.map(([key, value]) => `${key}=${escapeCefExtension(value)}`).join(" "),
+  ].join("|");
+}
+
+/**
+ * Render an audit row as a JSON line
+ * @param {Audit} audit - Audit row
+ * @param {SiemFormatOptions} options - Sender fields
+ * @returns {string} JSON object
+ */
+export function formatJson(audit: Audit, options: SiemFormatOptions): string {
+  return JSON.stringify({ source: options.appName, host: options.hostname, ...siemEvent(audit) });
+}
+
+/**
+ * Render an audit row in the given format
+ * @param {SiemFormat} format - Output format
+ * @param {Audit} audit - Audit row
+ * @param {SiemFormatOptions} options - Sender fields
+ * @returns {string} Message
+ */
+export function formatSiemMessage(format: SiemFormat, audit: Audit, options: SiemFormatOptions): string {
+  switch (format) {
+    case "cef":
+      return formatCef(audit, options);
+    case "json":
+      return formatJson(audit, options);
+    default:
+      return formatSyslog(audit, options);
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * @fileoverview Spreadsheet reading and writing
+ *
+ * Reads the first sheet of a CSV or XLSX file into rows of cell text and
+ * writes rows back out as CSV. XLSX files are zip archives of XML parts; the
+ * reader only understands what spreadsheet exports contain (stored or
+ * deflated entries, shared and inline strings, date-formatted numbers).
+ *
+ * @module spreadsheet
+ * @requires zlib
+ */
+
+import zlib from "zlib";
+
+/**
+ * Largest size a single XLSX part may inflate to
+ */
+const MAX_PART_BYTES = 50 * 1024 * 1024;
+
+/**
+ * Largest worksheet parseXlsx reads
+ */
+export interface SheetLimits {
+  /** Rows, by row number and by count */
+  maxRows: number;
+  /** Columns, by column reference */
+  maxColumns: number;
+}
+
+/**
+ * Excel's own worksheet size (1,048,576 rows by column XFD)
+ */
+export const EXCEL_SHEET_LIMITS: SheetLimits = { maxRows: 1048576, maxColumns: 16384 };
+
+/**
+ * Built-in Excel number formats that display dates
+ */
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 27, 30, 36, 45, 46, 47, 50, 57]);
+
+/**
+ * Excel serial day 0 (the 1900 date system, including its leap-year bug)
+ */
+const EXCEL_EPOCH_MS = Date.UTC(1899, 11, 30);
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, doubled quotes, CRLF or LF)
+ *
+ * @param {string} text - File contents
+ * @returns {string[][]} Rows of cell text; blank lines are kept as empty rows, so
+ * indexes match the file's line numbers
+ *
+ * @example
+ * parseCsv('First Name,Last Name\n"Smith, Jr.",Jane');
+ * // [['First Name', 'Last Name'], ['Smith, Jr.', 'Jane']]
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Render rows as CSV, quoting cells that need it
+ *
+ * @param {unknown[][]} rows - Rows of cell values (null and undefined become empty cells)
+ * @returns {string} CSV text with CRLF line endings
+ */
+export function toCsv(rows: unknown[][]): string {
+  return rows.map(row => row.map(value => {
+    const text = value === null || value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Entries of a zip archive by path
+ *
+ * @param {Buffer} buffer - Archive
+ * @returns {Map<string, () => Buffer>} Path to a function that extracts the entry
+ * @throws {Error} The buffer is not a zip archive or uses an unsupported compression method
+ */
+function readZip(buffer: Buffer): Map<string, () => Buffer> {
+  // End of central directory record: at least 22 bytes, followed by a comment of up to 64 KB
+  let end = -1;
+  for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 22 - 0xffff); i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) {
+    throw new Error('Not a valid XLSX file');
+  }
+
+  const entries = new Map<string, () => Buffer>();
+  const count = buffer.readUInt16LE(end + 10);
+  let offset = buffer.readUInt32LE(end + 16);
+
+  for (let i = 0; i < count; i++) {
+    if (buffer.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error('Not a valid XLSX file');
+    }
+    const method = buffer.readUInt16LE(offset + 10);
+    const compressedSize = buffer.readUInt32LE(offset + 20);
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const localOffset = buffer.readUInt32LE(offset + 42);
+    const name = buffer.toString('utf8', offset + 46, offset + 46 + nameLength);
+
+    entries.set(name, () => {
+      const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+      const data = buffer.subarray(dataStart, dataStart + compressedSize);
+      if (method === 0) return data;
+      if (method === 8) return zlib.inflateRawSync(data, { maxOutputLength: MAX_PART_BYTES });
+      throw new Error(`Unsupported compression in ${name}`);
+    });
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+}
+
+/**
+ * Replace XML character references and predefined entities
+ *
+ * @param {string} text - XML text content
+ * @returns {string} Decoded text
+ */
+function decodeXml(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    return ({ amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" } as Record<string, string>)[lower];
+  });
+}
+
+/**
+ * Value of an attribute in an XML start tag
+ *
+ * @param {string} tag - Start tag text
+ * @param {string} name - Attribute name
+ * @returns {string | undefined} Decoded value
+ */
+function attribute(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? decodeXml(match[1]) : undefined;
+}
+
+/**
+ * Text of all <t> runs inside an element (shared or inline rich text)
+ *
+ * @param {string} xml - Element XML
+ * @returns {string} Concatenated text
+ */
+function textRuns(xml: string): string {
+  return Array.from(xml.matchAll(/<t(?:\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/t>)/g), match => decodeXml(match[1] ?? '')).join('');
+}
+
+/**
+ * Zero-based column index of a cell reference ("C7" → 2)
+ *
+ * @param {string} reference - Cell reference
+ * @returns {number} Column index
+ */
+function columnIndex(reference: string): number {
+  const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? 'A';
+  return Array.from(letters).reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+}
+
+/**
+ * Style indexes (cellXfs positions) whose number format shows a date
+ *
+ * @param {string | undefined} xml - xl/styles.xml
+ * @returns {Set<number>} Date style indexes
+ */
+function dateStyles(xml: string | undefined): Set<number> {
+  const styles = new Set<number>();
+  if (!xml) return styles;
+
+  const customDateFormats = new Set<number>();
+  for (const [tag] of Array.from(xml.matchAll(/<numFmt\s[^>]*>/g))) {
+    // Day, month or year codes outside quoted literals and [colour]/[h] brackets
+    const code = (attribute(tag, 'formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '');
+    if (/[dmy]/i.test(code)) {
+      customDateFormats.add(Number(attribute(tag, 'numFmtId')));
+    }
+  }
+
+  const cellXfs = xml.match(/<cellXfs[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? '';
+  Array.from(cellXfs.matchAll(/<xf\s[^>]*>/g)).forEach(([tag], index) => {
+    const formatId = Number(attribute(tag, 'numFmtId') ?? 0);
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      styles.add(index);
+    }
+  });
+  return styles;
+}
+
+/**
+ * Path of the first worksheet listed in the workbook
+ *
+ * @param {Map<string, () => Buffer>} entries - Archive entries
+ * @returns {string} Worksheet part path
+ */
+function firstSheetPath(entries: Map<string, () => Buffer>): string {
+  const workbook = entries.get('xl/workbook.xml')?.().toString('utf8') ?? '';
+  const relations = entries.get('xl/_rels/workbook.xml.rels')?.().toString('utf8') ?? '';
+  const sheet = workbook.match(/<sheet\s[^>]*>/)?.[0];
+  const relationId = sheet && (attribute(sheet, 'r:id') ?? attribute(sheet, 'id'));
+
+  if (relationId) {
+    for (const [tag] of Array.from(relations.matchAll(/<Relationship\s[^>]*>/g))) {
+      const target = attribute(tag, 'Target');
+      if (attribute(tag, 'Id') === relationId && target) {
+        return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+      }
+    }
+  }
+  return 'xl/worksheets/sheet1.xml';
+}
+
+/**
+ * Read the first sheet of an XLSX workbook
+ *
+ * Date-formatted numbers are returned as YYYY-MM-DD, other values as the text
+ * Excel stores (formulas give their last calculated value).
+ *
+ * Rows and cells are filled in up to their references, so a reference past
+ * the limits is rejected before anything is allocated for it.
+ *
+ * @param {Buffer} buffer - File contents
+ * @param {SheetLimits} [limits=EXCEL_SHEET_LIMITS] - Largest sheet accepted
+ * @returns {string[][]} Rows of cell text by row number (index 0 is row 1); missing
+ * rows are empty
+ * @throws {Error} The file is not an XLSX workbook, or the sheet is larger than the limits
+ */
+export function parseXlsx(buffer: Buffer, limits: SheetLimits = EXCEL_SHEET_LIMITS): string[][] {
+  const entries = readZip(buffer);
+  const sheet = entries.get(firstSheetPath(entries))?.().toString('utf8');
+  if (!sheet) {
+    throw new Error('The workbook has no worksheet');
+  }
+
+  const sharedXml = entries.get('xl/sharedStrings.xml')?.().toString('utf8') ?? '';
+  const sharedStrings = Array.from(sharedXml.matchAll(/<si>([\s\S]*?)<\/si>/g), match => textRuns(match[1]));
+  const dates = dateStyles(entries.get('xl/styles.xml')?.().toString('utf8'));
+
+  const rows: string[][] = [];
+  for (const [, rowTag, rowXml = ''] of Array.from(sheet.matchAll(/(<row(?:\s[^>]*?)?)(?:\/>|>([\s\S]*?)<\/row>)/g))) {
+    const rowNumber = Number(attribute(rowTag, 'r') ?? rows.length + 1);
+    if (rowNumber > limits.maxRows || rows.length >= limits.maxRows) {
+      throw new Error(`The sheet has more than ${limits.maxRows} rows`);
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    const row: string[] = [];
+    let next = 0;
+    for (const [, tag, body = ''] of Array.from(rowXml.matchAll(/(<c(?:\s[^>]*?)?)(?:\/>|>([\s\S]*?)<\/c>)/g))) {
+      const reference = attribute(tag, 'r');
+      const index = reference ? columnIndex(reference) : next;
+      if (index >= limits.maxColumns) {
+        throw new Error(`The sheet has more than ${limits.maxColumns} columns`);
+      }
+      next = index + 1;
+
+      const type = attribute(tag, 't');
+      const raw = body.match(/<v>([\s\S]*?)<\/v>/)?.[1];
+      let value = '';
+      if (type === 'inlineStr') {
+        value = textRuns(body.match(/<is>([\s\S]*?)<\/is>/)?.[1] ?? '');
+      } else if (raw === undefined) {
+        value = '';
+      } else if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else if (type === 'str' || type === 'e') {
+        value = decodeXml(raw);
+      } else if (dates.has(Number(attribute(tag, 's') ?? -1)) && raw.trim() !== '' && !isNaN(Number(raw))) {
+        value = new Date(EXCEL_EPOCH_MS + Math.floor(Number(raw)) * 86400000).toISOString().split('T')[0];
+      } else {
+        value = decodeXml(raw);
+      }
+
+      while (row.length < index) row.push('');
+      row[index] = value;
+    }
+    rows.push(row);
+  }
+
+  return rows;
+}
@@ -13,6 +13,7 @@
  */
 
 import { Request } from "express";
+import { logger } from "./logger";
 
 /**
  * Get the base URL for the application based on environment and request context
@@ -35,7 +36,7 @@ import { Request } from "express";
 export function getBaseUrl(req: Request): string {
   // 1. Check for explicitly configured base URL (highest priority)
   if (process.env.APP_BASE_URL) {
-    console.log(`Using APP_BASE_URL: ${process.env.APP_BASE_URL}`);
+    logger.info(`Using APP_BASE_URL: ${process.env.APP_BASE_URL}`);
     return process.env.APP_BASE_URL.replace(/\/$/, ''); // Remove trailing slash
   }
 
@@ -45,7 +46,7 @@ export function getBaseUrl(req: Request): string {
     const domains = process.env.REPLIT_DOMAINS.split(',');
     const primaryDomain = domains[0].trim();
     const baseUrl = `https://${primaryDomain}`;
-    console.log(`Using REPLIT_DOMAINS: ${baseUrl}`);
+    logger.info(`Using REPLIT_DOMAINS: ${baseUrl}`);
     return baseUrl;
   }
 
@@ -62,7 +63,7 @@ export function getBaseUrl(req: Request): string {
     
     // Log for debugging
     if (process.env.NODE_ENV === 'development') {
-      console.log(`Detected base URL from request: ${baseUrl}`);
+      logger.info(`Detected base URL from request: ${baseUrl}`);
     }
     
     return baseUrl;
@@ -70,7 +71,7 @@ export function getBaseUrl(req: Request): string {
 
   // 4. Fallback for development or when no request context available
   const fallbackUrl = `http://localhost:${process.env.PORT || '5000'}`;
-  console.log(`Using fallback URL: ${fallbackUrl}`);
+  logger.info(`Using fallback URL: ${fallbackUrl}`);
   return fallbackUrl;
 }
 
@@ -26,7 +26,9 @@ import {
   integer,
   jsonb,
   decimal,
-  index
+  index,
+  uniqueIndex,
+  primaryKey
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
@@ -43,12 +45,14 @@ import { z } from "zod";
  * - 'hr': Standard HR staff with full employee management access
  * - 'prospective_employee': New employees awaiting approval (limited access to onboarding)
  * - 'employee': Approved employees with self-service portal access
+ * - 'viewer': Read-only access
+ * - Custom roles: keys of admin-defined roles in the roles table
  */
 export const users = pgTable("users", {
   id: serial("id").primaryKey(), // Auto-incrementing primary key
   username: varchar("username", { length: 50 }).unique().notNull(), // Unique login identifier
   passwordHash: varchar("password_hash", { length: 255 }).notNull(), // Scrypt-hashed password with salt
-  role: varchar("role", { length: 20 }).notNull().default("hr"), // User role for RBAC
+  role: varchar("role", { length: 50 }).notNull().default("hr"), // User role for RBAC (built-in role or roles.key)
   status: varchar("status", { length: 20 }).default("active").notNull(), // User status: active | suspended | locked | disabled
   email: varchar("email", { length: 100 }).unique(), // Optional email field (unique but nullable)
   createdAt: timestamp("created_at").defaultNow().notNull(), // Account creation timestamp
@@ -57,9 +61,49 @@ export const users = pgTable("users", {
   passwordResetExpiresAt: timestamp("password_reset_expires_at"), // Reset token expiration timestamp
   failedLoginAttempts: integer("failed_login_attempts").default(0).notNull(), // Failed login counter for security
   lockedUntil: timestamp("locked_until"), // Temporary account lock expiration
-  requirePasswordChange: boolean("require_password_change").default(false).notNull() // Force password change on next login
+  requirePasswordChange: boolean("require_password_change").default(false).notNull(), // Force password change on next login
+  mfaEnabled: boolean("mfa_enabled").default(false).notNull(), // Whether TOTP multi-factor authentication is active
+  mfaSecret: text("mfa_secret"), // Base32 TOTP shared secret (AES-256 encrypted)
+  mfaRecoveryCodes: text("mfa_recovery_codes").array(), // SHA-256 hashes of unused one-time recovery codes
+  mfaEnrolledAt: timestamp("mfa_enrolled_at"), // When MFA enrollment was completed
+  mfaLastUsedStep: integer("mfa_last_used_step"), // Last TOTP time step accepted at sign-in; codes from it or earlier are replays
+  oidcSubject: varchar("oidc_subject", { length: 255 }).unique(), // Identity provider subject linked via single sign-on
+  scimExternalId: varchar("scim_external_id", { length: 255 }).unique(), // Directory identifier when provisioned over SCIM
+  passwordChangedAt: timestamp("password_changed_at") // When the password was last set (null: use createdAt)
 });
 
+/**
+ * SENSITIVE COLUMN REGISTRY
+ * 
+ * PHI/PII columns are declared next to their table. The storage layer encrypts
+ * them on every write (envelope encryption, see server/services/encryptionService),
+ * fills their blind indexes and decrypts unmasked columns on read; API responses
+ * and audit snapshots apply the masks. Encrypted columns are varchar(255) so any
+ * key ID fits.
+ */
+export interface SensitiveColumn<Column extends string = string> {
+  /**
+   * How API responses show the value. Masked columns stay encrypted when read
+   * and are only decrypted where a feature needs the value (e.g. W-9 pre-fill);
+   * unmasked columns are returned decrypted.
+   * - ssn: "***-**-6789", and only to callers with read:ssn
+   * - secret: "***" when set, never the value
+   */
+  mask?: 'ssn' | 'secret';
+  /**
+   * Column holding a keyed hash of the value (blind index), so exact-match
+   * lookups work without decrypting. Case, spaces and punctuation are ignored.
+   */
+  blindIndex?: Column;
+}
+
+/**
+ * Sensitive columns of a table, by property name
+ */
+export type SensitiveColumns<Row> = {
+  [Column in keyof Row & string]?: SensitiveColumn<keyof Row & string>;
+};
+
 /**
  * EMPLOYEES TABLE - Core Entity
  * 
@@ -74,7 +118,7 @@ export const employees = pgTable("employees", {
   firstName: varchar("first_name", { length: 50 }).notNull(), // Legal first name
   middleName: varchar("middle_name", { length: 50 }), // Optional middle name
   lastName: varchar("last_name", { length: 50 }).notNull(), // Legal last name
-  dateOfBirth: date("date_of_birth"), // Birth date for age verification and compliance
+  dateOfBirth: varchar("date_of_birth", { length: 255 }), // Birth date YYYY-MM-DD for age verification and compliance (encrypted)
   
   // CONTACT INFORMATION
   personalEmail: varchar("personal_email", { length: 100 }).unique(), // Personal email (optional)
@@ -96,7 +140,7 @@ export const employees = pgTable("employees", {
   birthCountry: varchar("birth_country", { length: 50 }), // Birth country (for citizenship verification)
   
   // DRIVER'S LICENSE INFORMATION (Required for many medical positions)
-  driversLicenseNumber: varchar("drivers_license_number", { length: 50 }), // DL number
+  driversLicenseNumber: varchar("drivers_license_number", { length: 255 }), // DL number (encrypted)
   dlStateIssued: varchar("dl_state_issued", { length: 50 }), // Issuing state
   dlIssueDate: date("dl_issue_date"), // Issue date
   dlExpirationDate: date("dl_expiration_date"), // Expiration date (tracked for compliance)
@@ -141,13 +185,13 @@ export const employees = pgTable("employees", {
   mentalHealthLicenseStatus: varchar("mental_health_license_status", { length: 50 }),
 
   // DEA tracking when applicable to selected medical qualifications
-  deaNumber: varchar("dea_number", { length: 50 }),
+  deaNumber: varchar("dea_number", { length: 255 }), // Encrypted
   // Granular medical qualification separate from general qualification field
   medicalQualification: varchar("medical_qualification", { length: 100 }),
   
   // PAYER/BILLING IDENTIFIERS
-  medicaidNumber: varchar("medicaid_number", { length: 50 }), // State Medicaid provider number
-  medicarePtanNumber: varchar("medicare_ptan_number", { length: 50 }), // Medicare PTAN number
+  medicaidNumber: varchar("medicaid_number", { length: 255 }), // State Medicaid provider number (encrypted)
+  medicarePtanNumber: varchar("medicare_ptan_number", { length: 255 }), // Medicare PTAN number (encrypted)
   
   // CAQH (Council for Affordable Quality Healthcare) INTEGRATION
   // CAQH ProView is used for provider credentialing and enrollment
@@ -176,15 +220,43 @@ export const employees = pgTable("employees", {
   approvedAt: timestamp("approved_at"), // When HR approved the onboarding
   approvedBy: integer("approved_by").references(() => users.id, { onDelete: "set null" }), // HR user who approved
   
+  // BLIND INDEXES (keyed hashes of encrypted columns for exact-match lookups)
+  ssnHash: varchar("ssn_hash", { length: 64 }),
+  dateOfBirthHash: varchar("date_of_birth_hash", { length: 64 }),
+  driversLicenseNumberHash: varchar("drivers_license_number_hash", { length: 64 }),
+  deaNumberHash: varchar("dea_number_hash", { length: 64 }),
+  medicaidNumberHash: varchar("medicaid_number_hash", { length: 64 }),
+  medicarePtanNumberHash: varchar("medicare_ptan_number_hash", { length: 64 }),
+  
   createdAt: timestamp("created_at").defaultNow(), // Record creation timestamp
   updatedAt: timestamp("updated_at").defaultNow() // Last modification timestamp
 }, (table) => ({
   // Database indexes for performance optimization
   workEmailIdx: index("idx_employees_work_email").on(table.workEmail), // Fast email lookups
   dlExpirationIdx: index("idx_dl_expiration").on(table.dlExpirationDate), // Expiration tracking
-  caqhReattestationIdx: index("idx_caqh_reattestation").on(table.caqhReattestationDueDate) // Compliance monitoring
+  caqhReattestationIdx: index("idx_caqh_reattestation").on(table.caqhReattestationDueDate), // Compliance monitoring
+  ssnHashIdx: index("idx_employees_ssn_hash").on(table.ssnHash),
+  dateOfBirthHashIdx: index("idx_employees_date_of_birth_hash").on(table.dateOfBirthHash),
+  driversLicenseNumberHashIdx: index("idx_employees_drivers_license_number_hash").on(table.driversLicenseNumberHash),
+  deaNumberHashIdx: index("idx_employees_dea_number_hash").on(table.deaNumberHash),
+  medicaidNumberHashIdx: index("idx_employees_medicaid_number_hash").on(table.medicaidNumberHash),
+  medicarePtanNumberHashIdx: index("idx_employees_medicare_ptan_number_hash").on(table.medicarePtanNumberHash)
 }));
 
+/**
+ * Encrypted employee columns
+ */
+export const employeeSensitiveColumns: SensitiveColumns<typeof employees.$inferSelect> = {
+  ssn: { mask: 'ssn', blindIndex: 'ssnHash' },
+  dateOfBirth: { blindIndex: 'dateOfBirthHash' },
+  driversLicenseNumber: { blindIndex: 'driversLicenseNumberHash' },
+  deaNumber: { blindIndex: 'deaNumberHash' },
+  medicaidNumber: { blindIndex: 'medicaidNumberHash' },
+  medicarePtanNumber: { blindIndex: 'medicarePtanNumberHash' },
+  caqhPassword: { mask: 'secret' },
+  nppesPassword: { mask: 'secret' }
+};
+
 /**
  * EDUCATIONS TABLE
  * 
@@ -265,14 +337,23 @@ export const stateLicenses = pgTable("state_licenses", {
 export const deaLicenses = pgTable("dea_licenses", {
   id: serial("id").primaryKey(), // Auto-incrementing primary key
   employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }), // Foreign key to employees
-  licenseNumber: varchar("license_number", { length: 50 }).notNull(), // DEA registration number (e.g., "AB1234567")
+  licenseNumber: varchar("license_number", { length: 255 }).notNull(), // DEA registration number, e.g. "AB1234567" (encrypted)
+  licenseNumberHash: varchar("license_number_hash", { length: 64 }), // Blind index of licenseNumber
   issueDate: date("issue_date"), // DEA registration issue date
   expirationDate: date("expiration_date"), // Registration expiration (typically 3 years)
   status: varchar("status", { length: 50 }) // active | expired | suspended | surrendered
 }, (table) => ({
-  expirationIdx: index("idx_dea_licenses_expiration").on(table.expirationDate) // Federal compliance tracking
+  expirationIdx: index("idx_dea_licenses_expiration").on(table.expirationDate), // Federal compliance tracking
+  licenseNumberHashIdx: index("idx_dea_licenses_license_number_hash").on(table.licenseNumberHash)
 }));
 
+/**
+ * Encrypted DEA license columns
+ */
+export const deaLicenseSensitiveColumns: SensitiveColumns<typeof deaLicenses.$inferSelect> = {
+  licenseNumber: { blindIndex: 'licenseNumberHash' }
+};
+
 /**
  * BOARD CERTIFICATIONS TABLE
  * 
@@ -628,9 +709,53 @@ export const emergencyContacts = pgTable("emergency_contacts", {
   employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }), // Foreign key to employees
   name: varchar("name", { length: 100 }).notNull(), // Full name of emergency contact
   relationship: varchar("relationship", { length: 50 }), // Relationship to employee (spouse, parent, sibling, etc.)
-  phone: varchar("phone", { length: 20 }), // Primary phone number for emergencies
+  phone: varchar("phone", { length: 255 }), // Primary phone number for emergencies (encrypted)
+  phoneHash: varchar("phone_hash", { length: 64 }), // Blind index of phone
   email: varchar("email", { length: 100 }) // Email address for non-urgent communications
-});
+}, (table) => ({
+  phoneHashIdx: index("idx_emergency_contacts_phone_hash").on(table.phoneHash)
+}));
+
+/**
+ * Encrypted emergency contact columns
+ */
+export const emergencyContactSensitiveColumns: SensitiveColumns<typeof emergencyContacts.$inferSelect> = {
+  phone: { blindIndex: 'phoneHash' }
+};
+
+/**
+ * Sensitive column registry by table name
+ */
+export const SENSITIVE_COLUMNS = {
+  employees: employeeSensitiveColumns as SensitiveColumns<Record<string, unknown>>,
+  dea_licenses: deaLicenseSensitiveColumns as SensitiveColumns<Record<string, unknown>>,
+  emergency_contacts: emergencyContactSensitiveColumns as SensitiveColumns<Record<string, unknown>>
+};
+
+/**
+ * Table with encrypted columns
+ */
+export type SensitiveTable = keyof typeof SENSITIVE_COLUMNS;
+
+/**
+ * Properties holding credentials or tokens, in table rows and request bodies
+ * 
+ * Never written to logs; the logger redacts these along with the registry
+ * columns above and their blind indexes.
+ */
+export const SECRET_FIELDS = [
+  'password',
+  'passwordHash',
+  'passwordResetToken',
+  'mfaSecret',
+  'mfaRecoveryCodes',
+  'invitationToken',
+  'accessKeyId',
+  'secretAccessKey',
+  'apiKey',
+  'keyHash',
+  'secret'
+] as const;
 
 /**
  * TAX FORMS TABLE
@@ -788,16 +913,206 @@ export const audits = pgTable("audits", {
   id: serial("id").primaryKey(), // Auto-incrementing primary key
   tableName: varchar("table_name", { length: 50 }).notNull(), // Name of table that was modified
   recordId: integer("record_id").notNull(), // Primary key of the modified record
-  action: varchar("action", { length: 20 }).notNull(), // CREATE | UPDATE | DELETE
+  action: varchar("action", { length: 20 }).notNull(), // CREATE | UPDATE | DELETE | ACCESS
   changedBy: integer("changed_by").references(() => users.id), // User ID who made the change
+  impersonatedBy: integer("impersonated_by").references(() => users.id), // Real admin when the change was made while viewing as changedBy
   changedAt: timestamp("changed_at").defaultNow(), // Timestamp of the change
   oldData: jsonb("old_data"), // Previous values (JSON format for flexible storage)
-  newData: jsonb("new_data") // New values (JSON format for flexible storage)
+  newData: jsonb("new_data"), // New values (JSON format for flexible storage)
+  previousHash: varchar("previous_hash", { length: 64 }), // Hash of the audit row written before this one
+  hash: varchar("hash", { length: 64 }) // SHA-256 over this row's content and previousHash (null for rows written before chaining)
 }, (table) => ({
   tableRecordIdx: index("idx_audits_table_record").on(table.tableName, table.recordId), // Fast record history lookup
   changedAtIdx: index("idx_audits_changed_at").on(table.changedAt) // Chronological audit queries
 }));
 
+/**
+ * AUDIT CHECKPOINTS TABLE
+ * 
+ * Signed daily snapshots of the audit hash chain. Each checkpoint records the
+ * last audit row and its hash at the end of a day, signed with the server's
+ * Ed25519 checkpoint key. Exported checkpoints let a regulator confirm later
+ * that history up to that point was not rewritten, even if the whole chain
+ * were recomputed.
+ */
+export const auditCheckpoints = pgTable("audit_checkpoints", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  checkpointDate: varchar("checkpoint_date", { length: 10 }).notNull().unique(), // Day covered (YYYY-MM-DD, UTC)
+  lastAuditId: integer("last_audit_id"), // Last audit row written by the end of the day (null when there were none)
+  lastHash: varchar("last_hash", { length: 64 }).notNull(), // Hash of that row (genesis hash when there were none)
+  auditCount: integer("audit_count").notNull(), // Chained audit rows up to and including lastAuditId
+  signature: text("signature").notNull(), // Base64 Ed25519 signature over the canonical checkpoint
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+/**
+ * SIEM EXPORT CHECKPOINTS TABLE
+ * 
+ * Position of each SIEM exporter in the audit log. The exporter sends audit
+ * rows with IDs above lastAuditId and moves the checkpoint forward in the
+ * same transaction that locks this row, so restarts resume where the last
+ * delivered batch ended and only one instance exports at a time.
+ */
+export const siemExportCheckpoints = pgTable("siem_export_checkpoints", {
+  name: varchar("name", { length: 50 }).primaryKey(), // Exporter name (one row per configured destination)
+  lastAuditId: integer("last_audit_id").default(0).notNull(), // Last audit row delivered
+  exportedCount: integer("exported_count").default(0).notNull(), // Rows delivered since the exporter started
+  lastExportedAt: timestamp("last_exported_at"), // When the last batch was delivered
+  lastError: text("last_error"), // Last delivery failure (cleared on success)
+  lastErrorAt: timestamp("last_error_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+/**
+ * AUDIT RETENTION POLICIES TABLE
+ * 
+ * How long audit rows are kept in the live audits table. A policy applies to
+ * one table, one action, both, or (with neither) every audit row; when several
+ * match a row, the most specific one wins (table and action, then table, then
+ * action, then the catch-all). Rows matched by no policy are kept forever.
+ * Rows past retention are archived to object storage before they are pruned.
+ */
+export const auditRetentionPolicies = pgTable("audit_retention_policies", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  tableName: varchar("table_name", { length: 50 }), // Audited table the policy covers (null for all tables)
+  action: varchar("action", { length: 20 }), // Audit action the policy covers (null for all actions)
+  retentionDays: integer("retention_days").notNull(), // Days rows stay in the live table
+  active: boolean("active").default(true).notNull(), // Inactive policies archive nothing
+  description: text("description"), // Why this retention period applies (e.g. regulation)
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+});
+
+/**
+ * AUDIT ARCHIVES TABLE
+ * 
+ * Gzipped JSONL files of audit rows pruned by a retention policy. Each file is
+ * checksummed so it can be verified before being restored for searching.
+ */
+export const auditArchives = pgTable("audit_archives", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  policyId: integer("policy_id").references(() => auditRetentionPolicies.id, { onDelete: "set null" }), // Policy that expired the rows
+  storageType: varchar("storage_type", { length: 10 }).notNull(), // s3 | local
+  storageKey: text("storage_key").notNull(), // S3 key (or local path when S3 is unavailable)
+  rowCount: integer("row_count").notNull(), // Audit rows in the file
+  firstAuditId: integer("first_audit_id").notNull(), // Lowest audit ID in the file
+  lastAuditId: integer("last_audit_id").notNull(), // Highest audit ID in the file
+  firstChangedAt: timestamp("first_changed_at"), // Oldest row
+  lastChangedAt: timestamp("last_changed_at"), // Newest row
+  sha256: varchar("sha256", { length: 64 }).notNull(), // Checksum of the gzipped file
+  sizeBytes: integer("size_bytes").notNull(), // Size of the gzipped file
+  restoredAt: timestamp("restored_at"), // When the rows were loaded into archived_audits (null when not loaded)
+  restoredBy: integer("restored_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+/**
+ * ARCHIVED AUDITS TABLE
+ * 
+ * Read-only copy of archived audit rows, loaded from an archive file on
+ * request so auditors can search old history. Rows keep their original audit
+ * IDs and hashes, and are removed again when the archive is unloaded.
+ */
+export const archivedAudits = pgTable("archived_audits", {
+  id: integer("id").primaryKey(), // Original audit ID
+  archiveId: integer("archive_id").references(() => auditArchives.id, { onDelete: "cascade" }).notNull(), // Archive the row was loaded from
+  tableName: varchar("table_name", { length: 50 }).notNull(),
+  recordId: integer("record_id").notNull(),
+  action: varchar("action", { length: 20 }).notNull(),
+  changedBy: integer("changed_by"), // Not a foreign key: the user may have been deleted since
+  impersonatedBy: integer("impersonated_by"),
+  changedAt: timestamp("changed_at"),
+  oldData: jsonb("old_data"),
+  newData: jsonb("new_data"),
+  previousHash: varchar("previous_hash", { length: 64 }),
+  hash: varchar("hash", { length: 64 })
+}, (table) => ({
+  tableRecordIdx: index("idx_archived_audits_table_record").on(table.tableName, table.recordId),
+  changedAtIdx: index("idx_archived_audits_changed_at").on(table.changedAt),
+  archiveIdx: index("idx_archived_audits_archive").on(table.archiveId)
+}));
+
+/**
+ * ENCRYPTION JOBS TABLE
+ * 
+ * Background re-encryption of every encrypted column under a new key. The job
+ * walks the encrypted tables in order and records its position (currentTable,
+ * lastId) in the same transaction that rewrites each batch, so it resumes where
+ * it stopped after a restart and only one instance works on it at a time.
+ */
+export const encryptionJobs = pgTable("encryption_jobs", {
+  id: serial("id").primaryKey(),
+  targetKeyId: varchar("target_key_id", { length: 32 }).notNull(), // Key values are moved to
+  status: varchar("status", { length: 20 }).default("running").notNull(), // running, completed, cancelled
+  currentTable: varchar("current_table", { length: 50 }), // Table being processed (null before the first batch)
+  lastId: integer("last_id").default(0).notNull(), // Last row of currentTable processed
+  scannedRows: integer("scanned_rows").default(0).notNull(),
+  reencryptedValues: integer("reencrypted_values").default(0).notNull(),
+  failedValues: integer("failed_values").default(0).notNull(), // Values that could not be decrypted (left unchanged)
+  lastError: text("last_error"),
+  startedBy: integer("started_by").references(() => users.id),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  statusIdx: index("idx_encryption_jobs_status").on(table.status)
+}));
+
+/**
+ * EMPLOYEE DUPLICATE CANDIDATES TABLE
+ * 
+ * Review queue of employee pairs that look like the same person (re-invited
+ * staff, rehires), filled by the duplicate scanner. Each pair is stored once
+ * with the lower employee ID first. The employee IDs are not foreign keys so a
+ * merged pair keeps its history after the duplicate record is deleted.
+ */
+export const employeeDuplicateCandidates = pgTable("employee_duplicate_candidates", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").notNull(), // Lower employee ID of the pair
+  duplicateEmployeeId: integer("duplicate_employee_id").notNull(), // Higher employee ID of the pair
+  reasons: jsonb("reasons").$type<EmployeeDuplicateReason[]>().notNull(), // Identifiers both records share
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, dismissed, merged
+  detectedAt: timestamp("detected_at").defaultNow().notNull(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow().notNull(), // Last scan that still matched the pair
+  reviewedBy: integer("reviewed_by").references(() => users.id, { onDelete: "set null" }),
+  reviewedAt: timestamp("reviewed_at"),
+  survivingEmployeeId: integer("surviving_employee_id"), // Record kept by the merge
+  mergeSummary: jsonb("merge_summary").$type<EmployeeMergeSummary>() // What the merge moved, dropped and filled in
+}, (table) => ({
+  pairIdx: uniqueIndex("idx_employee_duplicates_pair").on(table.employeeId, table.duplicateEmployeeId),
+  statusIdx: index("idx_employee_duplicates_status").on(table.status)
+}));
+
+/**
+ * EMPLOYEE SEPARATIONS TABLE
+ * 
+ * Offboarding of an employee: termination date, reason and rehire
+ * eligibility. Starting it creates the offboarding tasks (equipment return,
+ * payer notices); on the termination date the employee is marked terminated,
+ * their portal account and API keys are revoked, payer enrollments are ended
+ * and responsible-person assignments on clinic licenses are released.
+ */
+export const employeeSeparations = pgTable("employee_separations", {
+  id: serial("id").primaryKey(),
+  employeeId: integer("employee_id").references(() => employees.id, { onDelete: "cascade" }).notNull(),
+  terminationDate: date("termination_date").notNull(), // Last day of employment
+  reason: varchar("reason", { length: 30 }).notNull(), // One of EMPLOYEE_SEPARATION_REASONS
+  reasonDetails: text("reason_details"), // HR notes on the separation
+  eligibleForRehire: boolean("eligible_for_rehire").notNull(),
+  status: varchar("status", { length: 20 }).default("scheduled").notNull(), // scheduled, completed, cancelled
+  taskIds: jsonb("task_ids").$type<number[]>().default([]).notNull(), // Offboarding tasks created at the start
+  summary: jsonb("summary").$type<EmployeeSeparationSummary>(), // What completion changed
+  initiatedBy: integer("initiated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  cancelledAt: timestamp("cancelled_at"),
+  updatedAt: timestamp("updated_at").defaultNow().notNull()
+}, (table) => ({
+  employeeIdx: index("idx_employee_separations_employee").on(table.employeeId),
+  dueIdx: index("idx_employee_separations_due").on(table.status, table.terminationDate)
+}));
+
 /**
  * LOCATIONS TABLE
  * 
@@ -1200,7 +1515,15 @@ export const insertUserSchema = createInsertSchema(users).pick({
   passwordResetToken: true,
   passwordResetExpiresAt: true,
   failedLoginAttempts: true,
-  lockedUntil: true
+  lockedUntil: true,
+  requirePasswordChange: true,
+  mfaEnabled: true,
+  mfaSecret: true,
+  mfaRecoveryCodes: true,
+  mfaEnrolledAt: true,
+  oidcSubject: true,
+  scimExternalId: true,
+  passwordChangedAt: true
 }).partial({
   status: true,
   email: true,
@@ -1208,11 +1531,20 @@ export const insertUserSchema = createInsertSchema(users).pick({
   passwordResetToken: true,
   passwordResetExpiresAt: true,
   failedLoginAttempts: true,
-  lockedUntil: true
+  lockedUntil: true,
+  requirePasswordChange: true,
+  mfaEnabled: true,
+  mfaSecret: true,
+  mfaRecoveryCodes: true,
+  mfaEnrolledAt: true,
+  oidcSubject: true,
+  scimExternalId: true,
+  passwordChangedAt: true
 });
 
 export const insertEmployeeSchema = createInsertSchema(employees, {
-  dateOfBirth: z.coerce.date().nullable().optional(),
+  // Stored as text so it can be encrypted
+  dateOfBirth: z.coerce.date().transform(date => date.toISOString().split('T')[0]).nullable().optional(),
   dlIssueDate: z.coerce.date().nullable().optional(),
   dlExpirationDate: z.coerce.date().nullable().optional(),
   enumerationDate: z.coerce.date().nullable().optional(),
@@ -1229,6 +1561,12 @@ export const insertEmployeeSchema = createInsertSchema(employees, {
   approvedAt: z.coerce.date().nullable().optional()
 }).omit({
   id: true,
+  ssnHash: true,
+  dateOfBirthHash: true,
+  driversLicenseNumberHash: true,
+  deaNumberHash: true,
+  medicaidNumberHash: true,
+  medicarePtanNumberHash: true,
   createdAt: true,
   updatedAt: true
 }).refine((data) => {
@@ -1270,7 +1608,7 @@ export const insertStateLicenseSchema = createInsertSchema(stateLicenses, {
 export const insertDeaLicenseSchema = createInsertSchema(deaLicenses, {
   issueDate: z.coerce.date().nullable().optional(),
   expirationDate: z.coerce.date().nullable().optional()
-}).omit({ id: true }).refine((data) => {
+}).omit({ id: true, licenseNumberHash: true }).refine((data) => {
   if (data.expirationDate && data.issueDate) {
     return new Date(data.expirationDate) >= new Date(data.issueDate);
   }
@@ -1286,7 +1624,7 @@ export const insertBoardCertificationSchema = createInsertSchema(boardCertificat
   return true; // Allow if either date is missing
 }, { message: "Expiration date cannot be before issue date", path: ["expirationDate"] });
 export const insertDocumentSchema = createInsertSchema(documents).omit({ id: true, createdAt: true });
-export const insertEmergencyContactSchema = createInsertSchema(emergencyContacts).omit({ id: true });
+export const insertEmergencyContactSchema = createInsertSchema(emergencyContacts).omit({ id: true, phoneHash: true });
 export const insertTaxFormSchema = createInsertSchema(taxForms).omit({ id: true });
 export const insertTrainingSchema = createInsertSchema(trainings, {
   completionDate: z.coerce.date().nullable().optional(),
@@ -1307,6 +1645,29 @@ export const insertPayerEnrollmentSchema = createInsertSchema(payerEnrollments,
   return true; // Allow if either date is missing
 }, { message: "Termination date cannot be before effective date", path: ["terminationDate"] });
 export const insertIncidentLogSchema = createInsertSchema(incidentLogs).omit({ id: true });
+
+/**
+ * Reasons an employee can leave
+ */
+export const EMPLOYEE_SEPARATION_REASONS = [
+  'resignation',
+  'termination',
+  'retirement',
+  'layoff',
+  'contract_end',
+  'other'
+] as const;
+
+export const insertEmployeeSeparationSchema = createInsertSchema(employeeSeparations, {
+  terminationDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Termination date must be YYYY-MM-DD"),
+  reason: z.enum(EMPLOYEE_SEPARATION_REASONS),
+  reasonDetails: z.string().trim().max(2000).nullable().optional()
+}).pick({
+  terminationDate: true,
+  reason: true,
+  reasonDetails: true,
+  eligibleForRehire: true
+});
 export const insertTaskSchema = createInsertSchema(tasks, {
   dueDate: z.coerce.date()
 }).omit({ id: true, createdAt: true, updatedAt: true, completedAt: true, completedById: true });
@@ -1314,7 +1675,20 @@ export const insertTaskUpdateSchema = createInsertSchema(taskUpdates).omit({ id:
 export const insertEmployeeTaskSchema = createInsertSchema(employeeTasks, {
   dueDate: z.coerce.date().nullable().optional()
 }).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertAuditSchema = createInsertSchema(audits).omit({ id: true, changedAt: true });
+export const insertAuditSchema = createInsertSchema(audits).omit({ id: true, changedAt: true, previousHash: true, hash: true });
+export const insertAuditCheckpointSchema = createInsertSchema(auditCheckpoints).omit({ id: true, createdAt: true });
+export const insertAuditRetentionPolicySchema = createInsertSchema(auditRetentionPolicies).omit({
+  id: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  tableName: z.string().trim().regex(/^[a-z_]{1,50}$/, "Table must be an audited table name").nullable().optional(),
+  action: z.string().trim().regex(/^[A-Z_]{1,20}$/, "Action must be an audit action such as UPDATE").nullable().optional(),
+  retentionDays: z.number().int().min(30, "Retention must be at least 30 days").max(36500, "Retention must be at most 100 years"),
+  description: z.string().trim().max(500).nullable().optional()
+});
+export const insertAuditArchiveSchema = createInsertSchema(auditArchives).omit({ id: true, restoredAt: true, restoredBy: true, createdAt: true });
 
 // Types
 export type User = typeof users.$inferSelect;
@@ -1353,6 +1727,230 @@ export type EmployeeTask = typeof employeeTasks.$inferSelect;
 export type InsertEmployeeTask = z.infer<typeof insertEmployeeTaskSchema>;
 export type Audit = typeof audits.$inferSelect;
 export type InsertAudit = z.infer<typeof insertAuditSchema>;
+export type AuditCheckpoint = typeof auditCheckpoints.$inferSelect;
+export type SiemExportCheckpoint = typeof siemExportCheckpoints.$inferSelect;
+export type InsertAuditCheckpoint = z.infer<typeof insertAuditCheckpointSchema>;
+export type AuditRetentionPolicy = typeof auditRetentionPolicies.$inferSelect;
+export type InsertAuditRetentionPolicy = z.infer<typeof insertAuditRetentionPolicySchema>;
+export type AuditArchive = typeof auditArchives.$inferSelect;
+export type InsertAuditArchive = z.infer<typeof insertAuditArchiveSchema>;
+export type ArchivedAudit = typeof archivedAudits.$inferSelect;
+export type EncryptionJob = typeof encryptionJobs.$inferSelect;
+export type EmployeeDuplicateCandidate = typeof employeeDuplicateCandidates.$inferSelect;
+export type EmployeeSeparation = typeof employeeSeparations.$inferSelect;
+export type InsertEmployeeSeparation = z.infer<typeof insertEmployeeSeparationSchema>;
+
+/**
+ * Result of verifying the audit hash chain (GET /api/audits/verify)
+ */
+export interface AuditChainVerification {
+  /** No breaks in the chain and every checkpoint matched */
+  valid: boolean;
+  verifiedAt: string;
+  /** Chained rows checked */
+  checked: number;
+  /** Rows written before chaining was enabled, which carry no hash */
+  legacyRows: number;
+  /** Links that skip over rows pruned into audit archives */
+  archivedGaps: number;
+  firstChainedId: number | null;
+  lastChainedId: number | null;
+  /** Rows whose hash or link to the previous row does not match (first 100) */
+  breaks: Array<{
+    auditId: number;
+    reason: 'hash_mismatch' | 'previous_hash_mismatch' | 'missing_hash';
+  }>;
+  checkpoints: {
+    checked: number;
+    /** Checkpoints that no longer match the chain or carry a bad signature */
+    failures: Array<{
+      date: string;
+      reason: 'invalid_signature' | 'audit_missing' | 'hash_mismatch';
+    }>;
+  };
+}
+
+/**
+ * One field that differs between an audit row's oldData and newData
+ */
+export interface AuditFieldChange {
+  field: string;
+  change: 'added' | 'removed' | 'changed';
+  oldValue: unknown;
+  newValue: unknown;
+  /** Sensitive field; values are masked */
+  masked: boolean;
+}
+
+/**
+ * Read-access event on an employee's protected data, as listed in the
+ * per-employee access report
+ */
+export interface AccessEvent {
+  id: number;
+  event: 'phi_access' | 'document_download';
+  accessedAt: Date | null;
+  accessedBy: number | null;
+  username: string | null;
+  impersonatedBy: number | null;
+  /** Sensitive fields served (for phi_access) */
+  fields: string[];
+  documentId: number | null;
+  documentType: string | null;
+  fileName: string | null;
+  route: string | null;
+  ipAddress: string | null;
+  apiKeyId: number | null;
+}
+
+/**
+ * Record a bulk employee import column can be mapped to
+ */
+export type EmployeeImportSection = 'employee' | 'stateLicense' | 'deaLicense' | 'boardCertification';
+
+/**
+ * Column of the employee or credential tables a spreadsheet column can fill
+ */
+export interface EmployeeImportField {
+  /** Section and column, e.g. "employee.npiNumber" or "stateLicense.expirationDate" */
+  key: string;
+  section: EmployeeImportSection;
+  label: string;
+  /** Needed for the record to be created (child records only when the row has one) */
+  required: boolean;
+}
+
+/**
+ * Uploaded spreadsheet as shown in the import wizard's mapping step
+ */
+export interface EmployeeImportPreview {
+  headers: string[];
+  /** First data rows */
+  sampleRows: string[][];
+  rowCount: number;
+  /** Suggested field key for each header, null when none matched */
+  mapping: Record<string, string | null>;
+  fields: EmployeeImportField[];
+}
+
+/**
+ * Outcome of one spreadsheet row in an import dry run
+ */
+export interface EmployeeImportRow {
+  /** Row number as the spreadsheet shows it (the header is row 1) */
+  row: number;
+  status: 'valid' | 'invalid' | 'duplicate';
+  /** Work email of the employee the row belongs to */
+  workEmail: string | null;
+  name: string | null;
+  errors: string[];
+}
+
+/**
+ * Dry-run report of a bulk employee import. Counts cover the employees and
+ * credentials that would be created from the valid rows.
+ */
+export interface EmployeeImportReport {
+  totalRows: number;
+  employees: number;
+  stateLicenses: number;
+  deaLicenses: number;
+  boardCertifications: number;
+  invalidRows: number;
+  duplicateRows: number;
+  rows: EmployeeImportRow[];
+  /** Employees created, once committed */
+  createdEmployeeIds?: number[];
+}
+
+/**
+ * Employee and credentials written together by a bulk import, with dates as
+ * YYYY-MM-DD
+ */
+export interface EmployeeImportRecord {
+  employee: typeof employees.$inferInsert;
+  stateLicenses: Array<Omit<typeof stateLicenses.$inferInsert, 'employeeId'>>;
+  deaLicenses: Array<Omit<typeof deaLicenses.$inferInsert, 'employeeId'>>;
+  boardCertifications: Array<Omit<typeof boardCertifications.$inferInsert, 'employeeId'>>;
+}
+
+/**
+ * What completing an offboarding changed
+ */
+export interface EmployeeSeparationSummary {
+  /** Employee status before it was set to terminated */
+  previousStatus: string | null;
+  /** Portal account disabled (null when the employee had none) */
+  userId: number | null;
+  revokedApiKeys: number;
+  revokedSessions: number;
+  /** Payer enrollments ended on the termination date */
+  endedPayerEnrollments: number[];
+  /** Responsible-person records of the employee set inactive */
+  releasedResponsiblePersons: number[];
+  /** Clinic licenses left without their primary or backup responsible person */
+  releasedClinicLicenses: number[];
+}
+
+/**
+ * Identifier two employee records share: NPI number, SSN (compared through its
+ * blind index), date of birth with first and last name, or an email address
+ */
+export type EmployeeDuplicateReason = 'npi' | 'ssn' | 'dob_name' | 'email';
+
+/**
+ * Record of an employee merge, kept on the duplicate candidate
+ */
+export interface EmployeeMergeSummary {
+  survivingEmployeeId: number;
+  mergedEmployeeId: number;
+  /** IDs of the child rows repointed to the surviving employee, by table */
+  movedRecords: Record<string, number[]>;
+  /** IDs of the merged employee's rows deleted because the survivor already had one (one-per-employee tables) */
+  droppedRecords: Record<string, number[]>;
+  /** Empty fields of the surviving employee filled in from the merged record */
+  filledFields: string[];
+  mergedAt: string;
+  mergedBy: number | null;
+}
+
+/**
+ * One side of a duplicate pair, as shown in the review queue
+ */
+export interface EmployeeDuplicateSide {
+  id: number;
+  firstName: string;
+  lastName: string;
+  workEmail: string;
+  personalEmail: string | null;
+  npiNumber: string | null;
+  jobTitle: string | null;
+  status: string | null;
+  createdAt: Date | null;
+}
+
+/**
+ * Duplicate candidate with both employee records (null once deleted)
+ */
+export interface EmployeeDuplicateCandidateSummary extends EmployeeDuplicateCandidate {
+  employee: EmployeeDuplicateSide | null;
+  duplicate: EmployeeDuplicateSide | null;
+}
+export type SessionRecord = typeof session.$inferSelect;
+
+/**
+ * Signed-in session as shown to users and admins ("Where you're signed in").
+ * `id` is an opaque hash of the session ID; the raw ID is never exposed.
+ */
+export interface ActiveSession {
+  id: string;
+  device: string;
+  ipAddress: string | null;
+  createdAt: string | null;
+  lastActiveAt: string | null;
+  expiresAt: string;
+  current: boolean;
+}
 
 /**
  * S3_CONFIGURATION TABLE
@@ -1421,6 +2019,59 @@ export const apiKeyRotations = pgTable("api_key_rotations", {
   reason: text("reason") // Reason for rotation
 });
 
+/**
+ * API KEY USAGE TABLE
+ * 
+ * Hourly request counters per API key and route, kept in the database so
+ * usage survives restarts and can be charted per key. Blocked attempts are
+ * requests rejected after the key was identified (IP not allowlisted, bad
+ * signature, rate limited, expired or revoked key).
+ */
+export const apiKeyUsage = pgTable("api_key_usage", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(), // Key the requests were made with
+  bucket: timestamp("bucket").notNull(), // Start of the hour the requests fall in
+  method: varchar("method", { length: 10 }).notNull(), // HTTP method
+  route: varchar("route", { length: 255 }).notNull(), // Express route pattern (e.g. /api/employees/:id)
+  requestCount: integer("request_count").default(0).notNull(), // All requests, including blocked ones
+  errorCount: integer("error_count").default(0).notNull(), // Responses with status 400 or above
+  blockedCount: integer("blocked_count").default(0).notNull(), // Requests rejected by key checks
+  lastBlockedIp: varchar("last_blocked_ip", { length: 45 }), // Client address of the most recent blocked request
+  updatedAt: timestamp("updated_at").defaultNow().notNull() // Last request in this bucket
+}, (table) => ({
+  bucketIdx: uniqueIndex("idx_api_key_usage_bucket").on(table.apiKeyId, table.bucket, table.method, table.route)
+}));
+
+/**
+ * Rate limit counters table
+ * Hit counts per client and window for the API rate limiters, shared by all
+ * server instances and kept across restarts. Keys are "<limiter>:<client>",
+ * e.g. "api-key:12" or "public:203.0.113.7".
+ */
+export const rateLimitCounters = pgTable("rate_limit_counters", {
+  key: varchar("key", { length: 255 }).primaryKey(), // Limiter name and client identifier
+  hits: integer("hits").default(0).notNull(), // Requests counted in the current window
+  resetAt: timestamp("reset_at").notNull() // End of the current window
+}, (table) => ({
+  resetAtIdx: index("idx_rate_limit_counters_reset_at").on(table.resetAt)
+}));
+
+/**
+ * Request signature nonces table
+ * Nonces of signed API key requests, kept until the request timestamp falls
+ * outside the signature tolerance window. A request is accepted only if its
+ * row can be inserted, so a replay is rejected by every server instance and
+ * after restarts.
+ */
+export const requestSignatureNonces = pgTable("request_signature_nonces", {
+  apiKeyId: integer("api_key_id").references(() => apiKeys.id, { onDelete: "cascade" }).notNull(), // Key that signed the request
+  nonce: text("nonce").notNull(), // X-HRMS-Nonce header value
+  expiresAt: timestamp("expires_at").notNull() // When the request timestamp leaves the tolerance window
+}, (table) => ({
+  pk: primaryKey({ columns: [table.apiKeyId, table.nonce] }),
+  expiresAtIdx: index("idx_request_signature_nonces_expires_at").on(table.expiresAt)
+}));
+
 // Add relations for API keys
 export const apiKeysRelations = relations(apiKeys, ({ one, many }) => ({
   user: one(users, { fields: [apiKeys.userId], references: [users.id] }),
@@ -1455,6 +2106,12 @@ export const insertApiKeySchema = createInsertSchema(apiKeys).omit({
   }).optional()
 });
 
+// Insert schema for API key usage counters
+export const insertApiKeyUsageSchema = createInsertSchema(apiKeyUsage).omit({
+  id: true,
+  updatedAt: true
+});
+
 export const insertApiKeyRotationSchema = createInsertSchema(apiKeyRotations).omit({
   id: true,
   rotatedAt: true
@@ -1470,11 +2127,338 @@ export const insertS3ConfigurationSchema = createInsertSchema(s3Configuration).o
 export type S3Configuration = typeof s3Configuration.$inferSelect;
 export type InsertS3Configuration = z.infer<typeof insertS3ConfigurationSchema>;
 
+/**
+ * SECURITY_SETTINGS TABLE
+ * 
+ * System-wide authentication and account security policy.
+ * Single-row configuration table (most recently updated row wins).
+ * Only admin users can view and modify these settings.
+ */
+export const securitySettings = pgTable("security_settings", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  mfaRequiredRoles: text("mfa_required_roles").array().notNull().default(sql`'{}'::text[]`), // Roles that must enroll in TOTP MFA
+  passwordLoginDisabledRoles: text("password_login_disabled_roles").array().notNull().default(sql`'{}'::text[]`), // Roles that must sign in through SSO
+  ssoRoleMappings: jsonb("sso_role_mappings"), // IdP group names per role: { admin: [], hr: [], employee: [] }
+  ssoAutoProvision: boolean("sso_auto_provision").default(true).notNull(), // Create users on first SSO login when a group maps to a role
+  passwordMinLength: integer("password_min_length").default(8).notNull(), // Minimum password length
+  passwordRequireUppercase: boolean("password_require_uppercase").default(true).notNull(), // Require A-Z
+  passwordRequireLowercase: boolean("password_require_lowercase").default(true).notNull(), // Require a-z
+  passwordRequireNumber: boolean("password_require_number").default(true).notNull(), // Require 0-9
+  passwordRequireSymbol: boolean("password_require_symbol").default(true).notNull(), // Require a non-alphanumeric character
+  passwordBlockBreached: boolean("password_block_breached").default(true).notNull(), // Reject passwords on the bundled breached list
+  passwordHistoryCount: integer("password_history_count").default(0).notNull(), // Prevent reuse of the last N passwords (0 = off)
+  passwordMaxAgeDays: integer("password_max_age_days").default(0).notNull(), // Force a change after N days (0 = never)
+  updatedAt: timestamp("updated_at").defaultNow(), // Last update timestamp
+  updatedBy: integer("updated_by").references(() => users.id) // User who last updated
+});
+
+/**
+ * PASSWORD_HISTORY TABLE
+ * 
+ * Hashes of passwords previously set by each user, used to prevent reuse.
+ * Trimmed to the configured history length whenever a password is set.
+ */
+export const passwordHistory = pgTable("password_history", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(), // Owner of the password
+  passwordHash: varchar("password_hash", { length: 255 }).notNull(), // Scrypt hash (same format as users.password_hash)
+  createdAt: timestamp("created_at").defaultNow().notNull() // When the password was set
+}, (table) => ({
+  userIdx: index("idx_password_history_user").on(table.userId, table.createdAt)
+}));
+
+/**
+ * ROLES TABLE
+ * 
+ * Admin-defined roles built from the permission catalog. Users reference a
+ * custom role by storing its key in users.role; built-in roles (admin, hr,
+ * viewer, employee, prospective_employee) are defined in code.
+ */
+export const roles = pgTable("roles", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  key: varchar("key", { length: 50 }).unique().notNull(), // Identifier stored in users.role (e.g. credentialing_specialist)
+  name: varchar("name", { length: 100 }).notNull(), // Display name
+  description: text("description"), // What the role is for
+  permissions: text("permissions").array().notNull().default(sql`'{}'::text[]`), // Granted scopes (same vocabulary as API keys)
+  createdBy: integer("created_by").references(() => users.id), // Admin who created the role
+  createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+  updatedAt: timestamp("updated_at").defaultNow().notNull() // Last update timestamp
+});
+
+/**
+ * USER LOCATIONS TABLE
+ * 
+ * Locations a user manages. Users with assignments (other than admins) only
+ * see employees, clinic licenses, compliance documents and tasks for those
+ * locations and their sub-locations. Users without assignments are not
+ * location-restricted.
+ */
+export const userLocations = pgTable("user_locations", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(), // Restricted user
+  locationId: integer("location_id").references(() => locations.id, { onDelete: "cascade" }).notNull(), // Managed location (sub-locations included)
+  createdAt: timestamp("created_at").defaultNow().notNull() // When the assignment was made
+}, (table) => ({
+  userLocationIdx: uniqueIndex("idx_user_locations_user_location").on(table.userId, table.locationId)
+}));
+
+/**
+ * PASSKEYS TABLE
+ * 
+ * WebAuthn credentials employees register as a passwordless alternative to
+ * their password. Platform (Touch ID, Windows Hello) and roaming (security
+ * key, phone) authenticators are both supported.
+ */
+export const passkeys = pgTable("passkeys", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(), // Credential owner
+  credentialId: varchar("credential_id", { length: 512 }).unique().notNull(), // Base64url credential ID from the authenticator
+  publicKey: text("public_key").notNull(), // Base64url COSE public key
+  counter: integer("counter").default(0).notNull(), // Signature counter, used to detect cloned authenticators
+  transports: text("transports").array(), // Hints such as internal, usb, nfc, ble, hybrid
+  deviceType: varchar("device_type", { length: 20 }), // singleDevice or multiDevice (synced)
+  backedUp: boolean("backed_up").default(false).notNull(), // Whether the credential is synced to a cloud account
+  name: varchar("name", { length: 100 }).notNull(), // User-facing label (e.g. "Front desk security key")
+  createdAt: timestamp("created_at").defaultNow().notNull(), // Registration timestamp
+  lastUsedAt: timestamp("last_used_at") // Last successful sign-in
+}, (table) => ({
+  userIdx: index("idx_passkeys_user").on(table.userId)
+}));
+
+/**
+ * WEBHOOK ENDPOINTS TABLE
+ * 
+ * Admin-managed subscriptions that receive HR events (employee approved,
+ * license expired, form completed, invitation accepted) as signed HTTP POSTs
+ * for downstream systems such as payroll, EMR provisioning and badge access.
+ */
+export const webhookEndpoints = pgTable("webhook_endpoints", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  name: varchar("name", { length: 100 }).notNull(), // Display name (e.g. "Payroll sync")
+  url: text("url").notNull(), // HTTPS URL that receives the POSTs
+  description: text("description"), // What the receiving system does with the events
+  events: text("events").array().notNull().default(sql`'{}'::text[]`), // Subscribed event types ('*' for all)
+  secret: text("secret").notNull(), // Signing secret, encrypted at rest
+  active: boolean("active").default(true).notNull(), // Paused endpoints receive nothing
+  createdBy: integer("created_by").references(() => users.id), // Admin who created the endpoint
+  createdAt: timestamp("created_at").defaultNow().notNull(), // Creation timestamp
+  updatedAt: timestamp("updated_at").defaultNow().notNull() // Last update timestamp
+});
+
+/**
+ * WEBHOOK DELIVERIES TABLE
+ * 
+ * One row per event per endpoint. Failed deliveries are retried with
+ * backoff; after the last attempt they are dead-lettered and stay here until
+ * an admin redelivers them.
+ */
+export const webhookDeliveries = pgTable("webhook_deliveries", {
+  id: serial("id").primaryKey(), // Auto-incrementing primary key
+  endpointId: integer("endpoint_id").references(() => webhookEndpoints.id, { onDelete: "cascade" }).notNull(), // Receiving endpoint
+  eventId: varchar("event_id", { length: 50 }).notNull(), // Event identifier shared by all deliveries of one event
+  eventType: varchar("event_type", { length: 50 }).notNull(), // e.g. employee.approved
+  payload: jsonb("payload").notNull(), // Exact JSON body sent
+  status: varchar("status", { length: 20 }).default("pending").notNull(), // pending, retrying, succeeded, dead
+  attempts: integer("attempts").default(0).notNull(), // Attempts made so far
+  nextAttemptAt: timestamp("next_attempt_at"), // When the next attempt is due (null once finished)
+  lastAttemptAt: timestamp("last_attempt_at"), // When the last attempt was made
+  responseStatus: integer("response_status"), // HTTP status of the last attempt
+  responseBody: text("response_body"), // Start of the last response body
+  error: text("error"), // Network error or non-2xx summary from the last attempt
+  deliveredAt: timestamp("delivered_at"), // When a 2xx response was received
+  createdAt: timestamp("created_at").defaultNow().notNull() // When the event was queued
+}, (table) => ({
+  endpointIdx: index("idx_webhook_deliveries_endpoint").on(table.endpointId, table.createdAt),
+  dueIdx: index("idx_webhook_deliveries_due").on(table.status, table.nextAttemptAt)
+}));
+
+/**
+ * IdP group names that grant each role on single sign-on.
+ * When a user belongs to groups for several roles the highest role wins
+ * (admin, then hr, then employee).
+ */
+export const ssoRoleMappingsSchema = z.object({
+  admin: z.array(z.string()).default([]),
+  hr: z.array(z.string()).default([]),
+  employee: z.array(z.string()).default([])
+});
+
+export type SsoRoleMappings = z.infer<typeof ssoRoleMappingsSchema>;
+
+// Insert schema for security settings
+export const insertSecuritySettingsSchema = createInsertSchema(securitySettings).omit({
+  id: true,
+  updatedAt: true
+}).extend({
+  mfaRequiredRoles: z.array(z.string()).default([]),
+  passwordLoginDisabledRoles: z.array(z.string()).default([]),
+  ssoRoleMappings: ssoRoleMappingsSchema.nullable().optional(),
+  passwordMinLength: z.number().int().min(8).max(128).optional(),
+  passwordHistoryCount: z.number().int().min(0).max(24).optional(),
+  passwordMaxAgeDays: z.number().int().min(0).max(365).optional()
+});
+
+// Insert schema for password history
+export const insertPasswordHistorySchema = createInsertSchema(passwordHistory).omit({
+  id: true,
+  createdAt: true
+});
+
+// Insert schema for custom roles
+export const insertRoleSchema = createInsertSchema(roles).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  key: z.string().regex(/^[a-z][a-z0-9_]{2,49}$/, "Key must be 3-50 lowercase letters, numbers or underscores, starting with a letter"),
+  name: z.string().trim().min(1, "Name is required").max(100),
+  description: z.string().max(500).nullable().optional(),
+  permissions: z.array(z.string()).default([])
+});
+
+// Insert schema for passkeys
+export const insertPasskeySchema = createInsertSchema(passkeys).omit({
+  id: true,
+  createdAt: true,
+  lastUsedAt: true
+});
+
+// Insert schema for webhook endpoints
+export const insertWebhookEndpointSchema = createInsertSchema(webhookEndpoints).omit({
+  id: true,
+  secret: true,
+  createdBy: true,
+  createdAt: true,
+  updatedAt: true
+}).extend({
+  name: z.string().trim().min(1, "Name is required").max(100),
+  url: z.string().url("Enter a valid URL"),
+  description: z.string().max(500).nullable().optional(),
+  events: z.array(z.string()).min(1, "Select at least one event")
+});
+
+// Insert schema for webhook deliveries
+export const insertWebhookDeliverySchema = createInsertSchema(webhookDeliveries).omit({
+  id: true,
+  createdAt: true
+});
+
+// Types for custom roles
+export type Role = typeof roles.$inferSelect;
+export type InsertRole = z.infer<typeof insertRoleSchema>;
+
+/**
+ * Permission catalog entry (GET /api/permissions) used to build custom
+ * roles and API keys.
+ */
+export interface PermissionDefinition {
+  /** Permission scope (e.g. 'read:licenses') */
+  key: string;
+  /** Short label within the group (e.g. 'Read') */
+  label: string;
+  /** Resource group for the permission matrix */
+  group: string;
+  /** What the permission allows */
+  description: string;
+}
+
+/**
+ * Built-in or custom role as listed on the roles screen.
+ * Built-in roles have a null `id` and cannot be edited.
+ */
+export interface RoleSummary {
+  id: number | null;
+  key: string;
+  name: string;
+  description: string | null;
+  permissions: string[];
+  builtIn: boolean;
+  userCount: number;
+}
+
+// Types for user location assignments
+export type UserLocation = typeof userLocations.$inferSelect;
+
+// Types for webhooks
+export type WebhookEndpoint = typeof webhookEndpoints.$inferSelect;
+export type InsertWebhookEndpoint = z.infer<typeof insertWebhookEndpointSchema>;
+export type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+export type InsertWebhookDelivery = z.infer<typeof insertWebhookDeliverySchema>;
+
+/**
+ * Event type that webhook endpoints can subscribe to
+ * (GET /api/settings/webhooks/events).
+ */
+export interface WebhookEventDefinition {
+  /** Event type sent in X-Webhook-Event (e.g. 'employee.approved') */
+  type: string;
+  /** When the event is sent */
+  description: string;
+}
+
+/**
+ * Webhook endpoint as listed to admins. The signing secret is never
+ * returned after creation or rotation.
+ */
+export interface WebhookEndpointSummary {
+  id: number;
+  name: string;
+  url: string;
+  description: string | null;
+  events: string[];
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+  /** Deliveries by status (pending, retrying, succeeded, dead) */
+  deliveryCounts: Record<string, number>;
+}
+
+// Types for passkeys
+export type Passkey = typeof passkeys.$inferSelect;
+export type InsertPasskey = z.infer<typeof insertPasskeySchema>;
+
+/**
+ * Passkey as listed to its owner and to admins. The credential ID and public
+ * key are never exposed.
+ */
+export interface PasskeySummary {
+  id: number;
+  name: string;
+  deviceType: string | null;
+  backedUp: boolean;
+  createdAt: string;
+  lastUsedAt: string | null;
+}
+
+// Types for security settings
+export type SecuritySettings = typeof securitySettings.$inferSelect;
+export type InsertSecuritySettings = z.infer<typeof insertSecuritySettingsSchema>;
+export type PasswordHistory = typeof passwordHistory.$inferSelect;
+export type InsertPasswordHistory = z.infer<typeof insertPasswordHistorySchema>;
+
 // Types for API keys
 export type ApiKey = typeof apiKeys.$inferSelect;
 export type InsertApiKey = z.infer<typeof insertApiKeySchema>;
 export type ApiKeyRotation = typeof apiKeyRotations.$inferSelect;
 export type InsertApiKeyRotation = z.infer<typeof insertApiKeyRotationSchema>;
+export type ApiKeyUsage = typeof apiKeyUsage.$inferSelect;
+export type InsertApiKeyUsage = z.infer<typeof insertApiKeyUsageSchema>;
+export type RateLimitCounter = typeof rateLimitCounters.$inferSelect;
+
+/**
+ * Usage analytics for one API key (GET /api/settings/api-keys/:id/usage)
+ */
+export interface ApiKeyUsageSummary {
+  /** Days covered, ending today */
+  days: number;
+  totals: { requests: number; errors: number; blocked: number; errorRate: number };
+  /** One entry per day, oldest first, including days without requests */
+  daily: Array<{ date: string; requests: number; errors: number; blocked: number }>;
+  /** Routes hit with the key, busiest first */
+  endpoints: Array<{ method: string; route: string; requests: number; errors: number; blocked: number; errorRate: number }>;
+  /** Client address of the most recent blocked request */
+  lastBlockedIp: string | null;
+}
 
 // Insert schemas for employee invitations
 export const insertEmployeeInvitationSchema = createInsertSchema(employeeInvitations).omit({
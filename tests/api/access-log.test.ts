@@ -0,0 +1,114 @@
+/**
+ * PHI Access Log API Tests
+ *
+ * Tests read-access logging of sensitive employee fields and document
+ * downloads, and the per-employee "who accessed this record" report.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { db } from '../../server/db';
+import { employees } from '../../shared/schema';
+
+/**
+ * Access events are written after the response finishes
+ */
+const waitForAccessLog = () => new Promise(resolve => setTimeout(resolve, 100));
+
+describe('PHI Access Log API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Create an employee with sensitive fields filled in
+   */
+  async function createSensitiveEmployee() {
+    const employee = await testDb.createTestEmployee({
+      firstName: 'Jane',
+      lastName: 'Doe',
+      workEmail: 'jane.doe@hospital.com'
+    });
+    await db.update(employees)
+      .set({ dateOfBirth: '1980-04-02', caqhLoginId: 'jdoe' })
+      .where(eq(employees.id, employee.id));
+    return employee;
+  }
+
+  test('should log who viewed sensitive employee fields', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    const employee = await createSensitiveEmployee();
+
+    await hrUser.agent.get(`/api/employees/${employee.id}`).expect(200);
+    await waitForAccessLog();
+
+    const response = await adminUser.agent.get(`/api/employees/${employee.id}/access-log`).expect(200);
+
+    expect(response.body.total).toBe(1);
+    expect(response.body.events[0]).toMatchObject({
+      event: 'phi_access',
+      accessedBy: hrUser.user.id,
+      username: 'hr@test.com',
+      fields: expect.arrayContaining(['dateOfBirth', 'caqhLoginId']),
+      route: '/api/employees/:id'
+    });
+  });
+
+  test('should not log records without sensitive values', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const employee = await testDb.createTestEmployee({
+      firstName: 'John',
+      lastName: 'Smith',
+      workEmail: 'john.smith@hospital.com'
+    });
+
+    await adminUser.agent.get(`/api/employees/${employee.id}`).expect(200);
+    await waitForAccessLog();
+
+    const response = await adminUser.agent.get(`/api/employees/${employee.id}/access-log`).expect(200);
+    expect(response.body).toMatchObject({ events: [], total: 0 });
+  });
+
+  test('should include document downloads in the employee report', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const employee = await createSensitiveEmployee();
+
+    const upload = await adminUser.agent
+      .post('/api/documents/upload')
+      .field('employeeId', employee.id.toString())
+      .field('documentType', 'license')
+      .attach('document', Buffer.from('PDF content'), 'license.pdf')
+      .expect(201);
+
+    await adminUser.agent.get(`/api/documents/${upload.body.id}/download`).expect(200);
+    await waitForAccessLog();
+
+    const response = await adminUser.agent.get(`/api/employees/${employee.id}/access-log`).expect(200);
+    expect(response.body.events).toEqual(expect.arrayContaining([
+      expect.objectContaining({ event: 'document_download', documentId: upload.body.id, documentType: 'license' })
+    ]));
+  });
+
+  test('should restrict the report to admin and HR', async () => {
+    const { viewerUser } = await createTestUsers(app);
+    const employee = await createSensitiveEmployee();
+
+    await viewerUser.agent.get(`/api/employees/${employee.id}/access-log`).expect(403);
+  });
+
+  test('should return 404 for unknown employees', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    await adminUser.agent.get('/api/employees/999999/access-log').expect(404);
+  });
+});
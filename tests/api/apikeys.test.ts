@@ -9,6 +9,7 @@ import request from 'supertest';
 import { getTestApp } from '../utils/test-app';
 import { testDb } from '../utils/test-db';
 import { createTestUsers, testApiKeyData } from '../utils/auth-helpers';
+import { signRequest } from '../../server/services/requestSigningService';
 
 describe('API Key Management API', () => {
   let app: any;
@@ -430,4 +431,200 @@ describe('API Key Management API', () => {
         .expect(403);
     });
   });
-});
\ No newline at end of file
+
+  describe('Request Signing', () => {
+    test('should require signed requests once signing is enabled', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({ name: 'Signed Key', permissions: ['read:employees'], environment: 'test' })
+        .expect(201);
+
+      const enabled = await adminUser.agent
+        .post(`/api/settings/api-keys/${created.body.id}/signing`)
+        .expect(200);
+      expect(enabled.body.signingSecret).toMatch(/^hrms_sig_/);
+
+      const list = await adminUser.agent.get('/api/settings/api-keys').expect(200);
+      expect(list.body.find((key: any) => key.id === created.body.id).signingEnabled).toBe(true);
+
+      // The bearer key alone is no longer enough
+      const unsigned = await request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(401);
+      expect(unsigned.body.error).toBe('This API key requires signed requests');
+
+      const timestamp = String(Math.floor(Date.now() / 1000));
+      const signature = signRequest(enabled.body.signingSecret, {
+        method: 'GET',
+        path: '/api/employees',
+        timestamp,
+        nonce: 'nonce-1'
+      });
+      const signed = () => request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .set('X-HRMS-Timestamp', timestamp)
+        .set('X-HRMS-Nonce', 'nonce-1')
+        .set('X-HRMS-Signature', signature);
+
+      await signed().expect(200);
+
+      // Replaying the same signed request is rejected
+      await signed().expect(401);
+    });
+
+    test('should accept unsigned requests again after signing is disabled', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({ name: 'Signed Key', permissions: ['read:employees'], environment: 'test' })
+        .expect(201);
+      await adminUser.agent.post(`/api/settings/api-keys/${created.body.id}/signing`).expect(200);
+      await adminUser.agent.delete(`/api/settings/api-keys/${created.body.id}/signing`).expect(200);
+
+      await request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(200);
+    });
+
+    test('should ignore signing settings supplied when creating a key', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({
+          name: 'Sneaky Key',
+          permissions: ['read:employees'],
+          metadata: { signing: { enabled: true, secret: 'attacker-chosen' } }
+        })
+        .expect(201);
+
+      const list = await adminUser.agent.get('/api/settings/api-keys').expect(200);
+      expect(list.body.find((key: any) => key.id === created.body.id).signingEnabled).toBe(false);
+    });
+  });
+
+  describe('IP Allowlists and Usage', () => {
+    test('should reject requests from outside the allowlist and count them as blocked', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({
+          name: 'Office Key',
+          permissions: ['read:employees'],
+          environment: 'test',
+          metadata: { allowedIps: ['203.0.113.0/24'] }
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(403);
+      expect(response.body.error).toBe('API key is not allowed from this IP address');
+
+      // Usage is recorded once the response has finished
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const usage = await adminUser.agent
+        .get(`/api/settings/api-keys/${created.body.id}/usage`)
+        .expect(200);
+      expect(usage.body.allowedIps).toEqual(['203.0.113.0/24']);
+      expect(usage.body.usage.totals).toMatchObject({ requests: 1, errors: 1, blocked: 1 });
+      expect(usage.body.usage.endpoints[0]).toMatchObject({ method: 'GET', route: '/api/employees', blocked: 1 });
+      expect(usage.body.usage.lastBlockedIp).toBeTruthy();
+    });
+
+    test('should allow requests once the client address is listed', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({ name: 'Office Key', permissions: ['read:employees'], environment: 'test', metadata: { allowedIps: ['203.0.113.7'] } })
+        .expect(201);
+
+      await adminUser.agent
+        .put(`/api/settings/api-keys/${created.body.id}/allowed-ips`)
+        .send({ allowedIps: ['127.0.0.1', '::1'] })
+        .expect(200);
+
+      await request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(200);
+
+      await new Promise(resolve => setTimeout(resolve, 100));
+
+      const usage = await adminUser.agent
+        .get(`/api/settings/api-keys/${created.body.id}/usage?days=7`)
+        .expect(200);
+      expect(usage.body.usage.days).toBe(7);
+      expect(usage.body.usage.daily).toHaveLength(7);
+      expect(usage.body.usage.totals).toMatchObject({ requests: 1, errors: 0, blocked: 0, errorRate: 0 });
+    });
+
+    test('should reject invalid allowlist entries', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({ name: 'Bad Key', permissions: ['read:employees'], metadata: { allowedIps: ['10.0.0.0/33'] } })
+        .expect(400);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({ name: 'Office Key', permissions: ['read:employees'], environment: 'test' })
+        .expect(201);
+
+      await adminUser.agent
+        .put(`/api/settings/api-keys/${created.body.id}/allowed-ips`)
+        .send({ allowedIps: ['not-an-ip'] })
+        .expect(400);
+    });
+  });
+
+  describe('Rate Limiting', () => {
+    test('should return RateLimit headers and reject requests over the key limit', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const created = await adminUser.agent
+        .post('/api/settings/api-keys')
+        .send({ name: 'Limited Key', permissions: ['read:employees'], environment: 'test', rateLimitPerHour: 10 })
+        .expect(201);
+
+      const first = await request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(200);
+      expect(first.headers['ratelimit-limit']).toBe('10');
+      expect(first.headers['ratelimit-remaining']).toBe('9');
+      expect(first.headers['ratelimit-policy']).toBe('10;w=3600');
+
+      for (let i = 0; i < 9; i++) {
+        await request(app)
+          .get('/api/employees')
+          .set('Authorization', `Bearer ${created.body.key}`)
+          .expect(200);
+      }
+
+      const limited = await request(app)
+        .get('/api/employees')
+        .set('Authorization', `Bearer ${created.body.key}`)
+        .expect(429);
+      expect(limited.body.error).toBe('Rate limit exceeded');
+      expect(limited.headers['retry-after']).toBeDefined();
+    });
+
+    test('should rate limit unauthenticated routes per IP address', async () => {
+      const response = await request(app).get('/api/invitations/unknown-token');
+      expect(response.headers['ratelimit-limit']).toBeDefined();
+      expect(response.headers['ratelimit-remaining']).toBeDefined();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * Audit Integrity API Tests
+ *
+ * Tests the tamper-evident audit log: hash chaining of new audit rows,
+ * chain verification after rows are edited or deleted directly in the
+ * database, and signed daily checkpoints.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import crypto from 'crypto';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+import { db } from '../../server/db';
+import { audits } from '../../shared/schema';
+import { canonicalJson, AUDIT_CHAIN_GENESIS_HASH } from '../../server/utils/auditHash';
+
+describe('Audit Integrity API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Write a few audit rows through the application
+   */
+  async function writeAudits(changedBy: number) {
+    const written = [];
+    for (let i = 1; i <= 3; i++) {
+      written.push(await storage.createAudit({
+        tableName: 'employees',
+        recordId: i,
+        action: 'UPDATE',
+        changedBy,
+        oldData: { status: 'inactive', nested: { b: 2, a: 1 } },
+        newData: { status: 'active' }
+      }));
+    }
+    return written;
+  }
+
+  test('should chain each audit row to the one before it', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await db.delete(audits);
+
+    const [first, second, third] = await writeAudits(adminUser.user.id);
+
+    expect(first.previousHash).toBe(AUDIT_CHAIN_GENESIS_HASH);
+    expect(second.previousHash).toBe(first.hash);
+    expect(third.previousHash).toBe(second.hash);
+    expect(first.hash).toMatch(/^[0-9a-f]{64}$/);
+
+    const result = await adminUser.agent.get('/api/audits/verify').expect(200);
+    expect(result.body.valid).toBe(true);
+    expect(result.body.checked).toBeGreaterThanOrEqual(3);
+    expect(result.body.breaks).toEqual([]);
+  });
+
+  test('should report rows edited or deleted in the database', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const [first, second, third] = await writeAudits(adminUser.user.id);
+
+    await db.update(audits).set({ newData: { status: 'terminated' } }).where(eq(audits.id, first.id));
+    await db.delete(audits).where(eq(audits.id, second.id));
+
+    const result = await adminUser.agent.get('/api/audits/verify').expect(200);
+    expect(result.body.valid).toBe(false);
+    expect(result.body.breaks).toEqual(expect.arrayContaining([
+      { auditId: first.id, reason: 'hash_mismatch' },
+      { auditId: third.id, reason: 'previous_hash_mismatch' }
+    ]));
+  });
+
+  test('should restrict verification to admins', async () => {
+    const { hrUser } = await createTestUsers(app);
+
+    await hrUser.agent.get('/api/audits/verify').expect(403);
+    await hrUser.agent.get('/api/audits/checkpoints').expect(403);
+    await hrUser.agent.post('/api/audits/checkpoints').send({}).expect(403);
+  });
+
+  test('should export a checkpoint with a verifiable signature', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await writeAudits(adminUser.user.id);
+
+    const created = await adminUser.agent.post('/api/audits/checkpoints').send({}).expect(201);
+    const again = await adminUser.agent.post('/api/audits/checkpoints').send({}).expect(201);
+    expect(again.body.id).toBe(created.body.id);
+
+    const exported = await adminUser.agent
+      .get(`/api/audits/checkpoints/${created.body.checkpointDate}/export`)
+      .expect(200);
+    expect(exported.headers['content-disposition']).toContain('audit-checkpoint-');
+    expect(exported.body.algorithm).toBe('Ed25519');
+
+    const valid = crypto.verify(
+      null,
+      Buffer.from(canonicalJson(exported.body.checkpoint)),
+      crypto.createPublicKey(exported.body.publicKey),
+      Buffer.from(exported.body.signature, 'base64')
+    );
+    expect(valid).toBe(true);
+
+    const list = await adminUser.agent.get('/api/audits/checkpoints').expect(200);
+    expect(list.body.checkpoints).toHaveLength(1);
+    expect(list.body.publicKey).toBe(exported.body.publicKey);
+  });
+
+  test('should reject checkpoints for days that have not ended', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const today = new Date().toISOString().slice(0, 10);
+
+    const response = await adminUser.agent.post('/api/audits/checkpoints').send({ date: today }).expect(400);
+    expect(response.body.error).toBe('Checkpoints can only be made for days that have ended');
+
+    await adminUser.agent.post('/api/audits/checkpoints').send({ date: 'yesterday' }).expect(400);
+    await adminUser.agent.get('/api/audits/checkpoints/2001-01-01/export').expect(404);
+  });
+});
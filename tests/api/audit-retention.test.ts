@@ -0,0 +1,96 @@
+/**
+ * Audit Retention API Tests
+ *
+ * Tests retention policy management, archiving expired audit rows and
+ * searching restored archives.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+import { db } from '../../server/db';
+import { audits } from '../../shared/schema';
+
+describe('Audit Retention API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  test('should validate and manage retention policies', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+
+    await adminUser.agent.post('/api/audits/retention/policies').send({ tableName: 'employees', retentionDays: 7 }).expect(400);
+
+    const created = await adminUser.agent
+      .post('/api/audits/retention/policies')
+      .send({ tableName: 'employees', retentionDays: 365, description: 'Keep a year online' })
+      .expect(201);
+    expect(created.body).toMatchObject({ tableName: 'employees', action: null, retentionDays: 365, active: true });
+
+    await adminUser.agent.post('/api/audits/retention/policies').send({ tableName: 'employees', retentionDays: 90 }).expect(409);
+
+    const updated = await adminUser.agent
+      .put(`/api/audits/retention/policies/${created.body.id}`)
+      .send({ retentionDays: 730 })
+      .expect(200);
+    expect(updated.body.retentionDays).toBe(730);
+
+    await hrUser.agent.get('/api/audits/retention/policies').expect(403);
+    await hrUser.agent.post('/api/audits/retention/policies').send({ tableName: 'users', retentionDays: 365 }).expect(403);
+    await hrUser.agent.put(`/api/audits/retention/policies/${created.body.id}`).send({ retentionDays: 30 }).expect(403);
+    await hrUser.agent.delete(`/api/audits/retention/policies/${created.body.id}`).expect(403);
+    await hrUser.agent.post('/api/audits/retention/run').expect(403);
+    await hrUser.agent.post('/api/audits/archives/1/restore').expect(403);
+    await hrUser.agent.delete('/api/audits/archives/1/restore').expect(403);
+    await adminUser.agent.delete(`/api/audits/retention/policies/${created.body.id}`).expect(200);
+  });
+
+  test('should archive expired rows and make them searchable after a restore', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await adminUser.agent.post('/api/audits/retention/policies').send({ tableName: 'state_licenses', retentionDays: 30 }).expect(201);
+
+    const old = await storage.createAudit({
+      tableName: 'state_licenses',
+      recordId: 77,
+      action: 'UPDATE',
+      changedBy: adminUser.user.id,
+      oldData: { status: 'active' },
+      newData: { status: 'expired' }
+    });
+    await db.update(audits).set({ changedAt: new Date('2020-01-01T00:00:00Z') }).where(eq(audits.id, old.id));
+
+    const preview = await adminUser.agent.get('/api/audits/retention/preview').expect(200);
+    expect(preview.body[0].expiredRows).toBe(1);
+
+    const run = await adminUser.agent.post('/api/audits/retention/run').expect(200);
+    expect(run.body).toMatchObject({ archivedRows: 1, errors: [] });
+
+    const live = await adminUser.agent.get('/api/audits?tableName=state_licenses&recordId=77').expect(200);
+    expect(live.body.total).toBe(0);
+
+    const archives = await adminUser.agent.get('/api/audits/archives').expect(200);
+    expect(archives.body.archives[0]).toMatchObject({ rowCount: 1, firstAuditId: old.id, restoredAt: null });
+
+    const archiveId = archives.body.archives[0].id;
+    const restore = await adminUser.agent.post(`/api/audits/archives/${archiveId}/restore`).expect(200);
+    expect(restore.body.restoredRows).toBe(1);
+
+    const archived = await adminUser.agent.get('/api/audits/archived?recordId=77').expect(200);
+    expect(archived.body.audits[0]).toMatchObject({ id: old.id, archiveId, tableName: 'state_licenses' });
+    expect(archived.body.audits[0].changes[0]).toMatchObject({ field: 'status', oldValue: 'active', newValue: 'expired' });
+
+    await adminUser.agent.delete(`/api/audits/archives/${archiveId}/restore`).expect(200);
+    const unloaded = await adminUser.agent.get('/api/audits/archived?recordId=77').expect(200);
+    expect(unloaded.body.total).toBe(0);
+  });
+});
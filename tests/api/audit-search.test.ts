@@ -0,0 +1,103 @@
+/**
+ * Audit Search API Tests
+ *
+ * Tests searching the audit log by record, user, changed field and date
+ * range, and the masked field-level diff returned with each entry.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('Audit Search API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Write audit rows for two records by two users
+   */
+  async function writeAudits(adminId: number, hrId: number) {
+    await storage.createAudit({
+      tableName: 'employees',
+      recordId: 101,
+      action: 'UPDATE',
+      changedBy: adminId,
+      oldData: { status: 'inactive', ssn: 'enc:111', jobTitle: 'RN' },
+      newData: { status: 'active', ssn: 'enc:222', jobTitle: 'RN' }
+    });
+    await storage.createAudit({
+      tableName: 'employees',
+      recordId: 102,
+      action: 'UPDATE',
+      changedBy: hrId,
+      oldData: { jobTitle: 'RN' },
+      newData: { jobTitle: 'NP' }
+    });
+    await storage.createAudit({
+      tableName: 'state_licenses',
+      recordId: 7,
+      action: 'CREATE',
+      changedBy: hrId,
+      oldData: null,
+      newData: { employeeId: 101, licenseNumber: 'L-1' }
+    });
+  }
+
+  test('should return a masked field-level diff with each entry', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    await writeAudits(adminUser.user.id, hrUser.user.id);
+
+    const response = await adminUser.agent.get('/api/audits?tableName=employees&recordId=101').expect(200);
+
+    expect(response.body.total).toBe(1);
+    const [audit] = response.body.audits;
+    expect(audit.username).toBe('admin@test.com');
+    expect(audit.changes).toEqual([
+      { field: 'ssn', change: 'changed', oldValue: '••••••', newValue: '••••••', masked: true },
+      { field: 'status', change: 'changed', oldValue: 'inactive', newValue: 'active', masked: false }
+    ]);
+    expect(audit.oldData.ssn).toBe('••••••');
+    expect(JSON.stringify(audit)).not.toContain('enc:111');
+  });
+
+  test('should search by user and changed field', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    await writeAudits(adminUser.user.id, hrUser.user.id);
+
+    const byUser = await adminUser.agent.get('/api/audits?user=hr@&tableName=employees').expect(200);
+    expect(byUser.body.audits.map((audit: any) => audit.recordId)).toEqual([102]);
+
+    const byField = await adminUser.agent.get('/api/audits?field=jobTitle').expect(200);
+    expect(byField.body.audits.map((audit: any) => audit.recordId)).toEqual([102]);
+
+    const added = await adminUser.agent.get('/api/audits?field=licenseNumber').expect(200);
+    expect(added.body.audits[0]).toMatchObject({ tableName: 'state_licenses', recordId: 7 });
+    expect(added.body.audits[0].changes[1]).toMatchObject({ field: 'licenseNumber', change: 'added', newValue: 'L-1' });
+  });
+
+  test('should include the whole end date', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    await writeAudits(adminUser.user.id, hrUser.user.id);
+    const today = new Date().toISOString().slice(0, 10);
+
+    const response = await adminUser.agent.get(`/api/audits?tableName=employees&startDate=${today}&endDate=${today}`).expect(200);
+    expect(response.body.total).toBe(2);
+  });
+
+  test('should reject invalid search parameters', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    await adminUser.agent.get('/api/audits?recordId=abc').expect(400);
+    await adminUser.agent.get("/api/audits?field=status'--").expect(400);
+  });
+});
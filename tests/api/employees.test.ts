@@ -74,6 +74,32 @@ describe('Employee Management API', () => {
       expect(response.body.employees[0].firstName).toBe('Alice');
     });
 
+    test('should find employees by an exact encrypted identifier', async () => {
+      const { hrUser } = await createTestUsers(app);
+
+      await hrUser.agent
+        .post('/api/employees')
+        .send({ ...testEmployeeData.complete, ssn: '123-45-6789', deaNumber: 'AB1234563' })
+        .expect(201);
+      await testDb.createTestEmployee({
+        firstName: 'Bob',
+        lastName: 'Smith',
+        workEmail: 'bob@hospital.com'
+      });
+
+      const bySsn = await hrUser.agent
+        .get('/api/employees?search=123456789')
+        .expect(200);
+      const byDea = await hrUser.agent
+        .get('/api/employees?search=ab1234563')
+        .expect(200);
+
+      expect(bySsn.body.employees).toHaveLength(1);
+      expect(bySsn.body.employees[0]).toMatchObject({ firstName: 'Jane', dateOfBirth: '1990-05-15', deaNumber: 'AB1234563' });
+      expect(bySsn.body.employees[0]).not.toHaveProperty('ssnHash');
+      expect(byDea.body.employees.map((employee: any) => employee.id)).toEqual([bySsn.body.employees[0].id]);
+    });
+
     test('should mask sensitive data in employee list', async () => {
       const { hrUser } = await createTestUsers(app);
       
@@ -219,6 +245,211 @@ describe('Employee Management API', () => {
     });
   });
 
+  describe('POST /api/employees/import', () => {
+    const csv = [
+      'First Name,Last Name,Email,NPI,License #,License State',
+      'Alice,Johnson,alice@hospital.com,1234567893,A111,CA',
+      ',,alice@hospital.com,,B222,NY',
+      'Bob,Smith,bob@hospital.com,12,,'
+    ].join('\n');
+    const mapping = JSON.stringify({
+      'First Name': 'employee.firstName',
+      'Last Name': 'employee.lastName',
+      'Email': 'employee.workEmail',
+      'NPI': 'employee.npiNumber',
+      'License #': 'stateLicense.licenseNumber',
+      'License State': 'stateLicense.state'
+    });
+
+    test('should validate a file without creating anything', async () => {
+      const { hrUser } = await createTestUsers(app);
+
+      const response = await hrUser.agent
+        .post('/api/employees/import/validate')
+        .field('mapping', mapping)
+        .attach('file', Buffer.from(csv), 'providers.csv')
+        .expect(200);
+
+      expect(response.body).toMatchObject({ totalRows: 3, employees: 1, stateLicenses: 2, invalidRows: 1 });
+      expect(response.body.rows[2]).toMatchObject({ row: 4, status: 'invalid', errors: ['NPI Number: Must be 10 digits'] });
+
+      const list = await hrUser.agent.get('/api/employees').expect(200);
+      expect(list.body.total).toBe(0);
+    });
+
+    test('should import the valid employees with their licenses', async () => {
+      const { hrUser } = await createTestUsers(app);
+
+      await hrUser.agent
+        .post('/api/employees/import')
+        .field('mapping', mapping)
+        .attach('file', Buffer.from(csv), 'providers.csv')
+        .expect(422);
+
+      const response = await hrUser.agent
+        .post('/api/employees/import')
+        .field('mapping', mapping)
+        .field('skipInvalid', 'true')
+        .attach('file', Buffer.from(csv), 'providers.csv')
+        .expect(201);
+
+      expect(response.body.createdEmployeeIds).toHaveLength(1);
+      const [employeeId] = response.body.createdEmployeeIds;
+      const licenses = await hrUser.agent.get(`/api/employees/${employeeId}/state-licenses`).expect(200);
+      expect(licenses.body.map((license: any) => license.state).sort()).toEqual(['CA', 'NY']);
+
+      const again = await hrUser.agent
+        .post('/api/employees/import/validate')
+        .field('mapping', mapping)
+        .attach('file', Buffer.from(csv), 'providers.csv')
+        .expect(200);
+      expect(again.body.rows[0]).toMatchObject({ status: 'duplicate', errors: [expect.stringMatching(/^Matches existing employee #\d+ \(Alice Johnson\) by NPI, email$/)] });
+    });
+
+    test('should return the failed rows as a CSV file', async () => {
+      const { hrUser } = await createTestUsers(app);
+
+      const response = await hrUser.agent
+        .post('/api/employees/import/errors')
+        .field('mapping', mapping)
+        .attach('file', Buffer.from(csv), 'providers.csv')
+        .expect(200);
+
+      expect(response.headers['content-type']).toMatch(/text\/csv/);
+      expect(response.headers['content-disposition']).toContain('providers-errors.csv');
+      expect(response.text).toContain('Bob,Smith,bob@hospital.com,12,,,4,NPI Number: Must be 10 digits');
+    });
+
+    test('should require admin or hr role', async () => {
+      const { viewerUser } = await createTestUsers(app);
+
+      await viewerUser.agent
+        .post('/api/employees/import/preview')
+        .attach('file', Buffer.from(csv), 'providers.csv')
+        .expect(403);
+    });
+  });
+
+  describe('Duplicate employees', () => {
+    test('should queue employees sharing an email and merge them', async () => {
+      const { hrUser } = await createTestUsers(app);
+      const original = await testDb.createTestEmployee({ firstName: 'Alice', lastName: 'Johnson', workEmail: 'alice@hospital.com' });
+      const rehire = await hrUser.agent
+        .post('/api/employees')
+        .send({ firstName: 'Alice', lastName: 'Johnson', workEmail: 'ajohnson@hospital.com', personalEmail: 'Alice@Hospital.com', jobTitle: 'Nurse' })
+        .expect(201);
+      await hrUser.agent
+        .post(`/api/employees/${rehire.body.id}/educations`)
+        .send({ schoolInstitution: 'State University', degree: 'BSN' })
+        .expect(201);
+
+      const scan = await hrUser.agent.post('/api/employees/duplicates/scan').expect(200);
+      expect(scan.body).toMatchObject({ pairs: 1, detected: 1 });
+
+      const queue = await hrUser.agent.get('/api/employees/duplicates').expect(200);
+      expect(queue.body.total).toBe(1);
+      const [candidate] = queue.body.candidates;
+      expect(candidate).toMatchObject({ employeeId: original.id, duplicateEmployeeId: rehire.body.id, reasons: ['email'], status: 'pending' });
+
+      const merge = await hrUser.agent
+        .post(`/api/employees/duplicates/${candidate.id}/merge`)
+        .send({ survivingEmployeeId: original.id })
+        .expect(200);
+      expect(merge.body.employee).toMatchObject({ id: original.id, jobTitle: 'Nurse', personalEmail: 'Alice@Hospital.com' });
+      expect(merge.body.candidate.mergeSummary).toMatchObject({
+        mergedEmployeeId: rehire.body.id,
+        movedRecords: { educations: [expect.any(Number)] },
+        filledFields: expect.arrayContaining(['jobTitle', 'personalEmail'])
+      });
+
+      await hrUser.agent.get(`/api/employees/${rehire.body.id}`).expect(404);
+      const educations = await hrUser.agent.get(`/api/employees/${original.id}/educations`).expect(200);
+      expect(educations.body).toHaveLength(1);
+
+      await hrUser.agent
+        .post(`/api/employees/duplicates/${candidate.id}/dismiss`)
+        .expect(409);
+    });
+
+    test('should require admin or hr role', async () => {
+      const { viewerUser } = await createTestUsers(app);
+
+      await viewerUser.agent.get('/api/employees/duplicates').expect(403);
+    });
+  });
+
+  describe('Employee offboarding', () => {
+    test('should schedule offboarding tasks and cancel them', async () => {
+      const { hrUser } = await createTestUsers(app);
+      const employee = await testDb.createTestEmployee({ firstName: 'Dana', lastName: 'Lee', workEmail: 'dana@hospital.com' });
+      await hrUser.agent
+        .post(`/api/employees/${employee.id}/payer-enrollments`)
+        .send({ payerName: 'Blue Cross Blue Shield', enrollmentId: 'BCBS123456', status: 'active' })
+        .expect(201);
+
+      const response = await hrUser.agent
+        .post(`/api/employees/${employee.id}/offboarding`)
+        .send({ terminationDate: '2099-01-31', reason: 'resignation', eligibleForRehire: true })
+        .expect(201);
+
+      expect(response.body.separation).toMatchObject({ employeeId: employee.id, status: 'scheduled', reason: 'resignation' });
+      expect(response.body.tasks.map((task: any) => task.title)).toEqual(expect.arrayContaining([
+        'Collect laptop from Dana Lee',
+        "Notify Blue Cross Blue Shield of Dana Lee's termination"
+      ]));
+      expect(response.body.tasks.every((task: any) => task.category === 'offboarding' && task.relatedEmployeeId === employee.id)).toBe(true);
+
+      await hrUser.agent
+        .post(`/api/employees/${employee.id}/offboarding`)
+        .send({ terminationDate: '2099-02-28', reason: 'resignation', eligibleForRehire: true })
+        .expect(409);
+
+      const cancelled = await hrUser.agent.post(`/api/employees/${employee.id}/offboarding/cancel`).expect(200);
+      expect(cancelled.body.status).toBe('cancelled');
+    });
+
+    test('should terminate immediately when the termination date has passed', async () => {
+      const { hrUser } = await createTestUsers(app);
+      const employee = await testDb.createTestEmployee({ firstName: 'Evan', lastName: 'Moss', workEmail: 'evan@hospital.com', status: 'active' });
+      const enrollment = await hrUser.agent
+        .post(`/api/employees/${employee.id}/payer-enrollments`)
+        .send({ payerName: 'Aetna', enrollmentId: 'AET1', status: 'active' })
+        .expect(201);
+
+      const response = await hrUser.agent
+        .post(`/api/employees/${employee.id}/offboarding`)
+        .send({ terminationDate: '2020-06-30', reason: 'termination', reasonDetails: 'Policy violation', eligibleForRehire: false })
+        .expect(201);
+
+      expect(response.body.separation.status).toBe('completed');
+      expect(response.body.separation.summary.endedPayerEnrollments).toEqual([enrollment.body.id]);
+
+      const updated = await hrUser.agent.get(`/api/employees/${employee.id}`).expect(200);
+      expect(updated.body.status).toBe('terminated');
+      const enrollments = await hrUser.agent.get(`/api/employees/${employee.id}/payer-enrollments`).expect(200);
+      expect(enrollments.body[0]).toMatchObject({ status: 'terminated', terminationDate: '2020-06-30' });
+
+      await hrUser.agent.post(`/api/employees/${employee.id}/offboarding/cancel`).expect(404);
+    });
+
+    test('should validate the separation', async () => {
+      const { hrUser } = await createTestUsers(app);
+      const employee = await testDb.createTestEmployee();
+
+      await hrUser.agent
+        .post(`/api/employees/${employee.id}/offboarding`)
+        .send({ terminationDate: 'tomorrow', reason: 'fired', eligibleForRehire: true })
+        .expect(400);
+    });
+
+    test('should require admin or hr role', async () => {
+      const { viewerUser } = await createTestUsers(app);
+      const employee = await testDb.createTestEmployee();
+
+      await viewerUser.agent.get(`/api/employees/${employee.id}/offboarding`).expect(403);
+    });
+  });
+
   describe('PUT /api/employees/:id', () => {
     test('should update existing employee', async () => {
       const { hrUser } = await createTestUsers(app);
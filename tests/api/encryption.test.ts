@@ -0,0 +1,62 @@
+/**
+ * Data Encryption API Tests
+ *
+ * Tests the key status endpoint, key rotation under the env provider and
+ * running a re-encryption job over stored employee values.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { eq } from 'drizzle-orm';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { db } from '../../server/db';
+import { employees } from '../../shared/schema';
+import { encryptionService } from '../../server/services/encryptionService';
+import { reencryptionService } from '../../server/services/reencryptionService';
+
+describe('Data Encryption API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  test('should report the key configuration to administrators only', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+
+    const status = await adminUser.agent.get('/api/admin/encryption').expect(200);
+    expect(status.body).toMatchObject({ provider: 'env', canCreateKeys: false, jobs: [] });
+    expect(status.body.keyIds).toContain(status.body.activeKeyId);
+
+    await hrUser.agent.get('/api/admin/encryption').expect(403);
+    await hrUser.agent.post('/api/admin/encryption/keys').expect(403);
+    await hrUser.agent.post('/api/admin/encryption/jobs').send({}).expect(403);
+    await hrUser.agent.post('/api/admin/encryption/jobs/1/cancel').expect(403);
+    await adminUser.agent.post('/api/admin/encryption/keys').expect(400);
+  });
+
+  test('should move employee values saved before encryption to the active key', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const employee = await testDb.createTestEmployee({ firstName: 'Erin', lastName: 'Encrypt', workEmail: 'erin@test.com' });
+    await db.update(employees).set({ caqhPassword: 'saved-before-encryption' }).where(eq(employees.id, employee.id));
+
+    const job = await adminUser.agent.post('/api/admin/encryption/jobs').expect(201);
+    expect(job.body).toMatchObject({ status: 'running', startedBy: adminUser.user.id });
+    await adminUser.agent.post('/api/admin/encryption/jobs').expect(409);
+
+    const finished = await reencryptionService.runPending();
+    expect(finished).toMatchObject({ id: job.body.id, status: 'completed', failedValues: 0 });
+
+    const [row] = await db.select().from(employees).where(eq(employees.id, employee.id));
+    expect(encryptionService.getKeyId(row.caqhPassword!)).toBe(job.body.targetKeyId);
+    expect(encryptionService.decrypt(row.caqhPassword!)).toBe('saved-before-encryption');
+
+    await adminUser.agent.post(`/api/admin/encryption/jobs/${job.body.id}/cancel`).expect(404);
+  });
+});
@@ -0,0 +1,116 @@
+/**
+ * Impersonation API Tests
+ *
+ * Tests admin "view as user": starting and stopping, the read-only default,
+ * blocked credential endpoints and the audit trail of impersonated requests.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('Impersonation API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  test('should view as the user until stopped', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+
+    await adminUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: hrUser.user.id, reason: 'Ticket #1234' })
+      .expect(200);
+
+    const viewing = await adminUser.agent.get('/api/user').expect(200);
+    expect(viewing.body.id).toBe(hrUser.user.id);
+    expect(viewing.body.impersonation.impersonator.id).toBe(adminUser.user.id);
+    expect(viewing.body.impersonation.allowWrites).toBe(false);
+
+    await adminUser.agent.post('/api/impersonation/stop').expect(200);
+
+    const back = await adminUser.agent.get('/api/user').expect(200);
+    expect(back.body.id).toBe(adminUser.user.id);
+    expect(back.body.impersonation).toBeNull();
+  });
+
+  test('should block writes unless allowed and always block credential changes', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    const employee = await testDb.createTestEmployee({
+      firstName: 'Portal',
+      lastName: 'User',
+      workEmail: 'portal.user@test.com'
+    });
+
+    await adminUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: hrUser.user.id, reason: 'Ticket #1234' })
+      .expect(200);
+
+    const blocked = await adminUser.agent
+      .put(`/api/employees/${employee.id}`)
+      .send({ firstName: 'Changed' })
+      .expect(403);
+    expect(blocked.body.code).toBe('IMPERSONATION_READ_ONLY');
+
+    await adminUser.agent.post('/api/impersonation/stop').expect(200);
+    await adminUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: hrUser.user.id, reason: 'Ticket #1234', allowWrites: true })
+      .expect(200);
+
+    await adminUser.agent.put(`/api/employees/${employee.id}`).send({ firstName: 'Changed' }).expect(200);
+    await adminUser.agent
+      .post('/api/change-password')
+      .send({ currentPassword: 'x', newPassword: 'y' })
+      .expect(403);
+
+    const { audits } = await storage.getAudits({ tableName: 'employees', action: 'UPDATE' });
+    expect(audits[0]).toMatchObject({ changedBy: hrUser.user.id, impersonatedBy: adminUser.user.id });
+  });
+
+  test('should audit every impersonated request with both users', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+
+    await adminUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: hrUser.user.id, reason: 'Ticket #1234' })
+      .expect(200);
+    await adminUser.agent.get('/api/employees').expect(200);
+    await adminUser.agent.post('/api/impersonation/stop').expect(200);
+
+    const { audits } = await storage.getAudits({ tableName: 'impersonation', limit: 100 });
+    const actions = audits.map(audit => audit.action);
+    expect(actions).toContain('IMPERSONATE_START');
+    expect(actions).toContain('IMPERSONATE_END');
+
+    const listRequest = audits.find(audit => (audit.newData as any)?.path === '/api/employees');
+    expect(listRequest).toMatchObject({ changedBy: hrUser.user.id, impersonatedBy: adminUser.user.id });
+  });
+
+  test('should only let admins impersonate non-admin users', async () => {
+    const { adminUser, hrUser, viewerUser } = await createTestUsers(app);
+
+    await hrUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: viewerUser.user.id, reason: 'Ticket #1234' })
+      .expect(403);
+    await adminUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: adminUser.user.id, reason: 'Ticket #1234' })
+      .expect(400);
+    await adminUser.agent
+      .post('/api/admin/impersonation')
+      .send({ userId: viewerUser.user.id })
+      .expect(400);
+  });
+});
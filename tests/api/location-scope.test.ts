@@ -0,0 +1,227 @@
+/**
+ * Location Scope API Tests
+ *
+ * Tests that HR staff assigned to locations only see employees and
+ * compliance data for those locations and their sub-locations.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('Location Scope API', () => {
+  let app: any;
+  const credentials = { username: 'site.coordinator@test.com', password: 'Site-Coord-Pass-62' };
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Create North Region > North Clinic and a separate South Clinic,
+   * with one employee at each clinic
+   */
+  async function createSites() {
+    const region = await storage.createLocation({ name: 'North Region', type: 'main_org', status: 'active' } as any);
+    const northClinic = await storage.createLocation({ name: 'North Clinic', type: 'sub_location', status: 'active', parentId: region.id, level: 1 } as any);
+    const southClinic = await storage.createLocation({ name: 'South Clinic', type: 'main_org', status: 'active' } as any);
+
+    const northEmployee = await testDb.createTestEmployee({
+      firstName: 'Nora', lastName: 'North', workEmail: 'nora.north@test.com', workLocation: 'North Clinic'
+    });
+    const southEmployee = await testDb.createTestEmployee({
+      firstName: 'Sam', lastName: 'South', workEmail: 'sam.south@test.com', workLocation: 'South Clinic'
+    });
+
+    return { region, northClinic, southClinic, northEmployee, southEmployee };
+  }
+
+  /**
+   * Create the site coordinator, assign locations and sign in
+   */
+  async function signInCoordinator(adminAgent: any, locationIds: number[]) {
+    const coordinator = await testDb.createTestUser({ ...credentials, role: 'hr' });
+    await adminAgent.put(`/api/admin/users/${coordinator.id}/locations`).send({ locationIds }).expect(200);
+
+    const agent = request.agent(app);
+    await agent.post('/api/login').send(credentials).expect(200);
+    return agent;
+  }
+
+  test('should maintain materialized paths for sub-locations', async () => {
+    const { region, northClinic } = await createSites();
+
+    expect(region.path).toBe(`/${region.id}/`);
+    expect(northClinic.path).toBe(`/${region.id}/${northClinic.id}/`);
+    expect((await storage.getLocationSubtreeIds([region.id])).sort()).toEqual([region.id, northClinic.id].sort());
+  });
+
+  test('should limit employees to assigned locations and their sub-locations', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region, northEmployee, southEmployee } = await createSites();
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+
+    const list = await agent.get('/api/employees').expect(200);
+    expect(list.body.employees.map((employee: any) => employee.id)).toEqual([northEmployee.id]);
+
+    await agent.get(`/api/employees/${northEmployee.id}`).expect(200);
+    await agent.get(`/api/employees/${southEmployee.id}`).expect(404);
+
+    const exported = await agent.get('/api/export/employees').expect(200);
+    expect(exported.text).toContain('Nora');
+    expect(exported.text).not.toContain('Sam');
+  });
+
+  test('should limit employee records and expiring-item reports to assigned locations', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region, northEmployee, southEmployee } = await createSites();
+    const expirationDate = new Date(Date.now() + 10 * 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    await storage.createStateLicense({ employeeId: northEmployee.id, licenseNumber: 'NORTH-1', state: 'NY', expirationDate });
+    await storage.createStateLicense({ employeeId: southEmployee.id, licenseNumber: 'SOUTH-1', state: 'NY', expirationDate });
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+
+    await agent.get(`/api/employees/${northEmployee.id}/state-licenses`).expect(200);
+    await agent.get(`/api/employees/${southEmployee.id}/state-licenses`).expect(404);
+    await agent.get(`/api/employees/${southEmployee.id}/educations`).expect(404);
+
+    const expiring = await agent.get('/api/reports/expiring?days=30').expect(200);
+    expect(expiring.body.map((item: any) => item.licenseNumber)).toEqual(['NORTH-1']);
+
+    const exported = await agent.get('/api/export/expiring-items?days=30').expect(200);
+    expect(exported.text).toContain('NORTH-1');
+    expect(exported.text).not.toContain('SOUTH-1');
+
+    const stats = await agent.get('/api/reports/stats').expect(200);
+    expect(stats.body).toMatchObject({ totalEmployees: 1, expiringSoon: 1 });
+  });
+
+  test('should only import employees at assigned locations', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region } = await createSites();
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+    const csv = 'First Name,Last Name,Email,Location\nNed,North,ned.north@test.com,North Clinic\nSue,South,sue.south@test.com,South Clinic\n';
+    const mapping = JSON.stringify({
+      'First Name': 'employee.firstName',
+      'Last Name': 'employee.lastName',
+      Email: 'employee.workEmail',
+      Location: 'employee.workLocation'
+    });
+
+    const report = await agent.post('/api/employees/import/validate')
+      .field('mapping', mapping)
+      .attach('file', Buffer.from(csv), 'providers.csv')
+      .expect(200);
+    expect(report.body.rows.map((row: any) => row.status)).toEqual(['valid', 'invalid']);
+
+    await agent.post('/api/employees/import')
+      .field('mapping', mapping)
+      .attach('file', Buffer.from(csv), 'providers.csv')
+      .expect(422);
+  });
+
+  test('should only review duplicate pairs at assigned locations', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region } = await createSites();
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+    const northRehire = await testDb.createTestEmployee({
+      firstName: 'Nora', lastName: 'North', workEmail: 'Nora.North@test.com', workLocation: 'North Clinic'
+    });
+    const southRehire = await testDb.createTestEmployee({
+      firstName: 'Sam', lastName: 'South', workEmail: 'Sam.South@test.com', workLocation: 'North Clinic'
+    });
+    await adminUser.agent.post('/api/employees/duplicates/scan').expect(200);
+
+    const queue = await agent.get('/api/employees/duplicates').expect(200);
+    expect(queue.body.total).toBe(1);
+    expect(queue.body.candidates[0].duplicateEmployeeId).toBe(northRehire.id);
+
+    const all = await adminUser.agent.get('/api/employees/duplicates').expect(200);
+    const hidden = all.body.candidates.find((candidate: any) => candidate.duplicateEmployeeId === southRehire.id);
+    await agent.post(`/api/employees/duplicates/${hidden.id}/merge`).send({ survivingEmployeeId: southRehire.id }).expect(404);
+    await agent.post(`/api/employees/duplicates/${hidden.id}/dismiss`).expect(404);
+
+    const scan = await agent.post('/api/employees/duplicates/scan').expect(200);
+    expect(scan.body).toMatchObject({ pairs: 1, resolved: 0 });
+    expect((await adminUser.agent.get('/api/employees/duplicates').expect(200)).body.total).toBe(2);
+  });
+
+  test('should not reach records outside assigned locations by ID', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region, southClinic, southEmployee } = await createSites();
+    const license = await storage.createStateLicense({ employeeId: southEmployee.id, licenseNumber: 'SOUTH-1', state: 'NY' });
+    const task = await storage.createTask({
+      title: 'Renew South license', dueDate: '2030-01-01', createdById: adminUser.user.id, relatedLocationId: southClinic.id
+    });
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+
+    await agent.put(`/api/employees/${southEmployee.id}/state-licenses/${license.id}`).send({ licenseNumber: 'CHANGED' }).expect(404);
+    await agent.delete(`/api/employees/${southEmployee.id}/state-licenses/${license.id}`).expect(404);
+    await agent.delete(`/api/employees/${southEmployee.id}`).expect(404);
+    await agent.get(`/api/employees/${southEmployee.id}/tasks`).expect(404);
+    await agent.get(`/api/tasks/${task.id}`).expect(404);
+    await agent.patch(`/api/tasks/${task.id}/complete`).expect(404);
+    await agent.delete(`/api/tasks/${task.id}`).expect(404);
+
+    expect((await storage.getEmployeeStateLicenses(southEmployee.id)).map(item => item.licenseNumber)).toEqual(['SOUTH-1']);
+    expect(await storage.getTask(task.id)).toBeDefined();
+  });
+
+  test('should only create employees at assigned locations', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region } = await createSites();
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+
+    await agent.post('/api/employees')
+      .send({ firstName: 'Sue', lastName: 'South', workEmail: 'sue.south@test.com', workLocation: 'South Clinic' })
+      .expect(400);
+    await agent.post('/api/employees')
+      .send({ firstName: 'Ned', lastName: 'North', workEmail: 'ned.north@test.com', workLocation: 'North Clinic' })
+      .expect(201);
+  });
+
+  test('should limit compliance dashboards to assigned locations', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const { region, southClinic } = await createSites();
+    const agent = await signInCoordinator(adminUser.agent, [region.id]);
+
+    const dashboard = await agent.get('/api/compliance/dashboard').expect(200);
+    expect(dashboard.body.totalLocations).toBe(2);
+
+    const summary = await agent.get('/api/compliance/summary').expect(200);
+    expect(summary.body.map((row: any) => row.locationId)).not.toContain(southClinic.id);
+
+    const adminDashboard = await adminUser.agent.get('/api/compliance/dashboard').expect(200);
+    expect(adminDashboard.body.totalLocations).toBe(3);
+  });
+
+  test('should not restrict users without location assignments', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    await createSites();
+
+    const list = await hrUser.agent.get('/api/employees').expect(200);
+    expect(list.body.total).toBe(2);
+
+    const assignments = await adminUser.agent.get(`/api/admin/users/${hrUser.user.id}/locations`).expect(200);
+    expect(assignments.body.locationIds).toEqual([]);
+  });
+
+  test('should only let admins assign locations', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    const { region } = await createSites();
+
+    await hrUser.agent.put(`/api/admin/users/${hrUser.user.id}/locations`).send({ locationIds: [] }).expect(403);
+    await hrUser.agent.get(`/api/admin/users/${hrUser.user.id}/locations`).expect(403);
+    await adminUser.agent
+      .put(`/api/admin/users/${hrUser.user.id}/locations`)
+      .send({ locationIds: [region.id, 999999] })
+      .expect(400);
+  });
+});
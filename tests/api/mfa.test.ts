@@ -0,0 +1,226 @@
+/**
+ * Multi-Factor Authentication API Tests
+ *
+ * Tests TOTP enrollment, the two-step login flow (single-use codes and the
+ * per-challenge attempt limit), recovery codes, admin MFA reset and the
+ * role-based MFA enforcement policy.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createAuthenticatedUser, createTestUsers } from '../utils/auth-helpers';
+import { mfaService } from '../../server/services/mfaService';
+
+describe('Multi-Factor Authentication API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Enroll the agent's user and return the secret and recovery codes
+   */
+  async function enroll(agent: request.Agent) {
+    const setup = await agent.post('/api/mfa/setup').expect(200);
+    const secret = setup.body.secret;
+    const verify = await agent
+      .post('/api/mfa/verify')
+      .send({ code: mfaService.generateToken(secret) })
+      .expect(200);
+    return { secret, recoveryCodes: verify.body.recoveryCodes as string[] };
+  }
+
+  describe('Enrollment', () => {
+    test('should return a QR code and secret for setup', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const response = await adminUser.agent
+        .post('/api/mfa/setup')
+        .expect(200);
+
+      expect(response.body.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(response.body.otpauthUrl).toMatch(/^otpauth:\/\/totp\//);
+      expect(response.body.qrCodeDataUrl).toMatch(/^data:image\/png;base64,/);
+    });
+
+    test('should reject an invalid confirmation code', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      await adminUser.agent.post('/api/mfa/setup').expect(200);
+      await adminUser.agent
+        .post('/api/mfa/verify')
+        .send({ code: '000000' })
+        .expect(400);
+    });
+
+    test('should enable MFA and issue recovery codes', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      const { recoveryCodes } = await enroll(adminUser.agent);
+      expect(recoveryCodes).toHaveLength(10);
+
+      const status = await adminUser.agent.get('/api/mfa/status').expect(200);
+      expect(status.body.enabled).toBe(true);
+      expect(status.body.recoveryCodesRemaining).toBe(10);
+    });
+
+    test('should never expose MFA secrets on /api/user', async () => {
+      const { adminUser } = await createTestUsers(app);
+      await enroll(adminUser.agent);
+
+      const response = await adminUser.agent.get('/api/user').expect(200);
+      expect(response.body).not.toHaveProperty('mfaSecret');
+      expect(response.body).not.toHaveProperty('mfaRecoveryCodes');
+      expect(response.body).not.toHaveProperty('passwordHash');
+    });
+  });
+
+  describe('Two-step login', () => {
+    const credentials = { username: 'mfa-admin@test.com', password: 'AdminPass123!' };
+
+    test('should require a TOTP code after the password', async () => {
+      const { agent } = await createAuthenticatedUser(app, { ...credentials, role: 'admin' });
+      const { secret } = await enroll(agent);
+
+      const loginAgent = request.agent(app);
+      const login = await loginAgent.post('/api/login').send(credentials).expect(200);
+      expect(login.body).toEqual({ mfaRequired: true });
+
+      // Session is not established until the second step succeeds
+      await loginAgent.get('/api/user').expect(401);
+
+      await loginAgent
+        .post('/api/login/mfa')
+        .send({ code: '000000' })
+        .expect(401);
+
+      const response = await loginAgent
+        .post('/api/login/mfa')
+        .send({ code: mfaService.generateToken(secret) })
+        .expect(200);
+
+      expect(response.body.username).toBe(credentials.username);
+      await loginAgent.get('/api/user').expect(200);
+    });
+
+    test('should accept a recovery code once and audit its use', async () => {
+      const { agent, user } = await createAuthenticatedUser(app, { ...credentials, role: 'admin' });
+      const { recoveryCodes } = await enroll(agent);
+
+      const firstAgent = request.agent(app);
+      await firstAgent.post('/api/login').send(credentials).expect(200);
+      await firstAgent
+        .post('/api/login/mfa')
+        .send({ recoveryCode: recoveryCodes[0] })
+        .expect(200);
+
+      const secondAgent = request.agent(app);
+      await secondAgent.post('/api/login').send(credentials).expect(200);
+      await secondAgent
+        .post('/api/login/mfa')
+        .send({ recoveryCode: recoveryCodes[0] })
+        .expect(401);
+
+      const audits = await firstAgent
+        .get('/api/audits')
+        .query({ tableName: 'users' })
+        .expect(200);
+      const recoveryAudits = audits.body.audits.filter(
+        (audit: any) => audit.action === 'MFA_RECOVERY_USED' && audit.recordId === user.id
+      );
+      expect(recoveryAudits).toHaveLength(1);
+    });
+
+    test('should not accept the same code twice', async () => {
+      const { agent } = await createAuthenticatedUser(app, { ...credentials, role: 'admin' });
+      const { secret } = await enroll(agent);
+      const code = mfaService.generateToken(secret);
+
+      const firstAgent = request.agent(app);
+      await firstAgent.post('/api/login').send(credentials).expect(200);
+      await firstAgent.post('/api/login/mfa').send({ code }).expect(200);
+
+      const secondAgent = request.agent(app);
+      await secondAgent.post('/api/login').send(credentials).expect(200);
+      await secondAgent.post('/api/login/mfa').send({ code }).expect(401);
+    });
+
+    test('should discard the challenge after five wrong codes', async () => {
+      const { agent } = await createAuthenticatedUser(app, { ...credentials, role: 'admin' });
+      const { secret } = await enroll(agent);
+
+      const loginAgent = request.agent(app);
+      await loginAgent.post('/api/login').send(credentials).expect(200);
+      for (let attempt = 0; attempt < 5; attempt++) {
+        await loginAgent.post('/api/login/mfa').send({ code: '000000' }).expect(401);
+      }
+
+      await loginAgent
+        .post('/api/login/mfa')
+        .send({ code: mfaService.generateToken(secret) })
+        .expect(400);
+    });
+
+    test('should reject the MFA step without a pending challenge', async () => {
+      await request(app)
+        .post('/api/login/mfa')
+        .send({ code: '123456' })
+        .expect(400);
+    });
+  });
+
+  describe('Admin controls', () => {
+    test('should let an admin reset another user\'s MFA', async () => {
+      const { adminUser, hrUser } = await createTestUsers(app);
+      await enroll(hrUser.agent);
+
+      await adminUser.agent
+        .post(`/api/admin/users/${hrUser.user.id}/mfa/reset`)
+        .expect(200);
+
+      const status = await hrUser.agent.get('/api/mfa/status').expect(200);
+      expect(status.body.enabled).toBe(false);
+    });
+
+    test('should not let non-admins reset MFA', async () => {
+      const { adminUser, hrUser } = await createTestUsers(app);
+      await enroll(adminUser.agent);
+
+      await hrUser.agent
+        .post(`/api/admin/users/${adminUser.user.id}/mfa/reset`)
+        .expect(403);
+    });
+
+    test('should force enrollment for roles in the MFA policy', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      await adminUser.agent
+        .put('/api/admin/security-settings')
+        .send({ mfaRequiredRoles: ['hr'] })
+        .expect(200);
+
+      const { agent } = await createAuthenticatedUser(app, {
+        username: 'policy-hr@test.com',
+        password: 'HrPass123!',
+        role: 'hr'
+      });
+
+      const user = await agent.get('/api/user').expect(200);
+      expect(user.body.mfaEnrollmentRequired).toBe(true);
+
+      const blocked = await agent.get('/api/employees').expect(403);
+      expect(blocked.body.code).toBe('MFA_ENROLLMENT_REQUIRED');
+
+      await enroll(agent);
+      await agent.get('/api/employees').expect(200);
+    });
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * OpenID Connect Single Sign-On API Tests
+ *
+ * Tests the SSO redirect flow against a mock identity provider, including
+ * just-in-time linking, auto-provisioning with group-to-role mapping,
+ * inactive account rejection and disabling password login per role.
+ */
+
+import { describe, test, expect, beforeAll, afterAll, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createAuthenticatedUser, createTestUsers } from '../utils/auth-helpers';
+import { startMockOidcProvider, signInWithMockSso, type MockOidcProvider } from '../utils/mock-oidc-provider';
+import { oidcService } from '../../server/services/oidcService';
+
+describe('Single Sign-On API', () => {
+  let app: any;
+  let provider: MockOidcProvider;
+
+  beforeAll(async () => {
+    provider = await startMockOidcProvider();
+    process.env.OIDC_ISSUER_URL = provider.issuer;
+    process.env.OIDC_CLIENT_ID = provider.clientId;
+    process.env.OIDC_CLIENT_SECRET = provider.clientSecret;
+    process.env.OIDC_REDIRECT_URI = 'http://localhost/api/auth/oidc/callback';
+    process.env.OIDC_ALLOW_INSECURE = 'true';
+    oidcService.resetConfiguration();
+  });
+
+  afterAll(async () => {
+    delete process.env.OIDC_ISSUER_URL;
+    delete process.env.OIDC_CLIENT_ID;
+    delete process.env.OIDC_CLIENT_SECRET;
+    delete process.env.OIDC_REDIRECT_URI;
+    delete process.env.OIDC_ALLOW_INSECURE;
+    oidcService.resetConfiguration();
+    await provider.close();
+  });
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Save group mappings as an admin
+   */
+  async function configureMappings(adminAgent: request.Agent, settings: Record<string, unknown> = {}) {
+    await adminAgent
+      .put('/api/admin/security-settings')
+      .send({
+        ssoRoleMappings: { admin: ['hr-admins'], hr: ['hr-staff'], employee: ['all-staff'] },
+        ...settings
+      })
+      .expect(200);
+  }
+
+  test('should advertise SSO when configured', async () => {
+    const response = await request(app).get('/api/auth/oidc/config').expect(200);
+    expect(response.body.enabled).toBe(true);
+  });
+
+  test('should link an existing user by email and sign them in', async () => {
+    const existing = await testDb.createTestUser({
+      username: 'jane',
+      password: 'JanePass123!',
+      role: 'hr',
+      email: 'jane@example.com'
+    });
+
+    const agent = request.agent(app);
+    const callback = await signInWithMockSso(agent, provider, {
+      sub: 'idp-jane',
+      email: 'jane@example.com',
+      email_verified: true
+    });
+
+    expect(callback.status).toBe(302);
+    expect(callback.headers.location).toBe('/');
+
+    const me = await agent.get('/api/user').expect(200);
+    expect(me.body.id).toBe(existing.id);
+    expect(me.body.oidcSubject).toBe('idp-jane');
+  });
+
+  test('should provision a new user with the mapped role', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await configureMappings(adminUser.agent);
+
+    const agent = request.agent(app);
+    await signInWithMockSso(agent, provider, {
+      sub: 'idp-new',
+      email: 'new.hire@example.com',
+      email_verified: true,
+      groups: ['all-staff', 'hr-staff']
+    });
+
+    const me = await agent.get('/api/user').expect(200);
+    expect(me.body.email).toBe('new.hire@example.com');
+    expect(me.body.role).toBe('hr');
+  });
+
+  test('should not provision users when auto-provisioning is off', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await configureMappings(adminUser.agent, { ssoAutoProvision: false });
+
+    const agent = request.agent(app);
+    const callback = await signInWithMockSso(agent, provider, {
+      sub: 'idp-new',
+      email: 'new.hire@example.com',
+      email_verified: true,
+      groups: ['all-staff']
+    });
+
+    expect(callback.headers.location).toMatch(/^\/auth\?sso_error=/);
+    await agent.get('/api/user').expect(401);
+  });
+
+  test('should reject inactive accounts', async () => {
+    await testDb.createTestUser({
+      username: 'suspended',
+      password: 'Suspended123!',
+      role: 'hr',
+      email: 'suspended@example.com',
+      status: 'suspended'
+    });
+
+    const agent = request.agent(app);
+    const callback = await signInWithMockSso(agent, provider, {
+      sub: 'idp-suspended',
+      email: 'suspended@example.com',
+      email_verified: true
+    });
+
+    expect(callback.headers.location).toMatch(/^\/auth\?sso_error=/);
+    await agent.get('/api/user').expect(401);
+  });
+
+  test('should reject a callback without a pending sign-in', async () => {
+    const response = await request(app)
+      .get('/api/auth/oidc/callback?code=abc&state=xyz')
+      .expect(302);
+
+    expect(response.headers.location).toMatch(/^\/auth\?sso_error=/);
+  });
+
+  describe('Password login policy', () => {
+    test('should block password login for disabled roles only', async () => {
+      const { adminUser } = await createTestUsers(app);
+
+      await adminUser.agent
+        .put('/api/admin/security-settings')
+        .send({ passwordLoginDisabledRoles: ['hr'] })
+        .expect(200);
+
+      await createAuthenticatedUser(app, {
+        username: 'second-admin@test.com',
+        password: 'AdminPass123!',
+        role: 'admin'
+      });
+
+      await testDb.createTestUser({ username: 'sso-only@test.com', password: 'HrPass123!', role: 'hr' });
+      const response = await request(app)
+        .post('/api/login')
+        .send({ username: 'sso-only@test.com', password: 'HrPass123!' })
+        .expect(403);
+
+      expect(response.body.code).toBe('PASSWORD_LOGIN_DISABLED');
+    });
+
+    test('should not allow disabling password login without SSO configured', async () => {
+      const { adminUser } = await createTestUsers(app);
+      const issuer = process.env.OIDC_ISSUER_URL;
+      delete process.env.OIDC_ISSUER_URL;
+
+      try {
+        await adminUser.agent
+          .put('/api/admin/security-settings')
+          .send({ passwordLoginDisabledRoles: ['hr'] })
+          .expect(400);
+      } finally {
+        process.env.OIDC_ISSUER_URL = issuer;
+      }
+    });
+  });
+});
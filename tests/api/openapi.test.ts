@@ -0,0 +1,43 @@
+/**
+ * OpenAPI Document Tests
+ *
+ * Tests the generated OpenAPI document served to the API explorer.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+
+describe('OpenAPI Document API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  test('should require authentication', async () => {
+    await request(app).get('/api/openapi.json').expect(401);
+  });
+
+  test('should describe the registered routes', async () => {
+    const { hrUser } = await createTestUsers(app);
+
+    const response = await hrUser.agent.get('/api/openapi.json').expect(200);
+
+    expect(response.body.openapi).toMatch(/^3\./);
+    expect(response.body.servers).toHaveLength(1);
+    expect(response.body.paths['/api/employees'].get['x-permissions']).toEqual(['read:employees']);
+    expect(response.body.paths['/api/employees'].post.requestBody.content['application/json'].schema)
+      .toEqual({ $ref: '#/components/schemas/EmployeeInput' });
+    expect(response.body.paths['/api/employees/{id}/educations']).toBeDefined();
+    expect(response.body.components.schemas.Employee.properties).toHaveProperty('workEmail');
+    expect(response.body.components.securitySchemes).toHaveProperty('bearerAuth');
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Passkey API Tests
+ *
+ * Tests employee passkey endpoints: who may register, challenge handling,
+ * sign-in with unknown credentials and admin revocation. Full WebAuthn
+ * ceremonies need a real authenticator and are covered by the service tests.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createAuthenticatedUser, createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('Passkey API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Sign in a portal user with the employee role
+   */
+  async function createEmployeeUser() {
+    return createAuthenticatedUser(app, {
+      username: 'clinician@test.com',
+      password: 'EmployeePass123!',
+      role: 'employee'
+    });
+  }
+
+  /**
+   * Store a passkey directly, as registration needs a real authenticator
+   */
+  async function addPasskey(userId: number, name = 'Front desk key') {
+    return storage.createPasskey({
+      userId,
+      credentialId: `cred-${userId}-${name.length}`,
+      publicKey: 'cHVibGljLWtleQ',
+      counter: 0,
+      transports: ['usb'],
+      deviceType: 'singleDevice',
+      backedUp: false,
+      name
+    });
+  }
+
+  test('should only offer registration to employee users', async () => {
+    const { hrUser } = await createTestUsers(app);
+    const employee = await createEmployeeUser();
+
+    await hrUser.agent.post('/api/passkeys/register/options').expect(403);
+
+    const options = await employee.agent.post('/api/passkeys/register/options').expect(200);
+    expect(options.body.challenge).toBeTruthy();
+    expect(options.body.user.name).toBe('clinician@test.com');
+    expect(options.body.authenticatorSelection.userVerification).toBe('required');
+  });
+
+  test('should reject registration without a pending challenge', async () => {
+    const employee = await createEmployeeUser();
+
+    const response = await employee.agent
+      .post('/api/passkeys/register/verify')
+      .send({ response: { id: 'abc', rawId: 'abc', type: 'public-key', response: {} } })
+      .expect(400);
+    expect(response.body.error).toContain('expired');
+  });
+
+  test('should not reveal accounts when creating sign-in options', async () => {
+    const employee = await createEmployeeUser();
+    await addPasskey(employee.user.id);
+
+    const known = await request(app)
+      .post('/api/login/passkey/options')
+      .send({ username: 'clinician@test.com' })
+      .expect(200);
+    expect(known.body.allowCredentials).toHaveLength(1);
+
+    const unknown = await request(app)
+      .post('/api/login/passkey/options')
+      .send({ username: 'nobody@test.com' })
+      .expect(200);
+    expect(unknown.body.challenge).toBeTruthy();
+    expect(unknown.body.allowCredentials ?? []).toHaveLength(0);
+  });
+
+  test('should refuse sign-in with an unknown passkey', async () => {
+    const agent = request.agent(app);
+
+    await agent.post('/api/login/passkey').send({ response: { id: 'unknown' } }).expect(400);
+
+    await agent.post('/api/login/passkey/options').send({}).expect(200);
+    await agent
+      .post('/api/login/passkey')
+      .send({ response: { id: 'unknown', rawId: 'unknown', type: 'public-key', response: {} } })
+      .expect(401);
+    await agent.get('/api/user').expect(401);
+  });
+
+  test('should let employees remove their own passkeys only', async () => {
+    const { hrUser } = await createTestUsers(app);
+    const employee = await createEmployeeUser();
+    const passkey = await addPasskey(employee.user.id);
+
+    const list = await employee.agent.get('/api/passkeys').expect(200);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).not.toHaveProperty('publicKey');
+    expect(list.body[0]).not.toHaveProperty('credentialId');
+
+    await hrUser.agent.delete(`/api/passkeys/${passkey.id}`).expect(404);
+    await employee.agent.delete(`/api/passkeys/${passkey.id}`).expect(200);
+    expect(await storage.getPasskey(passkey.id)).toBeUndefined();
+  });
+
+  test('should let admins list and revoke passkeys with an audit record', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    const employee = await createEmployeeUser();
+    const passkey = await addPasskey(employee.user.id);
+
+    await hrUser.agent.get(`/api/admin/users/${employee.user.id}/passkeys`).expect(403);
+
+    const list = await adminUser.agent.get(`/api/admin/users/${employee.user.id}/passkeys`).expect(200);
+    expect(list.body.map((item: any) => item.id)).toEqual([passkey.id]);
+
+    await adminUser.agent
+      .delete(`/api/admin/users/${employee.user.id}/passkeys/${passkey.id}`)
+      .expect(200);
+
+    const { audits } = await storage.getAudits({ tableName: 'users', action: 'PASSKEY_REVOKED' });
+    expect(audits[0]).toMatchObject({ recordId: employee.user.id, changedBy: adminUser.user.id });
+  });
+});
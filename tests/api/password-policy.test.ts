@@ -0,0 +1,116 @@
+/**
+ * Password Policy API Tests
+ *
+ * Tests admin configuration of the password policy and its enforcement on
+ * password changes, including reuse prevention and expiry at sign-in.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('Password Policy API', () => {
+  let app: any;
+  const credentials = { username: 'policy.user@test.com', password: 'Initial-Pass-71' };
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Sign in as the policy test user
+   */
+  async function signIn(password = credentials.password) {
+    const agent = request.agent(app);
+    const response = await agent.post('/api/login').send({ username: credentials.username, password }).expect(200);
+    return { agent, user: response.body };
+  }
+
+  test('should expose the default policy publicly', async () => {
+    const response = await request(app).get('/api/auth/password-policy').expect(200);
+
+    expect(response.body).toMatchObject({ minLength: 8, requireSymbol: true, blockBreached: true, historyCount: 0 });
+  });
+
+  test('should let admins update the policy and reject out-of-range values', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+
+    await adminUser.agent
+      .put('/api/admin/security-settings')
+      .send({ passwordMinLength: 14, passwordHistoryCount: 5, passwordMaxAgeDays: 90 })
+      .expect(200);
+    await adminUser.agent.put('/api/admin/security-settings').send({ passwordMinLength: 4 }).expect(400);
+    await hrUser.agent.put('/api/admin/security-settings').send({ passwordMinLength: 20 }).expect(403);
+    await hrUser.agent.get('/api/admin/security-settings').expect(403);
+
+    const response = await request(app).get('/api/auth/password-policy').expect(200);
+    expect(response.body).toMatchObject({ minLength: 14, historyCount: 5, maxAgeDays: 90 });
+  });
+
+  test('should reject weak and breached passwords with every violation listed', async () => {
+    await testDb.createTestUser({ ...credentials, role: 'hr' });
+    const { agent } = await signIn();
+
+    const weak = await agent
+      .post('/api/change-password')
+      .send({ currentPassword: credentials.password, newPassword: 'short' })
+      .expect(400);
+    expect(weak.body.details).toContain('Password must be at least 8 characters');
+    expect(weak.body.details).toContain('Password must contain a special character');
+
+    const breached = await agent
+      .post('/api/change-password')
+      .send({ currentPassword: credentials.password, newPassword: 'Password1!' })
+      .expect(400);
+    expect(breached.body.error).toMatch(/too common/);
+  });
+
+  test('should prevent reusing recent passwords', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await adminUser.agent.put('/api/admin/security-settings').send({ passwordHistoryCount: 2 }).expect(200);
+    await testDb.createTestUser({ ...credentials, role: 'hr' });
+    const { agent } = await signIn();
+
+    await agent
+      .post('/api/change-password')
+      .send({ currentPassword: credentials.password, newPassword: 'Second-Pass-72' })
+      .expect(200);
+
+    const reused = await agent
+      .post('/api/change-password')
+      .send({ currentPassword: 'Second-Pass-72', newPassword: credentials.password })
+      .expect(400);
+    expect(reused.body.error).toBe('Password must not match any of your last 2 passwords');
+
+    await agent
+      .post('/api/change-password')
+      .send({ currentPassword: 'Second-Pass-72', newPassword: 'Third-Pass-73' })
+      .expect(200);
+  });
+
+  test('should require a password change at sign-in once the password expires', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await adminUser.agent.put('/api/admin/security-settings').send({ passwordMaxAgeDays: 30 }).expect(200);
+    const user = await testDb.createTestUser({ ...credentials, role: 'hr' });
+    await storage.updateUser(user.id, { passwordChangedAt: new Date(Date.now() - 31 * 24 * 60 * 60 * 1000) });
+
+    const { agent, user: signedIn } = await signIn();
+    expect(signedIn.requirePasswordChange).toBe(true);
+
+    await agent
+      .post('/api/change-password')
+      .send({ currentPassword: credentials.password, newPassword: 'Fresh-Pass-74' })
+      .expect(200);
+
+    const { user: afterChange } = await signIn('Fresh-Pass-74');
+    expect(afterChange.requirePasswordChange).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * Roles and Permissions API Tests
+ *
+ * Tests admin management of custom roles and enforcement of role
+ * permissions for signed-in users, including SSN masking.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+
+describe('Roles and Permissions API', () => {
+  let app: any;
+  const credentialingRole = {
+    key: 'credentialing',
+    name: 'Credentialing Specialist',
+    permissions: ['read:employees', 'read:licenses', 'write:payer_enrollments']
+  };
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Sign in as a new user holding the given role
+   */
+  async function signInWithRole(role: string) {
+    const credentials = { username: `${role}.user@test.com`, password: 'Role-Test-Pass-81' };
+    await testDb.createTestUser({ ...credentials, role });
+    const agent = request.agent(app);
+    const response = await agent.post('/api/login').send(credentials).expect(200);
+    return { agent, user: response.body };
+  }
+
+  test('should list the permission catalog and built-in roles', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    const catalog = await adminUser.agent.get('/api/permissions').expect(200);
+    expect(catalog.body.map((permission: any) => permission.key)).toContain('read:ssn');
+
+    const roles = await adminUser.agent.get('/api/admin/roles').expect(200);
+    expect(roles.body.find((role: any) => role.key === 'viewer')).toMatchObject({ builtIn: true, id: null });
+  });
+
+  test('should only let admins manage roles', async () => {
+    const { hrUser, viewerUser } = await createTestUsers(app);
+
+    await hrUser.agent.get('/api/admin/roles').expect(403);
+    await viewerUser.agent.post('/api/admin/roles').send(credentialingRole).expect(403);
+  });
+
+  test('should validate role keys and permissions', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    await adminUser.agent.post('/api/admin/roles').send({ ...credentialingRole, key: 'hr' }).expect(409);
+    await adminUser.agent.post('/api/admin/roles').send({ ...credentialingRole, key: 'Bad Key' }).expect(400);
+
+    const unknown = await adminUser.agent
+      .post('/api/admin/roles')
+      .send({ ...credentialingRole, permissions: ['read:everything'] })
+      .expect(400);
+    expect(unknown.body.error).toBe('Unknown permissions: read:everything');
+  });
+
+  test('should enforce custom role permissions and hide SSNs', async () => {
+    const { adminUser } = await createTestUsers(app);
+    await adminUser.agent.post('/api/admin/roles').send(credentialingRole).expect(201);
+
+    const employee = await testDb.createTestEmployee({
+      firstName: 'Role',
+      lastName: 'Test',
+      workEmail: 'role.test@test.com'
+    });
+
+    const { agent, user } = await signInWithRole('credentialing');
+    expect(user.permissions).toEqual(credentialingRole.permissions);
+
+    await agent.get(`/api/employees/${employee.id}/state-licenses`).expect(200);
+    await agent.put(`/api/employees/${employee.id}`).send({ firstName: 'Changed' }).expect(403);
+
+    const details = await agent.get(`/api/employees/${employee.id}`).expect(200);
+    expect(details.body.ssn).toBe('');
+  });
+
+  test('should let onboarding applicants reach only their own employee record', async () => {
+    const { agent, user } = await signInWithRole('prospective_employee');
+    const own = await testDb.createTestEmployee({
+      firstName: 'Applicant',
+      lastName: 'Self',
+      workEmail: 'applicant.self@test.com',
+      status: 'onboarding',
+      userId: user.id
+    });
+    const other = await testDb.createTestEmployee({
+      firstName: 'Someone',
+      lastName: 'Else',
+      workEmail: 'someone.else@test.com'
+    });
+
+    await agent.get(`/api/employees/${own.id}`).expect(200);
+    await agent.get(`/api/employees/${own.id}/state-licenses`).expect(200);
+    await agent.get(`/api/employees/${own.id}/educations`).expect(200);
+    await agent.get(`/api/employees/${own.id}/payer-enrollments`).expect(200);
+    await agent.post(`/api/employees/${own.id}/educations`).send({ schoolInstitution: 'State University', degree: 'BSN' }).expect(201);
+
+    await agent.get(`/api/employees/${other.id}`).expect(403);
+    await agent.get(`/api/employees/${other.id}/state-licenses`).expect(403);
+    await agent.put(`/api/employees/${own.id}`).send({ status: 'active' }).expect(403);
+    await agent.post(`/api/employees/${other.id}/educations`).send({ schoolInstitution: 'State University', degree: 'BSN' }).expect(403);
+  });
+
+  test('should apply permission changes and block deleting assigned roles', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const created = await adminUser.agent.post('/api/admin/roles').send(credentialingRole).expect(201);
+    const { agent } = await signInWithRole('credentialing');
+
+    await adminUser.agent
+      .put(`/api/admin/roles/${created.body.id}`)
+      .send({ permissions: ['read:reports'] })
+      .expect(200);
+    await agent.get('/api/employees').expect(403);
+
+    await adminUser.agent.delete(`/api/admin/roles/${created.body.id}`).expect(409);
+  });
+});
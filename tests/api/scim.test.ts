@@ -0,0 +1,160 @@
+/**
+ * SCIM 2.0 Provisioning API Tests
+ *
+ * Tests directory provisioning over /scim/v2: API key scope enforcement,
+ * creating and finding users, deactivation and role groups.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('SCIM 2.0 Provisioning API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Create an API key for the admin with the given permissions
+   */
+  async function createKey(adminAgent: any, permissions: string[]) {
+    const response = await adminAgent
+      .post('/api/settings/api-keys')
+      .send({ name: 'Directory sync', permissions })
+      .expect(201);
+    return response.body.key as string;
+  }
+
+  const newUser = {
+    schemas: ['urn:ietf:params:scim:schemas:core:2.0:User'],
+    userName: 'new.hire@test.com',
+    externalId: 'dir-1001',
+    emails: [{ value: 'new.hire@test.com', type: 'work', primary: true }],
+    active: true
+  };
+
+  test('should require an API key with the scim:provision permission', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const readOnlyKey = await createKey(adminUser.agent, ['read:users']);
+
+    await request(app).get('/scim/v2/Users').expect(401);
+    await adminUser.agent.get('/scim/v2/Users').expect(401);
+
+    const forbidden = await request(app)
+      .get('/scim/v2/Users')
+      .set('Authorization', `Bearer ${readOnlyKey}`)
+      .expect(403);
+    expect(forbidden.body.schemas).toEqual(['urn:ietf:params:scim:api:messages:2.0:Error']);
+  });
+
+  test('should provision and find users', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const key = await createKey(adminUser.agent, ['scim:provision']);
+
+    const created = await request(app)
+      .post('/scim/v2/Users')
+      .set('Authorization', `Bearer ${key}`)
+      .set('Content-Type', 'application/scim+json')
+      .send(JSON.stringify(newUser))
+      .expect(201);
+    expect(created.headers['content-type']).toContain('application/scim+json');
+    expect(created.body).toMatchObject({ userName: newUser.userName, externalId: 'dir-1001', active: true });
+
+    const found = await request(app)
+      .get('/scim/v2/Users')
+      .query({ filter: 'externalId eq "dir-1001"' })
+      .set('Authorization', `Bearer ${key}`)
+      .expect(200);
+    expect(found.body.totalResults).toBe(1);
+    expect(found.body.Resources[0].id).toBe(created.body.id);
+
+    const duplicate = await request(app)
+      .post('/scim/v2/Users')
+      .set('Authorization', `Bearer ${key}`)
+      .send(newUser)
+      .expect(409);
+    expect(duplicate.body.scimType).toBe('uniqueness');
+  });
+
+  test('should disable deactivated users and revoke their API keys', async () => {
+    const { adminUser, hrUser } = await createTestUsers(app);
+    const key = await createKey(adminUser.agent, ['scim:provision']);
+    const hrKey = await hrUser.agent
+      .post('/api/settings/api-keys')
+      .send({ name: 'Reports', permissions: ['read:employees'] })
+      .expect(201);
+
+    await request(app)
+      .patch(`/scim/v2/Users/${hrUser.user.id}`)
+      .set('Authorization', `Bearer ${key}`)
+      .send({
+        schemas: ['urn:ietf:params:scim:api:messages:2.0:PatchOp'],
+        Operations: [{ op: 'replace', path: 'active', value: false }]
+      })
+      .expect(200);
+
+    expect((await storage.getUser(hrUser.user.id))!.status).toBe('disabled');
+    await request(app)
+      .get('/api/employees')
+      .set('Authorization', `Bearer ${hrKey.body.key}`)
+      .expect(401);
+    await hrUser.agent.get('/api/user').expect(401);
+  });
+
+  test('should never change or deactivate administrators', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const key = await createKey(adminUser.agent, ['scim:provision']);
+
+    await request(app)
+      .patch(`/scim/v2/Users/${adminUser.user.id}`)
+      .set('Authorization', `Bearer ${key}`)
+      .send({ Operations: [{ op: 'replace', path: 'active', value: false }] })
+      .expect(403);
+    await request(app)
+      .put(`/scim/v2/Users/${adminUser.user.id}`)
+      .set('Authorization', `Bearer ${key}`)
+      .send({ userName: 'taken.over', emails: [{ value: 'attacker@example.com', primary: true }] })
+      .expect(403);
+    await request(app)
+      .delete(`/scim/v2/Users/${adminUser.user.id}`)
+      .set('Authorization', `Bearer ${key}`)
+      .expect(403);
+
+    expect(await storage.getUser(adminUser.user.id)).toMatchObject({ status: 'active', username: adminUser.user.username });
+  });
+
+  test('should assign roles through groups but never admin', async () => {
+    const { adminUser, viewerUser } = await createTestUsers(app);
+    const key = await createKey(adminUser.agent, ['scim:provision']);
+
+    const groups = await request(app)
+      .get('/scim/v2/Groups')
+      .query({ excludedAttributes: 'members' })
+      .set('Authorization', `Bearer ${key}`)
+      .expect(200);
+    expect(groups.body.Resources.map((group: any) => group.id)).toContain('hr');
+
+    await request(app)
+      .patch('/scim/v2/Groups/hr')
+      .set('Authorization', `Bearer ${key}`)
+      .send({ Operations: [{ op: 'add', path: 'members', value: [{ value: String(viewerUser.user.id) }] }] })
+      .expect(200);
+    expect((await storage.getUser(viewerUser.user.id))!.role).toBe('hr');
+
+    await request(app)
+      .patch('/scim/v2/Groups/admin')
+      .set('Authorization', `Bearer ${key}`)
+      .send({ Operations: [{ op: 'add', path: 'members', value: [{ value: String(viewerUser.user.id) }] }] })
+      .expect(403);
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Active Sessions API Tests
+ *
+ * Tests listing signed-in sessions, remote sign-out by the user and by
+ * admins, and automatic sign-out when an account is suspended.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import request from 'supertest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+
+describe('Active Sessions API', () => {
+  let app: any;
+  const credentials = { username: 'traveler@test.com', password: 'TravelPass123!' };
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  /**
+   * Sign the same user in from a new agent with a given User-Agent
+   */
+  async function signIn(userAgent: string) {
+    const agent = request.agent(app);
+    await agent.post('/api/login').set('User-Agent', userAgent).send(credentials).expect(200);
+    return agent;
+  }
+
+  test('should list sessions with device details and flag the current one', async () => {
+    await testDb.createTestUser({ ...credentials, role: 'hr' });
+    const laptop = await signIn('Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0.0.0 Safari/537.36');
+    await signIn('Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) Version/17.0 Mobile/15E148 Safari/604.1');
+
+    const response = await laptop.get('/api/sessions').expect(200);
+
+    expect(response.body).toHaveLength(2);
+    expect(response.body[0]).toMatchObject({ current: true, device: 'Chrome on Windows' });
+    expect(response.body[1]).toMatchObject({ current: false, device: 'Safari on iOS' });
+    expect(response.body[0].lastActiveAt).toBeTruthy();
+  });
+
+  test('should sign out another session but not the current one', async () => {
+    await testDb.createTestUser({ ...credentials, role: 'hr' });
+    const laptop = await signIn('laptop-browser');
+    const phone = await signIn('phone-browser');
+
+    const sessions = (await laptop.get('/api/sessions').expect(200)).body;
+    const current = sessions.find((s: any) => s.current);
+    const other = sessions.find((s: any) => !s.current);
+
+    await laptop.delete(`/api/sessions/${current.id}`).expect(400);
+    await laptop.delete(`/api/sessions/${other.id}`).expect(200);
+
+    await phone.get('/api/user').expect(401);
+    await laptop.get('/api/user').expect(200);
+  });
+
+  test('should sign out all other sessions', async () => {
+    await testDb.createTestUser({ ...credentials, role: 'hr' });
+    const laptop = await signIn('laptop-browser');
+    const phone = await signIn('phone-browser');
+    const tablet = await signIn('tablet-browser');
+
+    const response = await laptop.delete('/api/sessions').expect(200);
+
+    expect(response.body.revoked).toBe(2);
+    await phone.get('/api/user').expect(401);
+    await tablet.get('/api/user').expect(401);
+    await laptop.get('/api/user').expect(200);
+  });
+
+  describe('Admin controls', () => {
+    test('should let an admin list and revoke a user\'s sessions', async () => {
+      const { adminUser } = await createTestUsers(app);
+      const user = await testDb.createTestUser({ ...credentials, role: 'hr' });
+      const laptop = await signIn('laptop-browser');
+      const phone = await signIn('phone-browser');
+
+      const sessions = (await adminUser.agent.get(`/api/admin/users/${user.id}/sessions`).expect(200)).body;
+      expect(sessions).toHaveLength(2);
+
+      await adminUser.agent
+        .delete(`/api/admin/users/${user.id}/sessions/${sessions[0].id}`)
+        .expect(200);
+      await adminUser.agent.delete(`/api/admin/users/${user.id}/sessions`).expect(200);
+
+      await laptop.get('/api/user').expect(401);
+      await phone.get('/api/user').expect(401);
+    });
+
+    test('should not let non-admins manage other users\' sessions', async () => {
+      const { adminUser, hrUser } = await createTestUsers(app);
+
+      await hrUser.agent.get(`/api/admin/users/${adminUser.user.id}/sessions`).expect(403);
+      await hrUser.agent.delete(`/api/admin/users/${adminUser.user.id}/sessions`).expect(403);
+    });
+
+    test('should sign a user out everywhere when suspended', async () => {
+      const { adminUser } = await createTestUsers(app);
+      const user = await testDb.createTestUser({ ...credentials, role: 'hr' });
+      const laptop = await signIn('laptop-browser');
+
+      await adminUser.agent
+        .put(`/api/admin/users/${user.id}/status`)
+        .send({ status: 'suspended' })
+        .expect(200);
+
+      await laptop.get('/api/user').expect(401);
+    });
+  });
+});
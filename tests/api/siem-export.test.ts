@@ -0,0 +1,58 @@
+/**
+ * SIEM Export API Tests
+ *
+ * Tests the exporter status endpoint, manual runs and their access control.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+
+describe('SIEM Export API', () => {
+  let app: any;
+  const savedTarget = process.env.SIEM_EXPORT_TARGET;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+    delete process.env.SIEM_EXPORT_TARGET;
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+    if (savedTarget === undefined) {
+      delete process.env.SIEM_EXPORT_TARGET;
+    } else {
+      process.env.SIEM_EXPORT_TARGET = savedTarget;
+    }
+  });
+
+  test('should report the exporter as disabled without a target', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    const response = await adminUser.agent.get('/api/audits/siem-export').expect(200);
+    expect(response.body).toMatchObject({ enabled: false, checkpoint: null });
+
+    await adminUser.agent.post('/api/audits/siem-export/run').expect(400);
+  });
+
+  test('should record the error and keep the checkpoint when the SIEM is unreachable', async () => {
+    const { adminUser } = await createTestUsers(app);
+    process.env.SIEM_EXPORT_TARGET = 'tcp://127.0.0.1:1';
+
+    const response = await adminUser.agent.post('/api/audits/siem-export/run').expect(502);
+    expect(response.body.error).toMatch(/Cannot connect to SIEM/);
+
+    const status = await adminUser.agent.get('/api/audits/siem-export').expect(200);
+    expect(status.body.checkpoint).toMatchObject({ lastAuditId: 0, exportedCount: 0 });
+    expect(status.body.checkpoint.lastError).toMatch(/Cannot connect to SIEM/);
+  });
+
+  test('should be restricted to admins', async () => {
+    const { hrUser } = await createTestUsers(app);
+
+    await hrUser.agent.get('/api/audits/siem-export').expect(403);
+    await hrUser.agent.post('/api/audits/siem-export/run').expect(403);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Webhook API Tests
+ *
+ * Tests admin management of outbound webhook endpoints: access control,
+ * one-time secrets, event validation, delivery logs and redelivery of
+ * dead-lettered deliveries.
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import { getTestApp } from '../utils/test-app';
+import { testDb } from '../utils/test-db';
+import { createTestUsers } from '../utils/auth-helpers';
+import { storage } from '../../server/storage';
+
+describe('Webhook API', () => {
+  let app: any;
+
+  beforeEach(async () => {
+    app = await getTestApp();
+    await testDb.cleanupBetweenTests();
+  });
+
+  afterEach(async () => {
+    await testDb.cleanupBetweenTests();
+  });
+
+  const newEndpoint = {
+    name: 'Payroll sync',
+    url: 'https://payroll.example.com/hooks',
+    events: ['employee.approved', 'license.expired']
+  };
+
+  test('should restrict webhook management to admins', async () => {
+    const { hrUser } = await createTestUsers(app);
+
+    await hrUser.agent.get('/api/settings/webhooks').expect(403);
+    await hrUser.agent.get('/api/settings/webhooks/events').expect(403);
+    await hrUser.agent.get('/api/settings/webhooks/dead-letters').expect(403);
+    await hrUser.agent.post('/api/settings/webhooks').send(newEndpoint).expect(403);
+    await hrUser.agent.post('/api/settings/webhooks/1/test').expect(403);
+    await hrUser.agent.get('/api/settings/webhooks/1/deliveries').expect(403);
+  });
+
+  test('should return the signing secret only when created', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    const created = await adminUser.agent.post('/api/settings/webhooks').send(newEndpoint).expect(201);
+    expect(created.body.secret).toMatch(/^whsec_/);
+
+    const list = await adminUser.agent.get('/api/settings/webhooks').expect(200);
+    expect(list.body).toHaveLength(1);
+    expect(list.body[0]).not.toHaveProperty('secret');
+    expect(list.body[0].events).toEqual(newEndpoint.events);
+
+    const stored = await storage.getWebhookEndpoint(created.body.id);
+    expect(stored!.secret).not.toBe(created.body.secret);
+
+    const { audits } = await storage.getAudits({ tableName: 'webhook_endpoints' });
+    expect(JSON.stringify(audits)).not.toContain(created.body.secret);
+  });
+
+  test('should reject unknown events and invalid URLs', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    const badEvent = await adminUser.agent
+      .post('/api/settings/webhooks')
+      .send({ ...newEndpoint, events: ['employee.deleted'] })
+      .expect(400);
+    expect(badEvent.body.error).toContain('Unknown events');
+
+    await adminUser.agent
+      .post('/api/settings/webhooks')
+      .send({ ...newEndpoint, url: 'not a url' })
+      .expect(400);
+  });
+
+  test('should reject URLs on loopback, private and link-local addresses', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    for (const url of ['https://127.0.0.1/hooks', 'https://localhost/hooks', 'https://10.0.0.5/hooks', 'http://169.254.169.254/latest/meta-data', 'https://[::1]/hooks']) {
+      const response = await adminUser.agent
+        .post('/api/settings/webhooks')
+        .send({ ...newEndpoint, url })
+        .expect(400);
+      expect(response.body.error).toBe('Webhook URLs must point to a public address');
+    }
+  });
+
+  test('should list subscribable events', async () => {
+    const { adminUser } = await createTestUsers(app);
+
+    const response = await adminUser.agent.get('/api/settings/webhooks/events').expect(200);
+    expect(response.body.map((event: any) => event.type)).toEqual([
+      'employee.approved',
+      'license.expired',
+      'form.completed',
+      'invitation.accepted'
+    ]);
+  });
+
+  test('should rotate the secret and update endpoints', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const created = await adminUser.agent.post('/api/settings/webhooks').send(newEndpoint).expect(201);
+
+    const rotated = await adminUser.agent
+      .post(`/api/settings/webhooks/${created.body.id}/rotate-secret`)
+      .expect(200);
+    expect(rotated.body.secret).toMatch(/^whsec_/);
+    expect(rotated.body.secret).not.toBe(created.body.secret);
+
+    const updated = await adminUser.agent
+      .put(`/api/settings/webhooks/${created.body.id}`)
+      .send({ active: false, events: ['*'] })
+      .expect(200);
+    expect(updated.body).toMatchObject({ active: false, events: ['*'] });
+
+    await adminUser.agent.put('/api/settings/webhooks/99999').send({ active: true }).expect(404);
+  });
+
+  test('should show deliveries and redeliver dead letters', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const created = await adminUser.agent.post('/api/settings/webhooks').send({ ...newEndpoint, active: false }).expect(201);
+
+    const dead = await storage.createWebhookDelivery({
+      endpointId: created.body.id,
+      eventId: 'evt_test',
+      eventType: 'employee.approved',
+      payload: { id: 'evt_test', type: 'employee.approved', data: { employeeId: 1 } },
+      status: 'dead',
+      attempts: 6,
+      error: 'Receiver responded with HTTP 500'
+    });
+
+    const log = await adminUser.agent
+      .get(`/api/settings/webhooks/${created.body.id}/deliveries?status=dead`)
+      .expect(200);
+    expect(log.body.total).toBe(1);
+    expect(log.body.deliveries[0].id).toBe(dead.id);
+
+    const deadLetters = await adminUser.agent.get('/api/settings/webhooks/dead-letters').expect(200);
+    expect(deadLetters.body.deliveries.map((delivery: any) => delivery.id)).toEqual([dead.id]);
+
+    const requeued = await adminUser.agent
+      .post(`/api/settings/webhooks/deliveries/${dead.id}/redeliver`)
+      .expect(200);
+    expect(requeued.body).toMatchObject({ status: 'pending', attempts: 0 });
+
+    await adminUser.agent
+      .post(`/api/settings/webhooks/deliveries/${dead.id}/redeliver`)
+      .expect(400);
+  });
+
+  test('should delete an endpoint with its delivery log', async () => {
+    const { adminUser } = await createTestUsers(app);
+    const created = await adminUser.agent.post('/api/settings/webhooks').send(newEndpoint).expect(201);
+
+    await adminUser.agent.delete(`/api/settings/webhooks/${created.body.id}`).expect(200);
+    await adminUser.agent.get(`/api/settings/webhooks/${created.body.id}/deliveries`).expect(404);
+  });
+});
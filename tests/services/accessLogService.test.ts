@@ -0,0 +1,170 @@
+/**
+ * Access Log Service Unit Tests
+ *
+ * Unit tests for PHI read-access logging including:
+ * - Detecting which sensitive fields a response actually serves
+ * - Writing ACCESS audit rows only for successful responses
+ * - Document download events and the per-employee report
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    createAudit: vi.fn(async (audit: any) => ({ id: 1, ...audit })),
+    getAccessEvents: vi.fn()
+  }
+}));
+
+import { accessLogService, sensitiveFieldsServed } from '../../server/services/accessLogService';
+import { storage } from '../../server/storage';
+
+/**
+ * Wait for the finish handlers to write their audit rows
+ */
+const flush = () => new Promise(resolve => setImmediate(resolve));
+
+describe('Access Log Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Sensitive fields', () => {
+    test('should ignore blank and masked values', () => {
+      expect(sensitiveFieldsServed({
+        firstName: 'Jane',
+        ssn: 'enc:123',
+        dateOfBirth: '1980-01-01',
+        caqhLoginId: '',
+        caqhPassword: '***',
+        nppesLoginId: null,
+        nppesPassword: 'secret'
+      })).toEqual(['ssn', 'dateOfBirth', 'nppesPassword']);
+    });
+  });
+
+  describe('Employee access', () => {
+    test('should log the fields served once the response succeeds', async () => {
+      const app = express();
+      app.use((req, _res, next) => {
+        (req as any).user = { id: 5 };
+        next();
+      });
+      app.get('/api/employees/:id', (req, res) => {
+        const body = { id: 12, ssn: 'enc:123', caqhPassword: '***' };
+        accessLogService.trackEmployeeAccess(req, res, 12, body);
+        res.json(body);
+      });
+
+      await request(app).get('/api/employees/12').set('User-Agent', 'test-agent').expect(200);
+      await flush();
+
+      expect(storage.createAudit).toHaveBeenCalledWith({
+        tableName: 'employees',
+        recordId: 12,
+        action: 'ACCESS',
+        changedBy: 5,
+        impersonatedBy: null,
+        oldData: null,
+        newData: expect.objectContaining({
+          event: 'phi_access',
+          fields: ['ssn'],
+          method: 'GET',
+          route: '/api/employees/:id',
+          userAgent: 'test-agent',
+          apiKeyId: null
+        })
+      });
+    });
+
+    test('should not log failed responses or records without sensitive values', async () => {
+      const app = express();
+      app.get('/api/failed', (req, res) => {
+        accessLogService.trackEmployeeAccess(req, res, 12, { ssn: 'enc:123' });
+        res.status(500).json({ error: 'Failed to fetch employee' });
+      });
+      app.get('/api/masked', (req, res) => {
+        accessLogService.trackEmployeeAccess(req, res, 12, { ssn: '', caqhPassword: '***' });
+        res.json({});
+      });
+
+      await request(app).get('/api/failed').expect(500);
+      await request(app).get('/api/masked').expect(200);
+      await flush();
+
+      expect(storage.createAudit).not.toHaveBeenCalled();
+    });
+
+    test('should never fail the request when the audit write fails', async () => {
+      vi.mocked(storage.createAudit).mockRejectedValueOnce(new Error('connection refused'));
+      const errorSpy = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+      const app = express();
+      app.get('/api/employees/:id', (req, res) => {
+        accessLogService.trackEmployeeAccess(req, res, 12, { ssn: 'enc:123' });
+        res.json({ ok: true });
+      });
+
+      await request(app).get('/api/employees/12').expect(200);
+      await flush();
+
+      expect(JSON.parse(String(errorSpy.mock.calls[0][0]))).toMatchObject({
+        level: 'error',
+        msg: 'Failed to log access event',
+        module: 'access-log',
+        error: { message: 'connection refused' }
+      });
+      errorSpy.mockRestore();
+    });
+  });
+
+  describe('Document downloads', () => {
+    test('should log the document and its employee', async () => {
+      const app = express();
+      app.get('/api/documents/:id/download', (req, res) => {
+        accessLogService.trackDocumentDownload(req, res, { id: 33, employeeId: 12, documentType: 'License', fileName: 'license.pdf' } as any);
+        res.send('file');
+      });
+
+      await request(app).get('/api/documents/33/download').expect(200);
+      await flush();
+
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+        tableName: 'documents',
+        recordId: 33,
+        action: 'ACCESS',
+        newData: expect.objectContaining({ event: 'document_download', employeeId: 12, documentType: 'License', fileName: 'license.pdf' })
+      }));
+    });
+
+    test('should log downloads from other tables under that table', async () => {
+      const app = express();
+      app.get('/api/compliance-documents/:id/download', (req, res) => {
+        accessLogService.trackDocumentDownload(req, res, { id: 7, documentType: 'policy', fileName: 'policy.pdf' }, 'compliance_documents');
+        res.json({ url: 'https://example.com/policy.pdf' });
+      });
+
+      await request(app).get('/api/compliance-documents/7/download').expect(200);
+      await flush();
+
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+        tableName: 'compliance_documents',
+        recordId: 7,
+        newData: expect.objectContaining({ event: 'document_download', employeeId: null, fileName: 'policy.pdf' })
+      }));
+    });
+  });
+
+  describe('Access report', () => {
+    test('should page through an employee\'s access events', async () => {
+      vi.mocked(storage.getAccessEvents).mockResolvedValue({ events: [], total: 60 });
+
+      const result = await accessLogService.getEmployeeAccessLog(12, { page: 3, limit: 25 });
+
+      expect(storage.getAccessEvents).toHaveBeenCalledWith(12, { limit: 25, offset: 50 });
+      expect(result).toEqual({ events: [], total: 60, page: 3, totalPages: 3 });
+    });
+  });
+});
@@ -0,0 +1,168 @@
+/**
+ * API Key Usage Service Unit Tests
+ *
+ * Unit tests for API key usage analytics and IP allowlists including:
+ * - Recording requests, errors and blocked attempts per route
+ * - Daily series, endpoint breakdown and error rates
+ * - IPv4/IPv6 CIDR allowlist matching
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    recordApiKeyUsage: vi.fn(),
+    getApiKeyUsage: vi.fn()
+  }
+}));
+
+import { apiKeyUsageService, usageBucket } from '../../server/services/apiKeyUsageService';
+import { isIpAllowed, isValidIpOrCidr } from '../../server/utils/ipAllowlist';
+import { storage } from '../../server/storage';
+
+/**
+ * Build a minimal request/response pair that emits 'finish' on demand
+ */
+function mockExchange(statusCode: number) {
+  const res = Object.assign(new EventEmitter(), { statusCode, locals: {} as Record<string, unknown> });
+  const req = {
+    method: 'GET',
+    baseUrl: '',
+    route: { path: '/api/employees/:id' },
+    path: '/api/employees/12',
+    ip: '198.51.100.4'
+  };
+  return { req: req as any, res: res as any };
+}
+
+/**
+ * Build a usage row for today at the given hour
+ */
+function usageRow(overrides: Record<string, unknown>) {
+  const bucket = new Date();
+  bucket.setUTCHours(1, 0, 0, 0);
+  return {
+    id: 1,
+    apiKeyId: 7,
+    bucket,
+    method: 'GET',
+    route: '/api/employees',
+    requestCount: 0,
+    errorCount: 0,
+    blockedCount: 0,
+    lastBlockedIp: null,
+    updatedAt: bucket,
+    ...overrides
+  };
+}
+
+describe('API Key Usage Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.recordApiKeyUsage).mockResolvedValue(undefined);
+  });
+
+  describe('Recording usage', () => {
+    test('should count a request against its route pattern once the response finishes', () => {
+      const { req, res } = mockExchange(200);
+
+      apiKeyUsageService.track(req, res, 7);
+      expect(storage.recordApiKeyUsage).not.toHaveBeenCalled();
+
+      res.emit('finish');
+      expect(storage.recordApiKeyUsage).toHaveBeenCalledWith({
+        apiKeyId: 7,
+        bucket: usageBucket(new Date()),
+        method: 'GET',
+        route: '/api/employees/:id',
+        error: false,
+        blocked: false,
+        ip: null
+      });
+    });
+
+    test('should record blocked attempts with the client address', () => {
+      const { req, res } = mockExchange(403);
+
+      apiKeyUsageService.track(req, res, 7);
+      apiKeyUsageService.markBlocked(res);
+      res.emit('finish');
+
+      expect(storage.recordApiKeyUsage).toHaveBeenCalledWith(expect.objectContaining({
+        error: true,
+        blocked: true,
+        ip: '198.51.100.4'
+      }));
+    });
+
+    test('should bucket usage by UTC hour', () => {
+      expect(usageBucket(new Date('2025-03-01T14:37:12.345Z')).toISOString()).toBe('2025-03-01T14:00:00.000Z');
+    });
+  });
+
+  describe('Summarizing usage', () => {
+    test('should total requests per day and per endpoint', async () => {
+      vi.mocked(storage.getApiKeyUsage).mockResolvedValue([
+        usageRow({ requestCount: 8, errorCount: 2, blockedCount: 1, lastBlockedIp: '198.51.100.4' }),
+        usageRow({ method: 'POST', route: '/api/employees', requestCount: 2 }),
+        usageRow({ requestCount: 10, errorCount: 0 })
+      ] as any);
+
+      const summary = await apiKeyUsageService.getSummary(7, 7);
+
+      expect(summary.days).toBe(7);
+      expect(summary.daily).toHaveLength(7);
+      expect(summary.daily[6]).toEqual({ date: new Date().toISOString().slice(0, 10), requests: 20, errors: 2, blocked: 1 });
+      expect(summary.daily[0]).toMatchObject({ requests: 0, errors: 0, blocked: 0 });
+      expect(summary.totals).toEqual({ requests: 20, errors: 2, blocked: 1, errorRate: 10 });
+      expect(summary.endpoints).toEqual([
+        { method: 'GET', route: '/api/employees', requests: 18, errors: 2, blocked: 1, errorRate: 11.1 },
+        { method: 'POST', route: '/api/employees', requests: 2, errors: 0, blocked: 0, errorRate: 0 }
+      ]);
+      expect(summary.lastBlockedIp).toBe('198.51.100.4');
+    });
+
+    test('should query from the start of the first day', async () => {
+      vi.mocked(storage.getApiKeyUsage).mockResolvedValue([]);
+
+      const summary = await apiKeyUsageService.getSummary(7);
+      const [, since] = vi.mocked(storage.getApiKeyUsage).mock.calls[0];
+
+      expect(since.toISOString().slice(0, 10)).toBe(summary.daily[0].date);
+      expect(since.getUTCHours()).toBe(0);
+      expect(summary.totals.errorRate).toBe(0);
+      expect(summary.lastBlockedIp).toBeNull();
+    });
+  });
+
+  describe('IP allowlists', () => {
+    test('should validate addresses and CIDR ranges', () => {
+      expect(isValidIpOrCidr('203.0.113.7')).toBe(true);
+      expect(isValidIpOrCidr('10.0.0.0/8')).toBe(true);
+      expect(isValidIpOrCidr('2001:db8::/32')).toBe(true);
+      expect(isValidIpOrCidr('10.0.0.0/33')).toBe(false);
+      expect(isValidIpOrCidr('2001:db8::/129')).toBe(false);
+      expect(isValidIpOrCidr('example.com')).toBe(false);
+      expect(isValidIpOrCidr('10.0.0.0/8/1')).toBe(false);
+    });
+
+    test('should match IPv4 and IPv6 clients', () => {
+      expect(isIpAllowed('10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+      expect(isIpAllowed('11.1.2.3', ['10.0.0.0/8'])).toBe(false);
+      expect(isIpAllowed('2001:db8::1', ['2001:db8::/32'])).toBe(true);
+      expect(isIpAllowed('2001:db9::1', ['2001:db8::/32'])).toBe(false);
+      expect(isIpAllowed('203.0.113.7', ['203.0.113.7'])).toBe(true);
+    });
+
+    test('should match IPv4-mapped IPv6 clients against IPv4 entries', () => {
+      expect(isIpAllowed('::ffff:10.1.2.3', ['10.0.0.0/8'])).toBe(true);
+    });
+
+    test('should ignore invalid entries and reject unknown clients', () => {
+      expect(isIpAllowed('10.1.2.3', ['not-an-ip'])).toBe(false);
+      expect(isIpAllowed(undefined, ['10.0.0.0/8'])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Audit Integrity Service Unit Tests
+ *
+ * Unit tests for the tamper-evident audit log including:
+ * - Canonical hashing of audit rows
+ * - Detecting edited, deleted and unhashed rows in the chain
+ * - Signed daily checkpoints
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getAuditChainBatch: vi.fn(),
+    getAudit: vi.fn(),
+    getAuditChainHead: vi.fn(),
+    createAuditCheckpoint: vi.fn(),
+    getAuditCheckpoint: vi.fn(),
+    getAuditCheckpoints: vi.fn(),
+    getAuditArchiveRanges: vi.fn()
+  }
+}));
+
+import { auditIntegrityService, AuditIntegrityError } from '../../server/services/auditIntegrityService';
+import { canonicalJson, computeAuditHash, AUDIT_CHAIN_GENESIS_HASH } from '../../server/utils/auditHash';
+import { storage } from '../../server/storage';
+
+/**
+ * Build a valid chain of audit rows, optionally preceded by unhashed rows
+ */
+function buildChain(count: number, legacy: number = 0) {
+  const rows: any[] = [];
+  for (let i = 1; i <= legacy; i++) {
+    rows.push({ id: i, tableName: 'employees', recordId: i, action: 'CREATE', changedBy: 1, impersonatedBy: null, changedAt: new Date('2024-01-01T00:00:00Z'), oldData: null, newData: { i }, previousHash: null, hash: null });
+  }
+
+  let previousHash = AUDIT_CHAIN_GENESIS_HASH;
+  for (let i = legacy + 1; i <= legacy + count; i++) {
+    const row: any = {
+      id: i,
+      tableName: 'employees',
+      recordId: i,
+      action: 'UPDATE',
+      changedBy: 1,
+      impersonatedBy: null,
+      changedAt: new Date(`2025-03-01T10:00:0${i % 10}Z`),
+      oldData: { status: 'inactive' },
+      newData: { status: 'active', tags: ['a', 'b'] },
+      previousHash
+    };
+    row.hash = computeAuditHash(row, previousHash);
+    previousHash = row.hash;
+    rows.push(row);
+  }
+  return rows;
+}
+
+/**
+ * Serve rows to the verifier in batches like the database would
+ */
+function serveRows(rows: any[]) {
+  vi.mocked(storage.getAuditChainBatch).mockImplementation(async (afterId, limit) =>
+    rows.filter(row => row.id > afterId).slice(0, limit)
+  );
+}
+
+describe('Audit Integrity Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getAuditCheckpoints).mockResolvedValue([]);
+    vi.mocked(storage.getAuditArchiveRanges).mockResolvedValue([]);
+  });
+
+  describe('Hashing', () => {
+    test('should hash JSON data independently of key order', () => {
+      expect(canonicalJson({ b: 1, a: { d: 2, c: [3, { f: 4, e: 5 }] } }))
+        .toBe('{"a":{"c":[3,{"e":5,"f":4}],"d":2},"b":1}');
+
+      const base = { tableName: 'employees', recordId: 1, action: 'UPDATE', changedAt: '2025-03-01T10:00:00.000Z' };
+      expect(computeAuditHash({ ...base, newData: { a: 1, b: 2 } }, AUDIT_CHAIN_GENESIS_HASH))
+        .toBe(computeAuditHash({ ...base, newData: { b: 2, a: 1 } }, AUDIT_CHAIN_GENESIS_HASH));
+      expect(computeAuditHash({ ...base, newData: { a: 1 } }, AUDIT_CHAIN_GENESIS_HASH))
+        .not.toBe(computeAuditHash({ ...base, newData: { a: 2 } }, AUDIT_CHAIN_GENESIS_HASH));
+    });
+  });
+
+  describe('Verifying the chain', () => {
+    test('should accept an intact chain after legacy rows', async () => {
+      serveRows(buildChain(5, 2));
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result).toMatchObject({ valid: true, checked: 5, legacyRows: 2, firstChainedId: 3, lastChainedId: 7, breaks: [] });
+    });
+
+    test('should report an edited row', async () => {
+      const rows = buildChain(4);
+      rows[1].newData = { status: 'terminated' };
+      serveRows(rows);
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.breaks).toEqual([{ auditId: 2, reason: 'hash_mismatch' }]);
+    });
+
+    test('should report a deleted row at the row after it', async () => {
+      const rows = buildChain(4);
+      rows.splice(1, 1);
+      serveRows(rows);
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result.breaks).toEqual([{ auditId: 3, reason: 'previous_hash_mismatch' }]);
+    });
+
+    test('should accept gaps left by archived rows', async () => {
+      const rows = buildChain(6);
+      rows.splice(1, 2);
+      rows.splice(2, 1);
+      serveRows(rows);
+      vi.mocked(storage.getAuditArchiveRanges).mockResolvedValue([
+        { firstAuditId: 2, lastAuditId: 2 },
+        { firstAuditId: 3, lastAuditId: 5 }
+      ]);
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result).toMatchObject({ valid: true, checked: 3, archivedGaps: 2, breaks: [] });
+    });
+
+    test('should report gaps outside archived ranges', async () => {
+      const rows = buildChain(5);
+      rows.splice(1, 2);
+      serveRows(rows);
+      vi.mocked(storage.getAuditArchiveRanges).mockResolvedValue([{ firstAuditId: 2, lastAuditId: 2 }]);
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result.breaks).toEqual([{ auditId: 4, reason: 'previous_hash_mismatch' }]);
+    });
+
+    test('should report rows inserted without a hash', async () => {
+      const rows = buildChain(3);
+      rows.push({ ...rows[2], id: 4, hash: null, previousHash: null });
+      serveRows(rows);
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result.breaks).toEqual([{ auditId: 4, reason: 'missing_hash' }]);
+    });
+  });
+
+  describe('Checkpoints', () => {
+    test('should sign the chain head at the end of the day', async () => {
+      vi.mocked(storage.getAuditCheckpoint).mockResolvedValue(undefined);
+      vi.mocked(storage.getAuditChainHead).mockResolvedValue({ lastAuditId: 42, lastHash: 'a'.repeat(64), auditCount: 42 });
+      vi.mocked(storage.createAuditCheckpoint).mockImplementation(async (checkpoint) => ({ id: 1, createdAt: new Date(), ...checkpoint } as any));
+
+      const checkpoint = await auditIntegrityService.createCheckpoint('2025-03-01');
+
+      expect(storage.getAuditChainHead).toHaveBeenCalledWith(new Date('2025-03-02T00:00:00.000Z'));
+      expect(checkpoint).toMatchObject({ checkpointDate: '2025-03-01', lastAuditId: 42, auditCount: 42 });
+      expect(auditIntegrityService.verifySignature(
+        { date: '2025-03-01', lastAuditId: 42, lastHash: 'a'.repeat(64), auditCount: 42 },
+        checkpoint.signature
+      )).toBe(true);
+      expect(auditIntegrityService.verifySignature(
+        { date: '2025-03-01', lastAuditId: 42, lastHash: 'b'.repeat(64), auditCount: 42 },
+        checkpoint.signature
+      )).toBe(false);
+    });
+
+    test('should refuse days that have not ended', async () => {
+      const today = new Date().toISOString().slice(0, 10);
+
+      await expect(auditIntegrityService.createCheckpoint(today)).rejects.toBeInstanceOf(AuditIntegrityError);
+      await expect(auditIntegrityService.createCheckpoint('2025-02-30')).rejects.toThrow('Date must be in YYYY-MM-DD format');
+    });
+
+    test('should fail verification when a checkpoint no longer matches the chain', async () => {
+      const rows = buildChain(3);
+      serveRows(rows);
+      const payload = { date: '2025-03-01', lastAuditId: 3, lastHash: 'f'.repeat(64), auditCount: 3 };
+      vi.mocked(storage.getAuditCheckpoints).mockResolvedValue([
+        { id: 1, checkpointDate: '2025-03-01', lastAuditId: 3, lastHash: payload.lastHash, auditCount: 3, signature: auditIntegrityService.sign(payload), createdAt: new Date() }
+      ]);
+      vi.mocked(storage.getAudit).mockResolvedValue(rows[2]);
+
+      const result = await auditIntegrityService.verifyChain();
+
+      expect(result.valid).toBe(false);
+      expect(result.breaks).toEqual([]);
+      expect(result.checkpoints).toEqual({ checked: 1, failures: [{ date: '2025-03-01', reason: 'hash_mismatch' }] });
+    });
+  });
+});
@@ -0,0 +1,285 @@
+/**
+ * Audit Retention Service Unit Tests
+ *
+ * Unit tests for audit retention and archival including:
+ * - Choosing the most specific policy for each row
+ * - Archiving expired rows as gzipped JSONL and pruning only verified uploads
+ * - Holding back rows the SIEM has not received
+ * - Restoring archives with checksum and hash checks
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import zlib from 'zlib';
+
+/**
+ * Objects "uploaded" to S3
+ */
+const uploads = vi.hoisted(() => new Map<string, Buffer>());
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getAuditRetentionPolicies: vi.fn(),
+    getAuditRetentionPolicy: vi.fn(),
+    createAuditRetentionPolicy: vi.fn(),
+    updateAuditRetentionPolicy: vi.fn(),
+    deleteAuditRetentionPolicy: vi.fn(),
+    getExpiredAudits: vi.fn(),
+    countExpiredAudits: vi.fn(),
+    archiveAudits: vi.fn(),
+    getAuditArchive: vi.fn(),
+    getAuditArchives: vi.fn(),
+    loadArchivedAudits: vi.fn(),
+    unloadArchivedAudits: vi.fn(),
+    getSiemExportCheckpoint: vi.fn()
+  }
+}));
+
+// Mock S3 with an in-memory bucket
+vi.mock('../../server/services/s3Service', () => ({
+  s3Service: {
+    uploadFile: vi.fn(async (buffer: Buffer, key: string) => {
+      uploads.set(key, buffer);
+      return { success: true, storageType: 's3', storageKey: key };
+    }),
+    downloadFile: vi.fn(async (key: string) => uploads.has(key)
+      ? { success: true, data: uploads.get(key) }
+      : { success: false, error: 'NoSuchKey' })
+  }
+}));
+
+vi.mock('../../server/services/siemExportService', () => ({
+  siemExportService: {
+    isEnabled: vi.fn(() => false),
+    getConfig: vi.fn(() => ({ name: 'default' }))
+  }
+}));
+
+import { auditRetentionService, AuditRetentionError } from '../../server/services/auditRetentionService';
+import { computeAuditHash, AUDIT_CHAIN_GENESIS_HASH } from '../../server/utils/auditHash';
+import { storage } from '../../server/storage';
+import { s3Service } from '../../server/services/s3Service';
+import { siemExportService } from '../../server/services/siemExportService';
+import type { Audit, AuditArchive, AuditRetentionPolicy } from '@shared/schema';
+
+/**
+ * Build a retention policy
+ */
+function policy(id: number, tableName: string | null, action: string | null, retentionDays: number, active = true): AuditRetentionPolicy {
+  return { id, tableName, action, retentionDays, active, description: null, createdBy: 1, createdAt: new Date(), updatedAt: new Date() };
+}
+
+/**
+ * Build an archive row
+ */
+function archiveRow(overrides: Partial<AuditArchive> = {}): AuditArchive {
+  return {
+    id: 1,
+    policyId: 1,
+    storageType: 's3',
+    storageKey: 'audit-archives/test.jsonl.gz',
+    rowCount: 1,
+    firstAuditId: 1,
+    lastAuditId: 1,
+    firstChangedAt: null,
+    lastChangedAt: null,
+    sha256: '',
+    sizeBytes: 0,
+    restoredAt: null,
+    restoredBy: null,
+    createdAt: new Date(),
+    ...overrides
+  };
+}
+
+/**
+ * Build hash-chained audit rows
+ */
+function auditRows(ids: number[]): Audit[] {
+  let previousHash = AUDIT_CHAIN_GENESIS_HASH;
+  return ids.map(id => {
+    const row: Audit = {
+      id,
+      tableName: 'employees',
+      recordId: id,
+      action: 'UPDATE',
+      changedBy: 1,
+      impersonatedBy: null,
+      changedAt: new Date(`2020-01-0${id}T00:00:00Z`),
+      oldData: { status: 'inactive' },
+      newData: { status: 'active' },
+      previousHash,
+      hash: null
+    };
+    row.hash = previousHash = computeAuditHash(row, previousHash);
+    return row;
+  });
+}
+
+describe('Audit Retention Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    uploads.clear();
+    vi.mocked(siemExportService.isEnabled).mockReturnValue(false);
+    vi.mocked(storage.createAuditRetentionPolicy).mockImplementation(async (values) => ({
+      ...policy(10, values.tableName ?? null, values.action ?? null, values.retentionDays, values.active ?? true),
+      description: values.description ?? null,
+      createdBy: values.createdBy ?? null
+    }));
+    vi.mocked(storage.archiveAudits).mockImplementation(async (archive) => archiveRow({
+      ...archive,
+      policyId: archive.policyId ?? null,
+      firstChangedAt: archive.firstChangedAt ?? null,
+      lastChangedAt: archive.lastChangedAt ?? null
+    }));
+    vi.mocked(storage.loadArchivedAudits).mockImplementation(async (archiveId, rows, restoredBy) => archiveRow({
+      id: archiveId,
+      restoredAt: new Date(),
+      restoredBy
+    }));
+  });
+
+  describe('Policies', () => {
+    test('should reject a second policy for the same scope', async () => {
+      vi.mocked(storage.getAuditRetentionPolicies).mockResolvedValue([policy(1, 'employees', null, 365)]);
+
+      await expect(auditRetentionService.createPolicy({ tableName: 'employees', retentionDays: 90 }, 1))
+        .rejects.toMatchObject({ status: 409 });
+      expect(storage.createAuditRetentionPolicy).not.toHaveBeenCalled();
+
+      await auditRetentionService.createPolicy({ tableName: 'employees', action: 'ACCESS', retentionDays: 90 }, 1);
+      expect(storage.createAuditRetentionPolicy).toHaveBeenCalledWith(expect.objectContaining({
+        tableName: 'employees',
+        action: 'ACCESS',
+        retentionDays: 90,
+        createdBy: 1
+      }));
+    });
+
+    test('should leave rows of more specific policies to those policies', async () => {
+      vi.mocked(storage.getAuditRetentionPolicies).mockResolvedValue([
+        policy(1, null, null, 3650),
+        policy(2, 'employees', null, 2190),
+        policy(3, 'employees', 'ACCESS', 365),
+        policy(4, null, 'LOGIN', 90, false)
+      ]);
+      vi.mocked(storage.countExpiredAudits).mockResolvedValue(0);
+
+      const preview = await auditRetentionService.preview();
+
+      expect(preview.map(entry => entry.policyId)).toEqual([1, 2, 3]);
+      const scopes = vi.mocked(storage.countExpiredAudits).mock.calls.map(([scope]) => scope);
+      expect(scopes[0].exclude).toEqual([
+        { tableName: 'employees', action: null },
+        { tableName: 'employees', action: 'ACCESS' },
+        { tableName: null, action: 'LOGIN' }
+      ]);
+      expect(scopes[1].exclude).toEqual([{ tableName: 'employees', action: 'ACCESS' }]);
+      expect(scopes[2].exclude).toEqual([]);
+      expect(Date.now() - scopes[2].before.getTime()).toBeGreaterThanOrEqual(365 * 24 * 60 * 60 * 1000);
+    });
+  });
+
+  describe('Archiving', () => {
+    test('should upload expired rows as gzipped JSONL and prune them', async () => {
+      const rows = auditRows([1, 2, 3]);
+      vi.mocked(storage.getAuditRetentionPolicies).mockResolvedValue([policy(1, 'employees', null, 365)]);
+      vi.mocked(storage.getExpiredAudits).mockResolvedValueOnce(rows).mockResolvedValue([]);
+
+      const result = await auditRetentionService.run();
+
+      expect(result).toMatchObject({ archivedRows: 3, errors: [] });
+      const [key, body] = [...uploads.entries()][0];
+      expect(key).toMatch(/^audit-archives\/2020\/01\/audits-1-3-\d+\.jsonl\.gz$/);
+      const lines = zlib.gunzipSync(body).toString().trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.map(line => line.id)).toEqual([1, 2, 3]);
+
+      expect(storage.archiveAudits).toHaveBeenCalledWith(expect.objectContaining({
+        policyId: 1,
+        storageKey: key,
+        rowCount: 3,
+        firstAuditId: 1,
+        lastAuditId: 3,
+        sha256: crypto.createHash('sha256').update(body).digest('hex')
+      }), [1, 2, 3]);
+    });
+
+    test('should keep rows when the upload cannot be read back', async () => {
+      vi.mocked(storage.getAuditRetentionPolicies).mockResolvedValue([policy(1, null, null, 365)]);
+      vi.mocked(storage.getExpiredAudits).mockResolvedValue(auditRows([1]));
+      vi.mocked(s3Service.downloadFile).mockResolvedValueOnce({ success: true, data: Buffer.from('corrupt') });
+
+      const result = await auditRetentionService.run();
+
+      expect(result.archivedRows).toBe(0);
+      expect(result.errors).toEqual([{ policyId: 1, error: expect.stringMatching(/read back intact/) }]);
+      expect(storage.archiveAudits).not.toHaveBeenCalled();
+    });
+
+    test('should not prune rows the SIEM has not received', async () => {
+      vi.mocked(siemExportService.isEnabled).mockReturnValue(true);
+      vi.mocked(storage.getSiemExportCheckpoint).mockResolvedValue({
+        name: 'default',
+        lastAuditId: 42,
+        exportedCount: 42,
+        lastExportedAt: new Date(),
+        lastError: null,
+        lastErrorAt: null,
+        updatedAt: new Date()
+      });
+      vi.mocked(storage.getAuditRetentionPolicies).mockResolvedValue([policy(1, null, null, 365)]);
+      vi.mocked(storage.getExpiredAudits).mockResolvedValue([]);
+
+      await auditRetentionService.run();
+
+      expect(storage.getExpiredAudits).toHaveBeenCalledWith(expect.objectContaining({ maxAuditId: 42 }), expect.any(Number));
+    });
+  });
+
+  describe('Restoring', () => {
+    /**
+     * Store an archive file and return its archive row
+     */
+    function storeArchive(rows: Audit[]) {
+      const body = zlib.gzipSync(Buffer.from(rows.map(row => JSON.stringify(row)).join('\n') + '\n'));
+      uploads.set('audit-archives/test.jsonl.gz', body);
+      const archive = archiveRow({
+        id: 7,
+        rowCount: rows.length,
+        sha256: crypto.createHash('sha256').update(body).digest('hex'),
+        sizeBytes: body.length
+      });
+      vi.mocked(storage.getAuditArchive).mockResolvedValue(archive);
+      return archive;
+    }
+
+    test('should load archived rows and report rows whose hash no longer matches', async () => {
+      const rows = auditRows([1, 2, 3]);
+      rows[1].newData = { status: 'terminated' };
+      storeArchive(rows);
+
+      const result = await auditRetentionService.restoreArchive(7, 5);
+
+      expect(result).toMatchObject({ restoredRows: 3, invalidRows: [2] });
+      const [archiveId, loaded, restoredBy] = vi.mocked(storage.loadArchivedAudits).mock.calls[0];
+      expect(archiveId).toBe(7);
+      expect(restoredBy).toBe(5);
+      expect(loaded[0]).toMatchObject({ id: 1, tableName: 'employees', changedAt: new Date('2020-01-01T00:00:00Z') });
+    });
+
+    test('should refuse an archive that fails its checksum', async () => {
+      const archive = storeArchive(auditRows([1]));
+      archive.sha256 = '0'.repeat(64);
+
+      await expect(auditRetentionService.restoreArchive(7, 5)).rejects.toBeInstanceOf(AuditRetentionError);
+      expect(storage.loadArchivedAudits).not.toHaveBeenCalled();
+    });
+
+    test('should report missing archives', async () => {
+      vi.mocked(storage.getAuditArchive).mockResolvedValue(undefined);
+
+      await expect(auditRetentionService.unloadArchive(99)).rejects.toMatchObject({ status: 404 });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+/**
+ * Employee Duplicate Service Unit Tests
+ *
+ * Unit tests for duplicate employee detection and merging including:
+ * - Combining the identifiers matched per pair into one queue entry
+ * - Listing candidates with both employee records
+ * - Dismissing and merging only pending candidates
+ * - Hiding pairs outside the reviewer's locations
+ * - Passing every employee reference to the merge
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    findDuplicateEmployeePairs: vi.fn(),
+    recordEmployeeDuplicateScan: vi.fn(async () => ({ detected: 1, resolved: 0 })),
+    getEmployeeDuplicateCandidates: vi.fn(),
+    getEmployeeDuplicateCandidate: vi.fn(),
+    getEmployeesByIds: vi.fn(),
+    getAllLocations: vi.fn(async () => [{ id: 3, name: 'North Clinic', code: 'NORTH' }, { id: 4, name: 'South Clinic', code: null }]),
+    updateEmployeeDuplicateCandidate: vi.fn(),
+    mergeEmployees: vi.fn()
+  }
+}));
+
+import { employeeDuplicateService, EmployeeDuplicateError, EMPLOYEE_REFERENCES } from '../../server/services/employeeDuplicateService';
+import { storage } from '../../server/storage';
+import type { EmployeeDuplicateCandidate, EmployeeMergeSummary } from '@shared/schema';
+import { buildEmployee } from '../utils/fixtures';
+
+const candidate = (overrides: Partial<EmployeeDuplicateCandidate> = {}): EmployeeDuplicateCandidate => ({
+  id: 7,
+  employeeId: 1,
+  duplicateEmployeeId: 2,
+  reasons: ['npi'],
+  status: 'pending',
+  detectedAt: new Date('2026-01-05T00:00:00Z'),
+  lastSeenAt: new Date('2026-01-05T00:00:00Z'),
+  reviewedBy: null,
+  reviewedAt: null,
+  survivingEmployeeId: null,
+  mergeSummary: null,
+  ...overrides
+});
+
+describe('EmployeeDuplicateService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.updateEmployeeDuplicateCandidate).mockImplementation(async (id, data) => candidate({ ...data, id }));
+  });
+
+  describe('scan', () => {
+    test('should queue each pair once with every reason that matched', async () => {
+      vi.mocked(storage.findDuplicateEmployeePairs).mockResolvedValue([
+        { employeeId: 1, duplicateEmployeeId: 2, reason: 'npi' },
+        { employeeId: 3, duplicateEmployeeId: 4, reason: 'email' },
+        { employeeId: 1, duplicateEmployeeId: 2, reason: 'ssn' },
+        { employeeId: 1, duplicateEmployeeId: 2, reason: 'ssn' }
+      ]);
+
+      const result = await employeeDuplicateService.scan();
+
+      expect(storage.recordEmployeeDuplicateScan).toHaveBeenCalledWith([
+        { employeeId: 1, duplicateEmployeeId: 2, reasons: ['npi', 'ssn'] },
+        { employeeId: 3, duplicateEmployeeId: 4, reasons: ['email'] }
+      ], undefined);
+      expect(result).toEqual({ pairs: 2, detected: 1, resolved: 0 });
+    });
+
+    test('should only pair and resolve employees inside the location scope', async () => {
+      vi.mocked(storage.findDuplicateEmployeePairs).mockResolvedValue([{ employeeId: 1, duplicateEmployeeId: 2, reason: 'npi' }]);
+
+      await employeeDuplicateService.scan([3]);
+
+      expect(storage.findDuplicateEmployeePairs).toHaveBeenCalledWith([3]);
+      expect(storage.recordEmployeeDuplicateScan).toHaveBeenCalledWith([{ employeeId: 1, duplicateEmployeeId: 2, reasons: ['npi'] }], [3]);
+    });
+  });
+
+  describe('list', () => {
+    test('should attach identifying fields of both employees and null for deleted ones', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidates).mockResolvedValue({ candidates: [candidate()], total: 1 });
+      vi.mocked(storage.getEmployeesByIds).mockResolvedValue([
+        buildEmployee({ firstName: 'Ana', lastName: 'Ruiz', workEmail: 'ana@clinic.test', npiNumber: '1234567890', jobTitle: 'RN', ssn: 'v2:secret' })
+      ]);
+
+      const { candidates, total } = await employeeDuplicateService.list({ status: 'pending', limit: 20, offset: 0 });
+
+      expect(storage.getEmployeesByIds).toHaveBeenCalledWith([1, 2]);
+      expect(total).toBe(1);
+      expect(candidates[0].employee).toEqual({
+        id: 1, firstName: 'Ana', lastName: 'Ruiz', workEmail: 'ana@clinic.test', personalEmail: null,
+        npiNumber: '1234567890', jobTitle: 'RN', status: 'active', createdAt: null
+      });
+      expect(candidates[0].duplicate).toBeNull();
+    });
+
+    test('should pass the location scope to storage', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidates).mockResolvedValue({ candidates: [], total: 0 });
+
+      await employeeDuplicateService.list({ locationIds: [3], limit: 20, offset: 0 });
+
+      expect(storage.getEmployeeDuplicateCandidates).toHaveBeenCalledWith({ locationIds: [3], limit: 20, offset: 0 });
+    });
+  });
+
+  describe('dismiss', () => {
+    test('should mark a pending candidate dismissed by the reviewer', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate());
+
+      const { before, candidate: dismissed } = await employeeDuplicateService.dismiss(7, 9);
+
+      expect(before.status).toBe('pending');
+      expect(dismissed.status).toBe('dismissed');
+      expect(storage.updateEmployeeDuplicateCandidate).toHaveBeenCalledWith(7, expect.objectContaining({ status: 'dismissed', reviewedBy: 9 }));
+    });
+
+    test('should reject candidates that were already reviewed', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate({ status: 'merged' }));
+
+      await expect(employeeDuplicateService.dismiss(7, 9)).rejects.toMatchObject({ status: 409 });
+      expect(storage.updateEmployeeDuplicateCandidate).not.toHaveBeenCalled();
+    });
+
+    test('should return 404 for unknown candidates', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(undefined);
+
+      await expect(employeeDuplicateService.dismiss(7, 9)).rejects.toBeInstanceOf(EmployeeDuplicateError);
+      await expect(employeeDuplicateService.dismiss(7, 9)).rejects.toMatchObject({ status: 404 });
+    });
+
+    test('should return 404 when an employee of the pair is outside the scope', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate());
+      vi.mocked(storage.getEmployeesByIds).mockResolvedValue([
+        buildEmployee({ id: 1, workLocation: 'North Clinic' }),
+        buildEmployee({ id: 2, workLocation: 'South Clinic' })
+      ]);
+
+      await expect(employeeDuplicateService.dismiss(7, 9, [3])).rejects.toMatchObject({ status: 404 });
+      expect(storage.updateEmployeeDuplicateCandidate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('merge', () => {
+    test('should merge the other employee of the pair into the survivor', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate());
+      const summary: EmployeeMergeSummary = {
+        survivingEmployeeId: 2,
+        mergedEmployeeId: 1,
+        movedRecords: { state_licenses: [4, 5] },
+        droppedRecords: {},
+        filledFields: ['npiNumber'],
+        mergedAt: '2026-01-06T00:00:00.000Z',
+        mergedBy: 9
+      };
+      vi.mocked(storage.mergeEmployees).mockResolvedValue({
+        candidate: candidate({ status: 'merged', survivingEmployeeId: 2, mergeSummary: summary }),
+        survivor: buildEmployee({ id: 2 }),
+        merged: buildEmployee()
+      });
+
+      const result = await employeeDuplicateService.merge(7, 2, 9);
+
+      expect(storage.mergeEmployees).toHaveBeenCalledWith(7, 2, 1, EMPLOYEE_REFERENCES, 9);
+      expect(result.before.status).toBe('pending');
+      expect(result.candidate.mergeSummary).toEqual(summary);
+    });
+
+    test('should reject a survivor outside the pair', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate());
+
+      await expect(employeeDuplicateService.merge(7, 5, 9)).rejects.toMatchObject({ status: 400 });
+      expect(storage.mergeEmployees).not.toHaveBeenCalled();
+    });
+
+    test('should report a conflict when an employee was deleted meanwhile', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate());
+      vi.mocked(storage.mergeEmployees).mockResolvedValue(null);
+
+      await expect(employeeDuplicateService.merge(7, 1, 9)).rejects.toMatchObject({ status: 409 });
+    });
+
+    test('should only merge when both employees are inside the scope', async () => {
+      vi.mocked(storage.getEmployeeDuplicateCandidate).mockResolvedValue(candidate());
+      vi.mocked(storage.getEmployeesByIds).mockResolvedValue([buildEmployee({ id: 2, workLocation: 'NORTH' })]);
+
+      await expect(employeeDuplicateService.merge(7, 2, 9, [3])).rejects.toMatchObject({ status: 404 });
+      expect(storage.getEmployeesByIds).toHaveBeenCalledWith([1, 2]);
+      expect(storage.mergeEmployees).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('EMPLOYEE_REFERENCES', () => {
+    test('should cover the child records HR expects to move', () => {
+      const names = EMPLOYEE_REFERENCES.map(reference => reference.name);
+
+      expect(names).toEqual(expect.arrayContaining([
+        'educations', 'state_licenses', 'dea_licenses', 'documents', 'form_submissions', 'tasks', 'employee_tasks'
+      ]));
+      expect(EMPLOYEE_REFERENCES.filter(reference => reference.onePerEmployee).map(reference => reference.name))
+        .toEqual(['employee_approval_checklists']);
+    });
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * Employee Import Service Unit Tests
+ *
+ * Unit tests for the bulk employee import including:
+ * - Reading CSV and XLSX files and suggesting a column mapping
+ * - Grouping rows into employees with their licenses and certifications
+ * - Dry-run validation against the insert schemas and duplicate detection
+ * - The downloadable error file and the transactional commit
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import zlib from 'zlib';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    findEmployeesByIdentifiers: vi.fn(async () => []),
+    getAllLocations: vi.fn(async () => [{ id: 3, name: 'North Clinic', code: 'NORTH' }, { id: 4, name: 'South Clinic', code: null }]),
+    importEmployees: vi.fn(async (records: any[]) => records.map((record, index) => ({ id: 100 + index, ...record.employee })))
+  }
+}));
+
+vi.mock('../../server/middleware/encryption', () => ({
+  blindIndex: vi.fn((table: string, column: string, value: string) => `${table}.${column}:${value.replace(/\D/g, '')}`)
+}));
+
+import { employeeImportService, EmployeeImportError } from '../../server/services/employeeImportService';
+import { storage } from '../../server/storage';
+import { buildEmployee } from '../utils/fixtures';
+
+const MAPPING = {
+  'First Name': 'employee.firstName',
+  'Last Name': 'employee.lastName',
+  'Email': 'employee.workEmail',
+  'NPI': 'employee.npiNumber',
+  'SSN': 'employee.ssn',
+  'DOB': 'employee.dateOfBirth',
+  'License #': 'stateLicense.licenseNumber',
+  'License State': 'stateLicense.state',
+  'License Expires': 'stateLicense.expirationDate',
+  'DEA': 'deaLicense.licenseNumber'
+};
+
+const HEADER = 'First Name,Last Name,Email,NPI,SSN,DOB,License #,License State,License Expires,DEA';
+
+/**
+ * Uploaded CSV file
+ */
+function csvFile(...lines: string[]) {
+  return { originalname: 'providers.csv', buffer: Buffer.from([HEADER, ...lines].join('\r\n')) };
+}
+
+/**
+ * Minimal XLSX archive (deflated entries; the reader does not check CRCs)
+ */
+function xlsxFile(parts: Record<string, string>) {
+  const locals: Buffer[] = [];
+  const centrals: Buffer[] = [];
+  let offset = 0;
+
+  for (const [name, xml] of Object.entries(parts)) {
+    const nameBuffer = Buffer.from(name);
+    const data = zlib.deflateRawSync(Buffer.from(xml));
+    const local = Buffer.alloc(30);
+    local.writeUInt32LE(0x04034b50, 0);
+    local.writeUInt16LE(8, 8);
+    local.writeUInt32LE(data.length, 18);
+    local.writeUInt32LE(xml.length, 22);
+    local.writeUInt16LE(nameBuffer.length, 26);
+    const central = Buffer.alloc(46);
+    central.writeUInt32LE(0x02014b50, 0);
+    central.writeUInt16LE(8, 10);
+    central.writeUInt32LE(data.length, 20);
+    central.writeUInt32LE(xml.length, 24);
+    central.writeUInt16LE(nameBuffer.length, 28);
+    central.writeUInt32LE(offset, 42);
+
+    locals.push(local, nameBuffer, data);
+    centrals.push(central, nameBuffer);
+    offset += local.length + nameBuffer.length + data.length;
+  }
+
+  const directory = Buffer.concat(centrals);
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(Object.keys(parts).length, 8);
+  end.writeUInt16LE(Object.keys(parts).length, 10);
+  end.writeUInt32LE(directory.length, 12);
+  end.writeUInt32LE(offset, 16);
+
+  return { originalname: 'providers.xlsx', buffer: Buffer.concat([...locals, directory, end]) };
+}
+
+describe('Employee Import Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Reading files', () => {
+    test('should suggest a mapping from labels, column names and aliases', () => {
+      const preview = employeeImportService.preview({
+        originalname: 'providers.csv',
+        buffer: Buffer.from('﻿First Name,last_name,E-mail,NPI,"Notes, misc",State License Number,DEA License Expiration Date\nJane,Smith,jane@hospital.com,1234567890,"says ""hi""",A123,2030-01-01\n')
+      });
+
+      expect(preview).toMatchObject({
+        headers: ['First Name', 'last_name', 'E-mail', 'NPI', 'Notes, misc', 'State License Number', 'DEA License Expiration Date'],
+        sampleRows: [['Jane', 'Smith', 'jane@hospital.com', '1234567890', 'says "hi"', 'A123', '2030-01-01']],
+        rowCount: 1,
+        mapping: {
+          'First Name': 'employee.firstName',
+          last_name: 'employee.lastName',
+          'E-mail': 'employee.workEmail',
+          NPI: 'employee.npiNumber',
+          'Notes, misc': null,
+          'State License Number': 'stateLicense.licenseNumber',
+          'DEA License Expiration Date': 'deaLicense.expirationDate'
+        }
+      });
+      expect(preview.fields).toContainEqual({ key: 'stateLicense.state', section: 'stateLicense', label: 'State License State', required: true });
+      expect(preview.fields.map(field => field.key)).not.toContain('employee.ssnHash');
+      expect(preview.fields.map(field => field.key)).not.toContain('employee.userId');
+    });
+
+    test('should read the first sheet of an XLSX workbook', async () => {
+      const file = xlsxFile({
+        'xl/workbook.xml': '<workbook><sheets><sheet name="Providers" sheetId="1" r:id="rId1"/></sheets></workbook>',
+        'xl/_rels/workbook.xml.rels': '<Relationships><Relationship Id="rId1" Target="worksheets/providers.xml"/></Relationships>',
+        'xl/sharedStrings.xml': '<sst><si><t>First Name</t></si><si><t>Last Name</t></si><si><r><t>Em</t></r><r><t xml:space="preserve">ail</t></r></si><si><t>DOB</t></si><si><t>O&apos;Brien</t></si></sst>',
+        'xl/styles.xml': '<styleSheet><numFmts><numFmt numFmtId="164" formatCode="mm/dd/yyyy"/></numFmts><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="164"/></cellXfs></styleSheet>',
+        'xl/worksheets/providers.xml': '<worksheet><sheetData>' +
+          '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c><c r="C1" t="s"><v>2</v></c><c r="D1" t="s"><v>3</v></c></row>' +
+          '<row r="2"/>' +
+          '<row r="3"><c r="A3" t="inlineStr"><is><t>Sean</t></is></c><c r="B3" t="s"><v>4</v></c><c r="C3" t="inlineStr"><is><t>sean@hospital.com</t></is></c><c r="D3" s="1"><v>29221</v></c></row>' +
+          '</sheetData></worksheet>'
+      });
+
+      expect(employeeImportService.preview(file)).toMatchObject({
+        headers: ['First Name', 'Last Name', 'Email', 'DOB'],
+        sampleRows: [['Sean', "O'Brien", 'sean@hospital.com', '1980-01-01']]
+      });
+
+      const report = await employeeImportService.validate(file, { 'First Name': 'employee.firstName', 'Last Name': 'employee.lastName', Email: 'employee.workEmail', DOB: 'employee.dateOfBirth' });
+      expect(report).toMatchObject({ employees: 1, invalidRows: 0, rows: [{ row: 3, status: 'valid', name: "Sean O'Brien" }] });
+    });
+
+    test('should reject unsupported, empty and unreadable files', () => {
+      expect(() => employeeImportService.preview({ originalname: 'providers.xls', buffer: Buffer.from('x') })).toThrow('Upload a .csv or .xlsx file');
+      expect(() => employeeImportService.preview({ originalname: 'providers.csv', buffer: Buffer.from(HEADER) })).toThrow('no rows below the header');
+      expect(() => employeeImportService.preview({ originalname: 'providers.xlsx', buffer: Buffer.from('not a zip') })).toThrow(EmployeeImportError);
+      expect(() => employeeImportService.preview({ originalname: 'providers.csv', buffer: Buffer.from('Name,Name\na,b') })).toThrow('distinct header');
+    });
+
+    test('should reject XLSX sheets with rows or columns beyond the limits', () => {
+      const sheet = (rows: string) => xlsxFile({
+        'xl/worksheets/sheet1.xml': `<worksheet><sheetData><row r="1"><c r="A1" t="inlineStr"><is><t>First Name</t></is></c></row>${rows}</sheetData></worksheet>`
+      });
+
+      expect(() => employeeImportService.preview(sheet('<row r="1048576"><c r="A1048576"><v>1</v></c></row>')))
+        .toThrow('The sheet has more than 10001 rows');
+      expect(() => employeeImportService.preview(sheet('<row/>'.repeat(10001))))
+        .toThrow('The sheet has more than 10001 rows');
+      expect(() => employeeImportService.preview(sheet('<row r="2"><c r="XFD2"><v>1</v></c></row>')))
+        .toThrow('The sheet has more than 500 columns');
+    });
+  });
+
+  describe('Dry run', () => {
+    test('should group rows by work email into one employee with several licenses', async () => {
+      const report = await employeeImportService.validate(csvFile(
+        'Jane,Smith,Jane@Hospital.com,1234567890,123-45-6789,03/15/1980,A111,CA,2030-06-30,AB1234563',
+        ',,jane@hospital.com,,,,B222,NY,12/31/2029,'
+      ), MAPPING);
+
+      expect(report).toMatchObject({
+        totalRows: 2,
+        employees: 1,
+        stateLicenses: 2,
+        deaLicenses: 1,
+        boardCertifications: 0,
+        invalidRows: 0,
+        duplicateRows: 0,
+        rows: [
+          { row: 2, status: 'valid', workEmail: 'jane@hospital.com', name: 'Jane Smith', errors: [] },
+          { row: 3, status: 'valid', workEmail: 'jane@hospital.com', name: 'Jane Smith', errors: [] }
+        ]
+      });
+      expect(storage.findEmployeesByIdentifiers).toHaveBeenCalledWith({
+        npiNumbers: ['1234567890'],
+        ssnHashes: ['employees.ssn:123456789'],
+        emails: ['jane@hospital.com']
+      });
+      expect(storage.importEmployees).not.toHaveBeenCalled();
+    });
+
+    test('should report schema, format and conflict errors against their rows', async () => {
+      const report = await employeeImportService.validate(csvFile(
+        'Jane,Smith,jane@hospital.com,12345,123-45-6789,not a date,,,,',
+        ',Smyth,jane@hospital.com,,,,A111,California,2030-06-30,',
+        'Ann,Lee,ann@hospital.com,,,,,,2030-06-30,',
+        'Bob,,,,,,,,,'
+      ), MAPPING);
+
+      expect(report.employees).toBe(0);
+      expect(report.invalidRows).toBe(4);
+      expect(report.rows).toEqual([
+        expect.objectContaining({ row: 2, status: 'invalid', errors: ['NPI Number: Must be 10 digits', 'Date Of Birth: Invalid date'] }),
+        expect.objectContaining({ row: 3, status: 'invalid', errors: ['Last Name differs from row 2', 'State License State: String must contain at most 2 character(s)', 'State License State: Invalid'] }),
+        expect.objectContaining({ row: 4, status: 'invalid', errors: ['State License Number: Required', 'State License State: Required'] }),
+        { row: 5, status: 'invalid', workEmail: null, name: null, errors: ['Work Email: Required'] }
+      ]);
+    });
+
+    test('should flag duplicates of existing employees and of earlier rows', async () => {
+      vi.mocked(storage.findEmployeesByIdentifiers).mockResolvedValueOnce([
+        { id: 12, firstName: 'Jane', lastName: 'Smith', workEmail: 'jsmith@hospital.com', personalEmail: null, npiNumber: '1234567890', ssnHash: null } as any
+      ]);
+
+      const report = await employeeImportService.validate(csvFile(
+        'Jane,Smith,jane@hospital.com,1234567890,,,,,,',
+        'Ann,Lee,ann@hospital.com,,123-45-6789,,,,,',
+        'Annie,Lee,annie@hospital.com,,123456789,,,,,',
+        '',
+        'Bob,Jones,bob@hospital.com,,,,,,,'
+      ), MAPPING);
+
+      expect(report).toMatchObject({ totalRows: 4, employees: 2, duplicateRows: 2, invalidRows: 0 });
+      expect(report.rows.map(row => [row.row, row.status, row.errors])).toEqual([
+        [2, 'duplicate', ['Matches existing employee #12 (Jane Smith) by NPI']],
+        [3, 'valid', []],
+        [4, 'duplicate', ['Same SSN as row 3']],
+        [6, 'valid', []]
+      ]);
+    });
+
+    test('should only accept employees at the locations of a restricted user', async () => {
+      vi.mocked(storage.findEmployeesByIdentifiers).mockResolvedValueOnce([
+        buildEmployee({ id: 12, firstName: 'Jane', lastName: 'Smith', npiNumber: '1234567890', workLocation: 'South Clinic' })
+      ]);
+      const file = {
+        originalname: 'providers.csv',
+        buffer: Buffer.from([
+          'First Name,Last Name,Email,NPI,Location',
+          'Jane,Smith,jane@hospital.com,1234567890,NORTH',
+          'Ann,Lee,ann@hospital.com,,North Clinic',
+          'Bob,Jones,bob@hospital.com,,South Clinic',
+          'Cy,Park,cy@hospital.com,,'
+        ].join('\n'))
+      };
+      const mapping = {
+        'First Name': 'employee.firstName',
+        'Last Name': 'employee.lastName',
+        Email: 'employee.workEmail',
+        NPI: 'employee.npiNumber',
+        Location: 'employee.workLocation'
+      };
+
+      const report = await employeeImportService.validate(file, mapping, { scope: [3] });
+
+      expect(report.rows.map(row => [row.row, row.status, row.errors])).toEqual([
+        [2, 'duplicate', ['Matches an existing employee at another location by NPI']],
+        [3, 'valid', []],
+        [4, 'invalid', ['Work Location: Must be one of your locations']],
+        [5, 'invalid', ['Work Location: Must be one of your locations']]
+      ]);
+      expect((await employeeImportService.validate(file, mapping)).invalidRows).toBe(0);
+    });
+
+    test('should require the employee fields and known, distinct mappings', async () => {
+      const file = csvFile('Jane,Smith,jane@hospital.com,,,,,,,');
+
+      await expect(employeeImportService.validate(file, { 'First Name': 'employee.firstName', Email: 'employee.workEmail' }))
+        .rejects.toThrow('Map a column to Last Name');
+      await expect(employeeImportService.validate(file, { ...MAPPING, NPI: 'employee.lastName' }))
+        .rejects.toThrow('Last Name is mapped to more than one column');
+      await expect(employeeImportService.validate(file, { ...MAPPING, NPI: 'employee.passwordHash' }))
+        .rejects.toThrow('Unknown field');
+    });
+
+    test('should list failed rows with their errors in the error file', async () => {
+      const csv = await employeeImportService.buildErrorFile(csvFile(
+        'Jane,Smith,jane@hospital.com,1234567890,,,,,,',
+        '"Smith, Jr.",Bob,bob@hospital.com,12,,,,,,'
+      ), MAPPING);
+
+      expect(csv).toBe(
+        `${HEADER},Row,Errors\r\n` +
+        '"Smith, Jr.",Bob,bob@hospital.com,12,,,,,,,3,NPI Number: Must be 10 digits\r\n'
+      );
+    });
+  });
+
+  describe('Commit', () => {
+    const file = () => csvFile(
+      'Jane,Smith,jane@hospital.com,1234567890,123-45-6789,03/15/1980,A111,CA,2030-06-30,AB1234563',
+      'Bob,Jones,bob@hospital.com,12,,,,,,'
+    );
+
+    test('should refuse to import a file with errors unless told to skip them', async () => {
+      await expect(employeeImportService.commit(file(), MAPPING)).rejects.toMatchObject({ status: 422 });
+      expect(storage.importEmployees).not.toHaveBeenCalled();
+    });
+
+    test('should create the valid employees in one call with dates as YYYY-MM-DD', async () => {
+      const { report, employees } = await employeeImportService.commit(file(), MAPPING, { skipInvalid: true });
+
+      expect(storage.importEmployees).toHaveBeenCalledTimes(1);
+      expect(storage.importEmployees).toHaveBeenCalledWith([{
+        employee: expect.objectContaining({ firstName: 'Jane', workEmail: 'jane@hospital.com', ssn: '123-45-6789', dateOfBirth: '1980-03-15' }),
+        stateLicenses: [{ licenseNumber: 'A111', state: 'CA', expirationDate: '2030-06-30' }],
+        deaLicenses: [{ licenseNumber: 'AB1234563' }],
+        boardCertifications: []
+      }]);
+      expect(employees.map(employee => employee.id)).toEqual([100]);
+      expect(report).toMatchObject({ employees: 1, invalidRows: 1, createdEmployeeIds: [100] });
+    });
+
+    test('should turn a unique violation during the commit into a conflict', async () => {
+      vi.mocked(storage.importEmployees).mockRejectedValueOnce(Object.assign(new Error('duplicate key'), { code: '23505' }));
+
+      await expect(employeeImportService.commit(file(), MAPPING, { skipInvalid: true })).rejects.toMatchObject({ status: 409 });
+    });
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Employee Offboarding Service Unit Tests
+ *
+ * Unit tests for the employee separation workflow including:
+ * - Equipment tasks from the approval checklist and payer notice tasks
+ * - Completing immediately when the termination date has been reached
+ * - Rejecting duplicate, self and already terminated offboardings
+ * - Auditing and announcing completed separations
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getEmployeeSeparations: vi.fn(async () => []),
+    getEmployeeApprovalChecklist: vi.fn(),
+    getEmployeePayerEnrollments: vi.fn(async () => []),
+    createEmployeeSeparation: vi.fn(),
+    cancelEmployeeSeparation: vi.fn(),
+    completeEmployeeSeparation: vi.fn(),
+    getDueEmployeeSeparations: vi.fn(),
+    createAudit: vi.fn()
+  }
+}));
+
+// Mock webhook service
+vi.mock('../../server/services/webhookService', () => ({
+  webhookService: {
+    emit: vi.fn()
+  }
+}));
+
+import { employeeOffboardingService, EmployeeOffboardingError } from '../../server/services/employeeOffboardingService';
+import { storage } from '../../server/storage';
+import { webhookService } from '../../server/services/webhookService';
+import type { CompletedSeparation } from '../../server/storage';
+import type { EmployeeApprovalChecklist, EmployeeSeparation, PayerEnrollment } from '@shared/schema';
+import { buildEmployee } from '../utils/fixtures';
+
+const employee = buildEmployee({ id: 12, firstName: 'Dana', lastName: 'Lee', userId: 30 });
+const input = { terminationDate: '2026-03-31', reason: 'resignation' as const, reasonDetails: null, eligibleForRehire: true };
+
+function buildSeparation(overrides: Partial<EmployeeSeparation> = {}): EmployeeSeparation {
+  return {
+    id: 5,
+    employeeId: 12,
+    terminationDate: '2026-03-31',
+    reason: 'resignation',
+    reasonDetails: null,
+    eligibleForRehire: true,
+    status: 'scheduled',
+    taskIds: [],
+    summary: null,
+    initiatedBy: 9,
+    createdAt: new Date(),
+    completedAt: null,
+    cancelledAt: null,
+    updatedAt: new Date(),
+    ...overrides
+  };
+}
+
+function buildEnrollment(overrides: Partial<PayerEnrollment> = {}): PayerEnrollment {
+  return {
+    id: 41,
+    employeeId: 12,
+    payerName: 'Aetna',
+    enrollmentId: 'AET1',
+    enrollmentDate: null,
+    effectiveDate: null,
+    terminationDate: null,
+    status: 'active',
+    ...overrides
+  };
+}
+
+function buildChecklist(overrides: Partial<EmployeeApprovalChecklist> = {}): EmployeeApprovalChecklist {
+  return {
+    id: 1,
+    employeeId: 12,
+    cpiTraining: 'no',
+    cprTraining: 'no',
+    crisisPrevention: 'no',
+    federalExclusions: 'no',
+    stateExclusions: 'no',
+    samGovExclusion: 'no',
+    urineDrugScreen: 'no',
+    bciFbiCheck: 'no',
+    urineDrugScreenInitiatedAt: null,
+    bciFbiCheckInitiatedAt: null,
+    laptopSetup: 'no',
+    emailSetup: 'no',
+    emrSetup: 'no',
+    phoneSetup: 'no',
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    createdBy: null,
+    updatedBy: null,
+    ...overrides
+  };
+}
+
+const completed: CompletedSeparation = {
+  separation: buildSeparation({
+    status: 'completed',
+    completedAt: new Date(),
+    summary: {
+      previousStatus: 'active',
+      userId: 30,
+      revokedApiKeys: 1,
+      revokedSessions: 2,
+      endedPayerEnrollments: [41],
+      releasedResponsiblePersons: [],
+      releasedClinicLicenses: []
+    }
+  }),
+  before: { ...employee },
+  employee: { ...employee, status: 'terminated' },
+  endedPayerEnrollments: [buildEnrollment({ status: 'terminated', terminationDate: '2026-03-31' })]
+};
+
+describe('EmployeeOffboardingService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-03-01T12:00:00Z'));
+    vi.mocked(storage.createEmployeeSeparation).mockImplementation(async (separation, tasks) => ({
+      separation: buildSeparation({ ...separation, reasonDetails: separation.reasonDetails ?? null, initiatedBy: separation.initiatedBy ?? null }),
+      tasks: tasks.map((task, index) => ({
+        description: null,
+        status: 'open',
+        priority: 'medium',
+        category: null,
+        assignedToId: null,
+        relatedEmployeeId: null,
+        relatedLocationId: null,
+        isRecurring: false,
+        recurrencePattern: null,
+        completedAt: null,
+        completedById: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...task,
+        id: index + 1
+      }))
+    }));
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('start', () => {
+    test('should create tasks for issued equipment and active payer enrollments', async () => {
+      vi.mocked(storage.getEmployeeApprovalChecklist).mockResolvedValue(buildChecklist({ laptopSetup: 'yes', emailSetup: 'yes' }));
+      vi.mocked(storage.getEmployeePayerEnrollments).mockResolvedValue([
+        buildEnrollment(),
+        buildEnrollment({ id: 42, payerName: 'Cigna', enrollmentId: 'CIG1', status: 'terminated' })
+      ]);
+
+      const { separation, tasks } = await employeeOffboardingService.start(employee, input, 9);
+
+      expect(separation.status).toBe('scheduled');
+      expect(tasks.map(task => task.title)).toEqual([
+        'Collect laptop from Dana Lee',
+        'Close email account from Dana Lee',
+        "Notify Aetna of Dana Lee's termination"
+      ]);
+      expect(storage.createEmployeeSeparation).toHaveBeenCalledWith(
+        expect.objectContaining({ employeeId: 12, reason: 'resignation', initiatedBy: 9 }),
+        expect.arrayContaining([expect.objectContaining({ dueDate: '2026-03-31', category: 'offboarding', assignedToId: 9, relatedEmployeeId: 12 })])
+      );
+      expect(storage.completeEmployeeSeparation).not.toHaveBeenCalled();
+    });
+
+    test('should ask for all equipment when there is no approval checklist', async () => {
+      vi.mocked(storage.getEmployeeApprovalChecklist).mockResolvedValue(null);
+      vi.mocked(storage.getEmployeePayerEnrollments).mockResolvedValue([]);
+
+      const { tasks } = await employeeOffboardingService.start(employee, input, 9);
+
+      expect(tasks).toHaveLength(4);
+    });
+
+    test('should complete right away when the termination date has been reached', async () => {
+      vi.mocked(storage.getEmployeeApprovalChecklist).mockResolvedValue(null);
+      vi.mocked(storage.completeEmployeeSeparation).mockResolvedValue(completed);
+
+      const { separation } = await employeeOffboardingService.start(employee, { ...input, terminationDate: '2026-02-15' }, 9);
+
+      expect(storage.completeEmployeeSeparation).toHaveBeenCalledWith(5);
+      expect(separation.status).toBe('completed');
+    });
+
+    test('should reject an employee who is already being offboarded', async () => {
+      vi.mocked(storage.getEmployeeSeparations).mockResolvedValue([buildSeparation({ id: 3 })]);
+
+      await expect(employeeOffboardingService.start(employee, input, 9)).rejects.toMatchObject({ status: 409 });
+      expect(storage.createEmployeeSeparation).not.toHaveBeenCalled();
+    });
+
+    test('should reject terminated employees and the caller\'s own record', async () => {
+      await expect(employeeOffboardingService.start({ ...employee, status: 'terminated' }, input, 9)).rejects.toMatchObject({ status: 409 });
+      await expect(employeeOffboardingService.start(employee, input, 30)).rejects.toBeInstanceOf(EmployeeOffboardingError);
+    });
+  });
+
+  describe('cancel', () => {
+    test('should return 404 when nothing is scheduled', async () => {
+      vi.mocked(storage.getEmployeeSeparations).mockResolvedValue([buildSeparation({ id: 3, status: 'completed' })]);
+
+      await expect(employeeOffboardingService.cancel(12)).rejects.toMatchObject({ status: 404 });
+      expect(storage.cancelEmployeeSeparation).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('complete', () => {
+    test('should audit the termination and notify webhook subscribers', async () => {
+      vi.mocked(storage.completeEmployeeSeparation).mockResolvedValue(completed);
+
+      await employeeOffboardingService.complete(5, 9);
+
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+        tableName: 'employees',
+        recordId: 12,
+        changedBy: 9,
+        oldData: { status: 'active' },
+        newData: { status: 'terminated' }
+      }));
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({ tableName: 'employee_separations', action: 'COMPLETE' }));
+      expect(webhookService.emit).toHaveBeenCalledWith('employee.terminated', {
+        employeeId: 12,
+        separationId: 5,
+        terminationDate: '2026-03-31',
+        eligibleForRehire: true,
+        payerEnrollments: [{ id: 41, payerName: 'Aetna', enrollmentId: 'AET1', terminationDate: '2026-03-31' }]
+      });
+    });
+
+    test('should do nothing when the separation is no longer scheduled', async () => {
+      vi.mocked(storage.completeEmployeeSeparation).mockResolvedValue(null);
+
+      expect(await employeeOffboardingService.complete(5, 9)).toBeNull();
+      expect(webhookService.emit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('completeDue', () => {
+    test('should keep going when one separation fails', async () => {
+      vi.mocked(storage.getDueEmployeeSeparations).mockResolvedValue([buildSeparation({ id: 4 }), buildSeparation()]);
+      vi.mocked(storage.completeEmployeeSeparation)
+        .mockRejectedValueOnce(new Error('deadlock'))
+        .mockResolvedValueOnce(completed);
+
+      expect(await employeeOffboardingService.completeDue()).toBe(1);
+      expect(storage.getDueEmployeeSeparations).toHaveBeenCalledWith('2026-03-01');
+    });
+  });
+});
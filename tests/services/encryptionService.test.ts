@@ -0,0 +1,251 @@
+/**
+ * Encryption Service Unit Tests
+ *
+ * Unit tests for envelope encryption including:
+ * - Key IDs embedded in ciphertext and tamper detection
+ * - Reading values after the active key changes
+ * - Values written by the two pre-envelope schemes
+ * - The env and local KMS key providers
+ * - The sensitive column registry: blind indexes, masks and audit redaction
+ */
+
+import { describe, test, expect, beforeEach, afterEach } from 'vitest';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { encryptionService, EncryptionError, EnvKeyProvider, LocalKmsKeyProvider } from '../../server/services/encryptionService';
+import {
+  decrypt as decryptField,
+  blindIndex,
+  encryptSensitiveFields,
+  decryptReadableFields,
+  maskSensitiveFields,
+  redactSensitiveFields
+} from '../../server/middleware/encryption';
+import { decrypt as decryptCredential } from '../../server/utils/encryption';
+
+/**
+ * Employee SSN written by the old middleware (createCipher, default SECRET_KEY)
+ */
+const LEGACY_FIELD = 'b452a18b2fc02b2aba1398ff8efdad4c:20409f46aeb645e194fd7bb4baca5279:b5023da0588d1903b3ca96';
+
+/**
+ * S3 access key written by the old credential utility (default ENCRYPTION_KEY)
+ */
+const LEGACY_CREDENTIAL = 'b604abdffc37e1918d43a1d20e372a2f:51732fc59205d2a2e790a6aec5fa20ac:f6ceb62f6afe10f33fe9ef';
+
+/**
+ * Key list entry for ENCRYPTION_KEYS
+ */
+function keyEntry(id: string) {
+  return `${id}=${crypto.randomBytes(32).toString('base64')}`;
+}
+
+describe('Encryption Service Unit Tests', () => {
+  const savedEnv = { ...process.env };
+
+  beforeEach(() => {
+    delete process.env.ENCRYPTION_KEY;
+    delete process.env.SECRET_KEY;
+    delete process.env.ENCRYPTION_KEYS_FILE;
+    delete process.env.ENCRYPTION_KEY_PROVIDER;
+    process.env.ENCRYPTION_KEYS = [keyEntry('k1'), keyEntry('k2')].join(',');
+    process.env.ENCRYPTION_ACTIVE_KEY_ID = 'k1';
+    encryptionService.setProvider();
+  });
+
+  afterEach(() => {
+    process.env = { ...savedEnv };
+    encryptionService.setProvider();
+  });
+
+  describe('Envelope format', () => {
+    test('should round-trip values and name the wrapping key', () => {
+      const ciphertext = encryptionService.encrypt('123-45-6789');
+
+      expect(ciphertext).toMatch(/^v2:k1:[A-Za-z0-9_-]+$/);
+      expect(encryptionService.getKeyId(ciphertext)).toBe('k1');
+      expect(encryptionService.decrypt(ciphertext)).toBe('123-45-6789');
+      // Every value gets its own data key and IV
+      expect(encryptionService.encrypt('123-45-6789')).not.toBe(ciphertext);
+    });
+
+    test('should keep SSNs and typical secrets within varchar(255) columns', () => {
+      expect(encryptionService.encrypt('123-45-6789').length).toBeLessThan(150);
+      expect(encryptionService.encrypt('x'.repeat(100)).length).toBeLessThan(255);
+    });
+
+    test('should reject altered ciphertext and relabelled key IDs', () => {
+      const ciphertext = encryptionService.encrypt('secret');
+      const payload = Buffer.from(ciphertext.slice('v2:k1:'.length), 'base64url');
+      payload[payload.length - 1] ^= 1;
+
+      expect(() => encryptionService.decrypt(`v2:k1:${payload.toString('base64url')}`)).toThrow(EncryptionError);
+      expect(() => encryptionService.decrypt(ciphertext.replace('v2:k1:', 'v2:k2:'))).toThrow(EncryptionError);
+    });
+
+    test('should not treat plain values as ciphertext', () => {
+      expect(encryptionService.isEncrypted('123-45-6789')).toBe(false);
+      expect(encryptionService.isEncrypted('v2:k1:')).toBe(false);
+      expect(() => encryptionService.decrypt('plain')).toThrow('Value is not encrypted');
+      expect(decryptField('note: plain')).toBe('note: plain');
+    });
+  });
+
+  describe('Rotation', () => {
+    test('should read values under retired keys and re-encrypt them under the active key', () => {
+      const old = encryptionService.encrypt('caqh-password');
+
+      process.env.ENCRYPTION_ACTIVE_KEY_ID = 'k2';
+      encryptionService.setProvider();
+
+      expect(encryptionService.decrypt(old)).toBe('caqh-password');
+      const moved = encryptionService.reencrypt(old)!;
+      expect(encryptionService.getKeyId(moved)).toBe('k2');
+      expect(encryptionService.decrypt(moved)).toBe('caqh-password');
+      expect(encryptionService.reencrypt(moved)).toBeNull();
+    });
+
+    test('should encrypt plain values when re-encrypting', () => {
+      const encrypted = encryptionService.reencrypt('123-45-6789')!;
+      expect(encryptionService.decrypt(encrypted)).toBe('123-45-6789');
+    });
+
+    test('should fail clearly when a key is no longer configured', () => {
+      const ciphertext = encryptionService.encrypt('secret');
+
+      process.env.ENCRYPTION_KEYS = keyEntry('k3');
+      delete process.env.ENCRYPTION_ACTIVE_KEY_ID;
+      encryptionService.setProvider();
+
+      expect(() => encryptionService.decrypt(ciphertext)).toThrow('Encryption key "k1" is not configured');
+      expect(decryptCredential(ciphertext)).toBe('');
+    });
+
+    test('should refuse to rotate env keys from the application', () => {
+      expect(() => encryptionService.rotateKey()).toThrow(/ENCRYPTION_ACTIVE_KEY_ID/);
+    });
+  });
+
+  describe('Legacy values', () => {
+    test('should decrypt employee fields and credentials from the earlier schemes', () => {
+      expect(encryptionService.getKeyId(LEGACY_FIELD)).toBe('legacy');
+      expect(encryptionService.decrypt(LEGACY_FIELD)).toBe('123-45-6789');
+      expect(encryptionService.decrypt(LEGACY_CREDENTIAL)).toBe('AKIAEXAMPLE');
+      expect(decryptField(LEGACY_FIELD)).toBe('123-45-6789');
+      expect(decryptCredential(LEGACY_CREDENTIAL)).toBe('AKIAEXAMPLE');
+    });
+
+    test('should move legacy values to the active key', () => {
+      const moved = encryptionService.reencrypt(LEGACY_FIELD)!;
+      expect(moved.startsWith('v2:k1:')).toBe(true);
+      expect(encryptionService.decrypt(moved)).toBe('123-45-6789');
+    });
+
+    test('should report legacy values whose secret changed', () => {
+      process.env.SECRET_KEY = 'rotated';
+      process.env.ENCRYPTION_KEY = 'rotated';
+      encryptionService.setProvider();
+
+      expect(() => encryptionService.decrypt(LEGACY_FIELD)).toThrow(/SECRET_KEY changed/);
+    });
+  });
+
+  describe('Key providers', () => {
+    test('should derive a default key from ENCRYPTION_KEY when no keys are listed', () => {
+      delete process.env.ENCRYPTION_KEYS;
+      delete process.env.ENCRYPTION_ACTIVE_KEY_ID;
+      process.env.ENCRYPTION_KEY = 'configured-secret';
+
+      const provider = new EnvKeyProvider();
+      expect(provider.getKeyIds()).toEqual(['default']);
+      encryptionService.setProvider(provider);
+      expect(encryptionService.decrypt(encryptionService.encrypt('x'))).toBe('x');
+    });
+
+    test('should read keys from an env-style file', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'keys-'));
+      try {
+        fs.writeFileSync(path.join(dir, 'keys.env'), `# rotated 2025-03\n${keyEntry('a')}\n${keyEntry('b')}\n`);
+        const provider = new EnvKeyProvider({ ENCRYPTION_KEYS_FILE: path.join(dir, 'keys.env') });
+
+        expect(provider.getKeyIds()).toEqual(['a', 'b']);
+        expect(provider.getActiveKeyId()).toBe('b');
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+
+    test('should reject malformed key lists', () => {
+      expect(() => new EnvKeyProvider({ ENCRYPTION_KEYS: 'k1=short' })).toThrow(/32 bytes/);
+      expect(() => new EnvKeyProvider({ ENCRYPTION_KEYS: `bad:id=${crypto.randomBytes(32).toString('base64')}` })).toThrow(/key-id=base64key/);
+      expect(() => new EnvKeyProvider({ ENCRYPTION_KEYS: keyEntry('k1'), ENCRYPTION_ACTIVE_KEY_ID: 'k9' })).toThrow(/not one of the configured keys/);
+    });
+
+    test('should create, rotate and reload a local KMS keyring', () => {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'kms-'));
+      const keyringPath = path.join(dir, 'kms', 'keyring.json');
+      try {
+        const provider = new LocalKmsKeyProvider(keyringPath);
+        expect((fs.statSync(keyringPath).mode & 0o777).toString(8)).toBe('600');
+        encryptionService.setProvider(provider);
+        const first = encryptionService.encrypt('webhook-secret');
+
+        const newKeyId = encryptionService.rotateKey();
+        expect(provider.getKeyIds()).toHaveLength(2);
+        expect(encryptionService.getKeyId(encryptionService.encrypt('x'))).toBe(newKeyId);
+
+        // A restart reads the same keyring
+        encryptionService.setProvider(new LocalKmsKeyProvider(keyringPath));
+        expect(encryptionService.decrypt(first)).toBe('webhook-secret');
+        expect(encryptionService.getProvider().getActiveKeyId()).toBe(newKeyId);
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('Sensitive column registry', () => {
+    test('should encrypt registry columns and index them by their normalized value', () => {
+      const stored = encryptSensitiveFields({ firstName: 'Ada', ssn: '123-45-6789', dateOfBirth: new Date('1980-04-02'), deaNumber: 'ab1234563' });
+
+      expect(stored.firstName).toBe('Ada');
+      expect(encryptionService.isEncrypted(stored.ssn)).toBe(true);
+      expect(encryptionService.decrypt(stored.dateOfBirth as any)).toBe('1980-04-02');
+      expect((stored as any).ssnHash).toBe(blindIndex('employees', 'ssn', '123456789'));
+      expect((stored as any).deaNumberHash).toBe(blindIndex('employees', 'deaNumber', 'AB1234563'));
+      // Indexes differ per column, so equal values in two columns cannot be matched up
+      expect(blindIndex('employees', 'ssn', '123456789')).not.toBe(blindIndex('employees', 'medicaidNumber', '123456789'));
+    });
+
+    test('should keep stored values when encrypted values or mask placeholders are written back', () => {
+      const stored = encryptSensitiveFields({ ssn: '123-45-6789' });
+
+      expect(encryptSensitiveFields({ ssn: stored.ssn })).toEqual(stored);
+      expect(encryptSensitiveFields({ ssn: '***-**-6789', caqhPassword: '***' })).toEqual({});
+      expect(encryptSensitiveFields({ deaNumber: '' })).toEqual({ deaNumber: '', deaNumberHash: null });
+    });
+
+    test('should return identifiers decrypted and mask SSNs and passwords', () => {
+      const row = encryptSensitiveFields({ id: 1, ssn: '123-45-6789', dateOfBirth: '1980-04-02', caqhPassword: 'caqh' });
+      const read = decryptReadableFields(row);
+
+      expect(read.dateOfBirth).toBe('1980-04-02');
+      expect(read.ssn).toBe(row.ssn);
+      expect(maskSensitiveFields(read, 'employees', { readSsn: true })).toEqual({ id: 1, ssn: '***-**-6789', dateOfBirth: '1980-04-02', caqhPassword: '***' });
+      expect(maskSensitiveFields(read, 'employees').ssn).toBe('');
+    });
+
+    test('should replace registry values in audit snapshots with their blind index', () => {
+      const row = encryptSensitiveFields({ id: 2, phone: '555-123-4567', name: 'Grace' }, 'emergency_contacts');
+
+      expect(redactSensitiveFields(row, 'emergency_contacts')).toEqual({
+        id: 2,
+        name: 'Grace',
+        phone: `hmac:${blindIndex('emergency_contacts', 'phone', '5551234567')}`
+      });
+      expect(redactSensitiveFields({ id: 3, phone: '555' }, 'locations')).toEqual({ id: 3, phone: '555' });
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Impersonation Service Unit Tests
+ *
+ * Unit tests for admin "view as user" including:
+ * - Who may impersonate whom, and the time box limits
+ * - Read-only and always-blocked request rules
+ * - Audit records for start, end and each request
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUser: vi.fn(),
+    createAudit: vi.fn()
+  }
+}));
+
+import { impersonationService, ImpersonationError } from '../../server/services/impersonationService';
+import { storage } from '../../server/storage';
+
+const admin = { id: 1, username: 'admin', role: 'admin', status: 'active' } as any;
+const employee = { id: 7, username: 'employee', role: 'employee', status: 'active' } as any;
+
+const state = {
+  adminId: 1,
+  userId: 7,
+  reason: 'Ticket #1234',
+  allowWrites: false,
+  startedAt: '2025-01-20T10:00:00.000Z',
+  expiresAt: '2025-01-20T10:15:00.000Z'
+};
+
+describe('Impersonation Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Starting impersonation', () => {
+    test('should time-box and audit a valid request', async () => {
+      vi.mocked(storage.getUser).mockResolvedValue(employee);
+
+      const { state: started } = await impersonationService.start(admin, {
+        userId: 7,
+        reason: '  Ticket #1234 ',
+        durationMinutes: 30
+      });
+
+      expect(started).toMatchObject({ adminId: 1, userId: 7, reason: 'Ticket #1234', allowWrites: false });
+      expect(new Date(started.expiresAt).getTime() - new Date(started.startedAt).getTime()).toBe(30 * 60 * 1000);
+      expect(storage.createAudit).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'IMPERSONATE_START', changedBy: 1, recordId: 7 })
+      );
+    });
+
+    test('should reject non-admins, self and missing reasons', async () => {
+      await expect(impersonationService.start({ ...admin, role: 'hr' }, { userId: 7, reason: 'x' }))
+        .rejects.toMatchObject({ status: 403 });
+      await expect(impersonationService.start(admin, { userId: 1, reason: 'x' }))
+        .rejects.toBeInstanceOf(ImpersonationError);
+      await expect(impersonationService.start(admin, { userId: 7, reason: '   ' }))
+        .rejects.toThrow('A reason is required');
+      await expect(impersonationService.start(admin, { userId: 7, reason: 'x', durationMinutes: 90 }))
+        .rejects.toThrow('Duration must be between 1 and 60 minutes');
+      expect(storage.createAudit).not.toHaveBeenCalled();
+    });
+
+    test('should refuse admins and inactive users as targets', async () => {
+      vi.mocked(storage.getUser).mockResolvedValueOnce({ ...employee, role: 'admin' });
+      await expect(impersonationService.start(admin, { userId: 7, reason: 'x' }))
+        .rejects.toMatchObject({ status: 403 });
+
+      vi.mocked(storage.getUser).mockResolvedValueOnce({ ...employee, status: 'suspended' });
+      await expect(impersonationService.start(admin, { userId: 7, reason: 'x' }))
+        .rejects.toThrow('Inactive users cannot be impersonated');
+    });
+  });
+
+  describe('Request rules', () => {
+    test('should be read-only unless writes were allowed', () => {
+      expect(impersonationService.isBlocked(state, 'GET', '/api/employees')).toBe(false);
+      expect(impersonationService.isBlocked(state, 'DELETE', '/api/employees/3')).toBe(true);
+      expect(impersonationService.isBlocked({ ...state, allowWrites: true }, 'PUT', '/api/employees/3')).toBe(false);
+    });
+
+    test('should always block credentials and always allow stopping', () => {
+      const writable = { ...state, allowWrites: true };
+
+      expect(impersonationService.isBlocked(writable, 'POST', '/api/change-password')).toBe(true);
+      expect(impersonationService.isBlocked(writable, 'POST', '/api/auth/change-password')).toBe(true);
+      expect(impersonationService.isBlocked(writable, 'POST', '/api/mfa/setup')).toBe(true);
+      expect(impersonationService.isBlocked(writable, 'GET', '/api/sessions')).toBe(true);
+      expect(impersonationService.isBlocked(state, 'POST', '/api/impersonation/stop')).toBe(false);
+      expect(impersonationService.isBlocked(state, 'POST', '/api/logout')).toBe(false);
+    });
+
+    test('should match paths the way Express routes them', () => {
+      const writable = { ...state, allowWrites: true };
+
+      expect(impersonationService.isBlocked(writable, 'POST', '/API/Change-Password')).toBe(true);
+      expect(impersonationService.isBlocked(writable, 'GET', '/api/sessions/')).toBe(true);
+      expect(impersonationService.isBlocked(writable, 'POST', '/Api/Admin/Impersonation/')).toBe(true);
+      expect(impersonationService.isBlocked(state, 'POST', '/api/Impersonation/Stop/')).toBe(false);
+    });
+
+    test('should expire at expiresAt', () => {
+      expect(impersonationService.isExpired(state, Date.parse('2025-01-20T10:14:59Z'))).toBe(false);
+      expect(impersonationService.isExpired(state, Date.parse('2025-01-20T10:15:00Z'))).toBe(true);
+    });
+  });
+
+  describe('Audit trail', () => {
+    test('should record requests as the user, tagged with the admin', async () => {
+      await impersonationService.recordRequest(state, { method: 'GET', path: '/api/employees', statusCode: 200 });
+
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+        tableName: 'impersonation',
+        action: 'REQUEST',
+        changedBy: 7,
+        impersonatedBy: 1,
+        newData: { method: 'GET', path: '/api/employees', statusCode: 200 }
+      }));
+    });
+
+    test('should record why impersonation ended', async () => {
+      await impersonationService.end(state, 'expired');
+
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'IMPERSONATE_END',
+        changedBy: 1,
+        newData: expect.objectContaining({ endedBecause: 'expired' })
+      }));
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Location Scope Service Unit Tests
+ *
+ * Unit tests for location-scoped access including:
+ * - Who is restricted (admins and unassigned users are not)
+ * - Expansion of assignments to sub-locations
+ * - Single-record checks for employees, tasks and compliance documents
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUserLocationIds: vi.fn(),
+    getLocationSubtreeIds: vi.fn(),
+    getAllLocations: vi.fn(),
+    getEmployee: vi.fn(),
+    getClinicLicense: vi.fn()
+  }
+}));
+
+import { locationScopeService } from '../../server/services/locationScopeService';
+import { storage } from '../../server/storage';
+
+describe('Location Scope Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Resolving scopes', () => {
+    test('should never restrict admins', async () => {
+      expect(await locationScopeService.getScope({ id: 1, role: 'admin' })).toBeUndefined();
+      expect(storage.getUserLocationIds).not.toHaveBeenCalled();
+    });
+
+    test('should not restrict users without assignments', async () => {
+      vi.mocked(storage.getUserLocationIds).mockResolvedValue([]);
+
+      expect(await locationScopeService.getScope({ id: 5, role: 'hr' })).toBeUndefined();
+      expect(storage.getLocationSubtreeIds).not.toHaveBeenCalled();
+    });
+
+    test('should expand assignments to sub-locations', async () => {
+      vi.mocked(storage.getUserLocationIds).mockResolvedValue([2]);
+      vi.mocked(storage.getLocationSubtreeIds).mockResolvedValue([2, 7, 9]);
+
+      expect(await locationScopeService.getScope({ id: 5, role: 'hr' })).toEqual([2, 7, 9]);
+      expect(storage.getLocationSubtreeIds).toHaveBeenCalledWith([2]);
+    });
+  });
+
+  describe('Single records', () => {
+    test('should match employees by location name or code', async () => {
+      vi.mocked(storage.getAllLocations).mockResolvedValue([
+        { id: 2, name: 'North Clinic', code: 'NC' },
+        { id: 3, name: 'South Clinic', code: 'SC' }
+      ] as any);
+
+      expect(await locationScopeService.includesEmployee([2], { workLocation: 'North Clinic' })).toBe(true);
+      expect(await locationScopeService.includesEmployee([2], { workLocation: 'NC' })).toBe(true);
+      expect(await locationScopeService.includesEmployee([2], { workLocation: 'South Clinic' })).toBe(false);
+      expect(await locationScopeService.includesEmployee([2], { workLocation: null })).toBe(false);
+      expect(await locationScopeService.includesEmployee(undefined, { workLocation: null })).toBe(true);
+    });
+
+    test('should scope tasks by location, employee or assignee', async () => {
+      vi.mocked(storage.getAllLocations).mockResolvedValue([{ id: 2, name: 'North Clinic', code: null }] as any);
+      vi.mocked(storage.getEmployee).mockResolvedValue({ id: 8, workLocation: 'North Clinic' } as any);
+      const task = { relatedLocationId: null, relatedEmployeeId: null, assignedToId: null };
+
+      expect(await locationScopeService.includesTask([2], { ...task, relatedLocationId: 2 })).toBe(true);
+      expect(await locationScopeService.includesTask([2], { ...task, relatedEmployeeId: 8 })).toBe(true);
+      expect(await locationScopeService.includesTask([3], { ...task, relatedEmployeeId: 8 })).toBe(false);
+      expect(await locationScopeService.includesTask([3], { ...task, assignedToId: 5 }, 5)).toBe(true);
+      expect(await locationScopeService.includesTask([3], task, 5)).toBe(false);
+      expect(await locationScopeService.includesTask(undefined, task)).toBe(true);
+    });
+
+    test('should scope compliance documents through their clinic license', async () => {
+      vi.mocked(storage.getClinicLicense).mockResolvedValue({ id: 11, locationId: 2 } as any);
+
+      expect(await locationScopeService.includesComplianceDocument([2], { locationId: null, clinicLicenseId: 11 })).toBe(true);
+      expect(await locationScopeService.includesComplianceDocument([3], { locationId: null, clinicLicenseId: 11 })).toBe(false);
+      expect(await locationScopeService.includesComplianceDocument([3], { locationId: 3, clinicLicenseId: null })).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Logger Unit Tests
+ *
+ * Unit tests for the structured logger including:
+ * - Redacting registry columns, credentials and contact details
+ * - Masking SSNs, email addresses and API keys in message text
+ * - Request IDs from the request context and LOG_LEVEL filtering
+ * - The request logger middleware
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+import { logger, redact, redactText, requestContext } from '../../server/utils/logger';
+import { requestLogger } from '../../server/middleware/requestLogger';
+
+/**
+ * Capture the JSON lines written to stdout and stderr
+ */
+function captureLines() {
+  const lines: any[] = [];
+  const collect = (chunk: string | Uint8Array) => {
+    lines.push(JSON.parse(String(chunk)));
+    return true;
+  };
+  vi.spyOn(process.stdout, 'write').mockImplementation(collect as any);
+  vi.spyOn(process.stderr, 'write').mockImplementation(collect as any);
+  return lines;
+}
+
+describe('Logger Unit Tests', () => {
+  const savedLevel = process.env.LOG_LEVEL;
+
+  beforeEach(() => {
+    delete process.env.LOG_LEVEL;
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    process.env.LOG_LEVEL = savedLevel;
+    if (savedLevel === undefined) delete process.env.LOG_LEVEL;
+  });
+
+  describe('Redaction', () => {
+    test('should redact registry columns, blind indexes and credentials', () => {
+      expect(redact({
+        id: 7,
+        jobTitle: 'Physician',
+        ssn: '123-45-6789',
+        ssnHash: 'abc',
+        date_of_birth: '1980-04-02',
+        deaNumber: 'AB1234563',
+        caqhPassword: 'caqh',
+        currentPassword: 'old',
+        invitationToken: 'hrms_test_abc',
+        headers: { authorization: 'Bearer xyz' },
+        requirePasswordChange: false
+      })).toEqual({
+        id: 7,
+        jobTitle: 'Physician',
+        ssn: '[REDACTED]',
+        ssnHash: '[REDACTED]',
+        date_of_birth: '[REDACTED]',
+        deaNumber: '[REDACTED]',
+        caqhPassword: '[REDACTED]',
+        currentPassword: '[REDACTED]',
+        invitationToken: '[REDACTED]',
+        headers: { authorization: '[REDACTED]' },
+        requirePasswordChange: false
+      });
+    });
+
+    test('should shorten usernames, email addresses and phone numbers', () => {
+      expect(redact([{ username: 'jsmith', workEmail: 'jane.smith@hospital.com', cellPhone: '555-123-4567', firstName: 'Jane' }])).toEqual([
+        { username: 'j***', workEmail: 'j***@hospital.com', cellPhone: '5***', firstName: 'Jane' }
+      ]);
+    });
+
+    test('should mask identifiers inside free text', () => {
+      expect(redactText('Invitation sent to jane.smith@hospital.com for SSN 123-45-6789'))
+        .toBe('Invitation sent to j***@hospital.com for SSN ***-**-****');
+      expect(redactText('Authorization: Bearer abc.def.ghi, key hrms_live_Ab3Cd5Ef7Gh9'))
+        .toBe('Authorization: Bearer [REDACTED], key hrms_live_[REDACTED]');
+    });
+
+    test('should survive cycles, errors and deep nesting', () => {
+      const cyclic: any = { name: 'loop' };
+      cyclic.self = cyclic;
+      const deep = { a: { b: { c: { d: { e: { f: { g: 1 } } } } } } };
+
+      expect(redact(cyclic)).toEqual({ name: 'loop', self: '[Circular]' });
+      expect(JSON.stringify(redact(deep))).toContain('[Object]');
+      expect(redact(new Error('No employee with email a.b@x.org'))).toMatchObject({ name: 'Error', message: 'No employee with email a***@x.org' });
+    });
+  });
+
+  describe('Output', () => {
+    test('should write one JSON line with the request ID and child bindings', () => {
+      const lines = captureLines();
+
+      requestContext.run({ requestId: 'req-1', getUserId: () => 4 }, () => {
+        logger.child({ module: 'ses' }).info('Email sent to jane.smith@hospital.com', { messageId: 'm-1', to: 'x' });
+      });
+
+      expect(lines).toEqual([expect.objectContaining({
+        level: 'info',
+        msg: 'Email sent to j***@hospital.com',
+        requestId: 'req-1',
+        userId: 4,
+        module: 'ses',
+        messageId: 'm-1'
+      })]);
+      expect(new Date(lines[0].time).getTime()).not.toBeNaN();
+    });
+
+    test('should log errors to stderr with their stack', () => {
+      const stderr = vi.spyOn(process.stderr, 'write').mockImplementation(() => true);
+
+      logger.error('Failed to send email', new Error('SMTP down'));
+
+      const entry = JSON.parse(String(stderr.mock.calls[0][0]));
+      expect(entry).toMatchObject({ level: 'error', error: { name: 'Error', message: 'SMTP down' } });
+      expect(entry.error.stack).toContain('SMTP down');
+    });
+
+    test('should skip entries below LOG_LEVEL', () => {
+      const lines = captureLines();
+
+      logger.debug('hidden by default');
+      process.env.LOG_LEVEL = 'warn';
+      logger.info('hidden');
+      logger.warn('shown', 3);
+      process.env.LOG_LEVEL = 'debug';
+      logger.debug('shown too');
+
+      expect(lines.map(line => [line.msg, line.detail])).toEqual([['shown', 3], ['shown too', undefined]]);
+    });
+  });
+
+  describe('Request logger', () => {
+    /**
+     * App whose handler logs one entry of its own
+     */
+    function createApp() {
+      const app = express();
+      app.use(requestLogger);
+      app.get('/api/invitations/:token', (_req, res) => {
+        logger.info('Looking up invitation');
+        res.json({ email: 'jane.smith@hospital.com', ssn: '123-45-6789' });
+      });
+      return app;
+    }
+
+    test('should tag entries with the request ID and log no response body', async () => {
+      const lines = captureLines();
+
+      const response = await request(createApp())
+        .get('/api/invitations/hrms_test_0123456789abcdefghijklmnopqrstuvwxyz')
+        .expect(200);
+
+      const requestId = response.headers['x-request-id'];
+      expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+      expect(lines).toEqual([
+        expect.objectContaining({ msg: 'Looking up invitation', requestId }),
+        expect.objectContaining({
+          msg: expect.stringMatching(/^GET \/api\/invitations\/\[REDACTED\] 200 in \d+ms$/),
+          requestId,
+          method: 'GET',
+          status: 200
+        })
+      ]);
+      expect(JSON.stringify(lines)).not.toMatch(/jane|6789|abcdefghij/);
+    });
+
+    test('should keep a well-formed incoming request ID', async () => {
+      captureLines();
+
+      const kept = await request(createApp()).get('/api/invitations/x').set('X-Request-Id', 'lb-42').expect(200);
+      const replaced = await request(createApp()).get('/api/invitations/x').set('X-Request-Id', 'bad id <script>').expect(200);
+
+      expect(kept.headers['x-request-id']).toBe('lb-42');
+      expect(replaced.headers['x-request-id']).toMatch(/^[0-9a-f-]{36}$/);
+    });
+  });
+});
@@ -0,0 +1,167 @@
+/**
+ * MFA Service Unit Tests
+ *
+ * Unit tests for TOTP multi-factor authentication including:
+ * - RFC 6238 code generation against published test vectors
+ * - Verification window for clock drift
+ * - Single use of sign-in codes
+ * - Recovery code generation and single-use consumption
+ * - Role-based enforcement policy
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getSecuritySettings: vi.fn(),
+    updateUser: vi.fn(),
+    claimMfaTimeStep: vi.fn()
+  }
+}));
+
+import { mfaService } from '../../server/services/mfaService';
+import { storage } from '../../server/storage';
+import { encrypt } from '../../server/utils/encryption';
+
+/**
+ * RFC 6238 Appendix B SHA-1 seed "12345678901234567890" in base32
+ */
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+
+describe('MFA Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('TOTP generation', () => {
+    test('should match RFC 6238 test vectors (last 6 digits)', () => {
+      expect(mfaService.generateToken(RFC_SECRET, 59 * 1000)).toBe('287082');
+      expect(mfaService.generateToken(RFC_SECRET, 1111111109 * 1000)).toBe('081804');
+      expect(mfaService.generateToken(RFC_SECRET, 1234567890 * 1000)).toBe('005924');
+    });
+
+    test('should generate 32-character base32 secrets', () => {
+      const secret = mfaService.generateSecret();
+      expect(secret).toMatch(/^[A-Z2-7]{32}$/);
+      expect(mfaService.generateSecret()).not.toBe(secret);
+    });
+
+    test('should build an otpauth URI with issuer and secret', () => {
+      const url = mfaService.buildOtpAuthUrl('admin', RFC_SECRET);
+      expect(url).toMatch(/^otpauth:\/\/totp\//);
+      expect(url).toContain(`secret=${RFC_SECRET}`);
+      expect(url).toContain('digits=6');
+    });
+  });
+
+  describe('TOTP verification', () => {
+    const now = 1700000000 * 1000;
+
+    test('should accept the current code', () => {
+      const code = mfaService.generateToken(RFC_SECRET, now);
+      expect(mfaService.verifyToken(RFC_SECRET, code, now)).toBe(true);
+    });
+
+    test('should accept codes one step either side of now', () => {
+      const previous = mfaService.generateToken(RFC_SECRET, now - 30 * 1000);
+      const next = mfaService.generateToken(RFC_SECRET, now + 30 * 1000);
+      expect(mfaService.verifyToken(RFC_SECRET, previous, now)).toBe(true);
+      expect(mfaService.verifyToken(RFC_SECRET, next, now)).toBe(true);
+    });
+
+    test('should reject codes outside the window', () => {
+      const stale = mfaService.generateToken(RFC_SECRET, now - 90 * 1000);
+      expect(mfaService.verifyToken(RFC_SECRET, stale, now)).toBe(false);
+    });
+
+    test('should reject malformed input', () => {
+      expect(mfaService.verifyToken(RFC_SECRET, '', now)).toBe(false);
+      expect(mfaService.verifyToken(RFC_SECRET, '12345', now)).toBe(false);
+      expect(mfaService.verifyToken(RFC_SECRET, 'abcdef', now)).toBe(false);
+    });
+  });
+
+  describe('Sign-in codes', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    test('should use up the time step of an accepted code', async () => {
+      vi.useFakeTimers({ now: 1700000000 * 1000, toFake: ['Date'] });
+      vi.mocked(storage.claimMfaTimeStep).mockResolvedValue(true);
+      const user: any = { id: 7, mfaEnabled: true, mfaSecret: encrypt(RFC_SECRET) };
+
+      expect(await mfaService.verifyUserToken(user, mfaService.generateToken(RFC_SECRET))).toBe(true);
+      expect(storage.claimMfaTimeStep).toHaveBeenCalledWith(7, 56666666);
+    });
+
+    test('should reject a code whose time step was already used', async () => {
+      vi.mocked(storage.claimMfaTimeStep).mockResolvedValue(false);
+      const user: any = { id: 7, mfaEnabled: true, mfaSecret: encrypt(RFC_SECRET) };
+
+      expect(await mfaService.verifyUserToken(user, mfaService.generateToken(RFC_SECRET))).toBe(false);
+    });
+
+    test('should not use up a step for a wrong code', async () => {
+      const user: any = { id: 7, mfaEnabled: true, mfaSecret: encrypt(RFC_SECRET) };
+
+      expect(await mfaService.verifyUserToken(user, '000000')).toBe(false);
+      expect(storage.claimMfaTimeStep).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Recovery codes', () => {
+    test('should generate ten unique codes with matching hashes', () => {
+      const { codes, hashes } = mfaService.generateRecoveryCodes();
+      expect(codes).toHaveLength(10);
+      expect(new Set(codes).size).toBe(10);
+      expect(hashes).toHaveLength(10);
+      codes.forEach(code => expect(code).toMatch(/^[0-9a-f]{5}-[0-9a-f]{5}$/));
+      hashes.forEach((hash, i) => expect(hash).not.toBe(codes[i]));
+    });
+
+    test('should consume a valid recovery code exactly once', async () => {
+      const { codes, hashes } = mfaService.generateRecoveryCodes();
+      const user: any = { id: 7, mfaEnabled: true, mfaRecoveryCodes: hashes };
+
+      const remaining = await mfaService.consumeRecoveryCode(user, codes[3].toUpperCase());
+
+      expect(remaining).toBe(9);
+      const saved = vi.mocked(storage.updateUser).mock.calls[0][1].mfaRecoveryCodes as string[];
+      expect(saved).toHaveLength(9);
+      expect(saved).not.toContain(hashes[3]);
+
+      const reused = await mfaService.consumeRecoveryCode({ ...user, mfaRecoveryCodes: saved }, codes[3]);
+      expect(reused).toBeNull();
+    });
+
+    test('should reject recovery codes for users without MFA', async () => {
+      const { codes, hashes } = mfaService.generateRecoveryCodes();
+      const user: any = { id: 7, mfaEnabled: false, mfaRecoveryCodes: hashes };
+
+      expect(await mfaService.consumeRecoveryCode(user, codes[0])).toBeNull();
+      expect(storage.updateUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Enforcement policy', () => {
+    test('should require MFA only for configured roles', async () => {
+      vi.mocked(storage.getSecuritySettings).mockResolvedValue({
+        id: 1,
+        mfaRequiredRoles: ['admin'],
+        updatedAt: new Date(),
+        updatedBy: null
+      } as any);
+
+      expect(await mfaService.isRequiredForUser({ role: 'admin' } as any)).toBe(true);
+      expect(await mfaService.isRequiredForUser({ role: 'hr' } as any)).toBe(false);
+    });
+
+    test('should not require MFA when no policy is saved', async () => {
+      vi.mocked(storage.getSecuritySettings).mockResolvedValue(undefined);
+
+      expect(await mfaService.isRequiredForUser({ role: 'admin' } as any)).toBe(false);
+    });
+  });
+});
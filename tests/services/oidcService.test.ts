@@ -0,0 +1,247 @@
+/**
+ * OIDC Service Unit Tests
+ *
+ * Unit tests for OpenID Connect single sign-on including:
+ * - Authorization code + PKCE exchange against a mock identity provider
+ * - IdP group to role mapping and precedence
+ * - Just-in-time account linking by email
+ * - Auto-provisioning and inactive account rejection
+ */
+
+import { describe, test, expect, beforeEach, beforeAll, afterAll, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getSecuritySettings: vi.fn(),
+    getUserByOidcSubject: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getUserByUsername: vi.fn(),
+    createUser: vi.fn(),
+    updateUser: vi.fn()
+  }
+}));
+
+// Mock auth module (avoids loading passport/session setup)
+vi.mock('../../server/auth', () => ({
+  hashPassword: vi.fn().mockResolvedValue('hashed.salt')
+}));
+
+import { oidcService, OidcLoginError } from '../../server/services/oidcService';
+import { storage } from '../../server/storage';
+import { startMockOidcProvider, type MockOidcProvider } from '../utils/mock-oidc-provider';
+
+const mappings = {
+  admin: ['HR-Admins'],
+  hr: ['hr-staff'],
+  employee: ['all-staff']
+};
+
+describe('OIDC Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getSecuritySettings).mockResolvedValue({
+      ssoRoleMappings: mappings,
+      ssoAutoProvision: true
+    } as any);
+    vi.mocked(storage.updateUser).mockImplementation(async (id: number, data: any) => ({
+      id,
+      username: 'jane',
+      role: 'employee',
+      status: 'active',
+      ...data
+    }));
+  });
+
+  describe('Authorization code flow', () => {
+    let provider: MockOidcProvider;
+
+    beforeAll(async () => {
+      provider = await startMockOidcProvider();
+      process.env.OIDC_ISSUER_URL = provider.issuer;
+      process.env.OIDC_CLIENT_ID = provider.clientId;
+      process.env.OIDC_CLIENT_SECRET = provider.clientSecret;
+      process.env.OIDC_ALLOW_INSECURE = 'true';
+      oidcService.resetConfiguration();
+    });
+
+    afterAll(async () => {
+      delete process.env.OIDC_ISSUER_URL;
+      delete process.env.OIDC_CLIENT_ID;
+      delete process.env.OIDC_CLIENT_SECRET;
+      delete process.env.OIDC_ALLOW_INSECURE;
+      oidcService.resetConfiguration();
+      await provider.close();
+    });
+
+    test('should exchange the code and return identity claims', async () => {
+      const redirectUri = 'http://localhost/api/auth/oidc/callback';
+      provider.setIdentity({
+        sub: 'idp-123',
+        email: 'jane@example.com',
+        email_verified: true,
+        groups: ['hr-staff']
+      });
+
+      const authRequest = await oidcService.createAuthorizationRequest(redirectUri);
+      expect(authRequest.url).toContain('code_challenge_method=S256');
+
+      const authorize = await fetch(authRequest.url, { redirect: 'manual' });
+      const callbackUrl = new URL(authorize.headers.get('location')!);
+
+      const identity = await oidcService.handleCallback(callbackUrl, authRequest);
+
+      expect(identity).toEqual({
+        subject: 'idp-123',
+        email: 'jane@example.com',
+        emailVerified: true,
+        preferredUsername: undefined,
+        groups: ['hr-staff']
+      });
+    });
+
+    test('should reject a callback with a mismatched state', async () => {
+      provider.setIdentity({ sub: 'idp-123', email: 'jane@example.com' });
+
+      const authRequest = await oidcService.createAuthorizationRequest('http://localhost/api/auth/oidc/callback');
+      const authorize = await fetch(authRequest.url, { redirect: 'manual' });
+      const callbackUrl = new URL(authorize.headers.get('location')!);
+
+      await expect(
+        oidcService.handleCallback(callbackUrl, { ...authRequest, state: 'forged' })
+      ).rejects.toThrow();
+    });
+  });
+
+  describe('Role mapping', () => {
+    test('should map groups case-insensitively', () => {
+      expect(oidcService.resolveRole(['hr-admins'], mappings)).toBe('admin');
+      expect(oidcService.resolveRole(['ALL-STAFF'], mappings)).toBe('employee');
+    });
+
+    test('should prefer the highest role when several groups match', () => {
+      expect(oidcService.resolveRole(['all-staff', 'hr-staff'], mappings)).toBe('hr');
+    });
+
+    test('should return null without a matching group or mappings', () => {
+      expect(oidcService.resolveRole(['contractors'], mappings)).toBeNull();
+      expect(oidcService.resolveRole(['hr-staff'], null)).toBeNull();
+    });
+  });
+
+  describe('Account linking and provisioning', () => {
+    test('should use a user already linked to the subject', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue({
+        id: 4, username: 'jane', role: 'hr', status: 'active', oidcSubject: 'idp-123'
+      } as any);
+
+      const user = await oidcService.findOrProvisionUser({ subject: 'idp-123', groups: ['hr-staff'] });
+
+      expect(user.id).toBe(4);
+      expect(storage.getUserByEmail).not.toHaveBeenCalled();
+      expect(storage.updateUser).not.toHaveBeenCalled();
+    });
+
+    test('should link an existing user by verified email', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue(undefined);
+      vi.mocked(storage.getUserByEmail).mockResolvedValue({
+        id: 9, username: 'jane', role: 'employee', status: 'active', oidcSubject: null
+      } as any);
+
+      const user = await oidcService.findOrProvisionUser({
+        subject: 'idp-123',
+        email: 'jane@example.com',
+        emailVerified: true,
+        groups: []
+      });
+
+      expect(user.oidcSubject).toBe('idp-123');
+      expect(storage.updateUser).toHaveBeenCalledWith(9, { oidcSubject: 'idp-123' });
+      expect(storage.createUser).not.toHaveBeenCalled();
+    });
+
+    test('should refuse to link an unverified email', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue(undefined);
+
+      await expect(oidcService.findOrProvisionUser({
+        subject: 'idp-123',
+        email: 'jane@example.com',
+        emailVerified: false,
+        groups: ['hr-staff']
+      })).rejects.toBeInstanceOf(OidcLoginError);
+      expect(storage.getUserByEmail).not.toHaveBeenCalled();
+    });
+
+    test('should refuse to link when the IdP does not assert a verified email', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue(undefined);
+
+      await expect(oidcService.findOrProvisionUser({
+        subject: 'idp-123',
+        email: 'admin@example.com',
+        groups: []
+      })).rejects.toBeInstanceOf(OidcLoginError);
+      expect(storage.getUserByEmail).not.toHaveBeenCalled();
+      expect(storage.updateUser).not.toHaveBeenCalled();
+    });
+
+    test('should sync the role from mapped groups', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue({
+        id: 4, username: 'jane', role: 'employee', status: 'active', oidcSubject: 'idp-123'
+      } as any);
+
+      const user = await oidcService.findOrProvisionUser({ subject: 'idp-123', groups: ['HR-Admins'] });
+
+      expect(user.role).toBe('admin');
+      expect(storage.updateUser).toHaveBeenCalledWith(4, { role: 'admin' });
+    });
+
+    test('should provision a new user when a group maps to a role', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue(undefined);
+      vi.mocked(storage.getUserByEmail).mockResolvedValue(undefined);
+      vi.mocked(storage.getUserByUsername).mockResolvedValue(undefined);
+      vi.mocked(storage.createUser).mockImplementation(async (data: any) => ({ id: 12, ...data }));
+
+      const user = await oidcService.findOrProvisionUser({
+        subject: 'idp-new',
+        email: 'New.Hire@Example.com',
+        emailVerified: true,
+        groups: ['all-staff']
+      });
+
+      expect(storage.createUser).toHaveBeenCalledWith(expect.objectContaining({
+        username: 'new.hire@example.com',
+        email: 'new.hire@example.com',
+        role: 'employee',
+        status: 'active'
+      }));
+      expect(user.oidcSubject).toBe('idp-new');
+    });
+
+    test('should not provision without a mapped group or when disabled', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue(undefined);
+      vi.mocked(storage.getUserByEmail).mockResolvedValue(undefined);
+      const identity = { subject: 'idp-new', email: 'new@example.com', emailVerified: true, groups: ['contractors'] };
+
+      await expect(oidcService.findOrProvisionUser(identity)).rejects.toBeInstanceOf(OidcLoginError);
+
+      vi.mocked(storage.getSecuritySettings).mockResolvedValue({
+        ssoRoleMappings: mappings,
+        ssoAutoProvision: false
+      } as any);
+      await expect(
+        oidcService.findOrProvisionUser({ ...identity, groups: ['all-staff'] })
+      ).rejects.toBeInstanceOf(OidcLoginError);
+      expect(storage.createUser).not.toHaveBeenCalled();
+    });
+
+    test('should reject accounts that are not active', async () => {
+      vi.mocked(storage.getUserByOidcSubject).mockResolvedValue({
+        id: 4, username: 'jane', role: 'hr', status: 'suspended', oidcSubject: 'idp-123'
+      } as any);
+
+      await expect(
+        oidcService.findOrProvisionUser({ subject: 'idp-123', groups: [] })
+      ).rejects.toThrow('not active');
+    });
+  });
+});
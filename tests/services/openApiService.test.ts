@@ -0,0 +1,124 @@
+/**
+ * OpenAPI Service Unit Tests
+ *
+ * Unit tests for the generated OpenAPI document including:
+ * - Paths and path parameters from Express routes
+ * - Query and body fields from express-validator chains
+ * - Request and response schemas from the Zod insert schemas
+ * - Security, permissions and roles from the auth middleware
+ */
+
+import { describe, test, expect, vi } from 'vitest';
+import express from 'express';
+import multer from 'multer';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {}
+}));
+
+import { openApiService } from '../../server/services/openApiService';
+import { apiKeyAuth, requireAnyAuth, requirePermission } from '../../server/middleware/apiKeyAuth';
+import { validateEmployee, validateId, validatePagination, handleValidationErrors } from '../../server/middleware/validation';
+import { describeMiddleware } from '../../server/utils/routeMetadata';
+
+const handler = (_req: express.Request, res: express.Response) => { res.json({}); };
+const sessionOnly = describeMiddleware((_req: express.Request, _res: express.Response, next: express.NextFunction) => next(), {
+  requiresAuth: true,
+  sessionOnly: true
+});
+const adminOnly = describeMiddleware((_req: express.Request, _res: express.Response, next: express.NextFunction) => next(), {
+  roles: ['admin']
+});
+
+/**
+ * Build a small app with the same middleware chains the real routes use
+ */
+function buildApp() {
+  const app = express();
+  app.get('/api/employees', apiKeyAuth, requireAnyAuth, requirePermission('read:employees'), validatePagination(), handleValidationErrors, handler);
+  app.get('/api/employees', handler);
+  app.post('/api/employees', apiKeyAuth, requireAnyAuth, requirePermission('write:employees'), validateEmployee(), handleValidationErrors, handler);
+  app.get('/api/employees/:id', apiKeyAuth, requireAnyAuth, validateId(), handleValidationErrors, handler);
+  app.post('/api/employees/:id/educations', apiKeyAuth, requireAnyAuth, handler);
+  app.put('/api/settings/webhooks/:id', sessionOnly, adminOnly, handler);
+  app.post('/api/documents/upload', apiKeyAuth, requireAnyAuth, multer().single('document'), handler);
+  app.get('/api/health', handler);
+  app.get('/assets/app.js', handler);
+  return app;
+}
+
+describe('OpenAPI Service Unit Tests', () => {
+  const document = openApiService.buildDocument(buildApp());
+
+  test('should document API routes with OpenAPI paths', () => {
+    expect(document.openapi).toBe('3.0.3');
+    expect(Object.keys(document.paths)).toEqual([
+      '/api/employees',
+      '/api/employees/{id}',
+      '/api/employees/{id}/educations',
+      '/api/settings/webhooks/{id}',
+      '/api/documents/upload',
+      '/api/health'
+    ]);
+    expect(document.paths['/api/employees/{id}'].get.parameters).toEqual([
+      { name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } }
+    ]);
+    expect(document.paths['/api/employees'].get.tags).toEqual(['Employees']);
+    expect(document.paths['/api/settings/webhooks/{id}'].put.tags).toEqual(['Settings: Webhooks']);
+  });
+
+  test('should describe query parameters from validators', () => {
+    const operation = document.paths['/api/employees'].get;
+
+    expect(operation.parameters).toContainEqual({
+      name: 'limit',
+      in: 'query',
+      required: false,
+      schema: { type: 'integer', minimum: 1, maximum: 100 },
+      description: 'Limit must be between 1 and 100'
+    });
+    expect(operation.responses['200'].content!['application/json'].schema.properties.employees.items)
+      .toEqual({ $ref: '#/components/schemas/Employee' });
+  });
+
+  test('should use the Zod insert schema for resource bodies', () => {
+    const create = document.paths['/api/employees'].post;
+    expect(create.summary).toBe('Create employee');
+    expect(create.requestBody!.content['application/json'].schema).toEqual({ $ref: '#/components/schemas/EmployeeInput' });
+
+    const input = document.components.schemas.EmployeeInput;
+    expect(input.type).toBe('object');
+    expect(input.required).toEqual(expect.arrayContaining(['firstName', 'lastName']));
+    expect(input.properties).not.toHaveProperty('id');
+
+    // Nested records take the employee ID from the path
+    expect(document.components.schemas.EducationInput.properties).not.toHaveProperty('employeeId');
+    expect(document.components.schemas.EducationUpdate.required).toBeUndefined();
+  });
+
+  test('should record security, permissions and roles', () => {
+    const list = document.paths['/api/employees'].get;
+    expect(list.security).toEqual([{ bearerAuth: [] }, { apiKeyHeader: [] }, { session: [] }]);
+    expect(list['x-permissions']).toEqual(['read:employees']);
+    expect(list.responses).toHaveProperty('401');
+    expect(list.responses).toHaveProperty('403');
+
+    const webhook = document.paths['/api/settings/webhooks/{id}'].put;
+    expect(webhook.security).toEqual([{ session: [] }]);
+    expect(webhook['x-roles']).toEqual(['admin']);
+    expect(webhook.description).toContain('Session only');
+
+    expect(document.paths['/api/health'].get.security).toBeUndefined();
+  });
+
+  test('should describe file uploads as multipart forms', () => {
+    const upload = document.paths['/api/documents/upload'].post;
+    expect(upload.requestBody!.content).toHaveProperty('multipart/form-data');
+  });
+
+  test('should fill in the server URL per request', () => {
+    const served = openApiService.getDocument(buildApp(), 'https://hr.example.com');
+    expect(served.servers).toEqual([{ url: 'https://hr.example.com' }]);
+  });
+});
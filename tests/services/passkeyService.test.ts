@@ -0,0 +1,241 @@
+/**
+ * Passkey Service Unit Tests
+ *
+ * Unit tests for WebAuthn passkeys including:
+ * - Relying party configuration
+ * - Registration limited to employees, with challenge checks
+ * - Sign-in verification and signature counter updates
+ * - Removal by the owner and revocation by an admin
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUser: vi.fn(),
+    getUserByUsername: vi.fn(),
+    getUserPasskeys: vi.fn(),
+    getPasskey: vi.fn(),
+    getPasskeyByCredentialId: vi.fn(),
+    createPasskey: vi.fn(),
+    updatePasskey: vi.fn(),
+    deletePasskey: vi.fn(),
+    createAudit: vi.fn()
+  }
+}));
+
+vi.mock('@simplewebauthn/server', () => ({
+  generateRegistrationOptions: vi.fn(),
+  verifyRegistrationResponse: vi.fn(),
+  generateAuthenticationOptions: vi.fn(),
+  verifyAuthenticationResponse: vi.fn()
+}));
+
+import { passkeyService, PasskeyError } from '../../server/services/passkeyService';
+import { storage } from '../../server/storage';
+import {
+  generateRegistrationOptions,
+  verifyRegistrationResponse,
+  generateAuthenticationOptions,
+  verifyAuthenticationResponse
+} from '@simplewebauthn/server';
+
+const rp = { id: 'hr.example.com', name: 'HR Management System', origin: 'https://hr.example.com' };
+
+const employee = { id: 7, username: 'clinician', email: 'clinician@example.com', role: 'employee', status: 'active' } as any;
+const admin = { id: 1, username: 'admin', role: 'admin', status: 'active' } as any;
+
+const storedPasskey = {
+  id: 3,
+  userId: 7,
+  credentialId: 'cred-1',
+  publicKey: Buffer.from('public-key').toString('base64url'),
+  counter: 4,
+  transports: ['usb'],
+  deviceType: 'singleDevice',
+  backedUp: false,
+  name: 'Front desk key',
+  createdAt: new Date('2025-01-20T10:00:00Z'),
+  lastUsedAt: null
+} as any;
+
+const challenge = (purpose: 'registration' | 'authentication', userId?: number) => ({
+  challenge: 'challenge-1',
+  purpose,
+  userId,
+  expiresAt: Date.now() + 60000
+});
+
+describe('Passkey Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(storage.getUserPasskeys).mockResolvedValue([]);
+  });
+
+  describe('Relying party', () => {
+    test('should derive the RP ID and origin from the base URL', () => {
+      expect(passkeyService.getRelyingParty('https://hr.example.com/')).toEqual({
+        id: 'hr.example.com',
+        name: 'HR Management System',
+        origin: 'https://hr.example.com'
+      });
+    });
+  });
+
+  describe('Registration', () => {
+    test('should only allow active employees', async () => {
+      await expect(passkeyService.startRegistration({ ...employee, role: 'hr' }, rp))
+        .rejects.toMatchObject({ status: 403 });
+      await expect(passkeyService.startRegistration({ ...employee, status: 'suspended' }, rp))
+        .rejects.toBeInstanceOf(PasskeyError);
+      expect(generateRegistrationOptions).not.toHaveBeenCalled();
+    });
+
+    test('should exclude existing passkeys and require user verification', async () => {
+      vi.mocked(storage.getUserPasskeys).mockResolvedValue([storedPasskey]);
+      vi.mocked(generateRegistrationOptions).mockResolvedValue({ challenge: 'challenge-1' } as any);
+
+      const { challenge: saved } = await passkeyService.startRegistration(employee, rp);
+
+      expect(generateRegistrationOptions).toHaveBeenCalledWith(expect.objectContaining({
+        rpID: 'hr.example.com',
+        userName: 'clinician',
+        excludeCredentials: [{ id: 'cred-1', transports: ['usb'] }],
+        authenticatorSelection: { residentKey: 'preferred', userVerification: 'required' }
+      }));
+      expect(saved).toMatchObject({ challenge: 'challenge-1', purpose: 'registration', userId: 7 });
+    });
+
+    test('should store a verified credential and audit it', async () => {
+      vi.mocked(verifyRegistrationResponse).mockResolvedValue({
+        verified: true,
+        registrationInfo: {
+          credential: { id: 'cred-2', publicKey: new Uint8Array([1, 2, 3]), counter: 0, transports: ['internal'] },
+          credentialDeviceType: 'multiDevice',
+          credentialBackedUp: true
+        }
+      } as any);
+      vi.mocked(storage.getPasskeyByCredentialId).mockResolvedValue(undefined);
+      vi.mocked(storage.createPasskey).mockResolvedValue({ ...storedPasskey, id: 4, name: 'Laptop' });
+
+      await passkeyService.finishRegistration(employee, {
+        response: {} as any,
+        challenge: challenge('registration', 7),
+        rp,
+        name: '  Laptop '
+      });
+
+      expect(storage.createPasskey).toHaveBeenCalledWith({
+        userId: 7,
+        credentialId: 'cred-2',
+        publicKey: 'AQID',
+        counter: 0,
+        transports: ['internal'],
+        deviceType: 'multiDevice',
+        backedUp: true,
+        name: 'Laptop'
+      });
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'PASSKEY_ADDED', changedBy: 7 }));
+    });
+
+    test('should reject missing, expired or foreign challenges', async () => {
+      const finish = (saved: any) => passkeyService.finishRegistration(employee, { response: {} as any, challenge: saved, rp });
+
+      await expect(finish(undefined)).rejects.toThrow('Passkey request expired');
+      await expect(finish({ ...challenge('registration', 7), expiresAt: Date.now() - 1 })).rejects.toThrow('Passkey request expired');
+      await expect(finish(challenge('registration', 8))).rejects.toThrow('Passkey request expired');
+      await expect(finish(challenge('authentication'))).rejects.toThrow('Passkey request expired');
+      expect(verifyRegistrationResponse).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Sign-in', () => {
+    test('should only list credentials for known employees', async () => {
+      vi.mocked(generateAuthenticationOptions).mockResolvedValue({ challenge: 'challenge-1' } as any);
+
+      vi.mocked(storage.getUserByUsername).mockResolvedValueOnce({ ...employee, role: 'hr' });
+      await passkeyService.startAuthentication(rp, 'hr.user');
+      expect(generateAuthenticationOptions).toHaveBeenLastCalledWith(expect.objectContaining({ allowCredentials: [] }));
+
+      vi.mocked(storage.getUserByUsername).mockResolvedValueOnce(employee);
+      vi.mocked(storage.getUserPasskeys).mockResolvedValue([storedPasskey]);
+      await passkeyService.startAuthentication(rp, 'clinician');
+      expect(generateAuthenticationOptions).toHaveBeenLastCalledWith(expect.objectContaining({
+        allowCredentials: [{ id: 'cred-1', transports: ['usb'] }]
+      }));
+    });
+
+    test('should verify the assertion and update the counter', async () => {
+      vi.mocked(storage.getPasskeyByCredentialId).mockResolvedValue(storedPasskey);
+      vi.mocked(storage.getUser).mockResolvedValue(employee);
+      vi.mocked(verifyAuthenticationResponse).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 5 }
+      } as any);
+
+      const user = await passkeyService.finishAuthentication({
+        response: { id: 'cred-1' } as any,
+        challenge: challenge('authentication'),
+        rp
+      });
+
+      expect(user.id).toBe(7);
+      expect(verifyAuthenticationResponse).toHaveBeenCalledWith(expect.objectContaining({
+        expectedChallenge: 'challenge-1',
+        expectedOrigin: 'https://hr.example.com',
+        credential: expect.objectContaining({ id: 'cred-1', counter: 4 })
+      }));
+      expect(storage.updatePasskey).toHaveBeenCalledWith(3, { counter: 5, lastUsedAt: expect.any(Date) });
+    });
+
+    test('should refuse unknown passkeys and users who can no longer use them', async () => {
+      const finish = () => passkeyService.finishAuthentication({
+        response: { id: 'cred-1' } as any,
+        challenge: challenge('authentication'),
+        rp
+      });
+
+      vi.mocked(storage.getPasskeyByCredentialId).mockResolvedValue(undefined);
+      await expect(finish()).rejects.toMatchObject({ status: 401 });
+
+      vi.mocked(storage.getPasskeyByCredentialId).mockResolvedValue(storedPasskey);
+      vi.mocked(storage.getUser).mockResolvedValue({ ...employee, status: 'disabled' });
+      await expect(finish()).rejects.toMatchObject({ status: 401 });
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    test('should reject assertions that fail verification', async () => {
+      vi.mocked(storage.getPasskeyByCredentialId).mockResolvedValue(storedPasskey);
+      vi.mocked(storage.getUser).mockResolvedValue(employee);
+      vi.mocked(verifyAuthenticationResponse).mockRejectedValue(new Error('Unexpected authentication response challenge'));
+
+      await expect(passkeyService.finishAuthentication({
+        response: { id: 'cred-1' } as any,
+        challenge: challenge('authentication'),
+        rp
+      })).rejects.toMatchObject({ status: 401 });
+      expect(storage.updatePasskey).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Removal', () => {
+    test('should audit owner removal and admin revocation differently', async () => {
+      vi.mocked(storage.getPasskey).mockResolvedValue(storedPasskey);
+
+      await passkeyService.remove(7, 3, employee);
+      expect(storage.createAudit).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'PASSKEY_REMOVED', changedBy: 7 }));
+
+      await passkeyService.remove(7, 3, admin);
+      expect(storage.createAudit).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'PASSKEY_REVOKED', changedBy: 1 }));
+      expect(storage.deletePasskey).toHaveBeenCalledTimes(2);
+    });
+
+    test('should not remove passkeys belonging to someone else', async () => {
+      vi.mocked(storage.getPasskey).mockResolvedValue(storedPasskey);
+
+      await expect(passkeyService.remove(8, 3, admin)).rejects.toMatchObject({ status: 404 });
+      expect(storage.deletePasskey).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Password Policy Service Unit Tests
+ *
+ * Unit tests for password policy enforcement including:
+ * - Length and character class requirements
+ * - Breached-password list checks
+ * - Reuse prevention against password history
+ * - Maximum password age
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getSecuritySettings: vi.fn(),
+    getPasswordHistory: vi.fn(),
+    addPasswordHistory: vi.fn(),
+    trimPasswordHistory: vi.fn(),
+    updateUser: vi.fn()
+  }
+}));
+
+// Mock password hashing so history checks are deterministic
+vi.mock('../../server/auth', () => ({
+  hashPassword: vi.fn(async (password: string) => `hashed:${password}`),
+  comparePasswords: vi.fn(async (password: string, hash: string) => hash === `hashed:${password}`)
+}));
+
+import { passwordPolicyService, DEFAULT_PASSWORD_POLICY } from '../../server/services/passwordPolicyService';
+import { storage } from '../../server/storage';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Build a user with the given password history fields
+ */
+function buildUser(overrides: Record<string, any> = {}) {
+  return {
+    id: 7,
+    username: 'policy.user',
+    passwordHash: 'hashed:CurrentPass#42',
+    requirePasswordChange: false,
+    createdAt: new Date('2025-01-01T00:00:00.000Z'),
+    passwordChangedAt: new Date('2025-01-01T00:00:00.000Z'),
+    ...overrides
+  } as any;
+}
+
+/**
+ * Mock saved security settings with the given password policy overrides
+ */
+function mockSettings(overrides: Record<string, any> = {}) {
+  vi.mocked(storage.getSecuritySettings).mockResolvedValue({
+    passwordMinLength: 8,
+    passwordRequireUppercase: true,
+    passwordRequireLowercase: true,
+    passwordRequireNumber: true,
+    passwordRequireSymbol: true,
+    passwordBlockBreached: true,
+    passwordHistoryCount: 0,
+    passwordMaxAgeDays: 0,
+    ...overrides
+  } as any);
+}
+
+describe('Password Policy Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Strength requirements', () => {
+    test('should list every unmet requirement', () => {
+      const errors = passwordPolicyService.validateStrength('short', DEFAULT_PASSWORD_POLICY);
+
+      expect(errors).toEqual([
+        'Password must be at least 8 characters',
+        'Password must contain an uppercase letter',
+        'Password must contain a number',
+        'Password must contain a special character'
+      ]);
+    });
+
+    test('should only apply enabled character classes', () => {
+      const policy = { ...DEFAULT_PASSWORD_POLICY, minLength: 12, requireUppercase: false, requireSymbol: false };
+
+      expect(passwordPolicyService.validateStrength('lowercase only 1', policy)).toEqual([]);
+      expect(passwordPolicyService.validateStrength('lower 1', policy)).toEqual(['Password must be at least 12 characters']);
+    });
+
+    test('should accept a strong password', () => {
+      expect(passwordPolicyService.validateStrength('Violet-Harbor-93', DEFAULT_PASSWORD_POLICY)).toEqual([]);
+    });
+  });
+
+  describe('Breached passwords', () => {
+    test('should reject common passwords with decorated suffixes', () => {
+      expect(passwordPolicyService.isBreached('password')).toBe(true);
+      expect(passwordPolicyService.isBreached('Password1!')).toBe(true);
+      expect(passwordPolicyService.isBreached('Qwerty123$')).toBe(true);
+      expect(passwordPolicyService.isBreached('Violet-Harbor-93')).toBe(false);
+    });
+
+    test('should only block breached passwords when enabled', () => {
+      const errors = passwordPolicyService.validateStrength('Password1!', DEFAULT_PASSWORD_POLICY);
+      expect(errors).toEqual(['This password is too common and appears in known data breaches']);
+
+      const relaxed = { ...DEFAULT_PASSWORD_POLICY, blockBreached: false };
+      expect(passwordPolicyService.validateStrength('Password1!', relaxed)).toEqual([]);
+    });
+  });
+
+  describe('Password history', () => {
+    test('should reject a password used within the history window', async () => {
+      mockSettings({ passwordHistoryCount: 3 });
+      vi.mocked(storage.getPasswordHistory).mockResolvedValue([
+        { id: 3, userId: 7, passwordHash: 'hashed:CurrentPass#42' },
+        { id: 2, userId: 7, passwordHash: 'hashed:OlderPass#41' }
+      ] as any);
+
+      const errors = await passwordPolicyService.validateNewPassword(buildUser(), 'OlderPass#41');
+
+      expect(errors).toEqual(['Password must not match any of your last 3 passwords']);
+      expect(storage.getPasswordHistory).toHaveBeenCalledWith(7, 3);
+    });
+
+    test('should fall back to the current password when no history exists', async () => {
+      mockSettings({ passwordHistoryCount: 5 });
+      vi.mocked(storage.getPasswordHistory).mockResolvedValue([]);
+
+      expect(await passwordPolicyService.validateNewPassword(buildUser(), 'CurrentPass#42')).toHaveLength(1);
+      expect(await passwordPolicyService.validateNewPassword(buildUser(), 'BrandNewPass#43')).toEqual([]);
+    });
+
+    test('should skip history checks when reuse is allowed', async () => {
+      mockSettings({ passwordHistoryCount: 0 });
+
+      expect(await passwordPolicyService.validateNewPassword(buildUser(), 'CurrentPass#42')).toEqual([]);
+      expect(storage.getPasswordHistory).not.toHaveBeenCalled();
+    });
+
+    test('should record new passwords and trim history', async () => {
+      mockSettings({ passwordHistoryCount: 4 });
+      vi.mocked(storage.updateUser).mockResolvedValue(buildUser() as any);
+
+      await passwordPolicyService.setPassword(7, 'BrandNewPass#43');
+
+      expect(storage.updateUser).toHaveBeenCalledWith(7, expect.objectContaining({
+        passwordHash: 'hashed:BrandNewPass#43',
+        requirePasswordChange: false,
+        passwordChangedAt: expect.any(Date)
+      }));
+      expect(storage.addPasswordHistory).toHaveBeenCalledWith({ userId: 7, passwordHash: 'hashed:BrandNewPass#43' });
+      expect(storage.trimPasswordHistory).toHaveBeenCalledWith(7, 4);
+    });
+  });
+
+  describe('Password expiry', () => {
+    test('should expire passwords older than the maximum age', () => {
+      const policy = { ...DEFAULT_PASSWORD_POLICY, maxAgeDays: 90 };
+      const now = new Date('2025-06-01T00:00:00.000Z');
+
+      expect(passwordPolicyService.isExpired(buildUser({ passwordChangedAt: new Date(now.getTime() - 91 * DAY_MS) }), policy, now)).toBe(true);
+      expect(passwordPolicyService.isExpired(buildUser({ passwordChangedAt: new Date(now.getTime() - 30 * DAY_MS) }), policy, now)).toBe(false);
+      expect(passwordPolicyService.isExpired(buildUser(), DEFAULT_PASSWORD_POLICY, now)).toBe(false);
+    });
+
+    test('should use the account creation date when the password was never changed', () => {
+      const policy = { ...DEFAULT_PASSWORD_POLICY, maxAgeDays: 30 };
+      const user = buildUser({ passwordChangedAt: null, createdAt: new Date('2025-01-01T00:00:00.000Z') });
+
+      expect(passwordPolicyService.isExpired(user, policy, new Date('2025-03-01T00:00:00.000Z'))).toBe(true);
+    });
+
+    test('should flag expired users for a password change', async () => {
+      mockSettings({ passwordMaxAgeDays: 1 });
+      const user = buildUser({ passwordChangedAt: new Date(Date.now() - 2 * DAY_MS) });
+
+      expect(await passwordPolicyService.expireIfNeeded(user)).toBe(true);
+      expect(user.requirePasswordChange).toBe(true);
+      expect(storage.updateUser).toHaveBeenCalledWith(7, { requirePasswordChange: true });
+    });
+
+    test('should leave current passwords alone', async () => {
+      mockSettings({ passwordMaxAgeDays: 90 });
+      const user = buildUser({ passwordChangedAt: new Date() });
+
+      expect(await passwordPolicyService.expireIfNeeded(user)).toBe(false);
+      expect(storage.updateUser).not.toHaveBeenCalled();
+    });
+  });
+});
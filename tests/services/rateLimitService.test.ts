@@ -0,0 +1,119 @@
+/**
+ * Rate Limit Service Unit Tests
+ *
+ * Unit tests for Postgres-backed rate limiting including:
+ * - Counting requests per limiter and client in the shared counter table
+ * - Standard RateLimit-* and Retry-After headers
+ * - Per-endpoint limits and the limiter for unauthenticated routes
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import express from 'express';
+import request from 'supertest';
+
+// Mock storage module with an in-memory counter table
+const counters = new Map<string, { key: string; hits: number; resetAt: Date }>();
+
+vi.mock('../../server/storage', () => ({
+  storage: {
+    incrementRateLimit: vi.fn(async (key: string, windowMs: number) => {
+      const existing = counters.get(key);
+      const counter = existing && existing.resetAt > new Date()
+        ? { ...existing, hits: existing.hits + 1 }
+        : { key, hits: 1, resetAt: new Date(Date.now() + windowMs) };
+      counters.set(key, counter);
+      return counter;
+    }),
+    getRateLimit: vi.fn(async (key: string) => counters.get(key)),
+    decrementRateLimit: vi.fn(async () => undefined),
+    resetRateLimit: vi.fn(async (key: string) => { counters.delete(key); }),
+    deleteExpiredRateLimits: vi.fn(async () => 0)
+  }
+}));
+
+import {
+  createRateLimiter,
+  endpointRateLimit,
+  rateLimitService
+} from '../../server/services/rateLimitService';
+import { storage } from '../../server/storage';
+
+const ok = (_req: express.Request, res: express.Response) => { res.json({ ok: true }); };
+
+describe('Rate Limit Service Unit Tests', () => {
+  beforeEach(() => {
+    counters.clear();
+    vi.clearAllMocks();
+  });
+
+  describe('Per-key limits', () => {
+    test('should allow requests up to the limit and set standard headers', async () => {
+      const headers: Record<string, string> = {};
+      const res = { headersSent: false, setHeader: (name: string, value: string) => { headers[name] = value; } } as any;
+
+      const first = await rateLimitService.consume(res, { key: 'api-key:7', limit: 2, windowMs: 3600000 });
+      expect(first).toMatchObject({ allowed: true, limit: 2, remaining: 1 });
+      expect(headers['RateLimit-Policy']).toBe('2;w=3600');
+      expect(headers['RateLimit-Remaining']).toBe('1');
+      expect(Number(headers['RateLimit-Reset'])).toBeGreaterThan(3590);
+
+      await rateLimitService.consume(res, { key: 'api-key:7', limit: 2, windowMs: 3600000 });
+      const third = await rateLimitService.consume(res, { key: 'api-key:7', limit: 2, windowMs: 3600000 });
+      expect(third.allowed).toBe(false);
+      expect(third.remaining).toBe(0);
+      expect(headers['Retry-After']).toBe(headers['RateLimit-Reset']);
+      expect(storage.incrementRateLimit).toHaveBeenCalledWith('api-key:7', 3600000);
+    });
+  });
+
+  describe('Route limiters', () => {
+    test('should reject requests over the limit with a JSON error', async () => {
+      const app = express();
+      app.get('/api/things', createRateLimiter({ name: 'things', windowMs: 60000, limit: 2, message: 'Too many thing requests' }), ok);
+
+      const first = await request(app).get('/api/things').expect(200);
+      expect(first.headers['ratelimit-limit']).toBe('2');
+      expect(first.headers['ratelimit-remaining']).toBe('1');
+      expect(first.headers['ratelimit-policy']).toBe('2;w=60');
+      await request(app).get('/api/things').expect(200);
+
+      const limited = await request(app).get('/api/things').expect(429);
+      expect(limited.body).toEqual({ error: 'Too many thing requests', retryAfter: expect.any(Number) });
+      expect(limited.headers['retry-after']).toBeDefined();
+      expect(Array.from(counters.keys())[0]).toMatch(/^things:ip-/);
+    });
+
+    test('should count each endpoint separately', async () => {
+      const app = express();
+      const limiter = endpointRateLimit(1);
+      app.get('/api/export/employees', limiter, ok);
+      app.get('/api/export/expiring-items', limiter, ok);
+
+      await request(app).get('/api/export/employees').expect(200);
+      await request(app).get('/api/export/expiring-items').expect(200);
+      await request(app).get('/api/export/employees').expect(429);
+    });
+
+    test('should count signed-in users by identity', async () => {
+      const app = express();
+      app.use((req, _res, next) => {
+        (req as any).user = { id: Number(req.headers['x-user-id']) };
+        next();
+      });
+      app.get('/api/things', createRateLimiter({ name: 'things', windowMs: 60000, limit: 1, message: 'Too many' }), ok);
+
+      await request(app).get('/api/things').set('X-User-Id', '1').expect(200);
+      await request(app).get('/api/things').set('X-User-Id', '2').expect(200);
+      await request(app).get('/api/things').set('X-User-Id', '1').expect(429);
+      expect(counters.has('things:user-1')).toBe(true);
+    });
+
+    test('should let requests through when the counter table is unavailable', async () => {
+      vi.mocked(storage.incrementRateLimit).mockRejectedValueOnce(new Error('connection refused'));
+      const app = express();
+      app.get('/api/things', createRateLimiter({ name: 'things', windowMs: 60000, limit: 1, message: 'Too many' }), ok);
+
+      await request(app).get('/api/things').expect(200);
+    });
+  });
+});
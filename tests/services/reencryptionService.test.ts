@@ -0,0 +1,166 @@
+/**
+ * Re-encryption Service Unit Tests
+ *
+ * Unit tests for the background re-encryption job including:
+ * - Moving column values and nested JSON secrets to the active key
+ * - Filling in blind indexes of the sensitive column registry
+ * - Counting values that cannot be decrypted without stopping the job
+ * - Starting, cancelling and key changes while a job runs
+ */
+
+import { describe, test, expect, beforeEach, afterEach, vi } from 'vitest';
+import crypto from 'crypto';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getRunningEncryptionJob: vi.fn(),
+    getEncryptionJobs: vi.fn(async () => []),
+    createEncryptionJob: vi.fn(async (targetKeyId: string, startedBy: number) => ({ id: 1, targetKeyId, startedBy, status: 'running' })),
+    cancelEncryptionJob: vi.fn(async (id: number) => ({ id, status: 'cancelled' })),
+    advanceEncryptionJob: vi.fn()
+  }
+}));
+
+import { reencryptionService, ENCRYPTED_TABLES } from '../../server/services/reencryptionService';
+import { encryptionService, EnvKeyProvider } from '../../server/services/encryptionService';
+import { storage } from '../../server/storage';
+import { blindIndex } from '../../server/middleware/encryption';
+
+const KEYS = {
+  k1: crypto.randomBytes(32).toString('base64'),
+  k2: crypto.randomBytes(32).toString('base64')
+};
+
+/**
+ * Use a provider with both keys and the given one active
+ */
+function activate(keyId: 'k1' | 'k2') {
+  encryptionService.setProvider(new EnvKeyProvider({
+    ENCRYPTION_KEYS: `k1=${KEYS.k1},k2=${KEYS.k2}`,
+    ENCRYPTION_ACTIVE_KEY_ID: keyId
+  }));
+}
+
+/**
+ * Run one job batch over the given rows of a table and return what the job wrote
+ */
+async function runBatch(tableName: string, rows: Array<Record<string, unknown>>) {
+  const results: any[] = [];
+  vi.mocked(storage.getRunningEncryptionJob).mockResolvedValue({ id: 1, targetKeyId: 'k2', status: 'running' } as any);
+  vi.mocked(storage.advanceEncryptionJob).mockImplementation(async (jobId, tables, _batchSize, reencryptRow) => {
+    const table = tables.find(entry => entry.name === tableName)!;
+    results.push(...rows.map(row => reencryptRow(table, row)));
+    return { id: jobId, status: 'completed' } as any;
+  });
+
+  await reencryptionService.runPending();
+  return results;
+}
+
+describe('Re-encryption Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    activate('k1');
+  });
+
+  afterEach(() => {
+    encryptionService.setProvider();
+  });
+
+  test('should cover employee fields and every stored credential', () => {
+    const columns = Object.fromEntries(ENCRYPTED_TABLES.map(table => [table.name, table.columns]));
+    expect(columns.employees).toEqual(expect.arrayContaining([
+      'ssn', 'dateOfBirth', 'driversLicenseNumber', 'deaNumber', 'medicaidNumber', 'medicarePtanNumber', 'caqhPassword', 'nppesPassword'
+    ]));
+    expect(columns).toMatchObject({
+      users: ['mfaSecret'],
+      dea_licenses: ['licenseNumber'],
+      emergency_contacts: ['phone'],
+      s3_configuration: ['accessKeyId', 'secretAccessKey'],
+      ses_configurations: ['accessKeyId', 'secretAccessKey'],
+      docuseal_configurations: ['apiKey'],
+      webhook_endpoints: ['secret'],
+      api_keys: ['metadata.signing.secret']
+    });
+  });
+
+  test('should move employee values to the active key and leave current ones alone', async () => {
+    const oldSsn = encryptionService.encrypt('123-45-6789');
+    activate('k2');
+    const currentPassword = encryptionService.encrypt('caqh');
+
+    const [result] = await runBatch('employees', [
+      { id: 7, ssn: oldSsn, caqhPassword: currentPassword, nppesPassword: 'saved-before-encryption' }
+    ]);
+
+    expect(result.reencrypted).toBe(2);
+    expect(result.failed).toBe(0);
+    expect(Object.keys(result.changes).sort()).toEqual(['nppesPassword', 'ssn', 'ssnHash']);
+    expect(encryptionService.getKeyId(result.changes.ssn)).toBe('k2');
+    expect(encryptionService.decrypt(result.changes.ssn)).toBe('123-45-6789');
+    expect(encryptionService.decrypt(result.changes.nppesPassword)).toBe('saved-before-encryption');
+  });
+
+  test('should fill in blind indexes of plain values and keep current ones', async () => {
+    activate('k2');
+    const phoneHash = blindIndex('emergency_contacts', 'phone', '(555) 123-4567');
+
+    const [employee] = await runBatch('employees', [
+      { id: 7, dateOfBirth: '1980-04-02', dateOfBirthHash: null, deaNumber: null }
+    ]);
+    const [contact] = await runBatch('emergency_contacts', [
+      { id: 2, phone: encryptionService.encrypt('555-123-4567'), phoneHash }
+    ]);
+
+    expect(encryptionService.decrypt(employee.changes.dateOfBirth)).toBe('1980-04-02');
+    expect(employee.changes.dateOfBirthHash).toBe(blindIndex('employees', 'dateOfBirth', '19800402'));
+    expect(employee.changes).not.toHaveProperty('deaNumberHash');
+    expect(contact).toMatchObject({ changes: {}, reencrypted: 0 });
+  });
+
+  test('should rewrite nested signing secrets and keep the rest of the JSON', async () => {
+    const secret = encryptionService.encrypt('hrms_sig_abc');
+    activate('k2');
+
+    const [result] = await runBatch('api_keys', [
+      { id: 3, metadata: { signing: { enabled: true, secret, enabledAt: '2025-01-01' }, note: 'x' } },
+      { id: 4, metadata: null }
+    ]);
+
+    expect(result.changes.metadata).toMatchObject({ signing: { enabled: true, enabledAt: '2025-01-01' }, note: 'x' });
+    expect(encryptionService.decrypt(result.changes.metadata.signing.secret)).toBe('hrms_sig_abc');
+  });
+
+  test('should count undecryptable values and keep going', async () => {
+    const tampered = encryptionService.encrypt('secret').slice(0, -4) + 'AAAA';
+    activate('k2');
+
+    const [result] = await runBatch('webhook_endpoints', [{ id: 9, secret: tampered }]);
+
+    expect(result).toMatchObject({ changes: {}, reencrypted: 0, failed: 1 });
+    expect(result.error).toMatch(/^webhook_endpoints\.secret of row 9: /);
+  });
+
+  test('should start one job at a time, targeting the active key', async () => {
+    vi.mocked(storage.getRunningEncryptionJob).mockResolvedValueOnce(undefined);
+    await expect(reencryptionService.start(5)).resolves.toMatchObject({ targetKeyId: 'k1', startedBy: 5 });
+
+    vi.mocked(storage.getRunningEncryptionJob).mockResolvedValueOnce({ id: 1, status: 'running' } as any);
+    await expect(reencryptionService.start(5)).rejects.toMatchObject({ status: 409 });
+  });
+
+  test('should cancel a job whose target key is no longer active', async () => {
+    vi.mocked(storage.getRunningEncryptionJob).mockResolvedValue({ id: 2, targetKeyId: 'k2', status: 'running' } as any);
+
+    await expect(reencryptionService.runPending()).resolves.toMatchObject({ status: 'cancelled' });
+    expect(storage.cancelEncryptionJob).toHaveBeenCalledWith(2);
+    expect(storage.advanceEncryptionJob).not.toHaveBeenCalled();
+  });
+
+  test('should report cancelling a job that is not running', async () => {
+    vi.mocked(storage.cancelEncryptionJob).mockResolvedValueOnce(undefined);
+
+    await expect(reencryptionService.cancel(99)).rejects.toMatchObject({ status: 404 });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * Request Signing Service Unit Tests
+ *
+ * Unit tests for HMAC-signed API key requests including:
+ * - Enabling and disabling signing in key metadata
+ * - Signature verification over method, path, timestamp, nonce and body
+ * - Rejection of stale and replayed requests, with nonces recorded in storage
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+/**
+ * Nonces recorded by the storage mock, keyed by "<keyId>:<nonce>"
+ */
+const claimedNonces = vi.hoisted(() => new Set<string>());
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    updateApiKey: vi.fn(),
+    claimRequestNonce: vi.fn(async (apiKeyId: number, nonce: string) => {
+      const key = `${apiKeyId}:${nonce}`;
+      if (claimedNonces.has(key)) return false;
+      claimedNonces.add(key);
+      return true;
+    }),
+    deleteExpiredRequestNonces: vi.fn(async () => 0)
+  }
+}));
+
+vi.mock('../../server/utils/encryption', () => ({
+  encrypt: vi.fn((value: string) => `enc:${value}`),
+  decrypt: vi.fn((value: string) => value.replace(/^enc:/, ''))
+}));
+
+import {
+  requestSigningService,
+  RequestSigningError,
+  signRequest
+} from '../../server/services/requestSigningService';
+import { storage } from '../../server/storage';
+
+const apiKey = {
+  id: 7,
+  name: 'Payroll',
+  keyPrefix: 'hrms_live_abc123',
+  userId: 1,
+  permissions: ['read:employees'],
+  revokedAt: null,
+  metadata: { description: 'Payroll export' }
+} as any;
+
+const signingKey = {
+  ...apiKey,
+  metadata: {
+    description: 'Payroll export',
+    signing: { enabled: true, secret: 'enc:hrms_sig_secret', enabledAt: '2025-03-01T00:00:00.000Z' }
+  }
+} as any;
+
+let nonceCounter = 0;
+
+/**
+ * Build a correctly signed request for the signing key
+ */
+function signedRequest(overrides: { timestamp?: string; nonce?: string; body?: string } = {}) {
+  const timestamp = overrides.timestamp ?? String(Math.floor(Date.now() / 1000));
+  const nonce = overrides.nonce ?? `nonce-${++nonceCounter}`;
+  const body = overrides.body ?? '{"firstName":"Ana"}';
+  const signature = signRequest('hrms_sig_secret', { method: 'POST', path: '/api/employees?notify=1', timestamp, nonce, body });
+
+  return {
+    method: 'POST',
+    path: '/api/employees?notify=1',
+    headers: {
+      'x-hrms-timestamp': timestamp,
+      'x-hrms-nonce': nonce,
+      'x-hrms-signature': signature
+    } as Record<string, string>,
+    body: Buffer.from(body)
+  };
+}
+
+describe('Request Signing Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    claimedNonces.clear();
+    vi.mocked(storage.updateApiKey).mockImplementation(async (id, updates) => ({ ...apiKey, id, ...updates }));
+  });
+
+  describe('Enabling signing', () => {
+    test('should store an encrypted secret next to existing metadata', async () => {
+      const { secret } = await requestSigningService.enable(apiKey);
+
+      expect(secret).toMatch(/^hrms_sig_[0-9a-f]{48}$/);
+      expect(storage.updateApiKey).toHaveBeenCalledWith(7, {
+        metadata: {
+          description: 'Payroll export',
+          signing: { enabled: true, secret: `enc:${secret}`, enabledAt: expect.any(String) }
+        }
+      });
+    });
+
+    test('should refuse revoked keys', async () => {
+      await expect(requestSigningService.enable({ ...apiKey, revokedAt: new Date() }))
+        .rejects.toBeInstanceOf(RequestSigningError);
+      expect(storage.updateApiKey).not.toHaveBeenCalled();
+    });
+
+    test('should remove the secret when disabled', async () => {
+      await requestSigningService.disable(signingKey);
+
+      expect(storage.updateApiKey).toHaveBeenCalledWith(7, { metadata: { description: 'Payroll export' } });
+      expect(requestSigningService.isEnabled(apiKey)).toBe(false);
+      expect(requestSigningService.isEnabled(signingKey)).toBe(true);
+    });
+  });
+
+  describe('Verifying requests', () => {
+    test('should accept a correctly signed request', async () => {
+      const request = signedRequest();
+
+      await expect(requestSigningService.verify(signingKey, request)).resolves.toBeUndefined();
+      expect(storage.claimRequestNonce).toHaveBeenCalledWith(
+        7,
+        request.headers['x-hrms-nonce'],
+        new Date((Number(request.headers['x-hrms-timestamp']) + 300) * 1000)
+      );
+    });
+
+    test('should not require signatures from keys without signing', async () => {
+      await expect(requestSigningService.verify(apiKey, { method: 'GET', path: '/api/employees', headers: {} })).resolves.toBeUndefined();
+    });
+
+    test('should reject unsigned requests', async () => {
+      await expect(requestSigningService.verify(signingKey, { method: 'GET', path: '/api/employees', headers: {} }))
+        .rejects.toThrow('This API key requires signed requests');
+    });
+
+    test('should reject a tampered body or path without recording its nonce', async () => {
+      const request = signedRequest();
+
+      await expect(requestSigningService.verify(signingKey, { ...request, body: Buffer.from('{"firstName":"Eve"}') }))
+        .rejects.toThrow('Invalid request signature');
+      await expect(requestSigningService.verify(signingKey, { ...request, path: '/api/employees' }))
+        .rejects.toThrow('Invalid request signature');
+      expect(storage.claimRequestNonce).not.toHaveBeenCalled();
+    });
+
+    test('should reject stale timestamps', async () => {
+      const tenMinutesAgo = String(Math.floor(Date.now() / 1000) - 600);
+
+      await expect(requestSigningService.verify(signingKey, signedRequest({ timestamp: tenMinutesAgo })))
+        .rejects.toThrow('Request timestamp is outside the allowed window');
+    });
+
+    test('should reject a replayed request', async () => {
+      const request = signedRequest({ nonce: 'replayed-nonce' });
+
+      await requestSigningService.verify(signingKey, request);
+
+      try {
+        await requestSigningService.verify(signingKey, request);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(RequestSigningError);
+        expect((error as RequestSigningError).status).toBe(401);
+        expect((error as RequestSigningError).message).toBe('Request has already been used');
+      }
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Role Service Unit Tests
+ *
+ * Unit tests for custom roles and the shared permission engine including:
+ * - Built-in and custom role permission resolution
+ * - Session permission checks in requirePermission
+ * - Role key, permission and deletion validation
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getRoles: vi.fn(),
+    getRoleByKey: vi.fn(),
+    createRole: vi.fn(),
+    updateRole: vi.fn(),
+    deleteRole: vi.fn(),
+    countUsersWithRole: vi.fn()
+  }
+}));
+
+import { roleService, RoleValidationError } from '../../server/services/roleService';
+import {
+  requirePermission,
+  resolveRolePermissions,
+  clearRolePermissionCache
+} from '../../server/middleware/apiKeyAuth';
+import { storage } from '../../server/storage';
+
+const credentialingRole = {
+  id: 1,
+  key: 'credentialing',
+  name: 'Credentialing Specialist',
+  description: null,
+  permissions: ['read:licenses', 'write:payer_enrollments'],
+  createdBy: 1,
+  createdAt: new Date(),
+  updatedAt: new Date()
+};
+
+/**
+ * Run requirePermission for a session user and capture the outcome
+ */
+async function checkSession(role: string, permission: string | string[]) {
+  const req: any = { user: { id: 5, role } };
+  const res: any = { status: vi.fn().mockReturnThis(), json: vi.fn() };
+  const next = vi.fn();
+
+  await requirePermission(permission)(req, res, next);
+
+  return { allowed: next.mock.calls.length === 1, res, req };
+}
+
+describe('Role Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    clearRolePermissionCache();
+  });
+
+  describe('Permission resolution', () => {
+    test('should resolve built-in roles without storage', async () => {
+      expect(await resolveRolePermissions('admin')).toEqual(['*']);
+      expect(await resolveRolePermissions('viewer')).toContain('read:employees');
+      expect(storage.getRoleByKey).not.toHaveBeenCalled();
+    });
+
+    test('should cache custom role permissions until cleared', async () => {
+      vi.mocked(storage.getRoleByKey).mockResolvedValue(credentialingRole as any);
+
+      await resolveRolePermissions('credentialing');
+      expect(await resolveRolePermissions('credentialing')).toEqual(credentialingRole.permissions);
+      expect(storage.getRoleByKey).toHaveBeenCalledTimes(1);
+
+      clearRolePermissionCache();
+      await resolveRolePermissions('credentialing');
+      expect(storage.getRoleByKey).toHaveBeenCalledTimes(2);
+    });
+
+    test('should grant nothing to unknown roles', async () => {
+      vi.mocked(storage.getRoleByKey).mockResolvedValue(undefined);
+
+      expect(await resolveRolePermissions('deleted_role')).toEqual([]);
+    });
+  });
+
+  describe('Session permission checks', () => {
+    test('should deny viewers write access', async () => {
+      const { allowed, res } = await checkSession('viewer', 'write:employees');
+
+      expect(allowed).toBe(false);
+      expect(res.status).toHaveBeenCalledWith(403);
+    });
+
+    test('should keep SSNs and user management away from HR', async () => {
+      expect((await checkSession('hr', 'write:employees')).allowed).toBe(true);
+      expect((await checkSession('hr', 'read:ssn')).allowed).toBe(true);
+      expect((await checkSession('hr', 'manage:roles')).allowed).toBe(false);
+    });
+
+    test('should enforce custom role permissions and accept any listed permission', async () => {
+      vi.mocked(storage.getRoleByKey).mockResolvedValue(credentialingRole as any);
+
+      expect((await checkSession('credentialing', 'read:licenses')).allowed).toBe(true);
+      expect((await checkSession('credentialing', 'read:ssn')).allowed).toBe(false);
+      expect((await checkSession('credentialing', ['write:employees', 'write:payer_enrollments'])).allowed).toBe(true);
+    });
+  });
+
+  describe('Role management', () => {
+    test('should list built-in roles before custom roles', async () => {
+      vi.mocked(storage.getRoles).mockResolvedValue([credentialingRole] as any);
+      vi.mocked(storage.countUsersWithRole).mockResolvedValue(2);
+
+      const roles = await roleService.listRoles();
+
+      expect(roles[0]).toMatchObject({ key: 'admin', builtIn: true, id: null });
+      expect(roles[roles.length - 1]).toMatchObject({ key: 'credentialing', builtIn: false, userCount: 2 });
+    });
+
+    test('should reject keys that clash with built-in or existing roles', async () => {
+      await expect(roleService.createRole({ key: 'admin', name: 'Admin', permissions: [] }))
+        .rejects.toMatchObject({ status: 409 });
+
+      vi.mocked(storage.getRoleByKey).mockResolvedValue(credentialingRole as any);
+      await expect(roleService.createRole({ key: 'credentialing', name: 'Copy', permissions: [] }))
+        .rejects.toBeInstanceOf(RoleValidationError);
+      expect(storage.createRole).not.toHaveBeenCalled();
+    });
+
+    test('should reject unknown permissions and dedupe the rest', async () => {
+      vi.mocked(storage.getRoleByKey).mockResolvedValue(undefined);
+
+      await expect(roleService.createRole({ key: 'auditor', name: 'Auditor', permissions: ['read:everything'] }))
+        .rejects.toThrow('Unknown permissions: read:everything');
+
+      await roleService.createRole({ key: 'auditor', name: 'Auditor', permissions: ['read:reports', 'read:reports'] });
+      expect(storage.createRole).toHaveBeenCalledWith(expect.objectContaining({ permissions: ['read:reports'] }));
+    });
+
+    test('should never change a role key on update', async () => {
+      vi.mocked(storage.updateRole).mockResolvedValue(credentialingRole as any);
+
+      await roleService.updateRole(1, { key: 'renamed', name: 'Credentialing' });
+
+      expect(storage.updateRole).toHaveBeenCalledWith(1, { name: 'Credentialing' });
+    });
+
+    test('should refuse to delete roles that are still assigned', async () => {
+      vi.mocked(storage.countUsersWithRole).mockResolvedValue(3);
+
+      await expect(roleService.deleteRole(credentialingRole as any)).rejects.toMatchObject({ status: 409 });
+      expect(storage.deleteRole).not.toHaveBeenCalled();
+
+      vi.mocked(storage.countUsersWithRole).mockResolvedValue(0);
+      await roleService.deleteRole(credentialingRole as any);
+      expect(storage.deleteRole).toHaveBeenCalledWith(1);
+    });
+  });
+});
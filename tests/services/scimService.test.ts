@@ -0,0 +1,221 @@
+/**
+ * SCIM Service Unit Tests
+ *
+ * Unit tests for SCIM 2.0 provisioning including:
+ * - Filter parsing and user lookups
+ * - Provisioning with uniqueness checks
+ * - PATCH operations, including deactivation and reactivation
+ * - Group (role) membership changes
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUser: vi.fn(),
+    getUserByUsername: vi.fn(),
+    getUserByEmail: vi.fn(),
+    getUserByScimExternalId: vi.fn(),
+    getUsersByRole: vi.fn(),
+    createUser: vi.fn(),
+    updateUser: vi.fn(),
+    updateUserStatus: vi.fn(),
+    revokeUserApiKeys: vi.fn(),
+    createAudit: vi.fn()
+  }
+}));
+
+vi.mock('../../server/auth', () => ({
+  hashPassword: vi.fn().mockResolvedValue('hashed.salt')
+}));
+
+vi.mock('../../server/services/sessionService', () => ({
+  sessionService: { revokeAll: vi.fn().mockResolvedValue(2) }
+}));
+
+vi.mock('../../server/services/roleService', () => ({
+  roleService: {
+    listRoles: vi.fn().mockResolvedValue([
+      { id: null, key: 'admin', name: 'Administrator', builtIn: true },
+      { id: null, key: 'hr', name: 'HR Staff', builtIn: true },
+      { id: null, key: 'viewer', name: 'Viewer', builtIn: true }
+    ])
+  }
+}));
+
+import { scimService, parseScimFilter, ScimError } from '../../server/services/scimService';
+import { storage } from '../../server/storage';
+import { sessionService } from '../../server/services/sessionService';
+
+const baseUrl = 'https://hr.example.com/scim/v2';
+
+const jane = {
+  id: 12,
+  username: 'jane.doe',
+  email: 'jane@example.com',
+  role: 'hr',
+  status: 'active',
+  scimExternalId: 'dir-12',
+  createdAt: new Date('2025-01-20T10:00:00Z')
+} as any;
+
+describe('SCIM Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Filters and lookups', () => {
+    test('should parse equality filters and reject others', () => {
+      expect(parseScimFilter('userName eq "jane.doe"')).toEqual({ attribute: 'username', value: 'jane.doe' });
+      expect(parseScimFilter(undefined)).toBeUndefined();
+      expect(() => parseScimFilter('userName sw "j"')).toThrow(ScimError);
+    });
+
+    test('should find users by userName and return SCIM resources', async () => {
+      vi.mocked(storage.getUserByUsername).mockResolvedValue(jane);
+
+      const result = await scimService.listUsers({ filter: 'userName eq "jane.doe"' }, baseUrl);
+
+      expect(result.totalResults).toBe(1);
+      expect(result.Resources[0]).toMatchObject({
+        id: '12',
+        userName: 'jane.doe',
+        externalId: 'dir-12',
+        active: true,
+        emails: [{ value: 'jane@example.com', primary: true }],
+        meta: { location: `${baseUrl}/Users/12` }
+      });
+    });
+
+    test('should return 404 for unknown ids', async () => {
+      vi.mocked(storage.getUser).mockResolvedValue(undefined);
+
+      await expect(scimService.getUser('99')).rejects.toMatchObject({ status: 404 });
+      await expect(scimService.getUser('abc')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  describe('Provisioning', () => {
+    test('should create active users with an unusable password', async () => {
+      vi.mocked(storage.getUserByUsername).mockResolvedValue(undefined);
+      vi.mocked(storage.getUserByEmail).mockResolvedValue(undefined);
+      vi.mocked(storage.getUserByScimExternalId).mockResolvedValue(undefined);
+      vi.mocked(storage.createUser).mockResolvedValue(jane);
+
+      await scimService.createUser({
+        userName: 'jane.doe',
+        externalId: 'dir-12',
+        emails: [{ value: 'Jane@Example.com', primary: true }]
+      }, 1);
+
+      expect(storage.createUser).toHaveBeenCalledWith({
+        username: 'jane.doe',
+        passwordHash: 'hashed.salt',
+        email: 'jane@example.com',
+        status: 'active',
+        scimExternalId: 'dir-12'
+      });
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({ action: 'SCIM_CREATE', changedBy: 1 }));
+    });
+
+    test('should report duplicate userNames as uniqueness conflicts', async () => {
+      vi.mocked(storage.getUserByUsername).mockResolvedValue(jane);
+
+      await expect(scimService.createUser({ userName: 'jane.doe' }, 1))
+        .rejects.toMatchObject({ status: 409, scimType: 'uniqueness' });
+      expect(storage.createUser).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Deactivation', () => {
+    test('should disable the user, revoke API keys and sign out on active=false', async () => {
+      vi.mocked(storage.getUser).mockResolvedValue(jane);
+      vi.mocked(storage.updateUserStatus).mockResolvedValue({ ...jane, status: 'disabled' });
+      vi.mocked(storage.revokeUserApiKeys).mockResolvedValue(3);
+
+      const updated = await scimService.patchUser('12', {
+        Operations: [{ op: 'Replace', path: 'active', value: 'False' }]
+      }, 1);
+
+      expect(updated.status).toBe('disabled');
+      expect(storage.updateUserStatus).toHaveBeenCalledWith(12, 'disabled');
+      expect(storage.revokeUserApiKeys).toHaveBeenCalledWith(12);
+      expect(sessionService.revokeAll).toHaveBeenCalledWith(12);
+      expect(storage.createAudit).toHaveBeenCalledWith(expect.objectContaining({
+        action: 'SCIM_DEACTIVATE',
+        newData: { status: 'disabled', revokedApiKeys: 3, revokedSessions: 2 }
+      }));
+    });
+
+    test('should only reactivate users that SCIM disabled', async () => {
+      vi.mocked(storage.getUser).mockResolvedValue({ ...jane, status: 'suspended' });
+      await scimService.patchUser('12', { Operations: [{ op: 'replace', value: { active: true } }] }, 1);
+      expect(storage.updateUserStatus).not.toHaveBeenCalled();
+
+      vi.mocked(storage.getUser).mockResolvedValue({ ...jane, status: 'disabled' });
+      vi.mocked(storage.updateUserStatus).mockResolvedValue(jane);
+      await scimService.patchUser('12', { Operations: [{ op: 'replace', value: { active: true } }] }, 1);
+      expect(storage.updateUserStatus).toHaveBeenCalledWith(12, 'active');
+    });
+
+    test('should refuse to change or deactivate administrators', async () => {
+      const admin = { ...jane, role: 'admin' };
+      vi.mocked(storage.getUser).mockResolvedValue(admin);
+
+      await expect(scimService.patchUser('12', {
+        Operations: [{ op: 'replace', path: 'active', value: false }]
+      }, 1)).rejects.toMatchObject({ status: 403 });
+      await expect(scimService.replaceUser('12', { userName: 'taken.over' }, 1)).rejects.toMatchObject({ status: 403 });
+      await expect(scimService.deactivateUser(admin, 1)).rejects.toBeInstanceOf(ScimError);
+
+      expect(storage.updateUser).not.toHaveBeenCalled();
+      expect(storage.updateUserStatus).not.toHaveBeenCalled();
+      expect(sessionService.revokeAll).not.toHaveBeenCalled();
+    });
+
+    test('should update email through filtered paths and ignore unstored attributes', async () => {
+      vi.mocked(storage.getUser).mockResolvedValue(jane);
+      vi.mocked(storage.updateUser).mockResolvedValue({ ...jane, email: 'jane.doe@example.com' });
+
+      await scimService.patchUser('12', {
+        Operations: [
+          { op: 'replace', path: 'emails[type eq "work"].value', value: 'jane.doe@example.com' },
+          { op: 'replace', path: 'name.familyName', value: 'Doe' }
+        ]
+      }, 1);
+
+      expect(storage.updateUser).toHaveBeenCalledWith(12, { email: 'jane.doe@example.com' });
+    });
+  });
+
+  describe('Groups', () => {
+    test('should move added members into the role and removed members to viewer', async () => {
+      vi.mocked(storage.getUser)
+        .mockResolvedValueOnce({ ...jane, id: 12, role: 'hr' })
+        .mockResolvedValueOnce({ ...jane, id: 13, role: 'viewer' });
+
+      await scimService.patchGroup('hr', {
+        Operations: [
+          { op: 'remove', path: 'members[value eq "12"]' },
+          { op: 'add', path: 'members', value: [{ value: '13' }] }
+        ]
+      }, 1);
+
+      expect(storage.updateUser).toHaveBeenCalledWith(12, { role: 'viewer' });
+      expect(storage.updateUser).toHaveBeenCalledWith(13, { role: 'hr' });
+    });
+
+    test('should never manage administrator access', async () => {
+      await expect(scimService.patchGroup('admin', {
+        Operations: [{ op: 'add', path: 'members', value: [{ value: '12' }] }]
+      }, 1)).rejects.toMatchObject({ status: 403 });
+
+      vi.mocked(storage.getUser).mockResolvedValue({ ...jane, role: 'admin' });
+      await expect(scimService.patchGroup('viewer', {
+        Operations: [{ op: 'add', path: 'members', value: [{ value: '12' }] }]
+      }, 1)).rejects.toMatchObject({ status: 403 });
+      expect(storage.updateUser).not.toHaveBeenCalled();
+    });
+  });
+});
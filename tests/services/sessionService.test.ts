@@ -0,0 +1,114 @@
+/**
+ * Session Service Unit Tests
+ *
+ * Unit tests for active session management including:
+ * - User-Agent to device label conversion
+ * - Opaque session identifiers and ordering
+ * - Revoking one or all sessions
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getUserSessions: vi.fn(),
+    deleteUserSessions: vi.fn()
+  }
+}));
+
+import { sessionService, describeUserAgent } from '../../server/services/sessionService';
+import { storage } from '../../server/storage';
+
+const CHROME_WINDOWS = 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const SAFARI_IPHONE = 'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+/**
+ * Build a session row as stored by connect-pg-simple
+ */
+function sessionRow(sid: string, lastActiveAt: string, userAgent = CHROME_WINDOWS) {
+  return {
+    sid,
+    sess: {
+      passport: { user: 5 },
+      device: { userAgent, ipAddress: '203.0.113.10', createdAt: '2025-01-20T09:00:00.000Z', lastActiveAt }
+    },
+    expire: new Date('2025-01-21T10:00:00.000Z')
+  };
+}
+
+describe('Session Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('Device descriptions', () => {
+    test('should describe common browsers and platforms', () => {
+      expect(describeUserAgent(CHROME_WINDOWS)).toBe('Chrome on Windows');
+      expect(describeUserAgent(SAFARI_IPHONE)).toBe('Safari on iOS');
+      expect(describeUserAgent('Mozilla/5.0 (X11; Linux x86_64; rv:121.0) Gecko/20100101 Firefox/121.0')).toBe('Firefox on Linux');
+    });
+
+    test('should fall back to the product token for other clients', () => {
+      expect(describeUserAgent('curl/8.4.0')).toBe('curl');
+      expect(describeUserAgent(undefined)).toBe('Unknown device');
+    });
+  });
+
+  describe('Listing sessions', () => {
+    test('should hide raw session IDs and flag the current session first', async () => {
+      vi.mocked(storage.getUserSessions).mockResolvedValue([
+        sessionRow('sid-old', '2025-01-20T10:00:00.000Z'),
+        sessionRow('sid-new', '2025-01-20T12:00:00.000Z', SAFARI_IPHONE),
+        sessionRow('sid-current', '2025-01-20T11:00:00.000Z')
+      ] as any);
+
+      const sessions = await sessionService.listForUser(5, 'sid-current');
+
+      expect(sessions.map(s => s.id)).toEqual([
+        sessionService.getPublicId('sid-current'),
+        sessionService.getPublicId('sid-new'),
+        sessionService.getPublicId('sid-old')
+      ]);
+      expect(sessions[0].current).toBe(true);
+      expect(sessions[1]).toMatchObject({ device: 'Safari on iOS', ipAddress: '203.0.113.10', current: false });
+      expect(JSON.stringify(sessions)).not.toContain('sid-');
+    });
+
+    test('should tolerate sessions without device metadata', async () => {
+      vi.mocked(storage.getUserSessions).mockResolvedValue([
+        { sid: 'sid-1', sess: { passport: { user: 5 } }, expire: new Date() }
+      ] as any);
+
+      const [session] = await sessionService.listForUser(5);
+
+      expect(session).toMatchObject({ device: 'Unknown device', ipAddress: null, lastActiveAt: null });
+    });
+  });
+
+  describe('Revoking sessions', () => {
+    test('should revoke a session by its public ID', async () => {
+      vi.mocked(storage.getUserSessions).mockResolvedValue([sessionRow('sid-1', '2025-01-20T10:00:00.000Z')] as any);
+      vi.mocked(storage.deleteUserSessions).mockResolvedValue(1);
+
+      const revoked = await sessionService.revoke(5, sessionService.getPublicId('sid-1'));
+
+      expect(revoked).toBe(true);
+      expect(storage.deleteUserSessions).toHaveBeenCalledWith(5, { sids: ['sid-1'] });
+    });
+
+    test('should not revoke unknown sessions', async () => {
+      vi.mocked(storage.getUserSessions).mockResolvedValue([sessionRow('sid-1', '2025-01-20T10:00:00.000Z')] as any);
+
+      expect(await sessionService.revoke(5, 'not-a-session')).toBe(false);
+      expect(storage.deleteUserSessions).not.toHaveBeenCalled();
+    });
+
+    test('should keep the given session when revoking all', async () => {
+      vi.mocked(storage.deleteUserSessions).mockResolvedValue(3);
+
+      expect(await sessionService.revokeAll(5, 'sid-current')).toBe(3);
+      expect(storage.deleteUserSessions).toHaveBeenCalledWith(5, { exceptSid: 'sid-current' });
+    });
+  });
+});
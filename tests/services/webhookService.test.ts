@@ -0,0 +1,319 @@
+/**
+ * Webhook Service Unit Tests
+ *
+ * Unit tests for outbound webhooks including:
+ * - Endpoint validation, public-address checks and one-time secrets
+ * - Event fan-out to subscribed endpoints
+ * - HMAC signatures on deliveries
+ * - Retry backoff, dead-lettering and redelivery
+ */
+
+import { describe, test, expect, beforeEach, vi } from 'vitest';
+import crypto from 'crypto';
+import type { LookupAddress, LookupAllOptions } from 'dns';
+import type { WebhookDelivery, WebhookEndpoint } from '@shared/schema';
+
+const lookupMock = vi.hoisted(() => vi.fn<(hostname: string, options: LookupAllOptions) => Promise<LookupAddress[]>>());
+const fetchMock = vi.hoisted(() => vi.fn());
+
+// Mock storage module
+vi.mock('../../server/storage', () => ({
+  storage: {
+    getWebhookEndpoints: vi.fn(),
+    getWebhookEndpoint: vi.fn(),
+    getWebhookEndpointsForEvent: vi.fn(),
+    createWebhookEndpoint: vi.fn(),
+    updateWebhookEndpoint: vi.fn(),
+    deleteWebhookEndpoint: vi.fn(),
+    createWebhookDelivery: vi.fn(),
+    getWebhookDelivery: vi.fn(),
+    updateWebhookDelivery: vi.fn(),
+    getDueWebhookDeliveries: vi.fn(),
+    getWebhookDeliveryCounts: vi.fn()
+  }
+}));
+
+// Mock DNS so endpoint hosts resolve without a network
+vi.mock('dns', () => ({
+  default: {
+    lookup: (hostname: string, options: LookupAllOptions, callback: (err: Error | null, addresses?: LookupAddress[]) => void) => {
+      lookupMock(hostname, options).then(addresses => callback(null, addresses), callback);
+    },
+    promises: { lookup: lookupMock }
+  }
+}));
+
+// Mock undici so deliveries are not sent
+vi.mock('undici', () => ({
+  Agent: vi.fn(),
+  fetch: fetchMock
+}));
+
+vi.mock('../../server/utils/encryption', () => ({
+  encrypt: vi.fn((value: string) => `enc:${value}`),
+  decrypt: vi.fn((value: string) => value.replace(/^enc:/, ''))
+}));
+
+import {
+  webhookService,
+  WebhookError,
+  signWebhookPayload,
+  lookupPublicAddress,
+  WEBHOOK_MAX_ATTEMPTS
+} from '../../server/services/webhookService';
+import { storage } from '../../server/storage';
+
+const endpoint: WebhookEndpoint = {
+  id: 2,
+  name: 'Payroll sync',
+  url: 'https://payroll.example.com/hooks',
+  description: null,
+  events: ['employee.approved'],
+  secret: 'enc:whsec_test',
+  active: true,
+  createdBy: 1,
+  createdAt: new Date('2025-02-01T10:00:00Z'),
+  updatedAt: new Date('2025-02-01T10:00:00Z')
+};
+
+const delivery: WebhookDelivery = {
+  id: 40,
+  endpointId: 2,
+  eventId: 'evt_1',
+  eventType: 'employee.approved',
+  payload: { id: 'evt_1', type: 'employee.approved', createdAt: '2025-02-01T10:00:00.000Z', data: { employeeId: 5 } },
+  status: 'pending',
+  attempts: 0,
+  nextAttemptAt: new Date(),
+  lastAttemptAt: null,
+  responseStatus: null,
+  responseBody: null,
+  error: null,
+  deliveredAt: null,
+  createdAt: new Date()
+};
+
+describe('Webhook Service Unit Tests', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    lookupMock.mockResolvedValue([{ address: '93.184.216.34', family: 4 }]);
+    vi.mocked(storage.getWebhookEndpoint).mockResolvedValue(endpoint);
+    vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([]);
+    vi.mocked(storage.updateWebhookDelivery).mockImplementation(async (id, updates) => ({ ...delivery, id, ...updates }));
+  });
+
+  describe('Endpoints', () => {
+    test('should store an encrypted secret and return it once', async () => {
+      vi.mocked(storage.createWebhookEndpoint).mockImplementation(async (values) => ({ ...endpoint, ...values }));
+
+      const { secret } = await webhookService.createEndpoint({
+        name: 'Payroll sync',
+        url: 'https://payroll.example.com/hooks',
+        events: ['employee.approved', 'employee.approved']
+      }, 1);
+
+      expect(secret).toMatch(/^whsec_[0-9a-f]{48}$/);
+      expect(storage.createWebhookEndpoint).toHaveBeenCalledWith(expect.objectContaining({
+        secret: `enc:${secret}`,
+        events: ['employee.approved'],
+        createdBy: 1
+      }));
+    });
+
+    test('should reject plain HTTP in production and unknown events', async () => {
+      const env = process.env.NODE_ENV;
+      process.env.NODE_ENV = 'production';
+      try {
+        await expect(webhookService.createEndpoint({ name: 'A', url: 'http://payroll.example.com', events: ['employee.approved'] }, 1))
+          .rejects.toThrow('Webhook URLs must use HTTPS');
+      } finally {
+        process.env.NODE_ENV = env;
+      }
+
+      await expect(webhookService.createEndpoint({ name: 'A', url: 'https://payroll.example.com', events: ['employee.fired'] }, 1))
+        .rejects.toBeInstanceOf(WebhookError);
+      expect(storage.createWebhookEndpoint).not.toHaveBeenCalled();
+    });
+
+    test('should reject hosts that resolve to private, loopback or link-local addresses', async () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '169.254.169.254', '::1', '::ffff:192.168.0.5', 'fe80::1']) {
+        lookupMock.mockResolvedValue([
+          { address: '93.184.216.34', family: 4 },
+          { address, family: address.includes(':') ? 6 : 4 }
+        ]);
+        await expect(webhookService.createEndpoint({ name: 'A', url: 'https://payroll.example.com', events: ['employee.approved'] }, 1))
+          .rejects.toThrow('Webhook URLs must point to a public address');
+      }
+
+      lookupMock.mockRejectedValue(new Error('ENOTFOUND'));
+      await expect(webhookService.updateEndpoint(2, { url: 'https://nowhere.invalid' }))
+        .rejects.toThrow('Could not resolve nowhere.invalid');
+      expect(storage.createWebhookEndpoint).not.toHaveBeenCalled();
+      expect(storage.updateWebhookEndpoint).not.toHaveBeenCalled();
+    });
+
+    test('should not expose the secret in summaries', async () => {
+      vi.mocked(storage.getWebhookEndpoints).mockResolvedValue([endpoint]);
+      vi.mocked(storage.getWebhookDeliveryCounts).mockResolvedValue([
+        { endpointId: 2, status: 'succeeded', count: 3 },
+        { endpointId: 9, status: 'dead', count: 1 }
+      ]);
+
+      const [summary] = await webhookService.listEndpoints();
+
+      expect(summary).not.toHaveProperty('secret');
+      expect(summary.deliveryCounts).toEqual({ succeeded: 3 });
+    });
+  });
+
+  describe('Emitting events', () => {
+    test('should queue one delivery per subscribed endpoint', async () => {
+      vi.mocked(storage.getWebhookEndpointsForEvent).mockResolvedValue([endpoint, { ...endpoint, id: 3 }]);
+      vi.mocked(storage.createWebhookDelivery).mockResolvedValue(delivery);
+
+      const queued = await webhookService.emit('employee.approved', { employeeId: 5 });
+
+      expect(queued).toBe(2);
+      const calls = vi.mocked(storage.createWebhookDelivery).mock.calls.map(([values]) => values);
+      expect(calls.map(values => values.endpointId)).toEqual([2, 3]);
+      expect(calls[0].eventId).toBe(calls[1].eventId);
+      expect(calls[0].payload).toMatchObject({ type: 'employee.approved', data: { employeeId: 5 } });
+    });
+
+    test('should never throw when queueing fails', async () => {
+      vi.mocked(storage.getWebhookEndpointsForEvent).mockRejectedValue(new Error('connection lost'));
+
+      await expect(webhookService.emit('license.expired', { licenseId: 1 })).resolves.toBe(0);
+    });
+  });
+
+  describe('Delivery', () => {
+    test('should sign the timestamp and body with the endpoint secret', async () => {
+      vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([delivery]);
+      fetchMock.mockResolvedValue(new Response('ok', { status: 200 }));
+
+      await webhookService.processDue();
+
+      const [url, init] = fetchMock.mock.calls[0];
+      const headers = init.headers as Record<string, string>;
+      const expected = crypto.createHmac('sha256', 'whsec_test')
+        .update(`${headers['X-Webhook-Timestamp']}.${init.body}`)
+        .digest('hex');
+
+      expect(url).toBe('https://payroll.example.com/hooks');
+      expect(headers['X-Webhook-Signature']).toBe(`sha256=${expected}`);
+      expect(headers['X-Webhook-Event']).toBe('employee.approved');
+      expect(signWebhookPayload('whsec_test', headers['X-Webhook-Timestamp'], init.body)).toBe(`sha256=${expected}`);
+      expect(storage.updateWebhookDelivery).toHaveBeenCalledWith(40, expect.objectContaining({
+        status: 'succeeded',
+        attempts: 1,
+        responseStatus: 200,
+        deliveredAt: expect.any(Date)
+      }));
+    });
+
+    test('should schedule a retry with backoff after a failure', async () => {
+      vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([{ ...delivery, attempts: 1 }]);
+      fetchMock.mockResolvedValue(new Response('unavailable', { status: 503 }));
+
+      const before = Date.now();
+      await webhookService.processDue();
+
+      const [, updates] = vi.mocked(storage.updateWebhookDelivery).mock.calls[0];
+      expect(updates).toMatchObject({ status: 'retrying', attempts: 2, responseStatus: 503 });
+      expect(updates.nextAttemptAt!.getTime()).toBeGreaterThanOrEqual(before + 5 * 60 * 1000);
+    });
+
+    test('should dead-letter after the last attempt', async () => {
+      vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([{ ...delivery, status: 'retrying', attempts: WEBHOOK_MAX_ATTEMPTS - 1 }]);
+      fetchMock.mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await webhookService.processDue();
+
+      expect(storage.updateWebhookDelivery).toHaveBeenCalledWith(40, expect.objectContaining({
+        status: 'dead',
+        attempts: WEBHOOK_MAX_ATTEMPTS,
+        nextAttemptAt: null,
+        error: 'ECONNREFUSED'
+      }));
+    });
+
+    test('should not send when the host has since moved to a private address', async () => {
+      vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([delivery]);
+      lookupMock.mockResolvedValue([{ address: '169.254.169.254', family: 4 }]);
+
+      await webhookService.processDue();
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(storage.updateWebhookDelivery).toHaveBeenCalledWith(40, expect.objectContaining({
+        status: 'retrying',
+        responseBody: null,
+        error: 'Webhook URLs must point to a public address'
+      }));
+    });
+
+    test('should refuse to connect when the host resolves to a private address', async () => {
+      vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([delivery]);
+      fetchMock.mockRejectedValue(new TypeError('fetch failed', {
+        cause: new WebhookError('Webhook URLs must point to a public address')
+      }));
+
+      await webhookService.processDue();
+
+      expect(fetchMock.mock.calls[0][1].dispatcher).toBeDefined();
+      expect(storage.updateWebhookDelivery).toHaveBeenCalledWith(40, expect.objectContaining({
+        status: 'retrying',
+        error: 'Webhook URLs must point to a public address'
+      }));
+    });
+
+    test('should hold deliveries for paused endpoints', async () => {
+      vi.mocked(storage.getDueWebhookDeliveries).mockResolvedValue([delivery]);
+      vi.mocked(storage.getWebhookEndpoint).mockResolvedValue({ ...endpoint, active: false });
+
+      await webhookService.processDue();
+
+      expect(fetchMock).not.toHaveBeenCalled();
+      expect(storage.updateWebhookDelivery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Connection lookup', () => {
+    const lookup = (options: { all?: boolean }) => new Promise<{ err: Error | null; address: unknown; family?: number }>(resolve => {
+      lookupPublicAddress('payroll.example.com', options, (err, address, family) => resolve({ err, address, family }));
+    });
+
+    test('should resolve public hosts', async () => {
+      expect(await lookup({})).toEqual({ err: null, address: '93.184.216.34', family: 4 });
+      expect(await lookup({ all: true })).toEqual({ err: null, address: [{ address: '93.184.216.34', family: 4 }], family: undefined });
+    });
+
+    test('should refuse hosts that resolve to a blocked address', async () => {
+      lookupMock.mockResolvedValue([
+        { address: '93.184.216.34', family: 4 },
+        { address: '10.0.0.5', family: 4 }
+      ]);
+
+      const { err } = await lookup({});
+
+      expect(err).toBeInstanceOf(WebhookError);
+      expect(err!.message).toBe('Webhook URLs must point to a public address');
+    });
+  });
+
+  describe('Redelivery', () => {
+    test('should requeue dead-lettered deliveries only', async () => {
+      vi.mocked(storage.getWebhookDelivery).mockResolvedValue({ ...delivery, status: 'succeeded' });
+      await expect(webhookService.redeliver(40)).rejects.toThrow('Only failed deliveries can be redelivered');
+
+      vi.mocked(storage.getWebhookDelivery).mockResolvedValue({ ...delivery, status: 'dead', attempts: WEBHOOK_MAX_ATTEMPTS });
+      await webhookService.redeliver(40);
+
+      expect(storage.updateWebhookDelivery).toHaveBeenCalledWith(40, {
+        status: 'pending',
+        attempts: 0,
+        nextAttemptAt: expect.any(Date)
+      });
+    });
+  });
+});
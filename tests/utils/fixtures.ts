@@ -0,0 +1,94 @@
+/**
+ * Test Fixtures
+ * 
+ * Complete, typed records for unit tests that mock storage, so fixtures
+ * only spell out the fields a test cares about.
+ */
+
+import type { Employee } from '@shared/schema';
+
+/**
+ * Build an employee row with every optional column empty
+ */
+export function buildEmployee(overrides: Partial<Employee> = {}): Employee {
+  return {
+    id: 1,
+    firstName: 'Test',
+    lastName: 'Employee',
+    workEmail: 'test.employee@test.com',
+    status: 'active',
+    middleName: null,
+    dateOfBirth: null,
+    personalEmail: null,
+    cellPhone: null,
+    workPhone: null,
+    homeAddress1: null,
+    homeAddress2: null,
+    homeCity: null,
+    homeState: null,
+    homeZip: null,
+    gender: null,
+    birthCity: null,
+    birthState: null,
+    birthCountry: null,
+    driversLicenseNumber: null,
+    dlStateIssued: null,
+    dlIssueDate: null,
+    dlExpirationDate: null,
+    ssn: null,
+    npiNumber: null,
+    enumerationDate: null,
+    jobTitle: null,
+    workLocation: null,
+    qualification: null,
+    departments: null,
+    hasEmploymentGap: null,
+    employmentGap: null,
+    medicalLicenseNumber: null,
+    substanceUseLicenseNumber: null,
+    substanceUseQualification: null,
+    mentalHealthLicenseNumber: null,
+    mentalHealthQualification: null,
+    medicalLicenseState: null,
+    medicalLicenseIssueDate: null,
+    medicalLicenseExpirationDate: null,
+    medicalLicenseStatus: null,
+    substanceUseLicenseState: null,
+    substanceUseLicenseIssueDate: null,
+    substanceUseLicenseExpirationDate: null,
+    substanceUseLicenseStatus: null,
+    mentalHealthLicenseState: null,
+    mentalHealthLicenseIssueDate: null,
+    mentalHealthLicenseExpirationDate: null,
+    mentalHealthLicenseStatus: null,
+    deaNumber: null,
+    medicalQualification: null,
+    medicaidNumber: null,
+    medicarePtanNumber: null,
+    caqhProviderId: null,
+    caqhIssueDate: null,
+    caqhLastAttestationDate: null,
+    caqhEnabled: null,
+    caqhReattestationDueDate: null,
+    caqhLoginId: null,
+    caqhPassword: null,
+    nppesLoginId: null,
+    nppesPassword: null,
+    applicationStatus: null,
+    onboardingStatus: null,
+    invitationId: null,
+    userId: null,
+    onboardingCompletedAt: null,
+    approvedAt: null,
+    approvedBy: null,
+    ssnHash: null,
+    dateOfBirthHash: null,
+    driversLicenseNumberHash: null,
+    deaNumberHash: null,
+    medicaidNumberHash: null,
+    medicarePtanNumberHash: null,
+    createdAt: null,
+    updatedAt: null,
+    ...overrides
+  };
+}
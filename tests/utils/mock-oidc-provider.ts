@@ -0,0 +1,169 @@
+/**
+ * Mock OpenID Connect Provider
+ *
+ * Minimal in-process identity provider for testing the SSO flow end to end.
+ * Serves discovery, JWKS, authorize and token endpoints and signs RS256 ID
+ * tokens for whatever identity the test sets before signing in.
+ */
+
+import express from 'express';
+import crypto from 'crypto';
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import type request from 'supertest';
+
+export interface MockIdentity {
+  sub: string;
+  email?: string;
+  email_verified?: boolean;
+  preferred_username?: string;
+  groups?: string[];
+}
+
+export interface MockOidcProvider {
+  issuer: string;
+  clientId: string;
+  clientSecret: string;
+  /** Identity returned on the next authorization */
+  setIdentity(identity: MockIdentity): void;
+  close(): Promise<void>;
+}
+
+interface PendingCode {
+  identity: MockIdentity;
+  nonce?: string;
+  codeChallenge?: string;
+  redirectUri: string;
+}
+
+/**
+ * Base64url-encode a buffer or string
+ */
+function base64url(input: Buffer | string): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+/**
+ * Start the mock provider on a random local port
+ */
+export async function startMockOidcProvider(): Promise<MockOidcProvider> {
+  const clientId = 'test-client';
+  const clientSecret = 'test-client-secret';
+  const kid = 'test-key';
+  const { privateKey, publicKey } = crypto.generateKeyPairSync('rsa', { modulusLength: 2048 });
+  const codes = new Map<string, PendingCode>();
+  let identity: MockIdentity | null = null;
+  let issuer = '';
+
+  const app = express();
+  app.use(express.urlencoded({ extended: false }));
+
+  app.get('/.well-known/openid-configuration', (_req, res) => {
+    res.json({
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      jwks_uri: `${issuer}/jwks`,
+      response_types_supported: ['code'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: ['RS256'],
+      code_challenge_methods_supported: ['S256'],
+      token_endpoint_auth_methods_supported: ['client_secret_basic', 'client_secret_post']
+    });
+  });
+
+  app.get('/jwks', (_req, res) => {
+    res.json({ keys: [{ ...publicKey.export({ format: 'jwk' }), kid, alg: 'RS256', use: 'sig' }] });
+  });
+
+  app.get('/authorize', (req, res) => {
+    const redirectUri = String(req.query.redirect_uri);
+    if (req.query.client_id !== clientId || !identity) {
+      return res.status(400).send('invalid_request');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    codes.set(code, {
+      identity,
+      nonce: req.query.nonce as string | undefined,
+      codeChallenge: req.query.code_challenge as string | undefined,
+      redirectUri
+    });
+
+    const location = new URL(redirectUri);
+    location.searchParams.set('code', code);
+    location.searchParams.set('state', String(req.query.state));
+    res.redirect(location.href);
+  });
+
+  app.post('/token', (req, res) => {
+    const pending = codes.get(req.body.code);
+    codes.delete(req.body.code);
+
+    if (!pending || pending.redirectUri !== req.body.redirect_uri) {
+      return res.status(400).json({ error: 'invalid_grant' });
+    }
+
+    const challenge = base64url(crypto.createHash('sha256').update(req.body.code_verifier || '').digest());
+    if (pending.codeChallenge && challenge !== pending.codeChallenge) {
+      return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+    }
+
+    const now = Math.floor(Date.now() / 1000);
+    const header = base64url(JSON.stringify({ alg: 'RS256', typ: 'JWT', kid }));
+    const payload = base64url(JSON.stringify({
+      iss: issuer,
+      aud: clientId,
+      iat: now,
+      exp: now + 300,
+      nonce: pending.nonce,
+      ...pending.identity
+    }));
+    const signature = base64url(crypto.sign('sha256', Buffer.from(`${header}.${payload}`), privateKey));
+
+    res.json({
+      access_token: crypto.randomBytes(16).toString('hex'),
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: `${header}.${payload}.${signature}`
+    });
+  });
+
+  const server: Server = await new Promise(resolve => {
+    const listening = app.listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  issuer = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  return {
+    issuer,
+    clientId,
+    clientSecret,
+    setIdentity(next) {
+      identity = next;
+    },
+    close() {
+      return new Promise(resolve => server.close(() => resolve()));
+    }
+  };
+}
+
+/**
+ * Run the full browser redirect flow for an agent and return the callback response
+ *
+ * @param agent - Supertest agent holding the app session cookie
+ * @param provider - Mock provider to authenticate against
+ * @param identity - Identity the provider should assert
+ */
+export async function signInWithMockSso(
+  agent: request.Agent,
+  provider: MockOidcProvider,
+  identity: MockIdentity
+) {
+  provider.setIdentity(identity);
+
+  const start = await agent.get('/api/auth/oidc/login').expect(302);
+  const authorize = await fetch(start.headers.location, { redirect: 'manual' });
+  const callback = new URL(authorize.headers.get('location')!);
+
+  return agent.get(`/api/auth/oidc/callback${callback.search}`);
+}
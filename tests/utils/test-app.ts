@@ -7,6 +7,8 @@
 
 import express, { type Express } from "express";
 import { registerRoutes } from "../../server/routes";
+import { captureRawBody } from "../../server/services/requestSigningService";
+import { requestLogger } from "../../server/middleware/requestLogger";
 
 let app: Express;
 
@@ -16,8 +18,9 @@ let app: Express;
 export async function getTestApp() {
   if (!app) {
     app = express();
-    app.use(express.json());
-    app.use(express.urlencoded({ extended: false }));
+    app.use(express.json({ verify: captureRawBody }));
+    app.use(express.urlencoded({ extended: false, verify: captureRawBody }));
+    app.use(requestLogger);
 
     // Register all routes but don't start the server
     await registerRoutes(app);
@@ -22,8 +22,26 @@ import {
   incidentLogs,
   documents,
   apiKeys,
+  apiKeyUsage,
+  rateLimitCounters,
+  requestSignatureNonces,
   employeeInvitations,
-  audits
+  audits,
+  auditCheckpoints,
+  siemExportCheckpoints,
+  archivedAudits,
+  auditArchives,
+  auditRetentionPolicies,
+  encryptionJobs,
+  employeeDuplicateCandidates,
+  employeeSeparations,
+  securitySettings,
+  roles,
+  userLocations,
+  passkeys,
+  webhookDeliveries,
+  webhookEndpoints,
+  locations
 } from '../../shared/schema';
 import { sql } from 'drizzle-orm';
 
@@ -50,6 +68,14 @@ export const testDb = {
       // Clear all tables in reverse dependency order
       const tables = [
         audits,
+        auditCheckpoints,
+        siemExportCheckpoints,
+        archivedAudits,
+        auditArchives,
+        auditRetentionPolicies,
+        encryptionJobs,
+        employeeDuplicateCandidates,
+        employeeSeparations,
         documents,
         incidentLogs,
         payerEnrollments,
@@ -64,7 +90,17 @@ export const testDb = {
         educations,
         employeeInvitations,
         employees,
+        apiKeyUsage,
+        requestSignatureNonces,
         apiKeys,
+        rateLimitCounters,
+        securitySettings,
+        roles,
+        userLocations,
+        passkeys,
+        webhookDeliveries,
+        webhookEndpoints,
+        locations,
         users,
       ];
 
@@ -87,6 +123,14 @@ export const testDb = {
       // Order matters due to foreign key constraints
       const tables = [
         audits,
+        auditCheckpoints,
+        siemExportCheckpoints,
+        archivedAudits,
+        auditArchives,
+        auditRetentionPolicies,
+        encryptionJobs,
+        employeeDuplicateCandidates,
+        employeeSeparations,
         documents,
         incidentLogs,
         payerEnrollments,
@@ -101,7 +145,17 @@ export const testDb = {
         educations,
         employeeInvitations,
         employees,
+        apiKeyUsage,
+        requestSignatureNonces,
         apiKeys,
+        rateLimitCounters,
+        securitySettings,
+        roles,
+        userLocations,
+        passkeys,
+        webhookDeliveries,
+        webhookEndpoints,
+        locations,
         users,
       ];
 
@@ -117,7 +171,7 @@ export const testDb = {
   /**
    * Create a test user with specified role
    */
-  async createTestUser(userData: { username: string; password: string; role?: string }) {
+  async createTestUser(userData: { username: string; password: string; role?: string; email?: string; status?: string }) {
     // Use bcrypt directly instead of importing from auth module to avoid circular imports
     const bcrypt = await import('bcrypt');
     const saltRounds = 10;
@@ -127,6 +181,8 @@ export const testDb = {
       username: userData.username,
       passwordHash: passwordHash,
       role: userData.role || 'hr',
+      email: userData.email,
+      status: userData.status,
     }).returning();
 
     return user;
@@ -140,12 +196,16 @@ export const testDb = {
     lastName: string;
     workEmail: string;
     status?: string;
+    workLocation?: string;
+    userId?: number;
   }) {
     const [employee] = await db.insert(employees).values({
       firstName: employeeData.firstName,
       lastName: employeeData.lastName,
       workEmail: employeeData.workEmail,
       status: employeeData.status || 'active',
+      workLocation: employeeData.workLocation,
+      userId: employeeData.userId,
     }).returning();
 
     return employee;